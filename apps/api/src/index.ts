@@ -3,6 +3,8 @@ import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import dotenv from 'dotenv';
+import { agentRuntime } from './server/agent-runtime';
+import { authService, MAGIC_LINK_CALLBACK_PATH } from './server/auth/auth-service';
 
 // Load environment variables
 dotenv.config();
@@ -50,18 +52,25 @@ app.get('/api/status', (req, res) => {
   });
 });
 
+// Sign-in links from emails, forwarded here by the dashboard
+app.get(MAGIC_LINK_CALLBACK_PATH, async (req, res, next) => {
+  try {
+    const { location, cookie } = await authService.handleMagicLinkCallback(req.query);
+    if (cookie) res.setHeader('Set-Cookie', cookie);
+    res.redirect(location);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Agent status endpoint
-app.get('/api/agents', (req, res) => {
-  res.json({
-    agents: [
-      { id: 'content', name: 'Content Agent', status: 'active', lastExecution: new Date().toISOString() },
-      { id: 'ad', name: 'Ad Agent', status: 'active', lastExecution: new Date().toISOString() },
-      { id: 'outreach', name: 'Outreach Agent', status: 'idle', lastExecution: null },
-      { id: 'trend', name: 'Trend Agent', status: 'active', lastExecution: new Date().toISOString() },
-      { id: 'insight', name: 'Insight Agent', status: 'active', lastExecution: new Date().toISOString() },
-      { id: 'design', name: 'Design Agent', status: 'idle', lastExecution: null }
-    ]
-  });
+app.get('/api/agents', async (req, res, next) => {
+  try {
+    const agents = await agentRuntime.getAllAgentStatuses();
+    res.json({ agents });
+  } catch (error) {
+    next(error);
+  }
 });
 
 // Campaigns endpoint
@@ -109,11 +118,19 @@ app.use('*', (req, res) => {
   });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 NeonHub AI Marketing Ecosystem API running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
-  console.log(`🔗 API status: http://localhost:${PORT}/api/status`);
-  console.log(`🤖 Agents: http://localhost:${PORT}/api/agents`);
-  console.log(`📈 Campaigns: http://localhost:${PORT}/api/campaigns`);
-}); 
\ No newline at end of file
+// Start server once the shared agent runtime has loaded agents from the database
+agentRuntime
+  .start({ syncIntervalMs: Number(process.env.AGENT_SYNC_INTERVAL_MS || 60_000) })
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`🚀 NeonHub AI Marketing Ecosystem API running on port ${PORT}`);
+      console.log(`📊 Health check: http://localhost:${PORT}/health`);
+      console.log(`🔗 API status: http://localhost:${PORT}/api/status`);
+      console.log(`🤖 Agents: http://localhost:${PORT}/api/agents`);
+      console.log(`📈 Campaigns: http://localhost:${PORT}/api/campaigns`);
+    });
+  })
+  .catch(error => {
+    console.error('Failed to start agent runtime:', error);
+    process.exit(1);
+  });
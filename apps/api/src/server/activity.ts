@@ -0,0 +1,127 @@
+import {
+  prisma,
+  type ActivityEvent,
+  type ActivityType,
+  type AgentExecution,
+  type Campaign,
+  type Prisma,
+  type PrismaClient,
+} from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+
+export interface RecordActivityInput {
+  campaignId: string;
+  type: ActivityType;
+  actorId?: string | null;
+  workspaceId?: string | null;
+  data?: Record<string, unknown>;
+}
+
+export type CampaignSnapshot = Pick<Campaign, 'id' | 'name' | 'status' | 'budget' | 'workspaceId'>;
+
+export type ExecutionSnapshot = Pick<
+  AgentExecution,
+  'id' | 'agentId' | 'campaignId' | 'userId' | 'workspaceId' | 'task' | 'status' | 'error'
+>;
+
+/**
+ * Automatic history of a campaign: creation, status changes, budget edits,
+ * budget alerts and agent executions, shown next to its comments.
+ *
+ * Recording never throws. The change it describes has already happened, and
+ * a missing feed entry must not turn it into an error for the caller.
+ */
+export class ActivityService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger
+  ) {}
+
+  async record(input: RecordActivityInput): Promise<ActivityEvent | null> {
+    try {
+      return await this.db.activityEvent.create({
+        data: {
+          campaignId: input.campaignId,
+          type: input.type,
+          ...(input.actorId && { actorId: input.actorId }),
+          ...(input.workspaceId && { workspaceId: input.workspaceId }),
+          ...(input.data && { data: input.data as Prisma.InputJsonValue }),
+        },
+      });
+    } catch (error) {
+      this.log.error('Failed to record campaign activity', {
+        campaignId: input.campaignId,
+        type: input.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  async recordCampaignCreated(campaign: CampaignSnapshot, actorId?: string): Promise<void> {
+    await this.record({
+      campaignId: campaign.id,
+      type: 'CAMPAIGN_CREATED',
+      actorId: actorId ?? null,
+      workspaceId: campaign.workspaceId,
+      data: { name: campaign.name, status: campaign.status, budget: campaign.budget },
+    });
+  }
+
+  /**
+   * Record what changed between two versions of a campaign. Edits that touch
+   * neither its status nor its budget are not part of the feed.
+   */
+  async recordCampaignUpdate(
+    before: CampaignSnapshot,
+    after: CampaignSnapshot,
+    actorId?: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    const base = { campaignId: after.id, actorId: actorId ?? null, workspaceId: after.workspaceId };
+
+    if (before.status !== after.status) {
+      await this.record({
+        ...base,
+        type: 'STATUS_CHANGED',
+        data: { ...details, from: before.status, to: after.status },
+      });
+    }
+    if (before.budget !== after.budget) {
+      await this.record({
+        ...base,
+        type: 'BUDGET_CHANGED',
+        data: { ...details, from: before.budget, to: after.budget },
+      });
+    }
+  }
+
+  /** Record a finished agent execution if it belongs to a campaign */
+  async recordExecution(execution: ExecutionSnapshot, agentType?: string): Promise<void> {
+    if (!execution.campaignId) return;
+
+    await this.record({
+      campaignId: execution.campaignId,
+      type: 'AGENT_EXECUTION',
+      actorId: execution.userId,
+      workspaceId: execution.workspaceId,
+      data: {
+        executionId: execution.id,
+        agentId: execution.agentId,
+        ...(agentType && { agentType }),
+        task: execution.task,
+        status: execution.status,
+        ...(execution.error && { error: execution.error }),
+      },
+    });
+  }
+}
+
+const globalForActivity = globalThis as unknown as {
+  activityService: ActivityService | undefined;
+};
+
+export const activityService =
+  globalForActivity.activityService ?? new ActivityService(prisma, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForActivity.activityService = activityService;
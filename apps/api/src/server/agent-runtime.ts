@@ -0,0 +1,366 @@
+import {
+  AgentFactory,
+  AgentManager,
+  AgentPriorityWeight,
+  AgentScheduler,
+  createLLMProviderFromEnv,
+  createTaskPayload,
+  getTaskSideEffect,
+  registerAllAgents,
+  isAgentTypeRegistered,
+  type AgentExecuteOptions,
+  type AgentPayload,
+  type AgentResult,
+  type AgentStatus,
+  type AgentTaskType,
+  type BaseAgent,
+  type LLMProvider,
+  type PromptRegistry,
+  type TaskExecuteOptions,
+  type TaskInput,
+  type TaskName,
+  type TaskResult,
+} from '@neonhub/core-agents';
+import { prisma, type Agent, type Prisma, type PrismaClient } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import { activityService, type ActivityService } from './activity';
+import { auditService, collectTargetIds, type AuditService } from './audit';
+import { promptRegistry } from './prompt-store';
+
+type AgentRecord = Pick<Agent, 'id' | 'name' | 'type' | 'status' | 'settings' | 'updatedAt'>;
+
+export interface AgentRuntimeOptions {
+  /** How often to reconcile in-memory agents with the `agents` table. 0 disables polling. */
+  syncIntervalMs?: number;
+}
+
+export interface AgentRuntimeConfig {
+  /** Executions running at once in this process, across all agents */
+  maxConcurrent?: number;
+  /** Executions running at once per agent when its settings do not set `maxConcurrent` */
+  defaultAgentConcurrency?: number;
+  /** Language model handed to every agent */
+  llm?: LLMProvider;
+  /** Prompt templates handed to every agent */
+  prompts?: PromptRegistry;
+  /** Feed that recorded runs for a campaign are added to */
+  activity?: ActivityService;
+  /** Log that runs of tasks with side effects are written to */
+  audit?: AuditService;
+}
+
+/**
+ * Process-wide agent runtime.
+ *
+ * Owns the single AgentManager for the API process and keeps its instances in
+ * sync with the rows of the `agents` table: every ACTIVE row gets a live agent
+ * created through the AgentFactory, rows that disappear or become inactive are
+ * unloaded, and rows whose `updatedAt` changed are re-instantiated.
+ *
+ * Executions go through an AgentScheduler, which starts them by priority and
+ * caps how many run per agent (`settings.maxConcurrent` on the agent row).
+ * Runs that did not come from the job queue are recorded in `agent_executions`
+ * as well, so every run's prompt versions and LLM usage can be looked up.
+ */
+export class AgentRuntime {
+  private readonly manager = new AgentManager();
+  private readonly scheduler: AgentScheduler;
+  private readonly llm: LLMProvider;
+  private readonly prompts: PromptRegistry | undefined;
+  private readonly activity: ActivityService | undefined;
+  private readonly audit: AuditService | undefined;
+  private readonly loadedVersions = new Map<string, number>();
+  private startPromise: Promise<void> | null = null;
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger,
+    config: AgentRuntimeConfig = {}
+  ) {
+    const { llm, prompts, activity, audit, ...schedulerOptions } = config;
+    this.scheduler = new AgentScheduler(schedulerOptions);
+    this.llm = llm ?? createLLMProviderFromEnv();
+    this.prompts = prompts;
+    this.activity = activity;
+    this.audit = audit;
+  }
+
+  /**
+   * Boot the runtime. Safe to call more than once; every caller awaits the same boot.
+   */
+  start(options: AgentRuntimeOptions = {}): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.boot(options).catch(error => {
+        this.startPromise = null;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  stop(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    this.startPromise = null;
+  }
+
+  /**
+   * Reconcile in-memory agent instances with the `agents` table.
+   */
+  async sync(): Promise<void> {
+    const records: AgentRecord[] = await this.db.agent.findMany({
+      select: { id: true, name: true, type: true, status: true, settings: true, updatedAt: true },
+    });
+
+    const activeIds = new Set<string>();
+
+    for (const record of records) {
+      if (record.status !== 'ACTIVE') continue;
+
+      const agentType = record.type.toLowerCase();
+      if (!isAgentTypeRegistered(agentType)) {
+        this.log.warn(`Skipping agent ${record.id}: no implementation for type ${agentType}`);
+        continue;
+      }
+
+      activeIds.add(record.id);
+      this.scheduler.setAgentConcurrency(record.id, this.getMaxConcurrent(record.settings));
+
+      const version = record.updatedAt.getTime();
+      if (this.manager.hasAgent(record.id) && this.loadedVersions.get(record.id) === version) {
+        continue;
+      }
+
+      this.manager.registerAgent(
+        AgentFactory.createAgent(agentType, record.id, record.name, {
+          llm: this.llm,
+          ...(this.prompts && { prompts: this.prompts }),
+        })
+      );
+      this.loadedVersions.set(record.id, version);
+      this.log.info(`Agent loaded: ${record.name}`, { agentId: record.id, type: agentType });
+    }
+
+    for (const agent of this.manager.getAllAgents()) {
+      if (!activeIds.has(agent.id)) {
+        this.manager.unregisterAgent(agent.id);
+        this.loadedVersions.delete(agent.id);
+        this.scheduler.setAgentConcurrency(agent.id, undefined);
+        this.log.info(`Agent unloaded: ${agent.name}`, { agentId: agent.id });
+      }
+    }
+  }
+
+  getAgent(id: string): BaseAgent | undefined {
+    return this.manager.getAgent(id);
+  }
+
+  getAgentsByType(type: string): BaseAgent[] {
+    return this.manager.getAgentsByType(type);
+  }
+
+  /**
+   * Resolve an agent either by its row id or by its type (e.g. `content`).
+   * When several agents share a type, the first loaded one is used.
+   */
+  resolveAgent(idOrType: string): BaseAgent | undefined {
+    return this.manager.getAgent(idOrType) ?? this.manager.getAgentsByType(idOrType)[0];
+  }
+
+  /**
+   * Run a task on an agent through the scheduler. The result reports a
+   * `timeout`, `cancelled` or `preempted` errorCode when it was stopped early.
+   * Tasks with side effects (spending, contacting customers) are refused with
+   * `approval_required` unless the payload carries an approved `approvalId`.
+   *
+   * Called as `executeAgent('content', 'generate_posts', input, options)` the
+   * input and `result.data` are typed through the TaskMap.
+   */
+  executeAgent(
+    idOrType: string,
+    payload: AgentPayload,
+    options?: AgentExecuteOptions
+  ): Promise<AgentResult>;
+  executeAgent<Type extends AgentTaskType, Task extends TaskName<Type>>(
+    idOrType: Type,
+    task: Task,
+    input: TaskInput<Type, Task>,
+    options?: TaskExecuteOptions
+  ): Promise<TaskResult<Type, Task>>;
+  async executeAgent(
+    idOrType: string,
+    payloadOrTask: AgentPayload | string,
+    inputOrOptions?: unknown,
+    taskOptions: TaskExecuteOptions = {}
+  ): Promise<AgentResult> {
+    await this.start();
+
+    const agent = this.resolveAgent(idOrType);
+    if (!agent) {
+      throw new Error(`Agent not found: ${idOrType}`);
+    }
+
+    let payload: AgentPayload;
+    let options: AgentExecuteOptions;
+    if (typeof payloadOrTask === 'string') {
+      const { signal, ...payloadOptions } = taskOptions;
+      payload = createTaskPayload(payloadOrTask, inputOrOptions, payloadOptions);
+      options = signal ? { signal } : {};
+    } else {
+      payload = payloadOrTask;
+      options = (inputOrOptions as AgentExecuteOptions | undefined) ?? {};
+    }
+    const startedAt = new Date();
+    const sideEffect = getTaskSideEffect(agent.type, payload.task);
+    const result =
+      sideEffect && !payload.metadata?.approvalId
+        ? this.approvalRequired(agent, payload.task, sideEffect)
+        : await this.scheduler.schedule(agent, payload, options);
+
+    // Queued jobs are recorded by the worker that runs them
+    if (!payload.metadata?.executionId) {
+      await this.recordExecution(agent, payload, result, startedAt);
+    }
+    if (sideEffect) {
+      await this.auditAction(agent, payload, result, startedAt);
+    }
+    return result;
+  }
+
+  getSchedulerStats(): ReturnType<AgentScheduler['getStats']> {
+    return this.scheduler.getStats();
+  }
+
+  async getAgentStatus(id: string): Promise<AgentStatus | null> {
+    return this.manager.getAgentStatus(id);
+  }
+
+  async getAllAgentStatuses(): Promise<AgentStatus[]> {
+    return this.manager.getAllAgentStatuses();
+  }
+
+  private approvalRequired(agent: BaseAgent, task: string, sideEffect: string): AgentResult {
+    return {
+      success: false,
+      error: `Task ${agent.type}.${task} has side effects (${sideEffect}) and needs an approval`,
+      errorCode: 'approval_required',
+      metadata: { agentId: agent.id, agentName: agent.name, timestamp: new Date().toISOString() },
+    };
+  }
+
+  private async recordExecution(
+    agent: BaseAgent,
+    payload: AgentPayload,
+    result: AgentResult,
+    startedAt: Date
+  ): Promise<void> {
+    const userId = payload.metadata?.userId;
+    const campaignId = payload.metadata?.campaignId;
+    const workspaceId = payload.metadata?.workspaceId;
+
+    try {
+      const execution = await this.db.agentExecution.create({
+        data: {
+          agentId: agent.id,
+          ...(typeof userId === 'string' && { userId }),
+          ...(typeof campaignId === 'string' && { campaignId }),
+          ...(typeof workspaceId === 'string' && { workspaceId }),
+          task: payload.task,
+          payload: (payload.context ?? {}) as Prisma.InputJsonValue,
+          result: (result.success ? result.data ?? null : null) as Prisma.InputJsonValue,
+          status: result.success
+            ? 'COMPLETED'
+            : result.errorCode === 'cancelled' || result.errorCode === 'preempted'
+              ? 'CANCELLED'
+              : 'FAILED',
+          performance: result.performance ?? null,
+          error: result.success ? null : result.error ?? 'Agent execution failed',
+          priority: AgentPriorityWeight[payload.priority],
+          startedAt,
+          completedAt: new Date(),
+          attempts: 1,
+          maxAttempts: 1,
+          metadata: {
+            priority: payload.priority,
+            ...(result.metadata?.llmUsage && { llmUsage: result.metadata.llmUsage }),
+            ...(result.metadata?.prompts && { prompts: result.metadata.prompts }),
+          } as Prisma.InputJsonValue,
+        },
+      });
+      await this.activity?.recordExecution(execution, agent.type);
+    } catch (error) {
+      // The run itself succeeded or failed on its own; losing its record must not change that
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log.warn('Failed to record agent execution', { agentId: agent.id, error: errorMessage });
+    }
+  }
+
+  /** Agents spending, contacting or publishing act on someone's behalf, so they are audited */
+  private async auditAction(
+    agent: BaseAgent,
+    payload: AgentPayload,
+    result: AgentResult,
+    startedAt: Date
+  ): Promise<void> {
+    if (!this.audit) return;
+
+    const { userId, campaignId, workspaceId } = payload.metadata ?? {};
+    await this.audit.record({
+      actorType: 'AGENT',
+      actorId: typeof userId === 'string' ? userId : null,
+      agentId: agent.id,
+      procedure: `${agent.type}.${payload.task}`,
+      input: payload.context ?? {},
+      targetIds: collectTargetIds({ campaignId, ...payload.context }),
+      outcome: result.success ? 'SUCCESS' : 'FAILURE',
+      error: result.success ? null : result.error ?? 'Agent execution failed',
+      durationMs: Date.now() - startedAt.getTime(),
+      workspaceId: typeof workspaceId === 'string' ? workspaceId : null,
+    });
+  }
+
+  private getMaxConcurrent(settings: Agent['settings']): number | undefined {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return undefined;
+    const value = (settings as Record<string, unknown>).maxConcurrent;
+    return typeof value === 'number' && value > 0 ? value : undefined;
+  }
+
+  private async boot(options: AgentRuntimeOptions): Promise<void> {
+    registerAllAgents();
+    await this.sync();
+
+    const syncIntervalMs = options.syncIntervalMs ?? 0;
+    if (syncIntervalMs > 0 && !this.syncTimer) {
+      this.syncTimer = setInterval(() => {
+        this.sync().catch(error => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.log.error('Agent runtime sync failed', { error: errorMessage });
+        });
+      }, syncIntervalMs);
+      this.syncTimer.unref();
+    }
+
+    this.log.info('Agent runtime started', {
+      agents: this.manager.getAllAgents().map(agent => agent.id),
+      llmProvider: this.llm.name,
+    });
+  }
+}
+
+const globalForAgents = globalThis as unknown as {
+  agentRuntime: AgentRuntime | undefined;
+};
+
+export const agentRuntime =
+  globalForAgents.agentRuntime ??
+  new AgentRuntime(prisma, logger, {
+    maxConcurrent: Number(process.env.AGENT_MAX_CONCURRENT || 10),
+    prompts: promptRegistry,
+    activity: activityService,
+    audit: auditService,
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForAgents.agentRuntime = agentRuntime;
@@ -0,0 +1,700 @@
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { z } from 'zod';
+import {
+  ALERT_WINDOWS,
+  AlertRuleSettingsSchema,
+  bucketStart,
+  evaluateAlertRule,
+  median,
+  type AlertChannel,
+  type AlertDecision,
+  type AlertGranularity,
+  type AlertRuleSettings,
+  type TaskInput,
+} from '@neonhub/core-agents';
+import {
+  Prisma,
+  prisma,
+  type Alert,
+  type AlertRule,
+  type Platform,
+  type PrismaClient,
+} from '@neonhub/data-model';
+import { logger, ratio, type Logger } from '@neonhub/utils';
+import { mailer, type Mailer } from './mailer';
+import { CAMPAIGN_METRICS, CampaignMetricSchema, type MetricSelector } from './metric-rollups';
+
+/** Metrics alert rules can watch: the campaign metrics, click-through rate and spend */
+export const AlertMetricSchema = z.enum([...CampaignMetricSchema.options, 'ctr', 'spend']);
+
+export type AlertMetric = z.infer<typeof AlertMetricSchema>;
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  engagement: 'Engagement',
+  reach: 'Reach',
+  conversions: 'Conversions',
+  revenue: 'Revenue',
+  clicks: 'Clicks',
+  impressions: 'Impressions',
+  ctr: 'CTR',
+  spend: 'Spend',
+};
+
+/** Input of `insight.identify_patterns` */
+export type IdentifyPatternsInput = TaskInput<'insight', 'identify_patterns'>;
+
+export interface AlertDelivery {
+  channel: AlertChannel['type'];
+  status: 'sent' | 'failed' | 'skipped';
+  /** Recipients reached: users notified in the app, addresses mailed, or the webhook URL */
+  target?: string;
+  error?: string;
+}
+
+export interface AlertEvaluationSummary {
+  rules: number;
+  alerts: Alert[];
+}
+
+export interface AlertServiceOptions {
+  /** Dashboard URL, linked from emails and webhooks */
+  appUrl?: string;
+  /** Webhooks that take longer than this count as failed */
+  webhookTimeoutMs?: number;
+}
+
+/** One campaign and platform's values of a metric, oldest bucket first */
+interface MetricSeries {
+  campaignId: string | null;
+  platform: Platform | null;
+  /** Null for buckets the metric is undefined in, e.g. CTR without impressions */
+  values: Array<number | null>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const BUCKET_MS: Record<AlertGranularity, number> = { hour: HOUR_MS, day: 24 * HOUR_MS };
+
+// Campaign changes this long before a flagged bucket are passed to the explanation
+const ACTIVITY_WINDOW_MS = 48 * HOUR_MS;
+
+function formatValue(metric: AlertMetric, value: number): string {
+  if (metric === 'ctr') return `${value.toFixed(2)}%`;
+  if (metric === 'spend' || metric === 'revenue') return `$${value.toFixed(2)}`;
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(1);
+}
+
+/**
+ * Whether an IP address is outside the public internet: unspecified,
+ * loopback, private, shared, link-local, multicast or reserved. IPv4 addresses
+ * mapped into IPv6 are judged as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const mapped = /^::ffff:(?:([\d.]+)|([\da-f]{1,4}):([\da-f]{1,4}))$/.exec(ip);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const high = parseInt(mapped[2] ?? '0', 16);
+    const low = parseInt(mapped[3] ?? '0', 16);
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  if (isIP(ip) === 4) {
+    const [a = 0, b = 0, c = 0] = ip.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && c === 0) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+  if (isIP(ip) === 6) {
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd]/.test(ip) ||
+      /^fe[89ab]/.test(ip) ||
+      ip.startsWith('ff') ||
+      ip.startsWith('64:ff9b:')
+    );
+  }
+  return false;
+}
+
+/**
+ * Why alerts may not be posted to a webhook URL, or null when they may: it
+ * has to use https and must not name a local host or private address.
+ * Host names are checked again when an alert is sent, against what they
+ * resolve to then.
+ */
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Webhook URL is invalid';
+  }
+  if (url.protocol !== 'https:') return 'Webhook URL must use https';
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return 'Webhook URL must point to a public address';
+  }
+  return null;
+}
+
+/** Throws unless the webhook URL is allowed and its host resolves only to public addresses */
+async function assertPublicWebhook(url: string): Promise<void> {
+  const problem = webhookUrlProblem(url);
+  if (problem) throw new Error(problem);
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return;
+  const addresses = await lookup(host, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error('Webhook host resolves to a private address');
+  }
+}
+
+/** A channel as returned to users; webhook secrets are write-only */
+export type AlertChannelView =
+  | Exclude<AlertChannel, { type: 'webhook' }>
+  | { type: 'webhook'; url: string; hasSecret: boolean };
+
+export type AlertRuleSettingsView = Omit<AlertRuleSettings, 'channels'> & {
+  channels: AlertChannelView[];
+};
+
+/** A stored rule with its webhook secrets replaced by whether one is set */
+export function maskAlertRule<Rule extends Pick<AlertRule, 'settings'>>(
+  rule: Rule
+): Omit<Rule, 'settings'> & { settings: AlertRuleSettingsView } {
+  const settings = AlertRuleSettingsSchema.parse(rule.settings);
+  return {
+    ...rule,
+    settings: {
+      ...settings,
+      channels: settings.channels.map(channel =>
+        channel.type === 'webhook'
+          ? { type: 'webhook', url: channel.url, hasSecret: Boolean(channel.secret) }
+          : channel
+      ),
+    },
+  };
+}
+
+/**
+ * Settings to store when a rule is changed. Webhooks sent without a secret
+ * keep the one stored for the same URL, since it is never shown to be sent
+ * back; an empty secret removes it.
+ */
+export function keepWebhookSecrets(
+  settings: AlertRuleSettings,
+  stored: Prisma.JsonValue
+): AlertRuleSettings {
+  const previous = AlertRuleSettingsSchema.safeParse(stored);
+  const secrets = new Map(
+    (previous.success ? previous.data.channels : []).flatMap(channel =>
+      channel.type === 'webhook' && channel.secret ? [[channel.url, channel.secret] as const] : []
+    )
+  );
+  return {
+    ...settings,
+    channels: settings.channels.map(channel => {
+      if (channel.type !== 'webhook') return channel;
+      const secret = channel.secret ?? secrets.get(channel.url);
+      return { type: 'webhook', url: channel.url, ...(secret && { secret }) };
+    }),
+  };
+}
+
+/**
+ * Alert rules on metric rollups and spend: evaluates them for every campaign
+ * and platform they cover, raises alerts for anomalies and crossed thresholds,
+ * and delivers them as in-app notifications, email and webhooks.
+ *
+ * A rule evaluates the latest complete hour or day once. Cooldowns apply per
+ * campaign and platform, so a spike on one campaign does not silence another.
+ * Alerts raised in a rule's quiet hours are only shown in the app. Delivery
+ * failures are recorded on the alert and never fail the evaluation.
+ */
+export class AlertService {
+  private readonly appUrl: string;
+  private readonly webhookTimeoutMs: number;
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly mail: Mailer,
+    private readonly log: Logger,
+    options: AlertServiceOptions = {}
+  ) {
+    this.appUrl = options.appUrl ?? 'http://localhost:3000';
+    this.webhookTimeoutMs = options.webhookTimeoutMs ?? 10_000;
+  }
+
+  /**
+   * Evaluate every enabled rule whose latest complete bucket has not been
+   * evaluated yet; all of a workspace's rules when `workspaceId` is given.
+   */
+  async evaluateDue(
+    options: { workspaceId?: string; force?: boolean; now?: Date } = {}
+  ): Promise<AlertEvaluationSummary> {
+    const now = options.now ?? new Date();
+    const rules = await this.db.alertRule.findMany({
+      where: { enabled: true, ...(options.workspaceId && { workspaceId: options.workspaceId }) },
+    });
+
+    const alerts: Alert[] = [];
+    let evaluated = 0;
+    for (const rule of rules) {
+      const settings = AlertRuleSettingsSchema.parse(rule.settings);
+      const latest = this.latestBucket(settings.granularity, now);
+      if (!options.force && rule.lastEvaluatedAt && rule.lastEvaluatedAt >= latest) continue;
+
+      try {
+        alerts.push(...(await this.evaluateRule(rule, settings, now)));
+        evaluated++;
+      } catch (error) {
+        this.log.error('Failed to evaluate alert rule', {
+          ruleId: rule.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return { rules: evaluated, alerts };
+  }
+
+  /** Mark an alert as seen and handled; null when it is not in the workspace */
+  async acknowledge(alertId: string, userId: string, workspaceId: string): Promise<Alert | null> {
+    const alert = await this.db.alert.findFirst({ where: { id: alertId, workspaceId } });
+    if (!alert) return null;
+    if (alert.status === 'ACKNOWLEDGED') return alert;
+
+    const [updated] = await this.db.$transaction([
+      this.db.alert.update({
+        where: { id: alertId },
+        data: { status: 'ACKNOWLEDGED', acknowledgedById: userId, acknowledgedAt: new Date() },
+      }),
+      this.db.notification.updateMany({
+        where: { alertId, readAt: null },
+        data: { readAt: new Date() },
+      }),
+    ]);
+    return updated;
+  }
+
+  /**
+   * Input for `insight.identify_patterns` explaining an alert: the flagged
+   * value, the campaign's other metrics in the same bucket against their usual
+   * values, and its activity shortly before. Null when the alert is not in the
+   * workspace.
+   */
+  async getIdentifyPatternsInput(
+    alertId: string,
+    workspaceId: string
+  ): Promise<IdentifyPatternsInput | null> {
+    const alert = await this.db.alert.findFirst({
+      where: { id: alertId, workspaceId },
+      include: { rule: true, campaign: { select: { name: true } } },
+    });
+    if (!alert) return null;
+
+    const settings = AlertRuleSettingsSchema.parse(alert.rule.settings);
+    const { period, lookback } = ALERT_WINDOWS[settings.granularity];
+    const to = new Date(alert.bucketStart.getTime() + BUCKET_MS[settings.granularity]);
+    const scope = { campaignId: alert.campaignId, platform: alert.platform };
+
+    const related: Record<string, { value: number; expected: number }> = {};
+    for (const metric of AlertMetricSchema.options) {
+      if (metric === alert.metric) continue;
+      const [series] = await this.loadSeries(workspaceId, metric, settings.granularity, to, scope);
+      const values = series?.values ?? [];
+      const value = values[values.length - 1];
+      if (value === null || value === undefined) continue;
+      // The same hour of the day or day of the week in the rest of the window
+      const sameSeason = values
+        .slice(0, -1)
+        .filter(
+          (past, index): past is number => past !== null && (lookback - 1 - index) % period === 0
+        );
+      if (sameSeason.length > 0) related[metric] = { value, expected: median(sameSeason) };
+    }
+
+    const activity = alert.campaignId
+      ? await this.db.activityEvent.findMany({
+          where: {
+            campaignId: alert.campaignId,
+            createdAt: { gte: new Date(to.getTime() - ACTIVITY_WINDOW_MS), lt: to },
+          },
+          orderBy: { createdAt: 'asc' },
+          take: 20,
+        })
+      : [];
+
+    return {
+      ...(alert.campaignId && { campaignId: alert.campaignId }),
+      metric: alert.metric,
+      anomalies: [
+        {
+          id: alert.id,
+          metric: alert.metric,
+          at: alert.bucketStart.toISOString(),
+          value: alert.value,
+          expected: alert.expected,
+          score: alert.score,
+          direction:
+            alert.direction === 'spike' || alert.direction === 'drop' ? alert.direction : null,
+          ...(alert.campaign && { campaign: alert.campaign.name }),
+          ...(alert.platform && { platform: alert.platform }),
+          related,
+          recentActivity: activity.map(
+            event =>
+              `${event.createdAt.toISOString()} ${event.type}${event.data ? ` ${JSON.stringify(event.data)}` : ''}`
+          ),
+        },
+      ],
+    };
+  }
+
+  /** Store what `insight.identify_patterns` said about an alert */
+  async saveExplanation(alertId: string, explanation: Prisma.InputJsonValue): Promise<Alert> {
+    return this.db.alert.update({ where: { id: alertId }, data: { explanation } });
+  }
+
+  private latestBucket(granularity: AlertGranularity, now: Date): Date {
+    const current = bucketStart(now, granularity);
+    return new Date(current.getTime() - BUCKET_MS[granularity]);
+  }
+
+  private async evaluateRule(
+    rule: AlertRule,
+    settings: AlertRuleSettings,
+    now: Date
+  ): Promise<Alert[]> {
+    const metric = AlertMetricSchema.parse(rule.metric);
+    const latest = this.latestBucket(settings.granularity, now);
+    const to = new Date(latest.getTime() + BUCKET_MS[settings.granularity]);
+    const series = await this.loadSeries(rule.workspaceId, metric, settings.granularity, to, {
+      campaignId: rule.campaignId,
+      platform: rule.platform,
+    });
+
+    const raised: Array<{ series: MetricSeries; decision: AlertDecision }> = [];
+    for (const entry of series) {
+      if (entry.values[entry.values.length - 1] === null) continue;
+      const values = entry.values.filter((value): value is number => value !== null);
+      const previous = await this.db.alert.findFirst({
+        where: { ruleId: rule.id, campaignId: entry.campaignId, platform: entry.platform },
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true },
+      });
+      const decision = evaluateAlertRule(settings, values, {
+        lastTriggeredAt: previous?.createdAt ?? null,
+        now,
+      });
+      if (decision.triggered && !decision.coolingDown) raised.push({ series: entry, decision });
+    }
+
+    const campaignIds = [...new Set(raised.flatMap(({ series }) => series.campaignId ?? []))];
+    const campaigns =
+      campaignIds.length > 0
+        ? await this.db.campaign.findMany({
+            where: { id: { in: campaignIds } },
+            select: { id: true, name: true },
+          })
+        : [];
+    const campaignNames = new Map(campaigns.map(campaign => [campaign.id, campaign.name]));
+
+    const alerts: Alert[] = [];
+    for (const { series: entry, decision } of raised) {
+      const message = this.describe(metric, settings, decision, {
+        campaign: entry.campaignId ? campaignNames.get(entry.campaignId) : undefined,
+        platform: entry.platform,
+      });
+      let alert: Alert;
+      try {
+        alert = await this.db.alert.create({
+          data: {
+            ruleId: rule.id,
+            metric,
+            campaignId: entry.campaignId,
+            platform: entry.platform,
+            bucketStart: latest,
+            value: decision.value,
+            expected: decision.expected,
+            score: decision.score,
+            direction: decision.direction,
+            message,
+            quiet: decision.quiet,
+            key: [latest.toISOString(), entry.campaignId ?? '', entry.platform ?? ''].join('|'),
+            workspaceId: rule.workspaceId,
+          },
+        });
+      } catch (error) {
+        // Another worker evaluated the same bucket first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')
+          continue;
+        throw error;
+      }
+
+      this.log.warn('Alert raised', { ruleId: rule.id, alertId: alert.id, message });
+      const deliveries = await this.deliver(alert, rule, settings);
+      alerts.push(
+        await this.db.alert.update({
+          where: { id: alert.id },
+          data: { deliveries: deliveries as unknown as Prisma.InputJsonValue },
+        })
+      );
+    }
+
+    await this.db.alertRule.update({
+      where: { id: rule.id },
+      data: { lastEvaluatedAt: latest },
+    });
+    return alerts;
+  }
+
+  /**
+   * The metric per campaign and platform in the buckets of the rule's window
+   * ending at `to`, from the rollups; spend is read from the budget ledger.
+   */
+  private async loadSeries(
+    workspaceId: string,
+    metric: AlertMetric,
+    granularity: AlertGranularity,
+    to: Date,
+    scope: { campaignId: string | null; platform: Platform | null }
+  ): Promise<MetricSeries[]> {
+    const { lookback } = ALERT_WINDOWS[granularity];
+    const size = BUCKET_MS[granularity];
+    const from = new Date(to.getTime() - lookback * size);
+    const groups = new Map<
+      string,
+      { campaignId: string | null; platform: Platform | null; sums: Map<string, number[]> }
+    >();
+
+    const add = (
+      campaignId: string | null,
+      platform: Platform | null,
+      part: string,
+      start: Date,
+      value: number
+    ): void => {
+      const key = `${campaignId ?? ''}|${platform ?? ''}`;
+      const group = groups.get(key) ?? { campaignId, platform, sums: new Map() };
+      const sums = group.sums.get(part) ?? Array.from({ length: lookback }, () => 0);
+      const index = Math.floor((start.getTime() - from.getTime()) / size);
+      if (index >= 0 && index < lookback) sums[index] = (sums[index] ?? 0) + value;
+      group.sums.set(part, sums);
+      groups.set(key, group);
+    };
+
+    if (metric === 'spend') {
+      const entries = await this.db.spendEntry.findMany({
+        where: {
+          workspaceId,
+          spentAt: { gte: from, lt: to },
+          ...(scope.campaignId && { campaignId: scope.campaignId }),
+          ...(scope.platform && { platform: scope.platform }),
+        },
+        select: { campaignId: true, platform: true, amount: true, spentAt: true },
+      });
+      for (const entry of entries) {
+        add(
+          entry.campaignId,
+          entry.platform,
+          'spend',
+          bucketStart(entry.spentAt, granularity),
+          entry.amount
+        );
+      }
+    } else {
+      const selectors: Record<string, MetricSelector> =
+        metric === 'ctr'
+          ? { clicks: CAMPAIGN_METRICS.clicks, impressions: CAMPAIGN_METRICS.impressions }
+          : { [metric]: CAMPAIGN_METRICS[metric] };
+      const rows = await this.db.metricRollup.groupBy({
+        by: ['campaignId', 'platform', 'bucketStart', 'type', 'metric'],
+        where: {
+          workspaceId,
+          granularity: granularity === 'hour' ? 'HOUR' : 'DAY',
+          bucketStart: { gte: from, lt: to },
+          ...(scope.campaignId && { campaignId: scope.campaignId }),
+          ...(scope.platform && { platform: scope.platform }),
+          OR: Object.values(selectors).map(selector => ({
+            type: selector.type,
+            metric: selector.metric,
+          })),
+        },
+        _sum: { value: true },
+      });
+      for (const row of rows) {
+        const part = Object.entries(selectors).find(
+          ([, selector]) => selector.type === row.type && selector.metric === row.metric
+        )?.[0];
+        if (part) add(row.campaignId, row.platform, part, row.bucketStart, row._sum.value ?? 0);
+      }
+    }
+
+    return [...groups.values()].map(group => {
+      const empty = Array.from({ length: lookback }, () => 0);
+      if (metric !== 'ctr') {
+        return { ...group, values: group.sums.get(metric) ?? empty };
+      }
+      const clicks = group.sums.get('clicks') ?? empty;
+      const impressions = group.sums.get('impressions') ?? empty;
+      return {
+        campaignId: group.campaignId,
+        platform: group.platform,
+        values: clicks.map((value, index) => {
+          const rate = ratio(value, impressions[index] ?? 0);
+          return rate === null ? null : rate * 100;
+        }),
+      };
+    });
+  }
+
+  private describe(
+    metric: AlertMetric,
+    settings: AlertRuleSettings,
+    decision: AlertDecision,
+    scope: { campaign: string | undefined; platform: Platform | null }
+  ): string {
+    const label = ALERT_METRIC_LABELS[metric];
+    const value = formatValue(metric, decision.value);
+    const where = [scope.campaign, scope.platform].filter(Boolean).join(' on ');
+    const suffix = where ? ` for ${where}` : '';
+    if (settings.condition.kind === 'threshold') {
+      const limit = formatValue(metric, settings.condition.value);
+      return `${label} is ${value}, ${settings.condition.operator} ${limit}${suffix}`;
+    }
+    const verb = decision.direction === 'drop' ? 'dropped' : 'spiked';
+    const expected =
+      decision.expected === null
+        ? ''
+        : ` (expected about ${formatValue(metric, decision.expected)})`;
+    return `${label} ${verb} to ${value}${expected}${suffix}`;
+  }
+
+  private async deliver(
+    alert: Alert,
+    rule: AlertRule,
+    settings: AlertRuleSettings
+  ): Promise<AlertDelivery[]> {
+    const deliveries: AlertDelivery[] = [];
+    for (const channel of settings.channels) {
+      if (channel.type !== 'in_app' && alert.quiet) {
+        deliveries.push({ channel: channel.type, status: 'skipped', error: 'quiet hours' });
+        continue;
+      }
+      try {
+        deliveries.push(await this.deliverTo(channel, alert, rule));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.log.error('Failed to deliver alert', {
+          alertId: alert.id,
+          channel: channel.type,
+          error: message,
+        });
+        deliveries.push({ channel: channel.type, status: 'failed', error: message });
+      }
+    }
+    return deliveries;
+  }
+
+  private async deliverTo(
+    channel: AlertChannel,
+    alert: Alert,
+    rule: AlertRule
+  ): Promise<AlertDelivery> {
+    const link = `${this.appUrl}/analytics?alert=${alert.id}`;
+    switch (channel.type) {
+      case 'in_app': {
+        const userIds =
+          channel.userIds ??
+          (
+            await this.db.workspaceMember.findMany({
+              where: { workspaceId: alert.workspaceId },
+              select: { userId: true },
+            })
+          ).map(member => member.userId);
+        const { count } = await this.db.notification.createMany({
+          data: userIds.map(userId => ({
+            userId,
+            type: 'alert',
+            title: rule.name,
+            body: alert.message,
+            alertId: alert.id,
+            workspaceId: alert.workspaceId,
+          })),
+        });
+        return { channel: 'in_app', status: 'sent', target: `${count} users` };
+      }
+      case 'email': {
+        for (const to of channel.to) {
+          await this.mail.send({
+            to,
+            subject: `[NeonHub] ${rule.name}: ${alert.message}`,
+            text: `${alert.message}\n\nBucket: ${alert.bucketStart.toISOString()}\n${link}`,
+          });
+        }
+        return { channel: 'email', status: 'sent', target: channel.to.join(', ') };
+      }
+      case 'webhook': {
+        const body = JSON.stringify({
+          event: 'alert.raised',
+          rule: { id: rule.id, name: rule.name },
+          alert: {
+            id: alert.id,
+            metric: alert.metric,
+            campaignId: alert.campaignId,
+            platform: alert.platform,
+            bucketStart: alert.bucketStart.toISOString(),
+            value: alert.value,
+            expected: alert.expected,
+            score: alert.score,
+            direction: alert.direction,
+            message: alert.message,
+            url: link,
+          },
+        });
+        await assertPublicWebhook(channel.url);
+        const response = await fetch(channel.url, {
+          method: 'POST',
+          // A redirect could lead to an address the checks above would refuse
+          redirect: 'error',
+          headers: {
+            'content-type': 'application/json',
+            ...(channel.secret && {
+              'x-neonhub-signature': `sha256=${createHmac('sha256', channel.secret).update(body).digest('hex')}`,
+            }),
+          },
+          body,
+          signal: AbortSignal.timeout(this.webhookTimeoutMs),
+        });
+        if (!response.ok) throw new Error(`Webhook responded with ${response.status}`);
+        return { channel: 'webhook', status: 'sent', target: channel.url };
+      }
+    }
+  }
+}
+
+const globalForAlerts = globalThis as unknown as {
+  alerts: AlertService | undefined;
+};
+
+export const alertService =
+  globalForAlerts.alerts ??
+  new AlertService(prisma, mailer, logger, {
+    appUrl: process.env.NEXTAUTH_URL || 'http://localhost:3000',
+    webhookTimeoutMs: Number(process.env.ALERT_WEBHOOK_TIMEOUT_MS || 10_000),
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForAlerts.alerts = alertService;
@@ -0,0 +1,281 @@
+import { randomUUID } from 'crypto';
+import { enrichAnalyticsEvent, type AnalyticsEvent } from '@neonhub/core-agents';
+import { prisma, type Prisma, type PrismaClient } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import { experimentService, type ExperimentService } from './experiments';
+import { metricRollups, type MetricRollupService, type RollupSource } from './metric-rollups';
+
+export interface AnalyticsIngestConfig {
+  /** Rows written per `createMany`; a full buffer is flushed right away */
+  maxBatchSize?: number;
+  /** Longest an event waits in the buffer before it is written */
+  flushIntervalMs?: number;
+}
+
+export interface IngestContext {
+  workspaceId: string;
+  userId?: string;
+  /** User agent of the request, used for events that carry none */
+  userAgent?: string;
+}
+
+export interface IngestResult {
+  /** Events written */
+  accepted: number;
+  /** Events whose idempotency key was already stored or repeated in the batch */
+  duplicates: number;
+  rejected: Array<{ index: number; reason: string }>;
+}
+
+/** Most events accepted in one `ingest` call */
+export const ANALYTICS_INGEST_BATCH_LIMIT = 500;
+
+interface PendingBatch {
+  rows: Prisma.AnalyticsCreateManyInput[];
+  resolve: (written: number) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Bulk ingestion of analytics events from high-volume sources such as
+ * tracking pixels, email opens and webhook callbacks.
+ *
+ * Events are validated against their type's schema by the caller, enriched
+ * with platform, UTM, campaign and user agent details, and buffered. The
+ * buffer is written with one `createMany` per `maxBatchSize` rows, either
+ * when it fills up or after `flushIntervalMs`, so concurrent requests share
+ * their inserts. Each `ingest` call resolves once its events are written.
+ *
+ * Idempotency keys are unique per workspace: a key that is already stored, or
+ * repeated within a batch, is counted as a duplicate and not written again.
+ * Written events are added to the metric rollups right after each flush.
+ */
+export class AnalyticsIngestService {
+  private readonly maxBatchSize: number;
+  private readonly flushIntervalMs: number;
+  private pending: PendingBatch[] = [];
+  private pendingRows = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly experiments: ExperimentService,
+    private readonly rollups: MetricRollupService,
+    private readonly log: Logger,
+    config: AnalyticsIngestConfig = {}
+  ) {
+    this.maxBatchSize = config.maxBatchSize ?? 500;
+    this.flushIntervalMs = config.flushIntervalMs ?? 250;
+  }
+
+  async ingest(events: AnalyticsEvent[], context: IngestContext): Promise<IngestResult> {
+    const { workspaceId } = context;
+    const enriched = events.map(event => ({
+      event,
+      enrichment: enrichAnalyticsEvent(event, context.userAgent),
+    }));
+
+    // Campaigns named directly or through utm_campaign must belong to the workspace
+    const campaignIds = [
+      ...new Set(
+        enriched.flatMap(({ event, enrichment }) => event.campaignId ?? enrichment.campaignId ?? [])
+      ),
+    ];
+    const campaigns =
+      campaignIds.length > 0
+        ? await this.db.campaign.findMany({
+            where: { id: { in: campaignIds }, workspaceId },
+            select: { id: true },
+          })
+        : [];
+    const knownCampaigns = new Set(campaigns.map(campaign => campaign.id));
+
+    const keys = events.flatMap(event => event.idempotencyKey ?? []);
+    const stored =
+      keys.length > 0
+        ? await this.db.analytics.findMany({
+            where: { workspaceId, idempotencyKey: { in: keys } },
+            select: { idempotencyKey: true },
+          })
+        : [];
+    const seenKeys = new Set(stored.map(row => row.idempotencyKey));
+
+    const rows: Prisma.AnalyticsCreateManyInput[] = [];
+    const rejected: IngestResult['rejected'] = [];
+    let duplicates = 0;
+    enriched.forEach(({ event, enrichment }, index) => {
+      if (event.campaignId && !knownCampaigns.has(event.campaignId)) {
+        rejected.push({ index, reason: `Unknown campaign ${event.campaignId}` });
+        return;
+      }
+      if (event.idempotencyKey) {
+        if (seenKeys.has(event.idempotencyKey)) {
+          duplicates++;
+          return;
+        }
+        seenKeys.add(event.idempotencyKey);
+      }
+
+      // A utm_campaign that is not one of the workspace's campaigns stays in the UTM tags only
+      const campaignId =
+        event.campaignId ??
+        (enrichment.campaignId && knownCampaigns.has(enrichment.campaignId)
+          ? enrichment.campaignId
+          : null);
+      rows.push({
+        // Set here so a flush can tell which rows a duplicate key kept out
+        id: randomUUID(),
+        workspaceId,
+        userId: context.userId ?? null,
+        campaignId,
+        type: event.type,
+        data: event.data as Prisma.InputJsonValue,
+        date: event.occurredAt ?? new Date(),
+        platform: enrichment.platform,
+        source: event.source ?? null,
+        idempotencyKey: event.idempotencyKey ?? null,
+        visitorId: event.visitorId ?? null,
+        leadId: event.leadId ?? null,
+        contentId: event.contentId ?? null,
+        metadata: {
+          utm: enrichment.utm,
+          ...(enrichment.userAgent && { userAgent: enrichment.userAgent }),
+          ...(event.url && { url: event.url }),
+          ...(event.referrer && { referrer: event.referrer }),
+          ...(event.abTestId &&
+            event.variantId && { abTestId: event.abTestId, variantId: event.variantId }),
+        } as unknown as Prisma.InputJsonValue,
+      });
+    });
+
+    if (rows.length > 0) {
+      const written = await this.enqueue(rows);
+      // Keys another request stored since the check above
+      duplicates += rows.length - written;
+      await this.rewardBandits(workspaceId, rows);
+      return { accepted: written, duplicates, rejected };
+    }
+    return { accepted: 0, duplicates, rejected };
+  }
+
+  /** Write everything buffered now, e.g. before shutting down */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batches = this.pending;
+    this.pending = [];
+    this.pendingRows = 0;
+    if (batches.length === 0) return;
+
+    // Batches are written together; each learns how many of its own rows were new
+    const rows = batches.flatMap(batch => batch.rows);
+    try {
+      let written = 0;
+      for (let start = 0; start < rows.length; start += this.maxBatchSize) {
+        const { count } = await this.db.analytics.createMany({
+          data: rows.slice(start, start + this.maxBatchSize),
+          skipDuplicates: true,
+        });
+        written += count;
+      }
+
+      let stored = rows;
+      if (written < rows.length) {
+        // createMany only counts rows, so look up which ones made it
+        const ids = await this.db.analytics.findMany({
+          where: { id: { in: rows.flatMap(row => row.id ?? []) } },
+          select: { id: true },
+        });
+        const storedIds = new Set(ids.map(row => row.id));
+        stored = rows.filter(row => row.id && storedIds.has(row.id));
+      }
+
+      await this.updateRollups(stored);
+      const storedRows = new Set(stored);
+      for (const batch of batches) {
+        batch.resolve(batch.rows.filter(row => storedRows.has(row)).length);
+      }
+    } catch (error) {
+      this.log.error('Failed to write analytics events', {
+        events: rows.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      for (const batch of batches) batch.reject(error);
+    }
+  }
+
+  private enqueue(rows: Prisma.AnalyticsCreateManyInput[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ rows, resolve, reject });
+      this.pendingRows += rows.length;
+
+      if (this.pendingRows >= this.maxBatchSize) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+        this.timer.unref();
+      }
+    });
+  }
+
+  /** Rollup failures are logged, not thrown: the events are stored and a backfill fixes the sums */
+  private async updateRollups(rows: Prisma.AnalyticsCreateManyInput[]): Promise<void> {
+    try {
+      await this.rollups.apply(
+        rows.map(
+          (row): RollupSource => ({
+            workspaceId: row.workspaceId ?? null,
+            campaignId: row.campaignId ?? null,
+            platform: row.platform ?? null,
+            type: row.type,
+            data: row.data,
+            date: row.date ? new Date(row.date) : new Date(),
+          })
+        )
+      );
+    } catch (error) {
+      this.log.error('Failed to update metric rollups', {
+        events: rows.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /** Rewards for bandit tests move their traffic split once per batch */
+  private async rewardBandits(
+    workspaceId: string,
+    rows: Prisma.AnalyticsCreateManyInput[]
+  ): Promise<void> {
+    const testIds = new Set<string>();
+    for (const row of rows) {
+      const abTestId = (row.metadata as { abTestId?: string } | undefined)?.abTestId;
+      if (abTestId) testIds.add(abTestId);
+    }
+
+    for (const testId of testIds) {
+      const result = await this.experiments.reallocate(workspaceId, testId, 'analytics');
+      if (!result.changed && result.reason !== 'not_running') {
+        this.log.warn('Analytics rewards for a test that cannot reallocate', {
+          abTestId: testId,
+          reason: result.reason,
+        });
+      }
+    }
+  }
+}
+
+const globalForAnalyticsIngest = globalThis as unknown as {
+  analyticsIngest: AnalyticsIngestService | undefined;
+};
+
+export const analyticsIngest =
+  globalForAnalyticsIngest.analyticsIngest ??
+  new AnalyticsIngestService(prisma, experimentService, metricRollups, logger, {
+    maxBatchSize: Number(process.env.ANALYTICS_INGEST_BATCH_SIZE || 500),
+    flushIntervalMs: Number(process.env.ANALYTICS_INGEST_FLUSH_MS || 250),
+  });
+
+if (process.env.NODE_ENV !== 'production')
+  globalForAnalyticsIngest.analyticsIngest = analyticsIngest;
@@ -0,0 +1,379 @@
+import {
+  ApprovalPolicySchema,
+  buildApprovalPreview,
+  findAutoApproveRule,
+  validateTaskInput,
+  type AgentSideEffect,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+  type WorkflowApprovalDecision,
+  type WorkflowApprovalGate,
+  type WorkflowApprovalRequest,
+} from '@neonhub/core-agents';
+import {
+  prisma,
+  type AgentExecution,
+  type Approval,
+  type Prisma,
+  type PrismaClient,
+} from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import {
+  agentExecutionQueue,
+  type AgentExecutionQueue,
+  type EnqueueAgentExecutionInput,
+} from './jobs/agent-execution-queue';
+import { workflowRunStore, type PrismaWorkflowRunStore } from './jobs/workflow-run-store';
+
+export interface ApprovalServiceOptions {
+  /** How long an approval can wait for a decision before it expires */
+  ttlMs?: number;
+}
+
+export interface EnqueueApprovedExecutionInput extends EnqueueAgentExecutionInput {
+  agentType: string;
+  sideEffect: AgentSideEffect;
+}
+
+export type ApprovalDecisionResult =
+  | { decided: true; approval: Approval }
+  | {
+      decided: false;
+      reason: 'not_found' | 'already_decided' | 'expired' | 'invalid_payload';
+      problems?: string[];
+    };
+
+interface CreateApprovalInput {
+  request: ApprovalRequest;
+  key?: string;
+  campaignId?: string;
+  requestedById?: string;
+  executionId?: string;
+  workflowRunId?: string;
+  workspaceId?: string;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function approvalKey(request: WorkflowApprovalRequest): string {
+  const key = `workflow:${request.runId}:${request.stepId}`;
+  return request.itemIndex === undefined ? key : `${key}:${request.itemIndex}`;
+}
+
+/**
+ * Human-in-the-loop approvals for actions that spend money, contact customers
+ * or publish content.
+ *
+ * Agent executions with side effects are queued as AWAITING_APPROVAL and only
+ * released to workers once approved; workflow runs park on the step that needs
+ * approval and are queued again when it is decided. Campaign policies can
+ * approve matching actions straight away. Every transition is recorded in
+ * `approval_events`.
+ */
+export class ApprovalService implements WorkflowApprovalGate {
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly queue: AgentExecutionQueue,
+    private readonly runs: PrismaWorkflowRunStore,
+    private readonly log: Logger,
+    options: ApprovalServiceOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60_000;
+  }
+
+  async getPolicy(campaignId: string | undefined | null): Promise<ApprovalPolicy | null> {
+    if (!campaignId) return null;
+    const record = await this.db.approvalPolicy.findUnique({ where: { campaignId } });
+    if (!record) return null;
+
+    const parsed = ApprovalPolicySchema.safeParse(record.rules);
+    if (!parsed.success) {
+      this.log.warn('Ignoring invalid approval policy', { campaignId });
+      return null;
+    }
+    return parsed.data;
+  }
+
+  async setPolicy(
+    campaignId: string,
+    policy: ApprovalPolicy,
+    updatedById: string
+  ): Promise<ApprovalPolicy> {
+    const rules = policy as unknown as Prisma.InputJsonValue;
+    await this.db.approvalPolicy.upsert({
+      where: { campaignId },
+      create: { campaignId, rules, updatedById },
+      update: { rules, updatedById },
+    });
+    return policy;
+  }
+
+  /**
+   * Queue an agent task with side effects. The job is held until its approval
+   * is granted, which may happen right away through the campaign's policy.
+   */
+  async enqueueExecution(
+    input: EnqueueApprovedExecutionInput
+  ): Promise<{ execution: AgentExecution; approval: Approval }> {
+    const { agentType, sideEffect, ...job } = input;
+    const execution = await this.queue.enqueue({ ...job, awaitApproval: true });
+
+    const approval = await this.createApproval({
+      request: { action: `${agentType}.${job.task}`, sideEffect, input: job.payload ?? {} },
+      executionId: execution.id,
+      ...(job.campaignId && { campaignId: job.campaignId }),
+      ...(job.userId && { requestedById: job.userId }),
+      ...(job.workspaceId && { workspaceId: job.workspaceId }),
+    });
+
+    if (approval.status === 'APPROVED') {
+      await this.queue.release(execution.id, { metadata: { approvalId: approval.id } });
+    }
+    return { execution, approval };
+  }
+
+  /**
+   * Approval gate of the workflow engine. The first check of a step (or
+   * `forEach` item) creates its approval; later checks read the decision.
+   */
+  async check(request: WorkflowApprovalRequest): Promise<WorkflowApprovalDecision> {
+    const key = approvalKey(request);
+    const campaignId = optionalString(request.metadata.campaignId);
+    const requestedById = optionalString(request.metadata.userId);
+    const workspaceId = optionalString(request.metadata.workspaceId);
+
+    const approval =
+      (await this.db.approval.findUnique({ where: { key } })) ??
+      (await this.createApproval({
+        request,
+        key,
+        workflowRunId: request.runId,
+        ...(campaignId && { campaignId }),
+        ...(requestedById && { requestedById }),
+        ...(workspaceId && { workspaceId }),
+      }));
+
+    switch (approval.status) {
+      case 'APPROVED':
+        return { status: 'approved', approvalId: approval.id, input: asRecord(approval.payload) };
+      case 'REJECTED':
+        return { status: 'rejected', reason: approval.reason ?? 'Rejected by approver' };
+      case 'EXPIRED':
+        return { status: 'rejected', reason: 'Approval expired' };
+      default:
+        return { status: 'pending' };
+    }
+  }
+
+  /**
+   * Approve a pending action, optionally with an edited payload, and let it run.
+   */
+  async approve(
+    id: string,
+    actorId: string,
+    options: { payload?: Record<string, unknown> } = {}
+  ): Promise<ApprovalDecisionResult> {
+    const approval = await this.db.approval.findUnique({ where: { id } });
+    if (!approval) return { decided: false, reason: 'not_found' };
+    if (approval.status !== 'PENDING') return { decided: false, reason: 'already_decided' };
+    if (approval.expiresAt <= new Date()) {
+      await this.expire([approval]);
+      return { decided: false, reason: 'expired' };
+    }
+
+    const edited = options.payload !== undefined;
+    if (options.payload) {
+      const [agentType = '', task = ''] = approval.action.split('.');
+      const problems = validateTaskInput(agentType, task, options.payload);
+      if (problems.length > 0) return { decided: false, reason: 'invalid_payload', problems };
+    }
+
+    const { count } = await this.db.approval.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status: 'APPROVED',
+        decidedById: actorId,
+        decidedAt: new Date(),
+        ...(options.payload && { payload: options.payload as Prisma.InputJsonValue }),
+      },
+    });
+    if (count === 0) return { decided: false, reason: 'already_decided' };
+
+    await this.db.approvalEvent.createMany({
+      data: [
+        ...(edited
+          ? [
+              {
+                approvalId: id,
+                type: 'EDITED' as const,
+                actorId,
+                data: {
+                  before: approval.payload,
+                  after: options.payload,
+                } as Prisma.InputJsonValue,
+              },
+            ]
+          : []),
+        { approvalId: id, type: 'APPROVED' as const, actorId },
+      ],
+    });
+
+    if (approval.executionId) {
+      await this.queue.release(approval.executionId, {
+        ...(options.payload && { payload: options.payload }),
+        metadata: { approvalId: id },
+      });
+    }
+    if (approval.workflowRunId) {
+      await this.runs.resume(approval.workflowRunId);
+    }
+
+    return { decided: true, approval: await this.db.approval.findUniqueOrThrow({ where: { id } }) };
+  }
+
+  /**
+   * Reject a pending action. Held executions are cancelled; workflow runs fail
+   * the step when they resume.
+   */
+  async reject(id: string, actorId: string, reason?: string): Promise<ApprovalDecisionResult> {
+    const approval = await this.db.approval.findUnique({ where: { id } });
+    if (!approval) return { decided: false, reason: 'not_found' };
+
+    const { count } = await this.db.approval.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status: 'REJECTED',
+        decidedById: actorId,
+        decidedAt: new Date(),
+        reason: reason ?? null,
+      },
+    });
+    if (count === 0) return { decided: false, reason: 'already_decided' };
+
+    await this.db.approvalEvent.create({
+      data: {
+        approvalId: id,
+        type: 'REJECTED',
+        actorId,
+        ...(reason && { data: { reason } }),
+      },
+    });
+
+    if (approval.executionId) await this.queue.cancel(approval.executionId);
+    if (approval.workflowRunId) await this.runs.resume(approval.workflowRunId);
+
+    return { decided: true, approval: await this.db.approval.findUniqueOrThrow({ where: { id } }) };
+  }
+
+  /**
+   * Expire approvals nobody decided in time, and resume workflow runs that
+   * parked after their approvals were already decided.
+   */
+  async sweep(): Promise<{ expired: number; resumed: number }> {
+    const stale = await this.db.approval.findMany({
+      where: { status: 'PENDING', expiresAt: { lte: new Date() } },
+      take: 100,
+    });
+    const expired = await this.expire(stale);
+
+    const parked = await this.db.workflowRun.findMany({
+      where: { status: 'AWAITING_APPROVAL', approvals: { none: { status: 'PENDING' } } },
+      select: { id: true },
+      take: 100,
+    });
+    let resumed = 0;
+    for (const run of parked) {
+      if (await this.runs.resume(run.id)) resumed += 1;
+    }
+
+    return { expired, resumed };
+  }
+
+  private async createApproval(input: CreateApprovalInput): Promise<Approval> {
+    const { request } = input;
+    const policy = await this.getPolicy(input.campaignId);
+    const rule = findAutoApproveRule(policy, request);
+    const payload = request.input as Prisma.InputJsonValue;
+
+    const data = {
+      action: request.action,
+      sideEffect: request.sideEffect,
+      status: rule ? ('APPROVED' as const) : ('PENDING' as const),
+      payload,
+      originalPayload: payload,
+      preview: buildApprovalPreview(request) as unknown as Prisma.InputJsonValue,
+      autoApproved: Boolean(rule),
+      expiresAt: new Date(Date.now() + this.ttlMs),
+      ...(rule && { decidedAt: new Date(), reason: 'Approved by campaign policy' }),
+      ...(input.key && { key: input.key }),
+      ...(input.campaignId && { campaignId: input.campaignId }),
+      ...(input.requestedById && { requestedById: input.requestedById }),
+      ...(input.executionId && { executionId: input.executionId }),
+      ...(input.workflowRunId && { workflowRunId: input.workflowRunId }),
+      ...(input.workspaceId && { workspaceId: input.workspaceId }),
+      events: {
+        create: [
+          {
+            type: 'REQUESTED' as const,
+            ...(input.requestedById && { actorId: input.requestedById }),
+          },
+          ...(rule
+            ? [{ type: 'AUTO_APPROVED' as const, data: rule as Prisma.InputJsonValue }]
+            : []),
+        ],
+      },
+    };
+
+    // A workflow step asks again on every attempt; concurrent first checks share one row
+    const approval = input.key
+      ? await this.db.approval.upsert({ where: { key: input.key }, create: data, update: {} })
+      : await this.db.approval.create({ data });
+
+    this.log.info(rule ? 'Action approved by policy' : 'Action awaiting approval', {
+      approvalId: approval.id,
+      action: request.action,
+    });
+    return approval;
+  }
+
+  private async expire(approvals: Approval[]): Promise<number> {
+    let expired = 0;
+
+    for (const approval of approvals) {
+      const { count } = await this.db.approval.updateMany({
+        where: { id: approval.id, status: 'PENDING' },
+        data: { status: 'EXPIRED', decidedAt: new Date() },
+      });
+      if (count === 0) continue;
+      expired += 1;
+
+      await this.db.approvalEvent.create({ data: { approvalId: approval.id, type: 'EXPIRED' } });
+      if (approval.executionId) await this.queue.cancel(approval.executionId);
+      if (approval.workflowRunId) await this.runs.resume(approval.workflowRunId);
+    }
+
+    return expired;
+  }
+}
+
+const globalForApprovals = globalThis as unknown as {
+  approvalService: ApprovalService | undefined;
+};
+
+export const approvalService =
+  globalForApprovals.approvalService ??
+  new ApprovalService(prisma, agentExecutionQueue, workflowRunStore, logger, {
+    ttlMs: Number(process.env.APPROVAL_TTL_MS || 24 * 60 * 60_000),
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForApprovals.approvalService = approvalService;
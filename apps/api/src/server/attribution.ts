@@ -0,0 +1,187 @@
+import {
+  AttributionSettingsSchema,
+  attributeConversions,
+  buildJourneys,
+  type AttributionCredit,
+  type AttributionModel,
+  type AttributionReport,
+  type AttributionSettings,
+  type Journey,
+  type JourneyEvent,
+} from '@neonhub/core-agents';
+import { prisma, type PrismaClient } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+
+export interface AttributionQuery {
+  /** Conversions in `[from, to)` are credited; touches are read from `lookbackDays` earlier */
+  from: Date;
+  to: Date;
+  settings?: { [Key in keyof AttributionSettings]?: AttributionSettings[Key] | undefined };
+}
+
+export interface NamedAttributionCredit extends AttributionCredit {
+  /** Campaign name or content title; null for platforms and for touches without one */
+  name: string | null;
+}
+
+export interface AttributionResult extends Omit<AttributionReport, 'byCampaign' | 'byContent'> {
+  from: Date;
+  to: Date;
+  settings: AttributionSettings;
+  byCampaign: NamedAttributionCredit[];
+  byContent: NamedAttributionCredit[];
+  /** Journeys were built from the first `ATTRIBUTION_EVENT_LIMIT` events only */
+  truncated: boolean;
+}
+
+/** Most events read for one report; beyond this the report covers part of the range */
+export const ATTRIBUTION_EVENT_LIMIT = 200_000;
+
+// Analytics rows read per page
+const PAGE_SIZE = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Multi-touch attribution of ingested conversions and revenue to the
+ * campaigns, platforms and content items that led to them.
+ *
+ * Journeys are built from analytics events that carry a visitor or lead id:
+ * touches (impressions, reach, engagement, clicks) and conversions (CONVERSION
+ * and REVENUE events). Every model of a request is computed from the same
+ * journeys, so switching models compares like with like.
+ */
+export class AttributionService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger
+  ) {}
+
+  /** Credited conversions and revenue under each of the models */
+  async report<Model extends AttributionModel>(
+    workspaceId: string,
+    models: readonly Model[],
+    query: AttributionQuery
+  ): Promise<Record<Model, AttributionResult>> {
+    const settings = AttributionSettingsSchema.parse(query.settings ?? {});
+    const { journeys, truncated } = await this.loadJourneys(workspaceId, query, settings);
+    const reports = models.map(model => ({
+      model,
+      report: attributeConversions(journeys, model, settings),
+    }));
+
+    // One lookup of the names for every model's credits
+    const campaignIds = new Set<string>();
+    const contentIds = new Set<string>();
+    for (const { report } of reports) {
+      for (const credit of report.byCampaign) if (credit.key) campaignIds.add(credit.key);
+      for (const credit of report.byContent) if (credit.key) contentIds.add(credit.key);
+    }
+    const [campaigns, contents] = await Promise.all([
+      campaignIds.size > 0
+        ? this.db.campaign.findMany({
+            where: { id: { in: [...campaignIds] }, workspaceId },
+            select: { id: true, name: true },
+          })
+        : [],
+      contentIds.size > 0
+        ? this.db.content.findMany({
+            where: { id: { in: [...contentIds] }, workspaceId },
+            select: { id: true, title: true },
+          })
+        : [],
+    ]);
+    const campaignNames = new Map(campaigns.map(campaign => [campaign.id, campaign.name]));
+    const contentTitles = new Map(contents.map(content => [content.id, content.title]));
+    const named = (
+      credits: AttributionCredit[],
+      names: Map<string, string>
+    ): NamedAttributionCredit[] =>
+      credits.map(credit => ({ ...credit, name: (credit.key && names.get(credit.key)) ?? null }));
+
+    return Object.fromEntries(
+      reports.map(({ model, report }) => [
+        model,
+        {
+          ...report,
+          from: query.from,
+          to: query.to,
+          settings,
+          byCampaign: named(report.byCampaign, campaignNames),
+          byContent: named(report.byContent, contentTitles),
+          truncated,
+        },
+      ])
+    ) as Record<Model, AttributionResult>;
+  }
+
+  private async loadJourneys(
+    workspaceId: string,
+    query: AttributionQuery,
+    settings: AttributionSettings
+  ): Promise<{ journeys: Journey[]; truncated: boolean }> {
+    const since = new Date(query.from.getTime() - settings.lookbackDays * DAY_MS);
+    const events: JourneyEvent[] = [];
+    let truncated = false;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const page = await this.db.analytics.findMany({
+        where: {
+          workspaceId,
+          date: { gte: since, lt: query.to },
+          type: { in: ['IMPRESSIONS', 'REACH', 'ENGAGEMENT', 'CLICKS', 'CONVERSION', 'REVENUE'] },
+          OR: [{ visitorId: { not: null } }, { leadId: { not: null } }],
+        },
+        select: {
+          id: true,
+          type: true,
+          date: true,
+          visitorId: true,
+          leadId: true,
+          campaignId: true,
+          platform: true,
+          contentId: true,
+          data: true,
+        },
+        orderBy: { id: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (page.length === 0) break;
+
+      events.push(...page);
+      cursor = page[page.length - 1]?.id;
+      if (events.length >= ATTRIBUTION_EVENT_LIMIT) {
+        truncated = page.length === PAGE_SIZE;
+        break;
+      }
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    if (truncated) {
+      this.log.warn('Attribution report read the event limit', {
+        workspaceId,
+        from: query.from,
+        to: query.to,
+        events: events.length,
+      });
+    }
+    return {
+      journeys: buildJourneys(events, {
+        lookbackDays: settings.lookbackDays,
+        conversionsFrom: query.from,
+      }),
+      truncated,
+    };
+  }
+}
+
+const globalForAttribution = globalThis as unknown as {
+  attribution: AttributionService | undefined;
+};
+
+export const attributionService =
+  globalForAttribution.attribution ?? new AttributionService(prisma, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForAttribution.attribution = attributionService;
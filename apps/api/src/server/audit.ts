@@ -0,0 +1,237 @@
+import {
+  prisma,
+  type AuditActorType,
+  type AuditLog,
+  type AuditOutcome,
+  type Prisma,
+  type PrismaClient,
+} from '@neonhub/data-model';
+import { logger, redactSensitive, type Logger } from '@neonhub/utils';
+
+export interface AuditServiceOptions {
+  /** Entries older than this are deleted by `purgeExpired` */
+  retentionDays?: number;
+}
+
+export interface AuditEntryInput {
+  actorType: AuditActorType;
+  actorId?: string | null;
+  agentId?: string | null;
+  procedure: string;
+  /** Stored redacted, see `redactSensitive` */
+  input?: unknown;
+  targetIds?: string[];
+  outcome: AuditOutcome;
+  error?: string | null;
+  durationMs?: number;
+  ipAddress?: string | null;
+  workspaceId?: string | null;
+}
+
+export interface AuditQuery {
+  workspaceId: string;
+  actorId?: string;
+  actorType?: AuditActorType;
+  /** Matches the path and everything below it, e.g. `campaign` or `campaign.delete` */
+  procedure?: string;
+  targetId?: string;
+  outcome?: AuditOutcome;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditExport {
+  filename: string;
+  contentType: string;
+  data: string;
+}
+
+/** Most rows a single export returns */
+export const AUDIT_EXPORT_LIMIT = 10_000;
+
+const EXPORT_COLUMNS = [
+  'createdAt',
+  'actorType',
+  'actorId',
+  'agentId',
+  'procedure',
+  'outcome',
+  'error',
+  'targetIds',
+  'durationMs',
+  'ipAddress',
+  'input',
+] as const;
+
+const ID_KEY_PATTERN = /^(id|ids|[a-z][A-Za-z0-9]*(Id|Ids))$/;
+
+/**
+ * Ids of the entities a call worked on: top-level `id`/`*Id`/`*Ids` fields
+ * of its input, and the `id` of the record it returned.
+ */
+export function collectTargetIds(input: unknown, result?: unknown): string[] {
+  const ids = new Set<string>();
+  const add = (value: unknown): void => {
+    if (typeof value === 'string' && value.length > 0) ids.add(value);
+    if (Array.isArray(value)) value.forEach(add);
+  };
+
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    for (const [key, value] of Object.entries(input)) {
+      if (ID_KEY_PATTERN.test(key)) add(value);
+    }
+  }
+  if (result && typeof result === 'object' && 'id' in result) add(result.id);
+  return [...ids];
+}
+
+// Text starting with a formula character gets an apostrophe, so spreadsheets do not evaluate it
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : typeof value === 'string' && /^[=+\-@\t\r]/.test(value)
+          ? `'${value}`
+          : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Append-only audit log of mutations made through the API and of actions
+ * agents and workflows take on their own. Entries are never edited; the only
+ * way they leave the table is the retention purge.
+ *
+ * Recording never throws, so a failing audit write cannot undo or hide the
+ * outcome of the call it describes; the failure is logged instead.
+ */
+export class AuditService {
+  readonly retentionDays: number;
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger,
+    options: AuditServiceOptions = {}
+  ) {
+    this.retentionDays = options.retentionDays ?? 365;
+  }
+
+  async record(entry: AuditEntryInput): Promise<void> {
+    try {
+      await this.db.auditLog.create({
+        data: {
+          actorType: entry.actorType,
+          actorId: entry.actorId ?? null,
+          agentId: entry.agentId ?? null,
+          procedure: entry.procedure,
+          ...(entry.input !== undefined && {
+            input: redactSensitive(entry.input) as Prisma.InputJsonValue,
+          }),
+          targetIds: entry.targetIds ?? [],
+          outcome: entry.outcome,
+          error: entry.error ?? null,
+          durationMs: entry.durationMs ?? null,
+          ipAddress: entry.ipAddress ?? null,
+          workspaceId: entry.workspaceId ?? null,
+        },
+      });
+    } catch (error) {
+      this.log.error('Failed to write audit log entry', {
+        procedure: entry.procedure,
+        actorId: entry.actorId,
+        outcome: entry.outcome,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /** Matching entries, newest first */
+  async query(
+    query: AuditQuery,
+    page: { limit: number; offset: number }
+  ): Promise<{ entries: AuditLog[]; total: number; hasMore: boolean }> {
+    const where = this.toWhere(query);
+    const [entries, total] = await Promise.all([
+      this.db.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: page.limit,
+        skip: page.offset,
+      }),
+      this.db.auditLog.count({ where }),
+    ]);
+    return { entries, total, hasMore: total > page.offset + page.limit };
+  }
+
+  /** Matching entries as CSV or JSON lines, newest first, up to AUDIT_EXPORT_LIMIT */
+  async export(query: AuditQuery, format: 'csv' | 'json'): Promise<AuditExport> {
+    const entries = await this.db.auditLog.findMany({
+      where: this.toWhere(query),
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_EXPORT_LIMIT,
+    });
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    if (format === 'json') {
+      return {
+        filename: `audit-log-${stamp}.jsonl`,
+        contentType: 'application/x-ndjson',
+        data: entries.map(entry => JSON.stringify(entry)).join('\n'),
+      };
+    }
+
+    const rows = entries.map(entry =>
+      EXPORT_COLUMNS.map(column =>
+        csvCell(column === 'targetIds' ? entry.targetIds.join(' ') : entry[column])
+      ).join(',')
+    );
+    return {
+      filename: `audit-log-${stamp}.csv`,
+      contentType: 'text/csv',
+      data: [EXPORT_COLUMNS.join(','), ...rows].join('\n'),
+    };
+  }
+
+  /** Delete entries past the retention period; returns how many were removed */
+  async purgeExpired(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000);
+    const { count } = await this.db.auditLog.deleteMany({ where: { createdAt: { lt: cutoff } } });
+    if (count > 0) {
+      this.log.info('Purged expired audit log entries', {
+        count,
+        retentionDays: this.retentionDays,
+      });
+    }
+    return count;
+  }
+
+  private toWhere(query: AuditQuery): Prisma.AuditLogWhereInput {
+    return {
+      workspaceId: query.workspaceId,
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.actorType && { actorType: query.actorType }),
+      ...(query.procedure && {
+        OR: [{ procedure: query.procedure }, { procedure: { startsWith: `${query.procedure}.` } }],
+      }),
+      ...(query.targetId && { targetIds: { has: query.targetId } }),
+      ...(query.outcome && { outcome: query.outcome }),
+      ...((query.from || query.to) && {
+        createdAt: { ...(query.from && { gte: query.from }), ...(query.to && { lte: query.to }) },
+      }),
+    };
+  }
+}
+
+const globalForAudit = globalThis as unknown as {
+  auditService: AuditService | undefined;
+};
+
+export const auditService =
+  globalForAudit.auditService ??
+  new AuditService(prisma, logger, {
+    retentionDays: Number(process.env.AUDIT_RETENTION_DAYS || 365),
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForAudit.auditService = auditService;
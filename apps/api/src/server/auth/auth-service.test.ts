@@ -0,0 +1,212 @@
+import type { PrismaClient } from '@neonhub/data-model';
+import { logger } from '@neonhub/utils';
+import type { Mailer, MailMessage } from '../mailer';
+import { AuthService, MAGIC_LINK_CALLBACK_PATH } from './auth-service';
+
+// The shared client is never queried here, so it need not load a query engine
+jest.mock('@neonhub/data-model', () => ({ prisma: {} }));
+
+interface StoredUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: 'USER';
+  emailVerified: Date | null;
+  passwordHash: string | null;
+}
+
+interface StoredToken {
+  identifier: string;
+  token: string;
+  expires: Date;
+}
+
+interface FakeStore {
+  db: PrismaClient;
+  users: StoredUser[];
+  sessions: Array<{ sessionToken: string; userId: string; expires: Date }>;
+  accounts: Array<{ userId: string; provider: string }>;
+}
+
+// Keeps the rows the auth service touches in memory
+function createDb(): FakeStore {
+  const users: StoredUser[] = [];
+  const tokens: StoredToken[] = [];
+  const sessions: FakeStore['sessions'] = [];
+  const accounts: FakeStore['accounts'] = [];
+
+  const createUser = (data: Partial<StoredUser> & { email: string }): StoredUser => {
+    const user: StoredUser = {
+      id: `user_${users.length + 1}`,
+      name: null,
+      role: 'USER',
+      emailVerified: null,
+      passwordHash: null,
+      ...data,
+    };
+    users.push(user);
+    return user;
+  };
+
+  const db = {
+    verificationToken: {
+      create: async ({ data }: { data: StoredToken }): Promise<number> => tokens.push(data),
+      findUnique: async ({
+        where,
+      }: {
+        where: { identifier_token: { identifier: string; token: string } };
+      }): Promise<StoredToken | null> =>
+        tokens.find(
+          row =>
+            row.identifier === where.identifier_token.identifier &&
+            row.token === where.identifier_token.token
+        ) ?? null,
+      deleteMany: async ({
+        where,
+      }: {
+        where: { identifier: string; token: string };
+      }): Promise<{ count: number }> => {
+        const index = tokens.findIndex(
+          row => row.identifier === where.identifier && row.token === where.token
+        );
+        if (index >= 0) tokens.splice(index, 1);
+        return { count: index >= 0 ? 1 : 0 };
+      },
+    },
+    user: {
+      findUnique: async ({ where }: { where: { email: string } }): Promise<StoredUser | null> =>
+        users.find(user => user.email === where.email) ?? null,
+      create: async ({
+        data,
+      }: {
+        data: Partial<StoredUser> & { email: string; accounts?: unknown };
+      }): Promise<StoredUser> => {
+        const { accounts: account, ...fields } = data;
+        const user = createUser(fields);
+        if (account) accounts.push({ userId: user.id, provider: 'credentials' });
+        return user;
+      },
+      update: async ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: Partial<StoredUser>;
+      }): Promise<Partial<StoredUser>> =>
+        Object.assign(users.find(user => user.id === where.id) ?? {}, data),
+      upsert: async ({
+        where,
+        create,
+        update,
+      }: {
+        where: { email: string };
+        create: Partial<StoredUser> & { email: string };
+        update: Partial<StoredUser>;
+      }): Promise<StoredUser> => {
+        const user = users.find(existing => existing.email === where.email);
+        return user ? Object.assign(user, update) : createUser(create);
+      },
+    },
+    session: {
+      create: async ({ data }: { data: FakeStore['sessions'][number] }): Promise<number> =>
+        sessions.push(data),
+      deleteMany: async ({ where }: { where: { userId: string } }): Promise<void> => {
+        const kept = sessions.filter(session => session.userId !== where.userId);
+        sessions.splice(0, sessions.length, ...kept);
+      },
+    },
+    account: {
+      deleteMany: async ({
+        where,
+      }: {
+        where: { userId: string; provider: string };
+      }): Promise<void> => {
+        const kept = accounts.filter(
+          account => account.userId !== where.userId || account.provider !== where.provider
+        );
+        accounts.splice(0, accounts.length, ...kept);
+      },
+    },
+    $transaction: (operations: Array<Promise<unknown>>): Promise<unknown[]> =>
+      Promise.all(operations),
+  };
+
+  return { db: db as unknown as PrismaClient, users, sessions, accounts };
+}
+
+function createAuth(): { auth: AuthService; store: FakeStore; emailedLink: () => URL } {
+  const store = createDb();
+  const sent: MailMessage[] = [];
+  const mail: Mailer = { send: async message => void sent.push(message) };
+  const auth = new AuthService(store.db, mail, logger, {
+    secret: 'test-secret',
+    appUrl: 'http://localhost:3000',
+  });
+
+  // The sign-in link from the latest email
+  const emailedLink = (): URL => {
+    const link = sent.at(-1)?.text.match(/https?:\/\/\S+/)?.[0];
+    if (!link) throw new Error('No sign-in link was sent');
+    return new URL(link);
+  };
+  return { auth, store, emailedLink };
+}
+
+describe('magic links', () => {
+  it('signs in through the emailed link once, then redirects to the callback URL', async () => {
+    const { auth, store, emailedLink } = createAuth();
+
+    await auth.requestMagicLink('Sam@Acme.io', 'http://localhost:3000/campaigns?tab=active');
+    const link = emailedLink();
+    expect(link.pathname).toBe(MAGIC_LINK_CALLBACK_PATH);
+
+    const query = Object.fromEntries(link.searchParams);
+    const signedIn = await auth.handleMagicLinkCallback(query);
+    expect(signedIn.location).toBe('http://localhost:3000/campaigns?tab=active');
+    expect(signedIn.cookie).toMatch(/^next-auth\.session-token=\w+; Path=\/; HttpOnly/);
+    expect(store.users[0]).toMatchObject({ email: 'sam@acme.io', emailVerified: expect.any(Date) });
+    expect(store.sessions).toHaveLength(1);
+
+    expect(await auth.handleMagicLinkCallback(query)).toEqual({
+      location: 'http://localhost:3000/?error=Verification',
+    });
+  });
+
+  it('is forwarded to the API by the dashboard', async () => {
+    const nextConfig = jest.requireActual<{
+      rewrites(): Promise<Array<{ source: string; destination: string }>>;
+    }>('../../../../dashboard/next.config.js');
+
+    expect(await nextConfig.rewrites()).toContainEqual({
+      source: MAGIC_LINK_CALLBACK_PATH,
+      destination: `http://localhost:3001${MAGIC_LINK_CALLBACK_PATH}`,
+    });
+  });
+
+  it('ignores callback URLs on other sites', async () => {
+    const { auth, emailedLink } = createAuth();
+
+    await auth.requestMagicLink('sam@acme.io', 'https://evil.example/phish');
+    const result = await auth.handleMagicLinkCallback(
+      Object.fromEntries(emailedLink().searchParams)
+    );
+
+    expect(result.location).toBe('http://localhost:3000/');
+  });
+
+  it('drops the password and sessions of an account registered before the email was verified', async () => {
+    const { auth, store, emailedLink } = createAuth();
+    await auth.register('sam@acme.io', 'chosen-by-someone-else');
+
+    await auth.requestMagicLink('sam@acme.io');
+    const result = await auth.handleMagicLinkCallback(
+      Object.fromEntries(emailedLink().searchParams)
+    );
+
+    expect(result.cookie).toBeDefined();
+    expect(store.users[0]?.passwordHash).toBeNull();
+    expect(store.accounts).toEqual([]);
+    expect(store.sessions).toHaveLength(1);
+    expect(await auth.signInWithPassword('sam@acme.io', 'chosen-by-someone-else')).toBeNull();
+  });
+});
@@ -0,0 +1,397 @@
+import { createHash, randomBytes } from 'crypto';
+import { prisma, type PrismaClient, type User, type UserRole } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import { mailer, type Mailer } from '../mailer';
+import { hashPassword, verifyPassword } from './password';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  user: SessionUser;
+  expires: string;
+  /** Set when a developer is acting as this user; such sessions are never stored */
+  impersonated?: boolean;
+}
+
+/** The parts of an incoming request a session can be read from */
+export interface AuthRequest {
+  headers: Record<string, string | string[] | undefined>;
+  cookies?: Partial<Record<string, string>>;
+}
+
+export interface AuthServiceOptions {
+  /** Signs magic-link tokens; the same secret as NextAuth's so either can verify them */
+  secret?: string;
+  /** Where magic links point, i.e. the dashboard */
+  appUrl?: string;
+  sessionMaxAgeMs?: number;
+  /** Sessions used after this much of their lifetime has passed are extended */
+  sessionUpdateAgeMs?: number;
+  magicLinkMaxAgeMs?: number;
+  /** Enables `x-impersonate-user` and the default user below; development only */
+  allowImpersonation?: boolean;
+  /** Requests without a session act as this user when impersonation is allowed */
+  devUserEmail?: string;
+}
+
+export type RegisterResult =
+  | { registered: true; user: SessionUser; sessionToken: string; expires: Date }
+  | { registered: false; reason: 'email_taken' };
+
+export type SignInResult = { user: SessionUser; sessionToken: string; expires: Date } | null;
+
+/** Where to send the browser after a magic link was opened, and the session cookie to set */
+export interface MagicLinkRedirect {
+  location: string;
+  cookie?: string;
+}
+
+// NextAuth's cookie names, so sessions started in the dashboard work here as well
+export const SESSION_COOKIE = 'next-auth.session-token';
+export const SECURE_SESSION_COOKIE = '__Secure-next-auth.session-token';
+export const IMPERSONATE_HEADER = 'x-impersonate-user';
+// NextAuth's email callback path; the dashboard forwards it to the API
+export const MAGIC_LINK_CALLBACK_PATH = '/api/auth/callback/email';
+
+// Compared against when the user does not exist, so unknown emails take as long as wrong passwords
+const DUMMY_PASSWORD_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function header(request: AuthRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** `value` resolved against `base`, or null unless it is a URL on the same origin */
+function sameOriginUrl(value: unknown, base: URL): URL | null {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value, base);
+    return url.origin === base.origin ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function toSessionUser(user: Pick<User, 'id' | 'email' | 'name' | 'role'>): SessionUser {
+  return {
+    id: user.id,
+    email: user.email,
+    ...(user.name && { name: user.name }),
+    role: user.role,
+  };
+}
+
+/**
+ * Database sessions on the NextAuth `sessions`, `accounts` and
+ * `verification_tokens` tables, with email magic links and password login.
+ *
+ * Requests are authenticated by an `Authorization: Bearer <session token>`
+ * header or the NextAuth session cookie. In development a request can act as
+ * any user through the `x-impersonate-user` header (id or email), and falls
+ * back to `devUserEmail` when it carries no session.
+ */
+export class AuthService {
+  private readonly sessionMaxAgeMs: number;
+  private readonly sessionUpdateAgeMs: number;
+  private readonly magicLinkMaxAgeMs: number;
+  private readonly appUrl: URL;
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly mail: Mailer,
+    private readonly log: Logger,
+    private readonly options: AuthServiceOptions = {}
+  ) {
+    this.sessionMaxAgeMs = options.sessionMaxAgeMs ?? 30 * 24 * 60 * 60_000;
+    this.sessionUpdateAgeMs = options.sessionUpdateAgeMs ?? 24 * 60 * 60_000;
+    this.magicLinkMaxAgeMs = options.magicLinkMaxAgeMs ?? 24 * 60 * 60_000;
+    this.appUrl = new URL(options.appUrl ?? 'http://localhost:3000');
+  }
+
+  /**
+   * Find the session of a request. Returns null for anonymous requests and
+   * expired or unknown tokens.
+   */
+  async resolveRequest(request: AuthRequest): Promise<AuthSession | null> {
+    if (this.options.allowImpersonation) {
+      const identifier = header(request, IMPERSONATE_HEADER);
+      if (identifier) return this.impersonate(identifier);
+    }
+
+    const token = this.readToken(request);
+    const session = token ? await this.getSession(token) : null;
+    if (session) return session;
+
+    if (this.options.allowImpersonation && this.options.devUserEmail) {
+      return this.impersonate(this.options.devUserEmail, { createAs: 'ADMIN' });
+    }
+    return null;
+  }
+
+  async getSession(sessionToken: string): Promise<AuthSession | null> {
+    const session = await this.db.session.findUnique({
+      where: { sessionToken },
+      include: { user: { select: { id: true, email: true, name: true, role: true } } },
+    });
+    if (!session) return null;
+
+    const now = Date.now();
+    if (session.expires.getTime() <= now) {
+      await this.db.session.deleteMany({ where: { sessionToken } });
+      return null;
+    }
+
+    let expires = session.expires;
+    if (session.expires.getTime() - this.sessionMaxAgeMs + this.sessionUpdateAgeMs <= now) {
+      expires = new Date(now + this.sessionMaxAgeMs);
+      await this.db.session.update({ where: { sessionToken }, data: { expires } });
+    }
+
+    return { user: toSessionUser(session.user), expires: expires.toISOString() };
+  }
+
+  async signOut(sessionToken: string): Promise<void> {
+    await this.db.session.deleteMany({ where: { sessionToken } });
+  }
+
+  /**
+   * Email a single-use sign-in link. Unknown addresses get a link as well; the
+   * account is created when the link is used.
+   */
+  async requestMagicLink(email: string, callbackUrl?: string): Promise<void> {
+    const identifier = normalizeEmail(email);
+    const token = randomBytes(32).toString('hex');
+    const expires = new Date(Date.now() + this.magicLinkMaxAgeMs);
+
+    await this.db.verificationToken.create({
+      data: { identifier, token: this.hashToken(token), expires },
+    });
+
+    const url = new URL(MAGIC_LINK_CALLBACK_PATH, this.appUrl);
+    url.searchParams.set('email', identifier);
+    url.searchParams.set('token', token);
+    if (callbackUrl) url.searchParams.set('callbackUrl', callbackUrl);
+
+    await this.mail.send({
+      to: identifier,
+      subject: 'Sign in to NeonHub',
+      text: `Sign in to NeonHub:\n\n${url.toString()}\n\nThe link expires ${expires.toUTCString()}. If you did not ask for it, ignore this email.`,
+      html: `<p><a href="${url.toString()}">Sign in to NeonHub</a></p><p>The link expires ${expires.toUTCString()}. If you did not ask for it, ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Use a magic link: the token is consumed, the email counts as verified and
+   * a session is started. The first verification of a registered account drops
+   * its password and sessions, since whoever registered it may not own the
+   * address; the owner sets a new password once signed in.
+   */
+  async verifyMagicLink(email: string, token: string): Promise<SignInResult> {
+    const identifier = normalizeEmail(email);
+    const hashed = this.hashToken(token);
+
+    const verification = await this.db.verificationToken.findUnique({
+      where: { identifier_token: { identifier, token: hashed } },
+    });
+    if (!verification) return null;
+
+    // Whoever deletes the token first gets to use it
+    const { count } = await this.db.verificationToken.deleteMany({
+      where: { identifier, token: hashed },
+    });
+    if (count === 0 || verification.expires.getTime() <= Date.now()) return null;
+
+    const existing = await this.db.user.findUnique({ where: { email: identifier } });
+    if (existing && !existing.emailVerified) {
+      await this.db.$transaction([
+        this.db.session.deleteMany({ where: { userId: existing.id } }),
+        this.db.account.deleteMany({ where: { userId: existing.id, provider: 'credentials' } }),
+        this.db.user.update({ where: { id: existing.id }, data: { passwordHash: null } }),
+      ]);
+      this.log.info('Cleared credentials of unverified account', { userId: existing.id });
+    }
+
+    const user = await this.db.user.upsert({
+      where: { email: identifier },
+      create: { email: identifier, emailVerified: new Date() },
+      update: { emailVerified: new Date() },
+    });
+    return this.startSession(user);
+  }
+
+  /**
+   * Create an account with a password. The email stays unverified until a
+   * magic link for it is used, which also clears the password.
+   */
+  /**
+   * Finish a magic link opened in the browser: sign in and redirect to its
+   * callback URL, or to the dashboard with `?error=Verification` when the link
+   * is invalid or expired. Callback URLs outside the dashboard are ignored.
+   */
+  async handleMagicLinkCallback(query: Record<string, unknown>): Promise<MagicLinkRedirect> {
+    const { email, token, callbackUrl } = query;
+    const result =
+      typeof email === 'string' && typeof token === 'string'
+        ? await this.verifyMagicLink(email, token)
+        : null;
+    if (!result) return { location: new URL('/?error=Verification', this.appUrl).toString() };
+
+    return {
+      location: (sameOriginUrl(callbackUrl, this.appUrl) ?? this.appUrl).toString(),
+      cookie: this.sessionCookie(result.sessionToken, result.expires),
+    };
+  }
+
+  async register(email: string, password: string, name?: string): Promise<RegisterResult> {
+    const normalized = normalizeEmail(email);
+    const existing = await this.db.user.findUnique({ where: { email: normalized } });
+    // Existing accounts add a password by signing in with a magic link first
+    if (existing) return { registered: false, reason: 'email_taken' };
+
+    const user = await this.db.user.create({
+      data: {
+        email: normalized,
+        passwordHash: await hashPassword(password),
+        ...(name && { name }),
+        accounts: {
+          create: { type: 'credentials', provider: 'credentials', providerAccountId: normalized },
+        },
+      },
+    });
+    return { registered: true, ...(await this.startSession(user)) };
+  }
+
+  async signInWithPassword(email: string, password: string): Promise<SignInResult> {
+    const user = await this.db.user.findUnique({ where: { email: normalizeEmail(email) } });
+
+    const valid = await verifyPassword(password, user?.passwordHash ?? (await DUMMY_PASSWORD_HASH));
+    if (!user?.passwordHash || !valid) return null;
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Set or change the password of a signed-in user.
+   */
+  async setPassword(userId: string, password: string): Promise<void> {
+    const user = await this.db.user.update({
+      where: { id: userId },
+      data: { passwordHash: await hashPassword(password) },
+    });
+    await this.db.account.upsert({
+      where: {
+        provider_providerAccountId: { provider: 'credentials', providerAccountId: user.email },
+      },
+      create: {
+        userId,
+        type: 'credentials',
+        provider: 'credentials',
+        providerAccountId: user.email,
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * Act as a user without signing in; development only. `createAs` creates
+   * the user with that role when the email is not known yet.
+   */
+  async impersonate(
+    identifier: string,
+    options: { createAs?: UserRole } = {}
+  ): Promise<AuthSession | null> {
+    if (!this.options.allowImpersonation) return null;
+
+    const email = normalizeEmail(identifier);
+    let user = await this.db.user.findFirst({
+      where: { OR: [{ id: identifier }, { email }] },
+      select: { id: true, email: true, name: true, role: true },
+    });
+    if (!user && options.createAs && email.includes('@')) {
+      user = await this.db.user.create({
+        data: { email, name: 'Development User', role: options.createAs },
+        select: { id: true, email: true, name: true, role: true },
+      });
+      this.log.info('Created development user', { email });
+    }
+    if (!user) return null;
+
+    return {
+      user: toSessionUser(user),
+      expires: new Date(Date.now() + this.sessionMaxAgeMs).toISOString(),
+      impersonated: true,
+    };
+  }
+
+  /** Cookie name for the session token, secure when the app is served over https */
+  getSessionCookieName(): string {
+    return this.appUrl.protocol === 'https:' ? SECURE_SESSION_COOKIE : SESSION_COOKIE;
+  }
+
+  /**
+   * `Set-Cookie` value handing the session token to browsers as an httpOnly
+   * cookie; an empty token that has already expired signs the browser out.
+   */
+  sessionCookie(token: string, expires: Date): string {
+    const name = this.getSessionCookieName();
+    return [
+      `${name}=${encodeURIComponent(token)}`,
+      'Path=/',
+      'HttpOnly',
+      'SameSite=Lax',
+      `Expires=${expires.toUTCString()}`,
+      ...(name === SECURE_SESSION_COOKIE ? ['Secure'] : []),
+    ].join('; ');
+  }
+
+  /** The session token a request carries, if any */
+  readToken(request: AuthRequest): string | undefined {
+    const authorization = header(request, 'authorization');
+    if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+
+    return request.cookies?.[SECURE_SESSION_COOKIE] ?? request.cookies?.[SESSION_COOKIE];
+  }
+
+  private async startSession(
+    user: Pick<User, 'id' | 'email' | 'name' | 'role'>
+  ): Promise<{ user: SessionUser; sessionToken: string; expires: Date }> {
+    const sessionToken = randomBytes(32).toString('hex');
+    const expires = new Date(Date.now() + this.sessionMaxAgeMs);
+    await this.db.session.create({ data: { sessionToken, userId: user.id, expires } });
+
+    this.log.info('User signed in', { userId: user.id });
+    return { user: toSessionUser(user), sessionToken, expires };
+  }
+
+  // Stored the way NextAuth's email provider stores them
+  private hashToken(token: string): string {
+    const { secret } = this.options;
+    if (!secret) throw new Error('NEXTAUTH_SECRET must be set to use magic links');
+    return createHash('sha256').update(`${token}${secret}`).digest('hex');
+  }
+}
+
+const globalForAuth = globalThis as unknown as {
+  authService: AuthService | undefined;
+};
+
+export const authService =
+  globalForAuth.authService ??
+  new AuthService(prisma, mailer, logger, {
+    ...(process.env.NEXTAUTH_SECRET && { secret: process.env.NEXTAUTH_SECRET }),
+    appUrl: process.env.NEXTAUTH_URL || 'http://localhost:3000',
+    allowImpersonation:
+      process.env.NODE_ENV === 'development' && process.env.AUTH_DEV_IMPERSONATION !== 'false',
+    ...(process.env.DEV_USER_EMAIL && { devUserEmail: process.env.DEV_USER_EMAIL }),
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForAuth.authService = authService;
@@ -0,0 +1,48 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+const KEY_LENGTH = 64;
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hash a password as `scrypt$<N>$<r>$<p>$<salt>$<key>`, so the cost can be
+ * raised later without breaking existing hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, {
+    N: COST,
+    r: BLOCK_SIZE,
+    p: PARALLELIZATION,
+  });
+  return [
+    'scrypt',
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString('base64url'),
+    key.toString('base64url'),
+  ].join('$');
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, cost, blockSize, parallelization, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64url');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64url'), {
+    N: Number(cost),
+    r: Number(blockSize),
+    p: Number(parallelization),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
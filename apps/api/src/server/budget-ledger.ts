@@ -0,0 +1,357 @@
+import {
+  getNewBudgetAlerts,
+  summarizeBudgetLedger,
+  type BudgetAlert,
+  type BudgetLedgerInput,
+  type BudgetLedgerSummary,
+  type PlatformPerformance,
+} from '@neonhub/core-agents';
+import { Platform, prisma, Prisma, type PrismaClient, type SpendEntry } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import { activityService, type ActivityService } from './activity';
+
+export interface PlatformAllocationInput {
+  platform: Platform;
+  amount: number;
+}
+
+export interface SpendEntryInput {
+  platform: Platform;
+  amount: number;
+  revenue?: number;
+  spentAt?: Date;
+  source?: string;
+  externalId?: string;
+  note?: string;
+}
+
+export interface BudgetActionOptions {
+  /** Only touch the campaign if it belongs to this workspace */
+  workspaceId?: string;
+  actorId?: string;
+  now?: Date;
+}
+
+export type BudgetChangeFailure = {
+  changed: false;
+  reason: 'not_found' | 'invalid' | 'duplicate';
+  problems: string[];
+};
+
+export type AllocationChangeResult =
+  | { changed: true; summary: BudgetLedgerSummary }
+  | BudgetChangeFailure;
+
+export type SpendRecordResult =
+  | { changed: true; entry: SpendEntry; summary: BudgetLedgerSummary; alerts: BudgetAlert[] }
+  | BudgetChangeFailure;
+
+/** Input of `ad.manage_budget` for a campaign, taken from its ledger */
+export interface ManageBudgetInput {
+  campaignId: string;
+  totalBudget?: number;
+  platforms: PlatformPerformance[];
+}
+
+const PLATFORMS = new Set<string>(Object.values(Platform));
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Per-platform budget allocations and recorded spend of campaigns.
+ *
+ * Allocations split the campaign budget between platforms; spend entries are
+ * appended as money goes out, from users or synced from the ad platforms.
+ * Recording spend that pushes a platform or the campaign over its budget, or
+ * well ahead of its daily pace, adds a BUDGET_ALERT to the campaign feed.
+ */
+export class BudgetLedgerService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activity: ActivityService,
+    private readonly log: Logger
+  ) {}
+
+  /** Ledger summary of the campaign; null when it does not exist */
+  async getLedger(
+    campaignId: string,
+    options: BudgetActionOptions = {}
+  ): Promise<BudgetLedgerSummary | null> {
+    const ledger = await this.load(campaignId, options.workspaceId);
+    return ledger && summarizeBudgetLedger(ledger.input, options.now);
+  }
+
+  /**
+   * Replace the campaign's allocations. Platforms left out lose theirs, and
+   * the allocations may not add up to more than the campaign budget.
+   */
+  async setAllocations(
+    campaignId: string,
+    allocations: PlatformAllocationInput[],
+    options: BudgetActionOptions = {}
+  ): Promise<AllocationChangeResult> {
+    const ledger = await this.load(campaignId, options.workspaceId);
+    if (!ledger) return { changed: false, reason: 'not_found', problems: [] };
+
+    const problems = this.checkAllocations(allocations, ledger.input.budget);
+    if (problems.length > 0) return { changed: false, reason: 'invalid', problems };
+
+    const { campaign } = ledger;
+    await this.db.$transaction([
+      this.db.budgetAllocation.deleteMany({
+        where: { campaignId, platform: { notIn: allocations.map(({ platform }) => platform) } },
+      }),
+      ...allocations.map(({ platform, amount }) =>
+        this.db.budgetAllocation.upsert({
+          where: { campaignId_platform: { campaignId, platform } },
+          create: {
+            campaignId,
+            platform,
+            amount,
+            workspaceId: campaign.workspaceId,
+            updatedById: options.actorId ?? null,
+          },
+          update: { amount, updatedById: options.actorId ?? null },
+        })
+      ),
+    ]);
+
+    await this.activity.record({
+      campaignId,
+      type: 'BUDGET_CHANGED',
+      actorId: options.actorId ?? null,
+      workspaceId: campaign.workspaceId,
+      data: {
+        allocations: {
+          from: Object.fromEntries(ledger.input.allocations.map(a => [a.platform, a.amount])),
+          to: Object.fromEntries(allocations.map(a => [a.platform, a.amount])),
+        },
+      },
+    });
+
+    return {
+      changed: true,
+      summary: summarizeBudgetLedger({ ...ledger.input, allocations }, options.now),
+    };
+  }
+
+  /**
+   * Append a spend entry. Entries with an `externalId` are recorded once per
+   * source, so re-syncing spend from an ad platform does not count it twice.
+   */
+  async recordSpend(
+    campaignId: string,
+    input: SpendEntryInput,
+    options: BudgetActionOptions = {}
+  ): Promise<SpendRecordResult> {
+    const ledger = await this.load(campaignId, options.workspaceId);
+    if (!ledger) return { changed: false, reason: 'not_found', problems: [] };
+
+    let entry: SpendEntry;
+    try {
+      entry = await this.db.spendEntry.create({
+        data: {
+          campaignId,
+          platform: input.platform,
+          amount: input.amount,
+          revenue: input.revenue ?? 0,
+          ...(input.spentAt && { spentAt: input.spentAt }),
+          ...(input.source && { source: input.source }),
+          externalId: input.externalId ?? null,
+          note: input.note ?? null,
+          recordedById: options.actorId ?? null,
+          workspaceId: ledger.campaign.workspaceId,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return {
+          changed: false,
+          reason: 'duplicate',
+          problems: [`Spend ${input.externalId} was already recorded`],
+        };
+      }
+      throw error;
+    }
+
+    const before = summarizeBudgetLedger(ledger.input, options.now);
+    const summary = summarizeBudgetLedger(
+      { ...ledger.input, spend: [...ledger.input.spend, entry] },
+      options.now
+    );
+    const alerts = getNewBudgetAlerts(before.alerts, summary.alerts);
+
+    for (const alert of alerts) {
+      this.log.warn('Campaign budget alert', { campaignId, ...alert });
+      await this.activity.record({
+        campaignId,
+        type: 'BUDGET_ALERT',
+        workspaceId: ledger.campaign.workspaceId,
+        data: { ...alert, spendEntryId: entry.id },
+      });
+    }
+
+    return { changed: true, entry, summary, alerts };
+  }
+
+  /** Spend entries of the campaign, newest first */
+  async listSpend(
+    campaignId: string,
+    page: { limit: number; offset: number; platform?: Platform; workspaceId?: string }
+  ): Promise<{ entries: SpendEntry[]; total: number; hasMore: boolean }> {
+    const where: Prisma.SpendEntryWhereInput = {
+      campaignId,
+      ...(page.platform && { platform: page.platform }),
+      ...(page.workspaceId && { workspaceId: page.workspaceId }),
+    };
+    const [entries, total] = await Promise.all([
+      this.db.spendEntry.findMany({
+        where,
+        orderBy: { spentAt: 'desc' },
+        take: page.limit,
+        skip: page.offset,
+      }),
+      this.db.spendEntry.count({ where }),
+    ]);
+    return { entries, total, hasMore: total > page.offset + page.limit };
+  }
+
+  /**
+   * Input for `ad.manage_budget`: every platform the campaign runs on or has
+   * allocated to, with what it was given, spent and earned so far.
+   */
+  async getManageBudgetInput(
+    campaignId: string,
+    options: BudgetActionOptions = {}
+  ): Promise<ManageBudgetInput | null> {
+    const ledger = await this.load(campaignId, options.workspaceId);
+    if (!ledger) return null;
+
+    const summary = summarizeBudgetLedger(ledger.input, options.now);
+    const byPlatform = new Map(
+      ledger.campaign.platforms.map((platform): [string, PlatformPerformance] => [
+        platform,
+        { platform, allocated: 0, spent: 0, revenue: 0 },
+      ])
+    );
+    for (const { platform, allocated, spent, revenue } of summary.platforms) {
+      byPlatform.set(platform, { platform, allocated, spent, revenue });
+    }
+
+    return {
+      campaignId,
+      ...(ledger.input.budget !== null && { totalBudget: ledger.input.budget }),
+      platforms: [...byPlatform.values()],
+    };
+  }
+
+  /**
+   * Write the allocation a completed `ad.manage_budget` run of this campaign
+   * recommended.
+   */
+  async applyReallocation(
+    campaignId: string,
+    executionId: string,
+    options: BudgetActionOptions = {}
+  ): Promise<AllocationChangeResult> {
+    const execution = await this.db.agentExecution.findFirst({
+      where: {
+        id: executionId,
+        campaignId,
+        task: 'manage_budget',
+        ...(options.workspaceId && { workspaceId: options.workspaceId }),
+      },
+    });
+    if (!execution) return { changed: false, reason: 'not_found', problems: [] };
+    if (execution.status !== 'COMPLETED') {
+      return {
+        changed: false,
+        reason: 'invalid',
+        problems: [`Execution is ${execution.status}, not COMPLETED`],
+      };
+    }
+
+    const recommended = asRecord(asRecord(execution.result).budgetAllocation);
+    const allocations: PlatformAllocationInput[] = [];
+    for (const [platform, amount] of Object.entries(recommended)) {
+      if (!PLATFORMS.has(platform) || typeof amount !== 'number') {
+        return {
+          changed: false,
+          reason: 'invalid',
+          problems: [`Execution recommended an unknown platform: ${platform}`],
+        };
+      }
+      allocations.push({ platform: platform as Platform, amount });
+    }
+
+    const result = await this.setAllocations(campaignId, allocations, options);
+    if (result.changed) {
+      this.log.info('Applied budget reallocation', { campaignId, executionId });
+    }
+    return result;
+  }
+
+  private checkAllocations(
+    allocations: PlatformAllocationInput[],
+    budget: number | null
+  ): string[] {
+    const problems: string[] = [];
+    const platforms = new Set(allocations.map(({ platform }) => platform));
+    if (platforms.size !== allocations.length) problems.push('Each platform can be allocated once');
+
+    const total = allocations.reduce((sum, { amount }) => sum + amount, 0);
+    // Allow for rounding in allocations computed from percentages
+    if (budget !== null && total > budget + 0.01) {
+      problems.push(
+        `Allocations total ${total.toFixed(2)}, more than the budget of ${budget.toFixed(2)}`
+      );
+    }
+    return problems;
+  }
+
+  private async load(
+    campaignId: string,
+    workspaceId?: string
+  ): Promise<{
+    campaign: { workspaceId: string | null; platforms: Platform[] };
+    input: BudgetLedgerInput;
+  } | null> {
+    const campaign = await this.db.campaign.findFirst({
+      where: { id: campaignId, ...(workspaceId && { workspaceId }) },
+      select: {
+        workspaceId: true,
+        platforms: true,
+        budget: true,
+        startDate: true,
+        endDate: true,
+        budgetAllocations: { select: { platform: true, amount: true } },
+        spendEntries: { select: { platform: true, amount: true, revenue: true, spentAt: true } },
+      },
+    });
+    if (!campaign) return null;
+
+    return {
+      campaign: { workspaceId: campaign.workspaceId, platforms: campaign.platforms },
+      input: {
+        budget: campaign.budget,
+        startDate: campaign.startDate,
+        endDate: campaign.endDate,
+        allocations: campaign.budgetAllocations,
+        spend: campaign.spendEntries,
+      },
+    };
+  }
+}
+
+const globalForBudgets = globalThis as unknown as {
+  budgetLedger: BudgetLedgerService | undefined;
+};
+
+export const budgetLedger =
+  globalForBudgets.budgetLedger ?? new BudgetLedgerService(prisma, activityService, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForBudgets.budgetLedger = budgetLedger;
@@ -0,0 +1,264 @@
+import {
+  checkCampaignTransition,
+  getDueCampaignTransition,
+  type CampaignLifecycleStatus,
+} from '@neonhub/core-agents';
+import { prisma, type Campaign, type Prisma, type PrismaClient } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import { activityService, type ActivityService } from './activity';
+import { agentExecutionQueue, type AgentExecutionQueue } from './jobs/agent-execution-queue';
+import { workflowRunStore, type PrismaWorkflowRunStore } from './jobs/workflow-run-store';
+
+/** Work a transition held, resumed or cancelled along with the campaign */
+export interface CampaignTransitionEffects {
+  jobs: number;
+  workflowRuns: number;
+  posts: number;
+}
+
+export type CampaignTransitionResult =
+  | { changed: true; campaign: Campaign; effects: CampaignTransitionEffects }
+  | {
+      changed: false;
+      reason: 'not_found' | 'illegal_transition' | 'guard_failed' | 'conflict';
+      problems: string[];
+    };
+
+export interface CampaignTransitionOptions {
+  /** Only transition the campaign if it belongs to this workspace */
+  workspaceId?: string;
+  /** Null for transitions made by the scheduler */
+  actorId?: string | null;
+  /** Why the scheduler made the transition, kept in the activity feed */
+  reason?: string;
+  now?: Date;
+}
+
+export interface DueTransitionsSummary {
+  activated: number;
+  completed: number;
+  /** Scheduled campaigns sent back to DRAFT because they were not ready to start */
+  blocked: number;
+}
+
+const NO_EFFECTS: CampaignTransitionEffects = { jobs: 0, workflowRuns: 0, posts: 0 };
+
+// Set on posts taken off the schedule while their campaign is paused
+const HELD_FLAG = 'heldByCampaign';
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Moves campaigns through their lifecycle (see `CAMPAIGN_TRANSITIONS`) and
+ * keeps the campaign's work in step: pausing a campaign holds its queued agent
+ * jobs, workflow runs and scheduled posts, resuming it releases them, and
+ * completing or cancelling it cancels whatever has not run yet.
+ *
+ * `runDueTransitions` is called periodically by the worker to start scheduled
+ * campaigns and complete campaigns at their end date.
+ */
+export class CampaignLifecycleService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly queue: AgentExecutionQueue,
+    private readonly runs: PrismaWorkflowRunStore,
+    private readonly activity: ActivityService,
+    private readonly log: Logger
+  ) {}
+
+  async transition(
+    campaignId: string,
+    to: CampaignLifecycleStatus,
+    options: CampaignTransitionOptions = {}
+  ): Promise<CampaignTransitionResult> {
+    const campaign = await this.db.campaign.findFirst({
+      where: { id: campaignId, ...(options.workspaceId && { workspaceId: options.workspaceId }) },
+    });
+    if (!campaign) return { changed: false, reason: 'not_found', problems: [] };
+
+    const check = checkCampaignTransition(campaign, to, options.now);
+    if (!check.allowed) return { changed: false, ...check };
+
+    // Only move from the status that was checked, in case another request got there first
+    const { count } = await this.db.campaign.updateMany({
+      where: { id: campaign.id, status: campaign.status },
+      data: { status: to },
+    });
+    if (count === 0) {
+      return {
+        changed: false,
+        reason: 'conflict',
+        problems: ['Campaign status changed meanwhile'],
+      };
+    }
+
+    const updated = { ...campaign, status: to };
+    const effects = await this.applyEffects(campaign.id, campaign.status, to);
+
+    await this.activity.recordCampaignUpdate(campaign, updated, options.actorId ?? undefined, {
+      ...(options.reason && { reason: options.reason }),
+      ...effects,
+    });
+    this.log.info('Campaign status changed', {
+      campaignId: campaign.id,
+      from: campaign.status,
+      to,
+      ...(options.reason && { reason: options.reason }),
+      ...effects,
+    });
+
+    return { changed: true, campaign: updated, effects };
+  }
+
+  /**
+   * Start scheduled campaigns whose start date has come and complete those
+   * whose end date has passed. A scheduled campaign that is no longer ready
+   * to run (e.g. its budget was removed) goes back to DRAFT instead.
+   */
+  async runDueTransitions(now = new Date(), limit = 100): Promise<DueTransitionsSummary> {
+    const summary: DueTransitionsSummary = { activated: 0, completed: 0, blocked: 0 };
+
+    const candidates = await this.db.campaign.findMany({
+      where: {
+        OR: [
+          { status: 'SCHEDULED', OR: [{ startDate: { lte: now } }, { endDate: { lte: now } }] },
+          { status: { in: ['ACTIVE', 'PAUSED'] }, endDate: { lte: now } },
+        ],
+      },
+      orderBy: { startDate: 'asc' },
+      take: limit,
+    });
+
+    for (const campaign of candidates) {
+      const due = getDueCampaignTransition(campaign, now);
+      if (!due) continue;
+
+      try {
+        const result = await this.transition(campaign.id, due.to, { reason: due.reason, now });
+        if (result.changed) {
+          if (due.to === 'ACTIVE') summary.activated++;
+          else summary.completed++;
+          continue;
+        }
+
+        if (result.reason === 'guard_failed') {
+          const unscheduled = await this.transition(campaign.id, 'DRAFT', {
+            reason: `launch_blocked: ${result.problems.join('; ')}`,
+            now,
+          });
+          if (unscheduled.changed) summary.blocked++;
+        }
+      } catch (error) {
+        this.log.error('Scheduled campaign transition failed', {
+          campaignId: campaign.id,
+          to: due.to,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return summary;
+  }
+
+  private async applyEffects(
+    campaignId: string,
+    from: CampaignLifecycleStatus,
+    to: CampaignLifecycleStatus
+  ): Promise<CampaignTransitionEffects> {
+    if (to === 'PAUSED') {
+      return {
+        jobs: await this.queue.pauseCampaign(campaignId),
+        workflowRuns: await this.runs.pauseCampaign(campaignId),
+        posts: await this.holdScheduledPosts(campaignId),
+      };
+    }
+    if (from === 'PAUSED' && to === 'ACTIVE') {
+      return {
+        jobs: await this.queue.resumeCampaign(campaignId),
+        workflowRuns: await this.runs.resumeCampaign(campaignId),
+        posts: await this.releaseHeldPosts(campaignId),
+      };
+    }
+    if (to === 'CANCELLED' || to === 'COMPLETED') {
+      return {
+        jobs: await this.queue.cancelCampaign(campaignId),
+        workflowRuns: await this.runs.cancelCampaign(campaignId),
+        posts: await this.archiveUnpublishedPosts(campaignId),
+      };
+    }
+    return NO_EFFECTS;
+  }
+
+  private campaignPosts(campaignId: string): Prisma.ContentWhereInput {
+    return { metadata: { path: ['campaignId'], equals: campaignId } };
+  }
+
+  private async holdScheduledPosts(campaignId: string): Promise<number> {
+    const posts = await this.db.content.findMany({
+      where: { ...this.campaignPosts(campaignId), status: 'SCHEDULED' },
+      select: { id: true, metadata: true },
+    });
+    for (const post of posts) {
+      await this.db.content.update({
+        where: { id: post.id },
+        data: {
+          status: 'DRAFT',
+          metadata: { ...asRecord(post.metadata), [HELD_FLAG]: true } as Prisma.InputJsonValue,
+        },
+      });
+    }
+    return posts.length;
+  }
+
+  private async releaseHeldPosts(campaignId: string): Promise<number> {
+    const posts = await this.db.content.findMany({
+      where: {
+        AND: [this.campaignPosts(campaignId), { metadata: { path: [HELD_FLAG], equals: true } }],
+        status: 'DRAFT',
+      },
+      select: { id: true, metadata: true },
+    });
+    for (const post of posts) {
+      const metadata = { ...asRecord(post.metadata) };
+      delete metadata[HELD_FLAG];
+      await this.db.content.update({
+        where: { id: post.id },
+        data: { status: 'SCHEDULED', metadata: metadata as Prisma.InputJsonValue },
+      });
+    }
+    return posts.length;
+  }
+
+  private async archiveUnpublishedPosts(campaignId: string): Promise<number> {
+    const { count } = await this.db.content.updateMany({
+      where: {
+        ...this.campaignPosts(campaignId),
+        OR: [
+          { status: 'SCHEDULED' },
+          { status: 'DRAFT', metadata: { path: [HELD_FLAG], equals: true } },
+        ],
+      },
+      data: { status: 'ARCHIVED' },
+    });
+    return count;
+  }
+}
+
+const globalForCampaigns = globalThis as unknown as {
+  campaignLifecycle: CampaignLifecycleService | undefined;
+};
+
+export const campaignLifecycle =
+  globalForCampaigns.campaignLifecycle ??
+  new CampaignLifecycleService(
+    prisma,
+    agentExecutionQueue,
+    workflowRunStore,
+    activityService,
+    logger
+  );
+
+if (process.env.NODE_ENV !== 'production') globalForCampaigns.campaignLifecycle = campaignLifecycle;
@@ -0,0 +1,274 @@
+import { prisma, type Comment, type Prisma, type PrismaClient } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+
+/** What a comment thread is attached to */
+export type CommentTarget =
+  | { type: 'campaign'; id: string }
+  | { type: 'content'; id: string }
+  | { type: 'abTest'; id: string };
+
+export type CommentChangeResult =
+  | { changed: true; comment: CommentWithDetails }
+  | { changed: false; reason: 'not_found' | 'forbidden' };
+
+export interface CreateCommentInput {
+  workspaceId: string;
+  authorId: string;
+  body: string;
+  /** Required unless the comment replies to another one, whose target it shares */
+  target?: CommentTarget;
+  parentId?: string;
+}
+
+export interface UpdateCommentInput {
+  workspaceId: string;
+  id: string;
+  userId: string;
+  /** Lets the user edit and delete other members' comments */
+  canModerate?: boolean;
+}
+
+const commentDetails = {
+  author: { select: { id: true, name: true, email: true, avatar: true } },
+  mentions: { include: { user: { select: { id: true, name: true, email: true } } } },
+} satisfies Prisma.CommentInclude;
+
+export type CommentWithDetails = Prisma.CommentGetPayload<{ include: typeof commentDetails }>;
+
+export interface CommentThread extends CommentWithDetails {
+  replies: CommentWithDetails[];
+}
+
+// `@jane` or `@jane@example.com`, but not the domain part of a plain email address
+const MENTION_PATTERN = /(?:^|[^\w.@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+/** Lower-cased handles mentioned in a comment body, without duplicates */
+export function parseMentions(body: string): string[] {
+  const handles = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const handle = match[1]?.replace(/\.+$/, '').toLowerCase();
+    if (handle) handles.add(handle);
+  }
+  return [...handles];
+}
+
+type TargetFields = { campaignId: string } | { contentId: string } | { abTestId: string };
+
+function targetFields(target: CommentTarget): TargetFields {
+  switch (target.type) {
+    case 'campaign':
+      return { campaignId: target.id };
+    case 'content':
+      return { contentId: target.id };
+    default:
+      return { abTestId: target.id };
+  }
+}
+
+/** A deleted comment stays in its thread as a placeholder without its text */
+function redact<T extends Comment>(comment: T): T {
+  return comment.deletedAt ? { ...comment, body: '' } : comment;
+}
+
+/**
+ * Threaded comments on campaigns, content items and A/B tests.
+ *
+ * Threads are one level deep: a reply to a reply joins the thread of the
+ * comment that started it. `@mentions` are resolved against the members of
+ * the comment's workspace, by full email address or by the part before the @.
+ */
+export class CommentService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger
+  ) {}
+
+  /** Threads on a target, oldest first, with their replies */
+  async list(workspaceId: string, target: CommentTarget): Promise<CommentThread[]> {
+    const comments = await this.db.comment.findMany({
+      where: { workspaceId, ...targetFields(target) },
+      include: commentDetails,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const threads = new Map<string, CommentThread>();
+    for (const comment of comments) {
+      if (!comment.parentId) threads.set(comment.id, { ...redact(comment), replies: [] });
+    }
+    for (const comment of comments) {
+      if (comment.parentId && !comment.deletedAt) {
+        threads.get(comment.parentId)?.replies.push(comment);
+      }
+    }
+
+    // Deleted comments are only kept to hold their replies together
+    return [...threads.values()].filter(thread => !thread.deletedAt || thread.replies.length > 0);
+  }
+
+  async create(input: CreateCommentInput): Promise<CommentChangeResult> {
+    let location: Pick<
+      Prisma.CommentUncheckedCreateInput,
+      'parentId' | 'campaignId' | 'contentId' | 'abTestId'
+    >;
+
+    if (input.parentId) {
+      const parent = await this.db.comment.findFirst({
+        where: { id: input.parentId, workspaceId: input.workspaceId, deletedAt: null },
+      });
+      if (!parent) return { changed: false, reason: 'not_found' };
+
+      location = {
+        parentId: parent.parentId ?? parent.id,
+        campaignId: parent.campaignId,
+        contentId: parent.contentId,
+        abTestId: parent.abTestId,
+      };
+    } else {
+      if (!input.target || !(await this.targetExists(input.workspaceId, input.target))) {
+        return { changed: false, reason: 'not_found' };
+      }
+
+      location = targetFields(input.target);
+    }
+
+    const mentionedIds = await this.resolveMentions(input.workspaceId, input.body, input.authorId);
+    const comment = await this.db.comment.create({
+      data: {
+        ...location,
+        authorId: input.authorId,
+        body: input.body,
+        workspaceId: input.workspaceId,
+        mentions: { create: mentionedIds.map(userId => ({ userId })) },
+      },
+      include: commentDetails,
+    });
+
+    if (mentionedIds.length > 0) {
+      this.log.info('Comment mentions members', {
+        commentId: comment.id,
+        workspaceId: input.workspaceId,
+        mentioned: mentionedIds.length,
+      });
+    }
+    return { changed: true, comment };
+  }
+
+  /** Change a comment's text; mentions are resolved again from the new text */
+  async update(input: UpdateCommentInput & { body: string }): Promise<CommentChangeResult> {
+    const existing = await this.findEditable(input);
+    if (!existing.changed) return existing;
+
+    const mentionedIds = await this.resolveMentions(
+      input.workspaceId,
+      input.body,
+      existing.comment.authorId
+    );
+    const comment = await this.db.comment.update({
+      where: { id: input.id },
+      data: {
+        body: input.body,
+        editedAt: new Date(),
+        mentions: {
+          deleteMany: { userId: { notIn: mentionedIds } },
+          connectOrCreate: mentionedIds.map(userId => ({
+            where: { commentId_userId: { commentId: input.id, userId } },
+            create: { userId },
+          })),
+        },
+      },
+      include: commentDetails,
+    });
+    return { changed: true, comment };
+  }
+
+  /** Soft-delete a comment so its replies keep their thread */
+  async remove(input: UpdateCommentInput): Promise<CommentChangeResult> {
+    const existing = await this.findEditable(input);
+    if (!existing.changed) return existing;
+
+    const comment = await this.db.comment.update({
+      where: { id: input.id },
+      data: { deletedAt: new Date(), mentions: { deleteMany: {} } },
+      include: commentDetails,
+    });
+    return { changed: true, comment: redact(comment) };
+  }
+
+  /** Comments that mention a user, newest first */
+  async listMentions(
+    workspaceId: string,
+    userId: string,
+    limit = 20
+  ): Promise<CommentWithDetails[]> {
+    return this.db.comment.findMany({
+      where: { workspaceId, deletedAt: null, mentions: { some: { userId } } },
+      include: commentDetails,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async findEditable(input: UpdateCommentInput): Promise<CommentChangeResult> {
+    const comment = await this.db.comment.findFirst({
+      where: { id: input.id, workspaceId: input.workspaceId, deletedAt: null },
+      include: commentDetails,
+    });
+    if (!comment) return { changed: false, reason: 'not_found' };
+    if (comment.authorId !== input.userId && !input.canModerate) {
+      return { changed: false, reason: 'forbidden' };
+    }
+    return { changed: true, comment };
+  }
+
+  private async targetExists(workspaceId: string, target: CommentTarget): Promise<boolean> {
+    switch (target.type) {
+      case 'campaign':
+        return (await this.db.campaign.count({ where: { id: target.id, workspaceId } })) > 0;
+      case 'content':
+        return (await this.db.content.count({ where: { id: target.id, workspaceId } })) > 0;
+      default:
+        // A/B tests belong to a workspace through their campaign
+        return (
+          (await this.db.aBTest.count({ where: { id: target.id, campaign: { workspaceId } } })) > 0
+        );
+    }
+  }
+
+  /**
+   * Ids of the workspace members a body mentions. A handle without a domain
+   * must match exactly one member; authors mentioning themselves are ignored.
+   */
+  private async resolveMentions(
+    workspaceId: string,
+    body: string,
+    authorId: string
+  ): Promise<string[]> {
+    const handles = parseMentions(body);
+    if (handles.length === 0) return [];
+
+    const members = await this.db.workspaceMember.findMany({
+      where: { workspaceId },
+      select: { user: { select: { id: true, email: true } } },
+    });
+
+    const ids = new Set<string>();
+    for (const handle of handles) {
+      const matches = members.filter(({ user }) => {
+        const email = user.email.toLowerCase();
+        return handle.includes('@') ? email === handle : email.split('@')[0] === handle;
+      });
+      if (matches.length === 1 && matches[0]) ids.add(matches[0].user.id);
+    }
+    ids.delete(authorId);
+    return [...ids];
+  }
+}
+
+const globalForComments = globalThis as unknown as {
+  commentService: CommentService | undefined;
+};
+
+export const commentService =
+  globalForComments.commentService ?? new CommentService(prisma, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForComments.commentService = commentService;
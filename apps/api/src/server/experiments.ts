@@ -0,0 +1,574 @@
+import {
+  ABTestSettingsSchema,
+  ABTestVariantSchema,
+  BanditSettingsSchema,
+  assignVariant,
+  computeBanditAllocation,
+  evaluateABTest,
+  withVariantIds,
+  type ABTestEvaluation,
+  type ABTestSettings,
+  type ABTestVariant,
+  type BanditAllocation,
+  type BanditArmStats,
+  type BanditSettings,
+  type VariantStats,
+} from '@neonhub/core-agents';
+import {
+  prisma,
+  type ABTest,
+  type ABTestAllocation,
+  type ABTestEventType,
+  type ABTestMode,
+  type ABTestStatus,
+  type Prisma,
+  type PrismaClient,
+} from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+
+export interface CreateABTestInput {
+  campaignId: string;
+  name: string;
+  description?: string;
+  variants: Array<Partial<ABTestVariant> & { id?: string }>;
+  settings?: Partial<ABTestSettings>;
+  mode?: ABTestMode;
+  /** How a bandit test shifts traffic; ignored by fixed tests */
+  bandit?: Partial<BanditSettings>;
+  /** Start collecting right away instead of saving a draft */
+  start?: boolean;
+}
+
+export interface ABTestEventInput {
+  type: ABTestEventType;
+  unitId: string;
+  /** Exposures default to the unit's assignment; conversions go to the variant the unit saw */
+  variantId?: string;
+  value?: number;
+  occurredAt?: Date;
+}
+
+export interface IngestSummary {
+  accepted: number;
+  /** Already recorded: a unit is exposed and converts once per test */
+  duplicates: number;
+  /** Conversions of units that were never exposed, and events for unknown variants */
+  ignored: number;
+  evaluation: ABTestEvaluation | null;
+}
+
+export type ABTestChangeResult<T> =
+  | ({ changed: true } & T)
+  | { changed: false; reason: 'not_found' | 'invalid' | 'not_running'; problems: string[] };
+
+/** Most events accepted in one `ingest` call */
+export const AB_TEST_EVENT_BATCH_LIMIT = 1000;
+
+/** What caused a bandit test's traffic split to be recomputed */
+export type AllocationTrigger = 'created' | 'analytics' | 'manual';
+
+// Stored weight of a variant a bandit has all but stopped sending traffic to
+const MIN_VARIANT_WEIGHT = 0.0001;
+
+// Variant generation tasks whose results can seed a test
+const VARIANT_TASKS = ['a_b_test_content', 'a_b_test_ads'];
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/** Stored variants and settings, read leniently so one bad field does not break a test */
+export function parseABTest(test: Pick<ABTest, 'variants' | 'settings'>): {
+  variants: ABTestVariant[];
+  settings: ABTestSettings;
+  bandit: BanditSettings;
+} {
+  const variants = Array.isArray(test.variants)
+    ? test.variants.flatMap(value => {
+        const parsed = ABTestVariantSchema.safeParse(value);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : [];
+  const settings = ABTestSettingsSchema.safeParse(asRecord(test.settings));
+  const bandit = BanditSettingsSchema.safeParse(asRecord(asRecord(test.settings).bandit));
+  return {
+    variants,
+    settings: settings.success ? settings.data : ABTestSettingsSchema.parse({}),
+    bandit: bandit.success ? bandit.data : BanditSettingsSchema.parse({}),
+  };
+}
+
+/**
+ * A/B tests on campaign content and ads.
+ *
+ * Units (users, sessions, leads) are assigned to variants deterministically,
+ * so assignment needs no storage and every service assigns the same way.
+ * Exposure and conversion events are ingested in batches, at most one of each
+ * per unit and test. After every batch the test is evaluated with its
+ * sequential stop rule; with `autoDeclare` a winner (or an inconclusive end)
+ * completes the test and is written to `winner` and `confidence`.
+ *
+ * Bandit tests never stop on their own. Their variants' weights are
+ * recomputed from the reward metrics recorded in `Analytics` for the test,
+ * and every new split is kept as an `ABTestAllocation` for the dashboard.
+ */
+export class ExperimentService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger
+  ) {}
+
+  async create(
+    workspaceId: string,
+    input: CreateABTestInput
+  ): Promise<ABTestChangeResult<{ test: ABTest }>> {
+    const campaign = await this.db.campaign.findFirst({
+      where: { id: input.campaignId, workspaceId },
+      select: { id: true },
+    });
+    if (!campaign) return { changed: false, reason: 'not_found', problems: ['Campaign not found'] };
+
+    const variants = withVariantIds(input.variants).map(variant =>
+      ABTestVariantSchema.parse(variant)
+    );
+    const settings = ABTestSettingsSchema.safeParse(input.settings ?? {});
+    const bandit = BanditSettingsSchema.safeParse(input.bandit ?? {});
+    const problems = [
+      ...(variants.length < 2 ? ['A test needs at least two variants'] : []),
+      ...(settings.success ? [] : settings.error.issues.map(issue => issue.message)),
+      ...(bandit.success ? [] : bandit.error.issues.map(issue => issue.message)),
+    ];
+    if (
+      settings.success &&
+      settings.data.controlId &&
+      !variants.some(v => v.id === settings.data.controlId)
+    ) {
+      problems.push(`Control ${settings.data.controlId} is not one of the variants`);
+    }
+    if (!settings.success || !bandit.success || problems.length > 0) {
+      return { changed: false, reason: 'invalid', problems };
+    }
+
+    const mode = input.mode ?? 'FIXED';
+    const test = await this.db.aBTest.create({
+      data: {
+        campaignId: input.campaignId,
+        name: input.name,
+        description: input.description ?? null,
+        status: input.start ? 'RUNNING' : 'DRAFT',
+        mode,
+        variants: variants as Prisma.InputJsonValue,
+        settings: {
+          ...settings.data,
+          ...(mode === 'BANDIT' && { bandit: bandit.data }),
+        } as Prisma.InputJsonValue,
+        workspaceId,
+      },
+    });
+
+    if (mode === 'BANDIT') {
+      // Bandits start from the split the variants were created with
+      const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+      const shares = Object.fromEntries(variants.map(v => [v.id, v.weight / total]));
+      await this.recordAllocation(
+        test,
+        {
+          algorithm: bandit.data.algorithm,
+          shares,
+          leader: null,
+          arms: variants.map(v => ({ variantId: v.id, trials: 0, rewards: 0, rate: 0 })),
+        },
+        'created'
+      );
+    }
+    return { changed: true, test };
+  }
+
+  /**
+   * Variants produced by a completed `a_b_test_content` or `a_b_test_ads`
+   * run, ready to create a test from. Null when there is no such run.
+   */
+  async variantsFromExecution(
+    workspaceId: string,
+    executionId: string
+  ): Promise<ABTestVariant[] | null> {
+    const execution = await this.db.agentExecution.findFirst({
+      where: {
+        id: executionId,
+        workspaceId,
+        status: 'COMPLETED',
+        task: { in: VARIANT_TASKS },
+      },
+      select: { result: true },
+    });
+    const generated = asRecord(execution?.result).variants;
+    if (!execution || !Array.isArray(generated)) return null;
+
+    return withVariantIds(generated.map(asRecord)).map(({ id, ...content }) => ({
+      id,
+      weight: 1,
+      content,
+    }));
+  }
+
+  async setStatus(
+    workspaceId: string,
+    testId: string,
+    status: Extract<ABTestStatus, 'RUNNING' | 'STOPPED'>
+  ): Promise<ABTestChangeResult<{ test: ABTest }>> {
+    const from: ABTestStatus[] = status === 'RUNNING' ? ['DRAFT', 'STOPPED'] : ['DRAFT', 'RUNNING'];
+    const { count } = await this.db.aBTest.updateMany({
+      where: { id: testId, workspaceId, status: { in: from } },
+      data: { status, ...(status === 'STOPPED' && { endDate: new Date() }) },
+    });
+    const test = await this.db.aBTest.findFirst({ where: { id: testId, workspaceId } });
+    if (!test) return { changed: false, reason: 'not_found', problems: [] };
+    if (count === 0) {
+      return {
+        changed: false,
+        reason: 'invalid',
+        problems: [`Cannot change a ${test.status} test to ${status}`],
+      };
+    }
+    return { changed: true, test };
+  }
+
+  /**
+   * The variant to show a unit. Running tests assign by hash and can record
+   * the exposure; completed tests show everyone their winner. Bandit weights
+   * change over time, so a unit keeps the variant it was first exposed to.
+   */
+  async assign(
+    workspaceId: string,
+    testId: string,
+    unitId: string,
+    options: { recordExposure?: boolean } = {}
+  ): Promise<{ variant: ABTestVariant; exposureRecorded: boolean } | null> {
+    const test = await this.db.aBTest.findFirst({ where: { id: testId, workspaceId } });
+    if (!test) return null;
+
+    const { variants } = parseABTest(test);
+    const winner = test.winner && variants.find(variant => variant.id === test.winner);
+    if (winner) return { variant: winner, exposureRecorded: false };
+
+    const exposure =
+      test.mode === 'BANDIT'
+        ? await this.db.aBTestEvent.findFirst({
+            where: { abTestId: test.id, type: 'EXPOSURE', unitId },
+            select: { variantId: true },
+          })
+        : null;
+    const variantId = exposure?.variantId ?? assignVariant(test.id, unitId, variants);
+    const variant = variants.find(candidate => candidate.id === variantId);
+    if (!variant) return null;
+
+    let exposureRecorded = false;
+    if (test.status === 'RUNNING' && options.recordExposure !== false) {
+      const { count } = await this.db.aBTestEvent.createMany({
+        data: [{ abTestId: test.id, variantId, unitId, type: 'EXPOSURE', workspaceId }],
+        skipDuplicates: true,
+      });
+      exposureRecorded = count > 0;
+    }
+    return { variant, exposureRecorded };
+  }
+
+  /**
+   * Record exposure and conversion events, then evaluate the test. Only
+   * running tests take events.
+   */
+  async ingest(
+    workspaceId: string,
+    testId: string,
+    events: ABTestEventInput[]
+  ): Promise<ABTestChangeResult<IngestSummary>> {
+    const test = await this.db.aBTest.findFirst({ where: { id: testId, workspaceId } });
+    if (!test) return { changed: false, reason: 'not_found', problems: [] };
+    if (test.status !== 'RUNNING') {
+      return { changed: false, reason: 'not_running', problems: [`Test is ${test.status}`] };
+    }
+
+    const { variants } = parseABTest(test);
+    const variantIds = new Set(variants.map(variant => variant.id));
+    const conversionUnits = events
+      .filter(event => event.type === 'CONVERSION')
+      .map(event => event.unitId);
+
+    // Conversions count for the variant the unit was exposed to, in this batch or before
+    const exposedTo = new Map<string, string>();
+    if (conversionUnits.length > 0) {
+      const exposures = await this.db.aBTestEvent.findMany({
+        where: { abTestId: test.id, type: 'EXPOSURE', unitId: { in: conversionUnits } },
+        select: { unitId: true, variantId: true },
+      });
+      for (const exposure of exposures) exposedTo.set(exposure.unitId, exposure.variantId);
+    }
+
+    const rows: Prisma.ABTestEventCreateManyInput[] = [];
+    let ignored = 0;
+    for (const event of events) {
+      let variantId: string | undefined;
+      if (event.type === 'EXPOSURE') {
+        variantId = event.variantId ?? assignVariant(test.id, event.unitId, variants);
+        if (!exposedTo.has(event.unitId)) exposedTo.set(event.unitId, variantId);
+      } else {
+        variantId = exposedTo.get(event.unitId);
+      }
+
+      if (!variantId || !variantIds.has(variantId)) {
+        ignored++;
+        continue;
+      }
+      rows.push({
+        abTestId: test.id,
+        variantId,
+        unitId: event.unitId,
+        type: event.type,
+        value: event.value ?? null,
+        ...(event.occurredAt && { occurredAt: event.occurredAt }),
+        workspaceId,
+      });
+    }
+
+    const { count } = await this.db.aBTestEvent.createMany({ data: rows, skipDuplicates: true });
+    const evaluation = count > 0 ? await this.evaluate(test) : null;
+
+    return {
+      changed: true,
+      accepted: count,
+      duplicates: rows.length - count,
+      ignored,
+      evaluation,
+    };
+  }
+
+  /** Exposures and conversions per variant */
+  async getStats(testId: string): Promise<VariantStats[]> {
+    const groups = await this.db.aBTestEvent.groupBy({
+      by: ['variantId', 'type'],
+      where: { abTestId: testId },
+      _count: { _all: true },
+    });
+
+    const stats = new Map<string, VariantStats>();
+    for (const group of groups) {
+      const entry = stats.get(group.variantId) ?? {
+        variantId: group.variantId,
+        exposures: 0,
+        conversions: 0,
+      };
+      if (group.type === 'EXPOSURE') entry.exposures = group._count._all;
+      else entry.conversions = group._count._all;
+      stats.set(group.variantId, entry);
+    }
+    return [...stats.values()];
+  }
+
+  /** Current analysis of a test without changing it */
+  async analyze(workspaceId: string, testId: string): Promise<ABTestEvaluation | null> {
+    const test = await this.db.aBTest.findFirst({ where: { id: testId, workspaceId } });
+    if (!test) return null;
+
+    const { variants, settings } = parseABTest(test);
+    return evaluateABTest(variants, await this.getStats(test.id), settings, { seed: test.id });
+  }
+
+  /**
+   * Recompute a running bandit test's traffic split from the rewards
+   * recorded for it in `Analytics`, store the new variant weights and add the
+   * split to the allocation history.
+   */
+  async reallocate(
+    workspaceId: string,
+    testId: string,
+    trigger: AllocationTrigger = 'manual'
+  ): Promise<ABTestChangeResult<{ allocation: BanditAllocation }>> {
+    const test = await this.db.aBTest.findFirst({ where: { id: testId, workspaceId } });
+    if (!test) return { changed: false, reason: 'not_found', problems: [] };
+    if (test.mode !== 'BANDIT') {
+      return { changed: false, reason: 'invalid', problems: ['Only bandit tests reallocate'] };
+    }
+    if (test.status !== 'RUNNING') {
+      return { changed: false, reason: 'not_running', problems: [`Test is ${test.status}`] };
+    }
+
+    const { variants, bandit } = parseABTest(test);
+    const allocation = computeBanditAllocation(
+      variants.map(variant => variant.id),
+      await this.getRewards(test, bandit),
+      bandit,
+      { seed: test.id }
+    );
+
+    const { count } = await this.db.aBTest.updateMany({
+      where: { id: test.id, status: 'RUNNING' },
+      data: {
+        variants: variants.map(variant => ({
+          ...variant,
+          weight: Math.max(allocation.shares[variant.id] ?? 0, MIN_VARIANT_WEIGHT),
+        })) as Prisma.InputJsonValue,
+      },
+    });
+    if (count === 0) {
+      return { changed: false, reason: 'not_running', problems: ['Test is no longer running'] };
+    }
+
+    await this.recordAllocation(test, allocation, trigger);
+    this.log.info('Bandit traffic reallocated', {
+      abTestId: test.id,
+      trigger,
+      leader: allocation.leader,
+      shares: allocation.shares,
+    });
+    return { changed: true, allocation };
+  }
+
+  /** How a bandit test's traffic split changed, oldest first */
+  async getAllocationHistory(
+    workspaceId: string,
+    testId: string,
+    limit = 100
+  ): Promise<ABTestAllocation[]> {
+    const latest = await this.db.aBTestAllocation.findMany({
+      where: { abTestId: testId, workspaceId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return latest.reverse();
+  }
+
+  /** Complete a test with a winner picked by hand */
+  async declareWinner(
+    workspaceId: string,
+    testId: string,
+    variantId: string
+  ): Promise<ABTestChangeResult<{ test: ABTest }>> {
+    const test = await this.db.aBTest.findFirst({ where: { id: testId, workspaceId } });
+    if (!test) return { changed: false, reason: 'not_found', problems: [] };
+    if (!parseABTest(test).variants.some(variant => variant.id === variantId)) {
+      return { changed: false, reason: 'invalid', problems: [`Unknown variant ${variantId}`] };
+    }
+
+    const evaluation = await this.analyze(workspaceId, testId);
+    const confidence =
+      evaluation?.bayesian.find(result => result.variantId === variantId)?.probabilityBest ?? null;
+    const updated = await this.db.aBTest.update({
+      where: { id: test.id },
+      data: {
+        status: 'COMPLETED',
+        winner: variantId,
+        confidence,
+        endDate: test.endDate ?? new Date(),
+        ...(evaluation && { results: this.toResults(evaluation) }),
+      },
+    });
+    return { changed: true, test: updated };
+  }
+
+  /**
+   * Store the latest analysis on the test and, when its stop rule is met and
+   * `autoDeclare` is on, complete it.
+   */
+  private async evaluate(test: ABTest): Promise<ABTestEvaluation> {
+    const { variants, settings } = parseABTest(test);
+    const evaluation = evaluateABTest(variants, await this.getStats(test.id), settings, {
+      seed: test.id,
+    });
+    const { decision } = evaluation;
+    // Bandits keep serving every variant instead of stopping
+    const stop = test.mode === 'FIXED' && settings.autoDeclare && decision.status !== 'continue';
+
+    // Only the first batch to meet the stop rule completes the test
+    const { count } = await this.db.aBTest.updateMany({
+      where: { id: test.id, status: 'RUNNING' },
+      data: {
+        results: this.toResults(evaluation),
+        ...(stop && {
+          status: 'COMPLETED',
+          endDate: new Date(),
+          ...(decision.status === 'winner' && {
+            winner: decision.winner,
+            confidence: decision.confidence,
+          }),
+        }),
+      },
+    });
+
+    if (stop && count > 0) {
+      this.log.info('A/B test completed', {
+        abTestId: test.id,
+        decision: decision.status,
+        reason: decision.reason,
+        ...(decision.status === 'winner' && {
+          winner: decision.winner,
+          confidence: decision.confidence,
+        }),
+      });
+    }
+    return evaluation;
+  }
+
+  /**
+   * Trials and rewards per variant, summed over the test's `Analytics` rows.
+   * Rows are tagged with `metadata.abTestId` and `metadata.variantId`.
+   */
+  private async getRewards(test: ABTest, bandit: BanditSettings): Promise<BanditArmStats[]> {
+    const rows = await this.db.analytics.findMany({
+      where: { workspaceId: test.workspaceId, metadata: { path: ['abTestId'], equals: test.id } },
+      select: { data: true, metadata: true },
+    });
+
+    const arms = new Map<string, BanditArmStats>();
+    for (const row of rows) {
+      const variantId = asRecord(row.metadata).variantId;
+      if (typeof variantId !== 'string') continue;
+
+      const data = asRecord(row.data);
+      const count = (key: string): number => {
+        const value = data[key];
+        return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+      };
+      const arm = arms.get(variantId) ?? { variantId, trials: 0, rewards: 0 };
+      arm.trials += count(bandit.trialMetric);
+      arm.rewards += count(bandit.rewardMetric);
+      arms.set(variantId, arm);
+    }
+    return [...arms.values()];
+  }
+
+  private async recordAllocation(
+    test: ABTest,
+    allocation: BanditAllocation,
+    trigger: AllocationTrigger
+  ): Promise<void> {
+    await this.db.aBTestAllocation.create({
+      data: {
+        abTestId: test.id,
+        algorithm: allocation.algorithm,
+        shares: allocation.shares,
+        arms: allocation.arms as unknown as Prisma.InputJsonValue,
+        trigger,
+        workspaceId: test.workspaceId,
+      },
+    });
+  }
+
+  private toResults(evaluation: ABTestEvaluation): Prisma.InputJsonValue {
+    return {
+      ...evaluation,
+      evaluatedAt: new Date().toISOString(),
+    } as unknown as Prisma.InputJsonValue;
+  }
+}
+
+const globalForExperiments = globalThis as unknown as {
+  experimentService: ExperimentService | undefined;
+};
+
+export const experimentService =
+  globalForExperiments.experimentService ?? new ExperimentService(prisma, logger);
+
+if (process.env.NODE_ENV !== 'production')
+  globalForExperiments.experimentService = experimentService;
@@ -0,0 +1,136 @@
+import {
+  bucketStart,
+  nextBucketStart,
+  type ForecastMethod,
+  type TaskInput,
+} from '@neonhub/core-agents';
+import { prisma, type PrismaClient } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import {
+  metricRollups,
+  rangeStart,
+  type MetricRollupService,
+  type MetricSelector,
+} from './metric-rollups';
+
+/** Input of `insight.predict_outcomes` */
+export type PredictOutcomesInput = TaskInput<'insight', 'predict_outcomes'>;
+
+export interface ForecastQuery<Key extends string> {
+  /** Metrics to forecast, under the names the predictions should use */
+  metrics: Record<Key, MetricSelector>;
+  /** Whole days of history to forecast from */
+  historyDays: number;
+  horizonDays: number;
+  timeZone: string;
+  campaignId?: string;
+  /** Spend planned for each forecast day; without it only the smoothing methods are used */
+  plannedDailySpend?: number;
+  method?: ForecastMethod;
+  confidenceLevel?: number;
+}
+
+export interface ForecastPlan<Key extends string> {
+  input: PredictOutcomesInput;
+  /** Start of each history day, in the query's time zone */
+  historyDates: Date[];
+  /** Start of each forecast day, matching the prediction points' steps */
+  forecastDates: Date[];
+  history: Record<Key, number[]>;
+}
+
+/**
+ * Builds forecasts' inputs from what the workspace recorded: daily metric
+ * values from the rollups and spend from the budget ledger. Today is left
+ * out, since a day that has only just begun would read as a sudden drop.
+ */
+export class ForecastService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly rollups: MetricRollupService,
+    private readonly log: Logger
+  ) {}
+
+  async getPredictOutcomesInput<Key extends string>(
+    workspaceId: string,
+    query: ForecastQuery<Key>,
+    now = new Date()
+  ): Promise<ForecastPlan<Key>> {
+    const from = rangeStart(query.historyDays, query.timeZone, now);
+    const to = bucketStart(now, 'day', query.timeZone);
+
+    const [rollup, spendEntries] = await Promise.all([
+      this.rollups.query(workspaceId, {
+        from,
+        to,
+        size: 'day',
+        timeZone: query.timeZone,
+        ...(query.campaignId && { campaignId: query.campaignId }),
+        metrics: query.metrics,
+      }),
+      this.db.spendEntry.findMany({
+        where: {
+          workspaceId,
+          spentAt: { gte: from, lt: to },
+          ...(query.campaignId && { campaignId: query.campaignId }),
+        },
+        select: { amount: true, spentAt: true },
+      }),
+    ]);
+
+    const historyDates = rollup.series.map(bucket => bucket.start);
+    const dayIndex = new Map(historyDates.map((date, index) => [date.getTime(), index]));
+    const spend = historyDates.map(() => 0);
+    for (const entry of spendEntries) {
+      const index = dayIndex.get(bucketStart(entry.spentAt, 'day', query.timeZone).getTime());
+      if (index !== undefined) spend[index] = (spend[index] ?? 0) + entry.amount;
+    }
+
+    const forecastDates: Date[] = [];
+    for (let day = to; forecastDates.length < query.horizonDays; ) {
+      forecastDates.push(day);
+      day = nextBucketStart(day, 'day', query.timeZone);
+    }
+
+    const keys = Object.keys(query.metrics) as Key[];
+    const history = Object.fromEntries(
+      keys.map(key => [key, rollup.series.map(bucket => bucket.values[key] ?? 0)])
+    ) as Record<Key, number[]>;
+
+    this.log.debug('Forecast history loaded', {
+      workspaceId,
+      campaignId: query.campaignId,
+      days: historyDates.length,
+      spendEntries: spendEntries.length,
+    });
+
+    return {
+      input: {
+        ...(query.campaignId && { campaignId: query.campaignId }),
+        horizonDays: query.horizonDays,
+        history: keys.map(key => ({
+          metric: key,
+          values: history[key],
+          ...(spendEntries.length > 0 && { spend }),
+        })),
+        ...(query.plannedDailySpend !== undefined && {
+          plannedDailySpend: forecastDates.map(() => query.plannedDailySpend ?? 0),
+        }),
+        ...(query.method && { method: query.method }),
+        ...(query.confidenceLevel !== undefined && { confidenceLevel: query.confidenceLevel }),
+      },
+      historyDates,
+      forecastDates,
+      history,
+    };
+  }
+}
+
+const globalForForecasts = globalThis as unknown as {
+  forecasts: ForecastService | undefined;
+};
+
+export const forecastService =
+  globalForForecasts.forecasts ?? new ForecastService(prisma, metricRollups, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForForecasts.forecasts = forecastService;
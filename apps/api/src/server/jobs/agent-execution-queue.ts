@@ -0,0 +1,312 @@
+import { AgentPriorityWeight, type AgentPriority } from '@neonhub/core-agents';
+import { prisma, type AgentExecution, type Prisma, type PrismaClient } from '@neonhub/data-model';
+import { getBackoffDelay } from '@neonhub/utils';
+
+export interface EnqueueAgentExecutionInput {
+  agentId: string;
+  task: string;
+  payload?: Record<string, unknown>;
+  campaignId?: string;
+  userId?: string;
+  workspaceId?: string;
+  priority?: AgentPriority;
+  maxAttempts?: number;
+  runAt?: Date;
+  metadata?: Record<string, unknown>;
+  /** Hold the job as AWAITING_APPROVAL until `release` is called */
+  awaitApproval?: boolean;
+}
+
+export interface AgentExecutionQueueOptions {
+  /** Base delay for exponential retry backoff */
+  retryBaseDelayMs?: number;
+  /** Upper bound for a single retry delay */
+  retryMaxDelayMs?: number;
+}
+
+export type CancelResult =
+  | { cancelled: true; execution: AgentExecution }
+  | { cancelled: false; reason: 'not_found' | 'already_finished' };
+
+/**
+ * Postgres-backed job queue on top of the `agent_executions` table.
+ *
+ * Lifecycle: PENDING → RUNNING → COMPLETED | FAILED | CANCELLED. Jobs with side
+ * effects start as AWAITING_APPROVAL and are only claimed once released, and
+ * pending jobs of a paused campaign wait as PAUSED until it resumes. A RUNNING job is
+ * leased to one worker, which must heartbeat it; jobs whose heartbeat goes stale
+ * are handed back to the queue. Failed attempts are retried with exponential
+ * backoff until `maxAttempts` is reached.
+ */
+export class AgentExecutionQueue {
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+
+  constructor(
+    private readonly db: PrismaClient,
+    options: AgentExecutionQueueOptions = {}
+  ) {
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 5_000;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 15 * 60_000;
+  }
+
+  async enqueue(input: EnqueueAgentExecutionInput): Promise<AgentExecution> {
+    const priority = input.priority ?? 'medium';
+
+    return this.db.agentExecution.create({
+      data: {
+        agentId: input.agentId,
+        campaignId: input.campaignId,
+        userId: input.userId,
+        workspaceId: input.workspaceId,
+        task: input.task,
+        payload: (input.payload ?? {}) as Prisma.InputJsonValue,
+        metadata: { ...input.metadata, priority } as Prisma.InputJsonValue,
+        status: input.awaitApproval ? 'AWAITING_APPROVAL' : 'PENDING',
+        priority: AgentPriorityWeight[priority],
+        maxAttempts: input.maxAttempts ?? 3,
+        runAt: input.runAt ?? new Date(),
+      },
+    });
+  }
+
+  /**
+   * Atomically lease the highest-priority runnable job to `workerId`.
+   * `FOR UPDATE SKIP LOCKED` lets any number of workers poll concurrently.
+   */
+  async claimNext(workerId: string): Promise<AgentExecution | null> {
+    const claimed = await this.db.$queryRaw<{ id: string }[]>`
+      UPDATE "agent_executions"
+      SET "status" = 'RUNNING'::"ExecutionStatus",
+          "lockedBy" = ${workerId},
+          "lockedAt" = NOW(),
+          "heartbeatAt" = NOW(),
+          "startedAt" = NOW(),
+          "attempts" = "attempts" + 1
+      WHERE "id" = (
+        SELECT "id" FROM "agent_executions"
+        WHERE "status" = 'PENDING'::"ExecutionStatus" AND "runAt" <= NOW()
+        ORDER BY "priority" DESC, "runAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING "id"
+    `;
+
+    const id = claimed[0]?.id;
+    if (!id) return null;
+
+    return this.db.agentExecution.findUnique({ where: { id } });
+  }
+
+  /**
+   * Extend the lease on a running job. Returns false when the worker no longer
+   * owns the job (it was cancelled or recovered by another worker).
+   */
+  async heartbeat(id: string, workerId: string): Promise<boolean> {
+    const { count } = await this.db.agentExecution.updateMany({
+      where: { id, lockedBy: workerId, status: 'RUNNING' },
+      data: { heartbeatAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  async complete(
+    id: string,
+    workerId: string,
+    outcome: { result: unknown; performance?: number; metadata?: Record<string, unknown> }
+  ): Promise<boolean> {
+    const execution = await this.db.agentExecution.findFirst({
+      where: { id, lockedBy: workerId, status: 'RUNNING' },
+      select: { metadata: true },
+    });
+    if (!execution) return false;
+
+    const { count } = await this.db.agentExecution.updateMany({
+      where: { id, lockedBy: workerId, status: 'RUNNING' },
+      data: {
+        status: 'COMPLETED',
+        result: (outcome.result ?? null) as Prisma.InputJsonValue,
+        performance: outcome.performance,
+        error: null,
+        completedAt: new Date(),
+        lockedBy: null,
+        metadata: this.mergeMetadata(execution.metadata, outcome.metadata),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Record a failed attempt. The job goes back to PENDING with a backoff delay
+   * while attempts remain, otherwise it is marked FAILED. Non-retryable
+   * failures (e.g. a missed deadline) are marked FAILED straight away.
+   */
+  async fail(
+    id: string,
+    workerId: string,
+    error: string,
+    options: { retryable?: boolean } = {}
+  ): Promise<'retrying' | 'failed' | 'lost'> {
+    const execution = await this.db.agentExecution.findFirst({
+      where: { id, lockedBy: workerId, status: 'RUNNING' },
+      select: { attempts: true, maxAttempts: true },
+    });
+    if (!execution) return 'lost';
+
+    if (options.retryable !== false && execution.attempts < execution.maxAttempts) {
+      const delayMs = getBackoffDelay(
+        execution.attempts,
+        this.retryBaseDelayMs,
+        this.retryMaxDelayMs
+      );
+      await this.db.agentExecution.updateMany({
+        where: { id, lockedBy: workerId, status: 'RUNNING' },
+        data: {
+          status: 'PENDING',
+          error,
+          runAt: new Date(Date.now() + delayMs),
+          lockedBy: null,
+          lockedAt: null,
+          heartbeatAt: null,
+        },
+      });
+      return 'retrying';
+    }
+
+    await this.db.agentExecution.updateMany({
+      where: { id, lockedBy: workerId, status: 'RUNNING' },
+      data: {
+        status: 'FAILED',
+        error,
+        completedAt: new Date(),
+        lockedBy: null,
+      },
+    });
+    return 'failed';
+  }
+
+  /**
+   * Let a job held for approval run, optionally with an edited payload. A job
+   * of a paused campaign stays held until the campaign resumes.
+   * Returns false when the job is no longer held.
+   */
+  async release(
+    id: string,
+    changes: { payload?: Record<string, unknown>; metadata?: Record<string, unknown> } = {}
+  ): Promise<boolean> {
+    const execution = await this.db.agentExecution.findFirst({
+      where: { id, status: 'AWAITING_APPROVAL' },
+      select: { metadata: true, campaign: { select: { status: true } } },
+    });
+    if (!execution) return false;
+
+    const { count } = await this.db.agentExecution.updateMany({
+      where: { id, status: 'AWAITING_APPROVAL' },
+      data: {
+        status: execution.campaign?.status === 'PAUSED' ? 'PAUSED' : 'PENDING',
+        runAt: new Date(),
+        ...(changes.payload && { payload: changes.payload as Prisma.InputJsonValue }),
+        metadata: this.mergeMetadata(execution.metadata, changes.metadata),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Cancel a pending or running job. Running jobs are stopped by their worker
+   * on its next heartbeat.
+   */
+  async cancel(id: string, where: Prisma.AgentExecutionWhereInput = {}): Promise<CancelResult> {
+    const { count } = await this.db.agentExecution.updateMany({
+      where: { ...where, id, status: { in: ['PENDING', 'AWAITING_APPROVAL', 'RUNNING'] } },
+      data: {
+        status: 'CANCELLED',
+        completedAt: new Date(),
+        lockedBy: null,
+      },
+    });
+
+    const execution = await this.db.agentExecution.findFirst({ where: { ...where, id } });
+    if (!execution) return { cancelled: false, reason: 'not_found' };
+    if (count === 0) return { cancelled: false, reason: 'already_finished' };
+
+    return { cancelled: true, execution };
+  }
+
+  /**
+   * Hold a campaign's pending jobs while it is paused. Running jobs finish.
+   */
+  async pauseCampaign(campaignId: string): Promise<number> {
+    const { count } = await this.db.agentExecution.updateMany({
+      where: { campaignId, status: 'PENDING' },
+      data: { status: 'PAUSED' },
+    });
+    return count;
+  }
+
+  /** Queue a campaign's held jobs again */
+  async resumeCampaign(campaignId: string): Promise<number> {
+    const { count } = await this.db.agentExecution.updateMany({
+      where: { campaignId, status: 'PAUSED' },
+      data: { status: 'PENDING', runAt: new Date() },
+    });
+    return count;
+  }
+
+  /** Cancel every unfinished job of a campaign; running ones stop on their next heartbeat */
+  async cancelCampaign(campaignId: string): Promise<number> {
+    const { count } = await this.db.agentExecution.updateMany({
+      where: {
+        campaignId,
+        status: { in: ['PENDING', 'PAUSED', 'AWAITING_APPROVAL', 'RUNNING'] },
+      },
+      data: { status: 'CANCELLED', completedAt: new Date(), lockedBy: null },
+    });
+    return count;
+  }
+
+  /**
+   * Hand jobs whose lease expired (worker crashed or hung) back to the queue,
+   * or fail them when they have used up their attempts.
+   */
+  async recoverStale(leaseMs: number): Promise<{ requeued: number; failed: number }> {
+    const staleBefore = new Date(Date.now() - leaseMs);
+    const stale = { status: 'RUNNING' as const, heartbeatAt: { lt: staleBefore } };
+
+    const failed = await this.db.agentExecution.updateMany({
+      where: { ...stale, attempts: { gte: this.db.agentExecution.fields.maxAttempts } },
+      data: {
+        status: 'FAILED',
+        error: 'Worker lease expired',
+        completedAt: new Date(),
+        lockedBy: null,
+      },
+    });
+
+    const requeued = await this.db.agentExecution.updateMany({
+      where: stale,
+      data: {
+        status: 'PENDING',
+        error: 'Worker lease expired',
+        runAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+        heartbeatAt: null,
+      },
+    });
+
+    return { requeued: requeued.count, failed: failed.count };
+  }
+
+  private mergeMetadata(
+    existing: Prisma.JsonValue,
+    extra: Record<string, unknown> | undefined
+  ): Prisma.InputJsonValue {
+    const base =
+      existing && typeof existing === 'object' && !Array.isArray(existing) ? existing : {};
+    return { ...base, ...extra } as Prisma.InputJsonValue;
+  }
+}
+
+export const agentExecutionQueue = new AgentExecutionQueue(prisma);
@@ -0,0 +1,210 @@
+import { hostname } from 'os';
+import { priorityFromWeight, type AgentErrorCode } from '@neonhub/core-agents';
+import type { AgentExecution } from '@neonhub/data-model';
+import { delay, generateId, retry, type Logger } from '@neonhub/utils';
+import type { ActivityService } from '../activity';
+import type { AgentRuntime } from '../agent-runtime';
+import type { AgentExecutionQueue } from './agent-execution-queue';
+
+export interface AgentWorkerOptions {
+  /** Number of jobs this worker runs at the same time */
+  concurrency?: number;
+  /** Idle wait between polls when the queue is empty */
+  pollIntervalMs?: number;
+  /** How often a running job's lease is renewed */
+  heartbeatIntervalMs?: number;
+  /** A job whose heartbeat is older than this is considered abandoned */
+  leaseMs?: number;
+}
+
+// Retrying these cannot succeed: the deadline is absolute and the payload will not change
+const NON_RETRYABLE_ERRORS: ReadonlySet<AgentErrorCode> = new Set([
+  'timeout',
+  'invalid_payload',
+  'approval_required',
+]);
+
+/**
+ * Polls the agent execution queue and runs claimed jobs on the shared agent runtime.
+ * A job whose lease is lost (cancelled or recovered elsewhere) is aborted.
+ */
+export class AgentWorker {
+  readonly workerId = `${hostname()}:${process.pid}:${generateId().slice(0, 8)}`;
+
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly running = new Set<Promise<void>>();
+  private stopping = false;
+  private loop: Promise<void> | null = null;
+  private lastRecovery = 0;
+
+  constructor(
+    private readonly queue: AgentExecutionQueue,
+    private readonly runtime: AgentRuntime,
+    private readonly activity: ActivityService,
+    private readonly log: Logger,
+    options: AgentWorkerOptions = {}
+  ) {
+    this.concurrency = options.concurrency ?? 2;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 10_000;
+    this.leaseMs = options.leaseMs ?? 60_000;
+  }
+
+  start(): void {
+    if (this.loop) return;
+    this.stopping = false;
+    this.loop = this.run();
+    this.log.info('Agent worker started', { workerId: this.workerId, concurrency: this.concurrency });
+  }
+
+  /**
+   * Stop claiming new jobs and wait for the running ones to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.loop;
+    await Promise.all(this.running);
+    this.loop = null;
+    this.log.info('Agent worker stopped', { workerId: this.workerId });
+  }
+
+  private async run(): Promise<void> {
+    await this.runtime.start();
+
+    while (!this.stopping) {
+      try {
+        await this.recoverStaleJobs();
+
+        if (this.running.size >= this.concurrency) {
+          await Promise.race(this.running);
+          continue;
+        }
+
+        const job = await this.queue.claimNext(this.workerId);
+        if (!job) {
+          await delay(this.pollIntervalMs);
+          continue;
+        }
+
+        const task = this.process(job).finally(() => this.running.delete(task));
+        this.running.add(task);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.log.error('Agent worker poll failed', { workerId: this.workerId, error: errorMessage });
+        await delay(this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    if (Date.now() - this.lastRecovery < this.leaseMs) return;
+    this.lastRecovery = Date.now();
+
+    const recovered = await this.queue.recoverStale(this.leaseMs);
+    if (recovered.requeued > 0 || recovered.failed > 0) {
+      this.log.warn('Recovered stale agent executions', { ...recovered });
+    }
+  }
+
+  private async process(job: AgentExecution): Promise<void> {
+    const context = { executionId: job.id, agentId: job.agentId, task: job.task };
+    const controller = new AbortController();
+    let owned = true;
+
+    const heartbeat = setInterval(() => {
+      this.queue
+        .heartbeat(job.id, this.workerId)
+        .then(stillOwned => {
+          if (!stillOwned && owned) {
+            owned = false;
+            controller.abort();
+            this.log.warn('Lost lease on agent execution', context);
+          }
+        })
+        .catch(error => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.log.error('Agent execution heartbeat failed', { ...context, error: errorMessage });
+        });
+    }, this.heartbeatIntervalMs);
+
+    let retryable = true;
+
+    try {
+      const metadata = this.asRecord(job.metadata);
+      const deadline = this.parseDeadline(metadata.deadline);
+
+      const result = await this.runtime.executeAgent(
+        job.agentId,
+        {
+          task: job.task,
+          context: this.asRecord(job.payload),
+          priority: priorityFromWeight(job.priority),
+          ...(deadline && { deadline }),
+          metadata: { ...metadata, executionId: job.id, attempt: job.attempts },
+        },
+        { signal: controller.signal }
+      );
+
+      if (!owned) return;
+
+      if (!result.success) {
+        retryable = !(result.errorCode && NON_RETRYABLE_ERRORS.has(result.errorCode));
+        throw new Error(result.error ?? 'Agent execution failed');
+      }
+
+      // Completion writes are retried so a transient database error does not strand the job
+      const completed = await retry(
+        () =>
+          this.queue.complete(job.id, this.workerId, {
+            result: result.data,
+            performance: result.performance,
+            metadata: {
+              ...(result.metadata?.llmUsage && { llmUsage: result.metadata.llmUsage }),
+              ...(result.metadata?.prompts && { prompts: result.metadata.prompts }),
+            },
+          }),
+        3,
+        500
+      );
+      this.log.info('Agent execution completed', { ...context, completed });
+      if (completed) {
+        await this.activity.recordExecution({ ...job, status: 'COMPLETED', error: null });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (!owned) return;
+
+      const outcome = await retry(
+        () => this.queue.fail(job.id, this.workerId, errorMessage, { retryable }),
+        3,
+        500
+      );
+      this.log.warn('Agent execution attempt failed', {
+        ...context,
+        attempt: job.attempts,
+        outcome,
+        error: errorMessage,
+      });
+      if (outcome === 'failed') {
+        await this.activity.recordExecution({ ...job, status: 'FAILED', error: errorMessage });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private parseDeadline(value: unknown): Date | undefined {
+    if (typeof value !== 'string') return undefined;
+    const deadline = new Date(value);
+    return Number.isNaN(deadline.getTime()) ? undefined : deadline;
+  }
+
+  private asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+  }
+}
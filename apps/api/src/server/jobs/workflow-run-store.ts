@@ -0,0 +1,302 @@
+import {
+  WorkflowDefinitionSchema,
+  type WorkflowDefinition,
+  type WorkflowItemState,
+  type WorkflowRunState,
+  type WorkflowRunStore,
+  type WorkflowRunUpdate,
+  type WorkflowStepState,
+} from '@neonhub/core-agents';
+import { prisma, type Prisma, type PrismaClient, type WorkflowRun } from '@neonhub/data-model';
+
+export interface CreateWorkflowRunInput {
+  definition: WorkflowDefinition;
+  input?: Record<string, unknown>;
+  workflowId?: string;
+  campaignId?: string;
+  userId?: string;
+  workspaceId?: string;
+}
+
+export type CancelWorkflowRunResult =
+  | { cancelled: true; run: WorkflowRun }
+  | { cancelled: false; reason: 'not_found' | 'already_finished' };
+
+const ACTIVE_STATUSES = ['PENDING', 'RUNNING', 'AWAITING_APPROVAL'] as const;
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  return value === undefined ? undefined : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * Keeps workflow runs in `workflow_runs` and their step progress in
+ * `workflow_step_runs`, and hands runs out to workflow workers.
+ *
+ * Lifecycle: PENDING → RUNNING → COMPLETED | FAILED | CANCELLED. A RUNNING run
+ * is leased to one worker, which must heartbeat it; runs whose heartbeat goes
+ * stale go back to PENDING and are resumed from their saved steps. Runs with a
+ * step waiting for approval park as AWAITING_APPROVAL until `resume` is called,
+ * and pending runs of a paused campaign wait as PAUSED until it resumes.
+ */
+export class PrismaWorkflowRunStore implements WorkflowRunStore {
+  constructor(private readonly db: PrismaClient) {}
+
+  async create(input: CreateWorkflowRunInput): Promise<WorkflowRun> {
+    return this.db.workflowRun.create({
+      data: {
+        name: input.definition.name,
+        definition: input.definition as unknown as Prisma.InputJsonValue,
+        input: (input.input ?? {}) as Prisma.InputJsonValue,
+        status: 'PENDING',
+        ...(input.workflowId && { workflowId: input.workflowId }),
+        ...(input.campaignId && { campaignId: input.campaignId }),
+        ...(input.userId && { userId: input.userId }),
+        ...(input.workspaceId && { workspaceId: input.workspaceId }),
+      },
+    });
+  }
+
+  async load(runId: string): Promise<WorkflowRunState | null> {
+    const run = await this.db.workflowRun.findUnique({
+      where: { id: runId },
+      include: { steps: true },
+    });
+    if (!run) return null;
+
+    return {
+      id: run.id,
+      // Definitions are validated before a run is created
+      definition: WorkflowDefinitionSchema.parse(run.definition),
+      input: asRecord(run.input),
+      status: run.status,
+      steps: Object.fromEntries(
+        run.steps.map(step => [
+          step.stepId,
+          {
+            status: step.status,
+            attempts: step.attempts,
+            ...(step.input !== null && { input: step.input }),
+            ...(step.output !== null && { output: step.output }),
+            ...(step.error !== null && { error: step.error }),
+            ...(Array.isArray(step.items) && {
+              items: step.items as unknown as WorkflowItemState[],
+            }),
+            ...(step.startedAt && { startedAt: step.startedAt }),
+            ...(step.completedAt && { completedAt: step.completedAt }),
+          } satisfies WorkflowStepState,
+        ])
+      ),
+      ...(run.output !== null && { output: run.output }),
+      ...(run.error !== null && { error: run.error }),
+      metadata: {
+        ...(run.userId && { userId: run.userId }),
+        ...(run.campaignId && { campaignId: run.campaignId }),
+        ...(run.workspaceId && { workspaceId: run.workspaceId }),
+      },
+    };
+  }
+
+  async saveStep(runId: string, stepId: string, state: WorkflowStepState): Promise<void> {
+    const data = {
+      status: state.status,
+      attempts: state.attempts,
+      input: toJson(state.input),
+      output: toJson(state.output),
+      items: toJson(state.items),
+      error: state.error ?? null,
+      startedAt: state.startedAt ?? null,
+      completedAt: state.completedAt ?? null,
+    };
+
+    await this.db.workflowStepRun.upsert({
+      where: { runId_stepId: { runId, stepId } },
+      create: { runId, stepId, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Record the run's status. Runs that were cancelled meanwhile keep their status.
+   */
+  async saveRun(runId: string, update: WorkflowRunUpdate): Promise<void> {
+    const parked = update.status === 'AWAITING_APPROVAL';
+    const finished = !parked && update.status !== 'PENDING' && update.status !== 'RUNNING';
+
+    await this.db.workflowRun.updateMany({
+      where: { id: runId, status: { in: [...ACTIVE_STATUSES] } },
+      data: {
+        status: update.status,
+        ...(update.output !== undefined && { output: toJson(update.output) }),
+        ...(update.error !== undefined && { error: update.error }),
+        ...(finished && { completedAt: new Date(), lockedBy: null }),
+        ...(parked && { lockedBy: null, heartbeatAt: null }),
+      },
+    });
+  }
+
+  /**
+   * Atomically lease the oldest pending run to `workerId`.
+   */
+  async claimNext(workerId: string): Promise<WorkflowRun | null> {
+    const claimed = await this.db.$queryRaw<{ id: string }[]>`
+      UPDATE "workflow_runs"
+      SET "status" = 'RUNNING'::"ExecutionStatus",
+          "lockedBy" = ${workerId},
+          "heartbeatAt" = NOW(),
+          "startedAt" = COALESCE("startedAt", NOW())
+      WHERE "id" = (
+        SELECT "id" FROM "workflow_runs"
+        WHERE "status" = 'PENDING'::"ExecutionStatus"
+        ORDER BY "createdAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING "id"
+    `;
+
+    const id = claimed[0]?.id;
+    if (!id) return null;
+
+    return this.db.workflowRun.findUnique({ where: { id } });
+  }
+
+  /**
+   * Extend the lease on a running run. Returns false when the worker no longer
+   * owns it (it was cancelled or recovered by another worker).
+   */
+  async heartbeat(runId: string, workerId: string): Promise<boolean> {
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { id: runId, lockedBy: workerId, status: 'RUNNING' },
+      data: { heartbeatAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Give a run back to the queue, e.g. after the worker failed to reach the database.
+   */
+  async release(runId: string, workerId: string): Promise<void> {
+    await this.db.workflowRun.updateMany({
+      where: { id: runId, lockedBy: workerId, status: 'RUNNING' },
+      data: { status: 'PENDING', lockedBy: null, heartbeatAt: null },
+    });
+  }
+
+  /**
+   * Hand runs whose worker stopped heartbeating back to the queue. They resume
+   * from their saved steps.
+   */
+  async recoverStale(leaseMs: number): Promise<number> {
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { status: 'RUNNING', heartbeatAt: { lt: new Date(Date.now() - leaseMs) } },
+      data: { status: 'PENDING', lockedBy: null, heartbeatAt: null },
+    });
+    return count;
+  }
+
+  /**
+   * Cancel a pending or running run and its unfinished steps. Running runs are
+   * stopped by their worker on its next heartbeat.
+   */
+  async cancel(
+    runId: string,
+    where: Prisma.WorkflowRunWhereInput = {}
+  ): Promise<CancelWorkflowRunResult> {
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { ...where, id: runId, status: { in: [...ACTIVE_STATUSES] } },
+      data: { status: 'CANCELLED', completedAt: new Date(), lockedBy: null },
+    });
+
+    const run = await this.db.workflowRun.findFirst({ where: { ...where, id: runId } });
+    if (!run) return { cancelled: false, reason: 'not_found' };
+    if (count === 0) return { cancelled: false, reason: 'already_finished' };
+
+    await this.db.workflowStepRun.updateMany({
+      where: { runId, status: { in: [...ACTIVE_STATUSES] } },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+    return { cancelled: true, run };
+  }
+
+  /**
+   * Queue a run parked for approval again once an approval was decided. The
+   * engine asks the approval gate again and continues or fails the step.
+   */
+  async resume(runId: string): Promise<boolean> {
+    const run = await this.db.workflowRun.findFirst({
+      where: { id: runId, status: 'AWAITING_APPROVAL' },
+      select: { campaign: { select: { status: true } } },
+    });
+    if (!run) return false;
+
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { id: runId, status: 'AWAITING_APPROVAL' },
+      data: { status: run.campaign?.status === 'PAUSED' ? 'PAUSED' : 'PENDING' },
+    });
+    return count > 0;
+  }
+
+  /** Hold a campaign's pending runs while it is paused. Running runs finish. */
+  async pauseCampaign(campaignId: string): Promise<number> {
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { campaignId, status: 'PENDING' },
+      data: { status: 'PAUSED' },
+    });
+    return count;
+  }
+
+  /** Queue a campaign's held runs again */
+  async resumeCampaign(campaignId: string): Promise<number> {
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { campaignId, status: 'PAUSED' },
+      data: { status: 'PENDING' },
+    });
+    return count;
+  }
+
+  /** Cancel every unfinished run of a campaign and their unfinished steps */
+  async cancelCampaign(campaignId: string): Promise<number> {
+    const runs = await this.db.workflowRun.findMany({
+      where: { campaignId, status: { in: [...ACTIVE_STATUSES, 'PAUSED'] } },
+      select: { id: true },
+    });
+    const runIds = runs.map(run => run.id);
+    if (runIds.length === 0) return 0;
+
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { id: { in: runIds }, status: { in: [...ACTIVE_STATUSES, 'PAUSED'] } },
+      data: { status: 'CANCELLED', completedAt: new Date(), lockedBy: null },
+    });
+    await this.db.workflowStepRun.updateMany({
+      where: { runId: { in: runIds }, status: { in: [...ACTIVE_STATUSES] } },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+    return count;
+  }
+
+  /**
+   * Queue a failed or cancelled run again. Completed and skipped steps are
+   * kept; failed and cancelled steps run again.
+   */
+  async requeue(runId: string, where: Prisma.WorkflowRunWhereInput = {}): Promise<boolean> {
+    const { count } = await this.db.workflowRun.updateMany({
+      where: { ...where, id: runId, status: { in: ['FAILED', 'CANCELLED'] } },
+      data: { status: 'PENDING', error: null, completedAt: null, lockedBy: null },
+    });
+    if (count === 0) return false;
+
+    await this.db.workflowStepRun.updateMany({
+      where: { runId, status: { in: ['FAILED', 'CANCELLED'] } },
+      data: { status: 'PENDING', error: null, completedAt: null },
+    });
+    return true;
+  }
+}
+
+export const workflowRunStore = new PrismaWorkflowRunStore(prisma);
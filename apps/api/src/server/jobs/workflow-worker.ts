@@ -0,0 +1,158 @@
+import { hostname } from 'os';
+import type { WorkflowEngine } from '@neonhub/core-agents';
+import type { WorkflowRun } from '@neonhub/data-model';
+import { delay, generateId, retry, type Logger } from '@neonhub/utils';
+import type { AgentRuntime } from '../agent-runtime';
+import type { PrismaWorkflowRunStore } from './workflow-run-store';
+
+export interface WorkflowWorkerOptions {
+  /** Runs this worker executes at the same time */
+  concurrency?: number;
+  /** Idle wait between polls when no run is pending */
+  pollIntervalMs?: number;
+  /** How often a running run's lease is renewed */
+  heartbeatIntervalMs?: number;
+  /** A run whose heartbeat is older than this is considered abandoned and resumed elsewhere */
+  leaseMs?: number;
+}
+
+/**
+ * Polls for pending workflow runs and executes them with the workflow engine.
+ * Runs left behind by a crashed or restarted worker are picked up again once
+ * their lease expires and continue from their last saved step.
+ */
+export class WorkflowWorker {
+  readonly workerId = `${hostname()}:${process.pid}:${generateId().slice(0, 8)}`;
+
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly running = new Set<Promise<void>>();
+  private readonly controllers = new Set<AbortController>();
+  private stopping = false;
+  private loop: Promise<void> | null = null;
+  private lastRecovery = 0;
+
+  constructor(
+    private readonly store: PrismaWorkflowRunStore,
+    private readonly engine: WorkflowEngine,
+    private readonly runtime: AgentRuntime,
+    private readonly log: Logger,
+    options: WorkflowWorkerOptions = {}
+  ) {
+    this.concurrency = options.concurrency ?? 2;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 10_000;
+    this.leaseMs = options.leaseMs ?? 60_000;
+  }
+
+  start(): void {
+    if (this.loop) return;
+    this.stopping = false;
+    this.loop = this.run();
+    this.log.info('Workflow worker started', {
+      workerId: this.workerId,
+      concurrency: this.concurrency,
+    });
+  }
+
+  /**
+   * Stop claiming runs and interrupt the running ones; they are handed back to
+   * the queue and resumed by the next worker.
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.loop;
+    for (const controller of this.controllers) controller.abort();
+    await Promise.all(this.running);
+    this.loop = null;
+    this.log.info('Workflow worker stopped', { workerId: this.workerId });
+  }
+
+  private async run(): Promise<void> {
+    await this.runtime.start();
+
+    while (!this.stopping) {
+      try {
+        await this.recoverStaleRuns();
+
+        if (this.running.size >= this.concurrency) {
+          await Promise.race(this.running);
+          continue;
+        }
+
+        const run = await this.store.claimNext(this.workerId);
+        if (!run) {
+          await delay(this.pollIntervalMs);
+          continue;
+        }
+
+        const task = this.process(run).finally(() => this.running.delete(task));
+        this.running.add(task);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.log.error('Workflow worker poll failed', {
+          workerId: this.workerId,
+          error: errorMessage,
+        });
+        await delay(this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async recoverStaleRuns(): Promise<void> {
+    if (Date.now() - this.lastRecovery < this.leaseMs) return;
+    this.lastRecovery = Date.now();
+
+    const requeued = await this.store.recoverStale(this.leaseMs);
+    if (requeued > 0) {
+      this.log.warn('Resuming abandoned workflow runs', { requeued });
+    }
+  }
+
+  private async process(run: WorkflowRun): Promise<void> {
+    const context = { workflowRunId: run.id, workflow: run.name };
+    const controller = new AbortController();
+    this.controllers.add(controller);
+    let owned = true;
+
+    const heartbeat = setInterval(() => {
+      this.store
+        .heartbeat(run.id, this.workerId)
+        .then(stillOwned => {
+          if (!stillOwned && owned) {
+            owned = false;
+            controller.abort();
+            this.log.warn('Lost lease on workflow run', context);
+          }
+        })
+        .catch(error => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.log.error('Workflow run heartbeat failed', { ...context, error: errorMessage });
+        });
+    }, this.heartbeatIntervalMs);
+
+    try {
+      const finished = await this.engine.execute(run.id, { signal: controller.signal });
+      if (owned && controller.signal.aborted) {
+        // Interrupted by shutdown; let the next worker resume it
+        await retry(() => this.store.release(run.id, this.workerId), 3, 500);
+      }
+      this.log.info('Workflow run finished', {
+        ...context,
+        status: finished.status,
+        ...(finished.error && { error: finished.error }),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log.error('Workflow run interrupted', { ...context, error: errorMessage });
+      if (owned) {
+        await this.store.release(run.id, this.workerId).catch(() => undefined);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.controllers.delete(controller);
+    }
+  }
+}
@@ -0,0 +1,553 @@
+import { z } from 'zod';
+import {
+  LeadEventTypeSchema,
+  LeadScoringConfigSchema,
+  type LeadEventType,
+  type LeadScoringConfig,
+  type LeadStatus,
+  type TaskInput,
+  type TaskOutput,
+} from '@neonhub/core-agents';
+import { Prisma, prisma, type Lead, type PrismaClient } from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import { agentRuntime, type AgentRuntime } from './agent-runtime';
+
+const TagSchema = z.string().trim().toLowerCase().min(1).max(50);
+
+/** A lead as created or imported; emails and tags are stored lowercase */
+export const LeadInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().max(200).nullable().optional(),
+  company: z.string().max(200).nullable().optional(),
+  position: z.string().max(200).nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  source: z.string().max(100).nullable().optional(),
+  tags: z.array(TagSchema).max(50).default([]),
+  metadata: z.record(z.unknown()).nullable().optional(),
+});
+
+export type LeadInput = z.infer<typeof LeadInputSchema>;
+
+export { TagSchema as LeadTagSchema };
+
+export const LeadEventInputSchema = z
+  .object({
+    // The lead by id or by email
+    leadId: z.string().optional(),
+    email: z.string().trim().toLowerCase().email().optional(),
+    type: LeadEventTypeSchema,
+    occurredAt: z.coerce.date().optional(),
+    data: z.record(z.unknown()).optional(),
+  })
+  .refine(event => event.leadId || event.email, {
+    message: 'Either `leadId` or `email` is required',
+  });
+
+export type LeadEventInput = z.infer<typeof LeadEventInputSchema>;
+
+/** Input of `outreach.nurture_leads` */
+export type NurtureLeadsInput = TaskInput<'outreach', 'nurture_leads'>;
+
+export type LeadEvaluation = TaskOutput<'outreach', 'nurture_leads'>['leads'][number];
+
+export interface LeadImportResult {
+  created: number;
+  updated: number;
+  /** Rows whose email already belonged to a lead, when duplicates are skipped */
+  skipped: number;
+  leadIds: string[];
+}
+
+export interface LeadScoringSummary {
+  scored: number;
+  qualified: number;
+  /** Leads whose status the scores changed */
+  transitions: Array<{ leadId: string; from: LeadStatus; to: LeadStatus; reason: string | null }>;
+}
+
+// Leads written or scored per transaction and agent call
+const BATCH_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far along the funnel each status is, to keep the furthest when merging duplicates
+const STATUS_RANK: Record<LeadStatus, number> = {
+  LOST: 0,
+  NEW: 1,
+  CONTACTED: 2,
+  QUALIFIED: 3,
+  CONVERTED: 4,
+};
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+function asRecord(value: Prisma.JsonValue | null | undefined): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/** `incoming` over `base`: its set fields win, tags are combined and metadata merged */
+function mergeLeadInput(base: LeadInput, incoming: LeadInput): LeadInput {
+  const merged: LeadInput = { ...base, tags: [...new Set([...base.tags, ...incoming.tags])] };
+  for (const field of ['name', 'company', 'position', 'phone', 'source'] as const) {
+    const value = incoming[field];
+    if (value !== undefined && value !== null && value !== '') merged[field] = value;
+  }
+  if (incoming.metadata) merged.metadata = { ...(base.metadata ?? {}), ...incoming.metadata };
+  return merged;
+}
+
+function toLeadInput(lead: Lead): LeadInput {
+  return {
+    email: lead.email.toLowerCase(),
+    name: lead.name,
+    company: lead.company,
+    position: lead.position,
+    phone: lead.phone,
+    source: lead.source,
+    tags: lead.tags,
+    metadata: lead.metadata ? asRecord(lead.metadata) : null,
+  };
+}
+
+function leadData(input: LeadInput): Omit<Prisma.LeadUncheckedCreateInput, 'workspaceId'> {
+  return {
+    email: input.email,
+    name: input.name ?? null,
+    company: input.company ?? null,
+    position: input.position ?? null,
+    phone: input.phone ?? null,
+    source: input.source ?? null,
+    tags: input.tags,
+    metadata: input.metadata ? (input.metadata as Prisma.InputJsonValue) : Prisma.JsonNull,
+  };
+}
+
+/**
+ * Leads of a workspace: bulk import and deduplication by email, tags,
+ * behavioral events, and scoring.
+ *
+ * Scores combine the workspace's firmographic rules with its leads' recent
+ * events, and move leads between NEW, CONTACTED, QUALIFIED and LOST through
+ * `outreach.nurture_leads`. Leads are rescored when they get new events and
+ * periodically by the worker, since behavioral points fade with time.
+ */
+export class LeadService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly agents: AgentRuntime,
+    private readonly log: Logger
+  ) {}
+
+  /** A lead with this email, whatever the case it was stored in */
+  async findByEmail(workspaceId: string, email: string): Promise<Lead | null> {
+    return this.db.lead.findFirst({
+      where: { workspaceId, email: { equals: email, mode: 'insensitive' } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Create leads, or with `merge` update the leads whose email exists already.
+   * Rows repeating an email are combined first. New and updated leads are
+   * scored when scoring is on.
+   */
+  async import(
+    workspaceId: string,
+    rows: LeadInput[],
+    options: { onDuplicate: 'merge' | 'skip'; score?: boolean; userId?: string }
+  ): Promise<LeadImportResult> {
+    const byEmail = new Map<string, LeadInput>();
+    for (const row of rows) {
+      const previous = byEmail.get(row.email);
+      byEmail.set(row.email, previous ? mergeLeadInput(previous, row) : row);
+    }
+
+    const existing = await this.db.lead.findMany({
+      where: { workspaceId, email: { in: [...byEmail.keys()], mode: 'insensitive' } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const existingByEmail = new Map<string, Lead>();
+    for (const lead of existing) {
+      if (!existingByEmail.has(lead.email.toLowerCase())) {
+        existingByEmail.set(lead.email.toLowerCase(), lead);
+      }
+    }
+
+    const result: LeadImportResult = { created: 0, updated: 0, skipped: 0, leadIds: [] };
+    for (const batch of chunk([...byEmail.values()], BATCH_SIZE)) {
+      const writes: Array<Prisma.PrismaPromise<Lead>> = [];
+      for (const row of batch) {
+        const lead = existingByEmail.get(row.email);
+        if (!lead) {
+          writes.push(this.db.lead.create({ data: { ...leadData(row), workspaceId } }));
+          result.created++;
+        } else if (options.onDuplicate === 'merge') {
+          writes.push(
+            this.db.lead.update({
+              where: { id: lead.id },
+              data: leadData(mergeLeadInput(toLeadInput(lead), row)),
+            })
+          );
+          result.updated++;
+        } else {
+          result.skipped++;
+        }
+      }
+      const written = await this.db.$transaction(writes);
+      result.leadIds.push(...written.map(lead => lead.id));
+    }
+
+    this.log.info('Leads imported', {
+      workspaceId,
+      created: result.created,
+      updated: result.updated,
+      skipped: result.skipped,
+    });
+    if (options.score !== false && result.leadIds.length > 0) {
+      await this.rescore(workspaceId, {
+        leadIds: result.leadIds,
+        ...(options.userId && { userId: options.userId }),
+      });
+    }
+    return result;
+  }
+
+  /** Groups of leads sharing an email, oldest lead first */
+  async findDuplicates(workspaceId: string): Promise<Array<{ email: string; leadIds: string[] }>> {
+    const leads = await this.db.lead.findMany({
+      where: { workspaceId },
+      select: { id: true, email: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    const groups = new Map<string, string[]>();
+    for (const lead of leads) {
+      const email = lead.email.toLowerCase();
+      groups.set(email, [...(groups.get(email) ?? []), lead.id]);
+    }
+    return [...groups]
+      .filter(([, leadIds]) => leadIds.length > 1)
+      .map(([email, leadIds]) => ({ email, leadIds }));
+  }
+
+  /**
+   * Merge leads sharing an email into the oldest one. Its fields are kept and
+   * filled from the others, tags and events are combined, and the furthest
+   * status along the funnel wins.
+   */
+  async dedupe(workspaceId: string): Promise<{ groups: number; merged: number }> {
+    const groups = await this.findDuplicates(workspaceId);
+    let merged = 0;
+    const primaryIds: string[] = [];
+
+    for (const group of groups) {
+      const leads = await this.db.lead.findMany({
+        where: { id: { in: group.leadIds }, workspaceId },
+        orderBy: { createdAt: 'asc' },
+      });
+      const [primary, ...duplicates] = leads;
+      if (!primary || duplicates.length === 0) continue;
+
+      // Newer records only fill what the oldest is missing
+      const input = duplicates.reduceRight(
+        (combined, lead) => mergeLeadInput(toLeadInput(lead), combined),
+        toLeadInput(primary)
+      );
+      const status = leads.reduce<LeadStatus>(
+        (furthest, lead) =>
+          STATUS_RANK[lead.status] > STATUS_RANK[furthest] ? lead.status : furthest,
+        primary.status
+      );
+      const duplicateIds = duplicates.map(lead => lead.id);
+
+      await this.db.$transaction([
+        this.db.leadEvent.updateMany({
+          where: { leadId: { in: duplicateIds } },
+          data: { leadId: primary.id },
+        }),
+        this.db.lead.deleteMany({ where: { id: { in: duplicateIds } } }),
+        this.db.lead.update({ where: { id: primary.id }, data: { ...leadData(input), status } }),
+      ]);
+      merged += duplicateIds.length;
+      primaryIds.push(primary.id);
+    }
+
+    this.log.info('Duplicate leads merged', { workspaceId, groups: primaryIds.length, merged });
+    if (primaryIds.length > 0) await this.rescore(workspaceId, { leadIds: primaryIds });
+    return { groups: primaryIds.length, merged };
+  }
+
+  /** Add tags to leads; returns how many leads changed */
+  async addTags(workspaceId: string, leadIds: string[], tags: string[]): Promise<number> {
+    return this.updateTags(workspaceId, leadIds, current => [...new Set([...current, ...tags])]);
+  }
+
+  /** Remove tags from leads; returns how many leads changed */
+  async removeTags(workspaceId: string, leadIds: string[], tags: string[]): Promise<number> {
+    const removed = new Set(tags);
+    return this.updateTags(workspaceId, leadIds, current =>
+      current.filter(tag => !removed.has(tag))
+    );
+  }
+
+  /** Rename a tag on every lead, merging it into `to` where a lead has both */
+  async renameTag(workspaceId: string, from: string, to: string): Promise<number> {
+    const leads = await this.db.lead.findMany({
+      where: { workspaceId, tags: { has: from } },
+      select: { id: true },
+    });
+    return this.updateTags(
+      workspaceId,
+      leads.map(lead => lead.id),
+      current => [...new Set(current.map(tag => (tag === from ? to : tag)))]
+    );
+  }
+
+  /** Every tag in use with how many leads have it, most used first */
+  async listTags(workspaceId: string): Promise<Array<{ tag: string; count: number }>> {
+    const leads = await this.db.lead.findMany({
+      where: { workspaceId, NOT: { tags: { isEmpty: true } } },
+      select: { tags: true },
+    });
+    const counts = new Map<string, number>();
+    for (const lead of leads) {
+      for (const tag of lead.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Store behavioral events and rescore their leads. Events for emails
+   * without a lead are skipped.
+   */
+  async recordEvents(
+    workspaceId: string,
+    events: LeadEventInput[],
+    options: { userId?: string } = {}
+  ): Promise<{ recorded: number; skipped: number; scoring: LeadScoringSummary }> {
+    const emails = [...new Set(events.flatMap(event => (event.leadId ? [] : (event.email ?? []))))];
+    const ids = [...new Set(events.flatMap(event => event.leadId ?? []))];
+    const leads = await this.db.lead.findMany({
+      where: {
+        workspaceId,
+        OR: [{ id: { in: ids } }, { email: { in: emails, mode: 'insensitive' } }],
+      },
+      select: { id: true, email: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    const known = new Set(leads.map(lead => lead.id));
+    const byEmail = new Map<string, string>();
+    for (const lead of leads) {
+      if (!byEmail.has(lead.email.toLowerCase())) byEmail.set(lead.email.toLowerCase(), lead.id);
+    }
+
+    const now = new Date();
+    const rows: Prisma.LeadEventCreateManyInput[] = [];
+    for (const event of events) {
+      const leadId = event.leadId
+        ? known.has(event.leadId)
+          ? event.leadId
+          : undefined
+        : byEmail.get(event.email ?? '');
+      if (!leadId) continue;
+      rows.push({
+        leadId,
+        type: event.type,
+        occurredAt: event.occurredAt ?? now,
+        ...(event.data && { data: event.data as Prisma.InputJsonValue }),
+        workspaceId,
+      });
+    }
+
+    if (rows.length > 0) await this.db.leadEvent.createMany({ data: rows });
+    const leadIds = [...new Set(rows.map(row => row.leadId))];
+    const scoring =
+      leadIds.length > 0
+        ? await this.rescore(workspaceId, {
+            leadIds,
+            ...(options.userId && { userId: options.userId }),
+          })
+        : { scored: 0, qualified: 0, transitions: [] };
+    return { recorded: rows.length, skipped: events.length - rows.length, scoring };
+  }
+
+  /** The workspace's scoring rules; the defaults until it sets its own */
+  async getScoringConfig(workspaceId: string): Promise<LeadScoringConfig> {
+    const settings = await this.db.leadScoringSettings.findUnique({ where: { workspaceId } });
+    if (settings) {
+      const parsed = LeadScoringConfigSchema.safeParse(settings.config);
+      if (parsed.success) return parsed.data;
+      this.log.warn('Ignoring invalid lead scoring settings', { workspaceId });
+    }
+    return LeadScoringConfigSchema.parse({});
+  }
+
+  async setScoringConfig(
+    workspaceId: string,
+    config: LeadScoringConfig,
+    updatedById: string
+  ): Promise<LeadScoringConfig> {
+    const json = config as unknown as Prisma.InputJsonValue;
+    await this.db.leadScoringSettings.upsert({
+      where: { workspaceId },
+      create: { workspaceId, config: json, updatedById },
+      update: { config: json, updatedById },
+    });
+    return config;
+  }
+
+  /**
+   * Score the workspace's leads, or just `leadIds`, with its rules and their
+   * events in the scoring window, and store the scores and status changes.
+   */
+  async rescore(
+    workspaceId: string,
+    options: { leadIds?: string[]; userId?: string; now?: Date } = {}
+  ): Promise<LeadScoringSummary> {
+    const config = await this.getScoringConfig(workspaceId);
+    const now = options.now ?? new Date();
+    const since = new Date(now.getTime() - config.eventWindowDays * DAY_MS);
+    const summary: LeadScoringSummary = { scored: 0, qualified: 0, transitions: [] };
+
+    let cursor: string | undefined;
+    for (;;) {
+      const leads = await this.db.lead.findMany({
+        where: { workspaceId, ...(options.leadIds && { id: { in: options.leadIds } }) },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (leads.length === 0) break;
+      cursor = leads[leads.length - 1]?.id;
+
+      const events = await this.db.leadEvent.findMany({
+        where: { leadId: { in: leads.map(lead => lead.id) }, occurredAt: { gte: since, lte: now } },
+        select: { leadId: true, type: true, occurredAt: true },
+      });
+      const eventsByLead = new Map<string, Array<{ type: LeadEventType; occurredAt: Date }>>();
+      for (const event of events) {
+        const type = LeadEventTypeSchema.safeParse(event.type);
+        if (!type.success) continue;
+        eventsByLead.set(event.leadId, [
+          ...(eventsByLead.get(event.leadId) ?? []),
+          { type: type.data, occurredAt: event.occurredAt },
+        ]);
+      }
+
+      const input: NurtureLeadsInput = {
+        config,
+        leads: leads.map(lead => ({
+          id: lead.id,
+          email: lead.email,
+          company: lead.company,
+          position: lead.position,
+          phone: lead.phone,
+          source: lead.source,
+          tags: lead.tags,
+          metadata: lead.metadata ? asRecord(lead.metadata) : null,
+          status: lead.status,
+          score: lead.score,
+          events: eventsByLead.get(lead.id) ?? [],
+        })),
+      };
+      const result = await this.agents.executeAgent('outreach', 'nurture_leads', input, {
+        priority: 'low',
+        metadata: { workspaceId, ...(options.userId && { userId: options.userId }) },
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error ?? 'Outreach agent returned no scores');
+      }
+
+      await this.db.$transaction(
+        result.data.leads.map(evaluation =>
+          this.db.lead.update({
+            where: { id: evaluation.leadId },
+            data: {
+              score: evaluation.score,
+              scoreBreakdown: evaluation.breakdown as unknown as Prisma.InputJsonValue,
+              scoredAt: now,
+              ...(evaluation.status !== evaluation.previousStatus && { status: evaluation.status }),
+            },
+          })
+        )
+      );
+
+      summary.scored += result.data.nurtured;
+      summary.qualified += result.data.qualified;
+      for (const evaluation of result.data.leads) {
+        if (evaluation.status === evaluation.previousStatus) continue;
+        summary.transitions.push({
+          leadId: evaluation.leadId,
+          from: evaluation.previousStatus,
+          to: evaluation.status,
+          reason: evaluation.reason,
+        });
+        this.log.info('Lead status changed', {
+          workspaceId,
+          leadId: evaluation.leadId,
+          from: evaluation.previousStatus,
+          to: evaluation.status,
+          reason: evaluation.reason,
+        });
+      }
+      if (leads.length < BATCH_SIZE) break;
+    }
+    return summary;
+  }
+
+  /** Rescore every workspace's leads, so behavioral points fade as their events age */
+  async rescoreAll(now = new Date()): Promise<number> {
+    const workspaces = await this.db.lead.groupBy({
+      by: ['workspaceId'],
+      where: { workspaceId: { not: null } },
+    });
+    let scored = 0;
+    for (const { workspaceId } of workspaces) {
+      if (!workspaceId) continue;
+      try {
+        scored += (await this.rescore(workspaceId, { now })).scored;
+      } catch (error) {
+        this.log.error('Failed to score leads', {
+          workspaceId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return scored;
+  }
+
+  private async updateTags(
+    workspaceId: string,
+    leadIds: string[],
+    change: (tags: string[]) => string[]
+  ): Promise<number> {
+    const leads = await this.db.lead.findMany({
+      where: { id: { in: leadIds }, workspaceId },
+      select: { id: true, tags: true },
+    });
+    const updates = leads.flatMap(lead => {
+      const tags = change(lead.tags);
+      const same = tags.length === lead.tags.length && tags.every(tag => lead.tags.includes(tag));
+      return same ? [] : [this.db.lead.update({ where: { id: lead.id }, data: { tags } })];
+    });
+    for (const batch of chunk(updates, BATCH_SIZE)) await this.db.$transaction(batch);
+    return updates.length;
+  }
+}
+
+const globalForLeads = globalThis as unknown as {
+  leads: LeadService | undefined;
+};
+
+export const leadService = globalForLeads.leads ?? new LeadService(prisma, agentRuntime, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForLeads.leads = leadService;
@@ -0,0 +1,82 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { logger, type Logger } from '@neonhub/utils';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpMailerConfig {
+  host: string;
+  port: number;
+  from: string;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends mail over SMTP. Locally this points at MailHog (`docker compose
+ * --profile tools up mailhog`), which catches every message and shows it on
+ * http://localhost:8025.
+ */
+export class SmtpMailer implements Mailer {
+  private readonly transport: Transporter;
+
+  constructor(
+    private readonly config: SmtpMailerConfig,
+    private readonly log: Logger
+  ) {
+    this.transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure ?? false,
+      ...(config.user && { auth: { user: config.user, pass: config.password } }),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transport.sendMail({ from: this.config.from, ...message });
+    this.log.info('Mail sent', {
+      to: message.to,
+      subject: message.subject,
+      attachments: message.attachments?.length ?? 0,
+      id: info.messageId,
+    });
+  }
+}
+
+export function createMailerFromEnv(log: Logger = logger): Mailer {
+  return new SmtpMailer(
+    {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT || 1025),
+      from: process.env.EMAIL_FROM || 'NeonHub <no-reply@neonhub.local>',
+      secure: process.env.SMTP_SECURE === 'true',
+      ...(process.env.SMTP_USER && { user: process.env.SMTP_USER }),
+      ...(process.env.SMTP_PASSWORD && { password: process.env.SMTP_PASSWORD }),
+    },
+    log
+  );
+}
+
+const globalForMailer = globalThis as unknown as {
+  mailer: Mailer | undefined;
+};
+
+export const mailer = globalForMailer.mailer ?? createMailerFromEnv();
+
+if (process.env.NODE_ENV !== 'production') globalForMailer.mailer = mailer;
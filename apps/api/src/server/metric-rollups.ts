@@ -0,0 +1,304 @@
+import { z } from 'zod';
+import {
+  bucketSeries,
+  bucketStart,
+  extractRollupMetrics,
+  isValidTimeZone,
+  rollupPlatform,
+  type BucketPoint,
+  type BucketSize,
+  type RollupGranularity,
+  type SeriesBucket,
+} from '@neonhub/core-agents';
+import {
+  Prisma,
+  prisma,
+  type AnalyticsType,
+  type Platform,
+  type PrismaClient,
+} from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+
+/** An `Analytics` row as far as rollups care */
+export interface RollupSource {
+  workspaceId: string | null;
+  campaignId: string | null;
+  platform: Platform | null;
+  type: AnalyticsType;
+  data: unknown;
+  date: Date;
+}
+
+/** A metric to read: a field of one analytics type's data */
+export interface MetricSelector {
+  type: AnalyticsType;
+  metric: string;
+}
+
+export interface RollupQuery<Key extends string> {
+  from: Date;
+  to: Date;
+  size: BucketSize;
+  timeZone: string;
+  campaignId?: string;
+  /** Any of these campaigns; combined with `campaignId` when both are given */
+  campaignIds?: string[];
+  platform?: Platform;
+  /** Metrics to read, under the names the result should use */
+  metrics: Record<Key, MetricSelector>;
+  /** Also total each campaign, into `campaigns` */
+  byCampaign?: boolean;
+}
+
+export interface RollupQueryResult<Key extends string> {
+  series: SeriesBucket[];
+  totals: Record<Key, number>;
+  /** Totals per platform; events without a platform are under `UNKNOWN` */
+  platforms: Record<string, Record<Key, number>>;
+  /** Totals per campaign when asked for `byCampaign`; events without a campaign are under `NONE` */
+  campaigns: Record<string, Record<Key, number>>;
+}
+
+export const TimeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: 'Unknown time zone' })
+  .default('UTC');
+
+export const CampaignMetricSchema = z.enum([
+  'engagement',
+  'reach',
+  'conversions',
+  'revenue',
+  'clicks',
+  'impressions',
+]);
+
+export type CampaignMetric = z.infer<typeof CampaignMetricSchema>;
+
+/** Where each campaign metric is read from in the rollups */
+export const CAMPAIGN_METRICS: Record<CampaignMetric, MetricSelector> = {
+  engagement: { type: 'ENGAGEMENT', metric: 'engagement' },
+  reach: { type: 'REACH', metric: 'reach' },
+  conversions: { type: 'CONVERSION', metric: 'conversions' },
+  revenue: { type: 'REVENUE', metric: 'revenue' },
+  clicks: { type: 'CLICKS', metric: 'clicks' },
+  impressions: { type: 'IMPRESSIONS', metric: 'impressions' },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Analytics rows read per page while backfilling
+const BACKFILL_PAGE_SIZE = 2000;
+
+/**
+ * Start of a "last N days" range: local midnight N days ago, so the first
+ * bucket is a whole day.
+ */
+export function rangeStart(days: number, timeZone: string, now = new Date()): Date {
+  return bucketStart(new Date(now.getTime() - days * DAY_MS), 'day', timeZone);
+}
+
+/**
+ * Hourly and daily sums of every numeric analytics field, per campaign,
+ * platform and analytics type, so dashboards read a few hundred rollup rows
+ * instead of every raw event in their range.
+ *
+ * Rollups are incremented as events are ingested and can be rebuilt for a
+ * range from the raw `Analytics` rows with `backfill`, e.g. after importing
+ * history or for rows written outside the ingestion path. Stored buckets are
+ * UTC hours and days; queries in another time zone are built from the hourly
+ * rollups so days start at local midnight.
+ */
+export class MetricRollupService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger
+  ) {}
+
+  /** Add analytics rows to the rollups of their hour and day */
+  async apply(rows: readonly RollupSource[]): Promise<void> {
+    const increments = new Map<string, Prisma.MetricRollupCreateManyInput>();
+    for (const row of rows) {
+      if (!row.workspaceId) continue;
+      const platform = rollupPlatform(row.platform, row.data);
+
+      for (const granularity of ['HOUR', 'DAY'] as const) {
+        const start = bucketStart(row.date, granularity === 'HOUR' ? 'hour' : 'day');
+        for (const { metric, value } of extractRollupMetrics(row.data)) {
+          const key = this.key(granularity, start, row.campaignId, platform, row.type, metric);
+          const mapKey = `${row.workspaceId}|${key}`;
+          const existing = increments.get(mapKey);
+          if (existing) {
+            existing.value = (existing.value ?? 0) + value;
+          } else {
+            increments.set(mapKey, {
+              workspaceId: row.workspaceId,
+              granularity,
+              bucketStart: start,
+              campaignId: row.campaignId,
+              platform,
+              type: row.type,
+              metric,
+              value,
+              key,
+            });
+          }
+        }
+      }
+    }
+    if (increments.size === 0) return;
+
+    const upserts = (): Array<Prisma.PrismaPromise<unknown>> =>
+      [...increments.values()].map(rollup =>
+        this.db.metricRollup.upsert({
+          where: { workspaceId_key: { workspaceId: rollup.workspaceId, key: rollup.key } },
+          create: rollup,
+          update: { value: { increment: rollup.value ?? 0 } },
+        })
+      );
+    try {
+      await this.db.$transaction(upserts());
+    } catch (error) {
+      // Two writers created the same bucket at once; the retry increments it instead
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+      await this.db.$transaction(upserts());
+    }
+  }
+
+  /**
+   * Rebuild a workspace's rollups for whole UTC days between `from` and `to`
+   * from its raw analytics rows. Events ingested while a backfill runs can be
+   * counted twice; run it when ingestion for the range has settled.
+   */
+  async backfill(
+    workspaceId: string,
+    range: { from: Date; to: Date }
+  ): Promise<{ from: Date; to: Date; events: number }> {
+    const from = bucketStart(range.from, 'day');
+    const end = bucketStart(range.to, 'day');
+    const to = end < range.to ? new Date(end.getTime() + DAY_MS) : end;
+
+    await this.db.metricRollup.deleteMany({
+      where: { workspaceId, bucketStart: { gte: from, lt: to } },
+    });
+
+    let events = 0;
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await this.db.analytics.findMany({
+        where: { workspaceId, date: { gte: from, lt: to } },
+        select: {
+          id: true,
+          workspaceId: true,
+          campaignId: true,
+          platform: true,
+          type: true,
+          data: true,
+          date: true,
+        },
+        orderBy: { id: 'asc' },
+        take: BACKFILL_PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (page.length === 0) break;
+
+      await this.apply(page);
+      events += page.length;
+      cursor = page[page.length - 1]?.id;
+      if (page.length < BACKFILL_PAGE_SIZE) break;
+    }
+
+    this.log.info('Metric rollups backfilled', { workspaceId, from, to, events });
+    return { from, to, events };
+  }
+
+  /** Selected metrics summed into buckets of the caller's time zone */
+  async query<Key extends string>(
+    workspaceId: string,
+    query: RollupQuery<Key>
+  ): Promise<RollupQueryResult<Key>> {
+    const selectors = Object.entries(query.metrics) as Array<[Key, MetricSelector]>;
+    const from = bucketStart(query.from, query.size, query.timeZone);
+    // Daily rollups are UTC days, so other zones are summed from hours
+    const granularity: RollupGranularity =
+      query.size === 'hour' || query.timeZone !== 'UTC' ? 'HOUR' : 'DAY';
+
+    const groups = await this.db.metricRollup.groupBy({
+      by: query.byCampaign
+        ? ['bucketStart', 'platform', 'type', 'metric', 'campaignId']
+        : ['bucketStart', 'platform', 'type', 'metric'],
+      where: {
+        workspaceId,
+        granularity,
+        bucketStart: { gte: from, lt: query.to },
+        ...(query.campaignId && { campaignId: query.campaignId }),
+        ...(query.campaignIds && { AND: [{ campaignId: { in: query.campaignIds } }] }),
+        ...(query.platform && { platform: query.platform }),
+        OR: selectors.map(([, selector]) => ({ type: selector.type, metric: selector.metric })),
+      },
+      _sum: { value: true },
+    });
+
+    const emptyTotals = (): Record<Key, number> =>
+      Object.fromEntries(selectors.map(([key]) => [key, 0])) as Record<Key, number>;
+    const totals = emptyTotals();
+    const platforms: Record<string, Record<Key, number>> = {};
+    const campaigns: Record<string, Record<Key, number>> = {};
+    const points: BucketPoint[] = [];
+    for (const group of groups) {
+      const value = group._sum.value ?? 0;
+      for (const [key, selector] of selectors) {
+        if (selector.type !== group.type || selector.metric !== group.metric) continue;
+
+        totals[key] += value;
+        const platform = group.platform ?? 'UNKNOWN';
+        const platformTotals = platforms[platform] ?? emptyTotals();
+        platformTotals[key] += value;
+        platforms[platform] = platformTotals;
+        if (query.byCampaign) {
+          const campaign = ('campaignId' in group && group.campaignId) || 'NONE';
+          const campaignTotals = campaigns[campaign] ?? emptyTotals();
+          campaignTotals[key] += value;
+          campaigns[campaign] = campaignTotals;
+        }
+        points.push({ bucketStart: group.bucketStart, key, value });
+      }
+    }
+
+    return {
+      series: bucketSeries(points, {
+        from,
+        to: query.to,
+        size: query.size,
+        timeZone: query.timeZone,
+      }),
+      totals,
+      platforms,
+      campaigns,
+    };
+  }
+
+  private key(
+    granularity: RollupGranularity,
+    start: Date,
+    campaignId: string | null,
+    platform: Platform | null,
+    type: AnalyticsType,
+    metric: string
+  ): string {
+    return [granularity, start.toISOString(), campaignId ?? '', platform ?? '', type, metric].join(
+      '|'
+    );
+  }
+}
+
+const globalForMetricRollups = globalThis as unknown as {
+  metricRollups: MetricRollupService | undefined;
+};
+
+export const metricRollups =
+  globalForMetricRollups.metricRollups ?? new MetricRollupService(prisma, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForMetricRollups.metricRollups = metricRollups;
@@ -0,0 +1,126 @@
+import type { UserRole } from '@neonhub/data-model';
+
+/**
+ * Everything a role can be allowed to do, as `<resource>:<action>`. `read`
+ * covers queries, `write` creating and editing, and the remaining actions
+ * cover operations with effects outside NeonHub or on other users' work.
+ */
+export const PERMISSIONS = [
+  'agent:read',
+  'agent:execute',
+  'agent:manage',
+  'approval:read',
+  'approval:decide',
+  'approval:policy',
+  'audit:view',
+  'audit:export',
+  'campaign:read',
+  'campaign:write',
+  'campaign:delete',
+  'campaign:budget',
+  'comment:read',
+  'comment:write',
+  'comment:moderate',
+  'content:read',
+  'content:write',
+  'email:read',
+  'email:write',
+  'email:send',
+  'experiment:read',
+  'experiment:write',
+  'lead:read',
+  'lead:write',
+  'lead:delete',
+  'lead:scoring',
+  'metrics:read',
+  'metrics:write',
+  'prompt:read',
+  'prompt:write',
+  'seo:read',
+  'seo:write',
+  'social:read',
+  'social:write',
+  'social:publish',
+  'support:read',
+  'support:write',
+  'support:send',
+  'workflow:read',
+  'workflow:write',
+  'workflow:execute',
+  'workspace:read',
+  'workspace:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const READ_PERMISSIONS = PERMISSIONS.filter(permission => permission.endsWith(':read'));
+
+const USER_PERMISSIONS: Permission[] = [
+  ...READ_PERMISSIONS,
+  'agent:execute',
+  'campaign:write',
+  'campaign:delete',
+  'comment:write',
+  'content:write',
+  'email:write',
+  'email:send',
+  'experiment:write',
+  'lead:write',
+  'lead:delete',
+  'metrics:write',
+  'seo:write',
+  'social:write',
+  'social:publish',
+  'support:write',
+  'support:send',
+  'workflow:write',
+  'workflow:execute',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, ReadonlySet<Permission>> = {
+  VIEWER: new Set(READ_PERMISSIONS),
+  USER: new Set(USER_PERMISSIONS),
+  MANAGER: new Set([
+    ...USER_PERMISSIONS,
+    'agent:manage',
+    'approval:decide',
+    'approval:policy',
+    'campaign:budget',
+    'comment:moderate',
+    'lead:scoring',
+    'prompt:write',
+  ]),
+  ADMIN: new Set(PERMISSIONS),
+};
+
+/**
+ * Permissions over what every workspace shares, prompt templates and agent
+ * settings, so they follow the user's own role rather than their role in a
+ * workspace: everyone is the admin of their personal workspace.
+ */
+export const GLOBAL_PERMISSIONS: ReadonlySet<Permission> = new Set([
+  'prompt:write',
+  'agent:manage',
+]);
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].has(permission);
+}
+
+/** The role `permission` is checked against: the user's own role or their workspace role */
+export function permissionRole(
+  permission: Permission,
+  roles: { userRole: UserRole; workspaceRole: UserRole }
+): UserRole {
+  return GLOBAL_PERMISSIONS.has(permission) ? roles.userRole : roles.workspaceRole;
+}
+
+/** What a user may do in a workspace, in a stable order, e.g. for the dashboard */
+export function getPermissions(roles: {
+  userRole: UserRole;
+  workspaceRole: UserRole;
+}): Permission[] {
+  return PERMISSIONS.filter(permission =>
+    hasPermission(permissionRole(permission, roles), permission)
+  );
+}
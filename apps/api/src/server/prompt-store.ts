@@ -0,0 +1,109 @@
+import {
+  PromptRegistry,
+  PromptVariableSchema,
+  type PromptTemplate,
+  type PromptTemplateSource,
+} from '@neonhub/core-agents';
+import {
+  prisma,
+  type PrismaClient,
+  type PromptTemplate as PromptTemplateRecord,
+} from '@neonhub/data-model';
+import { z } from 'zod';
+
+export interface PrismaPromptSourceOptions {
+  /** How long looked-up templates and brands are reused before reading the database again */
+  cacheTtlMs?: number;
+}
+
+export function toPromptTemplate(record: PromptTemplateRecord): PromptTemplate {
+  const variables = z.array(PromptVariableSchema).safeParse(record.variables);
+  return {
+    id: record.id,
+    name: record.name,
+    version: record.version,
+    ...(record.description !== null && { description: record.description }),
+    ...(record.system !== null && { system: record.system }),
+    template: record.template,
+    variables: variables.success ? variables.data : [],
+    isPartial: record.isPartial,
+  };
+}
+
+/**
+ * Reads prompt templates and brand variables from the database for the
+ * PromptRegistry. Lookups are cached briefly because every agent run renders
+ * at least one template; writes through the prompts router call `invalidate`.
+ */
+export class PrismaPromptSource implements PromptTemplateSource {
+  private readonly cacheTtlMs: number;
+  private readonly cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  constructor(
+    private readonly db: PrismaClient,
+    options: PrismaPromptSourceOptions = {}
+  ) {
+    this.cacheTtlMs = options.cacheTtlMs ?? 30_000;
+  }
+
+  findVersions(name: string): Promise<PromptTemplate[]> {
+    return this.cached(`template:${name}`, async () => {
+      const records = await this.db.promptTemplate.findMany({ where: { name, isActive: true } });
+      return records.map(toPromptTemplate);
+    });
+  }
+
+  findBrandVariables(brandId: string): Promise<Record<string, unknown> | null> {
+    return this.cached(`brand:${brandId}`, async () => {
+      const brand = await this.db.brand.findUnique({
+        where: { id: brandId },
+        select: { name: true, variables: true },
+      });
+      if (!brand) return null;
+
+      const variables =
+        brand.variables && typeof brand.variables === 'object' && !Array.isArray(brand.variables)
+          ? (brand.variables as Record<string, unknown>)
+          : {};
+      return { brandName: brand.name, ...variables };
+    });
+  }
+
+  /**
+   * Drop cached lookups, e.g. after a template or brand was saved.
+   */
+  invalidate(key?: { name: string } | { brandId: string }): void {
+    if (!key) {
+      this.cache.clear();
+    } else if ('name' in key) {
+      this.cache.delete(`template:${key.name}`);
+    } else {
+      this.cache.delete(`brand:${key.brandId}`);
+    }
+  }
+
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const hit = this.cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.value as Promise<T>;
+
+    const value = load();
+    this.cache.set(key, { expiresAt: Date.now() + this.cacheTtlMs, value });
+    // Failed lookups are not cached
+    value.catch(() => this.cache.delete(key));
+    return value;
+  }
+}
+
+const globalForPrompts = globalThis as unknown as {
+  promptSource: PrismaPromptSource | undefined;
+  promptRegistry: PromptRegistry | undefined;
+};
+
+export const promptSource = globalForPrompts.promptSource ?? new PrismaPromptSource(prisma);
+
+export const promptRegistry = globalForPrompts.promptRegistry ?? new PromptRegistry(promptSource);
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrompts.promptSource = promptSource;
+  globalForPrompts.promptRegistry = promptRegistry;
+}
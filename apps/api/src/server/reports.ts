@@ -0,0 +1,591 @@
+import { z } from 'zod';
+import {
+  bucketStart,
+  formatReportChange,
+  formatReportValue,
+  isValidCron,
+  nextCronRun,
+  relativeChange,
+  renderReport,
+  renderReportHtml,
+  ReportDefinitionSchema,
+  ReportFormatSchema,
+  resolveReportPeriod,
+  zonedParts,
+  type RenderedReport,
+  type ReportBlock,
+  type ReportColumn,
+  type ReportDefinition,
+  type ReportDocument,
+  type ReportFormat,
+  type ReportMetricValue,
+  type ReportPeriod,
+  type ReportRange,
+  type ReportValueFormat,
+  type TaskInput,
+} from '@neonhub/core-agents';
+import {
+  Prisma,
+  prisma,
+  type Report,
+  type ReportRun,
+  type PrismaClient,
+} from '@neonhub/data-model';
+import { cpa, cpc, logger, ratio, roas, type Logger } from '@neonhub/utils';
+import { agentRuntime, type AgentRuntime } from './agent-runtime';
+import { mailer, type Mailer } from './mailer';
+import {
+  CAMPAIGN_METRICS,
+  CampaignMetricSchema,
+  metricRollups,
+  type CampaignMetric,
+  type MetricRollupService,
+} from './metric-rollups';
+
+/** Metrics reports can show: the campaign metrics, spend and the ratios between them */
+export const ReportMetricSchema = z.enum([
+  ...CampaignMetricSchema.options,
+  'spend',
+  'ctr',
+  'cpc',
+  'cpa',
+  'roas',
+]);
+
+export type ReportMetric = z.infer<typeof ReportMetricSchema>;
+
+export const REPORT_METRICS: Record<ReportMetric, { label: string; format: ReportValueFormat }> = {
+  engagement: { label: 'Engagement', format: 'number' },
+  reach: { label: 'Reach', format: 'number' },
+  conversions: { label: 'Conversions', format: 'number' },
+  revenue: { label: 'Revenue', format: 'currency' },
+  clicks: { label: 'Clicks', format: 'number' },
+  impressions: { label: 'Impressions', format: 'number' },
+  spend: { label: 'Spend', format: 'currency' },
+  ctr: { label: 'CTR', format: 'percent' },
+  cpc: { label: 'CPC', format: 'currency' },
+  cpa: { label: 'CPA', format: 'currency' },
+  roas: { label: 'ROAS', format: 'number' },
+};
+
+/** A report definition whose metrics are all ones the API can load */
+export const ReportDefinitionInputSchema = ReportDefinitionSchema.superRefine((definition, ctx) => {
+  const metrics = [
+    ...definition.metrics.map((metric, index) => ({ metric, path: ['metrics', index] })),
+    ...definition.sections.flatMap((section, sectionIndex) =>
+      section.type === 'trend'
+        ? (section.metrics ?? []).map((metric, index) => ({
+            metric,
+            path: ['sections', sectionIndex, 'metrics', index],
+          }))
+        : []
+    ),
+  ];
+  for (const { metric, path } of metrics) {
+    if (!ReportMetricSchema.safeParse(metric).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown metric "${metric}"` });
+    }
+  }
+});
+
+export const ReportScheduleSchema = z
+  .string()
+  .trim()
+  .refine(isValidCron, { message: 'Invalid cron expression' });
+
+/** Input of `insight.generate_reports` */
+export type GenerateReportsInput = TaskInput<'insight', 'generate_reports'>;
+
+export type ReportTrigger = 'schedule' | 'manual';
+
+export interface ReportDelivery {
+  to: string;
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+export interface ReportServiceOptions {
+  /** Dashboard URL, linked from report emails */
+  appUrl?: string;
+}
+
+/** Campaign metrics and spend summed over some range */
+type Figures = Record<CampaignMetric | 'spend', number>;
+
+interface LoadedFigures {
+  totals: Figures;
+  /** One entry per local day, oldest first */
+  days: Array<{ date: string; figures: Figures }>;
+  campaigns: Map<string, Figures>;
+  platforms: Map<string, Figures>;
+}
+
+// Campaign rows passed to the narrative, largest first
+const NARRATIVE_CAMPAIGNS = 10;
+
+function toFigures(values: Partial<Record<string, number>>, spend = 0): Figures {
+  const figures = Object.fromEntries(
+    CampaignMetricSchema.options.map(metric => [metric, values[metric] ?? 0])
+  ) as Record<CampaignMetric, number>;
+  return { ...figures, spend };
+}
+
+function metricValue(metric: ReportMetric, figures: Figures): number {
+  switch (metric) {
+    case 'ctr':
+      return ratio(figures.clicks, figures.impressions) ?? 0;
+    case 'cpc':
+      return cpc(figures.spend, figures.clicks) ?? 0;
+    case 'cpa':
+      return cpa(figures.spend, figures.conversions) ?? 0;
+    case 'roas':
+      return roas(figures.revenue, figures.spend) ?? 0;
+    default:
+      return figures[metric];
+  }
+}
+
+/** YYYY-MM-DD of the local day `date` falls on */
+function localDate(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return [p.year, p.month, p.day].map(part => String(part ?? 0).padStart(2, '0')).join('-');
+}
+
+/** `FACEBOOK` as `Facebook` */
+function platformLabel(platform: string): string {
+  return platform.charAt(0) + platform.slice(1).toLowerCase().replace(/_/g, ' ');
+}
+
+/**
+ * Builds reports from the workspace's metric rollups and budget ledger, runs
+ * them on demand or on their cron schedule, and emails them to their
+ * recipients with the chosen formats attached.
+ *
+ * Every run is stored with its document, so past runs can be downloaded in
+ * any format later without loading their data again. The narrative section
+ * is written by the insight agent; a report is still sent without it when the
+ * agent fails.
+ */
+export class ReportService {
+  private readonly appUrl: string;
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly rollups: MetricRollupService,
+    private readonly agents: AgentRuntime,
+    private readonly mail: Mailer,
+    private readonly log: Logger,
+    options: ReportServiceOptions = {}
+  ) {
+    this.appUrl = options.appUrl ?? 'http://localhost:3000';
+  }
+
+  /** When a schedule next fires after `after`; null for reports run on demand only */
+  nextRunAt(schedule: string | null, timeZone: string, after = new Date()): Date | null {
+    return schedule ? nextCronRun(schedule, after, timeZone) : null;
+  }
+
+  /** Run every enabled report whose scheduled time has come */
+  async runDue(now = new Date()): Promise<ReportRun[]> {
+    const reports = await this.db.report.findMany({
+      where: { enabled: true, schedule: { not: null }, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+    });
+
+    const runs: ReportRun[] = [];
+    for (const report of reports) {
+      try {
+        const { timeZone } = ReportDefinitionSchema.parse(report.definition);
+        // Moving the next run on claims this one, so other workers skip it
+        const { count } = await this.db.report.updateMany({
+          where: { id: report.id, nextRunAt: report.nextRunAt },
+          data: { nextRunAt: this.nextRunAt(report.schedule, timeZone, now) },
+        });
+        if (count === 0) continue;
+
+        runs.push(await this.run(report, { trigger: 'schedule', now }));
+      } catch (error) {
+        this.log.error('Failed to run scheduled report', {
+          reportId: report.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Build the report for the period it covers at `now`, store the run and
+   * email it to the report's recipients, or to `recipients` when given. A
+   * failed build is stored as a failed run rather than thrown.
+   */
+  async run(
+    report: Report,
+    options: {
+      trigger: ReportTrigger;
+      triggeredById?: string;
+      recipients?: string[];
+      now?: Date;
+    }
+  ): Promise<ReportRun> {
+    const now = options.now ?? new Date();
+    const definition = ReportDefinitionSchema.parse(report.definition);
+    const period = resolveReportPeriod(definition, now);
+    const run = await this.db.reportRun.create({
+      data: {
+        reportId: report.id,
+        status: 'RUNNING',
+        trigger: options.trigger,
+        periodStart: period.from,
+        periodEnd: period.to,
+        triggeredById: options.triggeredById ?? null,
+        workspaceId: report.workspaceId,
+      },
+    });
+
+    try {
+      const document = await this.buildDocument(report.workspaceId, definition, period, {
+        now,
+        ...(options.triggeredById && { userId: options.triggeredById }),
+      });
+      const deliveries = await this.deliver(
+        report,
+        document,
+        options.recipients ?? report.recipients
+      );
+      const [completed] = await this.db.$transaction([
+        this.db.reportRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'COMPLETED',
+            document: document as unknown as Prisma.InputJsonValue,
+            deliveries: deliveries as unknown as Prisma.InputJsonValue,
+            completedAt: new Date(),
+          },
+        }),
+        this.db.report.update({ where: { id: report.id }, data: { lastRunAt: now } }),
+      ]);
+      this.log.info('Report run completed', {
+        reportId: report.id,
+        runId: run.id,
+        trigger: options.trigger,
+        recipients: deliveries.length,
+      });
+      return completed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.log.error('Failed to run report', {
+        reportId: report.id,
+        runId: run.id,
+        error: message,
+      });
+      return this.db.reportRun.update({
+        where: { id: run.id },
+        data: { status: 'FAILED', error: message, completedAt: new Date() },
+      });
+    }
+  }
+
+  /** A stored run in another format; null when the run is not in the workspace or has no document */
+  async renderRun(
+    runId: string,
+    workspaceId: string,
+    format: ReportFormat
+  ): Promise<RenderedReport | null> {
+    const run = await this.db.reportRun.findFirst({
+      where: { id: runId, workspaceId },
+      select: { document: true },
+    });
+    if (!run?.document) return null;
+    return renderReport(run.document as unknown as ReportDocument, format);
+  }
+
+  /** The report's sections filled in with the workspace's data for the period */
+  async buildDocument(
+    workspaceId: string,
+    definition: ReportDefinition,
+    period: ReportPeriod,
+    options: { now?: Date; userId?: string } = {}
+  ): Promise<ReportDocument> {
+    const metrics = definition.metrics.map(metric => ReportMetricSchema.parse(metric));
+    const byCampaign = definition.sections.some(
+      section => section.type === 'campaigns' || section.type === 'narrative'
+    );
+    const [current, previous] = await Promise.all([
+      this.loadFigures(workspaceId, period, definition, byCampaign),
+      period.comparison
+        ? this.loadFigures(workspaceId, period.comparison, definition, false)
+        : Promise.resolve(null),
+    ]);
+
+    const kpis: ReportMetricValue[] = metrics.map(metric => {
+      const value = metricValue(metric, current.totals);
+      const before = previous ? metricValue(metric, previous.totals) : null;
+      return {
+        metric,
+        ...REPORT_METRICS[metric],
+        value,
+        previous: before,
+        change: relativeChange(value, before),
+      };
+    });
+    const columns = (first: ReportColumn): ReportColumn[] => [
+      first,
+      ...metrics.map(metric => ({ key: metric, ...REPORT_METRICS[metric] })),
+    ];
+    const rows = (name: string, figures: Figures): Record<string, string | number> => ({
+      name,
+      ...Object.fromEntries(metrics.map(metric => [metric, metricValue(metric, figures)])),
+    });
+    const byFirstMetric = (a: Record<string, unknown>, b: Record<string, unknown>): number =>
+      Number(b[metrics[0] ?? 'name'] ?? 0) - Number(a[metrics[0] ?? 'name'] ?? 0);
+
+    let campaignRows: Array<Record<string, string | number>> = [];
+    if (byCampaign && current.campaigns.size > 0) {
+      const campaigns = await this.db.campaign.findMany({
+        where: { id: { in: [...current.campaigns.keys()] }, workspaceId },
+        select: { id: true, name: true },
+      });
+      const names = new Map(campaigns.map(campaign => [campaign.id, campaign.name]));
+      campaignRows = [...current.campaigns]
+        .map(([id, figures]) => rows(names.get(id) ?? 'No campaign', figures))
+        .sort(byFirstMetric);
+    }
+
+    const blocks: ReportBlock[] = [];
+    for (const section of definition.sections) {
+      switch (section.type) {
+        case 'narrative': {
+          const narrative = await this.narrate(workspaceId, definition, period, kpis, {
+            campaigns: campaignRows.slice(0, NARRATIVE_CAMPAIGNS),
+            ...(options.userId && { userId: options.userId }),
+          });
+          if (narrative) blocks.push({ type: 'narrative', title: section.title, ...narrative });
+          break;
+        }
+        case 'kpis':
+          blocks.push({ type: 'kpis', title: section.title, metrics: kpis });
+          break;
+        case 'trend': {
+          const series = (section.metrics ?? metrics).map(metric =>
+            ReportMetricSchema.parse(metric)
+          );
+          blocks.push({
+            type: 'trend',
+            title: section.title,
+            series: series.map(metric => ({ metric, ...REPORT_METRICS[metric] })),
+            points: current.days.map(day => ({
+              date: day.date,
+              values: Object.fromEntries(
+                series.map(metric => [metric, metricValue(metric, day.figures)])
+              ),
+            })),
+          });
+          break;
+        }
+        case 'campaigns':
+          blocks.push({
+            type: 'table',
+            title: section.title,
+            columns: columns({ key: 'name', label: 'Campaign', format: 'text' }),
+            rows: campaignRows.slice(0, section.limit),
+          });
+          break;
+        case 'platforms':
+          blocks.push({
+            type: 'table',
+            title: section.title,
+            columns: columns({ key: 'name', label: 'Platform', format: 'text' }),
+            rows: [...current.platforms]
+              .map(([platform, figures]) => rows(platformLabel(platform), figures))
+              .sort(byFirstMetric),
+          });
+          break;
+      }
+    }
+
+    return {
+      title: definition.title,
+      periodLabel: period.label,
+      comparisonLabel: period.comparison?.label ?? null,
+      timeZone: definition.timeZone,
+      generatedAt: (options.now ?? new Date()).toISOString(),
+      blocks,
+    };
+  }
+
+  /**
+   * Campaign metrics from the rollups and spend from the budget ledger, in
+   * total, per local day, per platform and, when asked, per campaign.
+   */
+  private async loadFigures(
+    workspaceId: string,
+    range: ReportRange,
+    definition: ReportDefinition,
+    byCampaign: boolean
+  ): Promise<LoadedFigures> {
+    const { timeZone, campaignIds } = definition;
+    const [rollup, spendEntries] = await Promise.all([
+      this.rollups.query(workspaceId, {
+        from: range.from,
+        to: range.to,
+        size: 'day',
+        timeZone,
+        ...(campaignIds && { campaignIds }),
+        metrics: CAMPAIGN_METRICS,
+        byCampaign,
+      }),
+      this.db.spendEntry.findMany({
+        where: {
+          workspaceId,
+          spentAt: { gte: range.from, lt: range.to },
+          ...(campaignIds && { campaignId: { in: campaignIds } }),
+        },
+        select: { campaignId: true, platform: true, amount: true, spentAt: true },
+      }),
+    ]);
+
+    const totals = toFigures(rollup.totals);
+    const days = rollup.series.map(bucket => ({
+      start: bucket.start.getTime(),
+      date: localDate(bucket.start, timeZone),
+      figures: toFigures(bucket.values),
+    }));
+    const dayIndex = new Map(days.map((day, index) => [day.start, index]));
+    const campaigns = new Map(
+      Object.entries(rollup.campaigns).map(([id, values]) => [id, toFigures(values)])
+    );
+    const platforms = new Map(
+      Object.entries(rollup.platforms).map(([platform, values]) => [platform, toFigures(values)])
+    );
+
+    for (const entry of spendEntries) {
+      totals.spend += entry.amount;
+      const day = days[dayIndex.get(bucketStart(entry.spentAt, 'day', timeZone).getTime()) ?? -1];
+      if (day) day.figures.spend += entry.amount;
+      const platform = entry.platform ?? 'UNKNOWN';
+      const platformFigures = platforms.get(platform) ?? toFigures({});
+      platformFigures.spend += entry.amount;
+      platforms.set(platform, platformFigures);
+      if (byCampaign) {
+        const campaign = entry.campaignId ?? 'NONE';
+        const campaignFigures = campaigns.get(campaign) ?? toFigures({});
+        campaignFigures.spend += entry.amount;
+        campaigns.set(campaign, campaignFigures);
+      }
+    }
+
+    return {
+      totals,
+      days: days.map(({ date, figures }) => ({ date, figures })),
+      campaigns,
+      platforms,
+    };
+  }
+
+  /** Summary, highlights and recommendations from `insight.generate_reports`; null when it fails */
+  private async narrate(
+    workspaceId: string,
+    definition: ReportDefinition,
+    period: ReportPeriod,
+    kpis: ReportMetricValue[],
+    context: { campaigns: Array<Record<string, string | number>>; userId?: string }
+  ): Promise<{ summary: string; highlights: string[]; recommendations: string[] } | null> {
+    const input: GenerateReportsInput = {
+      title: definition.title,
+      timeRange: period.label,
+      ...(period.comparison && { comparisonRange: period.comparison.label }),
+      metrics: Object.fromEntries(
+        kpis.map(kpi => [
+          kpi.metric,
+          { value: kpi.value, previous: kpi.previous, change: kpi.change },
+        ])
+      ),
+      ...(context.campaigns.length > 0 && { campaigns: context.campaigns }),
+    };
+
+    try {
+      const result = await this.agents.executeAgent('insight', 'generate_reports', input, {
+        priority: 'low',
+        metadata: { workspaceId, ...(context.userId && { userId: context.userId }) },
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error ?? 'Insight agent returned no report');
+      }
+      return result.data.report;
+    } catch (error) {
+      this.log.warn('Report summary skipped', {
+        workspaceId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /** Email the report to each recipient, with the HTML as the body and the report's formats attached */
+  private async deliver(
+    report: Report,
+    document: ReportDocument,
+    recipients: string[]
+  ): Promise<ReportDelivery[]> {
+    if (recipients.length === 0) return [];
+
+    const formats = z.array(ReportFormatSchema).parse(report.formats);
+    const attachments = formats.map(format => {
+      const rendered = renderReport(document, format);
+      return {
+        filename: rendered.filename,
+        content: rendered.content,
+        contentType: rendered.contentType,
+      };
+    });
+    // Plain-text fallback: the key metrics and a link to the dashboard
+    const kpiLines = document.blocks.flatMap(block =>
+      block.type === 'kpis'
+        ? block.metrics.map(
+            metric =>
+              `${metric.label}: ${formatReportValue(metric.value, metric.format)} (${formatReportChange(metric.change)})`
+          )
+        : []
+    );
+    const text = [
+      document.title,
+      document.periodLabel,
+      '',
+      ...kpiLines,
+      '',
+      `${this.appUrl}/analytics?report=${report.id}`,
+    ].join('\n');
+
+    const deliveries: ReportDelivery[] = [];
+    for (const to of recipients) {
+      try {
+        await this.mail.send({
+          to,
+          subject: `[NeonHub] ${document.title}: ${document.periodLabel}`,
+          text,
+          html: renderReportHtml(document),
+          attachments,
+        });
+        deliveries.push({ to, status: 'sent' });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.log.error('Failed to email report', { reportId: report.id, to, error: message });
+        deliveries.push({ to, status: 'failed', error: message });
+      }
+    }
+    return deliveries;
+  }
+}
+
+const globalForReports = globalThis as unknown as {
+  reports: ReportService | undefined;
+};
+
+export const reportService =
+  globalForReports.reports ??
+  new ReportService(prisma, metricRollups, agentRuntime, mailer, logger, {
+    appUrl: process.env.NEXTAUTH_URL || 'http://localhost:3000',
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForReports.reports = reportService;
@@ -8,6 +8,21 @@ import { emailRouter } from './routers/email';
 import { seoRouter } from './routers/seo';
 import { socialRouter } from './routers/social';
 import { supportRouter } from './routers/support';
+import { promptsRouter } from './routers/prompts';
+import { workflowRouter } from './routers/workflow';
+import { approvalRouter } from './routers/approval';
+import { authRouter } from './routers/auth';
+import { workspaceRouter } from './routers/workspace';
+import { commentRouter } from './routers/comment';
+import { activityRouter } from './routers/activity';
+import { auditRouter } from './routers/audit';
+import { abTestRouter } from './routers/abTest';
+import { attributionRouter } from './routers/attribution';
+import { insightRouter } from './routers/insight';
+import { alertRouter } from './routers/alert';
+import { notificationRouter } from './routers/notification';
+import { reportRouter } from './routers/report';
+import { leadRouter } from './routers/lead';
 
 /**
  * This is the primary router for your server.
@@ -24,6 +39,21 @@ export const appRouter = createTRPCRouter({
   seo: seoRouter,
   social: socialRouter,
   support: supportRouter,
+  prompts: promptsRouter,
+  workflow: workflowRouter,
+  approval: approvalRouter,
+  auth: authRouter,
+  workspace: workspaceRouter,
+  comment: commentRouter,
+  activity: activityRouter,
+  audit: auditRouter,
+  abTest: abTestRouter,
+  attribution: attributionRouter,
+  insight: insightRouter,
+  alert: alertRouter,
+  notification: notificationRouter,
+  report: reportRouter,
+  lead: leadRouter,
 });
 
 // export type definition of API
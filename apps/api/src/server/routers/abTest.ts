@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { ABTestSettingsSchema, BanditSettingsSchema } from '@neonhub/core-agents';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import { AB_TEST_EVENT_BATCH_LIMIT, parseABTest, type ABTestChangeResult } from '../experiments';
+
+const VariantInputSchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  name: z.string().max(200).optional(),
+  weight: z.number().positive().optional(),
+  content: z.unknown().optional(),
+});
+
+const EventSchema = z.object({
+  type: z.enum(['EXPOSURE', 'CONVERSION']),
+  unitId: z.string().min(1).max(200),
+  variantId: z.string().optional(),
+  value: z.number().optional(),
+  occurredAt: z.date().optional(),
+});
+
+function assertTestChanged<T>(
+  result: ABTestChangeResult<T>
+): asserts result is Extract<ABTestChangeResult<T>, { changed: true }> {
+  if (result.changed) return;
+
+  switch (result.reason) {
+    case 'not_found':
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'A/B test not found' });
+    case 'not_running':
+      throw new TRPCError({ code: 'CONFLICT', message: result.problems.join('; ') });
+    default:
+      throw new TRPCError({ code: 'BAD_REQUEST', message: result.problems.join('; ') });
+  }
+}
+
+export const abTestRouter = createTRPCRouter({
+  // A/B tests, optionally of one campaign
+  list: protectedProcedure
+    .use(requirePermission('experiment:read'))
+    .input(
+      z.object({
+        campaignId: z.string().optional(),
+        status: z.enum(['DRAFT', 'RUNNING', 'COMPLETED', 'STOPPED']).optional(),
+        mode: z.enum(['FIXED', 'BANDIT']).optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where = {
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          ...(input.status && { status: input.status }),
+          ...(input.mode && { mode: input.mode }),
+        };
+        const [tests, total] = await Promise.all([
+          ctx.prisma.aBTest.findMany({
+            where,
+            orderBy: { startDate: 'desc' },
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.aBTest.count({ where }),
+        ]);
+        return { tests, total, hasMore: total > input.offset + input.limit };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch A/B tests', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch A/B tests',
+        });
+      }
+    }),
+
+  // A test with its variants, settings and last stored results
+  getById: protectedProcedure
+    .use(requirePermission('experiment:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const test = await ctx.prisma.aBTest.findFirst({
+          where: { id: input.id },
+          include: { campaign: { select: { id: true, name: true } } },
+        });
+        if (!test) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'A/B test not found' });
+        }
+        return { ...test, ...parseABTest(test) };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to fetch A/B test', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch A/B test',
+        });
+      }
+    }),
+
+  // Create a test from explicit variants or from an a_b_test_content / a_b_test_ads run.
+  // Bandit tests shift traffic towards the best variant instead of using a fixed split.
+  create: protectedProcedure
+    .use(requirePermission('experiment:write'))
+    .input(
+      z
+        .object({
+          campaignId: z.string(),
+          name: z.string().min(1).max(200),
+          description: z.string().max(2000).optional(),
+          variants: z.array(VariantInputSchema).min(2).max(26).optional(),
+          executionId: z.string().optional(),
+          settings: ABTestSettingsSchema.partial().optional(),
+          mode: z.enum(['FIXED', 'BANDIT']).default('FIXED'),
+          bandit: BanditSettingsSchema.partial().optional(),
+          start: z.boolean().default(false),
+        })
+        .refine(input => input.variants || input.executionId, {
+          message: 'Either variants or executionId is required',
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { executionId, ...test } = input;
+      const variants =
+        input.variants ??
+        (executionId &&
+          (await ctx.experiments.variantsFromExecution(ctx.workspace.id, executionId)));
+      if (!variants) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'No completed A/B test variant generation found for this execution',
+        });
+      }
+
+      const result = await ctx.experiments.create(ctx.workspace.id, { ...test, variants });
+      assertTestChanged(result);
+
+      ctx.logger.info('A/B test created', {
+        abTestId: result.test.id,
+        campaignId: input.campaignId,
+        userId: ctx.session.user.id,
+      });
+      return result.test;
+    }),
+
+  // Start collecting events for a draft or stopped test
+  start: protectedProcedure
+    .use(requirePermission('experiment:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.experiments.setStatus(ctx.workspace.id, input.id, 'RUNNING');
+      assertTestChanged(result);
+      return result.test;
+    }),
+
+  // Stop a test without declaring a winner
+  stop: protectedProcedure
+    .use(requirePermission('experiment:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.experiments.setStatus(ctx.workspace.id, input.id, 'STOPPED');
+      assertTestChanged(result);
+      return result.test;
+    }),
+
+  // The variant to show a unit; the same unit always gets the same one
+  assign: protectedProcedure
+    .use(requirePermission('experiment:write'))
+    .input(
+      z.object({
+        id: z.string(),
+        unitId: z.string().min(1).max(200),
+        recordExposure: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const assignment = await ctx.experiments.assign(ctx.workspace.id, input.id, input.unitId, {
+        recordExposure: input.recordExposure,
+      });
+      if (!assignment) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'A/B test not found' });
+      }
+      return assignment;
+    }),
+
+  // Ingest exposure and conversion events; the test is re-evaluated after each batch
+  recordEvents: protectedProcedure
+    .use(requirePermission('experiment:write'))
+    .input(
+      z.object({
+        id: z.string(),
+        events: z.array(EventSchema).min(1).max(AB_TEST_EVENT_BATCH_LIMIT),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.experiments.ingest(ctx.workspace.id, input.id, input.events);
+      assertTestChanged(result);
+      return {
+        accepted: result.accepted,
+        duplicates: result.duplicates,
+        ignored: result.ignored,
+        evaluation: result.evaluation,
+      };
+    }),
+
+  // Current statistics and stop decision of a test
+  getResults: protectedProcedure
+    .use(requirePermission('experiment:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const evaluation = await ctx.experiments.analyze(ctx.workspace.id, input.id);
+        if (!evaluation) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'A/B test not found' });
+        }
+        return evaluation;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to analyze A/B test', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to analyze A/B test',
+        });
+      }
+    }),
+
+  // Recompute a bandit test's traffic split from the rewards recorded so far
+  reallocate: protectedProcedure
+    .use(requirePermission('experiment:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.experiments.reallocate(ctx.workspace.id, input.id, 'manual');
+      assertTestChanged(result);
+      return result.allocation;
+    }),
+
+  // How a bandit test's traffic split shifted over time
+  getAllocations: protectedProcedure
+    .use(requirePermission('experiment:read'))
+    .input(z.object({ id: z.string(), limit: z.number().int().min(1).max(500).default(100) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.experiments.getAllocationHistory(ctx.workspace.id, input.id, input.limit);
+      } catch (error) {
+        ctx.logger.error('Failed to fetch A/B test allocations', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch A/B test allocations',
+        });
+      }
+    }),
+
+  // Complete a test with a winner picked by hand
+  declareWinner: protectedProcedure
+    .use(requirePermission('experiment:write'))
+    .input(z.object({ id: z.string(), variantId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.experiments.declareWinner(
+        ctx.workspace.id,
+        input.id,
+        input.variantId
+      );
+      assertTestChanged(result);
+
+      ctx.logger.info('A/B test winner declared', {
+        abTestId: input.id,
+        winner: input.variantId,
+        userId: ctx.session.user.id,
+      });
+      return result.test;
+    }),
+});
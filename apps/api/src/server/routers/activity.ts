@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { Prisma } from '@neonhub/data-model';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+
+const ActivityTypeSchema = z.enum([
+  'CAMPAIGN_CREATED',
+  'STATUS_CHANGED',
+  'BUDGET_CHANGED',
+  'AGENT_EXECUTION',
+]);
+
+export const activityRouter = createTRPCRouter({
+  // A campaign's activity feed, newest first
+  list: protectedProcedure
+    .use(requirePermission('campaign:read'))
+    .input(
+      z.object({
+        campaignId: z.string(),
+        types: z.array(ActivityTypeSchema).optional(),
+        limit: z.number().int().min(1).max(100).default(50),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where: Prisma.ActivityEventWhereInput = {
+          campaignId: input.campaignId,
+          ...(input.types && { type: { in: input.types } }),
+        };
+
+        const [events, total] = await Promise.all([
+          ctx.prisma.activityEvent.findMany({
+            where,
+            include: { actor: { select: { id: true, name: true, email: true, avatar: true } } },
+            orderBy: { createdAt: 'desc' },
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.activityEvent.count({ where }),
+        ]);
+
+        return {
+          events,
+          total,
+          hasMore: total > input.offset + input.limit,
+        };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch campaign activity', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch campaign activity',
+        });
+      }
+    }),
+});
@@ -1,9 +1,9 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { createTRPCRouter, publicProcedure, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
-import { AgentManager } from '@neonhub/core-agents';
-
-const agentManager = new AgentManager();
+import { getTaskSideEffect, validateTaskInput } from '@neonhub/core-agents';
+import type { Prisma } from '@neonhub/data-model';
+import { averageValues, percentage } from '@neonhub/utils';
 
 export const agentRouter = createTRPCRouter({
   // Get all available agents
@@ -12,7 +12,13 @@ export const agentRouter = createTRPCRouter({
       const agents = await ctx.prisma.agent.findMany({
         orderBy: { createdAt: 'desc' },
       });
-      return agents;
+      const statuses = await ctx.agents.getAllAgentStatuses();
+      const statusById = new Map(statuses.map(status => [status.id, status]));
+
+      return agents.map(agent => ({
+        ...agent,
+        runtime: statusById.get(agent.id) ?? null,
+      }));
     } catch (error) {
       ctx.logger.error('Failed to fetch agents:', error);
       throw new TRPCError({
@@ -22,8 +28,8 @@ export const agentRouter = createTRPCRouter({
     }
   }),
 
-  // Get agent by ID
-  getById: publicProcedure
+  // Get agent by ID, with the workspace's latest executions
+  getById: protectedProcedure.use(requirePermission('agent:read'))
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -31,6 +37,7 @@ export const agentRouter = createTRPCRouter({
           where: { id: input.id },
           include: {
             executions: {
+              where: { workspaceId: ctx.workspace.id },
               orderBy: { startedAt: 'desc' },
               take: 10,
             },
@@ -54,32 +61,40 @@ export const agentRouter = createTRPCRouter({
       }
     }),
 
-  // Execute agent task
-  execute: protectedProcedure
+  // Queue an agent task; a worker picks it up and runs it
+  execute: protectedProcedure.use(requirePermission('agent:execute'))
     .input(
       z.object({
         agentId: z.string(),
         task: z.string(),
         payload: z.record(z.any()).optional(),
         campaignId: z.string().optional(),
+        priority: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
+        maxAttempts: z.number().int().min(1).max(10).default(3),
+        runAt: z.date().optional(),
+        deadline: z.date().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        // Create execution record
-        const execution = await ctx.prisma.agentExecution.create({
-          data: {
-            agentId: input.agentId,
-            campaignId: input.campaignId,
-            userId: ctx.session.user.id,
-            task: input.task,
-            payload: input.payload || {},
-            status: 'RUNNING',
-          },
-        });
+        if (input.deadline && input.deadline.getTime() <= Date.now()) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Deadline must be in the future',
+          });
+        }
+
+        if (input.campaignId) {
+          const campaign = await ctx.prisma.campaign.findUnique({ where: { id: input.campaignId } });
+          if (!campaign) {
+            throw new TRPCError({
+              code: 'NOT_FOUND',
+              message: 'Campaign not found',
+            });
+          }
+        }
 
-        // Execute the agent
-        const agent = agentManager.getAgent(input.agentId);
+        const agent = ctx.agents.getAgent(input.agentId);
         if (!agent) {
           throw new TRPCError({
             code: 'NOT_FOUND',
@@ -87,37 +102,57 @@ export const agentRouter = createTRPCRouter({
           });
         }
 
-        const result = await agent.execute({
+        // Reject input the task would refuse anyway instead of queueing a job that cannot succeed
+        const problems = validateTaskInput(agent.type, input.task, input.payload);
+        if (problems.length > 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Invalid input for ${input.task}: ${problems.join('; ')}`,
+          });
+        }
+
+        const job = {
+          agentId: input.agentId,
+          campaignId: input.campaignId,
+          userId: ctx.session.user.id,
+          workspaceId: ctx.workspace.id,
           task: input.task,
-          context: input.payload || {},
-          priority: 'medium',
-          metadata: { executionId: execution.id },
-        });
+          payload: input.payload,
+          priority: input.priority,
+          maxAttempts: input.maxAttempts,
+          runAt: input.runAt,
+          metadata: input.deadline ? { deadline: input.deadline.toISOString() } : undefined,
+        };
 
-        // Update execution with result
-        const updatedExecution = await ctx.prisma.agentExecution.update({
-          where: { id: execution.id },
-          data: {
-            result: result.data,
-            status: result.success ? 'COMPLETED' : 'FAILED',
-            error: result.success ? null : result.error,
-            performance: result.performance,
-            completedAt: new Date(),
-          },
-        });
+        // Tasks that spend money or contact customers wait for a manager's approval
+        const sideEffect = getTaskSideEffect(agent.type, input.task);
+        if (sideEffect) {
+          const { execution, approval } = await ctx.approvals.enqueueExecution({
+            ...job,
+            agentType: agent.type,
+            sideEffect,
+          });
 
-        ctx.logger.info(`Agent ${input.agentId} executed task ${input.task}`, {
+          ctx.logger.info(`Agent ${input.agentId} queued task ${input.task} for approval`, {
+            executionId: execution.id,
+            approvalId: approval.id,
+          });
+
+          return { execution, approval };
+        }
+
+        const execution = await ctx.queue.enqueue(job);
+
+        ctx.logger.info(`Agent ${input.agentId} queued task ${input.task}`, {
           executionId: execution.id,
-          success: result.success,
+          priority: input.priority,
         });
 
-        return {
-          execution: updatedExecution,
-          result: result.data,
-          success: result.success,
-        };
+        return { execution, approval: null };
       } catch (error) {
-        ctx.logger.error('Failed to execute agent:', error);
+        if (error instanceof TRPCError) throw error;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        ctx.logger.error('Failed to queue agent execution', { error: errorMessage });
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to execute agent',
@@ -125,8 +160,100 @@ export const agentRouter = createTRPCRouter({
       }
     }),
 
+  // Update agent settings, e.g. how many executions may run at once
+  updateSettings: protectedProcedure.use(requirePermission('agent:manage'))
+    .input(
+      z.object({
+        id: z.string(),
+        settings: z
+          .object({
+            maxConcurrent: z.number().int().min(1).max(50).optional(),
+          })
+          .passthrough(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const existing = await ctx.prisma.agent.findUnique({
+          where: { id: input.id },
+          select: { settings: true },
+        });
+
+        if (!existing) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Agent not found',
+          });
+        }
+
+        const current =
+          existing.settings && typeof existing.settings === 'object' && !Array.isArray(existing.settings)
+            ? existing.settings
+            : {};
+
+        const agent = await ctx.prisma.agent.update({
+          where: { id: input.id },
+          data: { settings: { ...current, ...input.settings } as Prisma.InputJsonValue },
+        });
+
+        // Apply the new limits in this process right away instead of on the next sync
+        await ctx.agents.sync();
+
+        return agent;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        ctx.logger.error('Failed to update agent settings', { error: errorMessage });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update agent settings',
+        });
+      }
+    }),
+
+  // Get a single execution, e.g. to poll a queued task
+  getExecution: protectedProcedure.use(requirePermission('agent:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const execution = await ctx.prisma.agentExecution.findFirst({
+        where: { id: input.id },
+        include: { agent: true },
+      });
+
+      if (!execution) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Execution not found',
+        });
+      }
+
+      return execution;
+    }),
+
+  // Cancel a pending or running execution
+  cancelExecution: protectedProcedure.use(requirePermission('agent:execute'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const outcome = await ctx.queue.cancel(input.id, { workspaceId: ctx.workspace.id });
+
+      if (!outcome.cancelled) {
+        throw new TRPCError(
+          outcome.reason === 'not_found'
+            ? { code: 'NOT_FOUND', message: 'Execution not found' }
+            : { code: 'CONFLICT', message: 'Execution has already finished' }
+        );
+      }
+
+      ctx.logger.info('Agent execution cancelled', {
+        executionId: input.id,
+        userId: ctx.session.user.id,
+      });
+
+      return { execution: outcome.execution };
+    }),
+
   // Get agent execution history
-  getExecutions: protectedProcedure
+  getExecutions: protectedProcedure.use(requirePermission('agent:read'))
     .input(
       z.object({
         agentId: z.string().optional(),
@@ -140,7 +267,6 @@ export const agentRouter = createTRPCRouter({
         const where: any = {};
         if (input.agentId) where.agentId = input.agentId;
         if (input.campaignId) where.campaignId = input.campaignId;
-        where.userId = ctx.session.user.id;
 
         const executions = await ctx.prisma.agentExecution.findMany({
           where,
@@ -170,7 +296,7 @@ export const agentRouter = createTRPCRouter({
     }),
 
   // Get agent performance metrics
-  getMetrics: protectedProcedure
+  getMetrics: protectedProcedure.use(requirePermission('agent:read'))
     .input(
       z.object({
         agentId: z.string(),
@@ -191,7 +317,6 @@ export const agentRouter = createTRPCRouter({
         const executions = await ctx.prisma.agentExecution.findMany({
           where: {
             agentId: input.agentId,
-            userId: ctx.session.user.id,
             startedAt: {
               gte: startDate,
             },
@@ -207,24 +332,19 @@ export const agentRouter = createTRPCRouter({
         const totalExecutions = executions.length;
         const successfulExecutions = executions.filter(e => e.status === 'COMPLETED').length;
         const failedExecutions = executions.filter(e => e.status === 'FAILED').length;
-        const avgPerformance = executions
-          .filter((e): e is typeof e & { performance: number } => e.performance !== null)
-          .reduce((acc: number, e) => acc + e.performance, 0) / totalExecutions || 0;
-
-        const avgExecutionTime = executions
-          .filter((e): e is typeof e & { completedAt: Date } => e.completedAt !== null)
-          .reduce((acc: number, e) => {
-            const duration = e.completedAt.getTime() - e.startedAt.getTime();
-            return acc + duration;
-          }, 0) / totalExecutions || 0;
+        // Averaged over the executions that have a score or have finished, not all of them
+        const avgPerformance = averageValues(executions.map(e => e.performance));
+        const avgExecutionTime = averageValues(
+          executions.map(e => (e.completedAt ? e.completedAt.getTime() - e.startedAt.getTime() : null))
+        );
 
         return {
           totalExecutions,
           successfulExecutions,
           failedExecutions,
-          successRate: totalExecutions > 0 ? (successfulExecutions / totalExecutions) * 100 : 0,
+          successRate: percentage(successfulExecutions, totalExecutions),
           avgPerformance,
-          avgExecutionTime: Math.round(avgExecutionTime / 1000), // Convert to seconds
+          avgExecutionTime: avgExecutionTime === null ? null : Math.round(avgExecutionTime / 1000), // Convert to seconds
         };
       } catch (error) {
         ctx.logger.error('Failed to fetch agent metrics:', error);
@@ -0,0 +1,278 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { AlertRuleSettingsSchema, PlatformSchema } from '@neonhub/core-agents';
+import type { Prisma } from '@neonhub/data-model';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import {
+  AlertMetricSchema,
+  keepWebhookSecrets,
+  maskAlertRule,
+  webhookUrlProblem,
+} from '../alerts';
+
+const RuleInputSchema = z.object({
+  name: z.string().min(1).max(200),
+  metric: AlertMetricSchema,
+  // Every campaign and platform when left out, each alerted on separately
+  campaignId: z.string().nullable().optional(),
+  platform: PlatformSchema.nullable().optional(),
+  settings: AlertRuleSettingsSchema.superRefine((settings, ctx) => {
+    settings.channels.forEach((channel, index) => {
+      const problem = channel.type === 'webhook' && webhookUrlProblem(channel.url);
+      if (problem) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['channels', index, 'url'],
+          message: problem,
+        });
+      }
+    });
+  }),
+  enabled: z.boolean().default(true),
+});
+
+export const alertRouter = createTRPCRouter({
+  // Alert rules of the workspace; webhook secrets are never returned
+  listRules: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(z.object({ enabled: z.boolean().optional() }).default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        const rules = await ctx.prisma.alertRule.findMany({
+          where: { ...(input.enabled !== undefined && { enabled: input.enabled }) },
+          include: { campaign: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'desc' },
+        });
+        return rules.map(maskAlertRule);
+      } catch (error) {
+        ctx.logger.error('Failed to fetch alert rules', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch alert rules',
+        });
+      }
+    }),
+
+  // Create a threshold or anomaly rule on a metric
+  createRule: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(RuleInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (
+        input.campaignId &&
+        !(await ctx.prisma.campaign.findFirst({ where: { id: input.campaignId } }))
+      ) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+      }
+
+      try {
+        const rule = await ctx.prisma.alertRule.create({
+          data: {
+            name: input.name,
+            metric: input.metric,
+            campaignId: input.campaignId ?? null,
+            platform: input.platform ?? null,
+            settings: input.settings as Prisma.InputJsonValue,
+            enabled: input.enabled,
+            createdById: ctx.session.user.id,
+            workspaceId: ctx.workspace.id,
+          },
+        });
+        return maskAlertRule(rule);
+      } catch (error) {
+        ctx.logger.error('Failed to create alert rule', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create alert rule',
+        });
+      }
+    }),
+
+  // Change a rule; its cooldowns carry over, as do webhook secrets that are not sent again
+  updateRule: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(z.object({ id: z.string() }).merge(RuleInputSchema.partial()))
+    .mutation(async ({ ctx, input }) => {
+      const { id, settings, ...data } = input;
+      const existing = await ctx.prisma.alertRule.findFirst({ where: { id } });
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Alert rule not found' });
+      }
+      if (
+        data.campaignId &&
+        !(await ctx.prisma.campaign.findFirst({ where: { id: data.campaignId } }))
+      ) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+      }
+
+      try {
+        const rule = await ctx.prisma.alertRule.update({
+          where: { id },
+          data: {
+            ...data,
+            ...(settings && {
+              settings: keepWebhookSecrets(settings, existing.settings) as Prisma.InputJsonValue,
+            }),
+          },
+        });
+        return maskAlertRule(rule);
+      } catch (error) {
+        ctx.logger.error('Failed to update alert rule', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update alert rule',
+        });
+      }
+    }),
+
+  // Delete a rule together with its alerts
+  deleteRule: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await ctx.prisma.alertRule.findFirst({ where: { id: input.id } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Alert rule not found' });
+      }
+
+      try {
+        await ctx.prisma.alertRule.delete({ where: { id: input.id } });
+        return { success: true };
+      } catch (error) {
+        ctx.logger.error('Failed to delete alert rule', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete alert rule',
+        });
+      }
+    }),
+
+  // Raised alerts, newest first
+  list: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(
+      z.object({
+        status: z.enum(['OPEN', 'ACKNOWLEDGED']).optional(),
+        ruleId: z.string().optional(),
+        campaignId: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where = {
+          ...(input.status && { status: input.status }),
+          ...(input.ruleId && { ruleId: input.ruleId }),
+          ...(input.campaignId && { campaignId: input.campaignId }),
+        };
+        const [alerts, total] = await Promise.all([
+          ctx.prisma.alert.findMany({
+            where,
+            include: {
+              rule: { select: { id: true, name: true } },
+              campaign: { select: { id: true, name: true } },
+              acknowledgedBy: { select: { id: true, name: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.alert.count({ where }),
+        ]);
+        return { alerts, total, hasMore: total > input.offset + input.limit };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch alerts', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch alerts',
+        });
+      }
+    }),
+
+  // Mark an alert as handled; its notifications are marked read for everyone
+  acknowledge: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const alert = await ctx.alerts.acknowledge(input.id, ctx.session.user.id, ctx.workspace.id);
+        if (!alert) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Alert not found' });
+        }
+        return alert;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to acknowledge alert', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to acknowledge alert',
+        });
+      }
+    }),
+
+  // Evaluate the workspace's rules now instead of waiting for the worker
+  evaluate: protectedProcedure.use(requirePermission('metrics:write')).mutation(async ({ ctx }) => {
+    try {
+      return await ctx.alerts.evaluateDue({ workspaceId: ctx.workspace.id, force: true });
+    } catch (error) {
+      ctx.logger.error('Failed to evaluate alert rules', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to evaluate alert rules',
+      });
+    }
+  }),
+
+  // Ask the insight agent why an alert's anomaly happened, and keep its answer
+  explain: protectedProcedure
+    .use(requirePermission('agent:execute'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const patternsInput = await ctx.alerts.getIdentifyPatternsInput(input.id, ctx.workspace.id);
+      if (!patternsInput) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Alert not found' });
+      }
+
+      try {
+        const result = await ctx.agents.executeAgent(
+          'insight',
+          'identify_patterns',
+          patternsInput,
+          {
+            priority: 'medium',
+            metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
+          }
+        );
+        const explanation = result.data?.explanations.find(entry => entry.anomalyId === input.id);
+        if (!result.success || !explanation) {
+          throw new Error(result.error ?? 'Insight agent returned no explanation');
+        }
+
+        await ctx.alerts.saveExplanation(input.id, explanation);
+        return { explanation, patterns: result.data?.patterns ?? [] };
+      } catch (error) {
+        ctx.logger.error('Failed to explain alert', {
+          alertId: input.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to explain alert',
+        });
+      }
+    }),
+});
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { ApprovalPolicySchema } from '@neonhub/core-agents';
+import type { Prisma, PrismaClient } from '@neonhub/data-model';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import type { ApprovalDecisionResult } from '../approvals';
+
+const ApprovalStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED', 'EXPIRED']);
+
+function assertDecided(
+  result: ApprovalDecisionResult
+): asserts result is Extract<ApprovalDecisionResult, { decided: true }> {
+  if (result.decided) return;
+
+  switch (result.reason) {
+    case 'not_found':
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Approval not found' });
+    case 'invalid_payload':
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Invalid payload: ${(result.problems ?? []).join('; ')}`,
+      });
+    case 'expired':
+      throw new TRPCError({ code: 'CONFLICT', message: 'Approval has expired' });
+    default:
+      throw new TRPCError({ code: 'CONFLICT', message: 'Approval has already been decided' });
+  }
+}
+
+// The services below use the unscoped client, so check the id against the workspace first
+async function assertInWorkspace(db: PrismaClient, id: string): Promise<void> {
+  const approval = await db.approval.findUnique({ where: { id }, select: { id: true } });
+  if (!approval) throw new TRPCError({ code: 'NOT_FOUND', message: 'Approval not found' });
+}
+
+export const approvalRouter = createTRPCRouter({
+  // List approvals, pending first; managers see the workspace's, other members their own requests
+  list: protectedProcedure
+    .use(requirePermission('approval:read'))
+    .input(
+      z.object({
+        status: ApprovalStatusSchema.optional(),
+        campaignId: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { role } = ctx.workspace;
+        const isManager = role === 'ADMIN' || role === 'MANAGER';
+
+        const where: Prisma.ApprovalWhereInput = {
+          ...(input.status && { status: input.status }),
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          ...(!isManager && { requestedById: ctx.session.user.id }),
+        };
+
+        const [approvals, total] = await Promise.all([
+          ctx.prisma.approval.findMany({
+            where,
+            include: {
+              campaign: { select: { id: true, name: true } },
+              requestedBy: { select: { id: true, name: true, email: true } },
+              decidedBy: { select: { id: true, name: true, email: true } },
+            },
+            orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.approval.count({ where }),
+        ]);
+
+        return {
+          approvals,
+          total,
+          hasMore: input.offset + input.limit < total,
+        };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch approvals', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch approvals',
+        });
+      }
+    }),
+
+  // Get an approval with its audit trail
+  getById: protectedProcedure
+    .use(requirePermission('approval:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const approval = await ctx.prisma.approval.findUnique({
+        where: { id: input.id },
+        include: {
+          campaign: { select: { id: true, name: true } },
+          execution: { select: { id: true, status: true, task: true } },
+          workflowRun: { select: { id: true, name: true, status: true } },
+          events: {
+            include: { actor: { select: { id: true, name: true, email: true } } },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      if (!approval) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Approval not found',
+        });
+      }
+
+      return approval;
+    }),
+
+  // Approve an action, optionally with an edited payload; the action runs afterwards
+  approve: protectedProcedure
+    .use(requirePermission('approval:decide'))
+    .input(z.object({ id: z.string(), payload: z.record(z.any()).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertInWorkspace(ctx.prisma, input.id);
+        const result = await ctx.approvals.approve(input.id, ctx.session.user.id, {
+          ...(input.payload && { payload: input.payload }),
+        });
+        assertDecided(result);
+
+        ctx.logger.info('Approval granted', {
+          approvalId: input.id,
+          edited: input.payload !== undefined,
+          userId: ctx.session.user.id,
+        });
+        return result.approval;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to approve action', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to approve action',
+        });
+      }
+    }),
+
+  // Reject an action; it never runs
+  reject: protectedProcedure
+    .use(requirePermission('approval:decide'))
+    .input(z.object({ id: z.string(), reason: z.string().max(500).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertInWorkspace(ctx.prisma, input.id);
+        const result = await ctx.approvals.reject(input.id, ctx.session.user.id, input.reason);
+        assertDecided(result);
+
+        ctx.logger.info('Approval rejected', {
+          approvalId: input.id,
+          userId: ctx.session.user.id,
+        });
+        return result.approval;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to reject action', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to reject action',
+        });
+      }
+    }),
+
+  // Get the auto-approve policy of a campaign
+  getPolicy: protectedProcedure
+    .use(requirePermission('approval:read'))
+    .input(z.object({ campaignId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const campaign = await ctx.prisma.campaign.findUnique({
+        where: { id: input.campaignId },
+        select: { id: true },
+      });
+      if (!campaign) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Campaign not found',
+        });
+      }
+
+      const policy = await ctx.approvals.getPolicy(input.campaignId);
+      return policy ?? ApprovalPolicySchema.parse({});
+    }),
+
+  // Replace the auto-approve policy of a campaign
+  setPolicy: protectedProcedure
+    .use(requirePermission('approval:policy'))
+    .input(z.object({ campaignId: z.string(), policy: ApprovalPolicySchema }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const campaign = await ctx.prisma.campaign.findUnique({
+          where: { id: input.campaignId },
+          select: { id: true },
+        });
+        if (!campaign) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Campaign not found',
+          });
+        }
+
+        return await ctx.approvals.setPolicy(input.campaignId, input.policy, ctx.session.user.id);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to update approval policy', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update approval policy',
+        });
+      }
+    }),
+});
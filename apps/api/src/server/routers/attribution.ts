@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { AttributionModelSchema, AttributionSettingsSchema } from '@neonhub/core-agents';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import { rangeStart, TimeZoneSchema } from '../metric-rollups';
+
+const TIME_RANGE_DAYS = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+} as const;
+
+const RangeInputSchema = z.object({
+  timeRange: z.enum(['7d', '30d', '90d']).default('30d'),
+  timeZone: TimeZoneSchema,
+  settings: AttributionSettingsSchema.partial().optional(),
+});
+
+export const attributionRouter = createTRPCRouter({
+  // Conversions and revenue credited to campaigns, platforms and content under one model
+  getReport: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(RangeInputSchema.extend({ model: AttributionModelSchema.default('data_driven') }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const reports = await ctx.attribution.report(ctx.workspace.id, [input.model], {
+          from: rangeStart(TIME_RANGE_DAYS[input.timeRange], input.timeZone),
+          to: new Date(),
+          ...(input.settings && { settings: input.settings }),
+        });
+        return reports[input.model];
+      } catch (error) {
+        ctx.logger.error('Failed to build attribution report', {
+          model: input.model,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to build attribution report',
+        });
+      }
+    }),
+
+  // The same range under several models, computed from the same journeys
+  compareModels: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(
+      RangeInputSchema.extend({
+        models: z.array(AttributionModelSchema).min(1).default(AttributionModelSchema.options),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.attribution.report(ctx.workspace.id, [...new Set(input.models)], {
+          from: rangeStart(TIME_RANGE_DAYS[input.timeRange], input.timeZone),
+          to: new Date(),
+          ...(input.settings && { settings: input.settings }),
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to compare attribution models', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to compare attribution models',
+        });
+      }
+    }),
+});
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import type { AuditQuery } from '../audit';
+
+const AuditFilterSchema = z.object({
+  actorId: z.string().optional(),
+  actorType: z.enum(['USER', 'AGENT', 'SYSTEM']).optional(),
+  procedure: z.string().min(1).optional(),
+  targetId: z.string().optional(),
+  outcome: z.enum(['SUCCESS', 'FAILURE']).optional(),
+  from: z.date().optional(),
+  to: z.date().optional(),
+});
+
+function toQuery(workspaceId: string, filter: z.infer<typeof AuditFilterSchema>): AuditQuery {
+  return {
+    workspaceId,
+    ...(filter.actorId && { actorId: filter.actorId }),
+    ...(filter.actorType && { actorType: filter.actorType }),
+    ...(filter.procedure && { procedure: filter.procedure }),
+    ...(filter.targetId && { targetId: filter.targetId }),
+    ...(filter.outcome && { outcome: filter.outcome }),
+    ...(filter.from && { from: filter.from }),
+    ...(filter.to && { to: filter.to }),
+  };
+}
+
+export const auditRouter = createTRPCRouter({
+  // Audit log of the current workspace, newest first
+  list: protectedProcedure
+    .use(requirePermission('audit:view'))
+    .input(
+      AuditFilterSchema.extend({
+        limit: z.number().int().min(1).max(200).default(50),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { limit, offset, ...filter } = input;
+      try {
+        return await ctx.audit.query(toQuery(ctx.workspace.id, filter), { limit, offset });
+      } catch (error) {
+        ctx.logger.error('Failed to fetch audit log', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch audit log',
+        });
+      }
+    }),
+
+  // Download matching entries as CSV or JSON lines
+  export: protectedProcedure
+    .use(requirePermission('audit:export'))
+    .input(AuditFilterSchema.extend({ format: z.enum(['csv', 'json']).default('csv') }))
+    .mutation(async ({ ctx, input }) => {
+      const { format, ...filter } = input;
+      try {
+        return await ctx.audit.export(toQuery(ctx.workspace.id, filter), format);
+      } catch (error) {
+        ctx.logger.error('Failed to export audit log', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to export audit log',
+        });
+      }
+    }),
+
+  // How long entries are kept before the worker deletes them
+  getRetention: protectedProcedure
+    .use(requirePermission('audit:view'))
+    .query(({ ctx }) => ({ retentionDays: ctx.audit.retentionDays })),
+});
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { Context } from '../trpc';
+import { createTRPCRouter, protectedProcedure, publicProcedure } from '../trpc';
+
+const PasswordSchema = z.string().min(8).max(128);
+
+/**
+ * Hand the session token to browsers as an httpOnly cookie; API clients use
+ * the returned token as a bearer token instead.
+ */
+function setSessionCookie(ctx: Context, token: string, expires: Date): void {
+  ctx.res.setHeader('Set-Cookie', ctx.auth.sessionCookie(token, expires));
+}
+
+export const authRouter = createTRPCRouter({
+  // The current session, or null when signed out
+  getSession: publicProcedure.query(({ ctx }) => ctx.session),
+
+  // Email a sign-in link; the account is created when the link is used
+  requestMagicLink: publicProcedure
+    .input(z.object({ email: z.string().email(), callbackUrl: z.string().url().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ctx.auth.requestMagicLink(input.email, input.callbackUrl);
+        // Same answer whether or not the address has an account
+        return { sent: true };
+      } catch (error) {
+        ctx.logger.error('Failed to send magic link', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to send sign-in link',
+        });
+      }
+    }),
+
+  // Sign in with the token from a magic link
+  verifyMagicLink: publicProcedure
+    .input(z.object({ email: z.string().email(), token: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.auth.verifyMagicLink(input.email, input.token);
+      if (!result) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Sign-in link is invalid or has expired',
+        });
+      }
+
+      setSessionCookie(ctx, result.sessionToken, result.expires);
+      return result;
+    }),
+
+  // Create an account with a password
+  register: publicProcedure
+    .input(
+      z.object({
+        email: z.string().email(),
+        password: PasswordSchema,
+        name: z.string().min(1).max(100).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await ctx.auth.register(input.email, input.password, input.name);
+        if (!result.registered) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'An account with this email already exists',
+          });
+        }
+
+        setSessionCookie(ctx, result.sessionToken, result.expires);
+        return { user: result.user, sessionToken: result.sessionToken, expires: result.expires };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to register user', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to register',
+        });
+      }
+    }),
+
+  // Sign in with email and password
+  signIn: publicProcedure
+    .input(z.object({ email: z.string().email(), password: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.auth.signInWithPassword(input.email, input.password);
+      if (!result) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Invalid email or password',
+        });
+      }
+
+      setSessionCookie(ctx, result.sessionToken, result.expires);
+      return result;
+    }),
+
+  // End the current session
+  signOut: protectedProcedure.mutation(async ({ ctx }) => {
+    const token = ctx.auth.readToken(ctx.req);
+    if (token) await ctx.auth.signOut(token);
+
+    setSessionCookie(ctx, '', new Date(0));
+    return { success: true };
+  }),
+
+  // Set or change the password of the signed-in user
+  setPassword: protectedProcedure
+    .input(z.object({ password: PasswordSchema }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ctx.auth.setPassword(ctx.session.user.id, input.password);
+        return { success: true };
+      } catch (error) {
+        ctx.logger.error('Failed to set password', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to set password',
+        });
+      }
+    }),
+});
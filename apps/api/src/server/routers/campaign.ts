@@ -1,21 +1,68 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { CAMPAIGN_STATUSES, CAMPAIGN_TRANSITIONS } from '@neonhub/core-agents';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import type { BudgetChangeFailure } from '../budget-ledger';
+import type { CampaignTransitionResult } from '../campaign-lifecycle';
+
+const PlatformSchema = z.enum([
+  'FACEBOOK',
+  'INSTAGRAM',
+  'TIKTOK',
+  'TWITTER',
+  'LINKEDIN',
+  'YOUTUBE',
+  'EMAIL',
+  'WEBSITE',
+  'SHOPIFY',
+  'GOOGLE_ADS',
+  'META_ADS',
+]);
+
+function assertTransitioned(
+  result: CampaignTransitionResult
+): asserts result is Extract<CampaignTransitionResult, { changed: true }> {
+  if (result.changed) return;
+
+  switch (result.reason) {
+    case 'not_found':
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+    case 'conflict':
+      throw new TRPCError({ code: 'CONFLICT', message: result.problems.join('; ') });
+    default:
+      throw new TRPCError({ code: 'BAD_REQUEST', message: result.problems.join('; ') });
+  }
+}
+
+function assertBudgetChanged<Result extends { changed: boolean }>(
+  result: Result | BudgetChangeFailure
+): asserts result is Exclude<Result, BudgetChangeFailure> {
+  if (!('reason' in result)) return;
+
+  switch (result.reason) {
+    case 'not_found':
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+    case 'duplicate':
+      throw new TRPCError({ code: 'CONFLICT', message: result.problems.join('; ') });
+    default:
+      throw new TRPCError({ code: 'BAD_REQUEST', message: result.problems.join('; ') });
+  }
+}
 
 export const campaignRouter = createTRPCRouter({
   // Get all campaigns
-  getAll: protectedProcedure
+  getAll: protectedProcedure.use(requirePermission('campaign:read'))
     .input(
       z.object({
         limit: z.number().min(1).max(100).default(20),
         offset: z.number().min(0).default(0),
         type: z.enum(['SOCIAL_MEDIA', 'EMAIL', 'ADS', 'CONTENT', 'INFLUENCER', 'EVENT', 'PRODUCT_LAUNCH']).optional(),
-        status: z.enum(['DRAFT', 'ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED']).optional(),
+        status: z.enum(CAMPAIGN_STATUSES).optional(),
       })
     )
     .query(async ({ ctx, input }) => {
       try {
-        const where: any = { userId: ctx.session.user.id };
+        const where: any = {};
         if (input.type) where.type = input.type;
         if (input.status) where.status = input.status;
 
@@ -53,15 +100,12 @@ export const campaignRouter = createTRPCRouter({
     }),
 
   // Get campaign by ID
-  getById: protectedProcedure
+  getById: protectedProcedure.use(requirePermission('campaign:read'))
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
         const campaign = await ctx.prisma.campaign.findFirst({
-          where: { 
-            id: input.id,
-            userId: ctx.session.user.id,
-          },
+          where: { id: input.id },
           include: {
             agentExecutions: {
               include: { agent: true },
@@ -71,6 +115,10 @@ export const campaignRouter = createTRPCRouter({
               orderBy: { date: 'desc' },
             },
             abTests: true,
+            workflowRuns: {
+              orderBy: { createdAt: 'desc' },
+              take: 10,
+            },
           },
         });
 
@@ -81,7 +129,7 @@ export const campaignRouter = createTRPCRouter({
           });
         }
 
-        return campaign;
+        return { ...campaign, allowedTransitions: CAMPAIGN_TRANSITIONS[campaign.status] };
       } catch (error) {
         ctx.logger.error('Failed to fetch campaign:', error);
         throw new TRPCError({
@@ -92,7 +140,7 @@ export const campaignRouter = createTRPCRouter({
     }),
 
   // Create new campaign
-  create: protectedProcedure
+  create: protectedProcedure.use(requirePermission('campaign:write'))
     .input(
       z.object({
         name: z.string().min(1).max(200),
@@ -116,6 +164,8 @@ export const campaignRouter = createTRPCRouter({
           },
         });
 
+        await ctx.activity.recordCampaignCreated(campaign, ctx.session.user.id);
+
         ctx.logger.info(`Campaign created: ${campaign.name}`, {
           campaignId: campaign.id,
           userId: ctx.session.user.id,
@@ -132,7 +182,7 @@ export const campaignRouter = createTRPCRouter({
     }),
 
   // Update campaign
-  update: protectedProcedure
+  update: protectedProcedure.use(requirePermission('campaign:write'))
     .input(
       z.object({
         id: z.string(),
@@ -144,32 +194,31 @@ export const campaignRouter = createTRPCRouter({
         targetAudience: z.record(z.any()).optional(),
         platforms: z.array(z.enum(['FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'TWITTER', 'LINKEDIN', 'YOUTUBE', 'EMAIL', 'WEBSITE', 'SHOPIFY', 'GOOGLE_ADS', 'META_ADS'])).optional(),
         settings: z.record(z.any()).optional(),
-        status: z.enum(['DRAFT', 'ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED']).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       try {
         const { id, ...updateData } = input;
 
-        const campaign = await ctx.prisma.campaign.updateMany({
-          where: { 
-            id,
-            userId: ctx.session.user.id,
-          },
-          data: updateData,
+        const previous = await ctx.prisma.campaign.findUnique({
+          where: { id },
         });
 
-        if (campaign.count === 0) {
+        if (!previous) {
           throw new TRPCError({
             code: 'NOT_FOUND',
             message: 'Campaign not found',
           });
         }
 
-        const updatedCampaign = await ctx.prisma.campaign.findUnique({
+        const updatedCampaign = await ctx.prisma.campaign.update({
           where: { id },
+          data: updateData,
         });
 
+        // Budget edits show up in the campaign's activity feed
+        await ctx.activity.recordCampaignUpdate(previous, updatedCampaign, ctx.session.user.id);
+
         ctx.logger.info(`Campaign updated: ${id}`, {
           campaignId: id,
           userId: ctx.session.user.id,
@@ -177,6 +226,7 @@ export const campaignRouter = createTRPCRouter({
 
         return updatedCampaign;
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         ctx.logger.error('Failed to update campaign:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -185,16 +235,192 @@ export const campaignRouter = createTRPCRouter({
       }
     }),
 
+  // Move a campaign to another status; pausing and cancelling hold or cancel its queued work
+  transition: protectedProcedure
+    .use(requirePermission('campaign:write'))
+    .input(z.object({ id: z.string(), status: z.enum(CAMPAIGN_STATUSES) }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.campaignLifecycle.transition(input.id, input.status, {
+        workspaceId: ctx.workspace.id,
+        actorId: ctx.session.user.id,
+      });
+      assertTransitioned(result);
+
+      return {
+        ...result.campaign,
+        allowedTransitions: CAMPAIGN_TRANSITIONS[result.campaign.status],
+        effects: result.effects,
+      };
+    }),
+
+  // Budget ledger: allocations, spend, pacing, burn-down and overspend alerts
+  getBudget: protectedProcedure
+    .use(requirePermission('campaign:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const ledger = await ctx.budgetLedger.getLedger(input.id, { workspaceId: ctx.workspace.id });
+        if (!ledger) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+        }
+        return ledger;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to fetch campaign budget', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch campaign budget',
+        });
+      }
+    }),
+
+  // Recorded spend of a campaign, newest first
+  getSpend: protectedProcedure
+    .use(requirePermission('campaign:read'))
+    .input(
+      z.object({
+        id: z.string(),
+        platform: PlatformSchema.optional(),
+        limit: z.number().int().min(1).max(200).default(50),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.budgetLedger.listSpend(input.id, {
+          limit: input.limit,
+          offset: input.offset,
+          workspaceId: ctx.workspace.id,
+          ...(input.platform && { platform: input.platform }),
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to fetch campaign spend', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch campaign spend',
+        });
+      }
+    }),
+
+  // Split the campaign budget between platforms; platforms left out lose their allocation
+  setBudgetAllocations: protectedProcedure
+    .use(requirePermission('campaign:budget'))
+    .input(
+      z.object({
+        id: z.string(),
+        allocations: z.array(z.object({ platform: PlatformSchema, amount: z.number().min(0) })),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.budgetLedger.setAllocations(input.id, input.allocations, {
+        workspaceId: ctx.workspace.id,
+        actorId: ctx.session.user.id,
+      });
+      assertBudgetChanged(result);
+      return result.summary;
+    }),
+
+  // Record money spent on a platform; overspend shows up as an alert in the activity feed
+  recordSpend: protectedProcedure
+    .use(requirePermission('campaign:write'))
+    .input(
+      z.object({
+        id: z.string(),
+        platform: PlatformSchema,
+        amount: z.number().positive(),
+        revenue: z.number().min(0).optional(),
+        spentAt: z.date().optional(),
+        source: z.string().min(1).max(50).optional(),
+        externalId: z.string().min(1).optional(),
+        note: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...entry } = input;
+      const result = await ctx.budgetLedger.recordSpend(id, entry, {
+        workspaceId: ctx.workspace.id,
+        actorId: ctx.session.user.id,
+      });
+      assertBudgetChanged(result);
+      return { entry: result.entry, summary: result.summary, alerts: result.alerts };
+    }),
+
+  // Ask the ad agent to shift budget towards the platforms with the best ROAS; needs approval
+  rebalanceBudget: protectedProcedure
+    .use(requirePermission('campaign:budget'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const payload = await ctx.budgetLedger.getManageBudgetInput(input.id, {
+          workspaceId: ctx.workspace.id,
+        });
+        if (!payload) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+        }
+        if (payload.platforms.length < 2) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Campaign needs at least two platforms to rebalance between',
+          });
+        }
+
+        const agent = ctx.agents.resolveAgent('ad');
+        if (!agent) {
+          throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'No ad agent is active' });
+        }
+
+        const { execution, approval } = await ctx.approvals.enqueueExecution({
+          agentId: agent.id,
+          agentType: agent.type,
+          sideEffect: 'spend',
+          task: 'manage_budget',
+          payload: { ...payload },
+          campaignId: input.id,
+          userId: ctx.session.user.id,
+          workspaceId: ctx.workspace.id,
+        });
+
+        ctx.logger.info(`Budget rebalance queued for campaign ${input.id}`, {
+          executionId: execution.id,
+          approvalId: approval.id,
+        });
+        return { execution, approval };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to queue budget rebalance', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to queue budget rebalance',
+        });
+      }
+    }),
+
+  // Apply the allocation a completed rebalance recommended
+  applyBudgetReallocation: protectedProcedure
+    .use(requirePermission('campaign:budget'))
+    .input(z.object({ id: z.string(), executionId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.budgetLedger.applyReallocation(input.id, input.executionId, {
+        workspaceId: ctx.workspace.id,
+        actorId: ctx.session.user.id,
+      });
+      assertBudgetChanged(result);
+      return result.summary;
+    }),
+
   // Delete campaign
-  delete: protectedProcedure
+  delete: protectedProcedure.use(requirePermission('campaign:delete'))
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       try {
         const campaign = await ctx.prisma.campaign.deleteMany({
-          where: { 
-            id: input.id,
-            userId: ctx.session.user.id,
-          },
+          where: { id: input.id },
         });
 
         if (campaign.count === 0) {
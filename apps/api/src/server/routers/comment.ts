@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { hasPermission } from '../permissions';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import type { CommentChangeResult } from '../comments';
+
+const CommentTargetSchema = z.object({
+  type: z.enum(['campaign', 'content', 'abTest']),
+  id: z.string(),
+});
+
+const CommentBodySchema = z.string().trim().min(1).max(5000);
+
+function assertChanged(
+  result: CommentChangeResult
+): asserts result is Extract<CommentChangeResult, { changed: true }> {
+  if (result.changed) return;
+
+  if (result.reason === 'forbidden') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only the author or a moderator can change this comment',
+    });
+  }
+  throw new TRPCError({ code: 'NOT_FOUND', message: 'Comment not found' });
+}
+
+export const commentRouter = createTRPCRouter({
+  // Comment threads on a campaign, content item or A/B test
+  list: protectedProcedure
+    .use(requirePermission('comment:read'))
+    .input(z.object({ target: CommentTargetSchema }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.comments.list(ctx.workspace.id, input.target);
+      } catch (error) {
+        ctx.logger.error('Failed to fetch comments', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch comments',
+        });
+      }
+    }),
+
+  // Start a thread on a target, or reply to a comment
+  create: protectedProcedure
+    .use(requirePermission('comment:write'))
+    .input(
+      z
+        .object({
+          target: CommentTargetSchema.optional(),
+          parentId: z.string().optional(),
+          body: CommentBodySchema,
+        })
+        .refine(input => input.target || input.parentId, {
+          message: 'Either target or parentId is required',
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.comments.create({
+        workspaceId: ctx.workspace.id,
+        authorId: ctx.session.user.id,
+        body: input.body,
+        ...(input.target && { target: input.target }),
+        ...(input.parentId && { parentId: input.parentId }),
+      });
+      assertChanged(result);
+      return result.comment;
+    }),
+
+  // Edit a comment; moderators can edit anyone's
+  update: protectedProcedure
+    .use(requirePermission('comment:write'))
+    .input(z.object({ id: z.string(), body: CommentBodySchema }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.comments.update({
+        workspaceId: ctx.workspace.id,
+        id: input.id,
+        userId: ctx.session.user.id,
+        body: input.body,
+        canModerate: hasPermission(ctx.workspace.role, 'comment:moderate'),
+      });
+      assertChanged(result);
+      return result.comment;
+    }),
+
+  // Delete a comment; replies stay in the thread
+  delete: protectedProcedure
+    .use(requirePermission('comment:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.comments.remove({
+        workspaceId: ctx.workspace.id,
+        id: input.id,
+        userId: ctx.session.user.id,
+        canModerate: hasPermission(ctx.workspace.role, 'comment:moderate'),
+      });
+      assertChanged(result);
+
+      ctx.logger.info('Comment deleted', {
+        commentId: input.id,
+        userId: ctx.session.user.id,
+      });
+      return { success: true };
+    }),
+
+  // Recent comments that mention the current user
+  getMentions: protectedProcedure
+    .use(requirePermission('comment:read'))
+    .input(z.object({ limit: z.number().int().min(1).max(100).default(20) }))
+    .query(({ ctx, input }) =>
+      ctx.comments.listMentions(ctx.workspace.id, ctx.session.user.id, input.limit)
+    ),
+});
@@ -1,13 +1,10 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
-import { AgentManager } from '@neonhub/core-agents';
-
-const agentManager = new AgentManager();
 
 export const contentRouter = createTRPCRouter({
   // Generate social media posts
-  generatePost: protectedProcedure
+  generatePost: protectedProcedure.use(requirePermission('content:write'))
     .input(
       z.object({
         platform: z.enum(['FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'TWITTER', 'LINKEDIN']),
@@ -17,24 +14,37 @@ export const contentRouter = createTRPCRouter({
         includeHashtags: z.boolean().default(true),
         targetAudience: z.string().optional(),
         campaignId: z.string().optional(),
+        brandId: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      if (input.brandId && !(await ctx.prisma.brand.findUnique({ where: { id: input.brandId } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Brand not found' });
+      }
+
       try {
         // Execute content agent
-        const result = await agentManager.executeAgent('content-agent', {
-          task: 'generate_posts',
-          context: {
+        const result = await ctx.agents.executeAgent(
+          'content',
+          'generate_posts',
+          {
             platform: input.platform,
             topic: input.topic,
             tone: input.tone,
             length: input.length,
             includeHashtags: input.includeHashtags,
             targetAudience: input.targetAudience,
+            brandId: input.brandId,
           },
-          priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
-        });
+          {
+            priority: 'medium',
+            metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
+          }
+        );
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Content agent returned no content');
+        }
 
         // Save generated content to database
         const content = await ctx.prisma.content.create({
@@ -73,7 +83,7 @@ export const contentRouter = createTRPCRouter({
     }),
 
   // Generate email content
-  generateEmail: protectedProcedure
+  generateEmail: protectedProcedure.use(requirePermission('content:write'))
     .input(
       z.object({
         type: z.enum(['newsletter', 'promotional', 'welcome', 'follow-up']),
@@ -82,17 +92,24 @@ export const contentRouter = createTRPCRouter({
         tone: z.enum(['professional', 'casual', 'friendly', 'urgent']).default('professional'),
         includeCtaButton: z.boolean().default(true),
         campaignId: z.string().optional(),
+        brandId: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      if (input.brandId && !(await ctx.prisma.brand.findUnique({ where: { id: input.brandId } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Brand not found' });
+      }
+
       try {
-        const result = await agentManager.executeAgent('content-agent', {
-          task: 'write_emails',
-          context: input,
+        const result = await ctx.agents.executeAgent('content', 'write_emails', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Content agent returned no content');
+        }
+
         const content = await ctx.prisma.content.create({
           data: {
             title: input.subject || `Generated Email - ${input.type}`,
@@ -123,15 +140,20 @@ export const contentRouter = createTRPCRouter({
     }),
 
   // Optimize existing content
-  optimizeContent: protectedProcedure
+  optimizeContent: protectedProcedure.use(requirePermission('content:write'))
     .input(
       z.object({
         contentId: z.string(),
         optimizationGoal: z.enum(['engagement', 'conversions', 'reach', 'clicks']),
         additionalInstructions: z.string().optional(),
+        brandId: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      if (input.brandId && !(await ctx.prisma.brand.findUnique({ where: { id: input.brandId } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Brand not found' });
+      }
+
       try {
         // Get existing content
         const existingContent = await ctx.prisma.content.findUnique({
@@ -145,17 +167,25 @@ export const contentRouter = createTRPCRouter({
           });
         }
 
-        const result = await agentManager.executeAgent('content-agent', {
-          task: 'optimize_content',
-          context: {
+        const result = await ctx.agents.executeAgent(
+          'content',
+          'optimize_content',
+          {
             originalContent: existingContent.content,
             goal: input.optimizationGoal,
             platform: existingContent.platform,
             instructions: input.additionalInstructions,
+            brandId: input.brandId,
           },
-          priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
-        });
+          {
+            priority: 'medium',
+            metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
+          }
+        );
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Content agent returned no content');
+        }
 
         // Create optimized version
         const optimizedContent = await ctx.prisma.content.create({
@@ -190,7 +220,7 @@ export const contentRouter = createTRPCRouter({
     }),
 
   // Get all content
-  getAll: protectedProcedure
+  getAll: protectedProcedure.use(requirePermission('content:read'))
     .input(
       z.object({
         limit: z.number().min(1).max(100).default(20),
@@ -232,7 +262,7 @@ export const contentRouter = createTRPCRouter({
     }),
 
   // Get content by ID
-  getById: protectedProcedure
+  getById: protectedProcedure.use(requirePermission('content:read'))
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -259,7 +289,7 @@ export const contentRouter = createTRPCRouter({
     }),
 
   // Update content status
-  updateStatus: protectedProcedure
+  updateStatus: protectedProcedure.use(requirePermission('content:write'))
     .input(
       z.object({
         id: z.string(),
@@ -1,13 +1,20 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
-import { AgentManager } from '@neonhub/core-agents';
+import { percentage, roundMetric } from '@neonhub/utils';
+import { rangeStart, TimeZoneSchema, type MetricSelector } from '../metric-rollups';
 
-const agentManager = new AgentManager();
+// Email performance is reported as PERFORMANCE events tagged `email_performance`
+const EMAIL_METRICS = Object.fromEntries(
+  ['sent', 'delivered', 'opened', 'clicked', 'bounced', 'unsubscribed'].map(metric => [
+    metric,
+    { type: 'PERFORMANCE', metric: `email_performance.${metric}` },
+  ])
+) as Record<'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'unsubscribed', MetricSelector>;
 
 export const emailRouter = createTRPCRouter({
-  // Send email campaign
-  sendCampaign: protectedProcedure
+  // Send email campaign once a manager approves it
+  sendCampaign: protectedProcedure.use(requirePermission('email:send'))
     .input(
       z.object({
         campaignId: z.string(),
@@ -31,10 +38,7 @@ export const emailRouter = createTRPCRouter({
       try {
         // Verify campaign ownership
         const campaign = await ctx.prisma.campaign.findFirst({
-          where: {
-            id: input.campaignId,
-            userId: ctx.session.user.id,
-          },
+          where: { id: input.campaignId },
         });
 
         if (!campaign) {
@@ -44,21 +48,31 @@ export const emailRouter = createTRPCRouter({
           });
         }
 
-        const result = await agentManager.executeAgent('email-agent', {
+        const agent = ctx.agents.resolveAgent('email');
+        if (!agent) {
+          throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'No email agent is active' });
+        }
+
+        // Sending contacts customers, so the campaign waits for a manager's approval
+        const { execution, approval } = await ctx.approvals.enqueueExecution({
+          agentId: agent.id,
+          agentType: agent.type,
+          sideEffect: 'contact',
           task: 'send_campaign',
-          context: {
+          payload: {
             template: input.emailTemplate,
             recipients: input.recipients,
-            scheduleAt: input.scheduleAt,
+            ...(input.scheduleAt && { scheduleAt: input.scheduleAt.toISOString() }),
             testMode: input.testMode,
             campaignId: input.campaignId,
           },
-          priority: 'high',
-          metadata: { userId: ctx.session.user.id },
+          campaignId: input.campaignId,
+          userId: ctx.session.user.id,
+          workspaceId: ctx.workspace.id,
         });
 
         // Record analytics
-        await ctx.prisma.analytics.create({
+        const analytics = await ctx.prisma.analytics.create({
           data: {
             userId: ctx.session.user.id,
             campaignId: input.campaignId,
@@ -69,27 +83,30 @@ export const emailRouter = createTRPCRouter({
               subject: input.emailTemplate.subject,
               scheduled: input.scheduleAt ? true : false,
               testMode: input.testMode,
-              result: result.data,
+              executionId: execution.id,
             },
           },
         });
 
-        ctx.logger.info('Email campaign sent', {
+        await ctx.rollups.apply([analytics]);
+
+        ctx.logger.info('Email campaign queued for approval', {
           campaignId: input.campaignId,
           recipientCount: input.recipients.length,
           testMode: input.testMode,
+          executionId: execution.id,
+          approvalId: approval.id,
           userId: ctx.session.user.id,
         });
 
         return {
-          success: result.success,
           campaignId: input.campaignId,
-          sentCount: result.data?.sentCount || 0,
-          failedCount: result.data?.failedCount || 0,
           scheduledFor: input.scheduleAt,
-          agentResult: result,
+          execution,
+          approval,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         ctx.logger.error('Failed to send email campaign', { error: errorMessage });
         throw new TRPCError({
@@ -100,7 +117,7 @@ export const emailRouter = createTRPCRouter({
     }),
 
   // Generate email template
-  generateTemplate: protectedProcedure
+  generateTemplate: protectedProcedure.use(requirePermission('email:write'))
     .input(
       z.object({
         type: z.enum(['newsletter', 'promotional', 'welcome', 'follow-up', 'reminder', 'announcement']),
@@ -123,18 +140,20 @@ export const emailRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('email-agent', {
-          task: 'generate_template',
-          context: input,
+        const result = await ctx.agents.executeAgent('email', 'generate_template', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Email agent returned no result');
+        }
+
         return {
-          htmlTemplate: result.data?.htmlTemplate || '',
-          textTemplate: result.data?.textTemplate || '',
-          subject: result.data?.subject || input.content.headline,
-          previewText: result.data?.previewText || '',
+          htmlTemplate: result.data.htmlTemplate,
+          textTemplate: result.data.textTemplate,
+          subject: result.data.subject,
+          previewText: result.data.previewText,
           agentResult: result,
         };
       } catch (error) {
@@ -148,7 +167,7 @@ export const emailRouter = createTRPCRouter({
     }),
 
   // Create email sequence
-  createSequence: protectedProcedure
+  createSequence: protectedProcedure.use(requirePermission('email:write'))
     .input(
       z.object({
         name: z.string().min(1).max(200),
@@ -164,15 +183,17 @@ export const emailRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('email-agent', {
-          task: 'create_sequence',
-          context: input,
+        const result = await ctx.agents.executeAgent('email', 'create_sequence', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Email agent returned no result');
+        }
+
         // Store sequence configuration
-        await ctx.prisma.analytics.create({
+        const analytics = await ctx.prisma.analytics.create({
           data: {
             userId: ctx.session.user.id,
             campaignId: input.campaignId,
@@ -188,8 +209,10 @@ export const emailRouter = createTRPCRouter({
           },
         });
 
+        await ctx.rollups.apply([analytics]);
+
         return {
-          sequenceId: result.data?.sequenceId || '',
+          sequenceId: result.data.sequenceId,
           emailCount: input.emails.length,
           trigger: input.trigger,
           agentResult: result,
@@ -205,12 +228,13 @@ export const emailRouter = createTRPCRouter({
     }),
 
   // Track email performance
-  trackPerformance: protectedProcedure
+  trackPerformance: protectedProcedure.use(requirePermission('email:read'))
     .input(
       z.object({
         campaignId: z.string().optional(),
         emailId: z.string().optional(),
         timeRange: z.enum(['7d', '30d', '90d']).default('30d'),
+        timeZone: TimeZoneSchema,
       })
     )
     .query(async ({ ctx, input }) => {
@@ -221,66 +245,31 @@ export const emailRouter = createTRPCRouter({
           '90d': 90,
         }[input.timeRange];
 
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - daysAgo);
-
-        const where: any = {
-          userId: ctx.session.user.id,
-          date: { gte: startDate },
-          data: {
-            path: ['type'],
-            equals: 'email_performance',
-          },
-        };
-
-        if (input.campaignId) {
-          where.campaignId = input.campaignId;
-        }
-
-        const analytics = await ctx.prisma.analytics.findMany({
-          where,
-          orderBy: { date: 'desc' },
-        });
-
-        // Aggregate performance metrics
-        const performance = analytics.reduce((acc, analytic) => {
-          const data = analytic.data as any;
-          acc.sent += data.sent || 0;
-          acc.delivered += data.delivered || 0;
-          acc.opened += data.opened || 0;
-          acc.clicked += data.clicked || 0;
-          acc.bounced += data.bounced || 0;
-          acc.unsubscribed += data.unsubscribed || 0;
-          return acc;
-        }, {
-          sent: 0,
-          delivered: 0,
-          opened: 0,
-          clicked: 0,
-          bounced: 0,
-          unsubscribed: 0,
+        const rollup = await ctx.rollups.query(ctx.workspace.id, {
+          from: rangeStart(daysAgo, input.timeZone),
+          to: new Date(),
+          size: 'day',
+          timeZone: input.timeZone,
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          metrics: EMAIL_METRICS,
         });
-
-        // Calculate rates
-        const deliveryRate = performance.sent > 0 ? (performance.delivered / performance.sent) * 100 : 0;
-        const openRate = performance.delivered > 0 ? (performance.opened / performance.delivered) * 100 : 0;
-        const clickRate = performance.delivered > 0 ? (performance.clicked / performance.delivered) * 100 : 0;
-        const bounceRate = performance.sent > 0 ? (performance.bounced / performance.sent) * 100 : 0;
-        const unsubscribeRate = performance.delivered > 0 ? (performance.unsubscribed / performance.delivered) * 100 : 0;
+        const performance = rollup.totals;
 
         return {
           timeRange: input.timeRange,
           performance,
+          // Null until something was sent or delivered
           rates: {
-            delivery: Math.round(deliveryRate * 100) / 100,
-            open: Math.round(openRate * 100) / 100,
-            click: Math.round(clickRate * 100) / 100,
-            bounce: Math.round(bounceRate * 100) / 100,
-            unsubscribe: Math.round(unsubscribeRate * 100) / 100,
+            delivery: roundMetric(percentage(performance.delivered, performance.sent)),
+            open: roundMetric(percentage(performance.opened, performance.delivered)),
+            click: roundMetric(percentage(performance.clicked, performance.delivered)),
+            bounce: roundMetric(percentage(performance.bounced, performance.sent)),
+            unsubscribe: roundMetric(percentage(performance.unsubscribed, performance.delivered)),
           },
-          trends: analytics.map(a => ({
-            date: a.date,
-            data: a.data,
+          // Daily totals, with days starting at midnight in the requested time zone
+          trends: rollup.series.map(bucket => ({
+            date: bucket.start,
+            data: bucket.values,
           })),
         };
       } catch (error) {
@@ -294,7 +283,7 @@ export const emailRouter = createTRPCRouter({
     }),
 
   // Manage email lists
-  manageLists: protectedProcedure
+  manageLists: protectedProcedure.use(requirePermission('email:write'))
     .input(
       z.object({
         action: z.enum(['create', 'update', 'delete', 'add_contacts', 'remove_contacts']),
@@ -309,13 +298,15 @@ export const emailRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('email-agent', {
-          task: 'manage_lists',
-          context: input,
+        const result = await ctx.agents.executeAgent('email', 'manage_lists', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Email agent returned no result');
+        }
+
         ctx.logger.info('Email list managed', {
           action: input.action,
           listId: input.listId,
@@ -325,8 +316,8 @@ export const emailRouter = createTRPCRouter({
 
         return {
           success: result.success,
-          listId: result.data?.listId || input.listId,
-          contactCount: result.data?.contactCount || 0,
+          listId: result.data.listId,
+          contactCount: result.data.contactCount,
           agentResult: result,
         };
       } catch (error) {
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { ForecastMethodSchema } from '@neonhub/core-agents';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import { CAMPAIGN_METRICS, CampaignMetricSchema, TimeZoneSchema } from '../metric-rollups';
+
+export const insightRouter = createTRPCRouter({
+  // Daily forecast of campaign metrics with prediction intervals, from the insight agent
+  predictOutcomes: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(
+      z.object({
+        metrics: z.array(CampaignMetricSchema).min(1).default(['revenue', 'conversions']),
+        campaignId: z.string().optional(),
+        historyDays: z.number().int().min(7).max(365).default(90),
+        horizonDays: z.number().int().min(1).max(90).default(14),
+        plannedDailySpend: z.number().min(0).optional(),
+        method: ForecastMethodSchema.default('auto'),
+        confidenceLevel: z.number().min(0.5).max(0.99).default(0.95),
+        timeZone: TimeZoneSchema,
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (
+        input.campaignId &&
+        !(await ctx.prisma.campaign.findFirst({ where: { id: input.campaignId } }))
+      ) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+      }
+
+      try {
+        const metrics = [...new Set(input.metrics)];
+        const plan = await ctx.forecasts.getPredictOutcomesInput(ctx.workspace.id, {
+          metrics: Object.fromEntries(metrics.map(name => [name, CAMPAIGN_METRICS[name]])),
+          historyDays: input.historyDays,
+          horizonDays: input.horizonDays,
+          timeZone: input.timeZone,
+          method: input.method,
+          confidenceLevel: input.confidenceLevel,
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          ...(input.plannedDailySpend !== undefined && {
+            plannedDailySpend: input.plannedDailySpend,
+          }),
+        });
+
+        const result = await ctx.agents.executeAgent('insight', 'predict_outcomes', plan.input, {
+          priority: 'medium',
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
+        });
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Insight agent returned no predictions');
+        }
+
+        return {
+          horizonDays: input.horizonDays,
+          forecasts: result.data.predictions.map(prediction => ({
+            metric: prediction.metric,
+            method: prediction.method,
+            confidence: prediction.confidence,
+            accuracy: prediction.accuracy,
+            seasonality: prediction.seasonality,
+            total: {
+              value: prediction.prediction,
+              lower: prediction.lower,
+              upper: prediction.upper,
+            },
+            history: (plan.history[prediction.metric] ?? []).map((value, index) => ({
+              date: plan.historyDates[index],
+              value,
+            })),
+            points: prediction.points.map(point => ({
+              date: plan.forecastDates[point.step - 1],
+              value: point.value,
+              lower: point.lower,
+              upper: point.upper,
+            })),
+          })),
+        };
+      } catch (error) {
+        ctx.logger.error('Failed to forecast metrics', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to forecast metrics',
+        });
+      }
+    }),
+});
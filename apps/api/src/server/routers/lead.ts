@@ -0,0 +1,382 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { LeadScoringConfigSchema, LeadStatusSchema } from '@neonhub/core-agents';
+import { Prisma } from '@neonhub/data-model';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import { LeadEventInputSchema, LeadInputSchema, LeadTagSchema } from '../leads';
+
+const LeadIdsSchema = z.array(z.string()).min(1).max(1000);
+
+export const leadRouter = createTRPCRouter({
+  // Leads of the workspace, filtered and sorted
+  list: protectedProcedure
+    .use(requirePermission('lead:read'))
+    .input(
+      z.object({
+        status: LeadStatusSchema.optional(),
+        tag: LeadTagSchema.optional(),
+        // Matches email, name and company
+        search: z.string().trim().min(1).max(200).optional(),
+        minScore: z.number().optional(),
+        sortBy: z.enum(['createdAt', 'score', 'email']).default('createdAt'),
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where: Prisma.LeadWhereInput = {
+          ...(input.status && { status: input.status }),
+          ...(input.tag && { tags: { has: input.tag } }),
+          ...(input.minScore !== undefined && { score: { gte: input.minScore } }),
+          ...(input.search && {
+            OR: (['email', 'name', 'company'] as const).map(field => ({
+              [field]: { contains: input.search, mode: 'insensitive' as const },
+            })),
+          }),
+        };
+        const orderBy: Prisma.LeadOrderByWithRelationInput =
+          input.sortBy === 'score'
+            ? { score: { sort: 'desc', nulls: 'last' } }
+            : input.sortBy === 'email'
+              ? { email: 'asc' }
+              : { createdAt: 'desc' };
+        const [leads, total] = await Promise.all([
+          ctx.prisma.lead.findMany({ where, orderBy, take: input.limit, skip: input.offset }),
+          ctx.prisma.lead.count({ where }),
+        ]);
+        return { leads, total, hasMore: total > input.offset + input.limit };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch leads', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch leads',
+        });
+      }
+    }),
+
+  // A lead with its latest events
+  get: protectedProcedure
+    .use(requirePermission('lead:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const lead = await ctx.prisma.lead.findFirst({
+        where: { id: input.id },
+        include: { events: { orderBy: { occurredAt: 'desc' }, take: 50 } },
+      });
+      if (!lead) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Lead not found' });
+      }
+      return lead;
+    }),
+
+  // Create a lead and score it; an email can only belong to one lead
+  create: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(LeadInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (await ctx.leads.findByEmail(ctx.workspace.id, input.email)) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'A lead with this email already exists' });
+      }
+
+      try {
+        const { leadIds } = await ctx.leads.import(ctx.workspace.id, [input], {
+          onDuplicate: 'skip',
+          userId: ctx.session.user.id,
+        });
+        return await ctx.prisma.lead.findFirstOrThrow({ where: { id: leadIds[0] } });
+      } catch (error) {
+        ctx.logger.error('Failed to create lead', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create lead',
+        });
+      }
+    }),
+
+  // Change a lead; a status set here is kept until scoring has reason to move it
+  update: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(
+      z
+        .object({ id: z.string(), status: LeadStatusSchema.optional() })
+        .merge(LeadInputSchema.omit({ tags: true }).partial())
+        .extend({ tags: LeadInputSchema.shape.tags.optional() })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, metadata, ...data } = input;
+      if (!(await ctx.prisma.lead.findFirst({ where: { id } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Lead not found' });
+      }
+      if (data.email) {
+        const owner = await ctx.leads.findByEmail(ctx.workspace.id, data.email);
+        if (owner && owner.id !== id) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'A lead with this email already exists',
+          });
+        }
+      }
+
+      try {
+        await ctx.prisma.lead.update({
+          where: { id },
+          data: {
+            ...data,
+            ...(metadata !== undefined && {
+              metadata: metadata ? (metadata as Prisma.InputJsonValue) : Prisma.JsonNull,
+            }),
+          },
+        });
+        await ctx.leads.rescore(ctx.workspace.id, { leadIds: [id], userId: ctx.session.user.id });
+        return await ctx.prisma.lead.findFirstOrThrow({ where: { id } });
+      } catch (error) {
+        ctx.logger.error('Failed to update lead', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update lead',
+        });
+      }
+    }),
+
+  // Delete a lead together with its events
+  delete: protectedProcedure
+    .use(requirePermission('lead:delete'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await ctx.prisma.lead.findFirst({ where: { id: input.id } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Lead not found' });
+      }
+
+      try {
+        await ctx.prisma.lead.delete({ where: { id: input.id } });
+        return { success: true };
+      } catch (error) {
+        ctx.logger.error('Failed to delete lead', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete lead',
+        });
+      }
+    }),
+
+  // Import leads in bulk; rows for an existing email update that lead or are skipped
+  import: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(
+      z.object({
+        leads: z.array(LeadInputSchema).min(1).max(1000),
+        onDuplicate: z.enum(['merge', 'skip']).default('merge'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.leads.import(ctx.workspace.id, input.leads, {
+          onDuplicate: input.onDuplicate,
+          userId: ctx.session.user.id,
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to import leads', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to import leads',
+        });
+      }
+    }),
+
+  // Groups of leads sharing an email
+  findDuplicates: protectedProcedure.use(requirePermission('lead:read')).query(async ({ ctx }) => {
+    try {
+      return await ctx.leads.findDuplicates(ctx.workspace.id);
+    } catch (error) {
+      ctx.logger.error('Failed to find duplicate leads', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to find duplicate leads',
+      });
+    }
+  }),
+
+  // Merge leads sharing an email into the oldest of them
+  dedupe: protectedProcedure.use(requirePermission('lead:delete')).mutation(async ({ ctx }) => {
+    try {
+      return await ctx.leads.dedupe(ctx.workspace.id);
+    } catch (error) {
+      ctx.logger.error('Failed to merge duplicate leads', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to merge duplicate leads',
+      });
+    }
+  }),
+
+  // Tags in use with how many leads have each
+  listTags: protectedProcedure.use(requirePermission('lead:read')).query(async ({ ctx }) => {
+    try {
+      return await ctx.leads.listTags(ctx.workspace.id);
+    } catch (error) {
+      ctx.logger.error('Failed to fetch lead tags', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch lead tags',
+      });
+    }
+  }),
+
+  // Tag leads
+  addTags: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(z.object({ leadIds: LeadIdsSchema, tags: z.array(LeadTagSchema).min(1).max(50) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const updated = await ctx.leads.addTags(ctx.workspace.id, input.leadIds, input.tags);
+        return { updated };
+      } catch (error) {
+        ctx.logger.error('Failed to tag leads', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to tag leads',
+        });
+      }
+    }),
+
+  // Untag leads
+  removeTags: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(z.object({ leadIds: LeadIdsSchema, tags: z.array(LeadTagSchema).min(1).max(50) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const updated = await ctx.leads.removeTags(ctx.workspace.id, input.leadIds, input.tags);
+        return { updated };
+      } catch (error) {
+        ctx.logger.error('Failed to untag leads', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to untag leads',
+        });
+      }
+    }),
+
+  // Rename a tag on every lead that has it
+  renameTag: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(z.object({ from: LeadTagSchema, to: LeadTagSchema }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const updated = await ctx.leads.renameTag(ctx.workspace.id, input.from, input.to);
+        return { updated };
+      } catch (error) {
+        ctx.logger.error('Failed to rename lead tag', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to rename lead tag',
+        });
+      }
+    }),
+
+  // Record email opens and clicks, site visits and the like, and rescore their leads
+  recordEvents: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(z.object({ events: z.array(LeadEventInputSchema).min(1).max(1000) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.leads.recordEvents(ctx.workspace.id, input.events, {
+          userId: ctx.session.user.id,
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to record lead events', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to record lead events',
+        });
+      }
+    }),
+
+  // The workspace's scoring rules and thresholds
+  getScoringConfig: protectedProcedure
+    .use(requirePermission('lead:read'))
+    .query(async ({ ctx }) => {
+      try {
+        return await ctx.leads.getScoringConfig(ctx.workspace.id);
+      } catch (error) {
+        ctx.logger.error('Failed to fetch lead scoring settings', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch lead scoring settings',
+        });
+      }
+    }),
+
+  // Change the scoring rules and rescore every lead with them
+  setScoringConfig: protectedProcedure
+    .use(requirePermission('lead:scoring'))
+    .input(LeadScoringConfigSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const config = await ctx.leads.setScoringConfig(
+          ctx.workspace.id,
+          input,
+          ctx.session.user.id
+        );
+        const scoring = await ctx.leads.rescore(ctx.workspace.id, {
+          userId: ctx.session.user.id,
+        });
+        return { config, scoring };
+      } catch (error) {
+        ctx.logger.error('Failed to update lead scoring settings', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update lead scoring settings',
+        });
+      }
+    }),
+
+  // Rescore the workspace's leads, or only some of them
+  rescore: protectedProcedure
+    .use(requirePermission('lead:write'))
+    .input(z.object({ leadIds: LeadIdsSchema.optional() }).default({}))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.leads.rescore(ctx.workspace.id, {
+          ...(input.leadIds && { leadIds: input.leadIds }),
+          userId: ctx.session.user.id,
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to score leads', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to score leads',
+        });
+      }
+    }),
+});
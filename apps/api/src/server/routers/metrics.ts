@@ -1,98 +1,94 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { AnalyticsEventSchema } from '@neonhub/core-agents';
+import {
+  averageValues,
+  conversionRate,
+  cpa,
+  cpc,
+  ctr,
+  engagementRate,
+  funnelConversion,
+  movingAverage,
+  percentage,
+  periodOverPeriod,
+  roas,
+} from '@neonhub/utils';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { ANALYTICS_INGEST_BATCH_LIMIT } from '../analytics-ingest';
+import {
+  CAMPAIGN_METRICS,
+  CampaignMetricSchema,
+  rangeStart,
+  TimeZoneSchema,
+} from '../metric-rollups';
+
+const TIME_RANGE_DAYS = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+} as const;
 
 export const metricsRouter = createTRPCRouter({
   // Get dashboard overview metrics
-  getDashboardOverview: protectedProcedure
+  getDashboardOverview: protectedProcedure.use(requirePermission('metrics:read'))
     .input(
       z.object({
         timeRange: z.enum(['7d', '30d', '90d', '1y']).default('30d'),
         campaignId: z.string().optional(),
+        timeZone: TimeZoneSchema,
       })
     )
     .query(async ({ ctx, input }) => {
       try {
-        const daysAgo = {
-          '7d': 7,
-          '30d': 30,
-          '90d': 90,
-          '1y': 365,
-        }[input.timeRange];
-
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - daysAgo);
-
-        const where: any = {
-          userId: ctx.session.user.id,
-          date: { gte: startDate },
-        };
-        
-        if (input.campaignId) {
-          where.campaignId = input.campaignId;
-        }
-
-        // Get analytics data
-        const analytics = await ctx.prisma.analytics.findMany({
-          where,
-          orderBy: { date: 'desc' },
+        const rollup = await ctx.rollups.query(ctx.workspace.id, {
+          from: rangeStart(TIME_RANGE_DAYS[input.timeRange], input.timeZone),
+          to: new Date(),
+          size: 'day',
+          timeZone: input.timeZone,
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          metrics: {
+            engagement: CAMPAIGN_METRICS.engagement,
+            reach: CAMPAIGN_METRICS.reach,
+            conversions: CAMPAIGN_METRICS.conversions,
+            revenue: CAMPAIGN_METRICS.revenue,
+          },
         });
 
         // Get campaign counts
         const [totalCampaigns, activeCampaigns] = await Promise.all([
+          ctx.prisma.campaign.count(),
           ctx.prisma.campaign.count({
-            where: { userId: ctx.session.user.id },
-          }),
-          ctx.prisma.campaign.count({
-            where: { 
-              userId: ctx.session.user.id,
-              status: 'ACTIVE',
-            },
+            where: { status: 'ACTIVE' },
           }),
         ]);
 
-        // Calculate metrics
-        const engagementData = analytics.filter(a => a.type === 'ENGAGEMENT');
-        const reachData = analytics.filter(a => a.type === 'REACH');
-        const conversionData = analytics.filter(a => a.type === 'CONVERSION');
-        const revenueData = analytics.filter(a => a.type === 'REVENUE');
-
-        const totalEngagement = engagementData.reduce((sum, a) => {
-          const data = a.data as any;
-          return sum + (data.engagement || 0);
-        }, 0);
-
-        const totalReach = reachData.reduce((sum, a) => {
-          const data = a.data as any;
-          return sum + (data.reach || 0);
-        }, 0);
-
-        const totalConversions = conversionData.reduce((sum, a) => {
-          const data = a.data as any;
-          return sum + (data.conversions || 0);
-        }, 0);
-
-        const totalRevenue = revenueData.reduce((sum, a) => {
-          const data = a.data as any;
-          return sum + (data.revenue || 0);
-        }, 0);
+        // Days without any events are missing rather than zero, e.g. before the first campaign
+        const daily = (key: 'engagement' | 'reach' | 'conversions' | 'revenue'): Array<number | null> =>
+          rollup.series.map(bucket =>
+            Object.keys(bucket.values).length > 0 ? (bucket.values[key] ?? 0) : null
+          );
 
         return {
           overview: {
             totalCampaigns,
             activeCampaigns,
-            totalEngagement,
-            totalReach,
-            totalConversions,
-            totalRevenue,
+            totalEngagement: rollup.totals.engagement,
+            totalReach: rollup.totals.reach,
+            totalConversions: rollup.totals.conversions,
+            totalRevenue: rollup.totals.revenue,
             timeRange: input.timeRange,
           },
+          // Last 7 days against the 7 before; null when either week has no data
           trends: {
-            engagement: this.calculateTrend(engagementData),
-            reach: this.calculateTrend(reachData),
-            conversions: this.calculateTrend(conversionData),
-            revenue: this.calculateTrend(revenueData),
+            engagement: periodOverPeriod(daily('engagement'), 7).change,
+            reach: periodOverPeriod(daily('reach'), 7).change,
+            conversions: periodOverPeriod(daily('conversions'), 7).change,
+            revenue: periodOverPeriod(daily('revenue'), 7).change,
           },
+          // Daily totals, with days starting at midnight in the requested time zone
+          series: rollup.series.map(bucket => ({ date: bucket.start, ...bucket.values })),
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -105,31 +101,21 @@ export const metricsRouter = createTRPCRouter({
     }),
 
   // Get campaign performance metrics
-  getCampaignMetrics: protectedProcedure
+  getCampaignMetrics: protectedProcedure.use(requirePermission('metrics:read'))
     .input(
       z.object({
         campaignId: z.string(),
         timeRange: z.enum(['7d', '30d', '90d']).default('30d'),
-        metrics: z.array(z.enum(['engagement', 'reach', 'conversions', 'revenue', 'clicks', 'impressions'])).optional(),
+        metrics: z.array(CampaignMetricSchema).optional(),
+        interval: z.enum(['hour', 'day', 'week']).default('day'),
+        timeZone: TimeZoneSchema,
       })
     )
     .query(async ({ ctx, input }) => {
       try {
-        const daysAgo = {
-          '7d': 7,
-          '30d': 30,
-          '90d': 90,
-        }[input.timeRange];
-
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - daysAgo);
-
-        // Verify campaign ownership
+        // Verify the campaign belongs to the workspace
         const campaign = await ctx.prisma.campaign.findFirst({
-          where: {
-            id: input.campaignId,
-            userId: ctx.session.user.id,
-          },
+          where: { id: input.campaignId },
         });
 
         if (!campaign) {
@@ -139,59 +125,76 @@ export const metricsRouter = createTRPCRouter({
           });
         }
 
-        // Get analytics data
-        const analytics = await ctx.prisma.analytics.findMany({
+        // The summary rates need all metrics, whichever ones are returned
+        const rollup = await ctx.rollups.query(ctx.workspace.id, {
+          from: rangeStart(TIME_RANGE_DAYS[input.timeRange], input.timeZone),
+          to: new Date(),
+          size: input.interval,
+          timeZone: input.timeZone,
+          campaignId: input.campaignId,
+          metrics: CAMPAIGN_METRICS,
+        });
+
+        // Spend over the same range, for the cost and return ratios
+        const spend = await ctx.prisma.spendEntry.aggregate({
           where: {
             campaignId: input.campaignId,
-            date: { gte: startDate },
+            spentAt: { gte: rangeStart(TIME_RANGE_DAYS[input.timeRange], input.timeZone) },
           },
-          orderBy: { date: 'asc' },
+          _sum: { amount: true },
         });
-
-        // Process metrics by type
-        const metricsByType = analytics.reduce((acc, analytic) => {
-          const type = analytic.type.toLowerCase();
-          if (!acc[type]) acc[type] = [];
-          acc[type].push({
-            date: analytic.date,
-            data: analytic.data,
-          });
-          return acc;
-        }, {} as Record<string, any[]>);
-
-        // Calculate totals and trends
-        const metrics = Object.keys(metricsByType).reduce((acc, type) => {
-          const data = metricsByType[type];
-          const total = data.reduce((sum, item) => {
-            const itemData = item.data as any;
-            return sum + (itemData[type] || 0);
-          }, 0);
-
-          acc[type] = {
-            total,
-            data: data.map(item => ({
-              date: item.date,
-              value: (item.data as any)[type] || 0,
-            })),
-            trend: this.calculateTrendFromData(data.map(item => (item.data as any)[type] || 0)),
-          };
-          return acc;
-        }, {} as Record<string, any>);
-
+        const totalSpend = spend._sum.amount ?? 0;
+        const { totals } = rollup;
+
+        const requested = input.metrics ?? CampaignMetricSchema.options;
+        const metrics = Object.fromEntries(
+          requested.map(name => {
+            const values = rollup.series.map(bucket => bucket.values[name] ?? 0);
+            const averaged = movingAverage(values, 7);
+            return [
+              name,
+              {
+                total: totals[name],
+                data: rollup.series.map((bucket, index) => ({
+                  date: bucket.start,
+                  value: values[index] ?? 0,
+                  // Average of this and the 6 buckets before it
+                  movingAverage: averaged[index] ?? null,
+                })),
+                // Second half of the range against the first half
+                trend: periodOverPeriod(values, Math.ceil(values.length / 2)).change,
+              },
+            ];
+          })
+        );
+
+        // Rates and ratios are null when what they divide by is zero
         return {
           campaignId: input.campaignId,
           timeRange: input.timeRange,
+          interval: input.interval,
           metrics,
           summary: {
-            totalEngagement: metrics.engagement?.total || 0,
-            totalReach: metrics.reach?.total || 0,
-            totalConversions: metrics.conversion?.total || 0,
-            totalRevenue: metrics.revenue?.total || 0,
-            engagementRate: this.calculateEngagementRate(metrics.engagement?.total || 0, metrics.reach?.total || 0),
-            conversionRate: this.calculateConversionRate(metrics.conversion?.total || 0, metrics.clicks?.total || 0),
+            totalEngagement: totals.engagement,
+            totalReach: totals.reach,
+            totalConversions: totals.conversions,
+            totalRevenue: totals.revenue,
+            totalSpend,
+            engagementRate: engagementRate(totals.engagement, totals.reach),
+            clickThroughRate: ctr(totals.clicks, totals.impressions),
+            conversionRate: conversionRate(totals.conversions, totals.clicks),
+            costPerClick: cpc(totalSpend, totals.clicks),
+            costPerAcquisition: cpa(totalSpend, totals.conversions),
+            returnOnAdSpend: roas(totals.revenue, totalSpend),
           },
+          funnel: funnelConversion([
+            { name: 'impressions', count: totals.impressions },
+            { name: 'clicks', count: totals.clicks },
+            { name: 'conversions', count: totals.conversions },
+          ]),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         ctx.logger.error('Failed to fetch campaign metrics', { error: errorMessage });
         throw new TRPCError({
@@ -202,13 +205,18 @@ export const metricsRouter = createTRPCRouter({
     }),
 
   // Record analytics event
-  recordEvent: protectedProcedure
+  recordEvent: protectedProcedure.use(requirePermission('metrics:write'))
     .input(
       z.object({
         type: z.enum(['ENGAGEMENT', 'REACH', 'CONVERSION', 'REVENUE', 'CLICKS', 'IMPRESSIONS', 'SENTIMENT', 'PERFORMANCE']),
         campaignId: z.string().optional(),
         data: z.record(z.any()),
         period: z.string().optional(),
+        // Bandit test and variant the numbers are rewards for
+        abTestId: z.string().optional(),
+        variantId: z.string().optional(),
+      }).refine(input => !input.abTestId || input.variantId, {
+        message: 'variantId is required with abTestId',
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -221,9 +229,18 @@ export const metricsRouter = createTRPCRouter({
             data: input.data,
             period: input.period,
             date: new Date(),
+            ...(input.abTestId && {
+              metadata: { abTestId: input.abTestId, variantId: input.variantId },
+            }),
           },
         });
 
+        await ctx.rollups.apply([analytics]);
+
+        if (input.abTestId) {
+          await ctx.experiments.reallocate(ctx.workspace.id, input.abTestId, 'analytics');
+        }
+
         ctx.logger.info('Analytics event recorded', {
           analyticsId: analytics.id,
           type: input.type,
@@ -242,8 +259,75 @@ export const metricsRouter = createTRPCRouter({
       }
     }),
 
+  // Ingest a batch of typed events from pixels, email opens or webhooks; retries with the
+  // same idempotency key are stored once
+  ingestEvents: protectedProcedure.use(requirePermission('metrics:write'))
+    .input(
+      z.object({
+        events: z.array(AnalyticsEventSchema).min(1).max(ANALYTICS_INGEST_BATCH_LIMIT),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await ctx.analyticsIngest.ingest(input.events, {
+          workspaceId: ctx.workspace.id,
+          userId: ctx.session.user.id,
+          ...(ctx.req.headers['user-agent'] && { userAgent: ctx.req.headers['user-agent'] }),
+        });
+
+        ctx.logger.info('Analytics events ingested', {
+          accepted: result.accepted,
+          duplicates: result.duplicates,
+          rejected: result.rejected.length,
+          userId: ctx.session.user.id,
+        });
+
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        ctx.logger.error('Failed to ingest analytics events', { error: errorMessage });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to ingest analytics events',
+        });
+      }
+    }),
+
+  // Rebuild metric rollups from raw analytics rows, e.g. after importing history
+  backfillRollups: protectedProcedure.use(requirePermission('metrics:write'))
+    .input(
+      z.object({
+        from: z.date(),
+        to: z.date().optional(),
+      }).refine(input => !input.to || input.to > input.from, {
+        message: 'to must be after from',
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await ctx.rollups.backfill(ctx.workspace.id, {
+          from: input.from,
+          to: input.to ?? new Date(),
+        });
+
+        ctx.logger.info('Metric rollup backfill requested', {
+          events: result.events,
+          userId: ctx.session.user.id,
+        });
+
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        ctx.logger.error('Failed to backfill metric rollups', { error: errorMessage });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to backfill metric rollups',
+        });
+      }
+    }),
+
   // Get agent performance metrics
-  getAgentMetrics: protectedProcedure
+  getAgentMetrics: protectedProcedure.use(requirePermission('metrics:read'))
     .input(
       z.object({
         agentId: z.string().optional(),
@@ -262,7 +346,6 @@ export const metricsRouter = createTRPCRouter({
         startDate.setDate(startDate.getDate() - daysAgo);
 
         const where: any = {
-          userId: ctx.session.user.id,
           startedAt: { gte: startDate },
         };
 
@@ -285,8 +368,8 @@ export const metricsRouter = createTRPCRouter({
               totalExecutions: 0,
               successfulExecutions: 0,
               failedExecutions: 0,
-              avgPerformance: 0,
-              avgExecutionTime: 0,
+              avgPerformance: null,
+              avgExecutionTime: null,
               executions: [],
             };
           }
@@ -303,23 +386,19 @@ export const metricsRouter = createTRPCRouter({
           return acc;
         }, {} as Record<string, any>);
 
-        // Calculate averages
+        // Averaged over the executions that have a score or have finished; null when none have
         Object.keys(agentMetrics).forEach(agentId => {
           const metrics = agentMetrics[agentId];
-          const validPerformances = metrics.executions.filter((e: any) => e.performance !== null);
-          const validExecutionTimes = metrics.executions.filter((e: any) => e.completedAt !== null);
-
-          if (validPerformances.length > 0) {
-            metrics.avgPerformance = validPerformances.reduce((sum: number, e: any) => sum + e.performance, 0) / validPerformances.length;
-          }
-
-          if (validExecutionTimes.length > 0) {
-            metrics.avgExecutionTime = validExecutionTimes.reduce((sum: number, e: any) => {
-              return sum + (e.completedAt.getTime() - e.startedAt.getTime());
-            }, 0) / validExecutionTimes.length / 1000; // Convert to seconds
-          }
-
-          metrics.successRate = metrics.totalExecutions > 0 ? (metrics.successfulExecutions / metrics.totalExecutions) * 100 : 0;
+          const agentExecutions: typeof executions = metrics.executions;
+          metrics.avgPerformance = averageValues(agentExecutions.map(e => e.performance));
+          const avgExecutionMs = averageValues(
+            agentExecutions.map(e =>
+              e.completedAt ? e.completedAt.getTime() - e.startedAt.getTime() : null
+            )
+          );
+          metrics.avgExecutionTime = avgExecutionMs === null ? null : avgExecutionMs / 1000; // Convert to seconds
+
+          metrics.successRate = percentage(metrics.successfulExecutions, metrics.totalExecutions);
           
           // Remove executions array to reduce response size
           delete metrics.executions;
@@ -331,7 +410,10 @@ export const metricsRouter = createTRPCRouter({
           summary: {
             totalAgents: Object.keys(agentMetrics).length,
             totalExecutions: Object.values(agentMetrics).reduce((sum: number, metrics: any) => sum + metrics.totalExecutions, 0),
-            overallSuccessRate: this.calculateOverallSuccessRate(Object.values(agentMetrics)),
+            overallSuccessRate: percentage(
+              executions.filter(execution => execution.status === 'COMPLETED').length,
+              executions.length
+            ),
           },
         };
       } catch (error) {
@@ -343,46 +425,4 @@ export const metricsRouter = createTRPCRouter({
         });
       }
     }),
-
-  // Helper methods (these would typically be in a separate service)
-  calculateTrend: (data: any[]) => {
-    if (data.length < 2) return 0;
-    const recent = data.slice(-7); // Last 7 data points
-    const older = data.slice(-14, -7); // Previous 7 data points
-    
-    const recentAvg = recent.reduce((sum, item) => sum + ((item.data as any).value || 0), 0) / recent.length;
-    const olderAvg = older.reduce((sum, item) => sum + ((item.data as any).value || 0), 0) / older.length;
-    
-    return olderAvg > 0 ? ((recentAvg - olderAvg) / olderAvg) * 100 : 0;
-  },
-
-  calculateTrendFromData: (values: number[]) => {
-    if (values.length < 2) return 0;
-    const half = Math.floor(values.length / 2);
-    const firstHalf = values.slice(0, half);
-    const secondHalf = values.slice(half);
-    
-    const firstAvg = firstHalf.reduce((sum, val) => sum + val, 0) / firstHalf.length;
-    const secondAvg = secondHalf.reduce((sum, val) => sum + val, 0) / secondHalf.length;
-    
-    return firstAvg > 0 ? ((secondAvg - firstAvg) / firstAvg) * 100 : 0;
-  },
-
-  calculateEngagementRate: (engagement: number, reach: number) => {
-    return reach > 0 ? (engagement / reach) * 100 : 0;
-  },
-
-  calculateConversionRate: (conversions: number, clicks: number) => {
-    return clicks > 0 ? (conversions / clicks) * 100 : 0;
-  },
-
-  calculateOverallSuccessRate: (agentMetrics: any[]) => {
-    const totals = agentMetrics.reduce((acc, metrics) => {
-      acc.successful += metrics.successfulExecutions;
-      acc.total += metrics.totalExecutions;
-      return acc;
-    }, { successful: 0, total: 0 });
-    
-    return totals.total > 0 ? (totals.successful / totals.total) * 100 : 0;
-  },
-});
\ No newline at end of file
+});
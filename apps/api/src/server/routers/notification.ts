@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+
+export const notificationRouter = createTRPCRouter({
+  // The current user's notifications in the workspace, newest first
+  list: protectedProcedure
+    .use(requirePermission('workspace:read'))
+    .input(
+      z.object({
+        unreadOnly: z.boolean().default(false),
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where = {
+          userId: ctx.session.user.id,
+          ...(input.unreadOnly && { readAt: null }),
+        };
+        const [notifications, total, unread] = await Promise.all([
+          ctx.prisma.notification.findMany({
+            where,
+            include: { alert: { select: { id: true, status: true, campaignId: true } } },
+            orderBy: { createdAt: 'desc' },
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.notification.count({ where }),
+          ctx.prisma.notification.count({ where: { userId: ctx.session.user.id, readAt: null } }),
+        ]);
+        return { notifications, total, unread, hasMore: total > input.offset + input.limit };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch notifications', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch notifications',
+        });
+      }
+    }),
+
+  // Mark some of the current user's notifications as read, or all of them
+  markRead: protectedProcedure
+    .use(requirePermission('workspace:read'))
+    .input(z.object({ ids: z.array(z.string()).min(1).max(100).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { count } = await ctx.prisma.notification.updateMany({
+          where: {
+            userId: ctx.session.user.id,
+            readAt: null,
+            ...(input.ids && { id: { in: input.ids } }),
+          },
+          data: { readAt: new Date() },
+        });
+        return { count };
+      } catch (error) {
+        ctx.logger.error('Failed to mark notifications as read', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to mark notifications as read',
+        });
+      }
+    }),
+});
@@ -0,0 +1,390 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  bumpVersion,
+  collectReferences,
+  compareVersions,
+  PromptTemplateError,
+  PromptTemplateSchema,
+  PromptVariableSchema,
+  validatePromptTemplate,
+  type PromptRegistry,
+  type PromptTemplate,
+} from '@neonhub/core-agents';
+import type { Prisma } from '@neonhub/data-model';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import { promptSource, toPromptTemplate } from '../prompt-store';
+
+const isBuiltin = (template: Pick<PromptTemplate, 'id'>): boolean =>
+  template.id.startsWith('builtin:');
+
+/**
+ * Problems that would stop `template` from rendering, checked against the
+ * partials that currently exist.
+ */
+async function findTemplateProblems(
+  prompts: PromptRegistry,
+  template: Pick<PromptTemplate, 'system' | 'template' | 'variables'>
+): Promise<string[]> {
+  const partials = new Map<string, PromptTemplate>();
+  for (const source of [template.system ?? '', template.template]) {
+    let names: string[] = [];
+    try {
+      names = collectReferences(source).partials;
+    } catch {
+      // Syntax errors are reported by validatePromptTemplate
+    }
+    for (const name of names) {
+      const partial = await prompts.resolve(name).catch(() => null);
+      if (partial?.isPartial) partials.set(name, partial);
+    }
+  }
+  return validatePromptTemplate(template, { partials });
+}
+
+function toBadRequest(error: unknown): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof PromptTemplateError) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+  }
+  throw error;
+}
+
+const previewVariablesSchema = z.record(z.unknown()).default({});
+
+export const promptsRouter = createTRPCRouter({
+  // List templates with their latest active version
+  list: protectedProcedure
+    .use(requirePermission('prompt:read'))
+    .input(z.object({ includePartials: z.boolean().default(true) }).default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        const stored = await ctx.prisma.promptTemplate.findMany({
+          where: { isActive: true },
+          select: { name: true },
+          distinct: ['name'],
+        });
+        const names = new Set([
+          ...ctx.prompts.getBuiltinTemplates().map(template => template.name),
+          ...stored.map(template => template.name),
+        ]);
+
+        const latest = await Promise.all([...names].sort().map(name => ctx.prompts.resolve(name)));
+        return latest
+          .filter(template => input.includePartials || !template.isPartial)
+          .map(template => ({ ...template, builtin: isBuiltin(template) }));
+      } catch (error) {
+        ctx.logger.error('Failed to list prompt templates', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list prompt templates',
+        });
+      }
+    }),
+
+  // Get every version of a template, newest first, including archived ones
+  getVersions: protectedProcedure
+    .use(requirePermission('prompt:read'))
+    .input(z.object({ name: z.string() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const active = await ctx.prompts.getVersions(input.name);
+        const archived = await ctx.prisma.promptTemplate.findMany({
+          where: { name: input.name, isActive: false },
+        });
+
+        if (active.length === 0 && archived.length === 0) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Prompt template not found' });
+        }
+
+        return [
+          ...active.map(template => ({
+            ...template,
+            builtin: isBuiltin(template),
+            isActive: true,
+          })),
+          ...archived.map(record => ({
+            ...toPromptTemplate(record),
+            builtin: false,
+            isActive: false,
+          })),
+        ].sort((a, b) => compareVersions(b.version, a.version));
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to fetch prompt template versions', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch prompt template versions',
+        });
+      }
+    }),
+
+  // Save a template; its version must be higher than every existing version
+  create: protectedProcedure
+    .use(requirePermission('prompt:write'))
+    .input(PromptTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      const versions = await ctx.prompts.getVersions(input.name);
+      const latest = versions[0];
+      if (latest && compareVersions(input.version, latest.version) <= 0) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `Version must be higher than ${latest.version}`,
+        });
+      }
+      if (latest && latest.isPartial !== input.isPartial) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `${input.name} is ${latest.isPartial ? '' : 'not '}a partial`,
+        });
+      }
+
+      const problems = await findTemplateProblems(ctx.prompts, input);
+      if (problems.length > 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: problems.join('; ') });
+      }
+
+      try {
+        const record = await ctx.prisma.promptTemplate.create({
+          data: {
+            name: input.name,
+            version: input.version,
+            description: input.description ?? null,
+            system: input.system ?? null,
+            template: input.template,
+            variables: input.variables as Prisma.InputJsonValue,
+            isPartial: input.isPartial,
+            createdById: ctx.session.user.id,
+          },
+        });
+        promptSource.invalidate({ name: input.name });
+
+        ctx.logger.info('Prompt template saved', { name: record.name, version: record.version });
+        return toPromptTemplate(record);
+      } catch (error) {
+        ctx.logger.error('Failed to save prompt template', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save prompt template',
+        });
+      }
+    }),
+
+  // Edit the latest version of a template, saving the result as a new version
+  update: protectedProcedure
+    .use(requirePermission('prompt:write'))
+    .input(
+      z.object({
+        name: z.string(),
+        bump: z.enum(['major', 'minor', 'patch']).default('minor'),
+        description: z.string().optional(),
+        system: z.string().optional(),
+        template: z.string().optional(),
+        variables: z.array(PromptVariableSchema).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const latest = await ctx.prompts.resolve(input.name).catch(toBadRequest);
+      const next: PromptTemplate = {
+        ...latest,
+        version: bumpVersion(latest.version, input.bump),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.system !== undefined && { system: input.system }),
+        ...(input.template !== undefined && { template: input.template }),
+        ...(input.variables !== undefined && { variables: input.variables }),
+      };
+
+      const problems = await findTemplateProblems(ctx.prompts, next);
+      if (problems.length > 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: problems.join('; ') });
+      }
+
+      try {
+        const record = await ctx.prisma.promptTemplate.create({
+          data: {
+            name: next.name,
+            version: next.version,
+            description: next.description ?? null,
+            system: next.system ?? null,
+            template: next.template,
+            variables: next.variables as Prisma.InputJsonValue,
+            isPartial: next.isPartial,
+            createdById: ctx.session.user.id,
+          },
+        });
+        promptSource.invalidate({ name: next.name });
+
+        ctx.logger.info('Prompt template updated', {
+          name: record.name,
+          from: latest.version,
+          to: record.version,
+        });
+        return toPromptTemplate(record);
+      } catch (error) {
+        ctx.logger.error('Failed to update prompt template', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update prompt template',
+        });
+      }
+    }),
+
+  // Stop using a stored version; agents fall back to the next highest version
+  archive: protectedProcedure
+    .use(requirePermission('prompt:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.id.startsWith('builtin:')) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Built-in templates cannot be archived; save a higher version instead',
+        });
+      }
+
+      try {
+        const record = await ctx.prisma.promptTemplate.update({
+          where: { id: input.id },
+          data: { isActive: false },
+        });
+        promptSource.invalidate({ name: record.name });
+
+        return toPromptTemplate(record);
+      } catch (error) {
+        ctx.logger.error('Failed to archive prompt template', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to archive prompt template',
+        });
+      }
+    }),
+
+  // Render a saved template, or an unsaved draft, without calling the model
+  preview: protectedProcedure
+    .use(requirePermission('prompt:read'))
+    .input(
+      z.union([
+        z.object({
+          name: z.string(),
+          version: z.string().optional(),
+          variables: previewVariablesSchema,
+          brandId: z.string().optional(),
+        }),
+        z.object({
+          draft: PromptTemplateSchema.pick({
+            system: true,
+            template: true,
+            variables: true,
+          }).extend({
+            name: z.string().default('draft'),
+          }),
+          variables: previewVariablesSchema,
+          brandId: z.string().optional(),
+        }),
+      ])
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.brandId && !(await ctx.prisma.brand.findUnique({ where: { id: input.brandId } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Brand not found' });
+      }
+
+      const options = {
+        variables: input.variables,
+        ...(input.brandId && { brandId: input.brandId }),
+      };
+
+      try {
+        if ('draft' in input) {
+          const problems = await findTemplateProblems(ctx.prompts, input.draft);
+          if (problems.length > 0) {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: problems.join('; ') });
+          }
+          return await ctx.prompts.renderDraft(input.draft, options);
+        }
+        return await ctx.prompts.render(input.name, {
+          ...options,
+          ...(input.version && { version: input.version }),
+        });
+      } catch (error) {
+        return toBadRequest(error);
+      }
+    }),
+
+  // List the workspace's brands
+  getBrands: protectedProcedure.use(requirePermission('prompt:read')).query(async ({ ctx }) => {
+    try {
+      return await ctx.prisma.brand.findMany({
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      ctx.logger.error('Failed to fetch brands', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch brands',
+      });
+    }
+  }),
+
+  // Create or update a brand and the prompt variables it supplies
+  saveBrand: protectedProcedure
+    .use(requirePermission('prompt:write'))
+    .input(
+      z.object({
+        id: z.string().optional(),
+        name: z.string().min(1).max(100),
+        variables: z
+          .object({
+            brandDescription: z.string().optional(),
+            brandVoice: z.string().optional(),
+            bannedWords: z.array(z.string()).optional(),
+          })
+          .passthrough()
+          .default({}),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const data = {
+          name: input.name,
+          variables: input.variables as Prisma.InputJsonValue,
+        };
+
+        if (input.id) {
+          const existing = await ctx.prisma.brand.findFirst({
+            where: { id: input.id },
+            select: { id: true },
+          });
+          if (!existing) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Brand not found' });
+          }
+        }
+
+        const brand = input.id
+          ? await ctx.prisma.brand.update({ where: { id: input.id }, data })
+          : await ctx.prisma.brand.create({ data: { ...data, userId: ctx.session.user.id } });
+        promptSource.invalidate({ brandId: brand.id });
+
+        return brand;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to save brand', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save brand',
+        });
+      }
+    }),
+});
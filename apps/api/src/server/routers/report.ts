@@ -0,0 +1,282 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  ReportDefinitionSchema,
+  ReportFormatSchema,
+  type ReportDefinition,
+} from '@neonhub/core-agents';
+import type { Prisma, PrismaClient } from '@neonhub/data-model';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import { ReportDefinitionInputSchema, ReportScheduleSchema } from '../reports';
+
+const ReportInputSchema = z.object({
+  name: z.string().min(1).max(200),
+  definition: ReportDefinitionInputSchema,
+  // Cron expression in the definition's time zone; null runs on demand only
+  schedule: ReportScheduleSchema.nullable().default(null),
+  // Attached to the email, whose body is always the HTML report
+  formats: z.array(ReportFormatSchema).max(4).default(['pdf']),
+  recipients: z.array(z.string().email()).max(50).default([]),
+  enabled: z.boolean().default(true),
+});
+
+/** Whether every campaign the definition picks is in the workspace */
+async function campaignsExist(
+  prisma: PrismaClient,
+  definition: Pick<ReportDefinition, 'campaignIds'>
+): Promise<boolean> {
+  if (!definition.campaignIds) return true;
+  const ids = [...new Set(definition.campaignIds)];
+  return (await prisma.campaign.count({ where: { id: { in: ids } } })) === ids.length;
+}
+
+export const reportRouter = createTRPCRouter({
+  // Reports of the workspace with their latest run
+  list: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(z.object({ enabled: z.boolean().optional() }).default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.prisma.report.findMany({
+          where: { ...(input.enabled !== undefined && { enabled: input.enabled }) },
+          include: {
+            runs: {
+              select: { id: true, status: true, trigger: true, startedAt: true, completedAt: true },
+              orderBy: { startedAt: 'desc' },
+              take: 1,
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to fetch reports', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch reports',
+        });
+      }
+    }),
+
+  // A report and who created it
+  get: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const report = await ctx.prisma.report.findFirst({
+        where: { id: input.id },
+        include: { createdBy: { select: { id: true, name: true } } },
+      });
+      if (!report) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Report not found' });
+      }
+      return report;
+    }),
+
+  // Create a report, scheduled from its next cron time
+  create: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(ReportInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (!(await campaignsExist(ctx.prisma, input.definition))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+      }
+
+      try {
+        return await ctx.prisma.report.create({
+          data: {
+            name: input.name,
+            definition: input.definition as unknown as Prisma.InputJsonValue,
+            schedule: input.schedule,
+            formats: input.formats,
+            recipients: input.recipients,
+            enabled: input.enabled,
+            nextRunAt: ctx.reports.nextRunAt(input.schedule, input.definition.timeZone),
+            createdById: ctx.session.user.id,
+            workspaceId: ctx.workspace.id,
+          },
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to create report', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create report',
+        });
+      }
+    }),
+
+  // Change a report; a new schedule or time zone, or enabling it again, moves its next run
+  update: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(z.object({ id: z.string() }).merge(ReportInputSchema.partial()))
+    .mutation(async ({ ctx, input }) => {
+      const { id, definition, ...data } = input;
+      const report = await ctx.prisma.report.findFirst({ where: { id } });
+      if (!report) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Report not found' });
+      }
+      if (definition && !(await campaignsExist(ctx.prisma, definition))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+      }
+
+      try {
+        const schedule = data.schedule === undefined ? report.schedule : data.schedule;
+        const timeZone =
+          definition?.timeZone ?? ReportDefinitionSchema.parse(report.definition).timeZone;
+        return await ctx.prisma.report.update({
+          where: { id },
+          data: {
+            ...data,
+            ...(definition && { definition: definition as unknown as Prisma.InputJsonValue }),
+            ...((data.schedule !== undefined || data.enabled !== undefined || definition) && {
+              nextRunAt: ctx.reports.nextRunAt(schedule, timeZone),
+            }),
+          },
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to update report', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update report',
+        });
+      }
+    }),
+
+  // Delete a report together with its runs
+  delete: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await ctx.prisma.report.findFirst({ where: { id: input.id } }))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Report not found' });
+      }
+
+      try {
+        await ctx.prisma.report.delete({ where: { id: input.id } });
+        return { success: true };
+      } catch (error) {
+        ctx.logger.error('Failed to delete report', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete report',
+        });
+      }
+    }),
+
+  // Run a report now; a failed build comes back as a FAILED run
+  runNow: protectedProcedure
+    .use(requirePermission('metrics:write'))
+    .input(
+      z.object({
+        id: z.string(),
+        // Instead of the report's recipients; an empty list only stores the run
+        recipients: z.array(z.string().email()).max(50).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const report = await ctx.prisma.report.findFirst({ where: { id: input.id } });
+      if (!report) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Report not found' });
+      }
+
+      try {
+        return await ctx.reports.run(report, {
+          trigger: 'manual',
+          triggeredById: ctx.session.user.id,
+          ...(input.recipients && { recipients: input.recipients }),
+        });
+      } catch (error) {
+        ctx.logger.error('Failed to run report', {
+          reportId: input.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to run report',
+        });
+      }
+    }),
+
+  // Past runs, newest first
+  listRuns: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(
+      z.object({
+        reportId: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where = { ...(input.reportId && { reportId: input.reportId }) };
+        const [runs, total] = await Promise.all([
+          ctx.prisma.reportRun.findMany({
+            where,
+            select: {
+              id: true,
+              reportId: true,
+              status: true,
+              trigger: true,
+              periodStart: true,
+              periodEnd: true,
+              deliveries: true,
+              error: true,
+              startedAt: true,
+              completedAt: true,
+              report: { select: { id: true, name: true } },
+              triggeredBy: { select: { id: true, name: true } },
+            },
+            orderBy: { startedAt: 'desc' },
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.reportRun.count({ where }),
+        ]);
+        return { runs, total, hasMore: total > input.offset + input.limit };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch report runs', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch report runs',
+        });
+      }
+    }),
+
+  // A completed run as a file, base64 encoded
+  download: protectedProcedure
+    .use(requirePermission('metrics:read'))
+    .input(z.object({ runId: z.string(), format: ReportFormatSchema }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const rendered = await ctx.reports.renderRun(input.runId, ctx.workspace.id, input.format);
+        if (!rendered) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Report run not found' });
+        }
+        return {
+          filename: rendered.filename,
+          contentType: rendered.contentType,
+          content: rendered.content.toString('base64'),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to render report', {
+          runId: input.runId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to render report',
+        });
+      }
+    }),
+});
@@ -1,13 +1,10 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
-import { AgentManager } from '@neonhub/core-agents';
-
-const agentManager = new AgentManager();
 
 export const seoRouter = createTRPCRouter({
   // Analyze keywords for SEO optimization
-  analyzeKeywords: protectedProcedure
+  analyzeKeywords: protectedProcedure.use(requirePermission('seo:read'))
     .input(
       z.object({
         keywords: z.array(z.string()).min(1).max(20),
@@ -19,13 +16,15 @@ export const seoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('seo-agent', {
-          task: 'analyze_keywords',
-          context: input,
+        const result = await ctx.agents.executeAgent('seo', 'analyze_keywords', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'SEO agent returned no result');
+        }
+
         ctx.logger.info('Keywords analyzed successfully', {
           keywordCount: input.keywords.length,
           industry: input.industry,
@@ -34,9 +33,13 @@ export const seoRouter = createTRPCRouter({
 
         return {
           analysis: result.data,
-          recommendations: result.data?.recommendations || [],
-          difficulty: result.data?.difficulty || {},
-          volume: result.data?.volume || {},
+          recommendations: result.data.recommendations,
+          difficulty: Object.fromEntries(
+            result.data.keywords.map(({ keyword, difficulty }) => [keyword, difficulty])
+          ),
+          volume: Object.fromEntries(
+            result.data.keywords.map(({ keyword, volume }) => [keyword, volume])
+          ),
           agentResult: result,
         };
       } catch (error) {
@@ -50,7 +53,7 @@ export const seoRouter = createTRPCRouter({
     }),
 
   // Optimize content for SEO
-  optimizeContent: protectedProcedure
+  optimizeContent: protectedProcedure.use(requirePermission('seo:write'))
     .input(
       z.object({
         content: z.string().min(1),
@@ -63,20 +66,22 @@ export const seoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('seo-agent', {
-          task: 'optimize_content',
-          context: input,
+        const result = await ctx.agents.executeAgent('seo', 'optimize_content', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'SEO agent returned no result');
+        }
+
         return {
-          optimizedContent: result.data?.optimizedContent || input.content,
-          seoScore: result.data?.seoScore || 0,
-          suggestions: result.data?.suggestions || [],
+          optimizedContent: result.data.optimizedContent,
+          seoScore: result.data.seoScore,
+          suggestions: result.data.suggestions,
           metaData: {
-            title: result.data?.metaTitle || input.metaTitle,
-            description: result.data?.metaDescription || input.metaDescription,
+            title: result.data.metaTitle,
+            description: result.data.metaDescription,
             keywords: input.targetKeywords,
           },
           agentResult: result,
@@ -92,7 +97,7 @@ export const seoRouter = createTRPCRouter({
     }),
 
   // Generate SEO-friendly titles
-  generateTitles: protectedProcedure
+  generateTitles: protectedProcedure.use(requirePermission('seo:write'))
     .input(
       z.object({
         topic: z.string().min(1).max(200),
@@ -105,16 +110,20 @@ export const seoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('seo-agent', {
-          task: 'generate_titles',
-          context: input,
+        const result = await ctx.agents.executeAgent('seo', 'generate_titles', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'SEO agent returned no result');
+        }
+
         return {
-          titles: result.data?.titles || [],
-          seoScores: result.data?.seoScores || {},
+          titles: result.data.titles.map(({ title }) => title),
+          seoScores: Object.fromEntries(
+            result.data.titles.map(({ title, seoScore }) => [title, seoScore])
+          ),
           agentResult: result,
         };
       } catch (error) {
@@ -128,7 +137,7 @@ export const seoRouter = createTRPCRouter({
     }),
 
   // Generate meta descriptions
-  generateMetaDescriptions: protectedProcedure
+  generateMetaDescriptions: protectedProcedure.use(requirePermission('seo:write'))
     .input(
       z.object({
         title: z.string().min(1).max(200),
@@ -140,15 +149,17 @@ export const seoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('seo-agent', {
-          task: 'generate_meta_descriptions',
-          context: input,
+        const result = await ctx.agents.executeAgent('seo', 'generate_meta_descriptions', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'SEO agent returned no result');
+        }
+
         return {
-          descriptions: result.data?.descriptions || [],
+          descriptions: result.data.descriptions,
           agentResult: result,
         };
       } catch (error) {
@@ -162,7 +173,7 @@ export const seoRouter = createTRPCRouter({
     }),
 
   // Audit website SEO
-  auditWebsite: protectedProcedure
+  auditWebsite: protectedProcedure.use(requirePermission('seo:read'))
     .input(
       z.object({
         url: z.string().url(),
@@ -174,20 +185,22 @@ export const seoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('seo-agent', {
-          task: 'audit_website',
-          context: input,
+        const result = await ctx.agents.executeAgent('seo', 'audit_website', input, {
           priority: 'high',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'SEO agent returned no result');
+        }
+
         return {
-          overallScore: result.data?.overallScore || 0,
-          technicalSEO: result.data?.technicalSEO || {},
-          onPageSEO: result.data?.onPageSEO || {},
-          contentAnalysis: result.data?.contentAnalysis || {},
-          recommendations: result.data?.recommendations || [],
-          criticalIssues: result.data?.criticalIssues || [],
+          overallScore: result.data.overallScore,
+          technicalSEO: result.data.technicalSEO,
+          onPageSEO: result.data.onPageSEO,
+          contentAnalysis: result.data.contentAnalysis,
+          recommendations: result.data.recommendations,
+          criticalIssues: result.data.criticalIssues,
           agentResult: result,
         };
       } catch (error) {
@@ -201,7 +214,7 @@ export const seoRouter = createTRPCRouter({
     }),
 
   // Track keyword rankings
-  trackKeywords: protectedProcedure
+  trackKeywords: protectedProcedure.use(requirePermission('seo:read'))
     .input(
       z.object({
         website: z.string().url(),
@@ -213,15 +226,17 @@ export const seoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('seo-agent', {
-          task: 'track_keywords',
-          context: input,
+        const result = await ctx.agents.executeAgent('seo', 'track_keywords', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'SEO agent returned no result');
+        }
+
         // Store tracking data
-        await ctx.prisma.analytics.create({
+        const analytics = await ctx.prisma.analytics.create({
           data: {
             userId: ctx.session.user.id,
             type: 'PERFORMANCE',
@@ -229,16 +244,18 @@ export const seoRouter = createTRPCRouter({
               type: 'keyword_tracking',
               website: input.website,
               keywords: input.keywords,
-              rankings: result.data?.rankings || {},
+              rankings: result.data.rankings,
               timestamp: new Date().toISOString(),
             },
           },
         });
 
+        await ctx.rollups.apply([analytics]);
+
         return {
-          rankings: result.data?.rankings || {},
-          changes: result.data?.changes || {},
-          insights: result.data?.insights || [],
+          rankings: result.data.rankings,
+          changes: result.data.changes,
+          insights: result.data.insights,
           agentResult: result,
         };
       } catch (error) {
@@ -252,7 +269,7 @@ export const seoRouter = createTRPCRouter({
     }),
 
   // Get competitor analysis
-  analyzeCompetitors: protectedProcedure
+  analyzeCompetitors: protectedProcedure.use(requirePermission('seo:read'))
     .input(
       z.object({
         website: z.string().url(),
@@ -263,18 +280,20 @@ export const seoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('seo-agent', {
-          task: 'analyze_competitors',
-          context: input,
+        const result = await ctx.agents.executeAgent('seo', 'analyze_competitors', input, {
           priority: 'high',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'SEO agent returned no result');
+        }
+
         return {
-          competitorData: result.data?.competitors || {},
-          keywordGaps: result.data?.keywordGaps || [],
-          contentGaps: result.data?.contentGaps || [],
-          opportunities: result.data?.opportunities || [],
+          competitorData: result.data.competitors,
+          keywordGaps: result.data.keywordGaps,
+          contentGaps: result.data.contentGaps,
+          opportunities: result.data.opportunities,
           agentResult: result,
         };
       } catch (error) {
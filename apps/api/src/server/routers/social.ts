@@ -1,13 +1,43 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
-import { AgentManager } from '@neonhub/core-agents';
+import { WorkflowDefinitionSchema } from '@neonhub/core-agents';
+import { ctr, engagementRate } from '@neonhub/utils';
+import { workflowRunStore } from '../jobs/workflow-run-store';
+import { rangeStart, TimeZoneSchema, type MetricSelector } from '../metric-rollups';
 
-const agentManager = new AgentManager();
+// Social analytics are PERFORMANCE events tagged `social_analytics`; each one is a post
+const SOCIAL_METRICS = Object.fromEntries(
+  ['reach', 'engagement', 'clicks', 'shares', 'comments', 'likes', 'events'].map(metric => [
+    metric === 'events' ? 'posts' : metric,
+    { type: 'PERFORMANCE', metric: `social_analytics.${metric}` },
+  ])
+) as Record<'reach' | 'engagement' | 'clicks' | 'shares' | 'comments' | 'likes' | 'posts', MetricSelector>;
+
+// One approval-gated publish per platform
+const PUBLISH_POST_WORKFLOW = WorkflowDefinitionSchema.parse({
+  name: 'publish-post',
+  steps: [
+    {
+      id: 'publish',
+      action: 'social.publish_post',
+      forEach: { items: 'input.platforms' },
+      input: {
+        platform: { $ref: 'item' },
+        text: { $ref: 'input.text' },
+        hashtags: { $ref: 'input.hashtags' },
+        images: { $ref: 'input.images' },
+        video: { $ref: 'input.video' },
+        link: { $ref: 'input.link' },
+        campaignId: { $ref: 'input.campaignId' },
+      },
+    },
+  ],
+});
 
 export const socialRouter = createTRPCRouter({
   // Post to social media platforms
-  publishPost: protectedProcedure
+  publishPost: protectedProcedure.use(requirePermission('social:publish'))
     .input(
       z.object({
         platforms: z.array(z.enum(['FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'TWITTER', 'LINKEDIN'])).min(1),
@@ -17,65 +47,56 @@ export const socialRouter = createTRPCRouter({
           video: z.string().url().optional(),
           link: z.string().url().optional(),
         }),
-        scheduling: z.object({
-          publishNow: z.boolean().default(true),
-          scheduledTime: z.date().optional(),
-          timezone: z.string().default('UTC'),
-        }),
         campaignId: z.string().optional(),
         hashtags: z.array(z.string()).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('social-agent', {
-          task: 'publish_post',
-          context: {
+        if (input.campaignId) {
+          const campaign = await ctx.prisma.campaign.findFirst({
+            where: { id: input.campaignId },
+            select: { id: true },
+          });
+          if (!campaign) {
+            throw new TRPCError({
+              code: 'NOT_FOUND',
+              message: 'Campaign not found',
+            });
+          }
+        }
+
+        // Publishing goes out under the brand's name, so each platform waits for approval
+        const run = await workflowRunStore.create({
+          definition: PUBLISH_POST_WORKFLOW,
+          input: {
             platforms: input.platforms,
-            content: input.content,
-            scheduling: input.scheduling,
-            hashtags: input.hashtags,
-            campaignId: input.campaignId,
+            text: input.content.text,
+            hashtags: input.hashtags ?? [],
+            images: input.content.images ?? [],
+            ...(input.content.video && { video: input.content.video }),
+            ...(input.content.link && { link: input.content.link }),
+            ...(input.campaignId && { campaignId: input.campaignId }),
           },
-          priority: input.scheduling.publishNow ? 'high' : 'medium',
-          metadata: { userId: ctx.session.user.id },
+          userId: ctx.session.user.id,
+          workspaceId: ctx.workspace.id,
+          ...(input.campaignId && { campaignId: input.campaignId }),
         });
 
-        // Record analytics for each platform
-        for (const platform of input.platforms) {
-          await ctx.prisma.analytics.create({
-            data: {
-              userId: ctx.session.user.id,
-              campaignId: input.campaignId,
-              type: 'PERFORMANCE',
-              data: {
-                type: 'social_post',
-                platform,
-                contentLength: input.content.text.length,
-                hasImages: (input.content.images?.length || 0) > 0,
-                hasVideo: !!input.content.video,
-                scheduled: !input.scheduling.publishNow,
-                result: result.data?.[platform] || {},
-              },
-            },
-          });
-        }
-
-        ctx.logger.info('Social post published', {
+        ctx.logger.info('Social post queued for approval', {
           platforms: input.platforms,
           campaignId: input.campaignId,
-          scheduled: !input.scheduling.publishNow,
+          workflowRunId: run.id,
           userId: ctx.session.user.id,
         });
 
         return {
-          success: result.success,
+          workflowRunId: run.id,
+          status: run.status,
           platforms: input.platforms,
-          postIds: result.data?.postIds || {},
-          scheduledFor: input.scheduling.scheduledTime,
-          agentResult: result,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         ctx.logger.error('Failed to publish social post', { error: errorMessage });
         throw new TRPCError({
@@ -86,7 +107,7 @@ export const socialRouter = createTRPCRouter({
     }),
 
   // Generate social media content
-  generateContent: protectedProcedure
+  generateContent: protectedProcedure.use(requirePermission('social:write'))
     .input(
       z.object({
         platform: z.enum(['FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'TWITTER', 'LINKEDIN']),
@@ -102,13 +123,15 @@ export const socialRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('social-agent', {
-          task: 'generate_content',
-          context: input,
+        const result = await ctx.agents.executeAgent('social', 'generate_content', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Social agent returned no result');
+        }
+
         // Save generated content
         const content = await ctx.prisma.content.create({
           data: {
@@ -127,9 +150,9 @@ export const socialRouter = createTRPCRouter({
 
         return {
           content,
-          generatedText: result.data?.text || '',
-          hashtags: result.data?.hashtags || [],
-          suggestions: result.data?.suggestions || [],
+          generatedText: result.data.text,
+          hashtags: result.data.hashtags,
+          suggestions: result.data.suggestions,
           agentResult: result,
         };
       } catch (error) {
@@ -143,7 +166,7 @@ export const socialRouter = createTRPCRouter({
     }),
 
   // Schedule content calendar
-  scheduleCalendar: protectedProcedure
+  scheduleCalendar: protectedProcedure.use(requirePermission('social:write'))
     .input(
       z.object({
         campaignId: z.string(),
@@ -164,10 +187,7 @@ export const socialRouter = createTRPCRouter({
       try {
         // Verify campaign ownership
         const campaign = await ctx.prisma.campaign.findFirst({
-          where: {
-            id: input.campaignId,
-            userId: ctx.session.user.id,
-          },
+          where: { id: input.campaignId },
         });
 
         if (!campaign) {
@@ -177,18 +197,22 @@ export const socialRouter = createTRPCRouter({
           });
         }
 
-        const result = await agentManager.executeAgent('social-agent', {
-          task: 'schedule_calendar',
-          context: {
-            campaignId: input.campaignId,
-            calendar: input.calendar,
-          },
-          priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
-        });
+        const result = await ctx.agents.executeAgent(
+          'social',
+          'schedule_calendar',
+          { campaignId: input.campaignId, calendar: input.calendar },
+          {
+            priority: 'medium',
+            metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
+          }
+        );
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Social agent returned no result');
+        }
 
         // Record calendar analytics
-        await ctx.prisma.analytics.create({
+        const analytics = await ctx.prisma.analytics.create({
           data: {
             userId: ctx.session.user.id,
             campaignId: input.campaignId,
@@ -206,9 +230,12 @@ export const socialRouter = createTRPCRouter({
           },
         });
 
+        await ctx.rollups.apply([analytics]);
+
         return {
           success: result.success,
-          scheduledCount: input.calendar.length,
+          scheduledCount: result.data.scheduled.length,
+          skippedCount: result.data.skipped,
           platforms: [...new Set(input.calendar.map(item => item.platform))],
           agentResult: result,
         };
@@ -223,13 +250,14 @@ export const socialRouter = createTRPCRouter({
     }),
 
   // Get social media analytics
-  getAnalytics: protectedProcedure
+  getAnalytics: protectedProcedure.use(requirePermission('social:read'))
     .input(
       z.object({
         platform: z.enum(['FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'TWITTER', 'LINKEDIN']).optional(),
         campaignId: z.string().optional(),
         timeRange: z.enum(['7d', '30d', '90d']).default('30d'),
         metrics: z.array(z.enum(['reach', 'engagement', 'clicks', 'shares', 'comments', 'likes'])).optional(),
+        timeZone: TimeZoneSchema,
       })
     )
     .query(async ({ ctx, input }) => {
@@ -240,80 +268,45 @@ export const socialRouter = createTRPCRouter({
           '90d': 90,
         }[input.timeRange];
 
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - daysAgo);
-
-        const where: any = {
-          userId: ctx.session.user.id,
-          date: { gte: startDate },
-          data: {
-            path: ['type'],
-            equals: 'social_analytics',
-          },
-        };
-
-        if (input.campaignId) {
-          where.campaignId = input.campaignId;
-        }
-
-        if (input.platform) {
-          where.data.path = ['platform'];
-          where.data.equals = input.platform;
-        }
-
-        const analytics = await ctx.prisma.analytics.findMany({
-          where,
-          orderBy: { date: 'desc' },
+        const rollup = await ctx.rollups.query(ctx.workspace.id, {
+          from: rangeStart(daysAgo, input.timeZone),
+          to: new Date(),
+          size: 'day',
+          timeZone: input.timeZone,
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          ...(input.platform && { platform: input.platform }),
+          metrics: SOCIAL_METRICS,
         });
 
         // Aggregate metrics by platform
-        const platformMetrics = analytics.reduce((acc: any, analytic) => {
-          const data = analytic.data as any;
-          const platform = data.platform;
-          
-          if (!acc[platform]) {
-            acc[platform] = {
-              reach: 0,
-              engagement: 0,
-              clicks: 0,
-              shares: 0,
-              comments: 0,
-              likes: 0,
-              posts: 0,
-            };
-          }
-
-          acc[platform].reach += data.reach || 0;
-          acc[platform].engagement += data.engagement || 0;
-          acc[platform].clicks += data.clicks || 0;
-          acc[platform].shares += data.shares || 0;
-          acc[platform].comments += data.comments || 0;
-          acc[platform].likes += data.likes || 0;
-          acc[platform].posts += 1;
-
-          return acc;
-        }, {});
+        const platformMetrics = Object.fromEntries(
+          Object.entries(rollup.platforms).map(([platform, totals]) => [
+            platform,
+            {
+              ...totals,
+              // Social platforms report reach rather than impressions
+              engagementRate: engagementRate(totals.engagement, totals.reach),
+              clickThroughRate: ctr(totals.clicks, totals.reach),
+            },
+          ])
+        );
 
-        // Calculate engagement rates
-        Object.keys(platformMetrics).forEach(platform => {
-          const metrics = platformMetrics[platform];
-          metrics.engagementRate = metrics.reach > 0 ? (metrics.engagement / metrics.reach) * 100 : 0;
-          metrics.clickThroughRate = metrics.reach > 0 ? (metrics.clicks / metrics.reach) * 100 : 0;
-        });
+        const requested = input.metrics ?? ['reach', 'engagement', 'clicks', 'shares', 'comments', 'likes'];
 
         return {
           timeRange: input.timeRange,
           platforms: platformMetrics,
           summary: {
-            totalReach: Object.values(platformMetrics).reduce((sum: number, metrics: any) => sum + metrics.reach, 0),
-            totalEngagement: Object.values(platformMetrics).reduce((sum: number, metrics: any) => sum + metrics.engagement, 0),
-            totalPosts: Object.values(platformMetrics).reduce((sum: number, metrics: any) => sum + metrics.posts, 0),
-            avgEngagementRate: this.calculateAverageEngagementRate(Object.values(platformMetrics)),
+            totalReach: rollup.totals.reach,
+            totalEngagement: rollup.totals.engagement,
+            totalPosts: rollup.totals.posts,
+            // Over all reach, so a small platform does not weigh as much as a large one
+            avgEngagementRate: engagementRate(rollup.totals.engagement, rollup.totals.reach),
           },
-          trends: analytics.map(a => ({
-            date: a.date,
-            platform: (a.data as any).platform,
-            metrics: a.data,
+          // Daily totals, with days starting at midnight in the requested time zone
+          trends: rollup.series.map(bucket => ({
+            date: bucket.start,
+            metrics: Object.fromEntries(requested.map(name => [name, bucket.values[name] ?? 0])),
           })),
         };
       } catch (error) {
@@ -327,7 +320,7 @@ export const socialRouter = createTRPCRouter({
     }),
 
   // Manage social media accounts
-  manageAccounts: protectedProcedure
+  manageAccounts: protectedProcedure.use(requirePermission('social:write'))
     .input(
       z.object({
         action: z.enum(['connect', 'disconnect', 'refresh', 'list']),
@@ -342,13 +335,15 @@ export const socialRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('social-agent', {
-          task: 'manage_accounts',
-          context: input,
+        const result = await ctx.agents.executeAgent('social', 'manage_accounts', input, {
           priority: 'high',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Social agent returned no result');
+        }
+
         ctx.logger.info('Social account managed', {
           action: input.action,
           platform: input.platform,
@@ -357,8 +352,8 @@ export const socialRouter = createTRPCRouter({
 
         return {
           success: result.success,
-          accounts: result.data?.accounts || [],
-          status: result.data?.status || {},
+          accounts: result.data.accounts,
+          status: result.data.status,
           agentResult: result,
         };
       } catch (error) {
@@ -370,11 +365,4 @@ export const socialRouter = createTRPCRouter({
         });
       }
     }),
-
-  // Helper method
-  calculateAverageEngagementRate: (platformMetrics: any[]) => {
-    if (platformMetrics.length === 0) return 0;
-    const totalRate = platformMetrics.reduce((sum: number, metrics: any) => sum + (metrics.engagementRate || 0), 0);
-    return totalRate / platformMetrics.length;
-  },
-});
\ No newline at end of file
+});
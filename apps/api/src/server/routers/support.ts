@@ -1,13 +1,11 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
 import { TRPCError } from '@trpc/server';
-import { AgentManager } from '@neonhub/core-agents';
-
-const agentManager = new AgentManager();
+import { percentage, ratio, roundMetric } from '@neonhub/utils';
 
 export const supportRouter = createTRPCRouter({
   // Handle customer support ticket
-  handleTicket: protectedProcedure
+  handleTicket: protectedProcedure.use(requirePermission('support:write'))
     .input(
       z.object({
         ticketId: z.string(),
@@ -32,18 +30,24 @@ export const supportRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('support-agent', {
-          task: 'handle_ticket',
-          context: {
-            ticket: input,
-            userId: ctx.session.user.id,
-          },
-          priority: input.customerInfo.priority as any,
-          metadata: { userId: ctx.session.user.id },
-        });
+        const result = await ctx.agents.executeAgent(
+          'support',
+          'handle_ticket',
+          { ticket: input },
+          {
+            // Urgent tickets run as critical so they can preempt low priority work
+            priority:
+              input.customerInfo.priority === 'urgent' ? 'critical' : input.customerInfo.priority,
+            metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
+          }
+        );
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Support agent returned no result');
+        }
 
         // Record support analytics
-        await ctx.prisma.analytics.create({
+        const analytics = await ctx.prisma.analytics.create({
           data: {
             userId: ctx.session.user.id,
             type: 'PERFORMANCE',
@@ -53,28 +57,30 @@ export const supportRouter = createTRPCRouter({
               category: input.issue.category,
               priority: input.customerInfo.priority,
               customerEmail: input.customerInfo.email,
-              resolved: result.data?.resolved || false,
-              responseTime: result.performance || 0,
+              resolved: result.data.resolved,
+              responseTime: result.performance ?? 0,
               result: result.data,
             },
           },
         });
 
+        await ctx.rollups.apply([analytics]);
+
         ctx.logger.info('Support ticket handled', {
           ticketId: input.ticketId,
           category: input.issue.category,
           priority: input.customerInfo.priority,
-          resolved: result.data?.resolved || false,
+          resolved: result.data.resolved,
           userId: ctx.session.user.id,
         });
 
         return {
           ticketId: input.ticketId,
-          response: result.data?.response || '',
-          status: result.data?.status || 'open',
-          estimatedResolutionTime: result.data?.estimatedResolutionTime || null,
-          nextSteps: result.data?.nextSteps || [],
-          escalated: result.data?.escalated || false,
+          response: result.data.response,
+          status: result.data.status,
+          estimatedResolutionTime: result.data.estimatedResolutionTime,
+          nextSteps: result.data.nextSteps,
+          escalated: result.data.escalated,
           agentResult: result,
         };
       } catch (error) {
@@ -88,7 +94,7 @@ export const supportRouter = createTRPCRouter({
     }),
 
   // Generate FAQ responses
-  generateFAQ: protectedProcedure
+  generateFAQ: protectedProcedure.use(requirePermission('support:write'))
     .input(
       z.object({
         category: z.enum(['technical', 'billing', 'general', 'product']),
@@ -104,17 +110,19 @@ export const supportRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('support-agent', {
-          task: 'generate_faq',
-          context: input,
+        const result = await ctx.agents.executeAgent('support', 'generate_faq', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Support agent returned no result');
+        }
+
         return {
-          faqs: result.data?.faqs || [],
+          faqs: result.data.faqs,
           category: input.category,
-          generatedCount: result.data?.faqs?.length || 0,
+          generatedCount: result.data.faqs.length,
           agentResult: result,
         };
       } catch (error) {
@@ -128,7 +136,7 @@ export const supportRouter = createTRPCRouter({
     }),
 
   // Create chatbot responses
-  createChatbotFlow: protectedProcedure
+  createChatbotFlow: protectedProcedure.use(requirePermission('support:write'))
     .input(
       z.object({
         flowName: z.string().min(1).max(100),
@@ -145,15 +153,17 @@ export const supportRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('support-agent', {
-          task: 'create_chatbot_flow',
-          context: input,
+        const result = await ctx.agents.executeAgent('support', 'create_chatbot_flow', input, {
           priority: 'medium',
-          metadata: { userId: ctx.session.user.id },
+          metadata: { userId: ctx.session.user.id, workspaceId: ctx.workspace.id },
         });
 
+        if (!result.success || !result.data) {
+          throw new Error(result.error ?? 'Support agent returned no result');
+        }
+
         // Store chatbot flow configuration
-        await ctx.prisma.analytics.create({
+        const analytics = await ctx.prisma.analytics.create({
           data: {
             userId: ctx.session.user.id,
             type: 'PERFORMANCE',
@@ -168,10 +178,13 @@ export const supportRouter = createTRPCRouter({
           },
         });
 
+        await ctx.rollups.apply([analytics]);
+
         return {
-          flowId: result.data?.flowId || '',
+          flowId: result.data.flowId,
           flowName: input.flowName,
-          status: result.data?.status || 'active',
+          status: result.data.status,
+          problems: result.data.problems,
           agentResult: result,
         };
       } catch (error) {
@@ -185,7 +198,7 @@ export const supportRouter = createTRPCRouter({
     }),
 
   // Analyze support sentiment
-  analyzeSentiment: protectedProcedure
+  analyzeSentiment: protectedProcedure.use(requirePermission('support:read'))
     .input(
       z.object({
         timeRange: z.enum(['7d', '30d', '90d']).default('30d'),
@@ -246,11 +259,11 @@ export const supportRouter = createTRPCRouter({
           resolutionCount: 0,
         });
 
-        // Calculate percentages
-        const positiveRate = sentimentData.total > 0 ? (sentimentData.positive / sentimentData.total) * 100 : 0;
-        const neutralRate = sentimentData.total > 0 ? (sentimentData.neutral / sentimentData.total) * 100 : 0;
-        const negativeRate = sentimentData.total > 0 ? (sentimentData.negative / sentimentData.total) * 100 : 0;
-        const resolutionRate = sentimentData.resolutionCount > 0 ? (sentimentData.resolved / sentimentData.resolutionCount) * 100 : 0;
+        // Percentages are null when there is nothing to count
+        const positiveRate = percentage(sentimentData.positive, sentimentData.total);
+        const neutralRate = percentage(sentimentData.neutral, sentimentData.total);
+        const negativeRate = percentage(sentimentData.negative, sentimentData.total);
+        const resolutionRate = percentage(sentimentData.resolved, sentimentData.resolutionCount);
 
         return {
           timeRange: input.timeRange,
@@ -258,21 +271,21 @@ export const supportRouter = createTRPCRouter({
           sentiment: {
             positive: {
               count: sentimentData.positive,
-              percentage: Math.round(positiveRate * 100) / 100,
+              percentage: roundMetric(positiveRate),
             },
             neutral: {
               count: sentimentData.neutral,
-              percentage: Math.round(neutralRate * 100) / 100,
+              percentage: roundMetric(neutralRate),
             },
             negative: {
               count: sentimentData.negative,
-              percentage: Math.round(negativeRate * 100) / 100,
+              percentage: roundMetric(negativeRate),
             },
           },
           resolution: input.includeResolutionData ? {
             resolved: sentimentData.resolved,
             total: sentimentData.resolutionCount,
-            rate: Math.round(resolutionRate * 100) / 100,
+            rate: roundMetric(resolutionRate),
           } : undefined,
           trends: analytics.map(a => ({
             date: a.date,
@@ -289,8 +302,8 @@ export const supportRouter = createTRPCRouter({
       }
     }),
 
-  // WhatsApp integration
-  sendWhatsAppMessage: protectedProcedure
+  // WhatsApp integration; messages are sent once a manager approves them
+  sendWhatsAppMessage: protectedProcedure.use(requirePermission('support:send'))
     .input(
       z.object({
         recipient: z.string().min(1),
@@ -306,21 +319,31 @@ export const supportRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const result = await agentManager.executeAgent('support-agent', {
+        const agent = ctx.agents.resolveAgent('support');
+        if (!agent) {
+          throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'No support agent is active' });
+        }
+
+        // Messages go out under the brand's name, so they wait for a manager's approval
+        const { execution, approval } = await ctx.approvals.enqueueExecution({
+          agentId: agent.id,
+          agentType: agent.type,
+          sideEffect: 'contact',
           task: 'send_whatsapp',
-          context: {
+          payload: {
             recipient: input.recipient,
             message: input.message,
-            templateId: input.templateId,
-            variables: input.variables,
-            campaignId: input.campaignId,
+            ...(input.templateId && { templateId: input.templateId }),
+            ...(input.variables && { variables: input.variables }),
+            ...(input.campaignId && { campaignId: input.campaignId }),
           },
-          priority: 'high',
-          metadata: { userId: ctx.session.user.id },
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          userId: ctx.session.user.id,
+          workspaceId: ctx.workspace.id,
         });
 
         // Record WhatsApp analytics
-        await ctx.prisma.analytics.create({
+        const analytics = await ctx.prisma.analytics.create({
           data: {
             userId: ctx.session.user.id,
             campaignId: input.campaignId,
@@ -331,18 +354,16 @@ export const supportRouter = createTRPCRouter({
               messageLength: input.message.text.length,
               hasMedia: !!input.message.mediaUrl,
               templateUsed: !!input.templateId,
-              result: result.data,
+              executionId: execution.id,
             },
           },
         });
 
-        return {
-          success: result.success,
-          messageId: result.data?.messageId || '',
-          status: result.data?.status || 'sent',
-          agentResult: result,
-        };
+        await ctx.rollups.apply([analytics]);
+
+        return { execution, approval };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         ctx.logger.error('Failed to send WhatsApp message', { error: errorMessage });
         throw new TRPCError({
@@ -353,7 +374,7 @@ export const supportRouter = createTRPCRouter({
     }),
 
   // Get support performance metrics
-  getPerformanceMetrics: protectedProcedure
+  getPerformanceMetrics: protectedProcedure.use(requirePermission('support:read'))
     .input(
       z.object({
         timeRange: z.enum(['7d', '30d', '90d']).default('30d'),
@@ -414,9 +435,9 @@ export const supportRouter = createTRPCRouter({
           categoryBreakdown: {},
         });
 
-        const avgResponseTime = metrics.totalTickets > 0 ? metrics.totalResponseTime / metrics.totalTickets : 0;
-        const resolutionRate = metrics.totalTickets > 0 ? (metrics.resolvedTickets / metrics.totalTickets) * 100 : 0;
-        const escalationRate = metrics.totalTickets > 0 ? (metrics.escalatedTickets / metrics.totalTickets) * 100 : 0;
+        const avgResponseTime = ratio(metrics.totalResponseTime, metrics.totalTickets);
+        const resolutionRate = percentage(metrics.resolvedTickets, metrics.totalTickets);
+        const escalationRate = percentage(metrics.escalatedTickets, metrics.totalTickets);
 
         return {
           timeRange: input.timeRange,
@@ -424,9 +445,9 @@ export const supportRouter = createTRPCRouter({
           summary: {
             totalTickets: metrics.totalTickets,
             resolvedTickets: metrics.resolvedTickets,
-            resolutionRate: Math.round(resolutionRate * 100) / 100,
-            avgResponseTime: Math.round(avgResponseTime * 100) / 100,
-            escalationRate: Math.round(escalationRate * 100) / 100,
+            resolutionRate: roundMetric(resolutionRate),
+            avgResponseTime: roundMetric(avgResponseTime),
+            escalationRate: roundMetric(escalationRate),
           },
           breakdown: {
             priority: metrics.priorityBreakdown,
@@ -1,15 +1,18 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { createTRPCRouter, publicProcedure, protectedProcedure, workspaceProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { percentage, roundMetric } from '@neonhub/utils';
+import { getPermissions } from '../permissions';
 
 export const userRouter = createTRPCRouter({
-  // Get current user profile
-  me: protectedProcedure.query(async ({ ctx }) => {
+  // Get current user profile, with the current workspace and what the user's role there allows
+  me: workspaceProcedure.query(async ({ ctx }) => {
     try {
-      const user = await ctx.prisma.user.findUnique({
+      const record = await ctx.prisma.user.findUnique({
         where: { id: ctx.session.user.id },
         include: {
           campaigns: {
+            where: { workspaceId: ctx.workspace.id },
             select: {
               id: true,
               name: true,
@@ -20,6 +23,7 @@ export const userRouter = createTRPCRouter({
             orderBy: { createdAt: 'desc' },
           },
           agentExecutions: {
+            where: { workspaceId: ctx.workspace.id },
             select: {
               id: true,
               task: true,
@@ -32,15 +36,25 @@ export const userRouter = createTRPCRouter({
         },
       });
 
-      if (!user) {
+      if (!record) {
         throw new TRPCError({
           code: 'NOT_FOUND',
           message: 'User not found',
         });
       }
 
-      return user;
+      const { passwordHash, ...user } = record;
+      return {
+        ...user,
+        hasPassword: passwordHash !== null,
+        workspace: ctx.workspace,
+        permissions: getPermissions({
+          userRole: ctx.session.user.role,
+          workspaceRole: ctx.workspace.role,
+        }),
+      };
     } catch (error) {
+      if (error instanceof TRPCError) throw error;
       ctx.logger.error('Failed to fetch user profile:', error);
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
@@ -59,14 +73,14 @@ export const userRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const user = await ctx.prisma.user.update({
+        const { passwordHash, ...user } = await ctx.prisma.user.update({
           where: { id: ctx.session.user.id },
           data: input,
         });
 
         ctx.logger.info(`User profile updated: ${ctx.session.user.id}`);
 
-        return user;
+        return { ...user, hasPassword: passwordHash !== null };
       } catch (error) {
         ctx.logger.error('Failed to update user profile:', error);
         throw new TRPCError({
@@ -76,8 +90,8 @@ export const userRouter = createTRPCRouter({
       }
     }),
 
-  // Get user stats
-  getStats: protectedProcedure.query(async ({ ctx }) => {
+  // Get the user's stats in the current workspace
+  getStats: workspaceProcedure.query(async ({ ctx }) => {
     try {
       const [
         totalCampaigns,
@@ -105,14 +119,14 @@ export const userRouter = createTRPCRouter({
         }),
       ]);
 
-      const successRate = totalExecutions > 0 ? (successfulExecutions / totalExecutions) * 100 : 0;
+      const successRate = percentage(successfulExecutions, totalExecutions);
 
       return {
         totalCampaigns,
         activeCampaigns,
         totalExecutions,
         successfulExecutions,
-        successRate: Math.round(successRate * 100) / 100,
+        successRate: roundMetric(successRate),
       };
     } catch (error) {
       ctx.logger.error('Failed to fetch user stats:', error);
@@ -0,0 +1,272 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  DEFAULT_WORKFLOWS,
+  WorkflowDefinitionSchema,
+  type WorkflowDefinition,
+} from '@neonhub/core-agents';
+import type { Prisma } from '@neonhub/data-model';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import { workflowRunStore } from '../jobs/workflow-run-store';
+import { workflowEngine } from '../workflow-engine';
+
+const RunStatusSchema = z.enum([
+  'PENDING',
+  'PAUSED',
+  'RUNNING',
+  'AWAITING_APPROVAL',
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+]);
+
+function assertRunnable(definition: WorkflowDefinition): void {
+  const problems = workflowEngine.validate(definition);
+  if (problems.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: problems.join('; ') });
+  }
+}
+
+export const workflowRouter = createTRPCRouter({
+  // Built-in workflows that can be started by name, and the actions steps may use
+  getTemplates: protectedProcedure.use(requirePermission('workflow:read')).query(() => ({
+    templates: DEFAULT_WORKFLOWS,
+    actions: workflowEngine.getActionNames(),
+  })),
+
+  // List the workspace's saved workflows
+  list: protectedProcedure.use(requirePermission('workflow:read')).query(async ({ ctx }) => {
+    try {
+      return await ctx.prisma.workflow.findMany({
+        where: { isActive: true },
+        orderBy: { updatedAt: 'desc' },
+      });
+    } catch (error) {
+      ctx.logger.error('Failed to fetch workflows', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch workflows',
+      });
+    }
+  }),
+
+  // Check a definition without saving it
+  validate: protectedProcedure
+    .use(requirePermission('workflow:read'))
+    .input(z.object({ definition: WorkflowDefinitionSchema }))
+    .query(({ input }) => ({ problems: workflowEngine.validate(input.definition) })),
+
+  // Create or update a saved workflow
+  save: protectedProcedure
+    .use(requirePermission('workflow:write'))
+    .input(z.object({ id: z.string().optional(), definition: WorkflowDefinitionSchema }))
+    .mutation(async ({ ctx, input }) => {
+      assertRunnable(input.definition);
+
+      try {
+        const data = {
+          name: input.definition.name,
+          description: input.definition.description ?? null,
+          definition: input.definition as unknown as Prisma.InputJsonValue,
+        };
+
+        if (input.id) {
+          const existing = await ctx.prisma.workflow.findFirst({
+            where: { id: input.id },
+            select: { id: true },
+          });
+          if (!existing) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Workflow not found' });
+          }
+        }
+
+        // Running workflows keep the definition they started with
+        return input.id
+          ? await ctx.prisma.workflow.update({ where: { id: input.id }, data })
+          : await ctx.prisma.workflow.create({ data: { ...data, userId: ctx.session.user.id } });
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error('Failed to save workflow', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save workflow',
+        });
+      }
+    }),
+
+  // Hide a saved workflow; its past runs stay available
+  archive: protectedProcedure
+    .use(requirePermission('workflow:write'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.prisma.workflow.updateMany({
+        where: { id: input.id },
+        data: { isActive: false },
+      });
+      if (count === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Workflow not found' });
+      }
+      return { success: true };
+    }),
+
+  // Queue a run of a saved workflow, a built-in template or an ad-hoc definition
+  start: protectedProcedure
+    .use(requirePermission('workflow:execute'))
+    .input(
+      z
+        .object({
+          workflowId: z.string().optional(),
+          template: z.string().optional(),
+          definition: WorkflowDefinitionSchema.optional(),
+          input: z.record(z.unknown()).default({}),
+          campaignId: z.string().optional(),
+        })
+        .refine(
+          input =>
+            [input.workflowId, input.template, input.definition].filter(Boolean).length === 1,
+          { message: 'Provide exactly one of workflowId, template or definition' }
+        )
+    )
+    .mutation(async ({ ctx, input }) => {
+      let definition = input.definition;
+      if (input.workflowId) {
+        const workflow = await ctx.prisma.workflow.findFirst({
+          where: { id: input.workflowId, isActive: true },
+        });
+        if (!workflow) throw new TRPCError({ code: 'NOT_FOUND', message: 'Workflow not found' });
+        definition = WorkflowDefinitionSchema.parse(workflow.definition);
+      } else if (input.template) {
+        definition = DEFAULT_WORKFLOWS.find(template => template.name === input.template);
+        if (!definition) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Workflow template not found' });
+        }
+      }
+      if (!definition) throw new TRPCError({ code: 'BAD_REQUEST' });
+      assertRunnable(definition);
+
+      if (input.campaignId) {
+        const campaign = await ctx.prisma.campaign.findFirst({
+          where: { id: input.campaignId },
+          select: { id: true },
+        });
+        if (!campaign) throw new TRPCError({ code: 'NOT_FOUND', message: 'Campaign not found' });
+      }
+
+      try {
+        const run = await workflowRunStore.create({
+          definition,
+          // Steps read the campaign from the run input as well
+          input: input.campaignId ? { campaignId: input.campaignId, ...input.input } : input.input,
+          userId: ctx.session.user.id,
+          workspaceId: ctx.workspace.id,
+          ...(input.workflowId && { workflowId: input.workflowId }),
+          ...(input.campaignId && { campaignId: input.campaignId }),
+        });
+
+        ctx.logger.info('Workflow run queued', {
+          workflowRunId: run.id,
+          workflow: run.name,
+          campaignId: input.campaignId,
+        });
+        return run;
+      } catch (error) {
+        ctx.logger.error('Failed to start workflow', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to start workflow',
+        });
+      }
+    }),
+
+  // Get a run with the progress of each step
+  getRun: protectedProcedure
+    .use(requirePermission('workflow:read'))
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const run = await ctx.prisma.workflowRun.findFirst({
+        where: { id: input.id },
+        include: { steps: { orderBy: { startedAt: 'asc' } } },
+      });
+      if (!run) throw new TRPCError({ code: 'NOT_FOUND', message: 'Workflow run not found' });
+      return run;
+    }),
+
+  // List runs, newest first
+  listRuns: protectedProcedure
+    .use(requirePermission('workflow:read'))
+    .input(
+      z.object({
+        workflowId: z.string().optional(),
+        campaignId: z.string().optional(),
+        status: RunStatusSchema.optional(),
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const where: Prisma.WorkflowRunWhereInput = {
+          ...(input.workflowId && { workflowId: input.workflowId }),
+          ...(input.campaignId && { campaignId: input.campaignId }),
+          ...(input.status && { status: input.status }),
+        };
+
+        const [runs, total] = await Promise.all([
+          ctx.prisma.workflowRun.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: input.limit,
+            skip: input.offset,
+          }),
+          ctx.prisma.workflowRun.count({ where }),
+        ]);
+
+        return { runs, total, hasMore: total > input.offset + input.limit };
+      } catch (error) {
+        ctx.logger.error('Failed to fetch workflow runs', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch workflow runs',
+        });
+      }
+    }),
+
+  // Cancel a pending or running run
+  cancel: protectedProcedure
+    .use(requirePermission('workflow:execute'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await workflowRunStore.cancel(input.id, { workspaceId: ctx.workspace.id });
+      if (!result.cancelled) {
+        throw new TRPCError(
+          result.reason === 'not_found'
+            ? { code: 'NOT_FOUND', message: 'Workflow run not found' }
+            : { code: 'CONFLICT', message: 'Workflow run already finished' }
+        );
+      }
+      return result.run;
+    }),
+
+  // Run the failed and cancelled steps of a finished run again
+  resume: protectedProcedure
+    .use(requirePermission('workflow:execute'))
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const requeued = await workflowRunStore.requeue(input.id, { workspaceId: ctx.workspace.id });
+      if (!requeued) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Only failed or cancelled runs can be resumed',
+        });
+      }
+      return { success: true };
+    }),
+});
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { getPermissions } from '../permissions';
+import { createTRPCRouter, protectedProcedure, requirePermission } from '../trpc';
+import type { MemberChangeResult } from '../workspaces';
+
+const RoleSchema = z.enum(['ADMIN', 'MANAGER', 'USER', 'VIEWER']);
+
+function assertChanged(
+  result: MemberChangeResult
+): asserts result is Extract<MemberChangeResult, { changed: true }> {
+  if (result.changed) return;
+
+  switch (result.reason) {
+    case 'not_found':
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' });
+    case 'already_member':
+      throw new TRPCError({ code: 'CONFLICT', message: 'User is already a member' });
+    default:
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'A workspace needs at least one admin',
+      });
+  }
+}
+
+export const workspaceRouter = createTRPCRouter({
+  // Workspaces the user belongs to, for the workspace switcher
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await ctx.workspaces.listForUser(ctx.session.user.id);
+    } catch (error) {
+      ctx.logger.error('Failed to fetch workspaces', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch workspaces',
+      });
+    }
+  }),
+
+  // The workspace the request acts in, with what the user may do there
+  current: protectedProcedure.use(requirePermission('workspace:read')).query(({ ctx }) => ({
+    ...ctx.workspace,
+    permissions: getPermissions({
+      userRole: ctx.session.user.role,
+      workspaceRole: ctx.workspace.role,
+    }),
+  })),
+
+  // Create a workspace; the creator becomes its admin
+  create: protectedProcedure
+    .input(z.object({ name: z.string().min(1).max(100) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.workspaces.create(ctx.session.user.id, input.name);
+      } catch (error) {
+        ctx.logger.error('Failed to create workspace', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create workspace',
+        });
+      }
+    }),
+
+  // Rename the current workspace
+  update: protectedProcedure
+    .use(requirePermission('workspace:manage'))
+    .input(z.object({ name: z.string().min(1).max(100) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.workspaces.rename(ctx.workspace.id, input.name);
+      } catch (error) {
+        ctx.logger.error('Failed to update workspace', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update workspace',
+        });
+      }
+    }),
+
+  // Members of the current workspace
+  getMembers: protectedProcedure
+    .use(requirePermission('workspace:read'))
+    .query(({ ctx }) => ctx.workspaces.listMembers(ctx.workspace.id)),
+
+  // Add an existing user to the current workspace
+  addMember: protectedProcedure
+    .use(requirePermission('workspace:manage'))
+    .input(z.object({ email: z.string().email(), role: RoleSchema.default('USER') }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.workspaces.addMember(ctx.workspace.id, input.email, input.role);
+      assertChanged(result);
+
+      ctx.logger.info('Workspace member added', {
+        workspaceId: ctx.workspace.id,
+        memberId: result.member.userId,
+        userId: ctx.session.user.id,
+      });
+      return result.member;
+    }),
+
+  // Change a member's role in the current workspace
+  updateMemberRole: protectedProcedure
+    .use(requirePermission('workspace:manage'))
+    .input(z.object({ userId: z.string(), role: RoleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.workspaces.updateMemberRole(
+        ctx.workspace.id,
+        input.userId,
+        input.role
+      );
+      assertChanged(result);
+      return result.member;
+    }),
+
+  // Remove a member from the current workspace
+  removeMember: protectedProcedure
+    .use(requirePermission('workspace:manage'))
+    .input(z.object({ userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.workspaces.removeMember(ctx.workspace.id, input.userId);
+      assertChanged(result);
+
+      ctx.logger.info('Workspace member removed', {
+        workspaceId: ctx.workspace.id,
+        memberId: input.userId,
+        userId: ctx.session.user.id,
+      });
+      return { success: true };
+    }),
+});
@@ -0,0 +1,105 @@
+import type { PrismaClient } from '@neonhub/data-model';
+
+/** Models owned by a workspace; a scoped client only sees the current workspace's rows */
+export const WORKSPACE_MODELS: ReadonlySet<string> = new Set([
+  'Campaign',
+  'AgentExecution',
+  'Analytics',
+  'Content',
+  'Lead',
+  'Trend',
+  'DesignTemplate',
+  'Brand',
+  'Workflow',
+  'WorkflowRun',
+  'Approval',
+  'Comment',
+  'ActivityEvent',
+  'BudgetAllocation',
+  'SpendEntry',
+  'ABTest',
+  'ABTestEvent',
+  'ABTestAllocation',
+  'MetricRollup',
+  'AlertRule',
+  'Alert',
+  'Notification',
+  'Report',
+  'ReportRun',
+  'LeadEvent',
+  'LeadScoringSettings',
+]);
+
+/** Workspace models whose rows without a workspace are readable by every workspace */
+const SHARED_MODELS: ReadonlySet<string> = new Set(['DesignTemplate']);
+
+const READ_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+]);
+
+const FILTERED_WRITE_OPERATIONS = new Set(['update', 'updateMany', 'delete', 'deleteMany']);
+
+type Args = Record<string, unknown>;
+
+function withFilter(where: unknown, filter: Args): Args {
+  const current = (where ?? {}) as Args;
+  const and = current.AND === undefined ? [] : [current.AND].flat();
+  // Unique fields stay at the top level, so this also works for findUnique and update
+  return { ...current, AND: [...and, filter] };
+}
+
+function withWorkspace(data: unknown, workspaceId: string): unknown {
+  return Array.isArray(data)
+    ? data.map(row => ({ ...(row as Args), workspaceId }))
+    : { ...(data as Args), workspaceId };
+}
+
+/**
+ * Restrict a Prisma client to one workspace: reads, updates and deletes of
+ * workspace models only match that workspace's rows, and creates are assigned
+ * to it. Other models (users, agents, prompt templates, ...) are unaffected.
+ *
+ * Only top-level queries are scoped; rows reached through `include` or nested
+ * writes belong to a parent that was.
+ */
+export function scopeToWorkspace(db: PrismaClient, workspaceId: string): PrismaClient {
+  const scopedDb = db.$extends({
+    name: 'workspace-scope',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }): Promise<unknown> {
+          if (!WORKSPACE_MODELS.has(model)) return query(args);
+
+          const scoped: Args = { ...(args as Args) };
+          const own = { workspaceId };
+
+          if (READ_OPERATIONS.has(operation)) {
+            scoped.where = withFilter(
+              scoped.where,
+              SHARED_MODELS.has(model) ? { OR: [own, { workspaceId: null }] } : own
+            );
+          } else if (FILTERED_WRITE_OPERATIONS.has(operation)) {
+            scoped.where = withFilter(scoped.where, own);
+          } else if (operation === 'upsert') {
+            scoped.where = withFilter(scoped.where, own);
+            scoped.create = withWorkspace(scoped.create, workspaceId);
+          } else if (operation.startsWith('create')) {
+            scoped.data = withWorkspace(scoped.data, workspaceId);
+          }
+
+          return query(scoped as typeof args);
+        },
+      },
+    },
+  });
+
+  // A query extension leaves every model's types as they were
+  return scopedDb as unknown as PrismaClient;
+}
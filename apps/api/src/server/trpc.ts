@@ -3,33 +3,36 @@ import { type CreateNextContextOptions } from '@trpc/server/adapters/next';
 import { prisma } from '@neonhub/data-model';
 import { logger } from '@neonhub/utils';
 import superjson from 'superjson';
-
-type User = {
-  id: string;
-  email: string;
-  name?: string;
-};
-
-type Session = {
-  user: User;
-  expires: string;
-};
+import { activityService } from './activity';
+import { agentRuntime } from './agent-runtime';
+import { alertService } from './alerts';
+import { analyticsIngest } from './analytics-ingest';
+import { approvalService } from './approvals';
+import { attributionService } from './attribution';
+import { auditService, collectTargetIds } from './audit';
+import { authService } from './auth/auth-service';
+import { budgetLedger } from './budget-ledger';
+import { campaignLifecycle } from './campaign-lifecycle';
+import { commentService } from './comments';
+import { experimentService } from './experiments';
+import { forecastService } from './forecasts';
+import { agentExecutionQueue } from './jobs/agent-execution-queue';
+import { leadService } from './leads';
+import { metricRollups } from './metric-rollups';
+import { hasPermission, permissionRole, type Permission } from './permissions';
+import { promptRegistry } from './prompt-store';
+import { reportService } from './reports';
+import { scopeToWorkspace } from './tenancy';
+import { WORKSPACE_HEADER, workspaceService } from './workspaces';
 
 export async function createTRPCContext(opts: CreateNextContextOptions) {
   const { req, res } = opts;
 
-  // Get the session from the request header or cookie
-  // For now, we'll create a mock session for development
-  const session: Session | null = process.env.NODE_ENV === 'development' 
-    ? {
-        user: {
-          id: 'dev-user-1',
-          email: 'dev@neonhub.com',
-          name: 'Development User'
-        },
-        expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-      }
-    : null; // TODO: Implement proper session management with NextAuth or similar
+  // Get the session from the bearer token or session cookie
+  const session = await authService.resolveRequest(req);
+
+  // Make sure the shared agent runtime has loaded agents before any procedure runs
+  await agentRuntime.start();
 
   return {
     req,
@@ -37,6 +40,25 @@ export async function createTRPCContext(opts: CreateNextContextOptions) {
     prisma,
     session,
     logger,
+    agents: agentRuntime,
+    queue: agentExecutionQueue,
+    prompts: promptRegistry,
+    approvals: approvalService,
+    auth: authService,
+    workspaces: workspaceService,
+    comments: commentService,
+    activity: activityService,
+    audit: auditService,
+    campaignLifecycle,
+    budgetLedger,
+    experiments: experimentService,
+    analyticsIngest,
+    rollups: metricRollups,
+    attribution: attributionService,
+    forecasts: forecastService,
+    alerts: alertService,
+    reports: reportService,
+    leads: leadService,
   };
 }
 
@@ -60,7 +82,51 @@ const t = initTRPC.context<Context>().create({
 
 export const createTRPCRouter = t.router;
 
-export const publicProcedure = t.procedure;
+function requestedWorkspaceId(req: Context['req']): string | undefined {
+  const requested = req.headers[WORKSPACE_HEADER];
+  return Array.isArray(requested) ? requested[0] : requested;
+}
+
+function clientIp(req: Context['req']): string | null {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || req.socket?.remoteAddress || null;
+}
+
+/**
+ * Write every mutation to the audit log once it has run, whether it succeeded
+ * or not. The workspace is resolved here rather than taken from the procedure,
+ * because a failed membership check must still be recorded.
+ */
+const auditMutations = t.middleware(async ({ ctx, path, type, rawInput, next }) => {
+  if (type !== 'mutation') return next();
+
+  const startedAt = Date.now();
+  const result = await next();
+
+  const workspace = ctx.session?.user
+    ? await ctx.workspaces.resolve(ctx.session.user, requestedWorkspaceId(ctx.req)).catch(() => null)
+    : null;
+
+  await ctx.audit.record({
+    actorType: 'USER',
+    actorId: ctx.session?.user?.id ?? null,
+    procedure: path,
+    input: rawInput,
+    targetIds: collectTargetIds(rawInput, result.ok ? result.data : undefined),
+    outcome: result.ok ? 'SUCCESS' : 'FAILURE',
+    error: result.ok ? null : `${result.error.code}: ${result.error.message}`,
+    durationMs: Date.now() - startedAt,
+    ipAddress: clientIp(ctx.req),
+    workspaceId: workspace?.id ?? null,
+  });
+
+  return result;
+});
+
+const auditedProcedure = t.procedure.use(auditMutations);
+
+export const publicProcedure = auditedProcedure;
 
 const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
   if (!ctx.session || !ctx.session.user) {
@@ -75,7 +141,46 @@ const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
   });
 });
 
-export const protectedProcedure = t.procedure.use(enforceUserIsAuthed);
+export const protectedProcedure = auditedProcedure.use(enforceUserIsAuthed);
+
+/**
+ * Resolve the workspace the request acts in (the `x-workspace-id` header, or
+ * the user's first workspace) and swap `ctx.prisma` for a client that only
+ * sees that workspace's data, so procedures cannot reach other tenants' rows.
+ */
+const enforceWorkspaceMember = enforceUserIsAuthed.unstable_pipe(async ({ ctx, next }) => {
+  const workspace = await ctx.workspaces.resolve(ctx.session.user, requestedWorkspaceId(ctx.req));
+  if (!workspace) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Not a member of this workspace' });
+  }
+
+  return next({
+    ctx: {
+      workspace,
+      prisma: scopeToWorkspace(ctx.prisma, workspace.id),
+    },
+  });
+});
+
+export const workspaceProcedure = auditedProcedure.use(enforceWorkspaceMember);
+
+/**
+ * Only let members whose role in the current workspace grants `permission`
+ * through, e.g. `protectedProcedure.use(requirePermission('campaign:write'))`.
+ * Permissions over data all workspaces share are checked against the user's
+ * own role instead, see `GLOBAL_PERMISSIONS`.
+ */
+export const requirePermission = (permission: Permission): typeof enforceWorkspaceMember =>
+  enforceWorkspaceMember.unstable_pipe(({ ctx, next }) => {
+    const role = permissionRole(permission, {
+      userRole: ctx.session.user.role,
+      workspaceRole: ctx.workspace.role,
+    });
+    if (!hasPermission(role, permission)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission ${permission}` });
+    }
+    return next();
+  });
 
 // Logging middleware
 export const loggerMiddleware = t.middleware(async ({ path, type, next, ctx }) => {
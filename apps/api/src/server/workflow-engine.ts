@@ -0,0 +1,131 @@
+import {
+  createTaskPayload,
+  PlatformSchema,
+  WorkflowEngine,
+  WorkflowStepError,
+  type WorkflowActionDefinition,
+  type WorkflowAgentRunner,
+} from '@neonhub/core-agents';
+import { prisma, type PrismaClient } from '@neonhub/data-model';
+import { z } from 'zod';
+import { agentRuntime, type AgentRuntime } from './agent-runtime';
+import { approvalService } from './approvals';
+import { auditService, type AuditService } from './audit';
+import { workflowRunStore } from './jobs/workflow-run-store';
+import { metricRollups, type MetricRollupService } from './metric-rollups';
+
+/**
+ * Runs agent steps on the shared runtime, so they share its scheduler and are
+ * recorded in `agent_executions` along with the run's user and campaign.
+ */
+export function createRuntimeRunner(runtime: AgentRuntime): WorkflowAgentRunner {
+  return {
+    runAgentTask: (agent, task, input, { signal, deadline, metadata }) =>
+      runtime.executeAgent(
+        agent,
+        createTaskPayload(task, input, { metadata, ...(deadline && { deadline }) }),
+        { signal }
+      ),
+  };
+}
+
+const PublishPostInputSchema = z.object({
+  platform: PlatformSchema,
+  text: z.string().min(1),
+  hashtags: z.array(z.string()).default([]),
+  images: z.array(z.string().url()).default([]),
+  video: z.string().url().optional(),
+  link: z.string().url().optional(),
+  campaignId: z.string().optional(),
+});
+
+/**
+ * Actions available to workflow steps besides agent tasks. Actions with side
+ * effects are written to the audit log when given one.
+ */
+export function createWorkflowActions(
+  db: PrismaClient,
+  rollups: MetricRollupService,
+  audit?: AuditService
+): Record<string, WorkflowActionDefinition> {
+  return {
+    // Save the post as published content and count it towards the campaign's analytics
+    'social.publish_post': {
+      sideEffect: 'publish',
+      run: async (input, context): Promise<unknown> => {
+        const parsed = PublishPostInputSchema.safeParse(input);
+        if (!parsed.success) {
+          throw new WorkflowStepError(
+            parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+            false
+          );
+        }
+
+        const { platform, text, hashtags, images, video, link, campaignId } = parsed.data;
+        const userId = typeof context.metadata.userId === 'string' ? context.metadata.userId : null;
+        const workspaceId =
+          typeof context.metadata.workspaceId === 'string' ? context.metadata.workspaceId : null;
+        const content = await db.content.create({
+          data: {
+            title: `Workflow post - ${text.slice(0, 60)}`,
+            type: 'POST',
+            platform,
+            content: { text, hashtags, images, ...(video && { video }), ...(link && { link }) },
+            status: 'PUBLISHED',
+            workspaceId,
+            metadata: {
+              generatedBy: 'workflow',
+              workflowRunId: context.runId,
+              workflowStepId: context.stepId,
+              ...(campaignId && { campaignId }),
+            },
+          },
+        });
+
+        const analytics = await db.analytics.create({
+          data: {
+            userId,
+            workspaceId,
+            campaignId: campaignId ?? null,
+            type: 'PERFORMANCE',
+            data: {
+              type: 'social_post',
+              platform,
+              contentId: content.id,
+              contentLength: text.length,
+              workflowRunId: context.runId,
+            },
+          },
+        });
+
+        await rollups.apply([analytics]);
+
+        await audit?.record({
+          actorType: 'SYSTEM',
+          actorId: userId,
+          procedure: 'social.publish_post',
+          input: parsed.data,
+          targetIds: [content.id, ...(campaignId ? [campaignId] : [])],
+          outcome: 'SUCCESS',
+          workspaceId,
+        });
+
+        return { contentId: content.id, platform, publishedAt: content.createdAt.toISOString() };
+      },
+    },
+  };
+}
+
+const globalForWorkflows = globalThis as unknown as {
+  workflowEngine: WorkflowEngine | undefined;
+};
+
+export const workflowEngine =
+  globalForWorkflows.workflowEngine ??
+  new WorkflowEngine(createRuntimeRunner(agentRuntime), workflowRunStore, {
+    actions: createWorkflowActions(prisma, metricRollups, auditService),
+    maxParallelSteps: Number(process.env.WORKFLOW_MAX_PARALLEL_STEPS || 4),
+    approvals: approvalService,
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForWorkflows.workflowEngine = workflowEngine;
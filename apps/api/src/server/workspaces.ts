@@ -0,0 +1,203 @@
+import { randomBytes } from 'crypto';
+import {
+  prisma,
+  type PrismaClient,
+  type UserRole,
+  type Workspace,
+  type WorkspaceMember,
+} from '@neonhub/data-model';
+import { logger, type Logger } from '@neonhub/utils';
+import type { SessionUser } from './auth/auth-service';
+
+/** Header the dashboard sends with the id of the selected workspace */
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+/** The workspace a request acts in and the user's role there */
+export interface WorkspaceContext {
+  id: string;
+  name: string;
+  slug: string;
+  role: UserRole;
+}
+
+export type MemberChangeResult =
+  | { changed: true; member: WorkspaceMember }
+  | { changed: false; reason: 'not_found' | 'already_member' | 'last_admin' };
+
+function slugify(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `${base || 'workspace'}-${randomBytes(3).toString('hex')}`;
+}
+
+function toContext(member: WorkspaceMember & { workspace: Workspace }): WorkspaceContext {
+  const { id, name, slug } = member.workspace;
+  return { id, name, slug, role: member.role };
+}
+
+/**
+ * Workspaces and their members. Users without a workspace get a personal one
+ * the first time they need it, which takes over the campaigns, brands,
+ * workflows and history they created before workspaces existed.
+ */
+export class WorkspaceService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly log: Logger
+  ) {}
+
+  /**
+   * The workspace a request acts in: `workspaceId` when given, otherwise the
+   * user's oldest membership. Null when the user is not a member of `workspaceId`.
+   */
+  async resolve(user: SessionUser, workspaceId?: string): Promise<WorkspaceContext | null> {
+    if (workspaceId) {
+      const member = await this.db.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId, userId: user.id } },
+        include: { workspace: true },
+      });
+      return member ? toContext(member) : null;
+    }
+
+    const member = await this.db.workspaceMember.findFirst({
+      where: { userId: user.id },
+      include: { workspace: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return member ? toContext(member) : this.createPersonal(user);
+  }
+
+  async listForUser(userId: string): Promise<WorkspaceContext[]> {
+    const members = await this.db.workspaceMember.findMany({
+      where: { userId },
+      include: { workspace: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return members.map(toContext);
+  }
+
+  /** Create a workspace with `userId` as its admin */
+  async create(userId: string, name: string): Promise<WorkspaceContext> {
+    const workspace = await this.db.workspace.create({
+      data: {
+        name,
+        slug: slugify(name),
+        members: { create: { userId, role: 'ADMIN' } },
+      },
+    });
+
+    this.log.info('Workspace created', { workspaceId: workspace.id, userId });
+    return { id: workspace.id, name: workspace.name, slug: workspace.slug, role: 'ADMIN' };
+  }
+
+  async rename(workspaceId: string, name: string): Promise<Workspace> {
+    return this.db.workspace.update({ where: { id: workspaceId }, data: { name } });
+  }
+
+  async listMembers(
+    workspaceId: string
+  ): Promise<(WorkspaceMember & { user: { id: string; email: string; name: string | null } })[]> {
+    return this.db.workspaceMember.findMany({
+      where: { workspaceId },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /** Add an existing user to a workspace by email */
+  async addMember(workspaceId: string, email: string, role: UserRole): Promise<MemberChangeResult> {
+    const user = await this.db.user.findUnique({ where: { email: email.trim().toLowerCase() } });
+    if (!user) return { changed: false, reason: 'not_found' };
+
+    const existing = await this.db.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: user.id } },
+    });
+    if (existing) return { changed: false, reason: 'already_member' };
+
+    const member = await this.db.workspaceMember.create({
+      data: { workspaceId, userId: user.id, role },
+    });
+    this.log.info('Workspace member added', { workspaceId, userId: user.id, role });
+    return { changed: true, member };
+  }
+
+  /** Change a member's role; a workspace always keeps at least one admin */
+  async updateMemberRole(
+    workspaceId: string,
+    userId: string,
+    role: UserRole
+  ): Promise<MemberChangeResult> {
+    const member = await this.db.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+    if (!member) return { changed: false, reason: 'not_found' };
+    if (member.role === 'ADMIN' && role !== 'ADMIN' && (await this.isLastAdmin(workspaceId))) {
+      return { changed: false, reason: 'last_admin' };
+    }
+
+    const updated = await this.db.workspaceMember.update({
+      where: { id: member.id },
+      data: { role },
+    });
+    return { changed: true, member: updated };
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<MemberChangeResult> {
+    const member = await this.db.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+    if (!member) return { changed: false, reason: 'not_found' };
+    if (member.role === 'ADMIN' && (await this.isLastAdmin(workspaceId))) {
+      return { changed: false, reason: 'last_admin' };
+    }
+
+    await this.db.workspaceMember.delete({ where: { id: member.id } });
+    this.log.info('Workspace member removed', { workspaceId, userId });
+    return { changed: true, member };
+  }
+
+  private async isLastAdmin(workspaceId: string): Promise<boolean> {
+    const admins = await this.db.workspaceMember.count({ where: { workspaceId, role: 'ADMIN' } });
+    return admins <= 1;
+  }
+
+  private async createPersonal(user: SessionUser): Promise<WorkspaceContext> {
+    const name = `${user.name ?? user.email.split('@')[0]}'s workspace`;
+
+    const workspace = await this.db.$transaction(async tx => {
+      const created = await tx.workspace.create({
+        data: {
+          name,
+          slug: slugify(name),
+          members: { create: { userId: user.id, role: 'ADMIN' } },
+        },
+      });
+
+      const unassigned = { userId: user.id, workspaceId: null };
+      const data = { workspaceId: created.id };
+      await tx.campaign.updateMany({ where: unassigned, data });
+      await tx.brand.updateMany({ where: unassigned, data });
+      await tx.workflow.updateMany({ where: unassigned, data });
+      await tx.workflowRun.updateMany({ where: unassigned, data });
+      await tx.agentExecution.updateMany({ where: unassigned, data });
+      await tx.analytics.updateMany({ where: unassigned, data });
+      await tx.approval.updateMany({ where: { requestedById: user.id, workspaceId: null }, data });
+      return created;
+    });
+
+    this.log.info('Personal workspace created', { workspaceId: workspace.id, userId: user.id });
+    return { id: workspace.id, name: workspace.name, slug: workspace.slug, role: 'ADMIN' };
+  }
+}
+
+const globalForWorkspaces = globalThis as unknown as {
+  workspaceService: WorkspaceService | undefined;
+};
+
+export const workspaceService =
+  globalForWorkspaces.workspaceService ?? new WorkspaceService(prisma, logger);
+
+if (process.env.NODE_ENV !== 'production') globalForWorkspaces.workspaceService = workspaceService;
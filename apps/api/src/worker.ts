@@ -0,0 +1,111 @@
+import dotenv from 'dotenv';
+import { logger } from '@neonhub/utils';
+import { activityService } from './server/activity';
+import { agentRuntime } from './server/agent-runtime';
+import { alertService } from './server/alerts';
+import { approvalService } from './server/approvals';
+import { auditService } from './server/audit';
+import { campaignLifecycle } from './server/campaign-lifecycle';
+import { agentExecutionQueue } from './server/jobs/agent-execution-queue';
+import { AgentWorker } from './server/jobs/agent-worker';
+import { workflowRunStore } from './server/jobs/workflow-run-store';
+import { WorkflowWorker } from './server/jobs/workflow-worker';
+import { leadService } from './server/leads';
+import { reportService } from './server/reports';
+import { workflowEngine } from './server/workflow-engine';
+
+// Load environment variables
+dotenv.config();
+
+const worker = new AgentWorker(agentExecutionQueue, agentRuntime, activityService, logger, {
+  concurrency: Number(process.env.AGENT_WORKER_CONCURRENCY || 2),
+  leaseMs: Number(process.env.AGENT_WORKER_LEASE_MS || 60_000),
+});
+
+const workflowWorker = new WorkflowWorker(workflowRunStore, workflowEngine, agentRuntime, logger, {
+  concurrency: Number(process.env.WORKFLOW_WORKER_CONCURRENCY || 2),
+  leaseMs: Number(process.env.WORKFLOW_WORKER_LEASE_MS || 60_000),
+});
+
+// Expire undecided approvals and pick up workflow runs whose approvals were decided
+const approvalSweep = setInterval(() => {
+  approvalService.sweep().catch(error => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Approval sweep failed', { error: errorMessage });
+  });
+}, Number(process.env.APPROVAL_SWEEP_INTERVAL_MS || 60_000));
+approvalSweep.unref();
+
+// Start scheduled campaigns and complete campaigns at their end date
+const campaignScheduler = setInterval(() => {
+  campaignLifecycle.runDueTransitions().catch(error => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Campaign scheduler failed', { error: errorMessage });
+  });
+}, Number(process.env.CAMPAIGN_SCHEDULER_INTERVAL_MS || 60_000));
+campaignScheduler.unref();
+
+// Drop audit log entries past their retention period
+const auditPurge = setInterval(() => {
+  auditService.purgeExpired().catch(error => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Audit log purge failed', { error: errorMessage });
+  });
+}, Number(process.env.AUDIT_PURGE_INTERVAL_MS || 6 * 60 * 60 * 1000));
+auditPurge.unref();
+
+// Check alert rules on the latest complete hour or day of metrics
+const alertEvaluation = setInterval(() => {
+  alertService.evaluateDue().catch(error => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Alert evaluation failed', { error: errorMessage });
+  });
+}, Number(process.env.ALERT_EVALUATION_INTERVAL_MS || 5 * 60 * 1000));
+alertEvaluation.unref();
+
+// Run and email reports whose cron schedule has come
+const reportScheduler = setInterval(() => {
+  reportService.runDue().catch(error => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Report scheduler failed', { error: errorMessage });
+  });
+}, Number(process.env.REPORT_SCHEDULER_INTERVAL_MS || 60_000));
+reportScheduler.unref();
+
+// Rescore leads as the points of their events fade
+const leadScoring = setInterval(() => {
+  leadService.rescoreAll().catch(error => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Lead scoring failed', { error: errorMessage });
+  });
+}, Number(process.env.LEAD_SCORING_INTERVAL_MS || 60 * 60 * 1000));
+leadScoring.unref();
+
+agentRuntime
+  .start({ syncIntervalMs: Number(process.env.AGENT_SYNC_INTERVAL_MS || 60_000) })
+  .then(() => {
+    worker.start();
+    workflowWorker.start();
+  })
+  .catch(error => {
+    console.error('Failed to start agent worker:', error);
+    process.exit(1);
+  });
+
+const shutdown = (): void => {
+  clearInterval(alertEvaluation);
+  clearInterval(approvalSweep);
+  clearInterval(auditPurge);
+  clearInterval(campaignScheduler);
+  clearInterval(leadScoring);
+  clearInterval(reportScheduler);
+  Promise.all([worker.stop(), workflowWorker.stop()])
+    .then(() => {
+      agentRuntime.stop();
+      process.exit(0);
+    })
+    .catch(() => process.exit(1));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
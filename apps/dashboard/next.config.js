@@ -19,6 +19,11 @@ const nextConfig = {
         source: '/api/trpc/:path*',
         destination: 'http://localhost:3001/api/trpc/:path*',
       },
+      {
+        // Sign-in links from emails; the API signs in and redirects back
+        source: '/api/auth/callback/email',
+        destination: 'http://localhost:3001/api/auth/callback/email',
+      },
     ];
   },
 };
@@ -215,6 +215,19 @@ export default function AgentsPage() {
     ));
   };
 
+  const updateSelectedConfig = (changes: Partial<Agent['config']>): void => {
+    setSelectedAgent(prev => (prev ? { ...prev, config: { ...prev.config, ...changes } } : prev));
+  };
+
+  const saveAgentConfig = (): void => {
+    if (!selectedAgent) return;
+    // Mirrors agent.updateSettings until the dashboard is wired to the API
+    setAgents(prev => prev.map(agent =>
+      agent.id === selectedAgent.id ? { ...agent, config: selectedAgent.config } : agent
+    ));
+    setShowConfigModal(false);
+  };
+
   const formatLastExecution = (timestamp: string | null) => {
     if (!timestamp) return 'Never';
     const date = new Date(timestamp);
@@ -401,6 +414,7 @@ export default function AgentsPage() {
                   <input
                     type="text"
                     value={selectedAgent.config.schedule}
+                    onChange={(e) => updateSelectedConfig({ schedule: e.target.value })}
                     className="input w-full"
                     placeholder="0 */2 * * *"
                   />
@@ -413,10 +427,18 @@ export default function AgentsPage() {
                   <input
                     type="number"
                     value={selectedAgent.config.maxConcurrent}
+                    onChange={(e) =>
+                      updateSelectedConfig({
+                        maxConcurrent: Math.min(10, Math.max(1, Number(e.target.value) || 1)),
+                      })
+                    }
                     className="input w-full"
                     min="1"
                     max="10"
                   />
+                  <p className="text-xs text-dark-400 mt-1">
+                    Extra executions wait in the queue; critical tasks may preempt low priority ones.
+                  </p>
                 </div>
                 
                 <div className="flex justify-end space-x-4">
@@ -427,10 +449,7 @@ export default function AgentsPage() {
                     Cancel
                   </button>
                   <button
-                    onClick={() => {
-                      // TODO: Save configuration
-                      setShowConfigModal(false);
-                    }}
+                    onClick={saveAgentConfig}
                     className="btn-primary"
                   >
                     Save Changes
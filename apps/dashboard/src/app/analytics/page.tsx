@@ -15,6 +15,16 @@ import {
   AdjustmentsHorizontalIcon,
   SparklesIcon
 } from '@heroicons/react/24/outline';
+import AlertsPanel from '@/components/AlertsPanel';
+import AttributionReport from '@/components/AttributionReport';
+import ReportsPanel from '@/components/ReportsPanel';
+
+interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
 
 interface AnalyticsData {
   overview: {
@@ -33,6 +43,12 @@ interface AnalyticsData {
     conversions: Array<{ date: string; value: number }>;
     roi: Array<{ date: string; value: number }>;
   };
+  // Next days with their 95% prediction interval; there is no ROI forecast
+  forecasts: {
+    revenue: ForecastPoint[];
+    impressions: ForecastPoint[];
+    conversions: ForecastPoint[];
+  };
   campaignPerformance: Array<{
     id: string;
     name: string;
@@ -58,6 +74,7 @@ export default function AnalyticsPage() {
   const [timeRange, setTimeRange] = useState('7d');
   const [selectedMetric, setSelectedMetric] = useState('revenue');
   const [selectedChart, setSelectedChart] = useState('line');
+  const [showForecast, setShowForecast] = useState(true);
 
   // Mock data for now - will be replaced with real API calls
   useEffect(() => {
@@ -110,6 +127,27 @@ export default function AnalyticsPage() {
           { date: '2024-01-07', value: 4.2 }
         ],
       },
+      // Mock data for now - will be replaced with insight.predictOutcomes
+      forecasts: {
+        revenue: [
+          { date: '2024-01-08', value: 13900, lower: 11800, upper: 16000 },
+          { date: '2024-01-09', value: 14300, lower: 11600, upper: 17000 },
+          { date: '2024-01-10', value: 13100, lower: 10000, upper: 16200 },
+          { date: '2024-01-11', value: 15400, lower: 11900, upper: 18900 }
+        ],
+        impressions: [
+          { date: '2024-01-08', value: 470000, lower: 410000, upper: 530000 },
+          { date: '2024-01-09', value: 488000, lower: 415000, upper: 561000 },
+          { date: '2024-01-10', value: 462000, lower: 380000, upper: 544000 },
+          { date: '2024-01-11', value: 515000, lower: 424000, upper: 606000 }
+        ],
+        conversions: [
+          { date: '2024-01-08', value: 84, lower: 68, upper: 100 },
+          { date: '2024-01-09', value: 88, lower: 69, upper: 107 },
+          { date: '2024-01-10', value: 79, lower: 57, upper: 101 },
+          { date: '2024-01-11', value: 93, lower: 68, upper: 118 }
+        ]
+      },
       campaignPerformance: [
         {
           id: 'campaign-1',
@@ -204,20 +242,56 @@ export default function AnalyticsPage() {
   };
 
   // Simple line chart component (in production, you'd use a proper charting library)
-  const SimpleLineChart = ({ data, color = 'neon-400' }: { data: Array<{ date: string; value: number }>, color?: string }) => {
-    const maxValue = Math.max(...data.map(d => d.value));
-    const minValue = Math.min(...data.map(d => d.value));
-    const range = maxValue - minValue;
-    
-    const points = data.map((point, index) => {
-      const x = (index / (data.length - 1)) * 300;
-      const y = 100 - ((point.value - minValue) / range) * 80;
-      return `${x},${y}`;
-    }).join(' ');
+  const SimpleLineChart = ({
+    data,
+    forecast = [],
+    color = 'neon-400'
+  }: {
+    data: Array<{ date: string; value: number }>;
+    forecast?: ForecastPoint[];
+    color?: string;
+  }) => {
+    const values = [...data.map(d => d.value), ...forecast.flatMap(p => [p.lower, p.upper])];
+    const maxValue = Math.max(...values);
+    const minValue = Math.min(...values);
+    const range = maxValue - minValue || 1;
+    const count = data.length + forecast.length;
+    const xAt = (index: number): number => (index / (count - 1)) * 300;
+    const yAt = (value: number): number => 100 - ((value - minValue) / range) * 80;
+
+    const points = data.map((point, index) => `${xAt(index)},${yAt(point.value)}`).join(' ');
+
+    // The forecast continues from the last actual point
+    const last = data[data.length - 1];
+    const anchor = last ? `${xAt(data.length - 1)},${yAt(last.value)}` : '';
+    const forecastLine = [
+      anchor,
+      ...forecast.map((point, index) => `${xAt(data.length + index)},${yAt(point.value)}`)
+    ].join(' ');
+    const band = [
+      anchor,
+      ...forecast.map((point, index) => `${xAt(data.length + index)},${yAt(point.upper)}`),
+      ...forecast
+        .map((point, index) => `${xAt(data.length + index)},${yAt(point.lower)}`)
+        .reverse()
+    ].join(' ');
 
     return (
       <div className="relative h-24 w-full">
         <svg className="w-full h-full" viewBox="0 0 300 100">
+          {forecast.length > 0 && (
+            <>
+              <polygon points={band} fill="currentColor" fillOpacity="0.15" className={`text-${color}`} />
+              <polyline
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeDasharray="6 4"
+                points={forecastLine}
+                className={`text-${color}`}
+              />
+            </>
+          )}
           <polyline
             fill="none"
             stroke="currentColor"
@@ -226,13 +300,11 @@ export default function AnalyticsPage() {
             className={`text-${color}`}
           />
           {data.map((point, index) => {
-            const x = (index / (data.length - 1)) * 300;
-            const y = 100 - ((point.value - minValue) / range) * 80;
             return (
               <circle
                 key={index}
-                cx={x}
-                cy={y}
+                cx={xAt(index)}
+                cy={yAt(point.value)}
                 r="3"
                 fill="currentColor"
                 className={`text-${color}`}
@@ -386,6 +458,14 @@ export default function AnalyticsPage() {
                 >
                   Bar
                 </button>
+                <button
+                  onClick={() => setShowForecast(!showForecast)}
+                  disabled={!(selectedMetric in data.forecasts)}
+                  className={`px-3 py-1 rounded text-sm flex items-center ${showForecast && selectedMetric in data.forecasts ? 'bg-neon-400/20 text-neon-400' : 'bg-dark-700 text-dark-400'}`}
+                >
+                  <SparklesIcon className="h-4 w-4 mr-1" />
+                  Forecast
+                </button>
               </div>
             </div>
           </div>
@@ -394,10 +474,16 @@ export default function AnalyticsPage() {
             {data.chartData[selectedMetric as keyof typeof data.chartData] && (
               <SimpleLineChart 
                 data={data.chartData[selectedMetric as keyof typeof data.chartData]}
+                forecast={showForecast ? data.forecasts[selectedMetric as keyof typeof data.forecasts] : []}
                 color="neon-400"
               />
             )}
           </div>
+          {showForecast && data.forecasts[selectedMetric as keyof typeof data.forecasts] && (
+            <p className="text-dark-400 text-xs text-center">
+              Dashed: forecast for the next {data.forecasts[selectedMetric as keyof typeof data.forecasts].length} days, shaded: 95% prediction interval
+            </p>
+          )}
         </div>
 
         {/* Campaign Performance & Agent Performance */}
@@ -484,6 +570,15 @@ export default function AnalyticsPage() {
           </div>
         </div>
 
+        {/* Attribution */}
+        <AttributionReport timeRange={timeRange} />
+
+        {/* Alerts */}
+        <AlertsPanel />
+
+        {/* Reports */}
+        <ReportsPanel />
+
         {/* Additional Insights */}
         <div className="mt-8 card-glow">
           <div className="flex items-center justify-between mb-6">
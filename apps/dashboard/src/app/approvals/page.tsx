@@ -0,0 +1,350 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  ShieldCheckIcon,
+  CurrencyDollarIcon,
+  EnvelopeIcon,
+  GlobeAltIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ClockIcon,
+  PencilIcon,
+  FunnelIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+interface ApprovalEvent {
+  type: 'requested' | 'auto_approved' | 'edited' | 'approved' | 'rejected' | 'expired';
+  actor?: string;
+  at: string;
+}
+
+interface Approval {
+  id: string;
+  action: string;
+  sideEffect: 'spend' | 'contact' | 'publish';
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  summary: string;
+  amount?: number;
+  campaign?: string;
+  requestedBy: string;
+  payload: Record<string, unknown>;
+  expiresAt: string;
+  autoApproved: boolean;
+  events: ApprovalEvent[];
+}
+
+const sideEffectConfig = {
+  spend: { name: 'Spend', color: 'text-green-400', bg: 'bg-green-500/20', icon: CurrencyDollarIcon },
+  contact: { name: 'Contact', color: 'text-blue-400', bg: 'bg-blue-500/20', icon: EnvelopeIcon },
+  publish: { name: 'Publish', color: 'text-purple-400', bg: 'bg-purple-500/20', icon: GlobeAltIcon },
+};
+
+const statusConfig = {
+  pending: { name: 'Pending', color: 'text-yellow-400', bg: 'bg-yellow-500/20', icon: ClockIcon },
+  approved: { name: 'Approved', color: 'text-green-400', bg: 'bg-green-500/20', icon: CheckCircleIcon },
+  rejected: { name: 'Rejected', color: 'text-red-400', bg: 'bg-red-500/20', icon: XCircleIcon },
+  expired: { name: 'Expired', color: 'text-gray-400', bg: 'bg-gray-500/20', icon: ExclamationTriangleIcon },
+};
+
+export default function ApprovalsPage(): JSX.Element {
+  const [approvals, setApprovals] = useState<Approval[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<string>('pending');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedPayload, setEditedPayload] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+
+  // Mock data for now - will be replaced with real API calls
+  useEffect(() => {
+    const mockApprovals: Approval[] = [
+      {
+        id: 'approval-1',
+        action: 'ad.manage_budget',
+        sideEffect: 'spend',
+        status: 'pending',
+        summary: 'Spends budget: ad.manage_budget, up to 1200.00, for campaign campaign-1',
+        amount: 1200,
+        campaign: 'Summer Neon Collection',
+        requestedBy: 'Alex Morgan',
+        payload: { campaignId: 'campaign-1', totalBudget: 1200, strategy: 'performance' },
+        expiresAt: new Date(Date.now() + 6 * 60 * 60 * 1000).toISOString(),
+        autoApproved: false,
+        events: [{ type: 'requested', actor: 'Alex Morgan', at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() }]
+      },
+      {
+        id: 'approval-2',
+        action: 'outreach.send_emails',
+        sideEffect: 'contact',
+        status: 'pending',
+        summary: 'Contacts customers: outreach.send_emails, 48 leads, for campaign campaign-2',
+        campaign: 'B2B Outreach Q3',
+        requestedBy: 'Jordan Lee',
+        payload: { campaignId: 'campaign-2', template: 'q3-intro', leadIds: ['lead-1', 'lead-2'] },
+        expiresAt: new Date(Date.now() + 20 * 60 * 60 * 1000).toISOString(),
+        autoApproved: false,
+        events: [{ type: 'requested', actor: 'Jordan Lee', at: new Date(Date.now() - 30 * 60 * 1000).toISOString() }]
+      },
+      {
+        id: 'approval-3',
+        action: 'social.publish_post',
+        sideEffect: 'publish',
+        status: 'approved',
+        summary: 'Publishes content: social.publish_post, on INSTAGRAM, for campaign campaign-1',
+        campaign: 'Summer Neon Collection',
+        requestedBy: 'Campaign launch workflow',
+        payload: { platform: 'INSTAGRAM', text: 'Glow all summer long ✨', hashtags: ['#neon'] },
+        expiresAt: new Date(Date.now() + 12 * 60 * 60 * 1000).toISOString(),
+        autoApproved: true,
+        events: [
+          { type: 'requested', at: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString() },
+          { type: 'auto_approved', at: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString() }
+        ]
+      },
+      {
+        id: 'approval-4',
+        action: 'ad.adjust_bidding',
+        sideEffect: 'spend',
+        status: 'expired',
+        summary: 'Spends budget: ad.adjust_bidding, for campaign campaign-3',
+        campaign: 'Product Launch - NeonHub Pro',
+        requestedBy: 'Alex Morgan',
+        payload: { campaignId: 'campaign-3', adSetIds: ['adset-7'] },
+        expiresAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+        autoApproved: false,
+        events: [
+          { type: 'requested', actor: 'Alex Morgan', at: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString() },
+          { type: 'expired', at: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() }
+        ]
+      }
+    ];
+
+    setTimeout(() => {
+      setApprovals(mockApprovals);
+      setLoading(false);
+    }, 1000);
+  }, []);
+
+  const filteredApprovals = approvals.filter(
+    approval => filterStatus === 'all' || approval.status === filterStatus
+  );
+  const pendingCount = approvals.filter(approval => approval.status === 'pending').length;
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const formatExpiry = (expiresAt: string): string => {
+    const hours = Math.round((new Date(expiresAt).getTime() - Date.now()) / (60 * 60 * 1000));
+    return hours > 0 ? `Expires in ${hours}h` : 'Expired';
+  };
+
+  const decide = (approvalId: string, status: 'approved' | 'rejected', payload?: Record<string, unknown>): void => {
+    const at = new Date().toISOString();
+    setApprovals(prev => prev.map(approval =>
+      approval.id === approvalId
+        ? {
+            ...approval,
+            status,
+            payload: payload ?? approval.payload,
+            events: [
+              ...approval.events,
+              ...(payload ? [{ type: 'edited' as const, actor: 'You', at }] : []),
+              { type: status, actor: 'You', at }
+            ]
+          }
+        : approval
+    ));
+  };
+
+  const startEditing = (approval: Approval): void => {
+    setEditingId(approval.id);
+    setEditedPayload(JSON.stringify(approval.payload, null, 2));
+    setEditError(null);
+  };
+
+  const approveEdited = (approvalId: string): void => {
+    try {
+      decide(approvalId, 'approved', JSON.parse(editedPayload));
+      setEditingId(null);
+    } catch {
+      setEditError('Payload must be valid JSON');
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="flex-1 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-dark-700 rounded w-64 mb-8"></div>
+            <div className="grid grid-cols-1 gap-6">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-32 bg-dark-700 rounded-lg"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="flex-1 p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gradient neon-text">Approvals</h1>
+            <p className="text-dark-400 mt-2">Review agent actions that spend budget, contact customers or publish content</p>
+          </div>
+          <div className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-yellow-500/20">
+            <ShieldCheckIcon className="h-5 w-5 text-yellow-400" />
+            <span className="text-yellow-400 font-medium">{pendingCount} awaiting review</span>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="card-glow mb-8">
+          <div className="flex items-center justify-between">
+            <select
+              className="input w-40"
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value)}
+            >
+              <option value="all">All Status</option>
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="rejected">Rejected</option>
+              <option value="expired">Expired</option>
+            </select>
+
+            <div className="flex items-center space-x-2 text-dark-400">
+              <FunnelIcon className="h-4 w-4" />
+              <span className="text-sm">{filteredApprovals.length} approvals</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Approvals List */}
+        <div className="space-y-6">
+          {filteredApprovals.map((approval) => {
+            const effect = sideEffectConfig[approval.sideEffect];
+            const EffectIcon = effect.icon;
+            const statusInfo = statusConfig[approval.status];
+            const StatusIcon = statusInfo.icon;
+            const isEditing = editingId === approval.id;
+
+            return (
+              <div key={approval.id} className="card-glow hover:border-neon-400/50 transition-colors">
+                <div className="flex items-start justify-between mb-4">
+                  <div className="flex items-start space-x-4">
+                    <div className={`p-3 rounded-lg ${effect.bg}`}>
+                      <EffectIcon className={`h-6 w-6 ${effect.color}`} />
+                    </div>
+                    <div>
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h3 className="text-xl font-semibold text-white">{approval.action}</h3>
+                        <div className={`flex items-center space-x-1 px-2 py-1 rounded-full ${statusInfo.bg}`}>
+                          <StatusIcon className={`h-3 w-3 ${statusInfo.color}`} />
+                          <span className={`text-xs font-medium ${statusInfo.color}`}>
+                            {statusInfo.name}
+                          </span>
+                        </div>
+                        {approval.autoApproved && (
+                          <div className="px-2 py-1 rounded-full text-xs font-medium bg-neon-500/20 text-neon-400">
+                            Auto-approved by policy
+                          </div>
+                        )}
+                      </div>
+                      <p className="text-dark-400 mb-3">{approval.summary}</p>
+                      <div className="flex items-center space-x-6 text-sm text-dark-400">
+                        {approval.campaign && <span>{approval.campaign}</span>}
+                        <span>Requested by {approval.requestedBy}</span>
+                        {approval.amount !== undefined && (
+                          <span className="text-green-400">{formatCurrency(approval.amount)}</span>
+                        )}
+                        {approval.status === 'pending' && (
+                          <span className="flex items-center space-x-1">
+                            <ClockIcon className="h-4 w-4" />
+                            <span>{formatExpiry(approval.expiresAt)}</span>
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {approval.status === 'pending' && !isEditing && (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => startEditing(approval)}
+                        className="btn-secondary text-sm"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => decide(approval.id, 'rejected')}
+                        className="btn-pill bg-red-500/20 text-red-400"
+                      >
+                        Reject
+                      </button>
+                      <button
+                        onClick={() => decide(approval.id, 'approved')}
+                        className="btn-pill bg-green-500/20 text-green-400"
+                      >
+                        Approve
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Action preview */}
+                {isEditing ? (
+                  <div className="space-y-3">
+                    <textarea
+                      className="input w-full font-mono text-sm h-40"
+                      value={editedPayload}
+                      onChange={(e) => setEditedPayload(e.target.value)}
+                    />
+                    {editError && <p className="text-sm text-red-400">{editError}</p>}
+                    <div className="flex items-center justify-end space-x-2">
+                      <button onClick={() => setEditingId(null)} className="btn-secondary text-sm">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => approveEdited(approval.id)}
+                        className="btn-pill bg-green-500/20 text-green-400"
+                      >
+                        Approve with changes
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <pre className="bg-dark-800 rounded-lg p-4 text-xs text-dark-300 overflow-x-auto">
+                    {JSON.stringify(approval.payload, null, 2)}
+                  </pre>
+                )}
+
+                {/* Audit trail */}
+                <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-dark-400">
+                  {approval.events.map((event, index) => (
+                    <span key={index}>
+                      {event.type.replace('_', ' ')}
+                      {event.actor && ` by ${event.actor}`} · {new Date(event.at).toLocaleString()}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -21,13 +21,16 @@ import {
   CheckCircleIcon,
   ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
+import CampaignBudget from '@/components/CampaignBudget';
+import CampaignCollaboration from '@/components/CampaignCollaboration';
+import CampaignExperiments from '@/components/CampaignExperiments';
 
 interface Campaign {
   id: string;
   name: string;
   description: string;
   type: 'social_media' | 'email' | 'ads' | 'content' | 'influencer' | 'event';
-  status: 'draft' | 'active' | 'paused' | 'completed' | 'cancelled';
+  status: 'draft' | 'scheduled' | 'active' | 'paused' | 'completed' | 'cancelled';
   budget: number;
   spent: number;
   roi: number;
@@ -58,6 +61,7 @@ const campaignTypes = {
 
 const statusConfig = {
   draft: { name: 'Draft', color: 'text-gray-400', bg: 'bg-gray-500/20', icon: ClockIcon },
+  scheduled: { name: 'Scheduled', color: 'text-cyan-400', bg: 'bg-cyan-500/20', icon: CalendarIcon },
   active: { name: 'Active', color: 'text-green-400', bg: 'bg-green-500/20', icon: CheckCircleIcon },
   paused: { name: 'Paused', color: 'text-yellow-400', bg: 'bg-yellow-500/20', icon: PauseIcon },
   completed: { name: 'Completed', color: 'text-blue-400', bg: 'bg-blue-500/20', icon: CheckCircleIcon },
@@ -153,7 +157,7 @@ export default function CampaignsPage() {
         name: 'Content Marketing Push',
         description: 'Educational content series about AI marketing',
         type: 'content',
-        status: 'draft',
+        status: 'scheduled',
         budget: 3000,
         spent: 0,
         roi: 0,
@@ -206,9 +210,10 @@ export default function CampaignsPage() {
     return Math.min((spent / budget) * 100, 100);
   };
 
+  // Only running campaigns can be paused and resumed; the API enforces the other transitions
   const toggleCampaignStatus = (campaignId: string) => {
     setCampaigns(prev => prev.map(campaign => 
-      campaign.id === campaignId 
+      campaign.id === campaignId && (campaign.status === 'active' || campaign.status === 'paused')
         ? { 
             ...campaign, 
             status: campaign.status === 'active' ? 'paused' : 'active'
@@ -273,6 +278,7 @@ export default function CampaignsPage() {
               >
                 <option value="all">All Status</option>
                 <option value="draft">Draft</option>
+                <option value="scheduled">Scheduled</option>
                 <option value="active">Active</option>
                 <option value="paused">Paused</option>
                 <option value="completed">Completed</option>
@@ -353,16 +359,18 @@ export default function CampaignsPage() {
                     <button className="btn-secondary text-sm">
                       <PencilIcon className="h-4 w-4" />
                     </button>
-                    <button
-                      onClick={() => toggleCampaignStatus(campaign.id)}
-                      className={`btn-pill ${campaign.status === 'active' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-green-500/20 text-green-400'}`}
-                    >
-                      {campaign.status === 'active' ? (
-                        <PauseIcon className="h-4 w-4" />
-                      ) : (
-                        <PlayIcon className="h-4 w-4" />
-                      )}
-                    </button>
+                    {(campaign.status === 'active' || campaign.status === 'paused') && (
+                      <button
+                        onClick={() => toggleCampaignStatus(campaign.id)}
+                        className={`btn-pill ${campaign.status === 'active' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-green-500/20 text-green-400'}`}
+                      >
+                        {campaign.status === 'active' ? (
+                          <PauseIcon className="h-4 w-4" />
+                        ) : (
+                          <PlayIcon className="h-4 w-4" />
+                        )}
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -453,6 +461,56 @@ export default function CampaignsPage() {
           })}
         </div>
 
+        {/* Campaign Detail */}
+        {selectedCampaign && (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
+            <div className="bg-dark-800 border border-dark-700 rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between mb-6">
+                <div>
+                  <h3 className="text-xl font-semibold text-white">{selectedCampaign.name}</h3>
+                  <p className="text-dark-400 text-sm mt-1">{selectedCampaign.description}</p>
+                </div>
+                <button
+                  onClick={() => setSelectedCampaign(null)}
+                  className="text-dark-400 hover:text-white"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div className="metric-card">
+                  <span className="text-dark-400 text-xs">Status</span>
+                  <p className="text-white font-semibold">{statusConfig[selectedCampaign.status].name}</p>
+                </div>
+                <div className="metric-card">
+                  <span className="text-dark-400 text-xs">Budget</span>
+                  <p className="text-white font-semibold">
+                    {formatCurrency(selectedCampaign.spent)} / {formatCurrency(selectedCampaign.budget)}
+                  </p>
+                </div>
+                <div className="metric-card">
+                  <span className="text-dark-400 text-xs">ROI</span>
+                  <p className="text-white font-semibold">{selectedCampaign.roi}x</p>
+                </div>
+              </div>
+
+              <CampaignBudget
+                campaignId={selectedCampaign.id}
+                budget={selectedCampaign.budget}
+                spent={selectedCampaign.spent}
+                startDate={selectedCampaign.startDate}
+                endDate={selectedCampaign.endDate}
+                platforms={selectedCampaign.platforms}
+              />
+
+              <CampaignExperiments campaignId={selectedCampaign.id} />
+
+              <CampaignCollaboration campaignId={selectedCampaign.id} />
+            </div>
+          </div>
+        )}
+
         {/* Create Campaign Modal */}
         {showCreateModal && (
           <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ArrowTrendingDownIcon,
+  ArrowTrendingUpIcon,
+  BellAlertIcon,
+  CheckIcon,
+  MoonIcon,
+  SparklesIcon,
+} from '@heroicons/react/24/outline';
+
+type AlertStatus = 'OPEN' | 'ACKNOWLEDGED';
+
+interface AlertExplanation {
+  summary: string;
+  likelyCauses: string[];
+  confidence: number;
+}
+
+interface MetricAlert {
+  id: string;
+  rule: string;
+  message: string;
+  direction: 'spike' | 'drop' | null;
+  score: number | null;
+  status: AlertStatus;
+  quiet: boolean;
+  createdAt: string;
+  acknowledgedBy?: string;
+  explanation?: AlertExplanation;
+}
+
+// Mock explanations for now - will be replaced with alert.explain
+const mockExplanations: Record<string, AlertExplanation> = {
+  'alert-1': {
+    summary:
+      'The CTR drop started right after the ad creative was swapped; impressions held steady while clicks fell.',
+    likelyCauses: ['New creative underperforms the previous one', 'Audience fatigue on Instagram'],
+    confidence: 0.72,
+  },
+  'alert-2': {
+    summary:
+      'Conversions rose with the launch email, which went out an hour earlier than the usual send.',
+    likelyCauses: ['Launch announcement email', 'Earlier send time'],
+    confidence: 0.81,
+  },
+};
+
+function timeAgo(iso: string): string {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+export default function AlertsPanel(): JSX.Element {
+  const [alerts, setAlerts] = useState<MetricAlert[]>([]);
+  const [explaining, setExplaining] = useState<string | null>(null);
+
+  // Mock data for now - will be replaced with alert.list
+  useEffect(() => {
+    const now = Date.now();
+    setAlerts([
+      {
+        id: 'alert-1',
+        rule: 'CTR anomalies',
+        message:
+          'CTR dropped to 0.62% (expected about 1.48%) for Summer Neon Collection on INSTAGRAM',
+        direction: 'drop',
+        score: -6.1,
+        status: 'OPEN',
+        quiet: false,
+        createdAt: new Date(now - 40 * 60_000).toISOString(),
+      },
+      {
+        id: 'alert-2',
+        rule: 'Conversion spikes',
+        message:
+          'Conversions spiked to 48 (expected about 17) for Product Launch - NeonHub Pro on EMAIL',
+        direction: 'spike',
+        score: 5.3,
+        status: 'OPEN',
+        quiet: true,
+        createdAt: new Date(now - 7 * 60 * 60_000).toISOString(),
+      },
+      {
+        id: 'alert-3',
+        rule: 'Daily spend cap',
+        message: 'Spend is $1,240.00, above $1,000.00 for B2B Outreach Q3 on LINKEDIN',
+        direction: 'spike',
+        score: null,
+        status: 'ACKNOWLEDGED',
+        quiet: false,
+        createdAt: new Date(now - 26 * 60 * 60_000).toISOString(),
+        acknowledgedBy: 'Alex Morgan',
+      },
+    ]);
+  }, []);
+
+  const acknowledge = (id: string): void => {
+    setAlerts(current =>
+      current.map(alert =>
+        alert.id === id ? { ...alert, status: 'ACKNOWLEDGED', acknowledgedBy: 'You' } : alert
+      )
+    );
+  };
+
+  const explain = (id: string): void => {
+    setExplaining(id);
+    setTimeout(() => {
+      setAlerts(current =>
+        current.map(alert => {
+          const explanation = mockExplanations[id];
+          return alert.id === id && explanation ? { ...alert, explanation } : alert;
+        })
+      );
+      setExplaining(null);
+    }, 800);
+  };
+
+  const open = alerts.filter(alert => alert.status === 'OPEN').length;
+
+  return (
+    <div className="card-glow mt-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <BellAlertIcon className="h-6 w-6 text-neon-400" />
+          <h2 className="text-xl font-semibold text-white">Alerts</h2>
+          {open > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-400">
+              {open} open
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {alerts.map(alert => (
+          <div
+            key={alert.id}
+            className={`bg-dark-700/30 border rounded-lg p-4 ${alert.status === 'OPEN' ? 'border-red-500/20' : 'border-dark-600'}`}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex items-start space-x-3">
+                {alert.direction === 'drop' ? (
+                  <ArrowTrendingDownIcon className="h-5 w-5 mt-0.5 text-red-400" />
+                ) : (
+                  <ArrowTrendingUpIcon className="h-5 w-5 mt-0.5 text-yellow-400" />
+                )}
+                <div>
+                  <p className="text-white text-sm">{alert.message}</p>
+                  <p className="text-xs text-dark-400 mt-1">
+                    {alert.rule} · {timeAgo(alert.createdAt)}
+                    {alert.score !== null && ` · score ${alert.score.toFixed(1)}`}
+                    {alert.quiet && (
+                      <span className="ml-2 inline-flex items-center">
+                        <MoonIcon className="h-3 w-3 mr-1" />
+                        quiet hours
+                      </span>
+                    )}
+                    {alert.acknowledgedBy && ` · acknowledged by ${alert.acknowledgedBy}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                {alert.direction !== null && alert.score !== null && !alert.explanation && (
+                  <button
+                    onClick={() => explain(alert.id)}
+                    disabled={explaining === alert.id}
+                    className="flex items-center px-3 py-1 rounded text-sm bg-dark-700 text-dark-300 hover:text-white"
+                  >
+                    <SparklesIcon className="h-4 w-4 mr-1" />
+                    {explaining === alert.id ? 'Explaining…' : 'Explain'}
+                  </button>
+                )}
+                {alert.status === 'OPEN' && (
+                  <button
+                    onClick={() => acknowledge(alert.id)}
+                    className="flex items-center px-3 py-1 rounded text-sm bg-neon-400/20 text-neon-400"
+                  >
+                    <CheckIcon className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {alert.explanation && (
+              <div className="mt-3 ml-8 border-l-2 border-blue-500/30 pl-3">
+                <p className="text-dark-300 text-sm">{alert.explanation.summary}</p>
+                <ul className="mt-1 text-xs text-dark-400 list-disc list-inside">
+                  {alert.explanation.likelyCauses.map(cause => (
+                    <li key={cause}>{cause}</li>
+                  ))}
+                </ul>
+                <p className="text-xs text-dark-500 mt-1">
+                  {Math.round(alert.explanation.confidence * 100)}% confidence
+                </p>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
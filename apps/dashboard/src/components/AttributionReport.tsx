@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+
+type AttributionModel =
+  | 'first_touch'
+  | 'last_touch'
+  | 'linear'
+  | 'time_decay'
+  | 'position_based'
+  | 'data_driven';
+
+type Dimension = 'campaign' | 'platform' | 'content';
+
+interface AttributionCredit {
+  key: string;
+  name: string;
+  conversions: number;
+  revenue: number;
+}
+
+type AttributionReports = Record<AttributionModel, Record<Dimension, AttributionCredit[]>>;
+
+interface AttributionReportProps {
+  timeRange: string;
+}
+
+const modelConfig: Record<AttributionModel, { name: string; description: string }> = {
+  first_touch: {
+    name: 'First touch',
+    description: 'All credit to the touch that started the journey',
+  },
+  last_touch: {
+    name: 'Last touch',
+    description: 'All credit to the touch right before converting',
+  },
+  linear: { name: 'Linear', description: 'Credit split evenly over every touch' },
+  time_decay: {
+    name: 'Time decay',
+    description: 'Touches closer to the conversion get more credit',
+  },
+  position_based: {
+    name: 'Position based',
+    description: '40% to the first and last touch each, the rest to the middle',
+  },
+  data_driven: {
+    name: 'Data driven',
+    description:
+      'Credit by how many conversions are lost without each touch (Markov removal effect)',
+  },
+};
+
+const dimensionNames: Record<Dimension, string> = {
+  campaign: 'Campaigns',
+  platform: 'Platforms',
+  content: 'Content',
+};
+
+const TOTAL_REVENUE = 84250;
+const TOTAL_CONVERSIONS = 612;
+
+/** How often an item opens and closes journeys, and its removal effect */
+interface MockTouchMix {
+  key: string;
+  name: string;
+  opens: number;
+  closes: number;
+  removal: number;
+}
+
+const MOCK_MIX: Record<Dimension, MockTouchMix[]> = {
+  campaign: [
+    { key: 'campaign-1', name: 'Summer Neon Collection', opens: 0.46, closes: 0.18, removal: 0.31 },
+    { key: 'campaign-2', name: 'B2B Outreach Q3', opens: 0.12, closes: 0.41, removal: 0.36 },
+    {
+      key: 'campaign-3',
+      name: 'Product Launch - NeonHub Pro',
+      opens: 0.34,
+      closes: 0.3,
+      removal: 0.27,
+    },
+    { key: 'none', name: 'No campaign', opens: 0.08, closes: 0.11, removal: 0.06 },
+  ],
+  platform: [
+    { key: 'INSTAGRAM', name: 'Instagram', opens: 0.38, closes: 0.09, removal: 0.21 },
+    { key: 'EMAIL', name: 'Email', opens: 0.06, closes: 0.44, removal: 0.33 },
+    { key: 'GOOGLE_ADS', name: 'Google Ads', opens: 0.22, closes: 0.31, removal: 0.28 },
+    { key: 'LINKEDIN', name: 'LinkedIn', opens: 0.34, closes: 0.16, removal: 0.18 },
+  ],
+  content: [
+    { key: 'content-1', name: 'Neon glow reel', opens: 0.41, closes: 0.12, removal: 0.24 },
+    {
+      key: 'content-2',
+      name: 'Launch announcement email',
+      opens: 0.05,
+      closes: 0.39,
+      removal: 0.35,
+    },
+    { key: 'content-3', name: 'Customer story carousel', opens: 0.29, closes: 0.21, removal: 0.22 },
+    { key: 'content-4', name: 'Retargeting ad - Pro', opens: 0.25, closes: 0.28, removal: 0.19 },
+  ],
+};
+
+/** Share of the credit an item gets under a model, from how it opens and closes journeys */
+function mockShare(mix: MockTouchMix, model: AttributionModel): number {
+  const linear = (mix.opens + mix.closes) / 2;
+  switch (model) {
+    case 'first_touch':
+      return mix.opens;
+    case 'last_touch':
+      return mix.closes;
+    case 'linear':
+      return linear;
+    case 'time_decay':
+      return 0.25 * mix.opens + 0.75 * mix.closes;
+    case 'position_based':
+      return 0.4 * mix.opens + 0.4 * mix.closes + 0.2 * linear;
+    case 'data_driven':
+      return mix.removal;
+  }
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export default function AttributionReport({ timeRange }: AttributionReportProps): JSX.Element {
+  const [model, setModel] = useState<AttributionModel>('data_driven');
+  const [dimension, setDimension] = useState<Dimension>('campaign');
+  const [reports, setReports] = useState<AttributionReports | null>(null);
+
+  // Mock data for now - will be replaced with attribution.compareModels
+  useEffect(() => {
+    const models = Object.keys(modelConfig) as AttributionModel[];
+    const built = Object.fromEntries(
+      models.map(name => [
+        name,
+        Object.fromEntries(
+          (Object.keys(MOCK_MIX) as Dimension[]).map(group => {
+            const items = MOCK_MIX[group];
+            const total = items.reduce((sum, item) => sum + mockShare(item, name), 0);
+            const credits = items
+              .map(item => {
+                const share = mockShare(item, name) / total;
+                return {
+                  key: item.key,
+                  name: item.name,
+                  conversions: Math.round(share * TOTAL_CONVERSIONS),
+                  revenue: Math.round(share * TOTAL_REVENUE),
+                };
+              })
+              .sort((a, b) => b.revenue - a.revenue);
+            return [group, credits];
+          })
+        ),
+      ])
+    ) as AttributionReports;
+    setReports(built);
+  }, [timeRange]);
+
+  const credits = reports?.[model][dimension] ?? [];
+  const lastTouch = new Map(
+    (reports?.last_touch[dimension] ?? []).map(credit => [credit.key, credit.revenue])
+  );
+
+  return (
+    <div className="card-glow mt-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Attribution</h2>
+          <p className="text-dark-400 text-sm mt-1">{modelConfig[model].description}</p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <select
+            className="input w-44"
+            value={model}
+            onChange={event => setModel(event.target.value as AttributionModel)}
+          >
+            {(Object.keys(modelConfig) as AttributionModel[]).map(name => (
+              <option key={name} value={name}>
+                {modelConfig[name].name}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            {(Object.keys(dimensionNames) as Dimension[]).map(name => (
+              <button
+                key={name}
+                onClick={() => setDimension(name)}
+                className={`px-3 py-1 rounded text-sm ${dimension === name ? 'bg-neon-400/20 text-neon-400' : 'bg-dark-700 text-dark-400'}`}
+              >
+                {dimensionNames[name]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={credits} layout="vertical" margin={{ left: 24 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                type="number"
+                stroke="#9ca3af"
+                fontSize={11}
+                tickFormatter={(value: number) => formatCurrency(value)}
+              />
+              <YAxis type="category" dataKey="name" stroke="#9ca3af" fontSize={11} width={140} />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(value)}
+                contentStyle={{ background: '#1f2937', border: '1px solid #374151' }}
+              />
+              <Bar dataKey="revenue" name="Credited revenue" fill="#22d3ee" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="space-y-3">
+          {credits.map(credit => {
+            const difference = credit.revenue - (lastTouch.get(credit.key) ?? 0);
+            return (
+              <div key={credit.key} className="flex items-center justify-between text-sm">
+                <span className="text-dark-300">{credit.name}</span>
+                <div className="text-right">
+                  <p className="text-white font-medium">{formatCurrency(credit.revenue)}</p>
+                  <p className="text-xs text-dark-400">
+                    {credit.conversions} conversions
+                    {model !== 'last_touch' && difference !== 0 && (
+                      <span
+                        className={`ml-2 inline-flex items-center ${difference > 0 ? 'text-green-400' : 'text-red-400'}`}
+                      >
+                        <ArrowsRightLeftIcon className="h-3 w-3 mr-1" />
+                        {difference > 0 ? '+' : '-'}
+                        {formatCurrency(Math.abs(difference))} vs last touch
+                      </span>
+                    )}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
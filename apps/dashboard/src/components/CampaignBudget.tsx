@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ArrowsRightLeftIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+type PaceStatus = 'on_track' | 'behind' | 'ahead' | 'over_budget';
+
+interface PlatformBudget {
+  platform: string;
+  allocated: number;
+  spent: number;
+  roas: number | null;
+  dailyTarget: number;
+  status: PaceStatus;
+}
+
+interface BurnDownPoint {
+  date: string;
+  remaining: number;
+  ideal: number | null;
+}
+
+interface BudgetAlert {
+  kind: 'over_budget' | 'ahead_of_pace' | 'over_allocated';
+  message: string;
+}
+
+interface CampaignBudgetProps {
+  campaignId: string;
+  budget: number;
+  spent: number;
+  startDate: string;
+  endDate: string;
+  platforms: string[];
+}
+
+const paceConfig: Record<PaceStatus, { name: string; color: string }> = {
+  on_track: { name: 'On track', color: 'text-green-400' },
+  behind: { name: 'Behind', color: 'text-yellow-400' },
+  ahead: { name: 'Ahead', color: 'text-orange-400' },
+  over_budget: { name: 'Over budget', color: 'text-red-400' },
+};
+
+// Mock ROAS per platform, in the order the campaign lists them
+const MOCK_ROAS = [3.8, 2.1, 1.4, 2.9];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export default function CampaignBudget({
+  campaignId,
+  budget,
+  spent,
+  startDate,
+  endDate,
+  platforms,
+}: CampaignBudgetProps): JSX.Element {
+  const [ledger, setLedger] = useState<PlatformBudget[]>([]);
+  const [burnDown, setBurnDown] = useState<BurnDownPoint[]>([]);
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+  const [rebalanceQueued, setRebalanceQueued] = useState(false);
+
+  // Mock data for now - will be replaced with campaign.getBudget
+  useEffect(() => {
+    const start = Date.parse(startDate);
+    const end = Date.parse(endDate) + DAY_MS;
+    const flightDays = Math.max(1, Math.round((end - start) / DAY_MS));
+    const elapsedDays = Math.min(
+      flightDays,
+      Math.max(1, Math.round(flightDays * (spent / budget)))
+    );
+    const daysLeft = Math.max(1, flightDays - elapsedDays);
+    const share = 1 / Math.max(1, platforms.length);
+
+    const rows = platforms.map((platform, index): PlatformBudget => {
+      const allocated = budget * share;
+      // The first platform runs hot so the mock shows an overspend
+      const platformSpent = spent * share * (index === 0 ? 1.6 : 0.8);
+      const expected = (allocated * elapsedDays) / flightDays;
+      const pace = expected > 0 ? platformSpent / expected : 1;
+      return {
+        platform,
+        allocated,
+        spent: platformSpent,
+        roas: MOCK_ROAS[index % MOCK_ROAS.length] ?? null,
+        dailyTarget: Math.max(0, allocated - platformSpent) / daysLeft,
+        status:
+          platformSpent > allocated
+            ? 'over_budget'
+            : pace > 1.2
+              ? 'ahead'
+              : pace < 0.8
+                ? 'behind'
+                : 'on_track',
+      };
+    });
+
+    const points: BurnDownPoint[] = [];
+    const step = Math.max(1, Math.floor(elapsedDays / 12));
+    for (let day = 0; day < elapsedDays; day += step) {
+      // Spend ramps up a little over the flight
+      const spentByDay = spent * Math.pow((day + 1) / elapsedDays, 1.2);
+      points.push({
+        date: new Date(start + day * DAY_MS).toISOString().slice(5, 10),
+        remaining: Math.round(budget - spentByDay),
+        ideal: Math.round(budget * (1 - (day + 1) / flightDays)),
+      });
+    }
+
+    setLedger(rows);
+    setBurnDown(points);
+    setAlerts(
+      rows
+        .filter(row => row.status === 'over_budget' || row.status === 'ahead')
+        .map(row => ({
+          kind: row.status === 'over_budget' ? 'over_budget' : 'ahead_of_pace',
+          message:
+            row.status === 'over_budget'
+              ? `${row.platform} spent ${formatCurrency(row.spent)} of ${formatCurrency(row.allocated)} allocated`
+              : `${row.platform} is spending ahead of its daily pace`,
+        }))
+    );
+    setRebalanceQueued(false);
+  }, [campaignId, budget, spent, startDate, endDate, platforms]);
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="flex items-center justify-between">
+        <h4 className="text-white font-semibold">Budget</h4>
+        <button
+          onClick={() => setRebalanceQueued(true)}
+          disabled={rebalanceQueued || ledger.length < 2}
+          className="btn-pill text-neon-400 bg-neon-500/20 flex items-center space-x-1 disabled:opacity-50"
+        >
+          <ArrowsRightLeftIcon className="h-4 w-4" />
+          <span>{rebalanceQueued ? 'Rebalance awaiting approval' : 'Rebalance by ROAS'}</span>
+        </button>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="space-y-2">
+          {alerts.map(alert => (
+            <div
+              key={alert.message}
+              className="flex items-center space-x-2 text-sm text-red-400 bg-red-500/10 rounded-lg px-3 py-2"
+            >
+              <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+              <span>{alert.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="metric-card">
+        <span className="text-dark-400 text-xs">Burn-down</span>
+        <div className="h-48 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={burnDown}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="date" stroke="#9ca3af" fontSize={11} />
+              <YAxis stroke="#9ca3af" fontSize={11} tickFormatter={formatCurrency} />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(value)}
+                contentStyle={{ background: '#1f2937', border: '1px solid #374151' }}
+              />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="remaining"
+                name="Remaining"
+                stroke="#22d3ee"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="ideal"
+                name="Even pace"
+                stroke="#6b7280"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {ledger.map(row => (
+          <div key={row.platform} className="flex items-center justify-between text-sm">
+            <div className="w-28 text-white">{row.platform}</div>
+            <div className="flex-1 mx-3">
+              <div className="w-full bg-dark-700 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${row.spent > row.allocated ? 'bg-red-500' : 'bg-neon-500'}`}
+                  style={{ width: `${Math.min(100, (row.spent / row.allocated) * 100)}%` }}
+                />
+              </div>
+            </div>
+            <div className="w-40 text-right text-dark-300">
+              {formatCurrency(row.spent)} / {formatCurrency(row.allocated)}
+              <div className="text-xs text-dark-400">{formatCurrency(row.dailyTarget)}/day</div>
+            </div>
+            <div className="w-20 text-right text-dark-300">
+              {row.roas === null ? '—' : `${row.roas.toFixed(1)}x`}
+            </div>
+            <div className={`w-24 text-right ${paceConfig[row.status].color}`}>
+              {paceConfig[row.status].name}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ArrowPathIcon,
+  ArrowUturnLeftIcon,
+  ChatBubbleLeftRightIcon,
+  CpuChipIcon,
+  CurrencyDollarIcon,
+  ExclamationTriangleIcon,
+  SparklesIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+interface Member {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface CampaignComment {
+  id: string;
+  author: Member;
+  body: string;
+  createdAt: string;
+  edited?: boolean;
+  deleted?: boolean;
+  replies: CampaignComment[];
+}
+
+type ActivityType =
+  | 'CAMPAIGN_CREATED'
+  | 'STATUS_CHANGED'
+  | 'BUDGET_CHANGED'
+  | 'BUDGET_ALERT'
+  | 'AGENT_EXECUTION';
+
+interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  actor: string | null;
+  summary: string;
+  createdAt: string;
+}
+
+interface CampaignCollaborationProps {
+  campaignId: string;
+}
+
+const activityConfig: Record<
+  ActivityType,
+  { icon: typeof SparklesIcon; color: string; bg: string }
+> = {
+  CAMPAIGN_CREATED: { icon: SparklesIcon, color: 'text-neon-400', bg: 'bg-neon-500/20' },
+  STATUS_CHANGED: { icon: ArrowPathIcon, color: 'text-blue-400', bg: 'bg-blue-500/20' },
+  BUDGET_CHANGED: { icon: CurrencyDollarIcon, color: 'text-green-400', bg: 'bg-green-500/20' },
+  BUDGET_ALERT: { icon: ExclamationTriangleIcon, color: 'text-red-400', bg: 'bg-red-500/20' },
+  AGENT_EXECUTION: { icon: CpuChipIcon, color: 'text-purple-400', bg: 'bg-purple-500/20' },
+};
+
+const CURRENT_USER: Member = { id: 'user-1', name: 'Alex Rivera', email: 'alex@neonhub.ai' };
+
+// Splits a comment into text and @mentions so mentions can be highlighted
+function renderBody(body: string): JSX.Element[] {
+  return body.split(/(@[\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g).map((part, index) =>
+    part.startsWith('@') ? (
+      <span key={index} className="text-neon-400 font-medium">
+        {part}
+      </span>
+    ) : (
+      <span key={index}>{part}</span>
+    )
+  );
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function CampaignCollaboration({
+  campaignId,
+}: CampaignCollaborationProps): JSX.Element {
+  const [tab, setTab] = useState<'comments' | 'activity'>('comments');
+  const [members, setMembers] = useState<Member[]>([]);
+  const [comments, setComments] = useState<CampaignComment[]>([]);
+  const [activity, setActivity] = useState<ActivityEvent[]>([]);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<CampaignComment | null>(null);
+
+  // Mock data for now - will be replaced with comment.list and activity.list
+  useEffect(() => {
+    const jordan: Member = { id: 'user-2', name: 'Jordan Lee', email: 'jordan@neonhub.ai' };
+    const sam: Member = { id: 'user-3', name: 'Sam Patel', email: 'sam@neonhub.ai' };
+
+    setMembers([CURRENT_USER, jordan, sam]);
+    setComments([
+      {
+        id: `${campaignId}-c1`,
+        author: jordan,
+        body: '@alex the TikTok creatives are outperforming Instagram 2:1. Shift budget?',
+        createdAt: '2024-07-02T14:20:00Z',
+        replies: [
+          {
+            id: `${campaignId}-c2`,
+            author: CURRENT_USER,
+            body: 'Agreed, moving $500 over this afternoon. @sam can you refresh the copy?',
+            createdAt: '2024-07-02T15:05:00Z',
+            replies: [],
+          },
+        ],
+      },
+      {
+        id: `${campaignId}-c3`,
+        author: sam,
+        body: 'Variant B of the headline test is ready for review.',
+        createdAt: '2024-07-03T09:12:00Z',
+        edited: true,
+        replies: [],
+      },
+    ]);
+    setActivity([
+      {
+        id: 'a5',
+        type: 'BUDGET_ALERT',
+        actor: null,
+        summary: 'TIKTOK spent $1,620.00 of $1,500.00 allocated',
+        createdAt: '2024-07-04T18:45:00Z',
+      },
+      {
+        id: 'a4',
+        type: 'AGENT_EXECUTION',
+        actor: null,
+        summary: 'AdAgent ran optimize_campaign (completed)',
+        createdAt: '2024-07-03T08:00:00Z',
+      },
+      {
+        id: 'a3',
+        type: 'BUDGET_CHANGED',
+        actor: 'Alex Rivera',
+        summary: 'Budget changed from $4,500 to $5,000',
+        createdAt: '2024-07-02T15:10:00Z',
+      },
+      {
+        id: 'a2',
+        type: 'STATUS_CHANGED',
+        actor: 'Jordan Lee',
+        summary: 'Status changed from Draft to Active',
+        createdAt: '2024-06-01T09:00:00Z',
+      },
+      {
+        id: 'a1',
+        type: 'CAMPAIGN_CREATED',
+        actor: 'Jordan Lee',
+        summary: 'Campaign created',
+        createdAt: '2024-05-28T16:30:00Z',
+      },
+    ]);
+  }, [campaignId]);
+
+  // Suggest members while the draft ends in an unfinished @mention
+  const mentionQuery = /@([\w.+-]*)$/.exec(draft)?.[1]?.toLowerCase();
+  const suggestions =
+    mentionQuery === undefined
+      ? []
+      : members.filter(
+          member =>
+            member.id !== CURRENT_USER.id &&
+            (member.email.toLowerCase().startsWith(mentionQuery) ||
+              member.name.toLowerCase().startsWith(mentionQuery))
+        );
+
+  const insertMention = (member: Member): void => {
+    const handle = member.email.split('@')[0] ?? member.email;
+    setDraft(draft.replace(/@[\w.+-]*$/, `@${handle} `));
+  };
+
+  const submitComment = (): void => {
+    const body = draft.trim();
+    if (!body) return;
+
+    const comment: CampaignComment = {
+      id: `${campaignId}-${Date.now()}`,
+      author: CURRENT_USER,
+      body,
+      createdAt: new Date().toISOString(),
+      replies: [],
+    };
+    setComments(prev =>
+      replyTo
+        ? prev.map(thread =>
+            thread.id === replyTo.id ? { ...thread, replies: [...thread.replies, comment] } : thread
+          )
+        : [...prev, comment]
+    );
+    setDraft('');
+    setReplyTo(null);
+  };
+
+  const deleteComment = (id: string): void => {
+    setComments(prev =>
+      prev
+        .map(thread => ({
+          ...thread,
+          ...(thread.id === id && { deleted: true, body: '' }),
+          replies: thread.replies.filter(reply => reply.id !== id),
+        }))
+        .filter(thread => !thread.deleted || thread.replies.length > 0)
+    );
+  };
+
+  const renderComment = (comment: CampaignComment, isReply: boolean): JSX.Element => (
+    <div key={comment.id} className={isReply ? 'ml-10 mt-3' : 'mt-4'}>
+      <div className="flex items-start space-x-3">
+        <div className="w-8 h-8 rounded-full bg-dark-700 flex items-center justify-center text-xs text-neon-400 shrink-0">
+          {comment.author.name
+            .split(' ')
+            .map(part => part[0])
+            .join('')}
+        </div>
+        <div className="flex-1">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm font-medium text-white">{comment.author.name}</span>
+            <span className="text-xs text-dark-400">{formatTime(comment.createdAt)}</span>
+            {comment.edited && <span className="text-xs text-dark-500">(edited)</span>}
+          </div>
+          {comment.deleted ? (
+            <p className="text-sm italic text-dark-500 mt-1">This comment was deleted</p>
+          ) : (
+            <p className="text-sm text-dark-300 mt-1">{renderBody(comment.body)}</p>
+          )}
+          {!comment.deleted && (
+            <div className="flex items-center space-x-3 mt-1">
+              {!isReply && (
+                <button
+                  onClick={() => setReplyTo(comment)}
+                  className="flex items-center space-x-1 text-xs text-dark-400 hover:text-neon-400"
+                >
+                  <ArrowUturnLeftIcon className="h-3 w-3" />
+                  <span>Reply</span>
+                </button>
+              )}
+              {comment.author.id === CURRENT_USER.id && (
+                <button
+                  onClick={() => deleteComment(comment.id)}
+                  className="flex items-center space-x-1 text-xs text-dark-400 hover:text-red-400"
+                >
+                  <TrashIcon className="h-3 w-3" />
+                  <span>Delete</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+      {comment.replies.map(reply => renderComment(reply, true))}
+    </div>
+  );
+
+  return (
+    <div className="card">
+      <div className="flex items-center space-x-2 border-b border-dark-700/50 pb-3">
+        <button
+          onClick={() => setTab('comments')}
+          className={`btn-pill ${tab === 'comments' ? 'bg-neon-500/20 text-neon-400' : 'text-dark-400'}`}
+        >
+          Comments ({comments.length})
+        </button>
+        <button
+          onClick={() => setTab('activity')}
+          className={`btn-pill ${tab === 'activity' ? 'bg-neon-500/20 text-neon-400' : 'text-dark-400'}`}
+        >
+          Activity
+        </button>
+      </div>
+
+      {tab === 'comments' ? (
+        <div>
+          {comments.length === 0 && (
+            <div className="flex flex-col items-center py-8 text-dark-400">
+              <ChatBubbleLeftRightIcon className="h-8 w-8 mb-2" />
+              <p className="text-sm">No comments yet. Start the discussion.</p>
+            </div>
+          )}
+          {comments.map(comment => renderComment(comment, false))}
+
+          <div className="relative mt-6">
+            {replyTo && (
+              <div className="flex items-center justify-between text-xs text-dark-400 mb-2">
+                <span>Replying to {replyTo.author.name}</span>
+                <button onClick={() => setReplyTo(null)} className="hover:text-white">
+                  Cancel
+                </button>
+              </div>
+            )}
+            <textarea
+              className="input w-full h-20 resize-none"
+              placeholder="Write a comment... use @ to mention a teammate"
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+            />
+            {suggestions.length > 0 && (
+              <div className="absolute left-0 bottom-full mb-1 w-64 card p-1 z-10">
+                {suggestions.map(member => (
+                  <button
+                    key={member.id}
+                    onClick={() => insertMention(member)}
+                    className="w-full text-left px-3 py-2 rounded-lg hover:bg-dark-700/50"
+                  >
+                    <p className="text-sm text-white">{member.name}</p>
+                    <p className="text-xs text-dark-400">{member.email}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={submitComment}
+                className="btn-primary text-sm"
+                disabled={!draft.trim()}
+              >
+                {replyTo ? 'Reply' : 'Comment'}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <ol className="mt-4 space-y-4">
+          {activity.map(event => {
+            const config = activityConfig[event.type];
+            const EventIcon = config.icon;
+
+            return (
+              <li key={event.id} className="flex items-start space-x-3">
+                <div className={`p-2 rounded-lg ${config.bg}`}>
+                  <EventIcon className={`h-4 w-4 ${config.color}`} />
+                </div>
+                <div>
+                  <p className="text-sm text-white">{event.summary}</p>
+                  <p className="text-xs text-dark-400">
+                    {event.actor ?? 'Automated'} · {formatTime(event.createdAt)}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
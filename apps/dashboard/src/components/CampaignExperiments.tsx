@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { BeakerIcon, TrophyIcon } from '@heroicons/react/24/outline';
+
+type TestMode = 'FIXED' | 'BANDIT';
+type TestStatus = 'DRAFT' | 'RUNNING' | 'COMPLETED' | 'STOPPED';
+
+interface VariantResult {
+  id: string;
+  name: string;
+  trials: number;
+  rate: number;
+}
+
+interface Experiment {
+  id: string;
+  name: string;
+  mode: TestMode;
+  status: TestStatus;
+  variants: VariantResult[];
+  winner: string | null;
+  confidence: number | null;
+}
+
+/** One reallocation of a bandit test: share of traffic per variant id */
+type AllocationPoint = { date: string } & Record<string, number | string>;
+
+interface CampaignExperimentsProps {
+  campaignId: string;
+}
+
+const statusConfig: Record<TestStatus, { name: string; color: string }> = {
+  DRAFT: { name: 'Draft', color: 'text-dark-400' },
+  RUNNING: { name: 'Running', color: 'text-neon-400' },
+  COMPLETED: { name: 'Completed', color: 'text-green-400' },
+  STOPPED: { name: 'Stopped', color: 'text-yellow-400' },
+};
+
+const VARIANT_COLORS = ['#22d3ee', '#a78bfa', '#f472b6', '#facc15'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export default function CampaignExperiments({ campaignId }: CampaignExperimentsProps): JSX.Element {
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [allocations, setAllocations] = useState<Record<string, AllocationPoint[]>>({});
+
+  // Mock data for now - will be replaced with abTest.list and abTest.getAllocations
+  useEffect(() => {
+    const bandit: Experiment = {
+      id: `${campaignId}_bandit`,
+      name: 'Always-on ad creative',
+      mode: 'BANDIT',
+      status: 'RUNNING',
+      variants: [
+        { id: 'variant_a', name: 'Product shot', trials: 18400, rate: 0.021 },
+        { id: 'variant_b', name: 'Customer quote', trials: 41200, rate: 0.034 },
+        { id: 'variant_c', name: 'Limited offer', trials: 9800, rate: 0.017 },
+      ],
+      winner: null,
+      confidence: null,
+    };
+    const fixed: Experiment = {
+      id: `${campaignId}_fixed`,
+      name: 'Launch post copy',
+      mode: 'FIXED',
+      status: 'COMPLETED',
+      variants: [
+        { id: 'variant_a', name: 'Feature-led', trials: 2100, rate: 0.048 },
+        { id: 'variant_b', name: 'Benefit-led', trials: 2080, rate: 0.063 },
+      ],
+      winner: 'variant_b',
+      confidence: 0.982,
+    };
+
+    // Traffic moves from an even split towards the best creative
+    const points: AllocationPoint[] = [];
+    const start = Date.now() - 13 * DAY_MS;
+    for (let day = 0; day < 14; day++) {
+      const progress = day / 13;
+      const best = 1 / 3 + (0.82 - 1 / 3) * Math.sqrt(progress);
+      const first = (1 - best) * (0.55 + 0.1 * progress);
+      points.push({
+        date: new Date(start + day * DAY_MS).toISOString().slice(5, 10),
+        variant_a: first,
+        variant_b: best,
+        variant_c: 1 - best - first,
+      });
+    }
+
+    setExperiments([bandit, fixed]);
+    setAllocations({ [bandit.id]: points });
+  }, [campaignId]);
+
+  return (
+    <div className="space-y-4 mb-6">
+      <h4 className="text-white font-semibold">Experiments</h4>
+
+      {experiments.map(experiment => (
+        <div key={experiment.id} className="metric-card">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2">
+              <BeakerIcon className="h-4 w-4 text-neon-400" />
+              <span className="text-white text-sm font-medium">{experiment.name}</span>
+              <span className="text-xs text-dark-400">
+                {experiment.mode === 'BANDIT' ? 'Bandit' : 'A/B test'}
+              </span>
+            </div>
+            <span className={`text-xs ${statusConfig[experiment.status].color}`}>
+              {statusConfig[experiment.status].name}
+            </span>
+          </div>
+
+          <div className="space-y-1">
+            {experiment.variants.map(variant => (
+              <div key={variant.id} className="flex items-center justify-between text-sm">
+                <div className="flex items-center space-x-2 text-dark-300">
+                  {experiment.winner === variant.id && (
+                    <TrophyIcon className="h-4 w-4 text-yellow-400" />
+                  )}
+                  <span>{variant.name}</span>
+                </div>
+                <div className="text-dark-300">
+                  {formatPercent(variant.rate)}
+                  <span className="text-xs text-dark-400 ml-2">
+                    {variant.trials.toLocaleString()} shown
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {experiment.winner && experiment.confidence !== null && (
+            <p className="text-xs text-dark-400 mt-2">
+              Winner declared with {formatPercent(experiment.confidence)} confidence
+            </p>
+          )}
+
+          {experiment.mode === 'BANDIT' && (
+            <div className="h-40 mt-3">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={allocations[experiment.id] ?? []}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="date" stroke="#9ca3af" fontSize={11} />
+                  <YAxis
+                    stroke="#9ca3af"
+                    fontSize={11}
+                    domain={[0, 1]}
+                    tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => formatPercent(value)}
+                    contentStyle={{ background: '#1f2937', border: '1px solid #374151' }}
+                  />
+                  <Legend />
+                  {experiment.variants.map((variant, index) => (
+                    <Area
+                      key={variant.id}
+                      type="monotone"
+                      dataKey={variant.id}
+                      name={variant.name}
+                      stackId="traffic"
+                      stroke={VARIANT_COLORS[index % VARIANT_COLORS.length]}
+                      fill={VARIANT_COLORS[index % VARIANT_COLORS.length]}
+                      fillOpacity={0.4}
+                    />
+                  ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
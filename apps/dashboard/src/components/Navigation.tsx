@@ -9,19 +9,34 @@ import {
   MagnifyingGlassIcon,
   ChartBarIcon,
   MegaphoneIcon,
-  ArrowTrendingUpIcon
+  ArrowTrendingUpIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/outline';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
 
 export default function Navigation() {
   const [searchQuery, setSearchQuery] = useState('');
   const pathname = usePathname();
 
+  // Mock data for now - will be replaced with `permissions` from user.me, which follow
+  // the user's role in the selected workspace
+  const permissions = new Set([
+    'agent:read',
+    'agent:manage',
+    'approval:read',
+    'approval:decide',
+    'campaign:read',
+    'metrics:read',
+  ]);
+
+  // Items are hidden when the user's role lacks the permission
   const navigationItems = [
-    { name: 'Overview', href: '/', icon: ChartBarIcon },
-    { name: 'AI Agents', href: '/agents', icon: SparklesIcon },
-    { name: 'Campaigns', href: '/campaigns', icon: MegaphoneIcon },
-    { name: 'Analytics', href: '/analytics', icon: ArrowTrendingUpIcon },
-  ];
+    { name: 'Overview', href: '/', icon: ChartBarIcon, permission: 'metrics:read' },
+    { name: 'AI Agents', href: '/agents', icon: SparklesIcon, permission: 'agent:read' },
+    { name: 'Campaigns', href: '/campaigns', icon: MegaphoneIcon, permission: 'campaign:read' },
+    { name: 'Analytics', href: '/analytics', icon: ArrowTrendingUpIcon, permission: 'metrics:read' },
+    { name: 'Approvals', href: '/approvals', icon: ShieldCheckIcon, permission: 'approval:decide' },
+  ].filter(item => permissions.has(item.permission));
 
   return (
     <>
@@ -38,6 +53,7 @@ export default function Navigation() {
                 <h1 className="text-2xl font-bold text-gradient neon-text">NeonHub AI</h1>
               </div>
               <span className="text-dark-400 hidden md:block">Marketing Ecosystem</span>
+              <WorkspaceSwitcher />
             </div>
             <div className="flex items-center space-x-4">
               {/* Search Bar */}
@@ -59,9 +75,11 @@ export default function Navigation() {
               </button>
               
               {/* Settings */}
-              <button className="btn-secondary">
-                <CogIcon className="h-5 w-5" />
-              </button>
+              {permissions.has('agent:manage') && (
+                <button className="btn-secondary">
+                  <CogIcon className="h-5 w-5" />
+                </button>
+              )}
               
               {/* User Avatar */}
               <div className="w-10 h-10 bg-gradient-to-r from-neon-400 to-neon-500 rounded-full flex items-center justify-center neon-glow">
@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  CalendarDaysIcon,
+  DocumentChartBarIcon,
+  PlayIcon,
+} from '@heroicons/react/24/outline';
+
+type ReportFormat = 'html' | 'pdf' | 'csv' | 'xlsx';
+type RunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+interface ReportRun {
+  id: string;
+  status: RunStatus;
+  trigger: 'schedule' | 'manual';
+  period: string;
+  startedAt: string;
+  recipients: number;
+  error?: string;
+}
+
+interface ScheduledReport {
+  id: string;
+  name: string;
+  schedule: string | null;
+  timeZone: string;
+  formats: ReportFormat[];
+  recipients: string[];
+  nextRunAt: string | null;
+  enabled: boolean;
+  runs: ReportRun[];
+}
+
+const statusStyles: Record<RunStatus, string> = {
+  RUNNING: 'bg-blue-500/20 text-blue-400',
+  COMPLETED: 'bg-green-500/20 text-green-400',
+  FAILED: 'bg-red-500/20 text-red-400',
+};
+
+/** A few common cron expressions in words; others are shown as they are */
+function describeSchedule(schedule: string | null): string {
+  if (!schedule) return 'On demand';
+  const known: Record<string, string> = {
+    '0 8 * * MON': 'Mondays at 08:00',
+    '0 9 1 * *': 'Monthly on the 1st at 09:00',
+    '@daily': 'Daily at midnight',
+  };
+  return known[schedule] ?? schedule;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function ReportsPanel(): JSX.Element {
+  const [reports, setReports] = useState<ScheduledReport[]>([]);
+  const [running, setRunning] = useState<string | null>(null);
+
+  // Mock data for now - will be replaced with report.list and report.listRuns
+  useEffect(() => {
+    const now = Date.now();
+    const day = 24 * 60 * 60_000;
+    setReports([
+      {
+        id: 'report-1',
+        name: 'Weekly performance',
+        schedule: '0 8 * * MON',
+        timeZone: 'Europe/Berlin',
+        formats: ['pdf', 'xlsx'],
+        recipients: ['marketing@neonhub.io', 'ceo@neonhub.io'],
+        nextRunAt: new Date(now + 2 * day).toISOString(),
+        enabled: true,
+        runs: [
+          {
+            id: 'run-2',
+            status: 'COMPLETED',
+            trigger: 'schedule',
+            period: 'Oct 5, 2026 – Oct 11, 2026',
+            startedAt: new Date(now - 5 * day).toISOString(),
+            recipients: 2,
+          },
+          {
+            id: 'run-1',
+            status: 'FAILED',
+            trigger: 'manual',
+            period: 'Sep 28, 2026 – Oct 4, 2026',
+            startedAt: new Date(now - 12 * day).toISOString(),
+            recipients: 0,
+            error: 'SMTP connection refused',
+          },
+        ],
+      },
+      {
+        id: 'report-2',
+        name: 'Monthly board report',
+        schedule: '0 9 1 * *',
+        timeZone: 'America/New_York',
+        formats: ['pdf'],
+        recipients: ['board@neonhub.io'],
+        nextRunAt: new Date(now + 14 * day).toISOString(),
+        enabled: true,
+        runs: [
+          {
+            id: 'run-3',
+            status: 'COMPLETED',
+            trigger: 'schedule',
+            period: 'Sep 1, 2026 – Sep 30, 2026',
+            startedAt: new Date(now - 17 * day).toISOString(),
+            recipients: 1,
+          },
+        ],
+      },
+      {
+        id: 'report-3',
+        name: 'Email campaigns export',
+        schedule: null,
+        timeZone: 'UTC',
+        formats: ['csv'],
+        recipients: [],
+        nextRunAt: null,
+        enabled: true,
+        runs: [],
+      },
+    ]);
+  }, []);
+
+  const runNow = (id: string): void => {
+    setRunning(id);
+    setTimeout(() => {
+      setReports(current =>
+        current.map(report =>
+          report.id === id
+            ? {
+                ...report,
+                runs: [
+                  {
+                    id: `run-${Date.now()}`,
+                    status: 'COMPLETED',
+                    trigger: 'manual',
+                    period: 'Sep 18, 2026 – Oct 17, 2026',
+                    startedAt: new Date().toISOString(),
+                    recipients: report.recipients.length,
+                  },
+                  ...report.runs,
+                ],
+              }
+            : report
+        )
+      );
+      setRunning(null);
+    }, 1200);
+  };
+
+  return (
+    <div className="card-glow mt-8">
+      <div className="flex items-center space-x-3 mb-6">
+        <DocumentChartBarIcon className="h-6 w-6 text-neon-400" />
+        <h2 className="text-xl font-semibold text-white">Reports</h2>
+      </div>
+
+      <div className="space-y-4">
+        {reports.map(report => {
+          const latest = report.runs[0];
+          return (
+            <div key={report.id} className="bg-dark-700/30 border border-dark-600 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-white font-medium">{report.name}</p>
+                  <p className="text-xs text-dark-400 mt-1 flex items-center">
+                    <CalendarDaysIcon className="h-3 w-3 mr-1" />
+                    {describeSchedule(report.schedule)} ({report.timeZone})
+                    {report.nextRunAt && ` · next ${formatDate(report.nextRunAt)}`}
+                  </p>
+                  <p className="text-xs text-dark-500 mt-1">
+                    {report.formats.map(format => format.toUpperCase()).join(', ')}
+                    {report.recipients.length > 0
+                      ? ` to ${report.recipients.join(', ')}`
+                      : ' · download only'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => runNow(report.id)}
+                  disabled={running === report.id}
+                  className="flex items-center px-3 py-1 rounded text-sm bg-neon-400/20 text-neon-400"
+                >
+                  <PlayIcon className="h-4 w-4 mr-1" />
+                  {running === report.id ? 'Running…' : 'Run now'}
+                </button>
+              </div>
+
+              {latest && (
+                <div className="mt-3 flex items-center justify-between border-t border-dark-600 pt-3">
+                  <div className="flex items-center space-x-2 text-xs">
+                    <span className={`px-2 py-0.5 rounded-full ${statusStyles[latest.status]}`}>
+                      {latest.status.toLowerCase()}
+                    </span>
+                    <span className="text-dark-300">{latest.period}</span>
+                    <span className="text-dark-500">
+                      {latest.trigger} · {formatDate(latest.startedAt)}
+                      {latest.status === 'COMPLETED' && ` · sent to ${latest.recipients}`}
+                      {latest.error && ` · ${latest.error}`}
+                    </span>
+                  </div>
+                  {latest.status === 'COMPLETED' && (
+                    <div className="flex items-center space-x-1">
+                      {(['pdf', 'xlsx', 'csv', 'html'] as const).map(format => (
+                        <button
+                          key={format}
+                          className="flex items-center px-2 py-0.5 rounded text-xs bg-dark-700 text-dark-300 hover:text-white"
+                        >
+                          <ArrowDownTrayIcon className="h-3 w-3 mr-1" />
+                          {format.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
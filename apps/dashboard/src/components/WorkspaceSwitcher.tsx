@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  BuildingOffice2Icon,
+  CheckIcon,
+  ChevronUpDownIcon,
+  PlusIcon,
+} from '@heroicons/react/24/outline';
+
+interface Workspace {
+  id: string;
+  name: string;
+  role: 'ADMIN' | 'MANAGER' | 'USER' | 'VIEWER';
+}
+
+// Sent to the API as the `x-workspace-id` header
+const WORKSPACE_STORAGE_KEY = 'neonhub.workspaceId';
+
+export default function WorkspaceSwitcher(): JSX.Element {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    // Mock data for now - will be replaced with workspace.list
+    const mockWorkspaces: Workspace[] = [
+      { id: 'ws_neonhub', name: 'NeonHub Marketing', role: 'ADMIN' },
+      { id: 'ws_acme', name: 'Acme Corp', role: 'MANAGER' },
+      { id: 'ws_studio', name: 'Studio Clients', role: 'VIEWER' },
+    ];
+    setWorkspaces(mockWorkspaces);
+
+    const stored = window.localStorage.getItem(WORKSPACE_STORAGE_KEY);
+    const known = mockWorkspaces.some(workspace => workspace.id === stored);
+    setCurrentId(known ? stored : (mockWorkspaces[0]?.id ?? null));
+  }, []);
+
+  const selectWorkspace = (id: string): void => {
+    window.localStorage.setItem(WORKSPACE_STORAGE_KEY, id);
+    setCurrentId(id);
+    setIsOpen(false);
+    // Every page shows data of one workspace, so start over in the new one
+    window.location.reload();
+  };
+
+  const current = workspaces.find(workspace => workspace.id === currentId);
+
+  return (
+    <div className="relative">
+      <button
+        className="btn-secondary flex items-center space-x-2"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <BuildingOffice2Icon className="h-4 w-4 text-neon-400" />
+        <span className="text-sm max-w-[10rem] truncate">{current?.name ?? 'Workspace'}</span>
+        <ChevronUpDownIcon className="h-4 w-4 text-dark-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 card p-2 z-50">
+          <p className="px-3 py-2 text-xs uppercase tracking-wide text-dark-400">Workspaces</p>
+          {workspaces.map(workspace => (
+            <button
+              key={workspace.id}
+              className="w-full flex items-center justify-between px-3 py-2 rounded-lg text-left hover:bg-dark-700/50"
+              onClick={() => selectWorkspace(workspace.id)}
+            >
+              <div>
+                <p className="text-sm text-white">{workspace.name}</p>
+                <p className="text-xs text-dark-400">{workspace.role.toLowerCase()}</p>
+              </div>
+              {workspace.id === currentId && <CheckIcon className="h-4 w-4 text-neon-400" />}
+            </button>
+          ))}
+          <div className="border-t border-dark-700/50 mt-2 pt-2">
+            <button className="w-full flex items-center px-3 py-2 rounded-lg text-sm text-dark-300 hover:bg-dark-700/50">
+              <PlusIcon className="h-4 w-4 mr-2" />
+              New workspace
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
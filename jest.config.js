@@ -1,9 +1,48 @@
-module.exports = {
+const project = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  testMatch: [
-    '<rootDir>/packages/**/__tests__/**/*.test.ts',
-    '<rootDir>/packages/**/?(*.)+(spec|test).ts'
+  moduleNameMapper: {
+    '^@/types$': '<rootDir>/packages/types/src',
+    '^@/utils$': '<rootDir>/packages/utils/src',
+    '^@/core$': '<rootDir>/packages/core/src'
+  },
+  setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+  testTimeout: 10000,
+  clearMocks: true,
+  restoreMocks: true
+};
+
+module.exports = {
+  // ts-jest keeps one tsconfig per project, so the API gets its own
+  projects: [
+    {
+      ...project,
+      displayName: 'packages',
+      testMatch: [
+        '<rootDir>/packages/**/__tests__/**/*.test.ts',
+        '<rootDir>/packages/**/?(*.)+(spec|test).ts'
+      ]
+    },
+    {
+      ...project,
+      displayName: 'api',
+      testMatch: ['<rootDir>/apps/api/src/**/?(*.)+(spec|test).ts'],
+      transform: {
+        // The API resolves the workspace packages through its own tsconfig paths
+        '^.+\\.ts$': [
+          'ts-jest',
+          {
+            tsconfig: '<rootDir>/apps/api/tsconfig.json',
+            // The packages are checked with the root tsconfig
+            diagnostics: { exclude: ['**/packages/**'] }
+          }
+        ]
+      },
+      moduleNameMapper: {
+        ...project.moduleNameMapper,
+        '^@neonhub/(.*)$': '<rootDir>/packages/$1/src'
+      }
+    }
   ],
   collectCoverageFrom: [
     'packages/**/src/**/*.ts',
@@ -21,14 +60,5 @@ module.exports = {
       statements: 80
     }
   },
-  moduleNameMapper: {
-    '^@/types$': '<rootDir>/packages/types/src',
-    '^@/utils$': '<rootDir>/packages/utils/src',
-    '^@/core$': '<rootDir>/packages/core/src'
-  },
-  setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
-  testTimeout: 10000,
-  verbose: true,
-  clearMocks: true,
-  restoreMocks: true
-}; 
\ No newline at end of file
+  verbose: true
+};
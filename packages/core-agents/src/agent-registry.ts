@@ -8,6 +8,10 @@ import { TrendAgent } from './agents/trend-agent';
 import { InsightAgent } from './agents/insight-agent';
 import { DesignAgent } from './agents/design-agent';
 import { UIRefinementAgent } from './agents/ui-refinement-agent';
+import { EmailAgent } from './agents/email-agent';
+import { SEOAgent } from './agents/seo-agent';
+import { SocialAgent } from './agents/social-agent';
+import { SupportAgent } from './agents/support-agent';
 
 /**
  * Register all available agents with the AgentFactory
@@ -22,6 +26,10 @@ export function registerAllAgents(): void {
   AgentFactory.registerAgent('insight', InsightAgent);
   AgentFactory.registerAgent('design', DesignAgent);
   AgentFactory.registerAgent('ui-refinement', UIRefinementAgent);
+  AgentFactory.registerAgent('email', EmailAgent);
+  AgentFactory.registerAgent('seo', SEOAgent);
+  AgentFactory.registerAgent('social', SocialAgent);
+  AgentFactory.registerAgent('support', SupportAgent);
   
   console.log('Agent registry initialized');
   console.log('Available agent types:', AgentFactory.getAvailableTypes());
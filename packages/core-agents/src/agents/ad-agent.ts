@@ -1,72 +1,181 @@
-import { AbstractAgent, AgentPayload, AgentResult } from '../base-agent';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import { computeBudgetReallocation } from '../campaigns/budget-ledger';
+import { withVariantIds } from '../experiments/ab-test';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
 
-export class AdAgent extends AbstractAgent {
-  constructor(id: string, name: string) {
-    super(id, name, 'ad', [
-      'optimize_ads',
-      'manage_budget',
-      'a_b_test_ads',
-      'analyze_performance',
-      'adjust_bidding'
-    ]);
+const AdOptimizationsSchema = z.object({
+  optimizations: z.array(
+    z.object({
+      adId: z.string(),
+      suggestions: z.array(z.string()).min(1),
+    })
+  ),
+});
+
+const AdVariantsSchema = z.object({
+  variants: z.array(
+    z.object({
+      id: z.string(),
+      creative: z.string(),
+      bid: z.number().positive(),
+    })
+  ).min(2),
+});
+
+export const AdAgentTasks = defineAgentTasks({
+  optimize_ads: {
+    input: z.object({
+      ads: z.array(z.object({ id: z.string() }).passthrough()).min(1),
+      platform: z.string().optional(),
+      objective: z.string().optional(),
+      budget: z.number().positive().optional(),
+      brandId: z.string().optional(),
+    }),
+    output: AdOptimizationsSchema,
+  },
+  manage_budget: {
+    input: z.object({
+      campaignId: z.string().optional(),
+      totalBudget: z.number().positive().optional(),
+      // Current allocations and their results, from the campaign's budget ledger
+      platforms: z
+        .array(
+          z.object({
+            platform: z.string(),
+            allocated: z.number().min(0),
+            spent: z.number().min(0),
+            revenue: z.number().min(0),
+          })
+        )
+        .default([]),
+      minSpend: z.number().min(0).optional(),
+    }),
+    output: z.object({
+      budgetAllocation: z.record(z.number()),
+      reallocations: z.array(
+        z.object({
+          platform: z.string(),
+          from: z.number(),
+          to: z.number(),
+          roas: z.number().nullable(),
+        })
+      ),
+    }),
+    sideEffect: 'spend',
+  },
+  a_b_test_ads: {
+    input: z.object({
+      platform: z.string().optional(),
+      product: z.string().optional(),
+      targetAudience: z.string().optional(),
+      creative: z.string().optional(),
+      bid: z.number().positive().optional(),
+      brandId: z.string().optional(),
+      // A/B test the variants are generated for
+      testId: z.string().optional(),
+    }),
+    output: AdVariantsSchema.extend({ testId: z.string().nullable() }),
+  },
+  analyze_performance: {
+    input: z.object({
+      campaignId: z.string().optional(),
+      platform: z.string().optional(),
+    }),
+    output: z.object({
+      metrics: z.object({ ctr: z.number(), cpc: z.number(), roas: z.number() }),
+    }),
+  },
+  adjust_bidding: {
+    input: z.object({
+      campaignId: z.string().optional(),
+      targetRoas: z.number().positive().optional(),
+    }),
+    output: z.object({
+      newBids: z.record(z.number()),
+    }),
+    sideEffect: 'spend',
+  },
+});
+
+type AdTasks = typeof AdAgentTasks;
+type Input<Task extends keyof AdTasks> = AgentTaskInput<AdTasks, Task>;
+type Output<Task extends keyof AdTasks> = AgentTaskOutput<AdTasks, Task>;
+
+export class AdAgent extends AbstractAgent<AdTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'ad', AdAgentTasks, dependencies);
   }
 
-  async execute(payload: AgentPayload): Promise<AgentResult> {
-    return this.executeWithErrorHandling(payload, async () => {
-      const { task, context } = payload;
-      
-      switch (task) {
-        case 'optimize_ads':
-          return await this.optimizeAds(context);
-        case 'manage_budget':
-          return await this.manageBudget(context);
-        case 'a_b_test_ads':
-          return await this.abTestAds(context);
-        case 'analyze_performance':
-          return await this.analyzePerformance(context);
-        case 'adjust_bidding':
-          return await this.adjustBidding(context);
-        default:
-          throw new Error(`Unknown task: ${task}`);
-      }
-    });
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(payload, {
+      optimize_ads: (input, { llm, prompts }) => this.optimizeAds(llm, prompts, input),
+      manage_budget: input => this.manageBudget(input),
+      a_b_test_ads: (input, { llm, prompts }) => this.abTestAds(llm, prompts, input),
+      analyze_performance: input => this.analyzePerformance(input),
+      adjust_bidding: input => this.adjustBidding(input),
+    }, options);
   }
 
-  private async optimizeAds(_context: any): Promise<any> {
-    // TODO: Implement ad optimization
-    return {
-      optimizations: [
-        {
-          adId: 'ad_123',
-          suggestions: ['Increase bid', 'Update creative', 'Target new audience']
-        }
-      ]
-    };
+  private async optimizeAds(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'optimize_ads'>
+  ): Promise<Output<'optimize_ads'>> {
+    const prompt = await prompts.render('ad.optimize_ads', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: AdOptimizationsSchema,
+      schemaName: 'optimizations',
+      temperature: 0.3,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async manageBudget(_context: any): Promise<any> {
-    // TODO: Implement budget management
-    return {
-      budgetAllocation: {
-        facebook: 40,
-        google: 35,
-        tiktok: 25
-      }
-    };
+  private async manageBudget(input: Input<'manage_budget'>): Promise<Output<'manage_budget'>> {
+    const { allocations, changes } = computeBudgetReallocation(
+      input.platforms,
+      input.totalBudget,
+      input.minSpend === undefined ? {} : { minSpend: input.minSpend }
+    );
+    return { budgetAllocation: allocations, reallocations: changes };
   }
 
-  private async abTestAds(_context: any): Promise<any> {
-    // TODO: Implement A/B testing for ads
+  private async abTestAds(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'a_b_test_ads'>
+  ): Promise<Output<'a_b_test_ads'>> {
+    const prompt = await prompts.render('ad.a_b_test_ads', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: AdVariantsSchema,
+      schemaName: 'variants',
+      temperature: 0.8,
+      messages: prompt.messages,
+    });
     return {
-      testId: 'ad_test_' + Date.now(),
-      variants: [
-        { id: 'A', creative: 'Creative A', bid: 1.5 },
-        { id: 'B', creative: 'Creative B', bid: 2.0 }
-      ]
+      testId: input.testId ?? null,
+      variants: withVariantIds(data.variants),
     };
   }
 
-  private async analyzePerformance(_context: any): Promise<any> {
+  private async analyzePerformance(_context: Input<'analyze_performance'>): Promise<Output<'analyze_performance'>> {
     // TODO: Implement performance analysis
     return {
       metrics: {
@@ -77,7 +186,7 @@ export class AdAgent extends AbstractAgent {
     };
   }
 
-  private async adjustBidding(_context: any): Promise<any> {
+  private async adjustBidding(_context: Input<'adjust_bidding'>): Promise<Output<'adjust_bidding'>> {
     // TODO: Implement bid adjustment
     return {
       newBids: {
@@ -1,94 +1,238 @@
-import { AbstractAgent, AgentPayload, AgentResult } from '../base-agent';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import { withVariantIds } from '../experiments/ab-test';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
+import { PlatformSchema } from '../schemas';
 
-export class ContentAgent extends AbstractAgent {
-  constructor(id: string, name: string) {
-    super(id, name, 'content', [
-      'generate_posts',
-      'create_captions',
-      'write_emails',
-      'optimize_content',
-      'a_b_test_content'
-    ]);
+const PostsSchema = z.object({
+  posts: z.array(
+    z.object({
+      platform: z.string(),
+      content: z.string(),
+      hashtags: z.array(z.string()),
+      imageSuggestions: z.array(z.string()),
+    })
+  ).min(1),
+});
+
+const CaptionsSchema = z.object({
+  captions: z.array(
+    z.object({
+      platform: z.string(),
+      caption: z.string(),
+      hashtags: z.array(z.string()),
+    })
+  ).min(1),
+});
+
+const EmailsSchema = z.object({
+  emails: z.array(
+    z.object({
+      subject: z.string(),
+      body: z.string(),
+      type: z.string(),
+    })
+  ).min(1),
+});
+
+const OptimizedContentSchema = z.object({
+  optimizedContent: z.string(),
+  suggestions: z.array(z.string()),
+});
+
+const ContentVariantsSchema = z.object({
+  variants: z.array(
+    z.object({
+      id: z.string(),
+      content: z.string(),
+    })
+  ).min(2),
+});
+
+const ToneSchema = z.enum(['professional', 'casual', 'humorous', 'inspirational', 'promotional']);
+
+export const ContentAgentTasks = defineAgentTasks({
+  generate_posts: {
+    input: z.object({
+      platform: PlatformSchema,
+      topic: z.string().min(1),
+      tone: ToneSchema.default('professional'),
+      length: z.enum(['short', 'medium', 'long']).default('medium'),
+      includeHashtags: z.boolean().default(true),
+      targetAudience: z.string().optional(),
+      brandId: z.string().optional(),
+    }),
+    output: PostsSchema,
+  },
+  create_captions: {
+    input: z.object({
+      topic: z.string().min(1),
+      platform: PlatformSchema.optional(),
+      imageDescription: z.string().optional(),
+      tone: ToneSchema.optional(),
+      targetAudience: z.string().optional(),
+      brandId: z.string().optional(),
+    }),
+    output: CaptionsSchema,
+  },
+  write_emails: {
+    input: z.object({
+      type: z.enum(['newsletter', 'promotional', 'welcome', 'follow-up']).default('newsletter'),
+      audience: z.string().min(1),
+      tone: z.enum(['professional', 'casual', 'friendly', 'urgent']).default('professional'),
+      subject: z.string().optional(),
+      includeCtaButton: z.boolean().default(true),
+      brandId: z.string().optional(),
+    }),
+    output: EmailsSchema,
+  },
+  optimize_content: {
+    input: z.object({
+      originalContent: z.unknown().refine(value => value !== undefined && value !== null, {
+        message: 'Required',
+      }),
+      goal: z.string().default('engagement'),
+      platform: z.string().optional(),
+      instructions: z.string().optional(),
+      brandId: z.string().optional(),
+    }),
+    output: OptimizedContentSchema,
+  },
+  a_b_test_content: {
+    input: z.object({
+      content: z.unknown().refine(value => value !== undefined && value !== null, {
+        message: 'Required',
+      }),
+      variantCount: z.number().int().min(2).max(5).default(2),
+      goal: z.string().optional(),
+      platform: z.string().optional(),
+      brandId: z.string().optional(),
+      // A/B test the variants are generated for
+      testId: z.string().optional(),
+    }),
+    output: ContentVariantsSchema.extend({ testId: z.string().nullable() }),
+  },
+});
+
+type ContentTasks = typeof ContentAgentTasks;
+type Input<Task extends keyof ContentTasks> = AgentTaskInput<ContentTasks, Task>;
+type Output<Task extends keyof ContentTasks> = AgentTaskOutput<ContentTasks, Task>;
+
+export class ContentAgent extends AbstractAgent<ContentTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'content', ContentAgentTasks, dependencies);
   }
 
-  async execute(payload: AgentPayload): Promise<AgentResult> {
-    return this.executeWithErrorHandling(payload, async () => {
-      const { task, context } = payload;
-      
-      switch (task) {
-        case 'generate_posts':
-          return await this.generatePosts(context);
-        case 'create_captions':
-          return await this.createCaptions(context);
-        case 'write_emails':
-          return await this.writeEmails(context);
-        case 'optimize_content':
-          return await this.optimizeContent(context);
-        case 'a_b_test_content':
-          return await this.abTestContent(context);
-        default:
-          throw new Error(`Unknown task: ${task}`);
-      }
-    });
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(payload, {
+      generate_posts: (input, { llm, prompts }) => this.generatePosts(llm, prompts, input),
+      create_captions: (input, { llm, prompts }) => this.createCaptions(llm, prompts, input),
+      write_emails: (input, { llm, prompts }) => this.writeEmails(llm, prompts, input),
+      optimize_content: (input, { llm, prompts }) => this.optimizeContent(llm, prompts, input),
+      a_b_test_content: (input, { llm, prompts }) => this.abTestContent(llm, prompts, input),
+    }, options);
   }
 
-  private async generatePosts(_context: any): Promise<any> {
-    // TODO: Implement AI-powered post generation
-    // This will use OpenAI API to generate engaging social media posts
-    return {
-      posts: [
-        {
-          platform: 'instagram',
-          content: 'Generated post content will go here',
-          hashtags: ['#neonhub', '#marketing'],
-          imageSuggestions: ['bright', 'modern', 'neon']
-        }
-      ]
-    };
+  private async generatePosts(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_posts'>
+  ): Promise<Output<'generate_posts'>> {
+    const prompt = await prompts.render('content.generate_posts', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: PostsSchema,
+      schemaName: 'posts',
+      temperature: 0.8,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async createCaptions(_context: any): Promise<any> {
-    // TODO: Implement caption generation
-    return {
-      captions: [
-        {
-          platform: 'instagram',
-          caption: 'Generated caption will go here',
-          hashtags: ['#neonhub', '#caption']
-        }
-      ]
-    };
+  private async createCaptions(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'create_captions'>
+  ): Promise<Output<'create_captions'>> {
+    const prompt = await prompts.render('content.create_captions', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: CaptionsSchema,
+      schemaName: 'captions',
+      temperature: 0.8,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async writeEmails(_context: any): Promise<any> {
-    // TODO: Implement email writing
-    return {
-      emails: [
-        {
-          subject: 'Generated email subject',
-          body: 'Generated email body will go here',
-          type: 'newsletter'
-        }
-      ]
-    };
+  private async writeEmails(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'write_emails'>
+  ): Promise<Output<'write_emails'>> {
+    const prompt = await prompts.render('content.write_emails', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: EmailsSchema,
+      schemaName: 'emails',
+      temperature: 0.7,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async optimizeContent(_context: any): Promise<any> {
-    // TODO: Implement content optimization
-    return {
-      optimizedContent: 'Optimized content will go here',
-      suggestions: ['Use more engaging language', 'Add relevant hashtags']
-    };
+  private async optimizeContent(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'optimize_content'>
+  ): Promise<Output<'optimize_content'>> {
+    const prompt = await prompts.render('content.optimize_content', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: OptimizedContentSchema,
+      schemaName: 'optimizedContent',
+      temperature: 0.4,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async abTestContent(_context: any): Promise<any> {
-    // TODO: Implement A/B testing for content
+  private async abTestContent(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'a_b_test_content'>
+  ): Promise<Output<'a_b_test_content'>> {
+    const prompt = await prompts.render('content.a_b_test_content', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: ContentVariantsSchema,
+      schemaName: 'variants',
+      temperature: 0.9,
+      messages: prompt.messages,
+    });
     return {
-      variants: [
-        { id: 'A', content: 'Variant A content' },
-        { id: 'B', content: 'Variant B content' }
-      ],
-      testId: 'test_' + Date.now()
+      variants: withVariantIds(data.variants),
+      testId: input.testId ?? null,
     };
   }
-} 
\ No newline at end of file
+}
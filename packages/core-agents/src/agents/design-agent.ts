@@ -1,38 +1,114 @@
-import { AbstractAgent, AgentPayload, AgentResult } from '../base-agent';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
 
-export class DesignAgent extends AbstractAgent {
-  constructor(id: string, name: string) {
-    super(id, name, 'design', [
-      'generate_designs',
-      'create_prototypes',
-      'optimize_layouts',
-      'test_designs',
-      'generate_variations'
-    ]);
+const VariationsSchema = z.object({
+  variations: z.array(
+    z.object({
+      id: z.string(),
+      color: z.string(),
+      style: z.string(),
+    })
+  ).min(1),
+});
+
+export const DesignAgentTasks = defineAgentTasks({
+  generate_designs: {
+    input: z.object({
+      description: z.string().optional(),
+      style: z.string().optional(),
+      size: z.string().optional(),
+      colors: z.array(z.string()).optional(),
+    }),
+    output: z.object({
+      designs: z.array(
+        z.object({
+          id: z.string(),
+          type: z.string(),
+          preview: z.string(),
+          specifications: z.object({
+            size: z.string(),
+            colors: z.array(z.string()),
+            style: z.string(),
+          }),
+        })
+      ),
+    }),
+  },
+  create_prototypes: {
+    input: z.object({ designId: z.string().optional() }),
+    output: z.object({
+      prototypes: z.array(
+        z.object({ id: z.string(), type: z.string(), url: z.string(), interactive: z.boolean() })
+      ),
+    }),
+  },
+  optimize_layouts: {
+    input: z.object({ designId: z.string().optional() }),
+    output: z.object({
+      optimizations: z.array(
+        z.object({
+          element: z.string(),
+          suggestion: z.string(),
+          impact: z.enum(['low', 'medium', 'high']),
+        })
+      ),
+    }),
+  },
+  test_designs: {
+    input: z.object({ designIds: z.array(z.string()).optional() }),
+    output: z.object({
+      testResults: z.array(
+        z.object({
+          designId: z.string(),
+          engagement: z.number(),
+          conversion: z.number(),
+          preference: z.number(),
+        })
+      ),
+    }),
+  },
+  generate_variations: {
+    input: z.object({
+      design: z.record(z.unknown()),
+      count: z.number().int().min(1).max(10).default(3),
+      constraints: z.record(z.unknown()).optional(),
+      brandId: z.string().optional(),
+    }),
+    output: VariationsSchema,
+  },
+});
+
+type DesignTasks = typeof DesignAgentTasks;
+type Input<Task extends keyof DesignTasks> = AgentTaskInput<DesignTasks, Task>;
+type Output<Task extends keyof DesignTasks> = AgentTaskOutput<DesignTasks, Task>;
+
+export class DesignAgent extends AbstractAgent<DesignTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'design', DesignAgentTasks, dependencies);
   }
 
-  async execute(payload: AgentPayload): Promise<AgentResult> {
-    return this.executeWithErrorHandling(payload, async () => {
-      const { task, context } = payload;
-      
-      switch (task) {
-        case 'generate_designs':
-          return await this.generateDesigns(context);
-        case 'create_prototypes':
-          return await this.createPrototypes(context);
-        case 'optimize_layouts':
-          return await this.optimizeLayouts(context);
-        case 'test_designs':
-          return await this.testDesigns(context);
-        case 'generate_variations':
-          return await this.generateVariations(context);
-        default:
-          throw new Error(`Unknown task: ${task}`);
-      }
-    });
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(payload, {
+      generate_designs: input => this.generateDesigns(input),
+      create_prototypes: input => this.createPrototypes(input),
+      optimize_layouts: input => this.optimizeLayouts(input),
+      test_designs: input => this.testDesigns(input),
+      generate_variations: (input, { llm, prompts }) => this.generateVariations(llm, prompts, input),
+    }, options);
   }
 
-  private async generateDesigns(_context: any): Promise<any> {
+  private async generateDesigns(_context: Input<'generate_designs'>): Promise<Output<'generate_designs'>> {
     return {
       designs: [
         {
@@ -49,7 +125,7 @@ export class DesignAgent extends AbstractAgent {
     };
   }
 
-  private async createPrototypes(_context: any): Promise<any> {
+  private async createPrototypes(_context: Input<'create_prototypes'>): Promise<Output<'create_prototypes'>> {
     return {
       prototypes: [
         {
@@ -62,7 +138,7 @@ export class DesignAgent extends AbstractAgent {
     };
   }
 
-  private async optimizeLayouts(_context: any): Promise<any> {
+  private async optimizeLayouts(_context: Input<'optimize_layouts'>): Promise<Output<'optimize_layouts'>> {
     return {
       optimizations: [
         {
@@ -74,7 +150,7 @@ export class DesignAgent extends AbstractAgent {
     };
   }
 
-  private async testDesigns(_context: any): Promise<any> {
+  private async testDesigns(_context: Input<'test_designs'>): Promise<Output<'test_designs'>> {
     return {
       testResults: [
         {
@@ -87,12 +163,21 @@ export class DesignAgent extends AbstractAgent {
     };
   }
 
-  private async generateVariations(_context: any): Promise<any> {
-    return {
-      variations: [
-        { id: 'var_1', color: 'red', style: 'retro' },
-        { id: 'var_2', color: 'green', style: 'minimal' }
-      ]
-    };
+  private async generateVariations(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_variations'>
+  ): Promise<Output<'generate_variations'>> {
+    const prompt = await prompts.render('design.generate_variations', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: VariationsSchema,
+      schemaName: 'variations',
+      temperature: 0.9,
+      messages: prompt.messages,
+    });
+    return data;
   }
 } 
\ No newline at end of file
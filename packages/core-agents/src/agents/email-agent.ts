@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentNotImplementedError,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
+
+const EmailTemplateSchema = z.object({
+  subject: z.string(),
+  previewText: z.string(),
+  htmlTemplate: z.string().min(1),
+  textTemplate: z.string(),
+});
+
+const ContactSchema = z.object({
+  email: z.string().email(),
+  name: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const EmailAgentTasks = defineAgentTasks({
+  send_campaign: {
+    input: z.object({
+      campaignId: z.string(),
+      template: z.object({
+        subject: z.string().min(1),
+        htmlContent: z.string().min(1),
+        textContent: z.string().optional(),
+        fromName: z.string().min(1),
+        fromEmail: z.string().email(),
+      }),
+      recipients: z.array(ContactSchema).min(1),
+      scheduleAt: z.coerce.date().optional(),
+      testMode: z.boolean().default(false),
+    }),
+    output: z.object({
+      sentCount: z.number(),
+      failedCount: z.number(),
+      scheduledFor: z.date().nullable(),
+    }),
+    sideEffect: 'contact',
+  },
+  generate_template: {
+    input: z.object({
+      type: z.enum([
+        'newsletter',
+        'promotional',
+        'welcome',
+        'follow-up',
+        'reminder',
+        'announcement',
+      ]),
+      brand: z.object({
+        name: z.string().min(1),
+        logo: z.string().url().optional(),
+        primaryColor: z.string().optional(),
+        secondaryColor: z.string().optional(),
+      }),
+      content: z.object({
+        headline: z.string().min(1),
+        message: z.string().min(1),
+        ctaText: z.string().min(1),
+        ctaUrl: z.string().url(),
+        footerText: z.string().optional(),
+      }),
+      personalization: z.boolean().default(true),
+      mobileOptimized: z.boolean().default(true),
+      brandId: z.string().optional(),
+    }),
+    output: EmailTemplateSchema,
+  },
+  create_sequence: {
+    input: z.object({
+      name: z.string().min(1),
+      trigger: z.enum(['signup', 'purchase', 'abandon_cart', 'birthday', 'custom']),
+      emails: z
+        .array(
+          z.object({
+            // Days after the trigger
+            delay: z.number().min(0),
+            subject: z.string().min(1),
+            content: z.string().min(1),
+            conditions: z.record(z.unknown()).optional(),
+          })
+        )
+        .min(1),
+      campaignId: z.string().optional(),
+    }),
+    output: z.object({
+      sequenceId: z.string(),
+      // The emails in the order they go out
+      steps: z.array(z.object({ step: z.number(), delay: z.number(), subject: z.string() })),
+    }),
+  },
+  manage_lists: {
+    input: z.object({
+      action: z.enum(['create', 'update', 'delete', 'add_contacts', 'remove_contacts']),
+      listId: z.string().optional(),
+      listName: z.string().optional(),
+      contacts: z.array(ContactSchema).optional(),
+    }),
+    output: z.object({ listId: z.string(), contactCount: z.number() }),
+  },
+});
+
+type EmailTasks = typeof EmailAgentTasks;
+type Input<Task extends keyof EmailTasks> = AgentTaskInput<EmailTasks, Task>;
+type Output<Task extends keyof EmailTasks> = AgentTaskOutput<EmailTasks, Task>;
+
+/** Stable id for something the agent creates, from what it was created from */
+function derivedId(prefix: string, ...parts: unknown[]): string {
+  return `${prefix}_${createHash('sha256').update(JSON.stringify(parts)).digest('hex').slice(0, 16)}`;
+}
+
+export class EmailAgent extends AbstractAgent<EmailTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'email', EmailAgentTasks, dependencies);
+  }
+
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(
+      payload,
+      {
+        send_campaign: () => this.sendCampaign(),
+        generate_template: (input, { llm, prompts }) => this.generateTemplate(llm, prompts, input),
+        create_sequence: input => this.createSequence(input),
+        manage_lists: () => this.manageLists(),
+      },
+      options
+    );
+  }
+
+  private async sendCampaign(): Promise<Output<'send_campaign'>> {
+    throw new AgentNotImplementedError('send_campaign', 'email provider');
+  }
+
+  private async generateTemplate(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_template'>
+  ): Promise<Output<'generate_template'>> {
+    const prompt = await prompts.render('email.generate_template', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: EmailTemplateSchema,
+      schemaName: 'emailTemplate',
+      temperature: 0.6,
+      messages: prompt.messages,
+    });
+    return data;
+  }
+
+  private async createSequence(
+    input: Input<'create_sequence'>
+  ): Promise<Output<'create_sequence'>> {
+    const emails = [...input.emails].sort((a, b) => a.delay - b.delay);
+    return {
+      sequenceId: derivedId('seq', input.name, input.trigger, input.campaignId ?? null),
+      steps: emails.map((email, index) => ({
+        step: index + 1,
+        delay: email.delay,
+        subject: email.subject,
+      })),
+    };
+  }
+
+  private async manageLists(): Promise<Output<'manage_lists'>> {
+    throw new AgentNotImplementedError('manage_lists', 'email provider');
+  }
+}
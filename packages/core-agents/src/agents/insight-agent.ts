@@ -1,38 +1,172 @@
-import { AbstractAgent, AgentPayload, AgentResult } from '../base-agent';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import { decomposeSeries, forecastSeries, ForecastMethodSchema } from '../analytics/forecasting';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
 
-export class InsightAgent extends AbstractAgent {
-  constructor(id: string, name: string) {
-    super(id, name, 'insight', [
-      'analyze_performance',
-      'generate_reports',
-      'recommend_strategy',
-      'identify_patterns',
-      'predict_outcomes'
-    ]);
+const ReportSchema = z.object({
+  report: z.object({
+    summary: z.string(),
+    highlights: z.array(z.string()).default([]),
+    recommendations: z.array(z.string()),
+  }),
+});
+
+const StrategySchema = z.object({
+  strategy: z.object({
+    focus: z.string(),
+    budget: z.string(),
+    timeline: z.string(),
+  }),
+});
+
+const PatternsSchema = z.object({
+  patterns: z.array(z.object({ pattern: z.string(), confidence: z.number().min(0).max(1) })),
+  explanations: z
+    .array(
+      z.object({
+        anomalyId: z.string(),
+        summary: z.string(),
+        likelyCauses: z.array(z.string()),
+        confidence: z.number().min(0).max(1),
+      })
+    )
+    .default([]),
+});
+
+export const InsightAgentTasks = defineAgentTasks({
+  analyze_performance: {
+    input: z.object({
+      campaignId: z.string().optional(),
+      timeRange: z.string().optional(),
+    }),
+    output: z.object({
+      metrics: z.object({ roi: z.number(), ctr: z.number(), conversion: z.number() }),
+    }),
+  },
+  generate_reports: {
+    input: z.object({
+      title: z.string().optional(),
+      timeRange: z.string().optional(),
+      // Period the metrics' previous values are from
+      comparisonRange: z.string().optional(),
+      metrics: z.record(z.unknown()).optional(),
+      campaigns: z.array(z.unknown()).optional(),
+      brandId: z.string().optional(),
+    }),
+    output: ReportSchema,
+  },
+  recommend_strategy: {
+    input: z.object({
+      goals: z.array(z.string()).optional(),
+      budget: z.number().positive().optional(),
+      targetAudience: z.string().optional(),
+      metrics: z.record(z.unknown()).optional(),
+      brandId: z.string().optional(),
+    }),
+    output: StrategySchema,
+  },
+  identify_patterns: {
+    input: z.object({
+      campaignId: z.string().optional(),
+      metric: z.string().optional(),
+      // Anomalies flagged by alert rules, to explain
+      anomalies: z
+        .array(
+          z.object({
+            id: z.string(),
+            metric: z.string(),
+            at: z.string(),
+            value: z.number(),
+            expected: z.number().nullable(),
+            score: z.number().nullable(),
+            direction: z.enum(['spike', 'drop']).nullable(),
+            campaign: z.string().optional(),
+            platform: z.string().optional(),
+            // Other metrics of the same campaign and platform in that bucket, against their usual value
+            related: z.record(z.object({ value: z.number(), expected: z.number() })).optional(),
+            // Campaign changes shortly before, e.g. status or budget edits
+            recentActivity: z.array(z.string()).optional(),
+          })
+        )
+        .default([]),
+      brandId: z.string().optional(),
+    }),
+    output: PatternsSchema,
+  },
+  predict_outcomes: {
+    input: z.object({
+      campaignId: z.string().optional(),
+      metric: z.string().optional(),
+      horizonDays: z.number().int().positive().max(365).default(30),
+      // Daily values of each metric, oldest first, e.g. from the metric rollups
+      history: z
+        .array(
+          z.object({
+            metric: z.string(),
+            values: z.array(z.number()),
+            // Spend on the same days, for the spend regression
+            spend: z.array(z.number().min(0)).optional(),
+          })
+        )
+        .default([]),
+      plannedDailySpend: z.array(z.number().min(0)).optional(),
+      method: ForecastMethodSchema.default('auto'),
+      // Days per season; 7 for the weekly pattern most channels have
+      period: z.number().int().min(2).max(365).default(7),
+      confidenceLevel: z.number().gt(0).lt(1).default(0.95),
+    }),
+    output: z.object({
+      predictions: z.array(
+        z.object({
+          metric: z.string(),
+          // Total over the horizon and its prediction interval
+          prediction: z.number(),
+          lower: z.number(),
+          upper: z.number(),
+          confidence: z.number().min(0).max(1),
+          method: ForecastMethodSchema.exclude(['auto']),
+          points: z.array(
+            z.object({ step: z.number(), value: z.number(), lower: z.number(), upper: z.number() })
+          ),
+          accuracy: z.object({ rmse: z.number().nullable(), mape: z.number().nullable() }),
+          // Average offset of each day of the season from the trend
+          seasonality: z.array(z.number()).nullable(),
+        })
+      ),
+    }),
+  },
+});
+
+type InsightTasks = typeof InsightAgentTasks;
+type Input<Task extends keyof InsightTasks> = AgentTaskInput<InsightTasks, Task>;
+type Output<Task extends keyof InsightTasks> = AgentTaskOutput<InsightTasks, Task>;
+
+export class InsightAgent extends AbstractAgent<InsightTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'insight', InsightAgentTasks, dependencies);
   }
 
-  async execute(payload: AgentPayload): Promise<AgentResult> {
-    return this.executeWithErrorHandling(payload, async () => {
-      const { task, context } = payload;
-      
-      switch (task) {
-        case 'analyze_performance':
-          return await this.analyzePerformance(context);
-        case 'generate_reports':
-          return await this.generateReports(context);
-        case 'recommend_strategy':
-          return await this.recommendStrategy(context);
-        case 'identify_patterns':
-          return await this.identifyPatterns(context);
-        case 'predict_outcomes':
-          return await this.predictOutcomes(context);
-        default:
-          throw new Error(`Unknown task: ${task}`);
-      }
-    });
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(payload, {
+      analyze_performance: input => this.analyzePerformance(input),
+      generate_reports: (input, { llm, prompts }) => this.generateReports(llm, prompts, input),
+      recommend_strategy: (input, { llm, prompts }) => this.recommendStrategy(llm, prompts, input),
+      identify_patterns: (input, { llm, prompts }) => this.identifyPatterns(llm, prompts, input),
+      predict_outcomes: input => this.predictOutcomes(input),
+    }, options);
   }
 
-  private async analyzePerformance(_context: any): Promise<any> {
+  private async analyzePerformance(_context: Input<'analyze_performance'>): Promise<Output<'analyze_performance'>> {
     return {
       metrics: {
         roi: 3.2,
@@ -42,38 +176,96 @@ export class InsightAgent extends AbstractAgent {
     };
   }
 
-  private async generateReports(_context: any): Promise<any> {
-    return {
-      report: {
-        summary: 'Performance is improving',
-        recommendations: ['Increase budget', 'Optimize targeting']
-      }
-    };
+  private async generateReports(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_reports'>
+  ): Promise<Output<'generate_reports'>> {
+    const prompt = await prompts.render('insight.generate_reports', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: ReportSchema,
+      schemaName: 'report',
+      temperature: 0.2,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async recommendStrategy(_context: any): Promise<any> {
-    return {
-      strategy: {
-        focus: 'social media',
-        budget: 'increase 20%',
-        timeline: '3 months'
-      }
-    };
+  private async recommendStrategy(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'recommend_strategy'>
+  ): Promise<Output<'recommend_strategy'>> {
+    const prompt = await prompts.render('insight.recommend_strategy', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: StrategySchema,
+      schemaName: 'strategy',
+      temperature: 0.4,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async identifyPatterns(_context: any): Promise<any> {
-    return {
-      patterns: [
-        { pattern: 'Weekend posts perform better', confidence: 0.85 }
-      ]
-    };
+  private async identifyPatterns(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'identify_patterns'>
+  ): Promise<Output<'identify_patterns'>> {
+    if (input.anomalies.length === 0) {
+      return {
+        patterns: [
+          { pattern: 'Weekend posts perform better', confidence: 0.85 }
+        ],
+        explanations: [],
+      };
+    }
+
+    const prompt = await prompts.render('insight.identify_patterns', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: PatternsSchema,
+      schemaName: 'patterns',
+      temperature: 0.2,
+      messages: prompt.messages,
+    });
+    return data;
   }
 
-  private async predictOutcomes(_context: any): Promise<any> {
+  private async predictOutcomes(input: Input<'predict_outcomes'>): Promise<Output<'predict_outcomes'>> {
+    const history = input.metric
+      ? input.history.filter(series => series.metric === input.metric)
+      : input.history;
+
     return {
-      predictions: [
-        { metric: 'revenue', prediction: 125000, confidence: 0.78 }
-      ]
+      predictions: history.map(series => {
+        const forecast = forecastSeries(series.values, {
+          horizon: input.horizonDays,
+          period: input.period,
+          level: input.confidenceLevel,
+          method: input.method,
+          ...(series.spend && { spend: series.spend }),
+          ...(input.plannedDailySpend && { plannedSpend: input.plannedDailySpend }),
+        });
+        return {
+          metric: series.metric,
+          prediction: forecast.total.value,
+          lower: forecast.total.lower,
+          upper: forecast.total.upper,
+          confidence: forecast.level,
+          method: forecast.method,
+          points: forecast.points,
+          accuracy: forecast.accuracy,
+          seasonality: decomposeSeries(series.values, input.period)?.indices ?? null,
+        };
+      }),
     };
   }
 } 
\ No newline at end of file
@@ -1,54 +1,137 @@
-import { AbstractAgent, AgentPayload, AgentResult } from '../base-agent';
-
-export class OutreachAgent extends AbstractAgent {
-  constructor(id: string, name: string) {
-    super(id, name, 'outreach', [
-      'send_emails',
-      'nurture_leads',
-      'follow_up',
-      'personalize_content',
-      'track_engagement'
-    ]);
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import {
+  evaluateLead,
+  LeadScoringConfigSchema,
+  LeadStatusSchema,
+  ScoredLeadSchema,
+} from '../leads/lead-scoring';
+
+export const OutreachAgentTasks = defineAgentTasks({
+  send_emails: {
+    input: z.object({
+      leadIds: z.array(z.string()).optional(),
+      templateId: z.string().optional(),
+    }),
+    output: z.object({ sent: z.number(), opened: z.number(), clicked: z.number() }),
+    sideEffect: 'contact',
+  },
+  nurture_leads: {
+    input: z.object({
+      leadIds: z.array(z.string()).optional(),
+      // The leads to score with their recent events; only those in `leadIds` when it is given
+      leads: z.array(ScoredLeadSchema).default([]),
+      config: LeadScoringConfigSchema.optional(),
+    }),
+    output: z.object({
+      nurtured: z.number(),
+      qualified: z.number(),
+      leads: z
+        .array(
+          z.object({
+            leadId: z.string(),
+            score: z.number(),
+            firmographic: z.number(),
+            behavior: z.number(),
+            previousScore: z.number().nullable(),
+            status: LeadStatusSchema,
+            previousStatus: LeadStatusSchema,
+            reason: z.string().nullable(),
+            breakdown: z.array(
+              z.object({
+                rule: z.string(),
+                kind: z.enum(['firmographic', 'behavior']),
+                points: z.number(),
+              })
+            ),
+          })
+        )
+        .default([]),
+    }),
+  },
+  follow_up: {
+    input: z.object({ leadIds: z.array(z.string()).optional() }),
+    output: z.object({ followUps: z.number(), responses: z.number() }),
+    sideEffect: 'contact',
+  },
+  personalize_content: {
+    input: z.object({
+      content: z.string().optional(),
+      leadIds: z.array(z.string()).optional(),
+    }),
+    output: z.object({ personalized: z.number(), improved: z.number() }),
+  },
+  track_engagement: {
+    input: z.object({ campaignId: z.string().optional() }),
+    output: z.object({
+      engagement: z.number(),
+      trend: z.enum(['increasing', 'stable', 'decreasing']),
+    }),
+  },
+});
+
+type OutreachTasks = typeof OutreachAgentTasks;
+type Input<Task extends keyof OutreachTasks> = AgentTaskInput<OutreachTasks, Task>;
+type Output<Task extends keyof OutreachTasks> = AgentTaskOutput<OutreachTasks, Task>;
+
+export class OutreachAgent extends AbstractAgent<OutreachTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'outreach', OutreachAgentTasks, dependencies);
   }
 
-  async execute(payload: AgentPayload): Promise<AgentResult> {
-    return this.executeWithErrorHandling(payload, async () => {
-      const { task, context } = payload;
-      
-      switch (task) {
-        case 'send_emails':
-          return await this.sendEmails(context);
-        case 'nurture_leads':
-          return await this.nurtureLeads(context);
-        case 'follow_up':
-          return await this.followUp(context);
-        case 'personalize_content':
-          return await this.personalizeContent(context);
-        case 'track_engagement':
-          return await this.trackEngagement(context);
-        default:
-          throw new Error(`Unknown task: ${task}`);
-      }
-    });
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(payload, {
+      send_emails: input => this.sendEmails(input),
+      nurture_leads: input => this.nurtureLeads(input),
+      follow_up: input => this.followUp(input),
+      personalize_content: input => this.personalizeContent(input),
+      track_engagement: input => this.trackEngagement(input),
+    }, options);
   }
 
-  private async sendEmails(_context: any): Promise<any> {
+  private async sendEmails(_context: Input<'send_emails'>): Promise<Output<'send_emails'>> {
     return { sent: 10, opened: 8, clicked: 3 };
   }
 
-  private async nurtureLeads(_context: any): Promise<any> {
-    return { nurtured: 25, qualified: 5 };
+  /**
+   * Score leads on their firmographics and engagement and move them along
+   * the funnel; `qualified` counts the leads that became QUALIFIED.
+   */
+  private async nurtureLeads(input: Input<'nurture_leads'>): Promise<Output<'nurture_leads'>> {
+    const config = input.config ?? LeadScoringConfigSchema.parse({});
+    const ids = input.leadIds ? new Set(input.leadIds) : null;
+    const now = new Date();
+    const leads = input.leads
+      .filter(lead => !ids || ids.has(lead.id))
+      .map(lead => evaluateLead(lead, config, now));
+
+    return {
+      nurtured: leads.length,
+      qualified: leads.filter(
+        lead => lead.status === 'QUALIFIED' && lead.previousStatus !== 'QUALIFIED'
+      ).length,
+      leads,
+    };
   }
 
-  private async followUp(_context: any): Promise<any> {
+  private async followUp(_context: Input<'follow_up'>): Promise<Output<'follow_up'>> {
     return { followUps: 15, responses: 8 };
   }
 
-  private async personalizeContent(_context: any): Promise<any> {
+  private async personalizeContent(_context: Input<'personalize_content'>): Promise<Output<'personalize_content'>> {
     return { personalized: 50, improved: 12 };
   }
 
-  private async trackEngagement(_context: any): Promise<any> {
+  private async trackEngagement(_context: Input<'track_engagement'>): Promise<Output<'track_engagement'>> {
     return { engagement: 0.75, trend: 'increasing' };
   }
 } 
\ No newline at end of file
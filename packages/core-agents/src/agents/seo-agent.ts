@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentNotImplementedError,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
+
+const ScoreSchema = z.number().min(0).max(100);
+
+const KeywordAnalysisSchema = z.object({
+  keywords: z.array(
+    z.object({
+      keyword: z.string(),
+      difficulty: ScoreSchema,
+      volume: z.number().min(0),
+      intent: z.enum(['informational', 'navigational', 'commercial', 'transactional']),
+    })
+  ),
+  recommendations: z.array(z.string()),
+});
+
+const OptimizedContentSchema = z.object({
+  optimizedContent: z.string().min(1),
+  seoScore: ScoreSchema,
+  suggestions: z.array(z.string()),
+  metaTitle: z.string(),
+  metaDescription: z.string(),
+});
+
+const TitlesSchema = z.object({
+  titles: z.array(z.object({ title: z.string().min(1), seoScore: ScoreSchema })).min(1),
+});
+
+const MetaDescriptionsSchema = z.object({
+  descriptions: z.array(z.string().min(1)).min(1),
+});
+
+export const SEOAgentTasks = defineAgentTasks({
+  analyze_keywords: {
+    input: z.object({
+      keywords: z.array(z.string()).min(1),
+      website: z.string().url().optional(),
+      industry: z.string().min(1),
+      targetLocation: z.string().optional(),
+      campaignId: z.string().optional(),
+      brandId: z.string().optional(),
+    }),
+    output: KeywordAnalysisSchema,
+  },
+  optimize_content: {
+    input: z.object({
+      content: z.string().min(1),
+      targetKeywords: z.array(z.string()).min(1),
+      contentType: z.enum(['blog', 'product', 'landing-page', 'social-post']),
+      metaTitle: z.string().optional(),
+      metaDescription: z.string().optional(),
+      focusKeyword: z.string(),
+      brandId: z.string().optional(),
+    }),
+    output: OptimizedContentSchema,
+  },
+  generate_titles: {
+    input: z.object({
+      topic: z.string().min(1),
+      keywords: z.array(z.string()).min(1),
+      contentType: z.enum(['blog', 'product', 'landing-page', 'news']),
+      tone: z.enum(['professional', 'casual', 'urgent', 'friendly']).default('professional'),
+      maxLength: z.number().int().min(30).max(80).default(60),
+      count: z.number().int().min(1).max(10).default(5),
+      brandId: z.string().optional(),
+    }),
+    output: TitlesSchema,
+  },
+  generate_meta_descriptions: {
+    input: z.object({
+      title: z.string().min(1),
+      content: z.string().min(1),
+      keywords: z.array(z.string()).min(1),
+      maxLength: z.number().int().min(120).max(160).default(155),
+      count: z.number().int().min(1).max(5).default(3),
+      brandId: z.string().optional(),
+    }),
+    output: MetaDescriptionsSchema,
+  },
+  audit_website: {
+    input: z.object({
+      url: z.string().url(),
+      focusKeywords: z.array(z.string()).optional(),
+      checkMobile: z.boolean().default(true),
+      checkSpeed: z.boolean().default(true),
+      checkAccessibility: z.boolean().default(true),
+    }),
+    output: z.object({
+      overallScore: ScoreSchema,
+      technicalSEO: z.record(ScoreSchema),
+      onPageSEO: z.record(ScoreSchema),
+      contentAnalysis: z.record(ScoreSchema),
+      recommendations: z.array(z.string()),
+      criticalIssues: z.array(z.string()),
+    }),
+  },
+  track_keywords: {
+    input: z.object({
+      website: z.string().url(),
+      keywords: z.array(z.string()).min(1),
+      location: z.string().optional(),
+      device: z.enum(['desktop', 'mobile']).default('desktop'),
+      searchEngine: z.enum(['google', 'bing', 'yahoo']).default('google'),
+    }),
+    output: z.object({
+      // Position per keyword; null when the site does not rank for it
+      rankings: z.record(z.number().nullable()),
+      // Positions gained (positive) or lost since the last check
+      changes: z.record(z.number()),
+      insights: z.array(z.string()),
+    }),
+  },
+  analyze_competitors: {
+    input: z.object({
+      website: z.string().url(),
+      competitors: z.array(z.string().url()).min(1),
+      keywords: z.array(z.string()).min(1),
+      analysisType: z.enum(['keywords', 'content', 'backlinks', 'full']).default('full'),
+    }),
+    output: z.object({
+      competitors: z.record(z.object({ rankingKeywords: z.number(), visibility: ScoreSchema })),
+      keywordGaps: z.array(z.string()),
+      contentGaps: z.array(z.string()),
+      opportunities: z.array(z.string()),
+    }),
+  },
+});
+
+type SEOTasks = typeof SEOAgentTasks;
+type Input<Task extends keyof SEOTasks> = AgentTaskInput<SEOTasks, Task>;
+type Output<Task extends keyof SEOTasks> = AgentTaskOutput<SEOTasks, Task>;
+
+export class SEOAgent extends AbstractAgent<SEOTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'seo', SEOAgentTasks, dependencies);
+  }
+
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(
+      payload,
+      {
+        analyze_keywords: (input, { llm, prompts }) => this.analyzeKeywords(llm, prompts, input),
+        optimize_content: (input, { llm, prompts }) => this.optimizeContent(llm, prompts, input),
+        generate_titles: (input, { llm, prompts }) => this.generateTitles(llm, prompts, input),
+        generate_meta_descriptions: (input, { llm, prompts }) =>
+          this.generateMetaDescriptions(llm, prompts, input),
+        audit_website: () => this.auditWebsite(),
+        track_keywords: () => this.trackKeywords(),
+        analyze_competitors: () => this.analyzeCompetitors(),
+      },
+      options
+    );
+  }
+
+  private async analyzeKeywords(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'analyze_keywords'>
+  ): Promise<Output<'analyze_keywords'>> {
+    const prompt = await prompts.render('seo.analyze_keywords', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: KeywordAnalysisSchema,
+      schemaName: 'keywordAnalysis',
+      temperature: 0.2,
+      messages: prompt.messages,
+    });
+    return data;
+  }
+
+  private async optimizeContent(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'optimize_content'>
+  ): Promise<Output<'optimize_content'>> {
+    const prompt = await prompts.render('seo.optimize_content', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: OptimizedContentSchema,
+      schemaName: 'optimizedContent',
+      temperature: 0.4,
+      messages: prompt.messages,
+    });
+    return data;
+  }
+
+  private async generateTitles(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_titles'>
+  ): Promise<Output<'generate_titles'>> {
+    const prompt = await prompts.render('seo.generate_titles', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: TitlesSchema,
+      schemaName: 'titles',
+      temperature: 0.8,
+      messages: prompt.messages,
+    });
+    // Search results cut off longer titles, and models do not always keep to the limit
+    return {
+      titles: data.titles
+        .filter(title => title.title.length <= input.maxLength)
+        .slice(0, input.count),
+    };
+  }
+
+  private async generateMetaDescriptions(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_meta_descriptions'>
+  ): Promise<Output<'generate_meta_descriptions'>> {
+    const prompt = await prompts.render('seo.generate_meta_descriptions', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: MetaDescriptionsSchema,
+      schemaName: 'metaDescriptions',
+      temperature: 0.7,
+      messages: prompt.messages,
+    });
+    return {
+      descriptions: data.descriptions
+        .map(description => description.slice(0, input.maxLength))
+        .slice(0, input.count),
+    };
+  }
+
+  private async auditWebsite(): Promise<Output<'audit_website'>> {
+    throw new AgentNotImplementedError('audit_website', 'site crawler');
+  }
+
+  private async trackKeywords(): Promise<Output<'track_keywords'>> {
+    throw new AgentNotImplementedError('track_keywords', 'search ranking');
+  }
+
+  private async analyzeCompetitors(): Promise<Output<'analyze_competitors'>> {
+    throw new AgentNotImplementedError('analyze_competitors', 'SEO data provider');
+  }
+}
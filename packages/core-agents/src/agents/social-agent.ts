@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentNotImplementedError,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
+
+const SocialPlatformSchema = z.enum(['FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'TWITTER', 'LINKEDIN']);
+
+const SocialContentSchema = z.object({
+  text: z.string().min(1),
+  hashtags: z.array(z.string()),
+  suggestions: z.array(z.string()),
+});
+
+export const SocialAgentTasks = defineAgentTasks({
+  generate_content: {
+    input: z.object({
+      platform: SocialPlatformSchema,
+      contentType: z.enum(['post', 'story', 'reel', 'thread']),
+      topic: z.string().min(1),
+      tone: z
+        .enum(['professional', 'casual', 'humorous', 'inspirational', 'promotional'])
+        .default('professional'),
+      targetAudience: z.string().optional(),
+      includeHashtags: z.boolean().default(true),
+      includeEmojis: z.boolean().default(true),
+      maxLength: z.number().int().positive().optional(),
+      campaignId: z.string().optional(),
+      brandId: z.string().optional(),
+    }),
+    output: SocialContentSchema,
+  },
+  schedule_calendar: {
+    input: z.object({
+      campaignId: z.string(),
+      calendar: z
+        .array(
+          z.object({
+            date: z.coerce.date(),
+            platform: SocialPlatformSchema,
+            contentId: z.string().optional(),
+            content: z
+              .object({
+                text: z.string(),
+                images: z.array(z.string().url()).optional(),
+                video: z.string().url().optional(),
+              })
+              .optional(),
+            timezone: z.string().default('UTC'),
+          })
+        )
+        .min(1),
+    }),
+    output: z.object({
+      scheduled: z.array(z.object({ date: z.date(), platform: SocialPlatformSchema })),
+      // Entries without content or a content id to post
+      skipped: z.number(),
+    }),
+  },
+  manage_accounts: {
+    input: z.object({
+      action: z.enum(['connect', 'disconnect', 'refresh', 'list']),
+      platform: SocialPlatformSchema.optional(),
+      credentials: z
+        .object({
+          accessToken: z.string().optional(),
+          refreshToken: z.string().optional(),
+          accountId: z.string().optional(),
+          expiresAt: z.coerce.date().optional(),
+        })
+        .optional(),
+    }),
+    output: z.object({
+      accounts: z.array(
+        z.object({ platform: SocialPlatformSchema, accountId: z.string().nullable() })
+      ),
+      status: z.record(z.enum(['connected', 'disconnected', 'expired'])),
+    }),
+  },
+});
+
+type SocialTasks = typeof SocialAgentTasks;
+type Input<Task extends keyof SocialTasks> = AgentTaskInput<SocialTasks, Task>;
+type Output<Task extends keyof SocialTasks> = AgentTaskOutput<SocialTasks, Task>;
+
+export class SocialAgent extends AbstractAgent<SocialTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'social', SocialAgentTasks, dependencies);
+  }
+
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(
+      payload,
+      {
+        generate_content: (input, { llm, prompts }) => this.generateContent(llm, prompts, input),
+        schedule_calendar: input => this.scheduleCalendar(input),
+        manage_accounts: () => this.manageAccounts(),
+      },
+      options
+    );
+  }
+
+  private async generateContent(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_content'>
+  ): Promise<Output<'generate_content'>> {
+    const prompt = await prompts.render('social.generate_content', {
+      variables: input,
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: SocialContentSchema,
+      schemaName: 'socialContent',
+      temperature: 0.8,
+      messages: prompt.messages,
+    });
+    return {
+      ...data,
+      hashtags: input.includeHashtags ? data.hashtags : [],
+    };
+  }
+
+  private async scheduleCalendar(
+    input: Input<'schedule_calendar'>
+  ): Promise<Output<'schedule_calendar'>> {
+    const postable = input.calendar.filter(entry => entry.contentId || entry.content);
+    return {
+      scheduled: postable
+        .map(entry => ({ date: entry.date, platform: entry.platform }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime()),
+      skipped: input.calendar.length - postable.length,
+    };
+  }
+
+  private async manageAccounts(): Promise<Output<'manage_accounts'>> {
+    throw new AgentNotImplementedError('manage_accounts', 'social platform');
+  }
+}
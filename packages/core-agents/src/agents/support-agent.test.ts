@@ -0,0 +1,98 @@
+import { BaseLLMProvider, type LLMCompletion, type LLMRequest } from '../llm/llm-provider';
+import { SupportAgent } from './support-agent';
+
+// Answers every request with the same reply
+class ReplyProvider extends BaseLLMProvider {
+  readonly name = 'reply';
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private readonly reply: Record<string, unknown>) {
+    super();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    return {
+      content: JSON.stringify(this.reply),
+      model: 'reply-model',
+      provider: this.name,
+      finishReason: 'stop',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd: 0.001 },
+    };
+  }
+}
+
+const ticket = (priority: string, category = 'technical'): Record<string, unknown> => ({
+  ticketId: 'ticket_1',
+  customerInfo: { name: 'Sam', email: 'sam@acme.io', priority },
+  issue: { category, subject: 'Sign flickers', description: 'The sign flickers at night.' },
+});
+
+const solved = {
+  response: 'Please check the power supply connection.',
+  resolved: true,
+  needsHuman: false,
+  estimatedResolutionTime: null,
+  nextSteps: ['Check the power supply'],
+};
+
+describe('support agent', () => {
+  it('replies to tickets it can solve', async () => {
+    const llm = new ReplyProvider(solved);
+    const agent = new SupportAgent('support-1', 'Support Agent', { llm });
+
+    const result = await agent.execute({
+      task: 'handle_ticket',
+      priority: 'medium',
+      context: { ticket: ticket('medium') },
+    });
+
+    expect(result.data).toMatchObject({ status: 'resolved', resolved: true, escalated: false });
+    expect(llm.requests[0]?.messages.at(-1)?.content).toContain('medium priority technical ticket');
+  });
+
+  it('escalates urgent tickets and complaints whatever the model says', async () => {
+    const agent = new SupportAgent('support-1', 'Support Agent', {
+      llm: new ReplyProvider(solved),
+    });
+
+    for (const context of [{ ticket: ticket('urgent') }, { ticket: ticket('low', 'complaint') }]) {
+      const result = await agent.execute({ task: 'handle_ticket', priority: 'high', context });
+      expect(result.data).toMatchObject({ status: 'escalated', resolved: false, escalated: true });
+    }
+  });
+
+  it('keeps chatbot flows with empty messages as drafts', async () => {
+    const agent = new SupportAgent('support-1', 'Support Agent');
+
+    const result = await agent.execute({
+      task: 'create_chatbot_flow',
+      priority: 'medium',
+      context: {
+        flowName: 'Shipping',
+        triggers: ['where is my order'],
+        responses: [{ condition: 'order_status', message: ' ' }],
+        fallbackMessage: 'Let me get someone to help.',
+      },
+    });
+
+    expect(result.data).toMatchObject({
+      status: 'draft',
+      problems: ['Response 1 (order_status) has no message'],
+    });
+  });
+
+  it('fails WhatsApp messages instead of pretending to send them', async () => {
+    const agent = new SupportAgent('support-1', 'Support Agent');
+
+    const result = await agent.execute({
+      task: 'send_whatsapp',
+      priority: 'medium',
+      context: { recipient: '+15550100', message: { text: 'Your order shipped.' } },
+    });
+
+    expect(result).toMatchObject({ success: false, errorCode: 'execution_error' });
+    expect(result.error).toContain('send_whatsapp is not implemented');
+    expect(result.data).toBeUndefined();
+  });
+});
@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentNotImplementedError,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
+import type { LLMProvider } from '../llm/llm-provider';
+import type { PromptRenderer } from '../prompts/prompt-registry';
+
+const TicketReplySchema = z.object({
+  response: z.string().min(1),
+  resolved: z.boolean(),
+  // Whether a person has to take over, e.g. for refunds or outages
+  needsHuman: z.boolean(),
+  estimatedResolutionTime: z.string().nullable(),
+  nextSteps: z.array(z.string()),
+});
+
+const FAQSchema = z.object({
+  faqs: z.array(z.object({ question: z.string(), answer: z.string().min(1) })).min(1),
+});
+
+export const SupportAgentTasks = defineAgentTasks({
+  handle_ticket: {
+    input: z.object({
+      ticket: z.object({
+        ticketId: z.string(),
+        customerInfo: z.object({
+          name: z.string().min(1),
+          email: z.string().email(),
+          phone: z.string().optional(),
+          priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
+        }),
+        issue: z.object({
+          category: z.enum(['technical', 'billing', 'general', 'complaint', 'feature_request']),
+          subject: z.string().min(1),
+          description: z.string().min(1),
+          attachments: z.array(z.string().url()).optional(),
+        }),
+        context: z
+          .object({
+            previousTickets: z.number().default(0),
+            accountType: z.enum(['free', 'premium', 'enterprise']).optional(),
+            lastInteraction: z.coerce.date().optional(),
+          })
+          .optional(),
+      }),
+      brandId: z.string().optional(),
+    }),
+    output: TicketReplySchema.omit({ needsHuman: true }).extend({
+      status: z.enum(['open', 'resolved', 'escalated']),
+      escalated: z.boolean(),
+    }),
+  },
+  generate_faq: {
+    input: z.object({
+      category: z.enum(['technical', 'billing', 'general', 'product']),
+      questions: z.array(z.string()).min(1),
+      tone: z.enum(['formal', 'friendly', 'concise', 'detailed']).default('friendly'),
+      includeLinks: z.boolean().default(true),
+      brandGuidelines: z
+        .object({
+          companyName: z.string(),
+          values: z.array(z.string()).optional(),
+          prohibitedWords: z.array(z.string()).optional(),
+        })
+        .optional(),
+      brandId: z.string().optional(),
+    }),
+    output: FAQSchema,
+  },
+  create_chatbot_flow: {
+    input: z.object({
+      flowName: z.string().min(1),
+      triggers: z.array(z.string()).min(1),
+      responses: z
+        .array(
+          z.object({
+            condition: z.string(),
+            message: z.string(),
+            actions: z.array(z.string()).optional(),
+            followUpQuestions: z.array(z.string()).optional(),
+          })
+        )
+        .min(1),
+      fallbackMessage: z.string(),
+      escalationTriggers: z.array(z.string()).optional(),
+    }),
+    output: z.object({
+      flowId: z.string(),
+      // Draft until every response has a message
+      status: z.enum(['active', 'draft']),
+      problems: z.array(z.string()),
+    }),
+  },
+  send_whatsapp: {
+    input: z.object({
+      recipient: z.string().min(1),
+      message: z.object({
+        text: z.string().min(1).max(1600),
+        mediaUrl: z.string().url().optional(),
+        mediaType: z.enum(['image', 'document', 'audio', 'video']).optional(),
+      }),
+      templateId: z.string().optional(),
+      variables: z.record(z.string()).optional(),
+      campaignId: z.string().optional(),
+    }),
+    output: z.object({ messageId: z.string(), status: z.enum(['queued', 'sent']) }),
+    sideEffect: 'contact',
+  },
+});
+
+type SupportTasks = typeof SupportAgentTasks;
+type Input<Task extends keyof SupportTasks> = AgentTaskInput<SupportTasks, Task>;
+type Output<Task extends keyof SupportTasks> = AgentTaskOutput<SupportTasks, Task>;
+
+/** Stable id for something the agent creates, from what it was created from */
+function derivedId(prefix: string, ...parts: unknown[]): string {
+  return `${prefix}_${createHash('sha256').update(JSON.stringify(parts)).digest('hex').slice(0, 16)}`;
+}
+
+export class SupportAgent extends AbstractAgent<SupportTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'support', SupportAgentTasks, dependencies);
+  }
+
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(
+      payload,
+      {
+        handle_ticket: (input, { llm, prompts }) => this.handleTicket(llm, prompts, input),
+        generate_faq: (input, { llm, prompts }) => this.generateFAQ(llm, prompts, input),
+        create_chatbot_flow: input => this.createChatbotFlow(input),
+        send_whatsapp: () => this.sendWhatsApp(),
+      },
+      options
+    );
+  }
+
+  private async handleTicket(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'handle_ticket'>
+  ): Promise<Output<'handle_ticket'>> {
+    const { ticket } = input;
+    const prompt = await prompts.render('support.handle_ticket', {
+      variables: {
+        customerName: ticket.customerInfo.name,
+        priority: ticket.customerInfo.priority,
+        category: ticket.issue.category,
+        subject: ticket.issue.subject,
+        description: ticket.issue.description,
+        accountType: ticket.context?.accountType,
+        previousTickets: ticket.context?.previousTickets,
+      },
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: TicketReplySchema,
+      schemaName: 'ticketReply',
+      temperature: 0.3,
+      messages: prompt.messages,
+    });
+
+    // Urgent tickets and complaints always reach a person, whatever the model thinks
+    const escalated =
+      data.needsHuman ||
+      ticket.customerInfo.priority === 'urgent' ||
+      ticket.issue.category === 'complaint';
+    const resolved = data.resolved && !escalated;
+    return {
+      response: data.response,
+      resolved,
+      escalated,
+      status: escalated ? 'escalated' : resolved ? 'resolved' : 'open',
+      estimatedResolutionTime: data.estimatedResolutionTime,
+      nextSteps: data.nextSteps,
+    };
+  }
+
+  private async generateFAQ(
+    llm: LLMProvider,
+    prompts: PromptRenderer,
+    input: Input<'generate_faq'>
+  ): Promise<Output<'generate_faq'>> {
+    const prompt = await prompts.render('support.generate_faq', {
+      variables: {
+        category: input.category,
+        questions: input.questions,
+        tone: input.tone,
+        includeLinks: input.includeLinks,
+        companyName: input.brandGuidelines?.companyName,
+        values: input.brandGuidelines?.values,
+        prohibitedWords: input.brandGuidelines?.prohibitedWords,
+      },
+      brandId: input.brandId,
+    });
+    const { data } = await llm.completeJSON({
+      schema: FAQSchema,
+      schemaName: 'faqs',
+      temperature: 0.4,
+      messages: prompt.messages,
+    });
+    return data;
+  }
+
+  private async createChatbotFlow(
+    input: Input<'create_chatbot_flow'>
+  ): Promise<Output<'create_chatbot_flow'>> {
+    const problems = input.responses.flatMap((response, index) =>
+      response.message.trim()
+        ? []
+        : [`Response ${index + 1} (${response.condition}) has no message`]
+    );
+    if (!input.fallbackMessage.trim()) problems.push('The fallback message is empty');
+    return {
+      flowId: derivedId('flow', input.flowName),
+      status: problems.length === 0 ? 'active' : 'draft',
+      problems,
+    };
+  }
+
+  private async sendWhatsApp(): Promise<Output<'send_whatsapp'>> {
+    throw new AgentNotImplementedError('send_whatsapp', 'WhatsApp Business API');
+  }
+}
@@ -1,38 +1,79 @@
-import { AbstractAgent, AgentPayload, AgentResult } from '../base-agent';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentPayload,
+  AgentResult,
+  AgentTaskInput,
+  AgentTaskOutput,
+  defineAgentTasks,
+} from '../base-agent';
 
-export class TrendAgent extends AbstractAgent {
-  constructor(id: string, name: string) {
-    super(id, name, 'trend', [
-      'detect_trends',
-      'analyze_viral_content',
-      'predict_trends',
-      'monitor_competitors',
-      'identify_opportunities'
-    ]);
+export const TrendAgentTasks = defineAgentTasks({
+  detect_trends: {
+    input: z.object({
+      keywords: z.array(z.string()).optional(),
+      platform: z.string().optional(),
+    }),
+    output: z.object({
+      trends: z.array(z.object({ keyword: z.string(), growth: z.number(), volume: z.number() })),
+    }),
+  },
+  analyze_viral_content: {
+    input: z.object({ platform: z.string().optional() }),
+    output: z.object({
+      viralContent: z.array(
+        z.object({ platform: z.string(), views: z.number(), engagement: z.number() })
+      ),
+    }),
+  },
+  predict_trends: {
+    input: z.object({ timeframe: z.string().optional() }),
+    output: z.object({
+      predictions: z.array(
+        z.object({ trend: z.string(), confidence: z.number().min(0).max(1), timeframe: z.string() })
+      ),
+    }),
+  },
+  monitor_competitors: {
+    input: z.object({ competitors: z.array(z.string()).optional() }),
+    output: z.object({
+      competitors: z.array(
+        z.object({ name: z.string(), activity: z.string(), newProducts: z.number() })
+      ),
+    }),
+  },
+  identify_opportunities: {
+    input: z.object({ market: z.string().optional() }),
+    output: z.object({
+      opportunities: z.array(
+        z.object({ market: z.string(), potential: z.string(), competition: z.string() })
+      ),
+    }),
+  },
+});
+
+type TrendTasks = typeof TrendAgentTasks;
+type Input<Task extends keyof TrendTasks> = AgentTaskInput<TrendTasks, Task>;
+type Output<Task extends keyof TrendTasks> = AgentTaskOutput<TrendTasks, Task>;
+
+export class TrendAgent extends AbstractAgent<TrendTasks> {
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'trend', TrendAgentTasks, dependencies);
   }
 
-  async execute(payload: AgentPayload): Promise<AgentResult> {
-    return this.executeWithErrorHandling(payload, async () => {
-      const { task, context } = payload;
-      
-      switch (task) {
-        case 'detect_trends':
-          return await this.detectTrends(context);
-        case 'analyze_viral_content':
-          return await this.analyzeViralContent(context);
-        case 'predict_trends':
-          return await this.predictTrends(context);
-        case 'monitor_competitors':
-          return await this.monitorCompetitors(context);
-        case 'identify_opportunities':
-          return await this.identifyOpportunities(context);
-        default:
-          throw new Error(`Unknown task: ${task}`);
-      }
-    });
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(payload, {
+      detect_trends: input => this.detectTrends(input),
+      analyze_viral_content: input => this.analyzeViralContent(input),
+      predict_trends: input => this.predictTrends(input),
+      monitor_competitors: input => this.monitorCompetitors(input),
+      identify_opportunities: input => this.identifyOpportunities(input),
+    }, options);
   }
 
-  private async detectTrends(_context: any): Promise<any> {
+  private async detectTrends(_context: Input<'detect_trends'>): Promise<Output<'detect_trends'>> {
     return {
       trends: [
         { keyword: 'neon signs', growth: 45, volume: 1000 },
@@ -41,7 +82,7 @@ export class TrendAgent extends AbstractAgent {
     };
   }
 
-  private async analyzeViralContent(_context: any): Promise<any> {
+  private async analyzeViralContent(_context: Input<'analyze_viral_content'>): Promise<Output<'analyze_viral_content'>> {
     return {
       viralContent: [
         { platform: 'tiktok', views: 1000000, engagement: 0.15 }
@@ -49,7 +90,7 @@ export class TrendAgent extends AbstractAgent {
     };
   }
 
-  private async predictTrends(_context: any): Promise<any> {
+  private async predictTrends(_context: Input<'predict_trends'>): Promise<Output<'predict_trends'>> {
     return {
       predictions: [
         { trend: 'AR shopping', confidence: 0.85, timeframe: '3 months' }
@@ -57,7 +98,7 @@ export class TrendAgent extends AbstractAgent {
     };
   }
 
-  private async monitorCompetitors(_context: any): Promise<any> {
+  private async monitorCompetitors(_context: Input<'monitor_competitors'>): Promise<Output<'monitor_competitors'>> {
     return {
       competitors: [
         { name: 'Competitor A', activity: 'high', newProducts: 3 }
@@ -65,7 +106,7 @@ export class TrendAgent extends AbstractAgent {
     };
   }
 
-  private async identifyOpportunities(_context: any): Promise<any> {
+  private async identifyOpportunities(_context: Input<'identify_opportunities'>): Promise<Output<'identify_opportunities'>> {
     return {
       opportunities: [
         { market: 'restaurant signs', potential: 'high', competition: 'low' }
@@ -1,6 +1,5 @@
 import { UIRefinementAgent } from './ui-refinement-agent';
 import { promises as fs } from 'fs';
-import path from 'path';
 
 // Mock fs operations for testing
 jest.mock('fs', () => ({
@@ -1,4 +1,12 @@
-import { AbstractAgent, AgentPayload, AgentResult } from '../base-agent';
+import { z } from 'zod';
+import {
+  AbstractAgent,
+  AgentDependencies,
+  AgentExecuteOptions,
+  AgentPayload,
+  AgentResult,
+  defineAgentTasks,
+} from '../base-agent';
 import { promises as fs } from 'fs';
 import path from 'path';
 
@@ -14,34 +22,49 @@ export interface ContrastIssue {
   severity: 'low' | 'medium' | 'high';
 }
 
-export interface UIIssue {
-  file: string;
-  line: number;
-  type: 'contrast' | 'spacing' | 'accessibility' | 'responsive' | 'theme';
-  description: string;
-  currentValue: string;
-  suggestedValue: string;
-  severity: 'low' | 'medium' | 'high';
-}
+export const UIIssueSchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  type: z.enum(['contrast', 'spacing', 'accessibility', 'responsive', 'theme']),
+  description: z.string(),
+  currentValue: z.string(),
+  suggestedValue: z.string(),
+  severity: z.enum(['low', 'medium', 'high']),
+});
 
-export interface UIRefinementResult {
-  issues: UIIssue[];
-  fixedIssues: UIIssue[];
-  warnings: string[];
-  filesModified: string[];
-}
+export const UIRefinementResultSchema = z.object({
+  issues: z.array(UIIssueSchema),
+  fixedIssues: z.array(UIIssueSchema),
+  warnings: z.array(z.string()),
+  filesModified: z.array(z.string()),
+});
+
+export type UIIssue = z.infer<typeof UIIssueSchema>;
+export type UIRefinementResult = z.infer<typeof UIRefinementResultSchema>;
+
+const UIRefinementInputSchema = z.object({
+  targetDir: z.string().default('apps/dashboard/src'),
+});
+
+const UIFixInputSchema = UIRefinementInputSchema.extend({
+  autoFix: z.boolean().default(true),
+});
 
-export class UIRefinementAgent extends AbstractAgent {
+type UIRefinementInput = z.output<typeof UIRefinementInputSchema>;
+
+export const UIRefinementAgentTasks = defineAgentTasks({
+  check_contrast: { input: UIRefinementInputSchema, output: UIRefinementResultSchema },
+  fix_contrast_issues: { input: UIFixInputSchema, output: UIRefinementResultSchema },
+  validate_accessibility: { input: UIRefinementInputSchema, output: UIRefinementResultSchema },
+  check_responsive_layout: { input: UIRefinementInputSchema, output: UIRefinementResultSchema },
+  fix_theme_consistency: { input: UIRefinementInputSchema, output: UIRefinementResultSchema },
+  audit_ui_patterns: { input: UIRefinementInputSchema, output: UIRefinementResultSchema },
+  auto_fix_ui_issues: { input: UIRefinementInputSchema, output: UIRefinementResultSchema },
+});
+
+export class UIRefinementAgent extends AbstractAgent<typeof UIRefinementAgentTasks> {
   private readonly logPath = path.join(process.cwd(), 'logs', 'ui-refinements.log');
   
-  // WCAG contrast ratio thresholds
-  private readonly CONTRAST_THRESHOLDS = {
-    AA_NORMAL: 4.5,
-    AA_LARGE: 3.0,
-    AAA_NORMAL: 7.0,
-    AAA_LARGE: 4.5
-  };
-
   // Common contrast-safe color mappings
   private readonly CONTRAST_FIXES = {
     'bg-neutral-900': {
@@ -63,45 +86,24 @@ export class UIRefinementAgent extends AbstractAgent {
     }
   };
 
-  constructor(id: string, name: string) {
-    super(id, name, 'ui-refinement', [
-      'check_contrast',
-      'fix_contrast_issues',
-      'validate_accessibility',
-      'check_responsive_layout',
-      'fix_theme_consistency',
-      'audit_ui_patterns',
-      'auto_fix_ui_issues'
-    ]);
+  constructor(id: string, name: string, dependencies: AgentDependencies = {}) {
+    super(id, name, 'ui-refinement', UIRefinementAgentTasks, dependencies);
   }
 
-  async execute(payload: AgentPayload): Promise<AgentResult> {
-    return this.executeWithErrorHandling(payload, async () => {
-      const { task, context } = payload;
-      
-      switch (task) {
-        case 'check_contrast':
-          return await this.checkContrast(context);
-        case 'fix_contrast_issues':
-          return await this.fixContrastIssues(context);
-        case 'validate_accessibility':
-          return await this.validateAccessibility(context);
-        case 'check_responsive_layout':
-          return await this.checkResponsiveLayout(context);
-        case 'fix_theme_consistency':
-          return await this.fixThemeConsistency(context);
-        case 'audit_ui_patterns':
-          return await this.auditUIPatterns(context);
-        case 'auto_fix_ui_issues':
-          return await this.autoFixUIIssues(context);
-        default:
-          throw new Error(`Unknown task: ${task}`);
-      }
-    });
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(payload, {
+      check_contrast: input => this.checkContrast(input),
+      fix_contrast_issues: input => this.fixContrastIssues(input),
+      validate_accessibility: input => this.validateAccessibility(input),
+      check_responsive_layout: input => this.checkResponsiveLayout(input),
+      fix_theme_consistency: input => this.fixThemeConsistency(input),
+      audit_ui_patterns: input => this.auditUIPatterns(input),
+      auto_fix_ui_issues: input => this.autoFixUIIssues(input),
+    }, options);
   }
 
-  private async checkContrast(context: any): Promise<UIRefinementResult> {
-    const { targetDir = 'apps/dashboard/src' } = context;
+  private async checkContrast(input: UIRefinementInput): Promise<UIRefinementResult> {
+    const { targetDir } = input;
     const issues: UIIssue[] = [];
     
     const tsxFiles = await this.findTSXFiles(targetDir);
@@ -126,8 +128,8 @@ export class UIRefinementAgent extends AbstractAgent {
     };
   }
 
-  private async fixContrastIssues(context: any): Promise<UIRefinementResult> {
-    const { targetDir = 'apps/dashboard/src', autoFix = true } = context;
+  private async fixContrastIssues(input: z.output<typeof UIFixInputSchema>): Promise<UIRefinementResult> {
+    const { targetDir, autoFix } = input;
     const issues: UIIssue[] = [];
     const fixedIssues: UIIssue[] = [];
     const filesModified: string[] = [];
@@ -140,7 +142,7 @@ export class UIRefinementAgent extends AbstractAgent {
       const lines = content.split('\n');
       
       for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
+        const line = lines[i] ?? '';
         const contrastIssues = this.detectContrastIssues(line, filePath, i + 1);
         issues.push(...contrastIssues);
         
@@ -177,8 +179,8 @@ export class UIRefinementAgent extends AbstractAgent {
     };
   }
 
-  private async validateAccessibility(context: any): Promise<UIRefinementResult> {
-    const { targetDir = 'apps/dashboard/src' } = context;
+  private async validateAccessibility(input: UIRefinementInput): Promise<UIRefinementResult> {
+    const { targetDir } = input;
     const issues: UIIssue[] = [];
     
     const tsxFiles = await this.findTSXFiles(targetDir);
@@ -239,8 +241,8 @@ export class UIRefinementAgent extends AbstractAgent {
     };
   }
 
-  private async checkResponsiveLayout(context: any): Promise<UIRefinementResult> {
-    const { targetDir = 'apps/dashboard/src' } = context;
+  private async checkResponsiveLayout(input: UIRefinementInput): Promise<UIRefinementResult> {
+    const { targetDir } = input;
     const issues: UIIssue[] = [];
     
     const tsxFiles = await this.findTSXFiles(targetDir);
@@ -288,8 +290,8 @@ export class UIRefinementAgent extends AbstractAgent {
     };
   }
 
-  private async fixThemeConsistency(context: any): Promise<UIRefinementResult> {
-    const { targetDir = 'apps/dashboard/src' } = context;
+  private async fixThemeConsistency(input: UIRefinementInput): Promise<UIRefinementResult> {
+    const { targetDir } = input;
     const issues: UIIssue[] = [];
     const fixedIssues: UIIssue[] = [];
     const filesModified: string[] = [];
@@ -357,8 +359,8 @@ export class UIRefinementAgent extends AbstractAgent {
     };
   }
 
-  private async auditUIPatterns(context: any): Promise<UIRefinementResult> {
-    const { targetDir = 'apps/dashboard/src' } = context;
+  private async auditUIPatterns(input: UIRefinementInput): Promise<UIRefinementResult> {
+    const { targetDir } = input;
     const issues: UIIssue[] = [];
     
     const tsxFiles = await this.findTSXFiles(targetDir);
@@ -408,14 +410,12 @@ export class UIRefinementAgent extends AbstractAgent {
     };
   }
 
-  private async autoFixUIIssues(context: any): Promise<UIRefinementResult> {
-    const { targetDir = 'apps/dashboard/src' } = context;
-    
+  private async autoFixUIIssues(input: UIRefinementInput): Promise<UIRefinementResult> {
     // Run all checks and fixes
-    const contrastResult = await this.fixContrastIssues({ ...context, autoFix: true });
-    const themeResult = await this.fixThemeConsistency(context);
-    const accessibilityResult = await this.validateAccessibility(context);
-    const responsiveResult = await this.checkResponsiveLayout(context);
+    const contrastResult = await this.fixContrastIssues({ ...input, autoFix: true });
+    const themeResult = await this.fixThemeConsistency(input);
+    const accessibilityResult = await this.validateAccessibility(input);
+    const responsiveResult = await this.checkResponsiveLayout(input);
     
     const allIssues = [
       ...contrastResult.issues,
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import {
+  AnomalyMethodSchema,
+  AnomalySensitivitySchema,
+  detectAnomalies,
+  type AnomalyDirection,
+} from './anomalies';
+import { isValidTimeZone, timeZoneOffset } from './rollups';
+
+// Alert rules on metric series: what triggers them and when they stay silent
+
+export const AlertConditionSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('threshold'),
+    operator: z.enum(['above', 'below']),
+    value: z.number(),
+  }),
+  z.object({
+    kind: z.literal('anomaly'),
+    method: AnomalyMethodSchema.default('seasonal_esd'),
+    sensitivity: AnomalySensitivitySchema.default('medium'),
+    /** Only spikes, only drops, or both */
+    direction: z.enum(['spike', 'drop', 'both']).default('both'),
+  }),
+]);
+
+export type AlertCondition = z.infer<typeof AlertConditionSchema>;
+
+const ClockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+/** A daily window in which alerts are only shown in the app; may wrap past midnight */
+export const QuietHoursSchema = z.object({
+  start: ClockTimeSchema,
+  end: ClockTimeSchema,
+  timeZone: z.string().refine(isValidTimeZone, { message: 'Unknown time zone' }).default('UTC'),
+});
+
+export type QuietHours = z.infer<typeof QuietHoursSchema>;
+
+export const AlertChannelSchema = z.discriminatedUnion('type', [
+  /** Notifications in the dashboard; every workspace member unless users are listed */
+  z.object({ type: z.literal('in_app'), userIds: z.array(z.string()).min(1).optional() }),
+  z.object({ type: z.literal('email'), to: z.array(z.string().email()).min(1) }),
+  /** POSTs the alert as JSON, signed with the secret when there is one */
+  z.object({ type: z.literal('webhook'), url: z.string().url(), secret: z.string().optional() }),
+]);
+
+export type AlertChannel = z.infer<typeof AlertChannelSchema>;
+
+export const AlertGranularitySchema = z.enum(['hour', 'day']);
+
+export type AlertGranularity = z.infer<typeof AlertGranularitySchema>;
+
+export const AlertRuleSettingsSchema = z.object({
+  condition: AlertConditionSchema,
+  /** Buckets the metric is checked in; the latest complete one is evaluated */
+  granularity: AlertGranularitySchema.default('hour'),
+  /** Minutes after an alert during which the rule raises no new one */
+  cooldownMinutes: z.number().int().min(0).max(10_080).default(360),
+  quietHours: QuietHoursSchema.nullable().default(null),
+  channels: z
+    .array(AlertChannelSchema)
+    .min(1)
+    .default([{ type: 'in_app' }]),
+});
+
+export type AlertRuleSettings = z.infer<typeof AlertRuleSettingsSchema>;
+
+/** Buckets per season, and how many buckets of history anomaly rules look at */
+export const ALERT_WINDOWS: Record<AlertGranularity, { period: number; lookback: number }> = {
+  hour: { period: 24, lookback: 14 * 24 },
+  day: { period: 7, lookback: 8 * 7 },
+};
+
+export interface AlertConditionResult {
+  triggered: boolean;
+  /** Value of the latest bucket */
+  value: number;
+  /** Its expected value; null for thresholds */
+  expected: number | null;
+  /** Robust z-score of an anomaly; null for thresholds */
+  score: number | null;
+  direction: AnomalyDirection | null;
+}
+
+export interface AlertDecision extends AlertConditionResult {
+  /** Triggered within the cooldown of the rule's last alert, so no alert is raised */
+  coolingDown: boolean;
+  /** Raised during quiet hours: shown in the app but not emailed or sent to webhooks */
+  quiet: boolean;
+}
+
+/** Whether the latest value of the series (oldest first) meets the condition */
+export function evaluateAlertCondition(
+  condition: AlertCondition,
+  values: readonly number[],
+  period?: number
+): AlertConditionResult {
+  const value = values[values.length - 1] ?? 0;
+  if (condition.kind === 'threshold') {
+    const triggered =
+      values.length > 0 &&
+      (condition.operator === 'above' ? value > condition.value : value < condition.value);
+    return {
+      triggered,
+      value,
+      expected: null,
+      score: null,
+      direction: triggered ? (condition.operator === 'above' ? 'spike' : 'drop') : null,
+    };
+  }
+
+  const latest = detectAnomalies(values, {
+    method: condition.method,
+    sensitivity: condition.sensitivity,
+    ...(period && { period }),
+  }).find(anomaly => anomaly.index === values.length - 1);
+  const triggered =
+    latest !== undefined &&
+    (condition.direction === 'both' || condition.direction === latest.direction);
+  return {
+    triggered,
+    value,
+    expected: latest?.expected ?? null,
+    score: latest?.score ?? null,
+    direction: latest?.direction ?? null,
+  };
+}
+
+function minutesOfDay(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+/** Whether `at` falls within the quiet hours, in their time zone */
+export function isWithinQuietHours(at: Date, quietHours: QuietHours): boolean {
+  const local = new Date(at.getTime() + timeZoneOffset(at, quietHours.timeZone));
+  const minute = local.getUTCHours() * 60 + local.getUTCMinutes();
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  if (start === end) return false;
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+/**
+ * Evaluates a rule on its metric's series and decides what happens to the
+ * alert: raised and delivered, raised quietly, or held back by the cooldown.
+ */
+export function evaluateAlertRule(
+  settings: AlertRuleSettings,
+  values: readonly number[],
+  state: { lastTriggeredAt: Date | null; now: Date }
+): AlertDecision {
+  const result = evaluateAlertCondition(
+    settings.condition,
+    values,
+    ALERT_WINDOWS[settings.granularity].period
+  );
+  const coolingDown =
+    result.triggered &&
+    state.lastTriggeredAt !== null &&
+    state.now.getTime() - state.lastTriggeredAt.getTime() < settings.cooldownMinutes * 60_000;
+  const quiet =
+    result.triggered &&
+    settings.quietHours !== null &&
+    isWithinQuietHours(state.now, settings.quietHours);
+  return { ...result, coolingDown, quiet };
+}
@@ -0,0 +1,139 @@
+import { createRandom, sampleNormal } from '../experiments/statistics';
+import {
+  evaluateAlertCondition,
+  evaluateAlertRule,
+  isWithinQuietHours,
+  AlertRuleSettingsSchema,
+} from './alerts';
+import { detectAnomalies, median, robustZScores } from './anomalies';
+
+const DAILY = [2, 1, 1, 1, 2, 5, 9, 12, 14, 15, 15, 14, 13, 14, 15, 15, 14, 13, 12, 10, 8, 6, 4, 3];
+
+/** Hourly clicks with a daily pattern and noise */
+function hourlySeries(days: number, seed = 'anomalies'): number[] {
+  const random = createRandom(seed);
+  return Array.from(
+    { length: days * 24 },
+    (_, index) => 100 + 10 * (DAILY[index % 24] ?? 0) + 3 * sampleNormal(random)
+  );
+}
+
+describe('robust z-scores', () => {
+  it('are not pulled along by the outlier they measure', () => {
+    const scores = robustZScores([10, 11, 9, 10, 12, 10, 500]);
+
+    expect(median([3, 1, 2, 10])).toBe(2.5);
+    expect(scores[6]).toBeGreaterThan(100);
+    expect(Math.abs(scores[0] ?? 0)).toBeLessThan(1);
+  });
+
+  it('still score a departure from a series that is usually 0', () => {
+    const scores = robustZScores([0, 0, 0, 0, 0, 0, 0, 4]);
+
+    expect(scores[7]).toBeGreaterThan(3);
+    expect(robustZScores([5, 5, 5])).toEqual([0, 0, 0]);
+  });
+});
+
+describe('anomaly detection', () => {
+  it.each(['robust_z', 'seasonal_esd'] as const)(
+    'finds a spike and a drop in seasonal data with %s',
+    method => {
+      const values = hourlySeries(7);
+      values[60] = (values[60] ?? 0) + 120;
+      values[130] = (values[130] ?? 0) - 110;
+
+      const anomalies = detectAnomalies(values, { method, period: 24, sensitivity: 'low' });
+
+      expect(anomalies.map(anomaly => [anomaly.index, anomaly.direction])).toEqual([
+        [60, 'spike'],
+        [130, 'drop'],
+      ]);
+      expect(anomalies[0]?.expected).toBeCloseTo(100 + 10 * (DAILY[60 % 24] ?? 0), -1);
+    }
+  );
+
+  it('takes the daily peak for granted once the season is removed', () => {
+    const values = hourlySeries(7);
+
+    expect(detectAnomalies(values, { period: 24, sensitivity: 'low' })).toEqual([]);
+    expect(detectAnomalies(values, { method: 'robust_z', period: 24, sensitivity: 'low' })).toEqual(
+      []
+    );
+  });
+
+  it('flags more with higher sensitivity', () => {
+    const values = hourlySeries(7, 'sensitivity');
+    values[100] = (values[100] ?? 0) + 14;
+
+    const low = detectAnomalies(values, { method: 'robust_z', period: 24, sensitivity: 'low' });
+    const high = detectAnomalies(values, { method: 'robust_z', period: 24, sensitivity: 'high' });
+    expect(high.length).toBeGreaterThan(low.length);
+  });
+
+  it('needs some history', () => {
+    expect(detectAnomalies([1, 1, 1, 90])).toEqual([]);
+  });
+});
+
+describe('alert rules', () => {
+  it('compares the latest value with a threshold', () => {
+    const condition = { kind: 'threshold', operator: 'below', value: 1.5 } as const;
+
+    expect(evaluateAlertCondition(condition, [2.1, 2.4, 1.2])).toMatchObject({
+      triggered: true,
+      value: 1.2,
+      direction: 'drop',
+    });
+    expect(evaluateAlertCondition(condition, [1.2, 2.4]).triggered).toBe(false);
+  });
+
+  it('only triggers on an anomaly in the latest bucket, in the wanted direction', () => {
+    const values = hourlySeries(7);
+    values[values.length - 1] = (values[values.length - 1] ?? 0) + 150;
+    const spikes = AlertRuleSettingsSchema.parse({
+      condition: { kind: 'anomaly', direction: 'spike' },
+    });
+    const drops = AlertRuleSettingsSchema.parse({
+      condition: { kind: 'anomaly', direction: 'drop' },
+    });
+    const state = { lastTriggeredAt: null, now: new Date('2024-05-01T12:00:00Z') };
+
+    expect(evaluateAlertRule(spikes, values, state)).toMatchObject({
+      triggered: true,
+      direction: 'spike',
+    });
+    expect(evaluateAlertRule(drops, values, state).triggered).toBe(false);
+    expect(evaluateAlertRule(spikes, values.slice(0, -1), state).triggered).toBe(false);
+  });
+
+  it('holds alerts back during the cooldown and keeps them quiet in quiet hours', () => {
+    const settings = AlertRuleSettingsSchema.parse({
+      condition: { kind: 'threshold', operator: 'above', value: 100 },
+      cooldownMinutes: 60,
+      quietHours: { start: '22:00', end: '07:00', timeZone: 'Europe/Berlin' },
+    });
+    // 23:30 in Berlin (CEST)
+    const now = new Date('2024-05-01T21:30:00Z');
+
+    const decision = evaluateAlertRule(settings, [150], {
+      lastTriggeredAt: new Date('2024-05-01T20:45:00Z'),
+      now,
+    });
+    expect(decision).toMatchObject({ triggered: true, coolingDown: true, quiet: true });
+    expect(
+      evaluateAlertRule(settings, [150], { lastTriggeredAt: new Date('2024-05-01T20:15:00Z'), now })
+        .coolingDown
+    ).toBe(false);
+  });
+
+  it('wraps quiet hours past midnight', () => {
+    const overnight = { start: '22:00', end: '07:00', timeZone: 'UTC' };
+    const lunch = { start: '12:00', end: '13:00', timeZone: 'UTC' };
+
+    expect(isWithinQuietHours(new Date('2024-05-01T03:00:00Z'), overnight)).toBe(true);
+    expect(isWithinQuietHours(new Date('2024-05-01T07:00:00Z'), overnight)).toBe(false);
+    expect(isWithinQuietHours(new Date('2024-05-01T12:30:00Z'), lunch)).toBe(true);
+    expect(isWithinQuietHours(new Date('2024-05-01T21:59:00Z'), overnight)).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { studentQuantile } from '../experiments/statistics';
+
+// Outliers in metric time series, robust to the outliers themselves and to weekly or daily seasons
+
+export const AnomalyMethodSchema = z.enum(['robust_z', 'seasonal_esd']);
+
+export type AnomalyMethod = z.infer<typeof AnomalyMethodSchema>;
+
+export const AnomalySensitivitySchema = z.enum(['low', 'medium', 'high']);
+
+export type AnomalySensitivity = z.infer<typeof AnomalySensitivitySchema>;
+
+export type AnomalyDirection = 'spike' | 'drop';
+
+export interface Anomaly {
+  index: number;
+  value: number;
+  /** What the value would have been without the anomaly: median plus the season's offset */
+  expected: number;
+  /** Robust z-score of the deviation; negative for drops */
+  score: number;
+  direction: AnomalyDirection;
+}
+
+export interface AnomalyOptions {
+  method?: AnomalyMethod;
+  sensitivity?: AnomalySensitivity;
+  /** Buckets per season; the season is removed first when the series covers two */
+  period?: number;
+  /** Seasonal ESD flags at most this share of the series, 0.1 by default */
+  maxShare?: number;
+}
+
+/** Series shorter than this have too little history to call anything unusual */
+export const MIN_ANOMALY_POINTS = 8;
+
+// Robust z-score a value must exceed to be flagged
+const Z_THRESHOLDS: Record<AnomalySensitivity, number> = { low: 5, medium: 3.5, high: 2.5 };
+
+// Significance level of each seasonal ESD test
+const ESD_ALPHAS: Record<AnomalySensitivity, number> = { low: 0.01, medium: 0.05, high: 0.1 };
+
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+// Scales the mean absolute deviation likewise, for series whose MAD is 0
+const MEAN_AD_SCALE = 1.2533;
+
+export function median(values: readonly number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? (sorted[middle] ?? 0)
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+/**
+ * Robust spread of the values around their median. Falls back to the mean
+ * absolute deviation when more than half the values are equal, as with a
+ * metric that is usually 0, so a single departure still has a finite score.
+ */
+function robustSpread(values: readonly number[], center: number): number {
+  const deviations = values.map(value => Math.abs(value - center));
+  const mad = median(deviations) * MAD_SCALE;
+  if (mad > 0) return mad;
+  return (
+    (deviations.reduce((sum, deviation) => sum + deviation, 0) / values.length) * MEAN_AD_SCALE
+  );
+}
+
+/** (value - median) / scaled MAD of each value; all 0 when every value is the same */
+export function robustZScores(values: readonly number[]): number[] {
+  const center = median(values);
+  const spread = robustSpread(values, center);
+  return values.map(value => (spread === 0 ? 0 : (value - center) / spread));
+}
+
+/**
+ * The series without its seasonal pattern, and the expected value of each
+ * bucket: the median of the deseasonalized series plus the season's offset.
+ * Offsets are medians per position in the season, so the anomalies being
+ * looked for do not leak into them the way they would into averages.
+ */
+function deseasonalize(
+  values: readonly number[],
+  period: number | undefined
+): { residuals: number[]; expected: number[] } {
+  let offsets: number[] = [];
+  if (period && Number.isInteger(period) && period >= 2 && values.length >= 2 * period) {
+    const positions = Array.from({ length: period }, (_, position) =>
+      median(values.filter((_, index) => index % period === position))
+    );
+    const center = median(positions);
+    offsets = positions.map(value => value - center);
+  }
+  const seasonal = values.map((_, index) => offsets[index % (offsets.length || 1)] ?? 0);
+  const adjusted = values.map((value, index) => value - (seasonal[index] ?? 0));
+  const center = median(adjusted);
+  return {
+    residuals: adjusted.map(value => value - center),
+    expected: seasonal.map(offset => center + offset),
+  };
+}
+
+/**
+ * Generalized ESD test (Rosner) on robust statistics, as in Twitter's seasonal
+ * hybrid ESD: repeatedly removes the most extreme residual and keeps the
+ * largest number of removals whose test statistic exceeded its critical value.
+ */
+function esdOutliers(residuals: readonly number[], maxOutliers: number, alpha: number): number[] {
+  const remaining = residuals.map((value, index) => ({ value, index }));
+  const removed: number[] = [];
+  let outliers = 0;
+  const n = residuals.length;
+
+  for (let step = 1; step <= maxOutliers && remaining.length > 2; step++) {
+    const values = remaining.map(entry => entry.value);
+    const center = median(values);
+    const spread = robustSpread(values, center);
+    if (spread === 0) break;
+
+    let extreme = 0;
+    for (let position = 1; position < remaining.length; position++) {
+      const candidate = Math.abs((remaining[position]?.value ?? 0) - center);
+      if (candidate > Math.abs((remaining[extreme]?.value ?? 0) - center)) extreme = position;
+    }
+    const [entry] = remaining.splice(extreme, 1);
+    if (!entry) break;
+    removed.push(entry.index);
+
+    const statistic = Math.abs(entry.value - center) / spread;
+    const p = 1 - alpha / (2 * (n - step + 1));
+    const t = studentQuantile(p, n - step - 1);
+    const critical = ((n - step) * t) / Math.sqrt((n - step - 1 + t * t) * (n - step + 1));
+    if (statistic > critical) outliers = step;
+  }
+  return removed.slice(0, outliers);
+}
+
+/**
+ * Anomalous buckets of a series, oldest first.
+ *
+ * `robust_z` flags every bucket whose deseasonalized value is further from
+ * the median than the sensitivity's threshold, in robust standard deviations.
+ * `seasonal_esd` tests for outliers one at a time, so a burst of them does not
+ * hide the rest by inflating the spread.
+ */
+export function detectAnomalies(
+  values: readonly number[],
+  options: AnomalyOptions = {}
+): Anomaly[] {
+  if (values.length < MIN_ANOMALY_POINTS) return [];
+  const method = options.method ?? 'seasonal_esd';
+  const sensitivity = options.sensitivity ?? 'medium';
+  const { residuals, expected } = deseasonalize(values, options.period);
+  const scores = robustZScores(residuals);
+
+  const flagged =
+    method === 'robust_z'
+      ? scores.flatMap((score, index) =>
+          Math.abs(score) > Z_THRESHOLDS[sensitivity] ? [index] : []
+        )
+      : esdOutliers(
+          residuals,
+          Math.max(1, Math.floor(values.length * (options.maxShare ?? 0.1))),
+          ESD_ALPHAS[sensitivity]
+        );
+
+  return flagged
+    .sort((a, b) => a - b)
+    .map(index => {
+      const score = scores[index] ?? 0;
+      return {
+        index,
+        value: values[index] ?? 0,
+        expected: expected[index] ?? 0,
+        score,
+        direction: score < 0 ? 'drop' : 'spike',
+      };
+    });
+}
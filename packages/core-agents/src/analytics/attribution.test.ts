@@ -0,0 +1,198 @@
+import {
+  AttributionModelSchema,
+  AttributionSettingsSchema,
+  attributeConversions,
+  buildJourneys,
+  markovRemovalEffects,
+  touchpointWeights,
+  type Journey,
+  type JourneyEvent,
+  type Touchpoint,
+} from './attribution';
+
+const settings = AttributionSettingsSchema.parse({});
+
+const day = (n: number): Date => new Date(Date.UTC(2024, 4, 1 + n));
+
+function event(
+  overrides: Partial<JourneyEvent> & Pick<JourneyEvent, 'type' | 'date'>
+): JourneyEvent {
+  return {
+    visitorId: null,
+    leadId: null,
+    campaignId: null,
+    platform: null,
+    contentId: null,
+    data: {},
+    ...overrides,
+  };
+}
+
+function touch(at: Date, campaignId: string, platform: Touchpoint['platform'] = null): Touchpoint {
+  return { at, campaignId, platform, contentId: null };
+}
+
+describe('journeys', () => {
+  it('joins the anonymous touches of a visitor to the lead they became', () => {
+    const journeys = buildJourneys([
+      event({ type: 'CLICKS', date: day(0), visitorId: 'v1', campaignId: 'social' }),
+      event({
+        type: 'ENGAGEMENT',
+        date: day(2),
+        visitorId: 'v1',
+        leadId: 'lead1',
+        campaignId: 'email',
+      }),
+      event({ type: 'CONVERSION', date: day(3), leadId: 'lead1', data: { value: 120 } }),
+      event({ type: 'CLICKS', date: day(5), leadId: 'lead1', campaignId: 'ads' }),
+    ]);
+
+    expect(journeys).toEqual([
+      {
+        key: 'lead:lead1',
+        touchpoints: [
+          expect.objectContaining({ campaignId: 'social' }),
+          expect.objectContaining({ campaignId: 'email' }),
+        ],
+        conversion: { at: day(3), conversions: 1, revenue: 120 },
+      },
+      // Touches after the last conversion, for data-driven attribution
+      {
+        key: 'lead:lead1',
+        touchpoints: [expect.objectContaining({ campaignId: 'ads' })],
+        conversion: null,
+      },
+    ]);
+  });
+
+  it('only credits touches within the lookback window and conversions in range', () => {
+    const journeys = buildJourneys(
+      [
+        event({ type: 'CLICKS', date: day(0), visitorId: 'v1', campaignId: 'old' }),
+        event({ type: 'CLICKS', date: day(20), visitorId: 'v1', campaignId: 'recent' }),
+        event({ type: 'REVENUE', date: day(5), visitorId: 'v1', data: { revenue: 10 } }),
+        event({ type: 'REVENUE', date: day(25), visitorId: 'v1', data: { revenue: 80 } }),
+      ],
+      { lookbackDays: 7, conversionsFrom: day(10) }
+    );
+
+    expect(journeys).toHaveLength(1);
+    expect(journeys[0]?.touchpoints.map(t => t.campaignId)).toEqual(['recent']);
+    expect(journeys[0]?.conversion).toEqual({ at: day(25), conversions: 0, revenue: 80 });
+  });
+});
+
+describe('touchpoint weights', () => {
+  const touches = [
+    touch(day(0), 'a'),
+    touch(day(7), 'b'),
+    touch(day(13), 'c'),
+    touch(day(14), 'd'),
+  ];
+
+  it('credits single touches and spreads credit evenly or by position', () => {
+    expect(touchpointWeights(touches, day(14), 'first_touch', settings)).toEqual([1, 0, 0, 0]);
+    expect(touchpointWeights(touches, day(14), 'last_touch', settings)).toEqual([0, 0, 0, 1]);
+    expect(touchpointWeights(touches, day(14), 'linear', settings)).toEqual([
+      0.25, 0.25, 0.25, 0.25,
+    ]);
+    const positions = touchpointWeights(touches, day(14), 'position_based', settings);
+    expect(positions[0]).toBeCloseTo(0.4);
+    expect(positions[1]).toBeCloseTo(0.1);
+    expect(positions[3]).toBeCloseTo(0.4);
+  });
+
+  it('halves the credit of a touch per half-life before the conversion', () => {
+    const weights = touchpointWeights(touches, day(14), 'time_decay', settings);
+
+    expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1);
+    expect((weights[1] ?? 0) / (weights[3] ?? 1)).toBeCloseTo(0.5);
+    expect((weights[0] ?? 0) / (weights[1] ?? 1)).toBeCloseTo(0.5);
+  });
+});
+
+describe('data-driven attribution', () => {
+  // Email is on every converting path; display only shows up on paths that go nowhere
+  const journeys: Journey[] = [
+    {
+      key: 'p1',
+      touchpoints: [touch(day(0), 'social'), touch(day(1), 'email')],
+      conversion: { at: day(2), conversions: 1, revenue: 100 },
+    },
+    {
+      key: 'p2',
+      touchpoints: [touch(day(0), 'email')],
+      conversion: { at: day(1), conversions: 1, revenue: 100 },
+    },
+    { key: 'p3', touchpoints: [touch(day(0), 'display')], conversion: null },
+    {
+      key: 'p4',
+      touchpoints: [touch(day(0), 'social'), touch(day(1), 'display')],
+      conversion: null,
+    },
+  ];
+
+  it('measures how many conversions are lost without each campaign', () => {
+    const effects = markovRemovalEffects(journeys, 'campaign');
+
+    expect(effects.email).toBeCloseTo(1);
+    expect(effects.display).toBeCloseTo(0);
+    expect(effects.social).toBeGreaterThan(0);
+    expect(effects.social).toBeLessThan(1);
+  });
+
+  it('splits credit by removal effect', () => {
+    const report = attributeConversions(journeys, 'data_driven', settings);
+    const email = report.byCampaign.find(credit => credit.key === 'email');
+    const social = report.byCampaign.find(credit => credit.key === 'social');
+
+    expect(report.byCampaign.some(credit => credit.key === 'display')).toBe(false);
+    expect((email?.revenue ?? 0) + (social?.revenue ?? 0)).toBeCloseTo(200);
+    expect(email?.revenue).toBeGreaterThan(social?.revenue ?? 0);
+    expect(report.removalEffects?.campaign.email).toBeCloseTo(1);
+  });
+});
+
+describe('attribution report', () => {
+  const journeys: Journey[] = [
+    {
+      key: 'p1',
+      touchpoints: [
+        touch(day(0), 'social', 'INSTAGRAM'),
+        touch(day(2), 'ads', 'GOOGLE_ADS'),
+        touch(day(3), 'email', 'EMAIL'),
+      ],
+      conversion: { at: day(4), conversions: 1, revenue: 300 },
+    },
+    {
+      key: 'p2',
+      touchpoints: [touch(day(1), 'ads', null)],
+      conversion: { at: day(2), conversions: 2, revenue: 50 },
+    },
+    { key: 'p3', touchpoints: [], conversion: { at: day(2), conversions: 1, revenue: 20 } },
+  ];
+
+  it.each(AttributionModelSchema.options)(
+    'credits every attributed conversion once under %s',
+    model => {
+      const report = attributeConversions(journeys, model, settings);
+
+      expect(report.totals).toEqual({ conversions: 4, revenue: 370, journeys: 3 });
+      expect(report.unattributed).toEqual({ conversions: 1, revenue: 20 });
+      for (const credits of [report.byCampaign, report.byPlatform, report.byContent]) {
+        expect(credits.reduce((sum, credit) => sum + credit.revenue, 0)).toBeCloseTo(350);
+        expect(credits.reduce((sum, credit) => sum + credit.conversions, 0)).toBeCloseTo(3);
+      }
+    }
+  );
+
+  it('reports touches without a platform or content item under a null key', () => {
+    const report = attributeConversions(journeys, 'last_touch', settings);
+
+    expect(report.byPlatform).toEqual([
+      { key: 'EMAIL', conversions: 1, revenue: 300, touchpoints: 1 },
+      { key: null, conversions: 2, revenue: 50, touchpoints: 1 },
+    ]);
+    expect(report.byContent).toEqual([{ key: null, conversions: 3, revenue: 350, touchpoints: 2 }]);
+  });
+});
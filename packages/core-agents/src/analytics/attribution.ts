@@ -0,0 +1,431 @@
+import { z } from 'zod';
+import type { Platform } from '../schemas';
+import type { AnalyticsEvent } from './events';
+
+// Multi-touch attribution of conversions and revenue to the touches before them
+
+export const AttributionModelSchema = z.enum([
+  'first_touch',
+  'last_touch',
+  'linear',
+  'time_decay',
+  'position_based',
+  'data_driven',
+]);
+
+export type AttributionModel = z.infer<typeof AttributionModelSchema>;
+
+export const AttributionSettingsSchema = z.object({
+  /** Touches longer than this before a conversion get no credit for it */
+  lookbackDays: z.number().int().min(1).max(365).default(30),
+  /** Time decay: a touch this many days older gets half the credit */
+  halfLifeDays: z.number().positive().max(90).default(7),
+  /** Position-based: credit of the first and of the last touch; the middle shares the rest */
+  endpointShare: z.number().min(0).max(0.5).default(0.4),
+});
+
+export type AttributionSettings = z.infer<typeof AttributionSettingsSchema>;
+
+/** Dimensions credit is reported by */
+export type AttributionDimension = 'campaign' | 'platform' | 'content';
+
+const DIMENSIONS: readonly AttributionDimension[] = ['campaign', 'platform', 'content'];
+
+/** Event types that count as touches; conversions and revenue are what gets credited */
+const TOUCH_TYPES = new Set<AnalyticsEvent['type']>([
+  'IMPRESSIONS',
+  'REACH',
+  'ENGAGEMENT',
+  'CLICKS',
+]);
+
+/** An `Analytics` row as far as attribution cares */
+export interface JourneyEvent {
+  type: AnalyticsEvent['type'];
+  date: Date;
+  /** Anonymous browser or device id */
+  visitorId: string | null;
+  /** Lead or customer id, once the visitor is known */
+  leadId: string | null;
+  campaignId: string | null;
+  platform: Platform | null;
+  contentId: string | null;
+  data: unknown;
+}
+
+export interface Touchpoint {
+  at: Date;
+  campaignId: string | null;
+  platform: Platform | null;
+  contentId: string | null;
+}
+
+export interface JourneyConversion {
+  at: Date;
+  conversions: number;
+  revenue: number;
+}
+
+/**
+ * Touches of one lead or visitor leading up to a conversion, oldest first.
+ * Touches after a person's last conversion form a journey without one, which
+ * data-driven attribution needs to see what does not convert.
+ */
+export interface Journey {
+  key: string;
+  touchpoints: Touchpoint[];
+  conversion: JourneyConversion | null;
+}
+
+export interface AttributionCredit {
+  /** Campaign, platform or content id; null for touches without one */
+  key: string | null;
+  conversions: number;
+  revenue: number;
+  /** Touches that shared in the credit */
+  touchpoints: number;
+}
+
+export interface AttributionReport {
+  model: AttributionModel;
+  totals: { conversions: number; revenue: number; journeys: number };
+  /** Conversions without any touch in the lookback window */
+  unattributed: { conversions: number; revenue: number };
+  byCampaign: AttributionCredit[];
+  byPlatform: AttributionCredit[];
+  byContent: AttributionCredit[];
+  /**
+   * Data-driven only: share of conversions lost when a campaign, platform or
+   * content item is removed from every journey
+   */
+  removalEffects?: Record<AttributionDimension, Record<string, number>>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Key used for touches without a campaign, platform or content item
+const NONE = '';
+
+function touchKey(touchpoint: Touchpoint, dimension: AttributionDimension): string {
+  switch (dimension) {
+    case 'campaign':
+      return touchpoint.campaignId ?? NONE;
+    case 'platform':
+      return touchpoint.platform ?? NONE;
+    case 'content':
+      return touchpoint.contentId ?? NONE;
+  }
+}
+
+function numberField(data: unknown, field: string): number | null {
+  const value = (data as Record<string, unknown> | null)?.[field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Conversions and revenue an event adds, or null if it is not a conversion */
+function conversionOf(event: JourneyEvent): JourneyConversion | null {
+  switch (event.type) {
+    case 'CONVERSION':
+      return {
+        at: event.date,
+        conversions: numberField(event.data, 'conversions') ?? 1,
+        revenue: numberField(event.data, 'value') ?? 0,
+      };
+    case 'REVENUE':
+      // Revenue of a purchase whose conversion may be reported separately
+      return { at: event.date, conversions: 0, revenue: numberField(event.data, 'revenue') ?? 0 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Group events into journeys per lead, or per visitor for people not known
+ * yet. A visitor seen with a lead id on any event is the same person as the
+ * lead, so their anonymous touches join the lead's journeys.
+ *
+ * Each conversion gets the touches within `lookbackDays` before it; a touch
+ * can count towards several conversions. Conversions before `conversionsFrom`
+ * are left out, so callers can load touches from before a report's range
+ * without reporting that earlier period's conversions.
+ */
+export function buildJourneys(
+  events: readonly JourneyEvent[],
+  options: { lookbackDays?: number; conversionsFrom?: Date } = {}
+): Journey[] {
+  const lookbackMs = (options.lookbackDays ?? 30) * DAY_MS;
+
+  const visitorLeads = new Map<string, string>();
+  for (const event of events) {
+    if (event.visitorId && event.leadId) visitorLeads.set(event.visitorId, event.leadId);
+  }
+
+  const byPerson = new Map<string, JourneyEvent[]>();
+  for (const event of events) {
+    const leadId =
+      event.leadId ?? (event.visitorId ? visitorLeads.get(event.visitorId) : undefined);
+    const key = leadId ? `lead:${leadId}` : event.visitorId ? `visitor:${event.visitorId}` : null;
+    if (!key) continue;
+    const personEvents = byPerson.get(key) ?? [];
+    personEvents.push(event);
+    byPerson.set(key, personEvents);
+  }
+
+  const journeys: Journey[] = [];
+  for (const [key, personEvents] of byPerson) {
+    const sorted = [...personEvents].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const touchpoints: Touchpoint[] = [];
+    let lastConversionAt: number | null = null;
+
+    for (const event of sorted) {
+      if (TOUCH_TYPES.has(event.type)) {
+        touchpoints.push({
+          at: event.date,
+          campaignId: event.campaignId,
+          platform: event.platform,
+          contentId: event.contentId,
+        });
+        continue;
+      }
+
+      const conversion = conversionOf(event);
+      if (!conversion) continue;
+      lastConversionAt = conversion.at.getTime();
+      if (options.conversionsFrom && conversion.at < options.conversionsFrom) continue;
+
+      const since = conversion.at.getTime() - lookbackMs;
+      journeys.push({
+        key,
+        touchpoints: touchpoints.filter(touchpoint => touchpoint.at.getTime() >= since),
+        conversion,
+      });
+    }
+
+    const trailing = touchpoints.filter(
+      touchpoint => lastConversionAt === null || touchpoint.at.getTime() > lastConversionAt
+    );
+    if (trailing.length > 0) journeys.push({ key, touchpoints: trailing, conversion: null });
+  }
+  return journeys;
+}
+
+// Markov chain states besides the touch keys
+const START = '(start)';
+const CONVERSION = '(conversion)';
+const NULL = '(null)';
+
+/**
+ * Removal effect of every key in a first-order Markov chain built from the
+ * journeys: how much the probability of reaching a conversion from the start
+ * drops when the key's state leads nowhere. Effects are between 0 and 1.
+ */
+export function markovRemovalEffects(
+  journeys: readonly Journey[],
+  dimension: AttributionDimension
+): Record<string, number> {
+  const transitions = new Map<string, Map<string, number>>();
+  const count = (from: string, to: string): void => {
+    const next = transitions.get(from) ?? new Map<string, number>();
+    next.set(to, (next.get(to) ?? 0) + 1);
+    transitions.set(from, next);
+  };
+
+  for (const journey of journeys) {
+    if (journey.touchpoints.length === 0) continue;
+    let state = START;
+    for (const touchpoint of journey.touchpoints) {
+      const key = touchKey(touchpoint, dimension);
+      // Repeated touches of the same key are one step
+      if (key !== state) count(state, key);
+      state = key;
+    }
+    count(state, journey.conversion ? CONVERSION : NULL);
+  }
+
+  const probabilities = new Map<string, Array<[string, number]>>();
+  for (const [from, next] of transitions) {
+    const total = [...next.values()].reduce((sum, value) => sum + value, 0);
+    probabilities.set(
+      from,
+      [...next].map(([to, value]) => [to, value / total])
+    );
+  }
+
+  const base = conversionProbability(probabilities, null);
+  const keys = [...transitions.keys()].filter(key => key !== START);
+  return Object.fromEntries(
+    keys.map(key => [
+      key,
+      base > 0 ? Math.max(0, 1 - conversionProbability(probabilities, key) / base) : 0,
+    ])
+  );
+}
+
+/** Probability of reaching the conversion from the start, with `removed` leading nowhere */
+function conversionProbability(
+  probabilities: Map<string, Array<[string, number]>>,
+  removed: string | null
+): number {
+  // Value iteration; journeys always end, so this converges even with loops
+  const values = new Map<string, number>([[CONVERSION, 1]]);
+  for (let iteration = 0; iteration < 1000; iteration++) {
+    let delta = 0;
+    for (const [state, next] of probabilities) {
+      if (state === removed) continue;
+      const value = next.reduce(
+        (sum, [to, probability]) =>
+          sum + (to === removed ? 0 : probability * (values.get(to) ?? 0)),
+        0
+      );
+      delta = Math.max(delta, Math.abs(value - (values.get(state) ?? 0)));
+      values.set(state, value);
+    }
+    if (delta < 1e-12) break;
+  }
+  return values.get(START) ?? 0;
+}
+
+/**
+ * Share of a conversion's credit per touch, adding up to 1. Data-driven
+ * weights split the credit by the removal effect of each touch's key, evenly
+ * between touches with the same key, and fall back to linear when none of
+ * the keys has an effect.
+ */
+export function touchpointWeights(
+  touchpoints: readonly Touchpoint[],
+  conversionAt: Date,
+  model: AttributionModel,
+  settings: AttributionSettings,
+  dataDriven?: { dimension: AttributionDimension; removalEffects: Record<string, number> }
+): number[] {
+  const n = touchpoints.length;
+  if (n === 0) return [];
+  const linear = touchpoints.map(() => 1 / n);
+
+  switch (model) {
+    case 'first_touch':
+      return touchpoints.map((_, index) => (index === 0 ? 1 : 0));
+    case 'last_touch':
+      return touchpoints.map((_, index) => (index === n - 1 ? 1 : 0));
+    case 'linear':
+      return linear;
+    case 'time_decay': {
+      const raw = touchpoints.map(touchpoint =>
+        Math.pow(
+          0.5,
+          (conversionAt.getTime() - touchpoint.at.getTime()) / (settings.halfLifeDays * DAY_MS)
+        )
+      );
+      const total = raw.reduce((sum, value) => sum + value, 0);
+      return total > 0 ? raw.map(value => value / total) : linear;
+    }
+    case 'position_based': {
+      if (n <= 2) return linear;
+      const middle = (1 - 2 * settings.endpointShare) / (n - 2);
+      return touchpoints.map((_, index) =>
+        index === 0 || index === n - 1 ? settings.endpointShare : middle
+      );
+    }
+    case 'data_driven': {
+      if (!dataDriven) return linear;
+      const keys = touchpoints.map(touchpoint => touchKey(touchpoint, dataDriven.dimension));
+      const occurrences = new Map<string, number>();
+      for (const key of keys) occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+      const total = [...occurrences.keys()].reduce(
+        (sum, key) => sum + (dataDriven.removalEffects[key] ?? 0),
+        0
+      );
+      if (total <= 0) return linear;
+      return keys.map(
+        key => (dataDriven.removalEffects[key] ?? 0) / total / (occurrences.get(key) ?? 1)
+      );
+    }
+  }
+}
+
+/**
+ * Credit the conversions and revenue of the journeys to the campaigns,
+ * platforms and content items touched before them, under one model.
+ * Credit per dimension adds up to the attributed totals; conversions without
+ * touches are reported as unattributed.
+ */
+export function attributeConversions(
+  journeys: readonly Journey[],
+  model: AttributionModel,
+  settings: AttributionSettings
+): AttributionReport {
+  const removalEffects =
+    model === 'data_driven'
+      ? (Object.fromEntries(
+          DIMENSIONS.map(dimension => [dimension, markovRemovalEffects(journeys, dimension)])
+        ) as Record<AttributionDimension, Record<string, number>>)
+      : undefined;
+
+  const credits = Object.fromEntries(
+    DIMENSIONS.map(dimension => [dimension, new Map<string, AttributionCredit>()])
+  ) as Record<AttributionDimension, Map<string, AttributionCredit>>;
+  const totals = { conversions: 0, revenue: 0, journeys: 0 };
+  const unattributed = { conversions: 0, revenue: 0 };
+
+  for (const journey of journeys) {
+    const { conversion } = journey;
+    if (!conversion) continue;
+    totals.conversions += conversion.conversions;
+    totals.revenue += conversion.revenue;
+    totals.journeys++;
+    if (journey.touchpoints.length === 0) {
+      unattributed.conversions += conversion.conversions;
+      unattributed.revenue += conversion.revenue;
+      continue;
+    }
+
+    for (const dimension of DIMENSIONS) {
+      const weights = touchpointWeights(
+        journey.touchpoints,
+        conversion.at,
+        model,
+        settings,
+        removalEffects && { dimension, removalEffects: removalEffects[dimension] }
+      );
+      journey.touchpoints.forEach((touchpoint, index) => {
+        const weight = weights[index] ?? 0;
+        if (weight === 0) return;
+        const key = touchKey(touchpoint, dimension);
+        const credit = credits[dimension].get(key) ?? {
+          key: key === NONE ? null : key,
+          conversions: 0,
+          revenue: 0,
+          touchpoints: 0,
+        };
+        credit.conversions += weight * conversion.conversions;
+        credit.revenue += weight * conversion.revenue;
+        credit.touchpoints++;
+        credits[dimension].set(key, credit);
+      });
+    }
+  }
+
+  const sorted = (dimension: AttributionDimension): AttributionCredit[] =>
+    [...credits[dimension].values()].sort(
+      (a, b) => b.revenue - a.revenue || b.conversions - a.conversions
+    );
+
+  return {
+    model,
+    totals,
+    unattributed,
+    byCampaign: sorted('campaign'),
+    byPlatform: sorted('platform'),
+    byContent: sorted('content'),
+    ...(removalEffects && {
+      removalEffects: Object.fromEntries(
+        DIMENSIONS.map(dimension => [
+          dimension,
+          Object.fromEntries(
+            Object.entries(removalEffects[dimension]).filter(([key]) => key !== NONE)
+          ),
+        ])
+      ) as Record<AttributionDimension, Record<string, number>>,
+    }),
+  };
+}
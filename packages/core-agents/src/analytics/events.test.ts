@@ -0,0 +1,83 @@
+import { AnalyticsEventSchema, enrichAnalyticsEvent, parseUserAgent } from './events';
+
+const IPHONE_SAFARI =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+const WINDOWS_CHROME =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+describe('analytics event schema', () => {
+  it('checks the data of each event type', () => {
+    expect(AnalyticsEventSchema.safeParse({ type: 'CLICKS', data: {} }).success).toBe(true);
+    expect(
+      AnalyticsEventSchema.safeParse({ type: 'SENTIMENT', data: { sentiment: 3 } }).success
+    ).toBe(false);
+    expect(AnalyticsEventSchema.safeParse({ type: 'REACH', data: { clicks: 1 } }).success).toBe(
+      false
+    );
+  });
+
+  it('fills in defaults and keeps extra fields', () => {
+    const event = AnalyticsEventSchema.parse({
+      type: 'REVENUE',
+      data: { revenue: 120, sku: 'NEON-1' },
+      occurredAt: '2024-06-01T10:00:00Z',
+    });
+
+    expect(event.data).toEqual({ revenue: 120, currency: 'USD', sku: 'NEON-1' });
+    expect(event.occurredAt).toEqual(new Date('2024-06-01T10:00:00Z'));
+  });
+
+  it('needs a variant for bandit rewards', () => {
+    expect(
+      AnalyticsEventSchema.safeParse({ type: 'CLICKS', data: {}, abTestId: 'test_1' }).success
+    ).toBe(false);
+  });
+});
+
+describe('analytics event enrichment', () => {
+  it('parses user agents', () => {
+    expect(parseUserAgent(IPHONE_SAFARI)).toEqual({
+      device: 'mobile',
+      browser: 'Safari',
+      os: 'iOS',
+    });
+    expect(parseUserAgent(WINDOWS_CHROME)).toEqual({
+      device: 'desktop',
+      browser: 'Chrome',
+      os: 'Windows',
+    });
+    expect(parseUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)').device).toBe('bot');
+  });
+
+  it('reads the platform and campaign from UTM tags', () => {
+    const enrichment = enrichAnalyticsEvent({
+      url: 'https://neonhub.io/summer?utm_source=instagram&utm_medium=social&utm_campaign=camp_1',
+    });
+
+    expect(enrichment).toMatchObject({
+      platform: 'INSTAGRAM',
+      campaignId: 'camp_1',
+      utm: { source: 'instagram', medium: 'social', campaign: 'camp_1' },
+    });
+  });
+
+  it('falls back to click ids and the referrer', () => {
+    expect(enrichAnalyticsEvent({ url: 'https://neonhub.io/?gclid=abc' }).platform).toBe(
+      'GOOGLE_ADS'
+    );
+    expect(enrichAnalyticsEvent({ referrer: 'https://www.linkedin.com/feed/' }).platform).toBe(
+      'LINKEDIN'
+    );
+  });
+
+  it('prefers what the event says', () => {
+    const enrichment = enrichAnalyticsEvent(
+      { platform: 'EMAIL', campaignId: 'camp_2', url: 'https://neonhub.io/?utm_source=twitter' },
+      WINDOWS_CHROME
+    );
+
+    expect(enrichment.platform).toBe('EMAIL');
+    expect(enrichment.campaignId).toBeNull();
+    expect(enrichment.userAgent?.browser).toBe('Chrome');
+  });
+});
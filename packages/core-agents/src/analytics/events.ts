@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { PlatformSchema, type Platform } from '../schemas';
+
+// Typed analytics events; each `AnalyticsType` has its own `data` shape
+
+const count = z.number().int().min(0);
+
+/** Fields every ingested event can carry besides its typed `data` */
+const AnalyticsEventBaseSchema = z.object({
+  /** Same key, same event: retries and replays are dropped */
+  idempotencyKey: z.string().min(1).max(200).optional(),
+  campaignId: z.string().optional(),
+  occurredAt: z.coerce.date().optional(),
+  /** What sent the event, e.g. `pixel`, `email`, `webhook:shopify` */
+  source: z.string().min(1).max(50).optional(),
+  platform: PlatformSchema.optional(),
+  url: z.string().max(2000).optional(),
+  referrer: z.string().max(2000).optional(),
+  /** The end user's browser, when a server forwards the event for it */
+  userAgent: z.string().max(1000).optional(),
+  /** Anonymous browser or device id, e.g. from the tracking pixel's cookie */
+  visitorId: z.string().min(1).max(200).optional(),
+  /** Lead or customer the event belongs to; links the visitor's earlier touches to them */
+  leadId: z.string().min(1).max(200).optional(),
+  /** Post, email or ad creative the event is about */
+  contentId: z.string().min(1).max(200).optional(),
+  /** Bandit test and variant the event is a reward for */
+  abTestId: z.string().optional(),
+  variantId: z.string().optional(),
+});
+
+export const AnalyticsEventSchema = z
+  .discriminatedUnion('type', [
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('ENGAGEMENT'),
+      data: z
+        .object({
+          engagement: count,
+          likes: count.optional(),
+          comments: count.optional(),
+          shares: count.optional(),
+        })
+        .passthrough(),
+    }),
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('REACH'),
+      data: z.object({ reach: count }).passthrough(),
+    }),
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('CONVERSION'),
+      data: z
+        .object({
+          conversions: count.default(1),
+          value: z.number().min(0).optional(),
+          currency: z.string().length(3).optional(),
+        })
+        .passthrough(),
+    }),
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('REVENUE'),
+      data: z
+        .object({
+          revenue: z.number(),
+          currency: z.string().length(3).default('USD'),
+          orderId: z.string().optional(),
+        })
+        .passthrough(),
+    }),
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('CLICKS'),
+      data: z.object({ clicks: count.default(1) }).passthrough(),
+    }),
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('IMPRESSIONS'),
+      data: z.object({ impressions: count.default(1) }).passthrough(),
+    }),
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('SENTIMENT'),
+      data: z
+        .object({
+          /** -1 (negative) to 1 (positive) */
+          sentiment: z.number().min(-1).max(1),
+          label: z.enum(['positive', 'neutral', 'negative']).optional(),
+        })
+        .passthrough(),
+    }),
+    AnalyticsEventBaseSchema.extend({
+      type: z.literal('PERFORMANCE'),
+      data: z.record(z.unknown()),
+    }),
+  ])
+  .refine(event => !event.abTestId || event.variantId, {
+    message: 'variantId is required with abTestId',
+    path: ['variantId'],
+  });
+
+export type AnalyticsEvent = z.infer<typeof AnalyticsEventSchema>;
+
+export interface UserAgentInfo {
+  device: 'desktop' | 'mobile' | 'tablet' | 'bot';
+  browser: string | null;
+  os: string | null;
+}
+
+/** What enrichment adds to an event's `metadata` */
+export interface AnalyticsEventEnrichment {
+  platform: Platform | null;
+  userAgent: UserAgentInfo | null;
+  utm: Record<string, string>;
+  /** Campaign id taken from `utm_campaign` when the event named none */
+  campaignId: string | null;
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows NT/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/** Device class, browser and OS of a user agent string */
+export function parseUserAgent(userAgent: string): UserAgentInfo {
+  const match = (patterns: Array<[RegExp, string]>): string | null =>
+    patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+  const device = /bot|crawler|spider|crawling|preview/i.test(userAgent)
+    ? 'bot'
+    : /iPad|Tablet/i.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))
+      ? 'tablet'
+      : /Mobi|iPhone|iPod/i.test(userAgent)
+        ? 'mobile'
+        : 'desktop';
+
+  return { device, browser: match(BROWSERS), os: match(OPERATING_SYSTEMS) };
+}
+
+// Hosts and utm_source values that identify a platform
+const PLATFORM_HINTS: Array<[RegExp, Platform]> = [
+  [/(^|\.)(facebook\.com|fb\.com|fb\.me)$|^(facebook|fb)$/, 'FACEBOOK'],
+  [/(^|\.)instagram\.com$|^(instagram|ig)$/, 'INSTAGRAM'],
+  [/(^|\.)tiktok\.com$|^tiktok$/, 'TIKTOK'],
+  [/(^|\.)(twitter\.com|x\.com|t\.co)$|^(twitter|x)$/, 'TWITTER'],
+  [/(^|\.)(linkedin\.com|lnkd\.in)$|^linkedin$/, 'LINKEDIN'],
+  [/(^|\.)(youtube\.com|youtu\.be)$|^youtube$/, 'YOUTUBE'],
+  [/^(email|newsletter)$/, 'EMAIL'],
+  [/^(google|google_ads|adwords)$/, 'GOOGLE_ADS'],
+  [/^(meta|meta_ads)$/, 'META_ADS'],
+];
+
+function parseUrl(value: string | undefined): URL | null {
+  if (!value) return null;
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function platformOf(hint: string | undefined): Platform | null {
+  if (!hint) return null;
+  const value = hint.toLowerCase().replace(/^www\./, '');
+  return PLATFORM_HINTS.find(([pattern]) => pattern.test(value))?.[1] ?? null;
+}
+
+/**
+ * Platform, UTM parameters, campaign and user agent details of an event,
+ * derived from its URL, referrer and user agent. The event's own fields win
+ * over anything derived.
+ */
+export function enrichAnalyticsEvent(
+  event: Pick<AnalyticsEvent, 'platform' | 'url' | 'referrer' | 'userAgent' | 'campaignId'>,
+  fallbackUserAgent?: string
+): AnalyticsEventEnrichment {
+  const url = parseUrl(event.url);
+  const referrer = parseUrl(event.referrer);
+
+  const utm: Record<string, string> = {};
+  url?.searchParams.forEach((value, key) => {
+    if (key.startsWith('utm_') && value) utm[key.slice(4)] = value;
+  });
+  // Paid clicks carry their ad network's click id instead of UTM tags
+  const clickIdPlatform = url?.searchParams.has('gclid')
+    ? 'GOOGLE_ADS'
+    : url?.searchParams.has('fbclid')
+      ? 'META_ADS'
+      : null;
+
+  const userAgent = event.userAgent ?? fallbackUserAgent;
+  return {
+    platform:
+      event.platform ??
+      platformOf(utm.source) ??
+      clickIdPlatform ??
+      platformOf(referrer?.hostname) ??
+      null,
+    userAgent: userAgent ? parseUserAgent(userAgent) : null,
+    utm,
+    campaignId: event.campaignId ? null : (utm.campaign ?? null),
+  };
+}
@@ -0,0 +1,140 @@
+import { createRandom, sampleNormal } from '../experiments/statistics';
+import { decomposeSeries, fitSpendRegression, forecastSeries } from './forecasting';
+
+const WEEKLY = [10, 12, 14, 16, 30, 40, 20];
+
+/** Weeks of a weekly pattern on a linear trend, with optional noise */
+function weeklySeries(weeks: number, noise = 0, seed = 'forecast'): number[] {
+  const random = createRandom(seed);
+  return Array.from(
+    { length: weeks * 7 },
+    (_, index) => 100 + 2 * index + (WEEKLY[index % 7] ?? 0) + noise * sampleNormal(random)
+  );
+}
+
+describe('seasonal decomposition', () => {
+  it('separates a weekly pattern from a linear trend', () => {
+    const decomposition = decomposeSeries(weeklySeries(6), 7);
+
+    expect(decomposition).not.toBeNull();
+    const offsets = WEEKLY.map(value => value - WEEKLY.reduce((sum, v) => sum + v, 0) / 7);
+    decomposition?.indices.forEach((index, position) => {
+      expect(index).toBeCloseTo(offsets[position] ?? 0, 6);
+    });
+    expect(decomposition?.trend[10]).toBeCloseTo(100 + 2 * 10 + 142 / 7, 6);
+    expect(decomposition?.trend[0]).toBeNull();
+    for (const residual of decomposition?.residual ?? []) {
+      if (residual !== null) expect(residual).toBeCloseTo(0, 6);
+    }
+  });
+
+  it('needs two whole periods', () => {
+    expect(decomposeSeries([1, 2, 3, 4, 5], 3)).toBeNull();
+    expect(decomposeSeries([1, 2, 3, 4, 5, 6], 3)).not.toBeNull();
+  });
+});
+
+describe('forecasts', () => {
+  it('continues trend and season with Holt-Winters', () => {
+    const history = weeklySeries(8);
+    const forecast = forecastSeries(history, { horizon: 14 });
+
+    expect(forecast.method).toBe('holt_winters');
+    expect(forecast.points).toHaveLength(14);
+    forecast.points.forEach(point => {
+      const index = history.length + point.step - 1;
+      expect(point.value).toBeCloseTo(100 + 2 * index + (WEEKLY[index % 7] ?? 0), 0);
+    });
+  });
+
+  it('widens the interval further ahead and with noisier history', () => {
+    const calm = forecastSeries(weeklySeries(8, 2), { horizon: 14 });
+    const noisy = forecastSeries(weeklySeries(8, 10), { horizon: 14 });
+    const width = (point: { lower: number; upper: number } | undefined): number =>
+      (point?.upper ?? 0) - (point?.lower ?? 0);
+
+    expect(width(calm.points[13])).toBeGreaterThan(width(calm.points[0]));
+    expect(width(noisy.points[0])).toBeGreaterThan(width(calm.points[0]));
+    for (const point of noisy.points) {
+      expect(point.lower).toBeLessThanOrEqual(point.value);
+      expect(point.upper).toBeGreaterThanOrEqual(point.value);
+    }
+  });
+
+  it('covers most held-out values at the interval level', () => {
+    let inside = 0;
+    let total = 0;
+    for (let run = 0; run < 20; run++) {
+      const series = weeklySeries(10, 5, `run-${run}`);
+      const forecast = forecastSeries(series.slice(0, 63), { horizon: 7, level: 0.9 });
+      forecast.points.forEach(point => {
+        const actual = series[62 + point.step] ?? 0;
+        if (actual >= point.lower && actual <= point.upper) inside++;
+        total++;
+      });
+    }
+
+    expect(inside / total).toBeGreaterThan(0.8);
+  });
+
+  it('falls back to trend or level smoothing on short history', () => {
+    expect(forecastSeries([5, 6, 7, 8, 9], { horizon: 3 }).method).toBe('holt');
+    expect(forecastSeries([5, 6], { horizon: 3 }).method).toBe('simple');
+    expect(forecastSeries([], { horizon: 2 }).points).toEqual([
+      { step: 1, value: 0, lower: 0, upper: 0 },
+      { step: 2, value: 0, lower: 0, upper: 0 },
+    ]);
+    expect(() => forecastSeries([1, 2, 3], { horizon: 3, method: 'holt_winters' })).toThrow(
+      RangeError
+    );
+  });
+
+  it('never forecasts negative values unless asked to', () => {
+    const falling = [50, 40, 30, 20, 10, 5];
+
+    const forecast = forecastSeries(falling, { horizon: 5 });
+    expect(forecast.points.every(point => point.lower >= 0 && point.value >= 0)).toBe(true);
+    const raw = forecastSeries(falling, { horizon: 5, nonNegative: false });
+    expect(raw.points.some(point => point.value < 0)).toBe(true);
+  });
+
+  it('sums the points into the horizon total', () => {
+    const forecast = forecastSeries(weeklySeries(4, 3), { horizon: 10 });
+
+    expect(forecast.total.value).toBeCloseTo(
+      forecast.points.reduce((sum, point) => sum + point.value, 0)
+    );
+    expect(forecast.total.lower).toBeLessThan(forecast.total.value);
+    expect(forecast.total.upper).toBeGreaterThan(forecast.total.value);
+  });
+});
+
+describe('spend regression', () => {
+  const spend = [100, 200, 150, 300, 250, 50, 400, 350];
+  const revenue = spend.map((amount, index) => 500 + 3 * amount + (index % 2 === 0 ? 20 : -20));
+
+  it('fits revenue to spend', () => {
+    const regression = fitSpendRegression(spend, revenue);
+
+    expect(regression?.slope).toBeCloseTo(3, 0);
+    expect(regression?.intercept).toBeCloseTo(500, -1);
+    expect(regression?.r2).toBeGreaterThan(0.95);
+    expect(fitSpendRegression([100, 100, 100], [1, 2, 3])).toBeNull();
+  });
+
+  it('forecasts from planned spend when it explains the history best', () => {
+    const forecast = forecastSeries(revenue, {
+      horizon: 2,
+      spend,
+      plannedSpend: [500, 0],
+    });
+
+    expect(forecast.method).toBe('spend_regression');
+    expect(forecast.points[0]?.value).toBeCloseTo(2000, -2);
+    expect(forecast.points[1]?.value).toBeCloseTo(500, -2);
+    // Planned spend far from the history is less certain
+    const width = (index: number): number =>
+      (forecast.points[index]?.upper ?? 0) - (forecast.points[index]?.lower ?? 0);
+    expect(width(0)).toBeGreaterThan(width(1));
+  });
+});
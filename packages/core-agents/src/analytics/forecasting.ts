@@ -0,0 +1,416 @@
+import { z } from 'zod';
+import { normalQuantile, studentQuantile } from '../experiments/statistics';
+
+// Forecasts of metric time series with prediction intervals, in plain TypeScript
+
+export const ForecastMethodSchema = z.enum([
+  'auto',
+  'holt_winters',
+  'holt',
+  'simple',
+  'spend_regression',
+]);
+
+export type ForecastMethod = z.infer<typeof ForecastMethodSchema>;
+
+/** A method that was actually fitted; `auto` resolves to one of these */
+export type FittedForecastMethod = Exclude<ForecastMethod, 'auto'>;
+
+export interface ForecastPoint {
+  /** 1 for the bucket right after the history */
+  step: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface Forecast {
+  method: FittedForecastMethod;
+  /** Probability each point's outcome falls between its lower and upper bound */
+  level: number;
+  points: ForecastPoint[];
+  /** Sum over the horizon; its bounds add the point bounds, which is conservative */
+  total: { value: number; lower: number; upper: number };
+  /** In-sample one-step-ahead errors; null when there were none to measure */
+  accuracy: { rmse: number | null; mape: number | null };
+  /** Smoothing weights, or intercept and slope of the spend regression */
+  parameters: Record<string, number>;
+}
+
+export interface SeasonalDecomposition {
+  period: number;
+  /** Centered moving average; null for the half period at either end */
+  trend: Array<number | null>;
+  seasonal: number[];
+  residual: Array<number | null>;
+  /** Average offset of each position in the period from the trend, summing to 0 */
+  indices: number[];
+}
+
+export interface ForecastOptions {
+  /** Buckets to forecast */
+  horizon: number;
+  /** Buckets per season, e.g. 7 for daily data with a weekly pattern */
+  period?: number;
+  /** Prediction interval level, 0.95 by default */
+  level?: number;
+  method?: ForecastMethod;
+  /** Spend in each history bucket, aligned with the values */
+  spend?: readonly number[];
+  /** Planned spend in each forecast bucket, for the spend regression */
+  plannedSpend?: readonly number[];
+  /** Clamp values and bounds at 0; metrics are counts and amounts. On by default. */
+  nonNegative?: boolean;
+}
+
+export interface SpendRegression {
+  intercept: number;
+  slope: number;
+  /** Share of the variance of the values explained by spend */
+  r2: number;
+  /** Standard deviation of the residuals */
+  standardError: number;
+  n: number;
+  meanSpend: number;
+  /** Sum of squared deviations of spend from its mean */
+  spendVariation: number;
+}
+
+interface SmoothingParameters {
+  alpha: number;
+  beta: number | null;
+  gamma: number | null;
+}
+
+interface SmoothingFit {
+  parameters: SmoothingParameters;
+  level: number;
+  trend: number;
+  seasonals: number[];
+  errors: number[];
+  /** Absolute percentage errors where the actual value was not 0 */
+  percentageErrors: number[];
+  sse: number;
+}
+
+const GRID = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+const mean = (values: readonly number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Classical additive decomposition into trend, seasonal and residual parts.
+ * Null when the series is shorter than two periods, which is too short to
+ * tell a season from noise.
+ */
+export function decomposeSeries(
+  values: readonly number[],
+  period: number
+): SeasonalDecomposition | null {
+  if (!Number.isInteger(period) || period < 2 || values.length < 2 * period) return null;
+
+  // Centered moving average; an even period averages two offset windows (2xm MA)
+  const half = Math.floor(period / 2);
+  const trend = values.map((_, index) => {
+    if (index < half || index + half >= values.length) return null;
+    if (period % 2 === 1) {
+      return mean(values.slice(index - half, index + half + 1));
+    }
+    const window = values.slice(index - half, index + half + 1);
+    const inner = window.slice(1, -1).reduce((sum, value) => sum + value, 0);
+    return (inner + ((window[0] ?? 0) + (window[window.length - 1] ?? 0)) / 2) / period;
+  });
+
+  const offsets: number[][] = Array.from({ length: period }, () => []);
+  values.forEach((value, index) => {
+    const level = trend[index];
+    if (level !== null && level !== undefined) offsets[index % period]?.push(value - level);
+  });
+  const raw = offsets.map(mean);
+  const center = mean(raw);
+  const indices = raw.map(offset => offset - center);
+
+  const seasonal = values.map((_, index) => indices[index % period] ?? 0);
+  const residual = values.map((value, index) => {
+    const level = trend[index];
+    return level === null || level === undefined ? null : value - level - (seasonal[index] ?? 0);
+  });
+  return { period, trend, seasonal, residual, indices };
+}
+
+/**
+ * Runs additive exponential smoothing over the history. Without `beta` this is
+ * simple smoothing, with it Holt's linear trend, and with `gamma` too
+ * Holt-Winters with seasons of `period` buckets.
+ */
+function smooth(
+  values: readonly number[],
+  parameters: SmoothingParameters,
+  period: number
+): SmoothingFit {
+  const { alpha, beta, gamma } = parameters;
+  let level: number;
+  let trend = 0;
+  let seasonals: number[] = [];
+  let start: number;
+
+  if (gamma !== null) {
+    // Seasons and trend start from the decomposition of the first two periods
+    const decomposition = decomposeSeries(values.slice(0, 2 * period), period);
+    seasonals = decomposition?.indices ?? Array.from({ length: period }, () => 0);
+    const adjusted = values
+      .slice(0, 2 * period)
+      .map((value, index) => value - (seasonals[index % period] ?? 0));
+    const first = mean(adjusted.slice(0, period));
+    trend = beta !== null ? (mean(adjusted.slice(period)) - first) / period : 0;
+    // Level at the end of the first period, so smoothing starts with the second
+    level = first + (trend * (period - 1)) / 2;
+    start = period;
+  } else {
+    level = values[0] ?? 0;
+    trend = beta !== null && values.length > 1 ? (values[1] ?? 0) - level : 0;
+    start = 1;
+  }
+
+  const errors: number[] = [];
+  const percentageErrors: number[] = [];
+  let sse = 0;
+  for (let index = start; index < values.length; index++) {
+    const actual = values[index] ?? 0;
+    const season = gamma !== null ? (seasonals[index % period] ?? 0) : 0;
+    const predicted = level + trend + season;
+    const error = actual - predicted;
+    // With a trend the second value is fitted exactly by construction
+    if (!(gamma === null && beta !== null && index === 1)) {
+      errors.push(error);
+      sse += error * error;
+      if (actual !== 0) percentageErrors.push(Math.abs(error / actual));
+    }
+
+    const previousLevel = level;
+    level = alpha * (actual - season) + (1 - alpha) * (level + trend);
+    if (beta !== null) trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (gamma !== null) seasonals[index % period] = gamma * (actual - level) + (1 - gamma) * season;
+  }
+  return { parameters, level, trend, seasonals, errors, percentageErrors, sse };
+}
+
+/** Smoothing weights with the least squared one-step-ahead error, from a grid */
+function fitSmoothing(
+  values: readonly number[],
+  method: 'holt_winters' | 'holt' | 'simple',
+  period: number
+): SmoothingFit {
+  const betas = method === 'simple' ? [null] : GRID;
+  const gammas = method === 'holt_winters' ? GRID : [null];
+  let best: SmoothingFit | null = null;
+  for (const alpha of GRID) {
+    for (const beta of betas) {
+      for (const gamma of gammas) {
+        const fit = smooth(values, { alpha, beta, gamma }, period);
+        if (!best || fit.sse < best.sse) best = fit;
+      }
+    }
+  }
+  return best ?? smooth(values, { alpha: 0.5, beta: null, gamma: null }, period);
+}
+
+function smoothingForecast(
+  values: readonly number[],
+  method: 'holt_winters' | 'holt' | 'simple',
+  options: { horizon: number; period: number; level: number }
+): Forecast {
+  const { horizon, period, level } = options;
+  const fit = fitSmoothing(values, method, period);
+  const { alpha, beta, gamma } = fit.parameters;
+  const sigma = fit.errors.length > 0 ? Math.sqrt(fit.sse / fit.errors.length) : 0;
+  const z = normalQuantile((1 + level) / 2);
+
+  const points: ForecastPoint[] = [];
+  // The h-step error is the one-step error plus the propagated errors of
+  // the level, trend and season it builds on (Hyndman et al., ETS(A,A,A))
+  let propagated = 0;
+  for (let step = 1; step <= horizon; step++) {
+    const season = gamma !== null ? (fit.seasonals[(values.length + step - 1) % period] ?? 0) : 0;
+    const value = fit.level + step * fit.trend + season;
+    const spread = z * sigma * Math.sqrt(1 + propagated);
+    points.push({ step, value, lower: value - spread, upper: value + spread });
+
+    const weight =
+      alpha * (1 + step * (beta ?? 0)) + (gamma !== null && step % period === 0 ? gamma : 0);
+    propagated += weight * weight;
+  }
+
+  return {
+    method,
+    level,
+    points,
+    total: totalOf(points),
+    accuracy: {
+      rmse: fit.errors.length > 0 ? sigma : null,
+      mape: fit.percentageErrors.length > 0 ? mean(fit.percentageErrors) * 100 : null,
+    },
+    parameters: {
+      alpha,
+      ...(beta !== null && { beta }),
+      ...(gamma !== null && { gamma }),
+    },
+  };
+}
+
+/**
+ * Ordinary least squares of the values on spend. Null with fewer than three
+ * buckets or when spend never changed, since then it explains nothing.
+ */
+export function fitSpendRegression(
+  spend: readonly number[],
+  values: readonly number[]
+): SpendRegression | null {
+  const n = Math.min(spend.length, values.length);
+  if (n < 3) return null;
+
+  const xs = spend.slice(0, n);
+  const ys = values.slice(0, n);
+  const meanSpend = mean(xs);
+  const meanValue = mean(ys);
+  let spendVariation = 0;
+  let covariation = 0;
+  let valueVariation = 0;
+  for (let index = 0; index < n; index++) {
+    const dx = (xs[index] ?? 0) - meanSpend;
+    const dy = (ys[index] ?? 0) - meanValue;
+    spendVariation += dx * dx;
+    covariation += dx * dy;
+    valueVariation += dy * dy;
+  }
+  if (spendVariation === 0) return null;
+
+  const slope = covariation / spendVariation;
+  const intercept = meanValue - slope * meanSpend;
+  let sse = 0;
+  for (let index = 0; index < n; index++) {
+    const residual = (ys[index] ?? 0) - intercept - slope * (xs[index] ?? 0);
+    sse += residual * residual;
+  }
+  return {
+    intercept,
+    slope,
+    r2: valueVariation === 0 ? 1 : 1 - sse / valueVariation,
+    standardError: Math.sqrt(sse / (n - 2)),
+    n,
+    meanSpend,
+    spendVariation,
+  };
+}
+
+function regressionForecast(
+  regression: SpendRegression,
+  plannedSpend: readonly number[],
+  level: number
+): Forecast {
+  const t = studentQuantile((1 + level) / 2, regression.n - 2);
+  const points = plannedSpend.map((spend, index) => {
+    const value = regression.intercept + regression.slope * spend;
+    const leverage = (spend - regression.meanSpend) ** 2 / regression.spendVariation;
+    const spread = t * regression.standardError * Math.sqrt(1 + 1 / regression.n + leverage);
+    return { step: index + 1, value, lower: value - spread, upper: value + spread };
+  });
+  return {
+    method: 'spend_regression',
+    level,
+    points,
+    total: totalOf(points),
+    accuracy: { rmse: regression.standardError, mape: null },
+    parameters: { intercept: regression.intercept, slope: regression.slope, r2: regression.r2 },
+  };
+}
+
+function totalOf(points: readonly ForecastPoint[]): Forecast['total'] {
+  return points.reduce(
+    (total, point) => ({
+      value: total.value + point.value,
+      lower: total.lower + point.lower,
+      upper: total.upper + point.upper,
+    }),
+    { value: 0, lower: 0, upper: 0 }
+  );
+}
+
+function clampAtZero(forecast: Forecast): Forecast {
+  const points = forecast.points.map(point => ({
+    step: point.step,
+    value: Math.max(0, point.value),
+    lower: Math.max(0, point.lower),
+    upper: Math.max(0, point.upper),
+  }));
+  return { ...forecast, points, total: totalOf(points) };
+}
+
+/**
+ * Forecast of the next `horizon` buckets of a series.
+ *
+ * `auto` uses Holt-Winters when the history covers two seasons, Holt's linear
+ * trend when it has a few points and simple smoothing otherwise; with spend
+ * history and planned spend it uses the spend regression instead when that
+ * fits the history more closely.
+ */
+export function forecastSeries(values: readonly number[], options: ForecastOptions): Forecast {
+  const horizon = Math.max(0, Math.floor(options.horizon));
+  const period = options.period ?? 7;
+  const level = options.level ?? 0.95;
+  const method = options.method ?? 'auto';
+  if (level <= 0 || level >= 1) {
+    throw new RangeError(`Prediction interval level must be between 0 and 1, got ${level}`);
+  }
+
+  const finish = (forecast: Forecast): Forecast =>
+    options.nonNegative === false ? forecast : clampAtZero(forecast);
+
+  if (values.length === 0) {
+    const points = Array.from({ length: horizon }, (_, index) => ({
+      step: index + 1,
+      value: 0,
+      lower: 0,
+      upper: 0,
+    }));
+    return {
+      method: 'simple',
+      level,
+      points,
+      total: totalOf(points),
+      accuracy: { rmse: null, mape: null },
+      parameters: {},
+    };
+  }
+
+  const regression =
+    options.spend && options.plannedSpend && options.plannedSpend.length >= horizon
+      ? fitSpendRegression(options.spend, values)
+      : null;
+  const planned = options.plannedSpend?.slice(0, horizon) ?? [];
+  if (method === 'spend_regression') {
+    if (!regression) {
+      throw new RangeError(
+        'Spend regression needs spend that varies over at least 3 buckets and planned spend for the horizon'
+      );
+    }
+    return finish(regressionForecast(regression, planned, level));
+  }
+
+  const seasonal = period >= 2 && values.length >= 2 * period;
+  const smoothingMethod =
+    method !== 'auto' ? method : seasonal ? 'holt_winters' : values.length >= 4 ? 'holt' : 'simple';
+  if (smoothingMethod === 'holt_winters' && !seasonal) {
+    throw new RangeError(`Holt-Winters needs at least ${2 * period} buckets of history`);
+  }
+  const smoothed = smoothingForecast(values, smoothingMethod, { horizon, period, level });
+
+  if (
+    method === 'auto' &&
+    regression &&
+    (smoothed.accuracy.rmse === null || regression.standardError < smoothed.accuracy.rmse)
+  ) {
+    return finish(regressionForecast(regression, planned, level));
+  }
+  return finish(smoothed);
+}
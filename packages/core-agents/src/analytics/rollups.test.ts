@@ -0,0 +1,84 @@
+import {
+  bucketSeries,
+  bucketStart,
+  extractRollupMetrics,
+  nextBucketStart,
+  rollupPlatform,
+  timeZoneOffset,
+} from './rollups';
+
+describe('rollup metrics', () => {
+  it('extracts numeric fields and counts the event', () => {
+    expect(
+      extractRollupMetrics({ clicks: 3, url: 'https://neonhub.io', nested: { a: 1 } })
+    ).toEqual([
+      { metric: 'events', value: 1 },
+      { metric: 'clicks', value: 3 },
+    ]);
+  });
+
+  it('prefixes metrics of tagged payloads', () => {
+    expect(extractRollupMetrics({ type: 'email_performance', opened: 40, delivered: 100 })).toEqual(
+      [
+        { metric: 'email_performance.events', value: 1 },
+        { metric: 'email_performance.opened', value: 40 },
+        { metric: 'email_performance.delivered', value: 100 },
+      ]
+    );
+  });
+
+  it('reads the platform from the data when the row has none', () => {
+    expect(rollupPlatform(null, { platform: 'instagram' })).toBe('INSTAGRAM');
+    expect(rollupPlatform('EMAIL', { platform: 'instagram' })).toBe('EMAIL');
+    expect(rollupPlatform(null, { platform: 'myspace' })).toBeNull();
+  });
+});
+
+describe('time buckets', () => {
+  const instant = new Date('2024-03-10T03:30:00Z');
+
+  it('aligns days to the time zone', () => {
+    expect(bucketStart(instant, 'day')).toEqual(new Date('2024-03-10T00:00:00Z'));
+    // 2024-03-09 19:30 in Los Angeles (UTC-8)
+    expect(bucketStart(instant, 'day', 'America/Los_Angeles')).toEqual(
+      new Date('2024-03-09T08:00:00Z')
+    );
+  });
+
+  it('starts weeks on Monday and handles month ends', () => {
+    expect(bucketStart(instant, 'week')).toEqual(new Date('2024-03-04T00:00:00Z'));
+    expect(bucketStart(instant, 'month', 'Europe/Berlin')).toEqual(
+      new Date('2024-02-29T23:00:00Z')
+    );
+    expect(nextBucketStart(new Date('2024-01-31T00:00:00Z'), 'month')).toEqual(
+      new Date('2024-02-01T00:00:00Z')
+    );
+  });
+
+  it('follows daylight saving changes', () => {
+    // Los Angeles moves to UTC-7 at 2am on 2024-03-10
+    expect(timeZoneOffset(new Date('2024-03-11T12:00:00Z'), 'America/Los_Angeles')).toBe(
+      -7 * 60 * 60 * 1000
+    );
+    expect(nextBucketStart(new Date('2024-03-10T08:00:00Z'), 'day', 'America/Los_Angeles')).toEqual(
+      new Date('2024-03-11T07:00:00Z')
+    );
+  });
+
+  it('fills a series with empty buckets', () => {
+    const series = bucketSeries(
+      [
+        { bucketStart: new Date('2024-03-01T10:00:00Z'), key: 'clicks', value: 2 },
+        { bucketStart: new Date('2024-03-01T22:00:00Z'), key: 'clicks', value: 3 },
+        { bucketStart: new Date('2024-03-03T05:00:00Z'), key: 'clicks', value: 1 },
+      ],
+      {
+        from: new Date('2024-03-01T00:00:00Z'),
+        to: new Date('2024-03-04T00:00:00Z'),
+        size: 'day',
+      }
+    );
+
+    expect(series.map(bucket => bucket.values.clicks ?? 0)).toEqual([5, 0, 1]);
+  });
+});
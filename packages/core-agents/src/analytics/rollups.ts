@@ -0,0 +1,204 @@
+import { PlatformSchema, type Platform } from '../schemas';
+
+// Time bucketing and metric extraction for pre-aggregated analytics rollups
+
+/** Granularities rollups are stored at; both are UTC-aligned */
+export type RollupGranularity = 'HOUR' | 'DAY';
+
+/** Buckets a rollup query can return, aligned to the caller's time zone */
+export type BucketSize = 'hour' | 'day' | 'week' | 'month';
+
+export interface RollupMetric {
+  metric: string;
+  value: number;
+}
+
+export interface BucketPoint {
+  bucketStart: Date;
+  /** Name the caller asked for the metric under */
+  key: string;
+  value: number;
+}
+
+export interface SeriesBucket {
+  start: Date;
+  values: Record<string, number>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Numeric fields of an `Analytics.data` payload, plus an `events` count.
+ * Payloads tagged with a `type` (e.g. `social_analytics`, `email_performance`)
+ * get it as a prefix, so `reach` reported by different sources stays apart.
+ */
+export function extractRollupMetrics(data: unknown): RollupMetric[] {
+  const record =
+    data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : {};
+  const prefix = typeof record.type === 'string' && record.type ? `${record.type}.` : '';
+
+  const metrics: RollupMetric[] = [{ metric: `${prefix}events`, value: 1 }];
+  for (const [field, value] of Object.entries(record)) {
+    if (field === 'events' || typeof value !== 'number' || !Number.isFinite(value)) continue;
+    metrics.push({ metric: `${prefix}${field}`, value });
+  }
+  return metrics;
+}
+
+/** Platform of a row: its own column, else a valid `platform` in its data */
+export function rollupPlatform(platform: Platform | null, data: unknown): Platform | null {
+  if (platform) return platform;
+  const fromData = (data as { platform?: unknown } | null)?.platform;
+  const parsed = PlatformSchema.safeParse(
+    typeof fromData === 'string' ? fromData.toUpperCase() : fromData
+  );
+  return parsed.success ? parsed.data : null;
+}
+
+/** Whether `Intl` knows the time zone, e.g. `Europe/Berlin` */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock year, month, day, hour, minute and second of an instant in the time zone */
+export function zonedParts(date: Date, timeZone: string): Record<string, number> {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/** Offset of the time zone from UTC at an instant, in milliseconds */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const local = Date.UTC(
+    p.year ?? 1970,
+    (p.month ?? 1) - 1,
+    p.day ?? 1,
+    p.hour ?? 0,
+    p.minute ?? 0,
+    p.second ?? 0
+  );
+  return local - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/** The instant a local wall-clock time falls on; overflowing days and months roll over */
+export function fromLocalTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = timeZoneOffset(new Date(wallClock), timeZone);
+  // Around DST changes the offset at the result can differ from the guess
+  const corrected = timeZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+}
+
+function fromLocal(year: number, month: number, day: number, hour: number, timeZone: string): Date {
+  return fromLocalTime(year, month, day, hour, 0, timeZone);
+}
+
+/**
+ * Start of the bucket containing `date`, in the given time zone. Weeks start
+ * on Monday. Hour buckets assume the zone's offset is whole hours.
+ */
+export function bucketStart(date: Date, size: BucketSize, timeZone = 'UTC'): Date {
+  if (size === 'hour') return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+
+  const p = zonedParts(date, timeZone);
+  const year = p.year ?? 1970;
+  const month = p.month ?? 1;
+  const day = p.day ?? 1;
+  switch (size) {
+    case 'day':
+      return fromLocal(year, month, day, 0, timeZone);
+    case 'week': {
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      return fromLocal(year, month, day - ((weekday + 6) % 7), 0, timeZone);
+    }
+    case 'month':
+      return fromLocal(year, month, 1, 0, timeZone);
+  }
+}
+
+/** Start of the bucket after the one starting at `start` */
+export function nextBucketStart(start: Date, size: BucketSize, timeZone = 'UTC'): Date {
+  if (size === 'hour') return new Date(start.getTime() + HOUR_MS);
+
+  const p = zonedParts(start, timeZone);
+  const year = p.year ?? 1970;
+  const month = p.month ?? 1;
+  const day = p.day ?? 1;
+  switch (size) {
+    case 'day':
+      return fromLocal(year, month, day + 1, 0, timeZone);
+    case 'week':
+      return fromLocal(year, month, day + 7, 0, timeZone);
+    case 'month':
+      return fromLocal(year, month + 1, 1, 0, timeZone);
+  }
+}
+
+/**
+ * Group rollup points into consecutive buckets covering `[from, to)`.
+ * Buckets without data are included with no values, so charts do not skip
+ * quiet days.
+ */
+export function bucketSeries(
+  points: readonly BucketPoint[],
+  range: { from: Date; to: Date; size: BucketSize; timeZone?: string }
+): SeriesBucket[] {
+  const timeZone = range.timeZone ?? 'UTC';
+  const buckets = new Map<number, SeriesBucket>();
+  for (
+    let start = bucketStart(range.from, range.size, timeZone);
+    start < range.to;
+    start = nextBucketStart(start, range.size, timeZone)
+  ) {
+    buckets.set(start.getTime(), { start, values: {} });
+  }
+
+  // Many points share a rollup bucket, so only bucket each instant once
+  const starts = new Map<number, number>();
+  for (const point of points) {
+    const instant = point.bucketStart.getTime();
+    let start = starts.get(instant);
+    if (start === undefined) {
+      start = bucketStart(point.bucketStart, range.size, timeZone).getTime();
+      starts.set(instant, start);
+    }
+    const bucket = buckets.get(start);
+    if (!bucket) continue;
+    bucket.values[point.key] = (bucket.values[point.key] ?? 0) + point.value;
+  }
+  return [...buckets.values()];
+}
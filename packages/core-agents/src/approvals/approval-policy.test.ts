@@ -0,0 +1,61 @@
+import { getTaskSideEffect } from '../task-map';
+import {
+  ApprovalPolicySchema,
+  buildApprovalPreview,
+  findAutoApproveRule,
+  type ApprovalRequest,
+} from './approval-policy';
+
+const budgetRequest = (totalBudget?: number): ApprovalRequest => ({
+  action: 'ad.manage_budget',
+  sideEffect: 'spend',
+  input: { campaignId: 'campaign_1', ...(totalBudget !== undefined && { totalBudget }) },
+});
+
+describe('approval policies', () => {
+  it('flags tasks that spend money or contact customers', () => {
+    expect(getTaskSideEffect('ad', 'manage_budget')).toBe('spend');
+    expect(getTaskSideEffect('ad', 'adjust_bidding')).toBe('spend');
+    expect(getTaskSideEffect('outreach', 'send_emails')).toBe('contact');
+    expect(getTaskSideEffect('content', 'generate_posts')).toBeUndefined();
+    expect(getTaskSideEffect('seo', 'anything')).toBeUndefined();
+  });
+
+  it('auto-approves spend only up to the rule amount', () => {
+    const policy = ApprovalPolicySchema.parse({
+      autoApprove: [{ action: 'ad.manage_budget', maxAmount: 500 }],
+    });
+
+    expect(findAutoApproveRule(policy, budgetRequest(250))).toEqual({
+      action: 'ad.manage_budget',
+      maxAmount: 500,
+    });
+    expect(findAutoApproveRule(policy, budgetRequest(900))).toBeUndefined();
+    // Unknown spend never passes an amount limit
+    expect(findAutoApproveRule(policy, budgetRequest())).toBeUndefined();
+    expect(findAutoApproveRule(null, budgetRequest(10))).toBeUndefined();
+  });
+
+  it('matches rules by side effect', () => {
+    const policy = ApprovalPolicySchema.parse({ autoApprove: [{ sideEffect: 'publish' }] });
+
+    expect(
+      findAutoApproveRule(policy, {
+        action: 'social.publish_post',
+        sideEffect: 'publish',
+        input: {},
+      })
+    ).toBeDefined();
+    expect(findAutoApproveRule(policy, budgetRequest(1))).toBeUndefined();
+  });
+
+  it('summarises the action in the preview', () => {
+    expect(buildApprovalPreview(budgetRequest(1200))).toEqual({
+      action: 'ad.manage_budget',
+      sideEffect: 'spend',
+      summary: 'Spends budget: ad.manage_budget, up to 1200.00, for campaign campaign_1',
+      amount: 1200,
+      input: { campaignId: 'campaign_1', totalBudget: 1200 },
+    });
+  });
+});
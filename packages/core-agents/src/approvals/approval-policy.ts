@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { AgentSideEffectSchema, type AgentSideEffect } from '../base-agent';
+
+/**
+ * Lets matching actions through without waiting for a person. Every field that
+ * is set has to match; a rule with `maxAmount` only matches actions whose spend
+ * is known and at most that amount.
+ */
+export const ApprovalRuleSchema = z.object({
+  /** `<agent type>.<task>` or an action name, e.g. `ad.manage_budget` */
+  action: z.string().optional(),
+  sideEffect: AgentSideEffectSchema.optional(),
+  maxAmount: z.number().nonnegative().optional(),
+});
+
+export const ApprovalPolicySchema = z.object({
+  autoApprove: z.array(ApprovalRuleSchema).default([]),
+});
+
+export type ApprovalRule = z.infer<typeof ApprovalRuleSchema>;
+export type ApprovalPolicy = z.infer<typeof ApprovalPolicySchema>;
+
+/**
+ * An action that needs approval before it runs.
+ */
+export interface ApprovalRequest {
+  action: string;
+  sideEffect: AgentSideEffect;
+  /** Exactly what the action will run with */
+  input: Record<string, unknown>;
+}
+
+export interface ApprovalPreview {
+  action: string;
+  sideEffect: AgentSideEffect;
+  summary: string;
+  /** Money the action can spend, when the input says */
+  amount?: number;
+  input: Record<string, unknown>;
+}
+
+const SIDE_EFFECT_VERBS: Record<AgentSideEffect, string> = {
+  spend: 'Spends budget',
+  contact: 'Contacts customers',
+  publish: 'Publishes content',
+};
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * The most an action can spend, read from its input. Undefined when the
+ * action does not say.
+ */
+export function estimateSpend(action: string, input: Record<string, unknown>): number | undefined {
+  switch (action) {
+    case 'ad.manage_budget':
+      return toNumber(input.totalBudget);
+    default:
+      return toNumber(input.budget) ?? toNumber(input.amount);
+  }
+}
+
+function countOf(value: unknown): number | undefined {
+  return Array.isArray(value) ? value.length : undefined;
+}
+
+export function buildApprovalPreview(request: ApprovalRequest): ApprovalPreview {
+  const { action, sideEffect, input } = request;
+  const amount = estimateSpend(action, input);
+  const details: string[] = [];
+
+  if (amount !== undefined) details.push(`up to ${amount.toFixed(2)}`);
+  const recipients = countOf(input.leadIds);
+  if (recipients !== undefined) details.push(`${recipients} lead${recipients === 1 ? '' : 's'}`);
+  if (typeof input.platform === 'string') details.push(`on ${input.platform}`);
+  if (typeof input.campaignId === 'string') details.push(`for campaign ${input.campaignId}`);
+
+  return {
+    action,
+    sideEffect,
+    summary: [`${SIDE_EFFECT_VERBS[sideEffect]}: ${action}`, ...details].join(', '),
+    ...(amount !== undefined && { amount }),
+    input,
+  };
+}
+
+/**
+ * The first auto-approve rule of `policy` that covers `request`, if any.
+ */
+export function findAutoApproveRule(
+  policy: ApprovalPolicy | null | undefined,
+  request: ApprovalRequest
+): ApprovalRule | undefined {
+  if (!policy) return undefined;
+  const amount = estimateSpend(request.action, request.input);
+
+  return policy.autoApprove.find(
+    rule =>
+      (rule.action === undefined || rule.action === request.action) &&
+      (rule.sideEffect === undefined || rule.sideEffect === request.sideEffect) &&
+      (rule.maxAmount === undefined || (amount !== undefined && amount <= rule.maxAmount))
+  );
+}
@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import { FixtureLLMProvider } from './llm/fixture-provider';
+import type { LLMProvider } from './llm/llm-provider';
+import { MeteredLLMProvider, type LLMUsageSummary } from './llm/usage';
+import { PromptRegistry, type PromptRenderer } from './prompts/prompt-registry';
+import type { PromptReference } from './prompts/prompt-template';
+import type { AgentTaskType, TaskInput, TaskName, TaskResult } from './task-map';
 
 // Base schemas for agent communication
 export const AgentPayloadSchema = z.object({
@@ -9,10 +15,20 @@ export const AgentPayloadSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+export const AgentErrorCodeSchema = z.enum([
+  'timeout',
+  'cancelled',
+  'preempted',
+  'invalid_payload',
+  'execution_error',
+  'approval_required',
+]);
+
 export const AgentResultSchema = z.object({
   success: z.boolean(),
   data: z.any().optional(),
   error: z.string().optional(),
+  errorCode: AgentErrorCodeSchema.optional(),
   performance: z.number().optional(),
   metadata: z.record(z.any()).optional(),
 });
@@ -28,22 +44,176 @@ export const AgentStatusSchema = z.object({
 });
 
 export type AgentPayload = z.infer<typeof AgentPayloadSchema>;
+export type AgentPriority = AgentPayload['priority'];
+export type AgentErrorCode = z.infer<typeof AgentErrorCodeSchema>;
 export type AgentResult = z.infer<typeof AgentResultSchema>;
 export type AgentStatus = z.infer<typeof AgentStatusSchema>;
 
+// Numeric weights used wherever work is ordered by priority (higher runs first)
+export const AgentPriorityWeight: Record<AgentPriority, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+export function priorityFromWeight(weight: number): AgentPriority {
+  if (weight >= AgentPriorityWeight.critical) return 'critical';
+  if (weight >= AgentPriorityWeight.high) return 'high';
+  if (weight >= AgentPriorityWeight.medium) return 'medium';
+  return 'low';
+}
+
+export interface AgentExecuteOptions {
+  /** Aborts the execution, e.g. when a job is cancelled or preempted */
+  signal?: AbortSignal;
+}
+
+export interface AgentDependencies {
+  /** Language model for generating tasks. Defaults to the offline fixture provider. */
+  llm?: LLMProvider;
+  /** Prompt templates for LLM tasks. Defaults to the built-in templates only. */
+  prompts?: PromptRegistry;
+}
+
+/**
+ * Handed to the execution function of each run.
+ */
+export interface AgentExecutionContext {
+  /** Fires on deadline, cancellation or preemption */
+  signal: AbortSignal;
+  /** The agent's provider, bound to `signal`, with usage metered for this run */
+  llm: LLMProvider;
+  /** Renders prompt templates and records their versions for this run */
+  prompts: PromptRenderer;
+}
+
+/**
+ * Reason attached to an AbortSignal so the agent can report why it stopped.
+ */
+export class AgentAbortError extends Error {
+  constructor(
+    public readonly code: Extract<AgentErrorCode, 'timeout' | 'cancelled' | 'preempted'>,
+    message?: string
+  ) {
+    super(message ?? `Execution ${code}`);
+    this.name = 'AgentAbortError';
+  }
+}
+
+/**
+ * Thrown when a payload does not match what the agent accepts.
+ */
+export class AgentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentValidationError';
+  }
+}
+
+/**
+ * Thrown by tasks whose integration does not exist yet, so callers get an
+ * `execution_error` instead of made-up results.
+ */
+export class AgentNotImplementedError extends Error {
+  constructor(task: string, integration: string) {
+    super(`${task} is not implemented: it needs the ${integration} integration`);
+    this.name = 'AgentNotImplementedError';
+  }
+}
+
+/**
+ * What a task does outside NeonHub: spend money, contact customers or publish
+ * content. Such tasks only run once a person (or an auto-approve policy) approved them.
+ */
+export const AgentSideEffectSchema = z.enum(['spend', 'contact', 'publish']);
+
+export type AgentSideEffect = z.infer<typeof AgentSideEffectSchema>;
+
+/**
+ * Zod schemas for what one task accepts in `payload.context` and returns in `result.data`.
+ */
+export interface AgentTaskDefinition<
+  Input extends z.ZodTypeAny = z.ZodTypeAny,
+  Output extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  input: Input;
+  output: Output;
+  sideEffect?: AgentSideEffect;
+}
+
+export type AgentTaskDefinitions = Record<string, AgentTaskDefinition>;
+
+/**
+ * Declares an agent's tasks; keeps the literal task names and schema types for TaskMap.
+ */
+export function defineAgentTasks<Tasks extends AgentTaskDefinitions>(tasks: Tasks): Tasks {
+  return tasks;
+}
+
+/** A task's input after defaults are applied, as handed to its handler */
+export type AgentTaskInput<
+  Tasks extends AgentTaskDefinitions,
+  Task extends keyof Tasks,
+> = z.output<Tasks[Task]['input']>;
+
+/** What a task's handler returns, before the output schema applies defaults */
+export type AgentTaskOutput<
+  Tasks extends AgentTaskDefinitions,
+  Task extends keyof Tasks,
+> = z.input<Tasks[Task]['output']>;
+
+export type AgentTaskHandlers<Tasks extends AgentTaskDefinitions> = {
+  [Task in keyof Tasks]: (
+    input: AgentTaskInput<Tasks, Task>,
+    execution: AgentExecutionContext
+  ) => Promise<AgentTaskOutput<Tasks, Task>>;
+};
+
+/**
+ * Payload fields other than the task and its input, for running a task by name.
+ */
+export interface TaskExecuteOptions extends AgentExecuteOptions {
+  priority?: AgentPriority;
+  deadline?: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export function createTaskPayload(
+  task: string,
+  input: unknown,
+  options: Omit<TaskExecuteOptions, 'signal'> = {}
+): AgentPayload {
+  return {
+    task,
+    context: (input ?? {}) as Record<string, unknown>,
+    priority: options.priority ?? 'medium',
+    ...(options.deadline && { deadline: options.deadline }),
+    ...(options.metadata && { metadata: options.metadata }),
+  };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
 export interface BaseAgent {
   id: string;
   name: string;
   type: string;
   capabilities: string[];
   
-  execute(payload: AgentPayload): Promise<AgentResult>;
+  execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult>;
   getStatus(): Promise<AgentStatus>;
   validatePayload(payload: AgentPayload): boolean;
   getCapabilities(): string[];
 }
 
-export abstract class AbstractAgent implements BaseAgent {
+export abstract class AbstractAgent<Tasks extends AgentTaskDefinitions = AgentTaskDefinitions>
+  implements BaseAgent
+{
   public readonly id: string;
   public readonly name: string;
   public readonly type: string;
@@ -52,15 +222,27 @@ export abstract class AbstractAgent implements BaseAgent {
   protected status: 'idle' | 'running' | 'error' | 'maintenance' = 'idle';
   protected lastExecution?: Date;
   protected performance?: number;
+  protected readonly llm: LLMProvider;
+  protected readonly prompts: PromptRegistry;
+  protected readonly tasks: Tasks;
 
-  constructor(id: string, name: string, type: string, capabilities: string[] = []) {
+  constructor(
+    id: string,
+    name: string,
+    type: string,
+    tasks: Tasks,
+    dependencies: AgentDependencies = {}
+  ) {
     this.id = id;
     this.name = name;
     this.type = type;
-    this.capabilities = capabilities;
+    this.tasks = tasks;
+    this.capabilities = Object.keys(tasks);
+    this.llm = dependencies.llm ?? new FixtureLLMProvider();
+    this.prompts = dependencies.prompts ?? new PromptRegistry();
   }
 
-  abstract execute(payload: AgentPayload): Promise<AgentResult>;
+  abstract execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult>;
 
   async getStatus(): Promise<AgentStatus> {
     return {
@@ -100,20 +282,97 @@ export abstract class AbstractAgent implements BaseAgent {
     this.lastExecution = date;
   }
 
+  /**
+   * Runs the handler for `payload.task` through executeWithErrorHandling.
+   * `payload.context` is parsed with the task's input schema first (failures
+   * are reported as `invalid_payload`) and the handler's return value with
+   * its output schema, so `result.data` always matches the TaskMap.
+   */
+  protected runTask(
+    payload: AgentPayload,
+    handlers: AgentTaskHandlers<Tasks>,
+    options?: AgentExecuteOptions
+  ): Promise<AgentResult> {
+    return this.executeWithErrorHandling(
+      payload,
+      async execution => {
+        const task = payload.task as keyof Tasks & string;
+        const definition = Object.prototype.hasOwnProperty.call(this.tasks, task)
+          ? this.tasks[task]
+          : undefined;
+        if (!definition) {
+          throw new AgentValidationError(`Unknown task: ${task}`);
+        }
+
+        const input = definition.input.safeParse(payload.context ?? {});
+        if (!input.success) {
+          throw new AgentValidationError(`Invalid input for ${task}: ${formatIssues(input.error)}`);
+        }
+
+        const output = definition.output.safeParse(await handlers[task](input.data, execution));
+        if (!output.success) {
+          throw new Error(`Invalid output from ${task}: ${formatIssues(output.error)}`);
+        }
+        return output.data;
+      },
+      options
+    );
+  }
+
+  /**
+   * Runs `executionFn` with payload validation, timing and error handling.
+   *
+   * The function receives an AbortSignal that fires when `payload.deadline`
+   * passes or when the caller aborts through `options.signal`; long-running
+   * work should pass it on (e.g. to fetch). The result reports why it stopped
+   * through `errorCode`, the tokens and cost of LLM calls in `metadata.llmUsage`
+   * and the prompt templates rendered in `metadata.prompts`.
+   */
   protected async executeWithErrorHandling(
     payload: AgentPayload,
-    executionFn: () => Promise<any>
+    executionFn: (execution: AgentExecutionContext) => Promise<any>,
+    options: AgentExecuteOptions = {}
   ): Promise<AgentResult> {
     const startTime = Date.now();
-    
+    const controller = new AbortController();
+    const llm = new MeteredLLMProvider(this.llm, controller.signal);
+    const prompts = this.prompts.scope();
+    let deadlineTimer: NodeJS.Timeout | undefined;
+
+    const onCallerAbort = (): void => {
+      const reason: unknown = options.signal?.reason;
+      controller.abort(reason instanceof AgentAbortError ? reason : new AgentAbortError('cancelled'));
+    };
+
     try {
       this.setStatus('running');
       
       if (!this.validatePayload(payload)) {
-        throw new Error('Invalid payload');
+        throw new AgentValidationError('Invalid payload');
+      }
+
+      if (options.signal?.aborted) {
+        onCallerAbort();
+      } else {
+        options.signal?.addEventListener('abort', onCallerAbort, { once: true });
       }
 
-      const result = await executionFn();
+      if (payload.deadline) {
+        const remaining = payload.deadline.getTime() - Date.now();
+        if (remaining <= 0) {
+          controller.abort(new AgentAbortError('timeout', 'Deadline exceeded before execution started'));
+        } else {
+          deadlineTimer = setTimeout(
+            () => controller.abort(new AgentAbortError('timeout', 'Deadline exceeded')),
+            remaining
+          );
+        }
+      }
+
+      const result = await this.raceAbort(
+        executionFn({ signal: controller.signal, llm, prompts }),
+        controller.signal
+      );
       const executionTime = Date.now() - startTime;
       
       this.setStatus('idle');
@@ -129,24 +388,76 @@ export abstract class AbstractAgent implements BaseAgent {
           agentName: this.name,
           executionTime,
           timestamp: new Date().toISOString(),
+          ...this.usageMetadata(llm, prompts.used),
         },
       };
     } catch (error) {
-      this.setStatus('error');
+      const errorCode: AgentErrorCode =
+        error instanceof AgentAbortError
+          ? error.code
+          : error instanceof AgentValidationError
+            ? 'invalid_payload'
+            : 'execution_error';
+      // Aborts and bad input are not faults of the agent itself
+      this.setStatus(errorCode === 'execution_error' ? 'error' : 'idle');
       
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode,
         performance: Date.now() - startTime,
         metadata: {
           agentId: this.id,
           agentName: this.name,
           error: error instanceof Error ? error.stack : error,
           timestamp: new Date().toISOString(),
+          ...this.usageMetadata(llm, prompts.used),
         },
       };
+    } finally {
+      clearTimeout(deadlineTimer);
+      options.signal?.removeEventListener('abort', onCallerAbort);
     }
   }
+
+  private usageMetadata(
+    llm: MeteredLLMProvider,
+    prompts: PromptReference[]
+  ): { llmUsage?: LLMUsageSummary; prompts?: PromptReference[] } {
+    const usage = llm.usage.getTotals();
+    const unique = prompts.filter(
+      (prompt, index) => prompts.findIndex(other => other.templateId === prompt.templateId) === index
+    );
+    return {
+      ...(usage.requests > 0 ? { llmUsage: usage } : {}),
+      ...(unique.length > 0 ? { prompts: unique } : {}),
+    };
+  }
+
+  /**
+   * Settles with the abort reason as soon as the signal fires, even if the
+   * execution function ignores the signal.
+   */
+  private raceAbort<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+      work.catch(() => undefined);
+      return Promise.reject(signal.reason);
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      work.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
 }
 
 // Agent factory for creating agent instances
@@ -157,12 +468,12 @@ export class AgentFactory {
     this.agents.set(type, agentClass);
   }
 
-  static createAgent(type: string, id: string, name: string, ...args: any[]): BaseAgent {
+  static createAgent(type: string, id: string, name: string, dependencies: AgentDependencies = {}): BaseAgent {
     const AgentClass = this.agents.get(type);
     if (!AgentClass) {
       throw new Error(`Unknown agent type: ${type}`);
     }
-    return new AgentClass(id, name, type, ...args);
+    return new AgentClass(id, name, dependencies);
   }
 
   static getAvailableTypes(): string[] {
@@ -178,6 +489,14 @@ export class AgentManager {
     this.agents.set(agent.id, agent);
   }
 
+  unregisterAgent(id: string): boolean {
+    return this.agents.delete(id);
+  }
+
+  hasAgent(id: string): boolean {
+    return this.agents.has(id);
+  }
+
   getAgent(id: string): BaseAgent | undefined {
     return this.agents.get(id);
   }
@@ -186,12 +505,37 @@ export class AgentManager {
     return Array.from(this.agents.values());
   }
 
-  async executeAgent(id: string, payload: AgentPayload): Promise<AgentResult> {
-    const agent = this.getAgent(id);
+  /**
+   * Run a payload on an agent, or run a task by name on the agent with that id
+   * or type, e.g. `executeAgent('content', 'generate_posts', { platform, topic })`,
+   * with the input and `result.data` typed through the TaskMap.
+   */
+  executeAgent(id: string, payload: AgentPayload): Promise<AgentResult>;
+  executeAgent<Type extends AgentTaskType, Task extends TaskName<Type>>(
+    idOrType: Type,
+    task: Task,
+    input: TaskInput<Type, Task>,
+    options?: TaskExecuteOptions
+  ): Promise<TaskResult<Type, Task>>;
+  async executeAgent(
+    idOrType: string,
+    payloadOrTask: AgentPayload | string,
+    input?: unknown,
+    options: TaskExecuteOptions = {}
+  ): Promise<AgentResult> {
+    const agent = this.getAgent(idOrType) ?? this.getAgentsByType(idOrType)[0];
     if (!agent) {
-      throw new Error(`Agent not found: ${id}`);
+      throw new Error(`Agent not found: ${idOrType}`);
+    }
+    if (typeof payloadOrTask !== 'string') {
+      return await agent.execute(payloadOrTask);
     }
-    return await agent.execute(payload);
+
+    const { signal, ...payloadOptions } = options;
+    return await agent.execute(
+      createTaskPayload(payloadOrTask, input, payloadOptions),
+      signal ? { signal } : {}
+    );
   }
 
   async getAgentStatus(id: string): Promise<AgentStatus | null> {
@@ -0,0 +1,176 @@
+import {
+  computeBudgetReallocation,
+  getNewBudgetAlerts,
+  summarizeBudgetLedger,
+  type BudgetLedgerInput,
+  type SpendRecord,
+} from './budget-ledger';
+
+// Day 5 of a 10 day flight, at noon
+const now = new Date('2024-06-05T12:00:00Z');
+const day = (date: number): Date => new Date(Date.UTC(2024, 5, date, 9));
+
+const spend = (platform: string, amount: number, revenue: number, date = 1): SpendRecord => ({
+  platform,
+  amount,
+  revenue,
+  spentAt: day(date),
+});
+
+const ledger = (overrides: Partial<BudgetLedgerInput> = {}): BudgetLedgerInput => ({
+  budget: 1000,
+  startDate: day(1),
+  endDate: day(10),
+  allocations: [
+    { platform: 'META_ADS', amount: 600 },
+    { platform: 'GOOGLE_ADS', amount: 400 },
+  ],
+  spend: [],
+  ...overrides,
+});
+
+describe('budget ledger', () => {
+  it('totals allocations, spend and revenue per platform', () => {
+    const summary = summarizeBudgetLedger(
+      ledger({ spend: [spend('META_ADS', 200, 600), spend('GOOGLE_ADS', 100, 150, 2)] }),
+      now
+    );
+
+    expect(summary).toMatchObject({
+      totalBudget: 1000,
+      allocated: 1000,
+      unallocated: 0,
+      spent: 300,
+      revenue: 750,
+      remaining: 700,
+      roas: 2.5,
+      daysRemaining: 6,
+    });
+    expect(summary.platforms.find(platform => platform.platform === 'META_ADS')).toMatchObject({
+      allocated: 600,
+      spent: 200,
+      remaining: 400,
+      roas: 3,
+    });
+  });
+
+  it('paces spend against an even split of the flight', () => {
+    const summary = summarizeBudgetLedger(
+      ledger({ spend: [spend('META_ADS', 270, 0), spend('GOOGLE_ADS', 100, 0)] }),
+      now
+    );
+    const [meta, google] = summary.platforms;
+
+    // 4.5 of 10 days have passed
+    expect(meta?.pacing).toMatchObject({ expectedToDate: 270, paceRatio: 1, status: 'on_track' });
+    expect(google?.pacing).toMatchObject({ expectedToDate: 180, status: 'behind' });
+    expect(summary.pacing?.dailyTarget).toBe(105);
+  });
+
+  it('charts a daily burn-down up to today', () => {
+    const summary = summarizeBudgetLedger(
+      ledger({ spend: [spend('META_ADS', 100, 0, 1), spend('META_ADS', 50, 0, 3)] }),
+      now
+    );
+
+    expect(summary.burnDown).toHaveLength(5);
+    expect(summary.burnDown[0]).toEqual({
+      date: '2024-06-01',
+      spent: 100,
+      remaining: 900,
+      ideal: 900,
+    });
+    expect(summary.burnDown[4]).toEqual({
+      date: '2024-06-05',
+      spent: 150,
+      remaining: 850,
+      ideal: 500,
+    });
+  });
+
+  it('does not pace campaigns without an end date', () => {
+    const summary = summarizeBudgetLedger(ledger({ endDate: null }), now);
+
+    expect(summary.pacing).toBeNull();
+    expect(summary.daysRemaining).toBeNull();
+    expect(summary.burnDown[0]?.ideal).toBeNull();
+  });
+
+  it('raises overspend alerts once', () => {
+    const before = summarizeBudgetLedger(ledger({ spend: [spend('GOOGLE_ADS', 150, 0)] }), now);
+    const after = summarizeBudgetLedger(
+      ledger({ spend: [spend('GOOGLE_ADS', 150, 0), spend('GOOGLE_ADS', 300, 0, 4)] }),
+      now
+    );
+
+    expect(before.alerts).toEqual([]);
+    expect(after.alerts).toEqual([
+      expect.objectContaining({
+        kind: 'over_budget',
+        platform: 'GOOGLE_ADS',
+        amount: 450,
+        limit: 400,
+      }),
+    ]);
+    expect(getNewBudgetAlerts(before.alerts, after.alerts)).toHaveLength(1);
+    expect(getNewBudgetAlerts(after.alerts, after.alerts)).toEqual([]);
+  });
+
+  it('flags spend running ahead of pace and allocations over the budget', () => {
+    const summary = summarizeBudgetLedger(
+      ledger({
+        allocations: [
+          { platform: 'META_ADS', amount: 800 },
+          { platform: 'GOOGLE_ADS', amount: 400 },
+        ],
+        spend: [spend('META_ADS', 600, 0)],
+      }),
+      now
+    );
+
+    expect(summary.alerts.map(alert => [alert.kind, alert.platform])).toEqual([
+      ['over_allocated', null],
+      ['ahead_of_pace', 'META_ADS'],
+    ]);
+  });
+});
+
+describe('budget reallocation', () => {
+  it('moves budget towards the platform with the better ROAS', () => {
+    const { allocations, changes } = computeBudgetReallocation([
+      { platform: 'META_ADS', allocated: 500, spent: 200, revenue: 800 },
+      { platform: 'GOOGLE_ADS', allocated: 500, spent: 200, revenue: 200 },
+    ]);
+
+    expect(allocations.META_ADS).toBeGreaterThan(500);
+    expect(allocations.GOOGLE_ADS).toBeLessThan(500);
+    expect((allocations.META_ADS ?? 0) + (allocations.GOOGLE_ADS ?? 0)).toBeCloseTo(1000);
+    expect(changes[0]).toMatchObject({ platform: 'META_ADS', from: 500, roas: 4 });
+  });
+
+  it('keeps the share of platforms without enough spend to judge', () => {
+    const { allocations } = computeBudgetReallocation(
+      [
+        { platform: 'META_ADS', allocated: 400, spent: 200, revenue: 800 },
+        { platform: 'GOOGLE_ADS', allocated: 400, spent: 200, revenue: 200 },
+        { platform: 'TIKTOK', allocated: 200, spent: 10, revenue: 100 },
+      ],
+      2000
+    );
+
+    expect(allocations.TIKTOK).toBe(400);
+    expect((allocations.META_ADS ?? 0) + (allocations.GOOGLE_ADS ?? 0)).toBeCloseTo(1600);
+  });
+
+  it('splits evenly when nothing is allocated or measured yet', () => {
+    expect(
+      computeBudgetReallocation(
+        [
+          { platform: 'META_ADS', allocated: 0, spent: 0, revenue: 0 },
+          { platform: 'GOOGLE_ADS', allocated: 0, spent: 0, revenue: 0 },
+        ],
+        900
+      ).allocations
+    ).toEqual({ META_ADS: 450, GOOGLE_ADS: 450 });
+  });
+});
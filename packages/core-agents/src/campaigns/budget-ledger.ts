@@ -0,0 +1,407 @@
+/**
+ * Campaign budget ledger. A campaign's budget is split into per-platform
+ * allocations, spend is recorded against them as it happens, and the ledger
+ * summary compares both with how far the campaign is into its flight to tell
+ * whether each platform is on pace.
+ */
+export interface BudgetAllocationRecord {
+  platform: string;
+  amount: number;
+}
+
+export interface SpendRecord {
+  platform: string;
+  amount: number;
+  /** Revenue attributed to the spend, used for ROAS */
+  revenue: number;
+  spentAt: Date;
+}
+
+export interface BudgetLedgerInput {
+  /** Campaign budget; the allocations' total when the campaign has none */
+  budget: number | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  allocations: readonly BudgetAllocationRecord[];
+  spend: readonly SpendRecord[];
+}
+
+export interface BudgetLedgerOptions {
+  /** How far spend may run ahead of the pacing target before it is flagged, as a fraction */
+  paceTolerance?: number;
+}
+
+export type BudgetPaceStatus = 'on_track' | 'behind' | 'ahead' | 'over_budget';
+
+export interface BudgetPacing {
+  /** Spend expected by now if the budget is spent evenly over the flight */
+  expectedToDate: number;
+  /** Spent over expected; 1 is exactly on pace */
+  paceRatio: number | null;
+  /** What is left, spread over the remaining days */
+  dailyTarget: number;
+  status: BudgetPaceStatus;
+}
+
+export interface PlatformBudgetSummary {
+  platform: string;
+  allocated: number;
+  spent: number;
+  revenue: number;
+  remaining: number;
+  /** Revenue over spend; null before anything was spent */
+  roas: number | null;
+  /** Null when the campaign has no end date to pace against */
+  pacing: BudgetPacing | null;
+}
+
+export interface BudgetBurnDownPoint {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  /** Cumulative spend up to and including this day */
+  spent: number;
+  remaining: number;
+  /** Remaining budget if it were spent evenly; null without an end date */
+  ideal: number | null;
+}
+
+export type BudgetAlertKind = 'over_budget' | 'ahead_of_pace' | 'over_allocated';
+
+export interface BudgetAlert {
+  kind: BudgetAlertKind;
+  /** Null for alerts about the campaign as a whole */
+  platform: string | null;
+  amount: number;
+  limit: number;
+  message: string;
+}
+
+export interface BudgetLedgerSummary {
+  totalBudget: number;
+  allocated: number;
+  unallocated: number;
+  spent: number;
+  revenue: number;
+  remaining: number;
+  roas: number | null;
+  /** Days left in the flight, today included; null without an end date */
+  daysRemaining: number | null;
+  pacing: BudgetPacing | null;
+  platforms: PlatformBudgetSummary[];
+  burnDown: BudgetBurnDownPoint[];
+  alerts: BudgetAlert[];
+}
+
+export interface PlatformPerformance {
+  platform: string;
+  allocated: number;
+  spent: number;
+  revenue: number;
+}
+
+export interface BudgetReallocationOptions {
+  /** Platforms that spent less than this keep their share; their ROAS is not meaningful yet */
+  minSpend?: number;
+  /** Smallest share of the reallocated budget any measured platform is left with */
+  minShare?: number;
+  /** How far to move from the current allocation towards the ROAS-weighted one, 0 to 1 */
+  learningRate?: number;
+}
+
+export interface BudgetReallocationChange {
+  platform: string;
+  from: number;
+  to: number;
+  roas: number | null;
+}
+
+export interface BudgetReallocation {
+  allocations: Record<string, number>;
+  changes: BudgetReallocationChange[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keeps the burn-down of long or open-ended campaigns to a chartable size
+const MAX_BURN_DOWN_DAYS = 366;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const dayKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const startOfDay = (date: Date): number => Date.parse(dayKey(date));
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+interface Flight {
+  start: number;
+  /** Exclusive: the end of the end date's day */
+  end: number;
+}
+
+function getFlight(input: BudgetLedgerInput): Flight | null {
+  if (!input.endDate) return null;
+  const firstSpend = input.spend.reduce<number | null>(
+    (earliest, entry) =>
+      earliest === null ? entry.spentAt.getTime() : Math.min(earliest, entry.spentAt.getTime()),
+    null
+  );
+  const start = input.startDate ? startOfDay(input.startDate) : firstSpend;
+  if (start === null) return null;
+
+  const end = startOfDay(input.endDate) + DAY_MS;
+  return end > start ? { start, end } : null;
+}
+
+function getPacing(
+  budget: number,
+  spent: number,
+  flight: Flight | null,
+  now: Date,
+  tolerance: number
+): BudgetPacing | null {
+  if (!flight) return null;
+
+  const progress = Math.min(
+    1,
+    Math.max(0, (now.getTime() - flight.start) / (flight.end - flight.start))
+  );
+  const daysRemaining = Math.max(0, Math.ceil((flight.end - now.getTime()) / DAY_MS));
+  const remaining = Math.max(0, budget - spent);
+  const expectedToDate = budget * progress;
+  const paceRatio = ratio(spent, expectedToDate);
+
+  let status: BudgetPaceStatus = 'on_track';
+  if (budget > 0 && spent > budget) status = 'over_budget';
+  else if (paceRatio !== null && paceRatio > 1 + tolerance) status = 'ahead';
+  else if (paceRatio !== null && paceRatio < 1 - tolerance) status = 'behind';
+
+  return {
+    expectedToDate: roundMoney(expectedToDate),
+    paceRatio,
+    dailyTarget: roundMoney(daysRemaining > 0 ? remaining / daysRemaining : 0),
+    status,
+  };
+}
+
+function getBurnDown(
+  input: BudgetLedgerInput,
+  totalBudget: number,
+  flight: Flight | null,
+  now: Date
+): BudgetBurnDownPoint[] {
+  const spentByDay = new Map<string, number>();
+  for (const entry of input.spend) {
+    const key = dayKey(entry.spentAt);
+    spentByDay.set(key, (spentByDay.get(key) ?? 0) + entry.amount);
+  }
+
+  const firstDay = flight?.start ?? (input.startDate ? startOfDay(input.startDate) : null);
+  if (firstDay === null) return [];
+  const lastDay = Math.min(startOfDay(now), flight ? flight.end - DAY_MS : startOfDay(now));
+  const flightDays = flight ? (flight.end - flight.start) / DAY_MS : null;
+
+  // Spend recorded before the first charted day still counts towards the total
+  let spent = [...spentByDay].reduce(
+    (sum, [day, amount]) => (Date.parse(day) < firstDay ? sum + amount : sum),
+    0
+  );
+  const points: BudgetBurnDownPoint[] = [];
+  for (
+    let day = firstDay, index = 0;
+    day <= lastDay && index < MAX_BURN_DOWN_DAYS;
+    day += DAY_MS, index++
+  ) {
+    const date = dayKey(new Date(day));
+    spent += spentByDay.get(date) ?? 0;
+    points.push({
+      date,
+      spent: roundMoney(spent),
+      remaining: roundMoney(totalBudget - spent),
+      ideal: flightDays === null ? null : roundMoney(totalBudget * (1 - (index + 1) / flightDays)),
+    });
+  }
+  return points;
+}
+
+function getAlerts(
+  summary: Omit<BudgetLedgerSummary, 'alerts' | 'burnDown'>,
+  budget: number | null
+): BudgetAlert[] {
+  const alerts: BudgetAlert[] = [];
+
+  if (budget !== null && summary.allocated > budget) {
+    alerts.push({
+      kind: 'over_allocated',
+      platform: null,
+      amount: summary.allocated,
+      limit: budget,
+      message: `Allocations total ${summary.allocated.toFixed(2)}, more than the budget of ${budget.toFixed(2)}`,
+    });
+  }
+  if (summary.totalBudget > 0 && summary.spent > summary.totalBudget) {
+    alerts.push({
+      kind: 'over_budget',
+      platform: null,
+      amount: summary.spent,
+      limit: summary.totalBudget,
+      message: `Campaign spent ${summary.spent.toFixed(2)} of a ${summary.totalBudget.toFixed(2)} budget`,
+    });
+  }
+
+  for (const platform of summary.platforms) {
+    if (platform.spent > platform.allocated) {
+      alerts.push({
+        kind: 'over_budget',
+        platform: platform.platform,
+        amount: platform.spent,
+        limit: platform.allocated,
+        message: `${platform.platform} spent ${platform.spent.toFixed(2)} of ${platform.allocated.toFixed(2)} allocated`,
+      });
+    } else if (platform.pacing?.status === 'ahead') {
+      alerts.push({
+        kind: 'ahead_of_pace',
+        platform: platform.platform,
+        amount: platform.spent,
+        limit: platform.pacing.expectedToDate,
+        message: `${platform.platform} spent ${platform.spent.toFixed(2)}, ahead of the ${platform.pacing.expectedToDate.toFixed(2)} expected by now`,
+      });
+    }
+  }
+  return alerts;
+}
+
+/**
+ * Totals, per-platform pacing, a daily burn-down and overspend alerts for a
+ * campaign's ledger at `now`. Pacing assumes the budget is spent evenly from
+ * the start date (or the first spend) through the end of the end date.
+ */
+export function summarizeBudgetLedger(
+  input: BudgetLedgerInput,
+  now: Date = new Date(),
+  options: BudgetLedgerOptions = {}
+): BudgetLedgerSummary {
+  const tolerance = options.paceTolerance ?? 0.2;
+  const flight = getFlight(input);
+
+  const byPlatform = new Map<string, PlatformPerformance>();
+  const platformEntry = (platform: string): PlatformPerformance => {
+    let entry = byPlatform.get(platform);
+    if (!entry) {
+      entry = { platform, allocated: 0, spent: 0, revenue: 0 };
+      byPlatform.set(platform, entry);
+    }
+    return entry;
+  };
+  for (const allocation of input.allocations)
+    platformEntry(allocation.platform).allocated += allocation.amount;
+  for (const entry of input.spend) {
+    const platform = platformEntry(entry.platform);
+    platform.spent += entry.amount;
+    platform.revenue += entry.revenue;
+  }
+
+  const platforms = [...byPlatform.values()].map(
+    ({ platform, allocated, spent, revenue }): PlatformBudgetSummary => ({
+      platform,
+      allocated: roundMoney(allocated),
+      spent: roundMoney(spent),
+      revenue: roundMoney(revenue),
+      remaining: roundMoney(allocated - spent),
+      roas: ratio(revenue, spent),
+      pacing: getPacing(allocated, spent, flight, now, tolerance),
+    })
+  );
+
+  const allocated = platforms.reduce((sum, platform) => sum + platform.allocated, 0);
+  const spent = platforms.reduce((sum, platform) => sum + platform.spent, 0);
+  const revenue = platforms.reduce((sum, platform) => sum + platform.revenue, 0);
+  const totalBudget = input.budget ?? allocated;
+  const pacing = getPacing(totalBudget, spent, flight, now, tolerance);
+
+  const summary = {
+    totalBudget: roundMoney(totalBudget),
+    allocated: roundMoney(allocated),
+    unallocated: roundMoney(Math.max(0, totalBudget - allocated)),
+    spent: roundMoney(spent),
+    revenue: roundMoney(revenue),
+    remaining: roundMoney(totalBudget - spent),
+    roas: ratio(revenue, spent),
+    daysRemaining: flight ? Math.max(0, Math.ceil((flight.end - now.getTime()) / DAY_MS)) : null,
+    pacing,
+    platforms,
+  };
+
+  return {
+    ...summary,
+    burnDown: getBurnDown(input, totalBudget, flight, now),
+    alerts: getAlerts(summary, input.budget),
+  };
+}
+
+/**
+ * Alerts in `after` that `before` did not have, so each overspend is raised
+ * once, when the spend that caused it is recorded.
+ */
+export function getNewBudgetAlerts(
+  before: readonly BudgetAlert[],
+  after: readonly BudgetAlert[]
+): BudgetAlert[] {
+  const seen = new Set(before.map(alert => `${alert.kind}:${alert.platform ?? ''}`));
+  return after.filter(alert => !seen.has(`${alert.kind}:${alert.platform ?? ''}`));
+}
+
+/**
+ * Shift budget between platforms towards those with the better return on ad
+ * spend. Platforms that have not spent `minSpend` yet keep their share; the
+ * rest of the budget is split by ROAS, with every measured platform keeping
+ * at least `minShare` of it, and the result is blended with the current
+ * allocation by `learningRate` so one noisy period does not move everything.
+ *
+ * With `totalBudget` the current allocations are scaled to it first; with no
+ * allocations at all the budget starts out split evenly.
+ */
+export function computeBudgetReallocation(
+  platforms: readonly PlatformPerformance[],
+  totalBudget?: number,
+  options: BudgetReallocationOptions = {}
+): BudgetReallocation {
+  const minSpend = options.minSpend ?? 50;
+  const learningRate = Math.min(1, Math.max(0, options.learningRate ?? 0.5));
+
+  const currentTotal = platforms.reduce((sum, platform) => sum + platform.allocated, 0);
+  const total = totalBudget ?? currentTotal;
+  const base = platforms.map(platform =>
+    currentTotal > 0 ? (platform.allocated * total) / currentTotal : total / platforms.length
+  );
+
+  const measured = platforms
+    .map((platform, index) => ({ index, roas: ratio(platform.revenue, platform.spent) }))
+    .filter(({ index, roas }) => roas !== null && (platforms[index]?.spent ?? 0) >= minSpend);
+  const roasTotal = measured.reduce((sum, { roas }) => sum + (roas ?? 0), 0);
+
+  const next = [...base];
+  // Shares only move when there are at least two platforms to compare
+  if (measured.length >= 2 && roasTotal > 0) {
+    const pool = measured.reduce((sum, { index }) => sum + (base[index] ?? 0), 0);
+    const floor = Math.min(options.minShare ?? 0.05, 1 / measured.length);
+    for (const { index, roas } of measured) {
+      const target = pool * (floor + (1 - measured.length * floor) * ((roas ?? 0) / roasTotal));
+      const current = base[index] ?? 0;
+      next[index] = current + learningRate * (target - current);
+    }
+  }
+
+  const allocations: Record<string, number> = {};
+  const changes = platforms.map((platform, index): BudgetReallocationChange => {
+    const to = roundMoney(next[index] ?? 0);
+    allocations[platform.platform] = to;
+    return {
+      platform: platform.platform,
+      from: roundMoney(platform.allocated),
+      to,
+      roas: ratio(platform.revenue, platform.spent),
+    };
+  });
+  return { allocations, changes };
+}
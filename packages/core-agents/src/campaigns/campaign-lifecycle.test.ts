@@ -0,0 +1,98 @@
+import {
+  checkCampaignTransition,
+  getDueCampaignTransition,
+  isTerminalCampaignStatus,
+  type CampaignLifecycleState,
+} from './campaign-lifecycle';
+
+const now = new Date('2024-06-15T12:00:00Z');
+const days = (offset: number): Date => new Date(now.getTime() + offset * 24 * 60 * 60 * 1000);
+
+const campaign = (overrides: Partial<CampaignLifecycleState> = {}): CampaignLifecycleState => ({
+  status: 'DRAFT',
+  budget: 1000,
+  platforms: ['INSTAGRAM'],
+  startDate: days(1),
+  endDate: days(30),
+  ...overrides,
+});
+
+describe('campaign lifecycle', () => {
+  it('allows only legal transitions', () => {
+    expect(checkCampaignTransition(campaign(), 'SCHEDULED', now)).toEqual({ allowed: true });
+    expect(checkCampaignTransition(campaign({ status: 'ACTIVE' }), 'PAUSED', now)).toEqual({
+      allowed: true,
+    });
+
+    expect(checkCampaignTransition(campaign(), 'PAUSED', now)).toMatchObject({
+      allowed: false,
+      reason: 'illegal_transition',
+    });
+    expect(checkCampaignTransition(campaign({ status: 'COMPLETED' }), 'ACTIVE', now)).toMatchObject(
+      { allowed: false, reason: 'illegal_transition' }
+    );
+    expect(isTerminalCampaignStatus('CANCELLED')).toBe(true);
+    expect(isTerminalCampaignStatus('PAUSED')).toBe(false);
+  });
+
+  it('cannot activate a campaign without budget and platforms', () => {
+    const check = checkCampaignTransition(campaign({ budget: null, platforms: [] }), 'ACTIVE', now);
+
+    expect(check).toEqual({
+      allowed: false,
+      reason: 'guard_failed',
+      problems: ['Campaign needs a budget', 'Campaign needs at least one platform'],
+    });
+  });
+
+  it('cannot activate a campaign whose end date has passed', () => {
+    const check = checkCampaignTransition(
+      campaign({ status: 'PAUSED', startDate: days(-10), endDate: days(-1) }),
+      'ACTIVE',
+      now
+    );
+
+    expect(check).toMatchObject({ allowed: false, problems: ['End date has already passed'] });
+  });
+
+  it('only schedules campaigns that start in the future', () => {
+    expect(checkCampaignTransition(campaign({ startDate: null }), 'SCHEDULED', now)).toMatchObject({
+      allowed: false,
+      problems: ['Campaign needs a start date to be scheduled'],
+    });
+    expect(
+      checkCampaignTransition(campaign({ startDate: days(-1) }), 'SCHEDULED', now)
+    ).toMatchObject({ allowed: false, problems: ['Start date has already passed'] });
+  });
+
+  it('does not guard pausing, completing or cancelling', () => {
+    const running = campaign({ status: 'ACTIVE', budget: null, platforms: [] });
+
+    expect(checkCampaignTransition(running, 'PAUSED', now)).toEqual({ allowed: true });
+    expect(checkCampaignTransition(running, 'COMPLETED', now)).toEqual({ allowed: true });
+    expect(checkCampaignTransition(running, 'CANCELLED', now)).toEqual({ allowed: true });
+  });
+
+  it('starts scheduled campaigns at their start date', () => {
+    expect(getDueCampaignTransition(campaign({ status: 'SCHEDULED' }), now)).toBeNull();
+    expect(
+      getDueCampaignTransition(campaign({ status: 'SCHEDULED', startDate: days(-1) }), now)
+    ).toEqual({ to: 'ACTIVE', reason: 'start_date_reached' });
+    // Drafts wait until someone schedules them
+    expect(getDueCampaignTransition(campaign({ startDate: days(-1) }), now)).toBeNull();
+  });
+
+  it('completes campaigns at their end date', () => {
+    for (const status of ['SCHEDULED', 'ACTIVE', 'PAUSED'] as const) {
+      expect(
+        getDueCampaignTransition(campaign({ status, startDate: days(-30), endDate: now }), now)
+      ).toEqual({ to: 'COMPLETED', reason: 'end_date_reached' });
+    }
+    expect(
+      getDueCampaignTransition(campaign({ status: 'ACTIVE', startDate: days(-30) }), now)
+    ).toBeNull();
+    expect(
+      getDueCampaignTransition(campaign({ status: 'CANCELLED', endDate: days(-1) }), now)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Campaign lifecycle. A campaign is planned as a DRAFT, SCHEDULED to start at
+ * its start date, ACTIVE while it runs and PAUSED in between; COMPLETED and
+ * CANCELLED are final.
+ */
+export const CAMPAIGN_STATUSES = [
+  'DRAFT',
+  'SCHEDULED',
+  'ACTIVE',
+  'PAUSED',
+  'COMPLETED',
+  'CANCELLED',
+] as const;
+
+export type CampaignLifecycleStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+export const CAMPAIGN_TRANSITIONS: Record<
+  CampaignLifecycleStatus,
+  readonly CampaignLifecycleStatus[]
+> = {
+  DRAFT: ['SCHEDULED', 'ACTIVE', 'CANCELLED'],
+  SCHEDULED: ['DRAFT', 'ACTIVE', 'COMPLETED', 'CANCELLED'],
+  ACTIVE: ['PAUSED', 'COMPLETED', 'CANCELLED'],
+  PAUSED: ['ACTIVE', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+/** What the guards look at */
+export interface CampaignLifecycleState {
+  status: CampaignLifecycleStatus;
+  budget: number | null;
+  platforms: readonly string[];
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+export type CampaignTransitionCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'illegal_transition' | 'guard_failed'; problems: string[] };
+
+/** A transition the scheduler makes because one of the campaign's dates has passed */
+export interface DueCampaignTransition {
+  to: 'ACTIVE' | 'COMPLETED';
+  reason: 'start_date_reached' | 'end_date_reached';
+}
+
+export function isCampaignStatus(value: string): value is CampaignLifecycleStatus {
+  return (CAMPAIGN_STATUSES as readonly string[]).includes(value);
+}
+
+export function isTerminalCampaignStatus(status: CampaignLifecycleStatus): boolean {
+  return CAMPAIGN_TRANSITIONS[status].length === 0;
+}
+
+/** Problems that keep a campaign from running; empty when it is ready */
+export function getLaunchProblems(campaign: CampaignLifecycleState, now: Date): string[] {
+  const problems: string[] = [];
+
+  if (!campaign.budget || campaign.budget <= 0) problems.push('Campaign needs a budget');
+  if (campaign.platforms.length === 0) problems.push('Campaign needs at least one platform');
+  if (campaign.startDate && campaign.endDate && campaign.endDate <= campaign.startDate) {
+    problems.push('End date must be after the start date');
+  }
+  if (campaign.endDate && campaign.endDate <= now) problems.push('End date has already passed');
+  return problems;
+}
+
+/**
+ * Whether `campaign` may move to `to`: the transition has to be legal, and
+ * scheduling or activating a campaign requires it to be ready to run.
+ */
+export function checkCampaignTransition(
+  campaign: CampaignLifecycleState,
+  to: CampaignLifecycleStatus,
+  now: Date = new Date()
+): CampaignTransitionCheck {
+  if (!CAMPAIGN_TRANSITIONS[campaign.status].includes(to)) {
+    return {
+      allowed: false,
+      reason: 'illegal_transition',
+      problems: [`Cannot change a ${campaign.status} campaign to ${to}`],
+    };
+  }
+
+  const problems: string[] = [];
+  if (to === 'SCHEDULED' || to === 'ACTIVE') problems.push(...getLaunchProblems(campaign, now));
+  if (to === 'SCHEDULED') {
+    if (!campaign.startDate) problems.push('Campaign needs a start date to be scheduled');
+    else if (campaign.startDate <= now) problems.push('Start date has already passed');
+  }
+
+  return problems.length > 0
+    ? { allowed: false, reason: 'guard_failed', problems }
+    : { allowed: true };
+}
+
+/**
+ * The transition a campaign is due for at `now`: scheduled campaigns start at
+ * their start date, and running or scheduled ones complete at their end date.
+ * Null when nothing is due.
+ */
+export function getDueCampaignTransition(
+  campaign: CampaignLifecycleState,
+  now: Date = new Date()
+): DueCampaignTransition | null {
+  const { status, startDate, endDate } = campaign;
+
+  if (
+    endDate &&
+    endDate <= now &&
+    (status === 'SCHEDULED' || status === 'ACTIVE' || status === 'PAUSED')
+  ) {
+    return { to: 'COMPLETED', reason: 'end_date_reached' };
+  }
+  if (status === 'SCHEDULED' && startDate && startDate <= now) {
+    return { to: 'ACTIVE', reason: 'start_date_reached' };
+  }
+  return null;
+}
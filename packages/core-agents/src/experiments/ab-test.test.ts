@@ -0,0 +1,160 @@
+import {
+  ABTestSettingsSchema,
+  assignVariant,
+  betaBinomialAnalysis,
+  evaluateABTest,
+  sequentialBoundary,
+  twoProportionZTest,
+  type ABTestSettings,
+  type ABTestVariant,
+} from './ab-test';
+
+const variants: ABTestVariant[] = [
+  { id: 'control', weight: 1 },
+  { id: 'treatment', weight: 1 },
+];
+
+const settings = (overrides: Record<string, unknown> = {}): ABTestSettings =>
+  ABTestSettingsSchema.parse({ minSamplePerVariant: 100, maxSamplePerVariant: 1000, ...overrides });
+
+describe('A/B test assignment', () => {
+  it('always gives a unit the same variant', () => {
+    const first = assignVariant('test_1', 'user_42', variants);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(assignVariant('test_1', 'user_42', variants)).toBe(first);
+    }
+  });
+
+  it('splits units by weight', () => {
+    const weighted = [
+      { id: 'a', weight: 3 },
+      { id: 'b', weight: 1 },
+    ];
+    const counts = { a: 0, b: 0 };
+    for (let unit = 0; unit < 10_000; unit++) {
+      counts[assignVariant('test_2', `user_${unit}`, weighted) as 'a' | 'b']++;
+    }
+
+    expect(counts.a / 10_000).toBeCloseTo(0.75, 1);
+  });
+
+  it('needs variants to assign', () => {
+    expect(() => assignVariant('test_3', 'user_1', [])).toThrow('has no variants');
+  });
+});
+
+describe('A/B test analysis', () => {
+  it('runs a two-proportion z-test', () => {
+    const test = twoProportionZTest(
+      { variantId: 'control', exposures: 1000, conversions: 100 },
+      { variantId: 'treatment', exposures: 1000, conversions: 130 }
+    );
+
+    expect(test.zScore).toBeCloseTo(2.1, 1);
+    expect(test.pValue).toBeCloseTo(0.0355, 2);
+    expect(test.lift).toBeCloseTo(0.3);
+  });
+
+  it('estimates which variant is best from Beta posteriors', () => {
+    const [control, treatment] = betaBinomialAnalysis(
+      [
+        { variantId: 'control', exposures: 1000, conversions: 100 },
+        { variantId: 'treatment', exposures: 1000, conversions: 150 },
+      ],
+      { samples: 5000 }
+    );
+
+    expect(treatment?.probabilityBest).toBeGreaterThan(0.99);
+    expect(control?.expectedLoss).toBeGreaterThan(treatment?.expectedLoss ?? 1);
+    expect(treatment?.posteriorMean).toBeCloseTo(151 / 1002);
+  });
+
+  it('asks for more evidence on early looks', () => {
+    expect(sequentialBoundary(0.05, 1)).toBeCloseTo(1.96, 2);
+    expect(sequentialBoundary(0.05, 0.25)).toBeCloseTo(3.92, 2);
+  });
+});
+
+describe('A/B test decisions', () => {
+  it('waits for the minimum sample', () => {
+    const evaluation = evaluateABTest(
+      variants,
+      [
+        { variantId: 'control', exposures: 50, conversions: 1 },
+        { variantId: 'treatment', exposures: 50, conversions: 40 },
+      ],
+      settings()
+    );
+
+    expect(evaluation.decision).toEqual({
+      status: 'continue',
+      reason: 'collecting_minimum_sample',
+    });
+  });
+
+  it('does not stop on a lift the sequential boundary does not allow yet', () => {
+    const evaluation = evaluateABTest(
+      variants,
+      [
+        { variantId: 'control', exposures: 200, conversions: 20 },
+        { variantId: 'treatment', exposures: 200, conversions: 32 },
+      ],
+      settings()
+    );
+
+    // p < 0.05 on a fixed-horizon test, but this is an early look
+    expect(evaluation.comparisons[0]?.pValue).toBeLessThan(0.1);
+    expect(evaluation.decision.status).toBe('continue');
+  });
+
+  it('declares a significantly better variant the winner', () => {
+    const evaluation = evaluateABTest(
+      variants,
+      [
+        { variantId: 'control', exposures: 1000, conversions: 100 },
+        { variantId: 'treatment', exposures: 1000, conversions: 160 },
+      ],
+      settings()
+    );
+
+    expect(evaluation.decision).toMatchObject({ status: 'winner', winner: 'treatment' });
+    expect(
+      evaluation.decision.status === 'winner' && evaluation.decision.confidence
+    ).toBeGreaterThan(0.99);
+  });
+
+  it('declares a winner by posterior probability in Bayesian mode', () => {
+    const evaluation = evaluateABTest(
+      variants,
+      [
+        { variantId: 'control', exposures: 800, conversions: 160 },
+        { variantId: 'treatment', exposures: 800, conversions: 100 },
+      ],
+      settings({ method: 'bayesian', expectedLossThreshold: 0.005 }),
+      { samples: 5000 }
+    );
+
+    expect(evaluation.decision).toMatchObject({
+      status: 'winner',
+      winner: 'control',
+      reason: 'probability_threshold_reached',
+    });
+  });
+
+  it('calls a test without a winner at its planned sample inconclusive', () => {
+    const evaluation = evaluateABTest(
+      variants,
+      [
+        { variantId: 'control', exposures: 1000, conversions: 100 },
+        { variantId: 'treatment', exposures: 1000, conversions: 104 },
+      ],
+      settings()
+    );
+
+    expect(evaluation.decision).toEqual({
+      status: 'inconclusive',
+      reason: 'planned_sample_reached',
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import { createRandom, hashString, normalCdf, normalQuantile, sampleBeta } from './statistics';
+
+export const ABTestVariantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  /** Relative share of traffic the variant gets */
+  weight: z.number().positive().default(1),
+  /** What is being tested, e.g. the post copy or ad creative */
+  content: z.unknown().optional(),
+});
+
+export const ABTestSettingsSchema = z.object({
+  method: z.enum(['frequentist', 'bayesian']).default('frequentist'),
+  /** Variant the others are compared with; the first one when not set */
+  controlId: z.string().optional(),
+  /** Two-sided significance level of the frequentist test, split across comparisons */
+  alpha: z.number().gt(0).lt(0.5).default(0.05),
+  /** No decision is made before every variant has this many exposures */
+  minSamplePerVariant: z.number().int().min(1).default(100),
+  /** Planned exposures per variant; a test without a winner by then is inconclusive */
+  maxSamplePerVariant: z.number().int().min(1).default(10_000),
+  /** Bayesian: how likely the leading variant has to be the best one */
+  probabilityThreshold: z.number().gt(0.5).lt(1).default(0.95),
+  /** Bayesian: conversion rate the leader may still lose if it is not the best */
+  expectedLossThreshold: z.number().min(0).default(0.001),
+  /** Write the winner to the test and complete it as soon as one is found */
+  autoDeclare: z.boolean().default(true),
+});
+
+export type ABTestVariant = z.infer<typeof ABTestVariantSchema>;
+export type ABTestSettings = z.infer<typeof ABTestSettingsSchema>;
+
+export interface VariantStats {
+  variantId: string;
+  /** Units that saw the variant */
+  exposures: number;
+  /** Exposed units that converted */
+  conversions: number;
+}
+
+export interface ProportionTest {
+  variantId: string;
+  controlId: string;
+  rate: number;
+  controlRate: number;
+  /** Relative change over the control rate; null while the control has no conversions */
+  lift: number | null;
+  zScore: number;
+  pValue: number;
+}
+
+export interface BayesianVariantResult {
+  variantId: string;
+  /** Posterior mean of the conversion rate */
+  posteriorMean: number;
+  probabilityBest: number;
+  /** Conversion rate given up by picking this variant if another one is better */
+  expectedLoss: number;
+}
+
+export interface BetaBinomialOptions {
+  samples?: number;
+  seed?: number | string;
+  priorAlpha?: number;
+  priorBeta?: number;
+}
+
+export type ABTestDecision =
+  | { status: 'continue'; reason: string }
+  | { status: 'winner'; winner: string; confidence: number; reason: string }
+  | { status: 'inconclusive'; reason: string };
+
+export interface ABTestEvaluation {
+  method: ABTestSettings['method'];
+  decision: ABTestDecision;
+  variants: Array<VariantStats & { rate: number }>;
+  /** Every variant against the control */
+  comparisons: ProportionTest[];
+  bayesian: BayesianVariantResult[];
+  /** Smallest variant sample over the planned one, 0 to 1 */
+  informationFraction: number;
+  /** |z| a comparison has to reach at this point of the test */
+  boundary: number;
+}
+
+const rate = (stats: VariantStats): number =>
+  stats.exposures > 0 ? stats.conversions / stats.exposures : 0;
+
+/**
+ * Give generated variants ids that are usable as A/B test variant ids: ids
+ * that are missing or repeated are replaced with `variant_a`, `variant_b`, ...
+ */
+export function withVariantIds<Variant extends { id?: string }>(
+  variants: readonly Variant[]
+): Array<Variant & { id: string }> {
+  const seen = new Set<string>();
+  return variants.map((variant, index) => {
+    const id = variant.id?.trim();
+    const unique = id && !seen.has(id) ? id : `variant_${String.fromCharCode(97 + (index % 26))}`;
+    seen.add(unique);
+    return { ...variant, id: unique };
+  });
+}
+
+/**
+ * The variant a unit (user, session, lead) sees. The same unit always gets
+ * the same variant of a test, and units spread over the variants by weight.
+ */
+export function assignVariant(
+  testId: string,
+  unitId: string,
+  variants: ReadonlyArray<Pick<ABTestVariant, 'id' | 'weight'>>
+): string {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const bucket = (hashString(`${testId}:${unitId}`) / 4294967296) * total;
+  let cumulative = 0;
+  let assigned: string | undefined;
+  for (const variant of variants) {
+    cumulative += variant.weight;
+    assigned = variant.id;
+    if (bucket < cumulative) break;
+  }
+
+  if (!assigned) throw new Error(`A/B test ${testId} has no variants`);
+  return assigned;
+}
+
+/** Two-sided two-proportion z-test of a variant's conversion rate against the control's */
+export function twoProportionZTest(control: VariantStats, variant: VariantStats): ProportionTest {
+  const controlRate = rate(control);
+  const variantRate = rate(variant);
+  const exposures = control.exposures + variant.exposures;
+  const pooled = exposures > 0 ? (control.conversions + variant.conversions) / exposures : 0;
+  const standardError =
+    control.exposures > 0 && variant.exposures > 0
+      ? Math.sqrt(pooled * (1 - pooled) * (1 / control.exposures + 1 / variant.exposures))
+      : 0;
+  const zScore = standardError > 0 ? (variantRate - controlRate) / standardError : 0;
+
+  return {
+    variantId: variant.variantId,
+    controlId: control.variantId,
+    rate: variantRate,
+    controlRate,
+    lift: controlRate > 0 ? (variantRate - controlRate) / controlRate : null,
+    zScore,
+    pValue: standardError > 0 ? 2 * (1 - normalCdf(Math.abs(zScore))) : 1,
+  };
+}
+
+/**
+ * Beta-Binomial posterior of each variant's conversion rate, with the chance
+ * each one is best and its expected loss estimated by Monte Carlo. A fixed
+ * seed makes the estimate the same every time for the same data.
+ */
+export function betaBinomialAnalysis(
+  stats: readonly VariantStats[],
+  options: BetaBinomialOptions = {}
+): BayesianVariantResult[] {
+  const samples = options.samples ?? 20_000;
+  const priorAlpha = options.priorAlpha ?? 1;
+  const priorBeta = options.priorBeta ?? 1;
+  const random = createRandom(options.seed ?? 'ab-test');
+
+  const arms = stats.map(variant => ({
+    variantId: variant.variantId,
+    alpha: priorAlpha + variant.conversions,
+    beta: priorBeta + variant.exposures - variant.conversions,
+    wins: 0,
+    loss: 0,
+  }));
+
+  for (let sample = 0; sample < samples; sample++) {
+    const draws = arms.map(arm => sampleBeta(arm.alpha, arm.beta, random));
+    const max = Math.max(...draws);
+    arms.forEach((arm, index) => {
+      arm.loss += max - (draws[index] ?? 0);
+    });
+    const best = arms[draws.indexOf(max)];
+    if (best) best.wins++;
+  }
+
+  return arms.map(arm => ({
+    variantId: arm.variantId,
+    posteriorMean: arm.alpha / (arm.alpha + arm.beta),
+    probabilityBest: arm.wins / samples,
+    expectedLoss: arm.loss / samples,
+  }));
+}
+
+/**
+ * |z| a two-sided test has to reach after seeing `informationFraction` of its
+ * planned sample, with an O'Brien-Fleming shaped boundary. Early looks need
+ * overwhelming evidence, so checking the test after every batch of events
+ * does not inflate the false positive rate much beyond `alpha`.
+ */
+export function sequentialBoundary(alpha: number, informationFraction: number): number {
+  const fraction = Math.min(1, Math.max(informationFraction, 1e-6));
+  return normalQuantile(1 - alpha / 2) / Math.sqrt(fraction);
+}
+
+/**
+ * Analyse a running test and decide whether it can stop. The frequentist
+ * method compares every variant with the control against the sequential
+ * boundary (Bonferroni-corrected for more than one comparison); the Bayesian
+ * one stops when the leader is likely enough the best and cheap enough to be
+ * wrong about. Either way a test that reaches its planned sample without a
+ * winner is inconclusive.
+ */
+export function evaluateABTest(
+  variants: readonly ABTestVariant[],
+  stats: readonly VariantStats[],
+  settings: ABTestSettings,
+  options: Pick<BetaBinomialOptions, 'seed' | 'samples'> = {}
+): ABTestEvaluation {
+  const byId = new Map(stats.map(entry => [entry.variantId, entry]));
+  const observed = variants.map(
+    (variant): VariantStats =>
+      byId.get(variant.id) ?? { variantId: variant.id, exposures: 0, conversions: 0 }
+  );
+  const minExposures = Math.min(...observed.map(entry => entry.exposures));
+  const informationFraction = Math.min(1, minExposures / settings.maxSamplePerVariant);
+
+  const control = observed.find(entry => entry.variantId === settings.controlId) ?? observed[0];
+  const comparisons = control
+    ? observed.filter(entry => entry !== control).map(entry => twoProportionZTest(control, entry))
+    : [];
+  const boundary = sequentialBoundary(
+    settings.alpha / Math.max(1, comparisons.length),
+    informationFraction
+  );
+  const bayesian = betaBinomialAnalysis(observed, options);
+
+  const evaluation = {
+    method: settings.method,
+    variants: observed.map(entry => ({ ...entry, rate: rate(entry) })),
+    comparisons,
+    bayesian,
+    informationFraction,
+    boundary,
+  };
+  const decide = (decision: ABTestDecision): ABTestEvaluation => ({ ...evaluation, decision });
+
+  if (observed.length < 2) return decide({ status: 'continue', reason: 'needs_two_variants' });
+  if (minExposures < settings.minSamplePerVariant) {
+    return decide({ status: 'continue', reason: 'collecting_minimum_sample' });
+  }
+
+  if (settings.method === 'bayesian') {
+    const leader = bayesian.reduce((best, entry) =>
+      entry.probabilityBest > best.probabilityBest ? entry : best
+    );
+    if (
+      leader.probabilityBest >= settings.probabilityThreshold &&
+      leader.expectedLoss <= settings.expectedLossThreshold
+    ) {
+      return decide({
+        status: 'winner',
+        winner: leader.variantId,
+        confidence: leader.probabilityBest,
+        reason: 'probability_threshold_reached',
+      });
+    }
+  } else {
+    const significant = comparisons.filter(test => Math.abs(test.zScore) >= boundary);
+    const better = significant.filter(test => test.zScore > 0);
+    if (better.length > 0) {
+      const best = better.reduce((top, test) => (test.rate > top.rate ? test : top));
+      return decide({
+        status: 'winner',
+        winner: best.variantId,
+        confidence: 1 - best.pValue,
+        reason: 'significant_lift',
+      });
+    }
+    if (control && comparisons.length > 0 && significant.length === comparisons.length) {
+      return decide({
+        status: 'winner',
+        winner: control.variantId,
+        confidence: 1 - Math.max(...comparisons.map(test => test.pValue)),
+        reason: 'control_outperforms',
+      });
+    }
+  }
+
+  return informationFraction >= 1
+    ? decide({ status: 'inconclusive', reason: 'planned_sample_reached' })
+    : decide({ status: 'continue', reason: 'no_significant_difference' });
+}
@@ -0,0 +1,67 @@
+import { BanditSettingsSchema, computeBanditAllocation, type BanditSettings } from './bandit';
+
+const variantIds = ['variant_a', 'variant_b', 'variant_c'];
+
+const settings = (overrides: Record<string, unknown> = {}): BanditSettings =>
+  BanditSettingsSchema.parse(overrides);
+
+const sum = (shares: Record<string, number>): number =>
+  Object.values(shares).reduce((total, share) => total + share, 0);
+
+describe('bandit allocation', () => {
+  it('splits traffic evenly before any rewards', () => {
+    const allocation = computeBanditAllocation(variantIds, [], settings(), { samples: 2000 });
+
+    expect(allocation.leader).toBeNull();
+    for (const share of Object.values(allocation.shares)) {
+      expect(share).toBeCloseTo(1 / 3, 1);
+    }
+    expect(sum(allocation.shares)).toBeCloseTo(1);
+  });
+
+  it('shifts traffic to the best variant with Thompson sampling', () => {
+    const allocation = computeBanditAllocation(
+      variantIds,
+      [
+        { variantId: 'variant_a', trials: 2000, rewards: 40 },
+        { variantId: 'variant_b', trials: 2000, rewards: 120 },
+        { variantId: 'variant_c', trials: 2000, rewards: 60 },
+      ],
+      settings(),
+      { samples: 2000 }
+    );
+
+    expect(allocation.leader).toBe('variant_b');
+    expect(allocation.shares.variant_b).toBeGreaterThan(0.85);
+    // Losing variants keep their minimum share
+    expect(allocation.shares.variant_a).toBeCloseTo(0.05);
+    expect(sum(allocation.shares)).toBeCloseTo(1);
+  });
+
+  it('gives the leader all but epsilon with epsilon-greedy', () => {
+    const allocation = computeBanditAllocation(
+      variantIds,
+      [
+        { variantId: 'variant_a', trials: 100, rewards: 10 },
+        { variantId: 'variant_b', trials: 100, rewards: 5 },
+      ],
+      settings({ algorithm: 'epsilon_greedy', epsilon: 0.3, minShare: 0 })
+    );
+
+    expect(allocation.shares).toEqual({
+      variant_a: expect.closeTo(0.8),
+      variant_b: expect.closeTo(0.1),
+      variant_c: expect.closeTo(0.1),
+    });
+  });
+
+  it('caps rewards at the number of trials', () => {
+    const allocation = computeBanditAllocation(
+      ['variant_a'],
+      [{ variantId: 'variant_a', trials: 10, rewards: 25 }],
+      settings()
+    );
+
+    expect(allocation.arms[0]).toMatchObject({ rewards: 10, rate: 1 });
+  });
+});
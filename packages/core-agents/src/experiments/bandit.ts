@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { betaBinomialAnalysis, type BetaBinomialOptions } from './ab-test';
+
+export const BanditSettingsSchema = z.object({
+  algorithm: z.enum(['thompson_sampling', 'epsilon_greedy']).default('thompson_sampling'),
+  /** Epsilon-greedy: share of traffic spread evenly to keep exploring */
+  epsilon: z.number().min(0).max(1).default(0.1),
+  /** Smallest share any variant keeps, so a variant that starts badly can recover */
+  minShare: z.number().min(0).max(0.5).default(0.05),
+  /** Key in `Analytics.data` counting the times a variant was shown */
+  trialMetric: z.string().min(1).default('impressions'),
+  /** Key in `Analytics.data` counting the rewards, e.g. clicks or conversions */
+  rewardMetric: z.string().min(1).default('clicks'),
+});
+
+export type BanditSettings = z.infer<typeof BanditSettingsSchema>;
+
+export interface BanditArmStats {
+  variantId: string;
+  trials: number;
+  rewards: number;
+}
+
+export interface BanditAllocation {
+  algorithm: BanditSettings['algorithm'];
+  /** Share of new traffic per variant id; shares add up to 1 */
+  shares: Record<string, number>;
+  /** Variant with the highest observed reward rate, null before any trials */
+  leader: string | null;
+  arms: Array<BanditArmStats & { rate: number }>;
+}
+
+/** Even split over the variants */
+function evenShares(variantIds: readonly string[]): number[] {
+  return variantIds.map(() => 1 / variantIds.length);
+}
+
+/**
+ * How a bandit splits traffic over variants given the rewards seen so far.
+ *
+ * Thompson sampling gives each variant the probability, under its Beta
+ * posterior, that it has the best reward rate. Epsilon-greedy sends
+ * `1 - epsilon` of the traffic to the current leader and spreads the rest
+ * evenly. Both keep every variant at `minShare` or more.
+ */
+export function computeBanditAllocation(
+  variantIds: readonly string[],
+  stats: readonly BanditArmStats[],
+  settings: BanditSettings,
+  options: Pick<BetaBinomialOptions, 'seed' | 'samples'> = {}
+): BanditAllocation {
+  const byId = new Map(stats.map(entry => [entry.variantId, entry]));
+  const arms = variantIds.map(variantId => {
+    const entry = byId.get(variantId);
+    const trials = Math.max(0, entry?.trials ?? 0);
+    // Platforms can report more rewards than trials (e.g. repeat clicks); cap them
+    const rewards = Math.min(trials, Math.max(0, entry?.rewards ?? 0));
+    return { variantId, trials, rewards, rate: trials > 0 ? rewards / trials : 0 };
+  });
+
+  const tried = arms.filter(arm => arm.trials > 0);
+  const leader =
+    tried.length > 0 ? tried.reduce((best, arm) => (arm.rate > best.rate ? arm : best)) : null;
+
+  let raw: number[];
+  if (arms.length === 0) {
+    raw = [];
+  } else if (settings.algorithm === 'thompson_sampling') {
+    const posterior = betaBinomialAnalysis(
+      arms.map(arm => ({
+        variantId: arm.variantId,
+        exposures: arm.trials,
+        conversions: arm.rewards,
+      })),
+      { seed: options.seed ?? 'bandit', samples: options.samples ?? 10_000 }
+    );
+    raw = posterior.map(result => result.probabilityBest);
+  } else if (!leader) {
+    raw = evenShares(variantIds);
+  } else {
+    // Ties for the lead share the exploitation traffic
+    const leaders = arms.filter(arm => arm.trials > 0 && arm.rate === leader.rate);
+    raw = arms.map(
+      arm =>
+        settings.epsilon / arms.length +
+        (leaders.includes(arm) ? (1 - settings.epsilon) / leaders.length : 0)
+    );
+  }
+
+  const floor = Math.min(settings.minShare, arms.length > 0 ? 1 / arms.length : 0);
+  const shares: Record<string, number> = {};
+  arms.forEach((arm, index) => {
+    shares[arm.variantId] = floor + (1 - floor * arms.length) * (raw[index] ?? 0);
+  });
+
+  return {
+    algorithm: settings.algorithm,
+    shares,
+    leader: leader?.variantId ?? null,
+    arms,
+  };
+}
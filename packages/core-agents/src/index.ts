@@ -9,17 +9,109 @@ export * from './agents/trend-agent';
 export * from './agents/insight-agent';
 export * from './agents/design-agent';
 export * from './agents/ui-refinement-agent';
+export * from './agents/email-agent';
+export * from './agents/seo-agent';
+export * from './agents/social-agent';
+export * from './agents/support-agent';
 
 // Agent Manager and Factory
 export { AgentManager, AgentFactory } from './base-agent';
 
 // Types and Interfaces
 export type {
+  AgentDependencies,
+  AgentTaskDefinition,
+  AgentTaskDefinitions,
+  AgentTaskHandlers,
+  AgentTaskInput,
+  AgentTaskOutput,
+  AgentErrorCode,
+  AgentExecutionContext,
+  AgentExecuteOptions,
   AgentPayload,
+  AgentPriority,
   AgentResult,
+  AgentSideEffect,
   AgentStatus,
   BaseAgent,
+  TaskExecuteOptions,
 } from './base-agent';
 
+// Task Schemas
+export * from './schemas';
+export { AGENT_TASKS, getTaskSideEffect, isAgentTaskType, validateTaskInput } from './task-map';
+export type {
+  AgentTaskType,
+  TaskInput,
+  TaskMap,
+  TaskName,
+  TaskOutput,
+  TaskResult,
+} from './task-map';
+
+// LLM Providers
+export * from './llm/llm-provider';
+export * from './llm/usage';
+export { OpenAICompatibleProvider } from './llm/openai-provider';
+export type { OpenAICompatibleProviderOptions } from './llm/openai-provider';
+export { FixtureLLMProvider } from './llm/fixture-provider';
+export type { FixtureLLMProviderOptions, LLMFixture } from './llm/fixture-provider';
+export { createLLMProviderFromEnv } from './llm/create-provider';
+
+// Prompt Templates
+export * from './prompts/prompt-template';
+export * from './prompts/prompt-registry';
+export { PromptTemplateError, renderTemplate, collectReferences } from './prompts/template-engine';
+export { DEFAULT_PROMPT_TEMPLATES } from './prompts/default-templates';
+
+// Approvals
+export * from './approvals/approval-policy';
+
+// Campaigns
+export * from './campaigns/campaign-lifecycle';
+export * from './campaigns/budget-ledger';
+
+// Analytics
+export * from './analytics/alerts';
+export * from './analytics/anomalies';
+export * from './analytics/attribution';
+export * from './analytics/events';
+export * from './analytics/forecasting';
+export * from './analytics/rollups';
+
+// Leads
+export * from './leads/lead-scoring';
+
+// Experiments
+export * from './experiments/ab-test';
+export * from './experiments/bandit';
+export * from './experiments/statistics';
+
+// Reports
+export * from './reports/cron';
+export * from './reports/definition';
+export * from './reports/document';
+export { escapeHtml, renderReportHtml } from './reports/html';
+export { csvCell, renderReportCsv } from './reports/csv';
+export { PdfWriter, renderReportPdf } from './reports/pdf';
+export { renderReportXlsx } from './reports/xlsx';
+export * from './reports/render';
+
+// Workflows
+export * from './workflows/workflow-definition';
+export * from './workflows/workflow-run';
+export * from './workflows/workflow-engine';
+export { resolvePath, resolveValue, evaluateCondition } from './workflows/workflow-refs';
+export type { WorkflowRefContext } from './workflows/workflow-refs';
+export { CAMPAIGN_LAUNCH_WORKFLOW, DEFAULT_WORKFLOWS } from './workflows/default-workflows';
+
+// Scheduling
+export { AgentScheduler } from './scheduler';
+export type { AgentSchedulerOptions } from './scheduler';
+
 // Agent Registry
-export { registerAllAgents } from './agent-registry'; 
\ No newline at end of file
+export {
+  registerAllAgents,
+  getRegisteredAgentTypes,
+  isAgentTypeRegistered,
+} from './agent-registry'; 
\ No newline at end of file
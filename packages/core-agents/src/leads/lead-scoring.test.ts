@@ -0,0 +1,157 @@
+import { OutreachAgent } from '../agents/outreach-agent';
+import {
+  evaluateLead,
+  LeadScoringConfigSchema,
+  nextLeadStatus,
+  scoreLead,
+  type ScoredLead,
+} from './lead-scoring';
+
+const now = new Date('2026-10-18T12:00:00Z');
+const daysAgo = (days: number): Date => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const config = LeadScoringConfigSchema.parse({
+  firmographic: [
+    {
+      field: 'position',
+      operator: 'contains',
+      value: 'head of',
+      points: 20,
+      label: 'Decision maker',
+    },
+    { field: 'emailDomain', operator: 'in', value: ['gmail.com', 'yahoo.com'], points: -10 },
+    { field: 'metadata.employees', operator: 'gte', value: 200, points: 15 },
+    { field: 'tags', operator: 'equals', value: 'enterprise', points: 10 },
+  ],
+});
+
+const lead = (overrides: Partial<ScoredLead> = {}): ScoredLead => ({
+  id: 'lead_1',
+  email: 'sam@acme.io',
+  position: 'Head of Marketing',
+  tags: ['Enterprise'],
+  metadata: { employees: 450 },
+  status: 'NEW',
+  score: null,
+  events: [],
+  ...overrides,
+});
+
+describe('lead scoring', () => {
+  it('adds the points of every firmographic rule the lead matches', () => {
+    const score = scoreLead(lead(), config, now);
+
+    expect(score).toMatchObject({ score: 45, firmographic: 45, behavior: 0 });
+    expect(score.breakdown.map(item => item.rule)).toEqual([
+      'Decision maker',
+      'metadata.employees gte',
+      'tags equals',
+    ]);
+    expect(scoreLead(lead({ email: 'sam@gmail.com', metadata: null }), config, now).score).toBe(20);
+  });
+
+  it('fades behavioral points with age and caps them per event type', () => {
+    const clicks = (age: number): ScoredLead =>
+      lead({
+        position: null,
+        tags: [],
+        metadata: null,
+        events: [{ type: 'email_click', occurredAt: daysAgo(age) }],
+      });
+
+    expect(scoreLead(clicks(0), config, now).behavior).toBe(5);
+    // Half the points after one half-life
+    expect(scoreLead(clicks(30), config, now).behavior).toBe(2.5);
+    // Outside the event window
+    expect(scoreLead(clicks(200), config, now).behavior).toBe(0);
+
+    const opens = Array.from({ length: 20 }, () => ({
+      type: 'email_open' as const,
+      occurredAt: daysAgo(1),
+    }));
+    expect(scoreLead(lead({ events: opens }), config, now).breakdown).toContainEqual({
+      rule: 'email_open',
+      kind: 'behavior',
+      points: 10,
+    });
+  });
+
+  it('keeps scores between zero and the maximum', () => {
+    const unsubscribed = lead({
+      position: null,
+      tags: [],
+      metadata: null,
+      events: [{ type: 'unsubscribe', occurredAt: daysAgo(1) }],
+    });
+    const engaged = lead({
+      events: [
+        { type: 'meeting_booked', occurredAt: daysAgo(0) },
+        { type: 'form_submit', occurredAt: daysAgo(0) },
+        { type: 'form_submit', occurredAt: daysAgo(0) },
+      ],
+    });
+
+    expect(scoreLead(unsubscribed, config, now).score).toBe(0);
+    expect(scoreLead(engaged, config, now).score).toBe(100);
+  });
+
+  it('moves leads along the funnel with a gap between qualifying and unqualifying', () => {
+    const opened = [{ type: 'email_open' as const, occurredAt: daysAgo(1) }];
+
+    expect(nextLeadStatus({ status: 'NEW', events: opened }, 10, config)).toEqual({
+      status: 'CONTACTED',
+      reason: 'First contact',
+    });
+    expect(nextLeadStatus({ status: 'NEW', events: [] }, 10, config)).toBeNull();
+    expect(nextLeadStatus({ status: 'CONTACTED', events: opened }, 60, config)?.status).toBe(
+      'QUALIFIED'
+    );
+    // Between the thresholds a qualified lead stays qualified
+    expect(nextLeadStatus({ status: 'QUALIFIED', events: opened }, 50, config)).toBeNull();
+    expect(nextLeadStatus({ status: 'QUALIFIED', events: opened }, 39, config)?.status).toBe(
+      'CONTACTED'
+    );
+    expect(
+      nextLeadStatus(
+        { status: 'QUALIFIED', events: [{ type: 'unsubscribe', occurredAt: daysAgo(0) }] },
+        80,
+        config
+      )
+    ).toEqual({ status: 'LOST', reason: 'Unsubscribed' });
+    // People decide about converted and lost leads
+    expect(nextLeadStatus({ status: 'LOST', events: opened }, 90, config)).toBeNull();
+    expect(nextLeadStatus({ status: 'CONVERTED', events: [] }, 0, config)).toBeNull();
+  });
+
+  it('rejects thresholds that overlap', () => {
+    expect(LeadScoringConfigSchema.safeParse({ qualifyAt: 50, unqualifyBelow: 70 }).success).toBe(
+      false
+    );
+  });
+
+  it('nurtures the leads it is given through the outreach agent', async () => {
+    const agent = new OutreachAgent('outreach-1', 'Outreach Agent');
+    const clicked = lead({
+      id: 'lead_2',
+      status: 'CONTACTED',
+      events: [{ type: 'email_click', occurredAt: new Date() }],
+    });
+    const result = await agent.execute({
+      task: 'nurture_leads',
+      priority: 'medium',
+      context: { leads: [lead(), clicked], config: { ...config, qualifyAt: 50 } },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      nurtured: 2,
+      qualified: 1,
+      leads: [
+        { leadId: 'lead_1', score: 45, status: 'NEW', reason: null },
+        { leadId: 'lead_2', score: 50, previousStatus: 'CONTACTED', status: 'QUALIFIED' },
+      ],
+    });
+    // Not enough for the default threshold
+    expect(evaluateLead(clicked, config).status).toBe('CONTACTED');
+  });
+});
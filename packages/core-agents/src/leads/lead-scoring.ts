@@ -0,0 +1,282 @@
+import { z } from 'zod';
+
+// Lead scores from who a lead is (firmographic rules) and what they did (behavioral events)
+
+export const LeadStatusSchema = z.enum(['NEW', 'CONTACTED', 'QUALIFIED', 'CONVERTED', 'LOST']);
+
+export type LeadStatus = z.infer<typeof LeadStatusSchema>;
+
+export const LeadEventTypeSchema = z.enum([
+  'email_sent',
+  'email_open',
+  'email_click',
+  'site_visit',
+  'form_submit',
+  'meeting_booked',
+  'unsubscribe',
+]);
+
+export type LeadEventType = z.infer<typeof LeadEventTypeSchema>;
+
+/** Lead fields firmographic rules can test; `metadata.<key>` reads the lead's metadata */
+export const LeadFieldSchema = z.union([
+  z.enum(['email', 'emailDomain', 'company', 'position', 'phone', 'source', 'tags']),
+  z.string().regex(/^metadata\.\w+(\.\w+)*$/, 'Expected a lead field or metadata.<key>'),
+]);
+
+/**
+ * Points for leads whose field matches. Text comparisons ignore case; `in`
+ * takes a list, `gte` and `lte` a number, and `exists` no value. For `tags`
+ * the rule matches when any tag does.
+ */
+export const FirmographicRuleSchema = z.object({
+  field: LeadFieldSchema,
+  operator: z.enum(['equals', 'contains', 'in', 'exists', 'gte', 'lte']),
+  value: z.union([z.string(), z.number(), z.array(z.string())]).optional(),
+  points: z.number().min(-100).max(100),
+  label: z.string().max(200).optional(),
+});
+
+export type FirmographicRule = z.infer<typeof FirmographicRuleSchema>;
+
+/** Points per event of a type, fading by half every `halfLifeDays`, at most `maxPoints` in total */
+export const BehaviorRuleSchema = z.object({
+  event: LeadEventTypeSchema,
+  points: z.number().min(-100).max(100),
+  maxPoints: z.number().min(0).max(100).optional(),
+});
+
+export type BehaviorRule = z.infer<typeof BehaviorRuleSchema>;
+
+export const LeadScoringConfigSchema = z
+  .object({
+    firmographic: z.array(FirmographicRuleSchema).max(100).default([]),
+    behavior: z
+      .array(BehaviorRuleSchema)
+      .max(20)
+      .default([
+        { event: 'email_open', points: 2, maxPoints: 10 },
+        { event: 'email_click', points: 5, maxPoints: 20 },
+        { event: 'site_visit', points: 3, maxPoints: 15 },
+        { event: 'form_submit', points: 15, maxPoints: 30 },
+        { event: 'meeting_booked', points: 30 },
+        { event: 'unsubscribe', points: -25 },
+      ]),
+    /** Behavioral points lose half their value after this many days */
+    halfLifeDays: z.number().positive().max(365).default(30),
+    /** Events older than this are ignored */
+    eventWindowDays: z.number().int().positive().max(730).default(180),
+    /** Scores are kept between 0 and this */
+    maxScore: z.number().positive().default(100),
+    /** NEW and CONTACTED leads reaching this score become QUALIFIED */
+    qualifyAt: z.number().default(60),
+    /** QUALIFIED leads falling below this score go back to CONTACTED */
+    unqualifyBelow: z.number().default(40),
+    /** Whether unsubscribing marks a lead LOST */
+    lostOnUnsubscribe: z.boolean().default(true),
+  })
+  .refine(config => config.unqualifyBelow <= config.qualifyAt, {
+    message: '`unqualifyBelow` must not be above `qualifyAt`',
+    path: ['unqualifyBelow'],
+  });
+
+export type LeadScoringConfig = z.infer<typeof LeadScoringConfigSchema>;
+
+export const LeadEventSchema = z.object({
+  type: LeadEventTypeSchema,
+  occurredAt: z.coerce.date(),
+});
+
+export type LeadEvent = z.infer<typeof LeadEventSchema>;
+
+/** What scoring reads of a lead */
+export const ScoredLeadSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  company: z.string().nullable().optional(),
+  position: z.string().nullable().optional(),
+  phone: z.string().nullable().optional(),
+  source: z.string().nullable().optional(),
+  tags: z.array(z.string()).default([]),
+  metadata: z.record(z.unknown()).nullable().optional(),
+  status: LeadStatusSchema,
+  score: z.number().nullable().default(null),
+  events: z.array(LeadEventSchema).default([]),
+});
+
+export type ScoredLead = z.input<typeof ScoredLeadSchema>;
+
+export interface LeadScoreItem {
+  /** The rule's label, or the field or event it is about */
+  rule: string;
+  kind: 'firmographic' | 'behavior';
+  points: number;
+}
+
+export interface LeadScore {
+  score: number;
+  firmographic: number;
+  behavior: number;
+  breakdown: LeadScoreItem[];
+}
+
+export interface LeadEvaluation extends LeadScore {
+  leadId: string;
+  previousScore: number | null;
+  status: LeadStatus;
+  previousStatus: LeadStatus;
+  /** Why the status changed; null when it did not */
+  reason: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENGAGEMENT_EVENTS: ReadonlySet<LeadEventType> = new Set([
+  'email_open',
+  'email_click',
+  'site_visit',
+  'form_submit',
+  'meeting_booked',
+]);
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Values of a lead field; several for tags, none when unset */
+function fieldValues(lead: z.output<typeof ScoredLeadSchema>, field: string): unknown[] {
+  if (field === 'tags') return lead.tags;
+  if (field === 'emailDomain') {
+    const domain = lead.email.split('@')[1];
+    return domain ? [domain] : [];
+  }
+  if (field.startsWith('metadata.')) {
+    let value: unknown = lead.metadata ?? undefined;
+    for (const key of field.slice('metadata.'.length).split('.')) {
+      value =
+        value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value === undefined || value === null || value === '' ? [] : [value];
+  }
+  const value = lead[field as 'email' | 'company' | 'position' | 'phone' | 'source'];
+  return value === undefined || value === null || value === '' ? [] : [value];
+}
+
+function matchesValue(rule: FirmographicRule, actual: unknown): boolean {
+  const text = String(actual).toLowerCase();
+  switch (rule.operator) {
+    case 'exists':
+      return true;
+    case 'equals':
+      return typeof rule.value === 'number'
+        ? Number(actual) === rule.value
+        : text === String(rule.value ?? '').toLowerCase();
+    case 'contains':
+      return typeof rule.value === 'string' && text.includes(rule.value.toLowerCase());
+    case 'in':
+      return Array.isArray(rule.value) && rule.value.some(value => value.toLowerCase() === text);
+    case 'gte':
+    case 'lte': {
+      const number = typeof actual === 'number' ? actual : Number(actual);
+      if (typeof rule.value !== 'number' || !Number.isFinite(number)) return false;
+      return rule.operator === 'gte' ? number >= rule.value : number <= rule.value;
+    }
+  }
+}
+
+/**
+ * A lead's score: the points of every firmographic rule it matches plus its
+ * events' points, each halved every `halfLifeDays` and capped per event type.
+ */
+export function scoreLead(
+  lead: ScoredLead,
+  config: LeadScoringConfig,
+  now = new Date()
+): LeadScore {
+  const parsed = ScoredLeadSchema.parse(lead);
+  const breakdown: LeadScoreItem[] = [];
+
+  let firmographic = 0;
+  for (const rule of config.firmographic) {
+    if (!fieldValues(parsed, rule.field).some(value => matchesValue(rule, value))) continue;
+    firmographic += rule.points;
+    breakdown.push({
+      rule: rule.label ?? `${rule.field} ${rule.operator}`,
+      kind: 'firmographic',
+      points: rule.points,
+    });
+  }
+
+  let behavior = 0;
+  const oldest = now.getTime() - config.eventWindowDays * DAY_MS;
+  for (const rule of config.behavior) {
+    let points = 0;
+    for (const event of parsed.events) {
+      const at = event.occurredAt.getTime();
+      if (event.type !== rule.event || at < oldest || at > now.getTime()) continue;
+      points += rule.points * 0.5 ** ((now.getTime() - at) / DAY_MS / config.halfLifeDays);
+    }
+    if (rule.maxPoints !== undefined) points = Math.min(points, rule.maxPoints);
+    if (points === 0) continue;
+    behavior += points;
+    breakdown.push({ rule: rule.event, kind: 'behavior', points: round(points) });
+  }
+
+  return {
+    score: round(Math.min(Math.max(firmographic + behavior, 0), config.maxScore)),
+    firmographic: round(firmographic),
+    behavior: round(behavior),
+    breakdown,
+  };
+}
+
+/**
+ * The status a lead moves to with its new score, and why; null to keep it.
+ * CONVERTED and LOST leads are only changed by people. Unsubscribing loses a
+ * lead, being emailed or engaging makes a NEW lead CONTACTED, and the
+ * qualification thresholds move leads in and out of QUALIFIED; the gap
+ * between them keeps a lead near the line from flipping on every event.
+ */
+export function nextLeadStatus(
+  lead: Pick<ScoredLead, 'status' | 'events'>,
+  score: number,
+  config: LeadScoringConfig
+): { status: LeadStatus; reason: string } | null {
+  if (lead.status === 'CONVERTED' || lead.status === 'LOST') return null;
+  const events = lead.events ?? [];
+
+  if (config.lostOnUnsubscribe && events.some(event => event.type === 'unsubscribe')) {
+    return { status: 'LOST', reason: 'Unsubscribed' };
+  }
+  if (lead.status !== 'QUALIFIED' && score >= config.qualifyAt) {
+    return { status: 'QUALIFIED', reason: `Score ${score} reached ${config.qualifyAt}` };
+  }
+  if (lead.status === 'QUALIFIED' && score < config.unqualifyBelow) {
+    return { status: 'CONTACTED', reason: `Score ${score} fell below ${config.unqualifyBelow}` };
+  }
+  if (
+    lead.status === 'NEW' &&
+    events.some(event => event.type === 'email_sent' || ENGAGEMENT_EVENTS.has(event.type))
+  ) {
+    return { status: 'CONTACTED', reason: 'First contact' };
+  }
+  return null;
+}
+
+/** Score a lead and work out its status */
+export function evaluateLead(
+  lead: ScoredLead,
+  config: LeadScoringConfig,
+  now = new Date()
+): LeadEvaluation {
+  const score = scoreLead(lead, config, now);
+  const next = nextLeadStatus(lead, score.score, config);
+  return {
+    leadId: lead.id,
+    ...score,
+    previousScore: lead.score ?? null,
+    status: next?.status ?? lead.status,
+    previousStatus: lead.status,
+    reason: next?.reason ?? null,
+  };
+}
@@ -0,0 +1,43 @@
+import { FixtureLLMProvider } from './fixture-provider';
+import { LLMError, type LLMProvider } from './llm-provider';
+import { OpenAICompatibleProvider } from './openai-provider';
+
+type Env = Record<string, string | undefined>;
+
+function createOpenAIProvider(env: Env): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    ...(env.OPENAI_API_KEY && { apiKey: env.OPENAI_API_KEY }),
+    ...(env.OPENAI_BASE_URL && { baseURL: env.OPENAI_BASE_URL }),
+    ...(env.OPENAI_ORGANIZATION && { organization: env.OPENAI_ORGANIZATION }),
+    ...(env.LLM_MODEL && { model: env.LLM_MODEL }),
+  });
+}
+
+/**
+ * Build the provider selected by `LLM_PROVIDER`:
+ * - `openai`: OpenAI or any compatible endpoint (`OPENAI_BASE_URL`)
+ * - `fixture` (default): replays `LLM_FIXTURES_DIR`, answering unrecorded
+ *   prompts according to `LLM_FIXTURES_ON_MISSING` (`mock`, `error` or `record`)
+ */
+export function createLLMProviderFromEnv(env: Env = process.env): LLMProvider {
+  const provider = env.LLM_PROVIDER ?? 'fixture';
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIProvider(env);
+    case 'fixture': {
+      const onMissing = env.LLM_FIXTURES_ON_MISSING ?? 'mock';
+      if (onMissing !== 'mock' && onMissing !== 'error' && onMissing !== 'record') {
+        throw new LLMError('configuration', `Unknown LLM_FIXTURES_ON_MISSING: ${onMissing}`);
+      }
+
+      return new FixtureLLMProvider({
+        onMissing,
+        ...(env.LLM_FIXTURES_DIR && { fixturesDir: env.LLM_FIXTURES_DIR }),
+        ...(onMissing === 'record' && { upstream: createOpenAIProvider(env) }),
+      });
+    }
+    default:
+      throw new LLMError('configuration', `Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
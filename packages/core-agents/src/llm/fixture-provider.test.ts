@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { ContentAgent } from '../agents/content-agent';
+import { FixtureLLMProvider, type LLMFixture } from './fixture-provider';
+import {
+  BaseLLMProvider,
+  LLMError,
+  type LLMCompletion,
+  type LLMRequest,
+  type LLMStreamChunk,
+} from './llm-provider';
+
+const request: LLMRequest = {
+  messages: [
+    { role: 'system', content: 'You write posts.' },
+    { role: 'user', content: 'Write a post about neon signs.' },
+  ],
+};
+
+// Returns queued responses in order
+class ScriptedProvider extends BaseLLMProvider {
+  readonly name = 'scripted';
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private readonly responses: string[]) {
+    super();
+  }
+
+  async complete(req: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(req);
+    return {
+      content: this.responses.shift() ?? '',
+      model: 'scripted-model',
+      provider: this.name,
+      finishReason: 'stop',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd: 0.001 },
+    };
+  }
+}
+
+describe('FixtureLLMProvider', () => {
+  it('replays a recorded fixture for a matching request', async () => {
+    const fixture: LLMFixture = {
+      key: FixtureLLMProvider.fixtureKey(request),
+      request: { model: null, messages: request.messages, json: false },
+      response: { content: 'Glow up your storefront.', model: 'gpt-4o-mini' },
+    };
+    const provider = new FixtureLLMProvider({ fixtures: [fixture], onMissing: 'error' });
+
+    const completion = await provider.complete(request);
+
+    expect(completion.content).toBe('Glow up your storefront.');
+    expect(completion.model).toBe('gpt-4o-mini');
+    expect(completion.usage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('fails on unrecorded requests in error mode', async () => {
+    const provider = new FixtureLLMProvider({ onMissing: 'error' });
+
+    await expect(provider.complete(request)).rejects.toMatchObject({ code: 'fixture_missing' });
+  });
+
+  it('synthesizes the same schema-valid JSON for the same request', async () => {
+    const schema = z.object({
+      posts: z.array(z.object({ content: z.string(), likes: z.number().int().min(0) })).min(3),
+      tone: z.enum(['casual', 'professional']),
+      contact: z.string().email().optional(),
+    });
+
+    const first = await new FixtureLLMProvider().completeJSON({ ...request, schema });
+    const second = await new FixtureLLMProvider().completeJSON({ ...request, schema });
+
+    expect(first.data).toEqual(second.data);
+    expect(first.data.posts).toHaveLength(3);
+    expect(schema.safeParse(first.data).success).toBe(true);
+  });
+
+  it('records upstream responses and replays them from disk', async () => {
+    const fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-fixtures-'));
+    const upstream = new ScriptedProvider(['Recorded answer']);
+
+    try {
+      const recorder = new FixtureLLMProvider({ fixturesDir, onMissing: 'record', upstream });
+      expect((await recorder.complete(request)).content).toBe('Recorded answer');
+
+      const replayer = new FixtureLLMProvider({ fixturesDir, onMissing: 'error' });
+      const replayed = await replayer.complete(request);
+
+      expect(replayed.content).toBe('Recorded answer');
+      expect(replayed.usage.costUsd).toBe(0.001);
+      expect(upstream.requests).toHaveLength(1);
+    } finally {
+      await fs.rm(fixturesDir, { recursive: true, force: true });
+    }
+  });
+
+  it('streams a completion in several chunks ending with the full completion', async () => {
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of new FixtureLLMProvider().stream(request)) {
+      chunks.push(chunk);
+    }
+
+    const last = chunks[chunks.length - 1];
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.map(chunk => chunk.delta).join('')).toBe(last?.completion?.content);
+  });
+});
+
+describe('BaseLLMProvider.completeJSON', () => {
+  const schema = z.object({ title: z.string() });
+
+  it('retries with the validation error and sums usage across attempts', async () => {
+    const provider = new ScriptedProvider(['{"name": "wrong"}', '```json\n{"title": "Neon"}\n```']);
+
+    const result = await provider.completeJSON({ ...request, schema });
+
+    expect(result.data).toEqual({ title: 'Neon' });
+    expect(result.attempts).toBe(2);
+    expect(result.usage.totalTokens).toBe(30);
+    const retryMessages = provider.requests[1]?.messages ?? [];
+    expect(retryMessages[retryMessages.length - 1]?.content).toContain('title');
+  });
+
+  it('gives up after maxRetries', async () => {
+    const provider = new ScriptedProvider(['not json', 'still not json']);
+
+    await expect(
+      provider.completeJSON({ ...request, schema, maxRetries: 1 })
+    ).rejects.toBeInstanceOf(LLMError);
+  });
+});
+
+describe('agent LLM injection', () => {
+  it('generates through the injected provider and reports usage', async () => {
+    const agent = new ContentAgent('content-1', 'Content Agent', {
+      llm: new FixtureLLMProvider(),
+    });
+
+    const result = await agent.execute({
+      task: 'generate_posts',
+      context: { platform: 'INSTAGRAM', topic: 'Spring sale' },
+      priority: 'medium',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.posts.length).toBeGreaterThan(0);
+    expect(result.metadata?.llmUsage).toMatchObject({ requests: 1, costUsd: 0 });
+  });
+});
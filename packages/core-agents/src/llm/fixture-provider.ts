@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  BaseLLMProvider,
+  LLMError,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMStreamChunk,
+} from './llm-provider';
+import { generateMockValue } from './mock-data';
+import { estimateTokens } from './usage';
+
+export interface LLMFixture {
+  key: string;
+  request: { model: string | null; messages: LLMMessage[]; json: boolean };
+  response: Pick<LLMCompletion, 'content' | 'model'> &
+    Partial<Pick<LLMCompletion, 'usage' | 'finishReason'>>;
+  recordedAt?: string;
+}
+
+export interface FixtureLLMProviderOptions {
+  /** Fixtures held in memory, checked before `fixturesDir` */
+  fixtures?: LLMFixture[];
+  /** Directory of `<key>.json` fixture files */
+  fixturesDir?: string;
+  /**
+   * What to do when no fixture matches a request:
+   * - `mock`: synthesize a deterministic response (schema-shaped for JSON requests)
+   * - `error`: throw, so tests notice unrecorded prompts
+   * - `record`: call `upstream` and save its response to `fixturesDir`
+   */
+  onMissing?: 'mock' | 'error' | 'record';
+  upstream?: LLMProvider;
+  /** Model reported on mock responses */
+  model?: string;
+}
+
+/**
+ * Offline provider that replays recorded completions.
+ *
+ * Fixtures are keyed by a hash of the model, messages and response format, so
+ * the same prompt always gets the same answer. Unrecorded prompts are answered
+ * with deterministic mock output by default, which keeps agents usable without
+ * network access or API keys.
+ */
+export class FixtureLLMProvider extends BaseLLMProvider {
+  readonly name = 'fixture';
+
+  private readonly fixtures = new Map<string, LLMFixture>();
+  private readonly fixturesDir: string | undefined;
+  private readonly onMissing: 'mock' | 'error' | 'record';
+  private readonly upstream: LLMProvider | undefined;
+  private readonly model: string;
+
+  constructor(options: FixtureLLMProviderOptions = {}) {
+    super();
+    for (const fixture of options.fixtures ?? []) {
+      this.fixtures.set(fixture.key, fixture);
+    }
+    this.fixturesDir = options.fixturesDir;
+    this.onMissing = options.onMissing ?? 'mock';
+    this.upstream = options.upstream;
+    this.model = options.model ?? 'mock';
+
+    if (this.onMissing === 'record' && (!this.upstream || !this.fixturesDir)) {
+      throw new LLMError(
+        'configuration',
+        'Recording fixtures needs an upstream provider and a fixtures directory'
+      );
+    }
+  }
+
+  /**
+   * The key a request is stored under.
+   */
+  static fixtureKey(request: LLMRequest): string {
+    const identity = FixtureLLMProvider.identity(request);
+    return createHash('sha256').update(JSON.stringify(identity)).digest('hex').slice(0, 24);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    if (request.signal?.aborted) {
+      throw new LLMError('aborted', 'LLM request aborted');
+    }
+
+    const key = FixtureLLMProvider.fixtureKey(request);
+    const fixture = await this.findFixture(key);
+    if (fixture) {
+      return this.fromFixture(fixture, request);
+    }
+
+    switch (this.onMissing) {
+      case 'error':
+        throw new LLMError('fixture_missing', `No LLM fixture recorded for request ${key}`);
+      case 'record':
+        return this.record(key, request);
+      default:
+        return this.mock(key, request);
+    }
+  }
+
+  /**
+   * Streams the completion word by word so consumers see several chunks.
+   */
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const completion = await this.complete(request);
+    for (const delta of completion.content.match(/\S+\s*|\s+/g) ?? []) {
+      yield { delta };
+    }
+    yield { delta: '', completion };
+  }
+
+  private static identity(request: LLMRequest): LLMFixture['request'] {
+    return {
+      model: request.model ?? null,
+      messages: request.messages.map(({ role, content }) => ({ role, content })),
+      json: request.responseFormat?.type === 'json',
+    };
+  }
+
+  private async findFixture(key: string): Promise<LLMFixture | undefined> {
+    const cached = this.fixtures.get(key);
+    if (cached || !this.fixturesDir) return cached;
+
+    try {
+      const raw = await fs.readFile(path.join(this.fixturesDir, `${key}.json`), 'utf8');
+      const fixture = JSON.parse(raw) as LLMFixture;
+      this.fixtures.set(key, fixture);
+      return fixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  private fromFixture(fixture: LLMFixture, request: LLMRequest): LLMCompletion {
+    return {
+      content: fixture.response.content,
+      model: fixture.response.model,
+      provider: this.name,
+      finishReason: fixture.response.finishReason ?? 'stop',
+      usage: fixture.response.usage ?? this.estimateUsage(request, fixture.response.content),
+    };
+  }
+
+  private async record(key: string, request: LLMRequest): Promise<LLMCompletion> {
+    const { upstream, fixturesDir } = this;
+    if (!upstream || !fixturesDir) {
+      throw new LLMError(
+        'configuration',
+        'Recording fixtures needs an upstream provider and a fixtures directory'
+      );
+    }
+
+    const completion = await upstream.complete(request);
+    const fixture: LLMFixture = {
+      key,
+      request: FixtureLLMProvider.identity(request),
+      response: {
+        content: completion.content,
+        model: completion.model,
+        usage: completion.usage,
+        finishReason: completion.finishReason,
+      },
+      recordedAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(fixturesDir, { recursive: true });
+    await fs.writeFile(
+      path.join(fixturesDir, `${key}.json`),
+      `${JSON.stringify(fixture, null, 2)}\n`
+    );
+    this.fixtures.set(key, fixture);
+    return completion;
+  }
+
+  private mock(key: string, request: LLMRequest): LLMCompletion {
+    let content: string;
+    if (request.responseFormat?.schema) {
+      content = JSON.stringify(generateMockValue(request.responseFormat.schema, key), null, 2);
+    } else if (request.responseFormat?.type === 'json') {
+      content = '{}';
+    } else {
+      const prompt = [...request.messages].reverse().find(message => message.role === 'user');
+      content = `Mock response ${key.slice(0, 8)}: ${(prompt?.content ?? '').slice(0, 200)}`;
+    }
+
+    return {
+      content,
+      model: request.model ?? this.model,
+      provider: this.name,
+      finishReason: 'stop',
+      usage: this.estimateUsage(request, content),
+    };
+  }
+
+  private estimateUsage(request: LLMRequest, content: string): LLMCompletion['usage'] {
+    const promptTokens = estimateTokens(
+      request.messages.map(message => message.content).join('\n')
+    );
+    const completionTokens = estimateTokens(content);
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: 0,
+    };
+  }
+}
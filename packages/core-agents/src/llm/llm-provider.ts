@@ -0,0 +1,191 @@
+import { z } from 'zod';
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  /** Provider default is used when omitted */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  stop?: string[];
+  signal?: AbortSignal;
+  /** Ask for a JSON object. Providers that can use the schema to shape their output do so. */
+  responseFormat?: { type: 'json'; schema?: z.ZodTypeAny; name?: string };
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export type LLMFinishReason = 'stop' | 'length' | 'content_filter' | 'unknown';
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  provider: string;
+  finishReason: LLMFinishReason;
+  usage: LLMUsage;
+}
+
+export interface LLMStructuredRequest<T> extends Omit<LLMRequest, 'responseFormat'> {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** Used in error messages and by providers that name their response format */
+  schemaName?: string;
+  /** Extra attempts after an invalid response, each one told what was wrong */
+  maxRetries?: number;
+}
+
+export interface LLMStructuredCompletion<T> extends LLMCompletion {
+  data: T;
+  attempts: number;
+}
+
+/**
+ * One piece of a streamed completion. The last chunk carries the full
+ * completion, including usage.
+ */
+export interface LLMStreamChunk {
+  delta: string;
+  completion?: LLMCompletion;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  completeJSON<T>(request: LLMStructuredRequest<T>): Promise<LLMStructuredCompletion<T>>;
+  stream(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+export type LLMErrorCode =
+  | 'configuration'
+  | 'request_failed'
+  | 'rate_limited'
+  | 'aborted'
+  | 'invalid_response'
+  | 'fixture_missing';
+
+export class LLMError extends Error {
+  constructor(
+    public readonly code: LLMErrorCode,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+export function emptyUsage(): LLMUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(a: LLMUsage, b: LLMUsage): LLMUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+/**
+ * Parse a JSON value out of model output, tolerating Markdown code fences
+ * and prose around the object.
+ */
+export function parseJsonContent(
+  content: string
+): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(content);
+  const text = (fenced?.[1] ?? content).trim();
+
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    return { ok: false, error: 'response contains no JSON object' };
+  }
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+
+  try {
+    return { ok: true, value: JSON.parse(text.slice(start, end + 1)) };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'invalid JSON' };
+  }
+}
+
+function describeZodError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Shared behaviour for providers: structured output on top of `complete`,
+ * and a single-chunk `stream` for providers without native streaming.
+ */
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: string;
+
+  abstract complete(request: LLMRequest): Promise<LLMCompletion>;
+
+  /**
+   * Request JSON and validate it against `schema`. Invalid output is sent
+   * back to the model with the validation errors, up to `maxRetries` times.
+   */
+  async completeJSON<T>(request: LLMStructuredRequest<T>): Promise<LLMStructuredCompletion<T>> {
+    const { schema, schemaName, maxRetries = 1, ...rest } = request;
+    const messages = [...rest.messages];
+    let usage = emptyUsage();
+    let lastError = 'no response';
+
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      const completion = await this.complete({
+        ...rest,
+        messages,
+        responseFormat: {
+          type: 'json',
+          schema,
+          ...(schemaName !== undefined && { name: schemaName }),
+        },
+      });
+      usage = addUsage(usage, completion.usage);
+
+      const parsed = parseJsonContent(completion.content);
+      if (parsed.ok) {
+        const result = schema.safeParse(parsed.value);
+        if (result.success) {
+          return { ...completion, usage, data: result.data, attempts: attempt };
+        }
+        lastError = describeZodError(result.error);
+      } else {
+        lastError = parsed.error;
+      }
+
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        {
+          role: 'user',
+          content: `That response was invalid (${lastError}). Reply with only the corrected JSON.`,
+        }
+      );
+    }
+
+    throw new LLMError(
+      'invalid_response',
+      `Model output did not match ${schemaName ?? 'the expected schema'}: ${lastError}`
+    );
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const completion = await this.complete(request);
+    yield { delta: completion.content, completion };
+  }
+}
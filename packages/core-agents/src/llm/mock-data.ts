@@ -0,0 +1,124 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+
+/**
+ * Deterministic number in [0, 1) derived from a seed string.
+ */
+function seededRandom(seed: string): number {
+  return createHash('sha256').update(seed).digest().readUInt32BE(0) / 0x1_0000_0000;
+}
+
+function pick<T>(options: readonly T[], seed: string): T | undefined {
+  return options[Math.floor(seededRandom(seed) * options.length)];
+}
+
+function mockString(schema: z.ZodString, seed: string, label: string): string {
+  let min = 0;
+  let max = Infinity;
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'email':
+        return `${label.toLowerCase() || 'user'}${Math.floor(seededRandom(seed) * 1000)}@example.com`;
+      case 'url':
+        return `https://example.com/${label.toLowerCase() || 'resource'}`;
+      case 'uuid': {
+        const hex = createHash('sha256').update(seed).digest('hex');
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+      }
+      case 'datetime':
+        return new Date(Date.UTC(2024, 0, 1 + Math.floor(seededRandom(seed) * 365))).toISOString();
+      case 'min':
+        min = check.value;
+        break;
+      case 'max':
+        max = check.value;
+        break;
+      case 'length':
+        min = check.value;
+        max = check.value;
+        break;
+      default:
+        break;
+    }
+  }
+
+  let value = `${label || 'text'} ${Math.floor(seededRandom(seed) * 100)}`;
+  while (value.length < min) value += ' lorem';
+  return value.slice(0, Math.min(max, Math.max(min, value.length)));
+}
+
+function mockNumber(schema: z.ZodNumber, seed: string): number {
+  let min = 0;
+  let max = 100;
+  let isInt = false;
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') min = check.value;
+    if (check.kind === 'max') max = check.value;
+    if (check.kind === 'int') isInt = true;
+  }
+  if (max < min) max = min;
+
+  const value = min + seededRandom(seed) * (max - min);
+  return isInt ? Math.round(value) : Math.round(value * 100) / 100;
+}
+
+/**
+ * Build a value that satisfies `schema`, derived only from `seed`. Used by the
+ * fixture provider to answer structured requests it has no recording for.
+ */
+export function generateMockValue(
+  schema: z.ZodTypeAny,
+  seed: string,
+  path: string[] = []
+): unknown {
+  const label = path.filter(segment => !/^\d+$/.test(segment)).pop() ?? '';
+  const key = `${seed}:${path.join('.')}`;
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return Object.fromEntries(
+      Object.entries(shape).map(([name, field]) => [
+        name,
+        generateMockValue(field, seed, [...path, name]),
+      ])
+    );
+  }
+  if (schema instanceof z.ZodArray) {
+    const min = schema._def.minLength?.value ?? schema._def.exactLength?.value ?? 0;
+    const max = schema._def.maxLength?.value ?? schema._def.exactLength?.value ?? Infinity;
+    const length = Math.min(max, Math.max(min, 2));
+    return Array.from({ length }, (_, index) =>
+      generateMockValue(schema.element, seed, [...path, String(index)])
+    );
+  }
+  if (schema instanceof z.ZodString) return mockString(schema, key, label);
+  if (schema instanceof z.ZodNumber) return mockNumber(schema, key);
+  if (schema instanceof z.ZodBoolean) return seededRandom(key) >= 0.5;
+  if (schema instanceof z.ZodDate) return new Date(Date.UTC(2024, 0, 1)).toISOString();
+  if (schema instanceof z.ZodEnum) return pick(schema.options as string[], key);
+  if (schema instanceof z.ZodNativeEnum) {
+    return pick(Object.values(schema.enum as Record<string, string | number>), key);
+  }
+  if (schema instanceof z.ZodLiteral) return schema.value;
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = [...(schema.options as Iterable<z.ZodTypeAny>)];
+    const option = pick(options, key);
+    return option ? generateMockValue(option, seed, path) : null;
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return generateMockValue(schema.unwrap(), seed, path);
+  }
+  if (schema instanceof z.ZodDefault) return generateMockValue(schema.removeDefault(), seed, path);
+  if (schema instanceof z.ZodEffects) return generateMockValue(schema.innerType(), seed, path);
+  if (schema instanceof z.ZodRecord) {
+    return {
+      [`${label || 'key'}_1`]: generateMockValue(schema.valueSchema, seed, [...path, 'value']),
+    };
+  }
+  if (schema instanceof z.ZodTuple) {
+    return (schema.items as z.ZodTypeAny[]).map((item, index) =>
+      generateMockValue(item, seed, [...path, String(index)])
+    );
+  }
+  return null;
+}
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { OpenAICompatibleProvider } from './openai-provider';
+
+type FetchCall = { url: string; body: Record<string, unknown> };
+
+function createFetch(respond: (body: Record<string, unknown>) => Response): {
+  fetch: (url: string, init?: Record<string, unknown>) => Promise<unknown>;
+  calls: FetchCall[];
+} {
+  const calls: FetchCall[] = [];
+  return {
+    calls,
+    fetch: async (url, init): Promise<Response> => {
+      const body = JSON.parse(String(init?.body ?? '{}')) as Record<string, unknown>;
+      calls.push({ url, body });
+      return respond(body);
+    },
+  };
+}
+
+function jsonResponse(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+const completionPayload = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'gpt-4o-mini-2024-07-18',
+  choices: [
+    {
+      index: 0,
+      finish_reason: 'stop',
+      message: { role: 'assistant', content: '{"headline": "Light it up"}' },
+    },
+  ],
+  usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+};
+
+describe('OpenAICompatibleProvider', () => {
+  it('sends chat completions to the configured endpoint and prices usage', async () => {
+    const { fetch, calls } = createFetch(() => jsonResponse(completionPayload));
+    const provider = new OpenAICompatibleProvider({
+      baseURL: 'http://localhost:8000/v1',
+      model: 'gpt-4o-mini',
+      fetch,
+    });
+
+    const completion = await provider.complete({
+      messages: [{ role: 'user', content: 'Headline please' }],
+      temperature: 0.2,
+    });
+
+    expect(calls[0]?.url).toBe('http://localhost:8000/v1/chat/completions');
+    expect(calls[0]?.body).toMatchObject({ model: 'gpt-4o-mini', temperature: 0.2 });
+    expect(completion.finishReason).toBe('stop');
+    expect(completion.usage).toMatchObject({ promptTokens: 1000, completionTokens: 500 });
+    // gpt-4o-mini: $0.15 / 1M input, $0.60 / 1M output
+    expect(completion.usage.costUsd).toBeCloseTo(0.00045, 8);
+  });
+
+  it('requests JSON mode for structured output', async () => {
+    const { fetch, calls } = createFetch(() => jsonResponse(completionPayload));
+    const provider = new OpenAICompatibleProvider({ apiKey: 'test', fetch });
+
+    const result = await provider.completeJSON({
+      messages: [{ role: 'user', content: 'Headline please' }],
+      schema: z.object({ headline: z.string() }),
+    });
+
+    expect(result.data).toEqual({ headline: 'Light it up' });
+    expect(calls[0]?.body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('streams deltas and reports usage on the final chunk', async () => {
+    const events = [
+      { choices: [{ index: 0, delta: { content: 'Light ' }, finish_reason: null }] },
+      { choices: [{ index: 0, delta: { content: 'it up' }, finish_reason: 'stop' }] },
+      { choices: [], usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 } },
+    ].map(event => ({
+      id: 'c',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'gpt-4o-mini',
+      ...event,
+    }));
+    const sse = `${events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('')}data: [DONE]\n\n`;
+
+    const { fetch } = createFetch(
+      () => new Response(sse, { status: 200, headers: { 'content-type': 'text/event-stream' } })
+    );
+    const provider = new OpenAICompatibleProvider({ apiKey: 'test', fetch });
+
+    const deltas: string[] = [];
+    let totalTokens = 0;
+    for await (const chunk of provider.stream({ messages: [{ role: 'user', content: 'Go' }] })) {
+      if (chunk.delta) deltas.push(chunk.delta);
+      if (chunk.completion) totalTokens = chunk.completion.usage.totalTokens;
+    }
+
+    expect(deltas.join('')).toBe('Light it up');
+    expect(totalTokens).toBe(13);
+  });
+
+  it('maps rate limits to an LLMError', async () => {
+    const { fetch } = createFetch(() => jsonResponse({ error: { message: 'Slow down' } }, 429));
+    const provider = new OpenAICompatibleProvider({ apiKey: 'test', maxRetries: 0, fetch });
+
+    await expect(
+      provider.complete({ messages: [{ role: 'user', content: 'Hi' }] })
+    ).rejects.toMatchObject({ name: 'LLMError', code: 'rate_limited', status: 429 });
+  });
+});
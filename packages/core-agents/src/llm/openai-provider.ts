@@ -0,0 +1,183 @@
+import OpenAI from 'openai';
+import {
+  BaseLLMProvider,
+  LLMError,
+  type LLMCompletion,
+  type LLMFinishReason,
+  type LLMRequest,
+  type LLMStreamChunk,
+} from './llm-provider';
+import { calculateCost, DEFAULT_MODEL_PRICING, type ModelPricing } from './usage';
+
+type ChatParams = OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
+
+export interface OpenAICompatibleProviderOptions {
+  apiKey?: string;
+  /** Any OpenAI-compatible endpoint, e.g. a local vLLM or Ollama server */
+  baseURL?: string;
+  organization?: string;
+  /** Model used when a request does not name one */
+  model?: string;
+  timeoutMs?: number;
+  /** Retries for connection errors, 429s and 5xx responses */
+  maxRetries?: number;
+  pricing?: Record<string, ModelPricing>;
+  /** Provider name reported on completions */
+  name?: string;
+  /** Custom fetch, e.g. for tests or proxies */
+  fetch?: (url: string, init?: Record<string, unknown>) => Promise<unknown>;
+}
+
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else.';
+
+/**
+ * Chat completions over the OpenAI HTTP API or any server that speaks it.
+ */
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name: string;
+
+  private readonly client: OpenAI;
+  private readonly model: string;
+  private readonly pricing: Record<string, ModelPricing>;
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    super();
+    if (!options.apiKey && !options.baseURL) {
+      throw new LLMError('configuration', 'OpenAI provider needs an API key or a base URL');
+    }
+
+    this.name = options.name ?? 'openai';
+    this.model = options.model ?? 'gpt-4o-mini';
+    this.pricing = options.pricing ?? DEFAULT_MODEL_PRICING;
+    this.client = new OpenAI({
+      // Local OpenAI-compatible servers usually accept any key
+      apiKey: options.apiKey ?? 'not-needed',
+      baseURL: options.baseURL ?? null,
+      organization: options.organization ?? null,
+      timeout: options.timeoutMs ?? 60_000,
+      maxRetries: options.maxRetries ?? 2,
+      ...(options.fetch && { fetch: options.fetch as never }),
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const params = this.buildParams(request);
+
+    try {
+      const response = await this.client.chat.completions.create(
+        params,
+        request.signal ? { signal: request.signal } : undefined
+      );
+      const choice = response.choices[0];
+
+      return this.toCompletion(
+        response.model || params.model,
+        choice?.message.content ?? '',
+        choice?.finish_reason,
+        response.usage
+      );
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const params = this.buildParams(request);
+    let content = '';
+    let model = params.model;
+    let finishReason: string | null | undefined;
+    let usage: OpenAI.CompletionUsage | null | undefined;
+
+    try {
+      const stream = await this.client.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        request.signal ? { signal: request.signal } : undefined
+      );
+
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        usage = chunk.usage ?? usage;
+        const choice = chunk.choices[0];
+        finishReason = choice?.finish_reason ?? finishReason;
+
+        const delta = choice?.delta.content ?? '';
+        if (delta) {
+          content += delta;
+          yield { delta };
+        }
+      }
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+
+    yield { delta: '', completion: this.toCompletion(model, content, finishReason, usage) };
+  }
+
+  private buildParams(request: LLMRequest): ChatParams {
+    const json = request.responseFormat?.type === 'json';
+    const messages = json
+      ? [{ role: 'system' as const, content: JSON_INSTRUCTION }, ...request.messages]
+      : request.messages;
+
+    return {
+      model: request.model ?? this.model,
+      messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.stop && { stop: request.stop }),
+      ...(json && { response_format: { type: 'json_object' as const } }),
+    };
+  }
+
+  private toCompletion(
+    model: string,
+    content: string,
+    finishReason: string | null | undefined,
+    usage: OpenAI.CompletionUsage | null | undefined
+  ): LLMCompletion {
+    const promptTokens = usage?.prompt_tokens ?? 0;
+    const completionTokens = usage?.completion_tokens ?? 0;
+
+    return {
+      content,
+      model,
+      provider: this.name,
+      finishReason: this.toFinishReason(finishReason),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+        costUsd: calculateCost(model, promptTokens, completionTokens, this.pricing),
+      },
+    };
+  }
+
+  private toFinishReason(reason: string | null | undefined): LLMFinishReason {
+    switch (reason) {
+      case 'stop':
+      case 'length':
+      case 'content_filter':
+        return reason;
+      default:
+        return 'unknown';
+    }
+  }
+
+  private toLLMError(error: unknown): LLMError {
+    if (error instanceof LLMError) return error;
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return new LLMError('aborted', 'LLM request aborted');
+    }
+    if (error instanceof OpenAI.APIError) {
+      return new LLMError(
+        error.status === 429 ? 'rate_limited' : 'request_failed',
+        `${this.name} request failed: ${error.message}`,
+        error.status
+      );
+    }
+    return new LLMError(
+      'request_failed',
+      `${this.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
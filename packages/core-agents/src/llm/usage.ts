@@ -0,0 +1,128 @@
+import {
+  addUsage,
+  emptyUsage,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMStreamChunk,
+  type LLMStructuredCompletion,
+  type LLMStructuredRequest,
+  type LLMUsage,
+} from './llm-provider';
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+/**
+ * Cost of a request in USD. Dated model names (e.g. `gpt-4o-2024-08-06`) use
+ * the price of their longest matching prefix; unknown models cost 0.
+ */
+export function calculateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  pricing: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING
+): number {
+  const key = Object.keys(pricing)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  const price = key ? pricing[key] : undefined;
+  if (!price) return 0;
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Rough token count for providers that do not report usage (~4 characters per token).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export interface LLMUsageSummary extends LLMUsage {
+  requests: number;
+}
+
+/**
+ * Accumulates token usage and cost, in total and per model.
+ */
+export class LLMUsageTracker {
+  private readonly models = new Map<string, LLMUsageSummary>();
+
+  record(completion: Pick<LLMCompletion, 'model' | 'usage'>): void {
+    const current = this.models.get(completion.model) ?? { ...emptyUsage(), requests: 0 };
+    this.models.set(completion.model, {
+      ...addUsage(current, completion.usage),
+      requests: current.requests + 1,
+    });
+  }
+
+  getTotals(): LLMUsageSummary {
+    let totals: LLMUsageSummary = { ...emptyUsage(), requests: 0 };
+    for (const summary of this.models.values()) {
+      totals = { ...addUsage(totals, summary), requests: totals.requests + summary.requests };
+    }
+    return totals;
+  }
+
+  getByModel(): Record<string, LLMUsageSummary> {
+    return Object.fromEntries(this.models);
+  }
+
+  reset(): void {
+    this.models.clear();
+  }
+}
+
+/**
+ * Wraps a provider for a single agent execution: every request inherits the
+ * execution's abort signal and its usage is recorded on `usage`.
+ */
+export class MeteredLLMProvider implements LLMProvider {
+  readonly usage = new LLMUsageTracker();
+
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const completion = await this.provider.complete(this.withSignal(request));
+    this.usage.record(completion);
+    return completion;
+  }
+
+  async completeJSON<T>(request: LLMStructuredRequest<T>): Promise<LLMStructuredCompletion<T>> {
+    const completion = await this.provider.completeJSON(this.withSignal(request));
+    this.usage.record(completion);
+    return completion;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    for await (const chunk of this.provider.stream(this.withSignal(request))) {
+      if (chunk.completion) this.usage.record(chunk.completion);
+      yield chunk;
+    }
+  }
+
+  private withSignal<R extends { signal?: AbortSignal }>(request: R): R {
+    if (request.signal || !this.signal) return request;
+    return { ...request, signal: this.signal };
+  }
+}
@@ -0,0 +1,553 @@
+import { PlatformSchema } from '../schemas';
+import type { PromptTemplate } from './prompt-template';
+
+type BuiltinTemplate = Omit<PromptTemplate, 'id'>;
+
+const PLATFORMS = PlatformSchema.options;
+
+const BRAND_VOICE: BuiltinTemplate = {
+  name: 'partials.brand_voice',
+  version: '1.0.0',
+  description: 'Who the brand is and how it sounds. Values usually come from the brand profile.',
+  isPartial: true,
+  template:
+    '{{brandName}} is {{brandDescription}}.' +
+    '{{#if brandVoice}} Brand voice: {{brandVoice}}.{{/if}}' +
+    '{{#if bannedWords}} Never use these words: {{bannedWords}}.{{/if}}',
+  variables: [
+    { name: 'brandName', type: 'string', default: 'NeonHub' },
+    {
+      name: 'brandDescription',
+      type: 'string',
+      default: 'a marketing platform for custom neon signage',
+    },
+    { name: 'brandVoice', type: 'string' },
+    { name: 'bannedWords', type: 'list' },
+  ],
+};
+
+const CONTENT_SYSTEM =
+  'You are the content writer for {{brandName}}. {{> partials.brand_voice}} ' +
+  'Write on-brand, platform-appropriate copy and follow the brief exactly.';
+
+const CONTENT_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'content.generate_posts',
+    version: '1.0.0',
+    description: 'Social media posts for one platform',
+    isPartial: false,
+    system: CONTENT_SYSTEM,
+    template:
+      'Write social media posts for {{platform}} about: {{topic}}\n' +
+      '- Tone: {{tone}}\n' +
+      '- Length: {{length}}\n' +
+      '{{#if targetAudience}}- Audience: {{targetAudience}}\n{{/if}}' +
+      '{{#if includeHashtags}}- Include relevant hashtags\n{{else}}- Do not use hashtags\n{{/if}}' +
+      'Return {"posts": [{"platform", "content", "hashtags", "imageSuggestions"}]}.',
+    variables: [
+      { name: 'platform', type: 'enum', options: PLATFORMS, required: true },
+      { name: 'topic', type: 'string', required: true },
+      {
+        name: 'tone',
+        type: 'enum',
+        options: ['professional', 'casual', 'humorous', 'inspirational', 'promotional'],
+        default: 'professional',
+      },
+      { name: 'length', type: 'enum', options: ['short', 'medium', 'long'], default: 'medium' },
+      { name: 'includeHashtags', type: 'boolean', default: true },
+      { name: 'targetAudience', type: 'string' },
+    ],
+  },
+  {
+    name: 'content.create_captions',
+    version: '1.0.0',
+    description: 'Captions for images or videos',
+    isPartial: false,
+    system: CONTENT_SYSTEM,
+    template:
+      'Write captions{{#if platform}} for {{platform}}{{/if}} about: {{topic}}\n' +
+      '{{#if imageDescription}}- Image: {{imageDescription}}\n{{/if}}' +
+      '{{#if tone}}- Tone: {{tone}}\n{{/if}}' +
+      '{{#if targetAudience}}- Audience: {{targetAudience}}\n{{/if}}' +
+      'Return {"captions": [{"platform", "caption", "hashtags"}]}.',
+    variables: [
+      { name: 'platform', type: 'string' },
+      { name: 'topic', type: 'string', required: true },
+      { name: 'imageDescription', type: 'string' },
+      { name: 'tone', type: 'string' },
+      { name: 'targetAudience', type: 'string' },
+    ],
+  },
+  {
+    name: 'content.write_emails',
+    version: '1.0.0',
+    description: 'Marketing emails',
+    isPartial: false,
+    system: CONTENT_SYSTEM,
+    template:
+      'Write a {{type}} email for: {{audience}}\n' +
+      '- Tone: {{tone}}\n' +
+      '{{#if subject}}- Subject line: {{subject}}\n{{/if}}' +
+      '{{#if includeCtaButton}}- End with a clear call-to-action button\n{{/if}}' +
+      'Return {"emails": [{"subject", "body", "type"}]}.',
+    variables: [
+      {
+        name: 'type',
+        type: 'enum',
+        options: ['newsletter', 'promotional', 'welcome', 'follow-up'],
+        default: 'newsletter',
+      },
+      { name: 'audience', type: 'string', required: true },
+      {
+        name: 'tone',
+        type: 'enum',
+        options: ['professional', 'casual', 'friendly', 'urgent'],
+        default: 'professional',
+      },
+      { name: 'subject', type: 'string' },
+      { name: 'includeCtaButton', type: 'boolean', default: true },
+    ],
+  },
+  {
+    name: 'content.optimize_content',
+    version: '1.0.0',
+    description: 'Rewrite existing content towards a goal',
+    isPartial: false,
+    system: CONTENT_SYSTEM,
+    template:
+      'Rewrite the content below to better meet the goal "{{goal}}" and list what you changed.\n' +
+      '{{#if platform}}- Platform: {{platform}}\n{{/if}}' +
+      '{{#if instructions}}- Instructions: {{instructions}}\n{{/if}}' +
+      'Content: {{originalContent}}\n' +
+      'Return {"optimizedContent", "suggestions"}.',
+    variables: [
+      { name: 'originalContent', type: 'json', required: true },
+      { name: 'goal', type: 'string', default: 'engagement' },
+      { name: 'platform', type: 'string' },
+      { name: 'instructions', type: 'string' },
+    ],
+  },
+  {
+    name: 'content.a_b_test_content',
+    version: '1.0.0',
+    description: 'Variants of a piece of content for an A/B test',
+    isPartial: false,
+    system: CONTENT_SYSTEM,
+    template:
+      'Write {{variantCount}} distinct variants of this content for an A/B test, each testing a different angle.\n' +
+      '{{#if goal}}- Goal: {{goal}}\n{{/if}}' +
+      '{{#if platform}}- Platform: {{platform}}\n{{/if}}' +
+      'Content: {{content}}\n' +
+      'Return {"variants": [{"id", "content"}]} with ids A, B, ...',
+    variables: [
+      { name: 'content', type: 'json', required: true },
+      { name: 'variantCount', type: 'number', default: 2 },
+      { name: 'goal', type: 'string' },
+      { name: 'platform', type: 'string' },
+    ],
+  },
+];
+
+const AD_SYSTEM =
+  'You are the paid media specialist for {{brandName}}. {{> partials.brand_voice}} ' +
+  'Base recommendations on the metrics given and keep them specific and actionable.';
+
+const AD_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'ad.optimize_ads',
+    version: '1.0.0',
+    description: 'Optimization suggestions per ad',
+    isPartial: false,
+    system: AD_SYSTEM,
+    template:
+      'Suggest optimizations for each ad.\n' +
+      '{{#if platform}}- Platform: {{platform}}\n{{/if}}' +
+      '{{#if objective}}- Objective: {{objective}}\n{{/if}}' +
+      '{{#if budget}}- Budget: {{budget}}\n{{/if}}' +
+      '- Ads: {{ads}}\n' +
+      'Return {"optimizations": [{"adId", "suggestions"}]}.',
+    variables: [
+      { name: 'ads', type: 'json' },
+      { name: 'platform', type: 'string' },
+      { name: 'objective', type: 'string' },
+      { name: 'budget', type: 'number' },
+    ],
+  },
+  {
+    name: 'ad.a_b_test_ads',
+    version: '1.0.0',
+    description: 'Ad variants with starting bids for an A/B test',
+    isPartial: false,
+    system: AD_SYSTEM,
+    template:
+      'Propose ad variants for an A/B test, each with its creative copy and a starting bid.\n' +
+      '{{#if platform}}- Platform: {{platform}}\n{{/if}}' +
+      '{{#if product}}- Product: {{product}}\n{{/if}}' +
+      '{{#if targetAudience}}- Audience: {{targetAudience}}\n{{/if}}' +
+      '{{#if creative}}- Current creative: {{creative}}\n{{/if}}' +
+      '{{#if bid}}- Current bid: {{bid}}\n{{/if}}' +
+      'Return {"variants": [{"id", "creative", "bid"}]} with ids A, B, ...',
+    variables: [
+      { name: 'platform', type: 'string' },
+      { name: 'product', type: 'string' },
+      { name: 'targetAudience', type: 'string' },
+      { name: 'creative', type: 'string' },
+      { name: 'bid', type: 'number' },
+    ],
+  },
+];
+
+const INSIGHT_SYSTEM =
+  'You are the marketing analyst for {{brandName}}. {{> partials.brand_voice}} ' +
+  'Only draw conclusions the data supports and say so when it is inconclusive.';
+
+const INSIGHT_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'insight.generate_reports',
+    version: '1.1.0',
+    description: 'Performance summary with highlights and recommendations',
+    isPartial: false,
+    system: INSIGHT_SYSTEM,
+    template:
+      'Summarize performance{{#if timeRange}} for {{timeRange}}{{/if}} and recommend next steps.\n' +
+      '{{#if title}}- Report: {{title}}\n{{/if}}' +
+      '{{#if comparisonRange}}- Compared with: {{comparisonRange}}\n{{/if}}' +
+      '{{#if metrics}}- Metrics: {{metrics}}\n{{/if}}' +
+      '{{#if campaigns}}- Campaigns: {{campaigns}}\n{{/if}}' +
+      'Keep the summary to a short paragraph and call out the largest changes as highlights.\n' +
+      'Return {"report": {"summary", "highlights", "recommendations"}}.',
+    variables: [
+      { name: 'title', type: 'string' },
+      { name: 'timeRange', type: 'string' },
+      { name: 'comparisonRange', type: 'string' },
+      { name: 'metrics', type: 'json' },
+      { name: 'campaigns', type: 'json' },
+    ],
+  },
+  {
+    name: 'insight.recommend_strategy',
+    version: '1.0.0',
+    description: 'Marketing strategy recommendation',
+    isPartial: false,
+    system: INSIGHT_SYSTEM,
+    template:
+      'Recommend a marketing strategy.\n' +
+      '{{#if goals}}- Goals: {{goals}}\n{{/if}}' +
+      '{{#if budget}}- Budget: {{budget}}\n{{/if}}' +
+      '{{#if targetAudience}}- Audience: {{targetAudience}}\n{{/if}}' +
+      '{{#if metrics}}- Current metrics: {{metrics}}\n{{/if}}' +
+      'Return {"strategy": {"focus", "budget", "timeline"}}.',
+    variables: [
+      { name: 'goals', type: 'json' },
+      { name: 'budget', type: 'number' },
+      { name: 'targetAudience', type: 'string' },
+      { name: 'metrics', type: 'json' },
+    ],
+  },
+  {
+    name: 'insight.identify_patterns',
+    version: '1.0.0',
+    description: 'Likely causes of metric anomalies flagged by alert rules',
+    isPartial: false,
+    system: INSIGHT_SYSTEM,
+    template:
+      'Explain these metric anomalies{{#if metric}} in {{metric}}{{/if}}.\n' +
+      '- Anomalies: {{anomalies}}\n' +
+      'Use the related metrics and recent activity of each one to tell tracking problems, ' +
+      'campaign changes and real shifts in demand apart.\n' +
+      'Return {"patterns": [{"pattern", "confidence"}], ' +
+      '"explanations": [{"anomalyId", "summary", "likelyCauses", "confidence"}]} ' +
+      'with one explanation per anomaly.',
+    variables: [
+      { name: 'anomalies', type: 'json', required: true },
+      { name: 'metric', type: 'string' },
+    ],
+  },
+];
+
+const DESIGN_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'design.generate_variations',
+    version: '1.0.0',
+    description: 'Color and style variations of a sign design',
+    isPartial: false,
+    system:
+      'You are the product designer for {{brandName}}. {{> partials.brand_voice}} ' +
+      'Describe designs concretely enough for a fabricator to quote them.',
+    template:
+      'Propose {{count}} color and style variations of this design.\n' +
+      '- Design: {{design}}\n' +
+      '{{#if constraints}}- Constraints: {{constraints}}\n{{/if}}' +
+      'Return {"variations": [{"id", "color", "style"}]} with ids var_1, var_2, ...',
+    variables: [
+      { name: 'design', type: 'json' },
+      { name: 'count', type: 'number', default: 3 },
+      { name: 'constraints', type: 'json' },
+    ],
+  },
+];
+
+const EMAIL_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'email.generate_template',
+    version: '1.0.0',
+    description: 'Responsive HTML email with a plain-text version',
+    isPartial: false,
+    system:
+      'You are the email designer for {{brandName}}. {{> partials.brand_voice}} ' +
+      'Write HTML that renders in every major email client: tables for layout and inline styles.',
+    template:
+      'Design a {{type}} email.\n' +
+      '- Brand: {{brand}}\n' +
+      '- Content: {{content}}\n' +
+      '{{#if personalization}}- Greet the reader by first name with a merge tag\n{{/if}}' +
+      '{{#if mobileOptimized}}- Make the layout single-column on small screens\n{{/if}}' +
+      'Return {"subject", "previewText", "htmlTemplate", "textTemplate"}.',
+    variables: [
+      {
+        name: 'type',
+        type: 'enum',
+        options: ['newsletter', 'promotional', 'welcome', 'follow-up', 'reminder', 'announcement'],
+        required: true,
+      },
+      { name: 'brand', type: 'json', required: true },
+      { name: 'content', type: 'json', required: true },
+      { name: 'personalization', type: 'boolean', default: true },
+      { name: 'mobileOptimized', type: 'boolean', default: true },
+    ],
+  },
+];
+
+const SEO_SYSTEM =
+  'You are the SEO specialist for {{brandName}}. {{> partials.brand_voice}} ' +
+  'Write for readers first and use keywords where they read naturally.';
+
+const SEO_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'seo.analyze_keywords',
+    version: '1.0.0',
+    description: 'Difficulty, volume and intent estimates for keywords',
+    isPartial: false,
+    system: SEO_SYSTEM,
+    template:
+      'Estimate ranking difficulty (0-100), monthly search volume and search intent for each keyword.\n' +
+      '- Keywords: {{keywords}}\n' +
+      '- Industry: {{industry}}\n' +
+      '{{#if targetLocation}}- Location: {{targetLocation}}\n{{/if}}' +
+      '{{#if website}}- Website: {{website}}\n{{/if}}' +
+      'Return {"keywords": [{"keyword", "difficulty", "volume", "intent"}], "recommendations"}.',
+    variables: [
+      { name: 'keywords', type: 'list', required: true },
+      { name: 'industry', type: 'string', required: true },
+      { name: 'targetLocation', type: 'string' },
+      { name: 'website', type: 'string' },
+    ],
+  },
+  {
+    name: 'seo.optimize_content',
+    version: '1.0.0',
+    description: 'Content rewritten for its keywords, with meta tags',
+    isPartial: false,
+    system: SEO_SYSTEM,
+    template:
+      'Optimize this {{contentType}} for the focus keyword "{{focusKeyword}}" and score it 0-100.\n' +
+      '- Other keywords: {{targetKeywords}}\n' +
+      '{{#if metaTitle}}- Current meta title: {{metaTitle}}\n{{/if}}' +
+      '{{#if metaDescription}}- Current meta description: {{metaDescription}}\n{{/if}}' +
+      'Content: {{content}}\n' +
+      'Return {"optimizedContent", "seoScore", "suggestions", "metaTitle", "metaDescription"}.',
+    variables: [
+      {
+        name: 'contentType',
+        type: 'enum',
+        options: ['blog', 'product', 'landing-page', 'social-post'],
+        required: true,
+      },
+      { name: 'focusKeyword', type: 'string', required: true },
+      { name: 'targetKeywords', type: 'list', required: true },
+      { name: 'metaTitle', type: 'string' },
+      { name: 'metaDescription', type: 'string' },
+      { name: 'content', type: 'string', required: true },
+    ],
+  },
+  {
+    name: 'seo.generate_titles',
+    version: '1.0.0',
+    description: 'Search-friendly titles with scores',
+    isPartial: false,
+    system: SEO_SYSTEM,
+    template:
+      'Write {{count}} {{tone}} titles for a {{contentType}} about: {{topic}}\n' +
+      '- Keywords: {{keywords}}\n' +
+      '- At most {{maxLength}} characters each\n' +
+      'Return {"titles": [{"title", "seoScore"}]} with scores from 0 to 100.',
+    variables: [
+      { name: 'topic', type: 'string', required: true },
+      { name: 'keywords', type: 'list', required: true },
+      {
+        name: 'contentType',
+        type: 'enum',
+        options: ['blog', 'product', 'landing-page', 'news'],
+        required: true,
+      },
+      {
+        name: 'tone',
+        type: 'enum',
+        options: ['professional', 'casual', 'urgent', 'friendly'],
+        default: 'professional',
+      },
+      { name: 'maxLength', type: 'number', default: 60 },
+      { name: 'count', type: 'number', default: 5 },
+    ],
+  },
+  {
+    name: 'seo.generate_meta_descriptions',
+    version: '1.0.0',
+    description: 'Meta descriptions for a page',
+    isPartial: false,
+    system: SEO_SYSTEM,
+    template:
+      'Write {{count}} meta descriptions of at most {{maxLength}} characters for the page "{{title}}".\n' +
+      '- Keywords: {{keywords}}\n' +
+      'Page content: {{content}}\n' +
+      'Return {"descriptions"}.',
+    variables: [
+      { name: 'title', type: 'string', required: true },
+      { name: 'content', type: 'string', required: true },
+      { name: 'keywords', type: 'list', required: true },
+      { name: 'maxLength', type: 'number', default: 155 },
+      { name: 'count', type: 'number', default: 3 },
+    ],
+  },
+];
+
+const SOCIAL_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'social.generate_content',
+    version: '1.0.0',
+    description: 'A post, story, reel script or thread for one platform',
+    isPartial: false,
+    system:
+      'You are the social media manager for {{brandName}}. {{> partials.brand_voice}} ' +
+      'Match each platform\'s conventions and length limits.',
+    template:
+      'Write a {{platform}} {{contentType}} about: {{topic}}\n' +
+      '- Tone: {{tone}}\n' +
+      '{{#if targetAudience}}- Audience: {{targetAudience}}\n{{/if}}' +
+      '{{#if maxLength}}- At most {{maxLength}} characters\n{{/if}}' +
+      '{{#if includeEmojis}}- Emojis are welcome\n{{else}}- Do not use emojis\n{{/if}}' +
+      '{{#if includeHashtags}}- Suggest relevant hashtags\n{{/if}}' +
+      'Return {"text", "hashtags", "suggestions"}.',
+    variables: [
+      {
+        name: 'platform',
+        type: 'enum',
+        options: ['FACEBOOK', 'INSTAGRAM', 'TIKTOK', 'TWITTER', 'LINKEDIN'],
+        required: true,
+      },
+      {
+        name: 'contentType',
+        type: 'enum',
+        options: ['post', 'story', 'reel', 'thread'],
+        required: true,
+      },
+      { name: 'topic', type: 'string', required: true },
+      {
+        name: 'tone',
+        type: 'enum',
+        options: ['professional', 'casual', 'humorous', 'inspirational', 'promotional'],
+        default: 'professional',
+      },
+      { name: 'targetAudience', type: 'string' },
+      { name: 'maxLength', type: 'number' },
+      { name: 'includeEmojis', type: 'boolean', default: true },
+      { name: 'includeHashtags', type: 'boolean', default: true },
+    ],
+  },
+];
+
+const SUPPORT_SYSTEM =
+  'You are a customer support agent for {{brandName}}. {{> partials.brand_voice}} ' +
+  'Be accurate and kind, never promise refunds or dates you cannot confirm, ' +
+  'and hand over to a person when you are unsure.';
+
+const SUPPORT_TEMPLATES: BuiltinTemplate[] = [
+  {
+    name: 'support.handle_ticket',
+    version: '1.0.0',
+    description: 'Reply to a support ticket and the next steps',
+    isPartial: false,
+    system: SUPPORT_SYSTEM,
+    template:
+      'Reply to this {{priority}} priority {{category}} ticket from {{customerName}}.\n' +
+      '{{#if accountType}}- Account: {{accountType}}\n{{/if}}' +
+      '{{#if previousTickets}}- Previous tickets: {{previousTickets}}\n{{/if}}' +
+      '- Subject: {{subject}}\n' +
+      'Message: {{description}}\n' +
+      'Return {"response", "resolved", "needsHuman", "estimatedResolutionTime", "nextSteps"}.',
+    variables: [
+      { name: 'customerName', type: 'string', required: true },
+      { name: 'priority', type: 'enum', options: ['low', 'medium', 'high', 'urgent'], default: 'medium' },
+      {
+        name: 'category',
+        type: 'enum',
+        options: ['technical', 'billing', 'general', 'complaint', 'feature_request'],
+        required: true,
+      },
+      { name: 'subject', type: 'string', required: true },
+      { name: 'description', type: 'string', required: true },
+      { name: 'accountType', type: 'string' },
+      { name: 'previousTickets', type: 'number' },
+    ],
+  },
+  {
+    name: 'support.generate_faq',
+    version: '1.0.0',
+    description: 'Answers to frequently asked questions',
+    isPartial: false,
+    system: SUPPORT_SYSTEM,
+    template:
+      'Answer these {{category}} questions for the help center in a {{tone}} tone.\n' +
+      '- Questions: {{questions}}\n' +
+      '{{#if companyName}}- Company: {{companyName}}\n{{/if}}' +
+      '{{#if values}}- Company values: {{values}}\n{{/if}}' +
+      '{{#if prohibitedWords}}- Never use: {{prohibitedWords}}\n{{/if}}' +
+      '{{#if includeLinks}}- Point to relevant help pages where it helps\n{{/if}}' +
+      'Return {"faqs": [{"question", "answer"}]} in the order asked.',
+    variables: [
+      {
+        name: 'category',
+        type: 'enum',
+        options: ['technical', 'billing', 'general', 'product'],
+        required: true,
+      },
+      { name: 'questions', type: 'list', required: true },
+      {
+        name: 'tone',
+        type: 'enum',
+        options: ['formal', 'friendly', 'concise', 'detailed'],
+        default: 'friendly',
+      },
+      { name: 'companyName', type: 'string' },
+      { name: 'values', type: 'list' },
+      { name: 'prohibitedWords', type: 'list' },
+      { name: 'includeLinks', type: 'boolean', default: true },
+    ],
+  },
+];
+
+/**
+ * Templates shipped with the agents. Versions saved through the prompts API
+ * with a higher version number take precedence.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  BRAND_VOICE,
+  ...CONTENT_TEMPLATES,
+  ...AD_TEMPLATES,
+  ...INSIGHT_TEMPLATES,
+  ...DESIGN_TEMPLATES,
+  ...EMAIL_TEMPLATES,
+  ...SEO_TEMPLATES,
+  ...SOCIAL_TEMPLATES,
+  ...SUPPORT_TEMPLATES,
+].map(template => ({ ...template, id: `builtin:${template.name}@${template.version}` }));
@@ -0,0 +1,137 @@
+import { ContentAgent } from '../agents/content-agent';
+import { PromptRegistry, type PromptTemplateSource } from './prompt-registry';
+import {
+  bumpVersion,
+  compareVersions,
+  validatePromptTemplate,
+  type PromptTemplate,
+} from './prompt-template';
+import { PromptTemplateError } from './template-engine';
+
+function storedTemplate(overrides: Partial<PromptTemplate> = {}): PromptTemplate {
+  return {
+    id: 'tmpl_1',
+    name: 'content.generate_posts',
+    version: '1.1.0',
+    system: 'You write for {{brandName}}.',
+    template: 'Posts about {{topic}} in a {{tone}} tone.',
+    variables: [
+      { name: 'topic', type: 'string', required: true },
+      { name: 'tone', type: 'string', default: 'professional' },
+      { name: 'brandName', type: 'string', default: 'NeonHub' },
+    ],
+    isPartial: false,
+    ...overrides,
+  };
+}
+
+function sourceWith(
+  templates: PromptTemplate[],
+  brands: Record<string, Record<string, unknown>> = {}
+): PromptTemplateSource {
+  return {
+    findVersions: async name => templates.filter(template => template.name === name),
+    findBrandVariables: async brandId => brands[brandId] ?? null,
+  };
+}
+
+describe('prompt versions', () => {
+  it('compares and bumps semantic versions', () => {
+    expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+    expect(compareVersions('2.0.0', '2.0.0')).toBe(0);
+    expect(bumpVersion('1.4.2', 'minor')).toBe('1.5.0');
+    expect(bumpVersion('1.4.2', 'major')).toBe('2.0.0');
+  });
+});
+
+describe('PromptRegistry', () => {
+  it('renders built-in templates with defaults and the brand voice partial', async () => {
+    const registry = new PromptRegistry();
+
+    const prompt = await registry.render('content.generate_posts', {
+      variables: { platform: 'INSTAGRAM', topic: 'Spring sale', unrelated: 42 },
+    });
+
+    expect(prompt.templateId).toBe('builtin:content.generate_posts@1.0.0');
+    expect(prompt.variables).toMatchObject({ tone: 'professional', length: 'medium' });
+    expect(prompt.variables).not.toHaveProperty('unrelated');
+    expect(prompt.messages[0]?.content).toContain('NeonHub is a marketing platform');
+    expect(prompt.messages[1]?.content).toContain('Spring sale');
+    expect(prompt.partials.map(partial => partial.name)).toEqual(['partials.brand_voice']);
+  });
+
+  it('prefers the highest version from the source', async () => {
+    const registry = new PromptRegistry(sourceWith([storedTemplate()]));
+
+    const prompt = await registry.render('content.generate_posts', {
+      variables: { topic: 'Neon' },
+    });
+    const pinned = await registry.render('content.generate_posts', {
+      variables: { platform: 'INSTAGRAM', topic: 'Neon' },
+      version: '1.0.0',
+    });
+
+    expect(prompt).toMatchObject({ templateId: 'tmpl_1', version: '1.1.0' });
+    expect(prompt.messages[1]?.content).toBe('Posts about Neon in a professional tone.');
+    expect(pinned.templateId).toBe('builtin:content.generate_posts@1.0.0');
+  });
+
+  it('fills variables from the brand before defaults, and from the input before both', async () => {
+    const registry = new PromptRegistry(
+      sourceWith([storedTemplate()], { brand_1: { brandName: 'Glowhaus', tone: 'playful' } })
+    );
+
+    const prompt = await registry.render('content.generate_posts', {
+      variables: { topic: 'Neon', tone: 'casual' },
+      brandId: 'brand_1',
+    });
+
+    expect(prompt.messages[0]?.content).toBe('You write for Glowhaus.');
+    expect(prompt.variables).toMatchObject({ brandName: 'Glowhaus', tone: 'casual' });
+  });
+
+  it('rejects missing required and invalid enum variables', async () => {
+    const registry = new PromptRegistry();
+
+    await expect(registry.render('content.generate_posts', { variables: {} })).rejects.toThrow(
+      PromptTemplateError
+    );
+    await expect(
+      registry.render('content.generate_posts', {
+        variables: { platform: 'MYSPACE', topic: 'Neon' },
+      })
+    ).rejects.toThrow('platform');
+  });
+
+  it('reports undeclared variables and unknown partials', () => {
+    const problems = validatePromptTemplate(
+      {
+        template: '{{topic}} {{mood}} {{> partials.missing}}',
+        variables: [{ name: 'topic', type: 'string' }],
+      },
+      { partials: new Map() }
+    );
+
+    expect(problems).toEqual([
+      'template: unknown partial "partials.missing"',
+      'template: variable "mood" is not declared',
+    ]);
+  });
+
+  it('records the templates an agent execution used', async () => {
+    const agent = new ContentAgent('content-1', 'Content Agent', {
+      prompts: new PromptRegistry(sourceWith([storedTemplate()])),
+    });
+
+    const result = await agent.execute({
+      task: 'generate_posts',
+      context: { platform: 'INSTAGRAM', topic: 'Spring sale' },
+      priority: 'medium',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.prompts).toEqual([
+      { templateId: 'tmpl_1', name: 'content.generate_posts', version: '1.1.0' },
+    ]);
+  });
+});
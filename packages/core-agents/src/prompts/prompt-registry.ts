@@ -0,0 +1,228 @@
+import type { LLMMessage } from '../llm/llm-provider';
+import { DEFAULT_PROMPT_TEMPLATES } from './default-templates';
+import {
+  buildVariablesSchema,
+  compareVersions,
+  type PromptReference,
+  type PromptTemplate,
+  type PromptVariable,
+} from './prompt-template';
+import { collectReferences, PromptTemplateError, renderTemplate } from './template-engine';
+
+/**
+ * Where templates edited at runtime are stored, e.g. the database.
+ */
+export interface PromptTemplateSource {
+  /** Active versions of a template, in any order */
+  findVersions(name: string): Promise<PromptTemplate[]>;
+  /** Values for brand-level variables such as `brandVoice` */
+  findBrandVariables?(brandId: string): Promise<Record<string, unknown> | null>;
+}
+
+export interface RenderPromptOptions {
+  /** Task inputs; keys that are not template variables are ignored */
+  variables?: Record<string, unknown>;
+  /** Brand whose variables fill in anything the task inputs leave out */
+  brandId?: string | undefined;
+  /** Brand variables supplied directly instead of looked up by `brandId` */
+  brandVariables?: Record<string, unknown>;
+  /** Exact version to render; the latest active version by default */
+  version?: string;
+}
+
+export interface RenderedPrompt extends PromptReference {
+  messages: LLMMessage[];
+  /** Values after defaults and brand variables were applied */
+  variables: Record<string, unknown>;
+  partials: PromptReference[];
+}
+
+export type PromptDraft = Pick<PromptTemplate, 'name' | 'system' | 'template' | 'variables'> &
+  Partial<Pick<PromptTemplate, 'id' | 'version'>>;
+
+export interface PromptRenderer {
+  render(name: string, options?: RenderPromptOptions): Promise<RenderedPrompt>;
+}
+
+export function toPromptReference(template: PromptReference): PromptReference {
+  return { templateId: template.templateId, name: template.name, version: template.version };
+}
+
+/**
+ * Resolves and renders prompt templates.
+ *
+ * Templates shipped in code are always available; versions from the source
+ * (the database in the API) are merged in and the highest semantic version
+ * wins. A source version with the same number as a built-in replaces it.
+ */
+export class PromptRegistry implements PromptRenderer {
+  private readonly builtins = new Map<string, PromptTemplate[]>();
+
+  constructor(
+    private readonly source?: PromptTemplateSource,
+    templates: PromptTemplate[] = DEFAULT_PROMPT_TEMPLATES
+  ) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register(template: PromptTemplate): void {
+    const versions = (this.builtins.get(template.name) ?? []).filter(
+      existing => existing.version !== template.version
+    );
+    this.builtins.set(template.name, [...versions, template]);
+  }
+
+  getBuiltinTemplates(): PromptTemplate[] {
+    return [...this.builtins.values()].flat();
+  }
+
+  /**
+   * All available versions of a template, newest first.
+   */
+  async getVersions(name: string): Promise<PromptTemplate[]> {
+    const byVersion = new Map<string, PromptTemplate>();
+    for (const template of this.builtins.get(name) ?? []) {
+      byVersion.set(template.version, template);
+    }
+    for (const template of (await this.source?.findVersions(name)) ?? []) {
+      byVersion.set(template.version, template);
+    }
+    return [...byVersion.values()].sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  async resolve(name: string, version?: string): Promise<PromptTemplate> {
+    const versions = await this.getVersions(name);
+    const template = version
+      ? versions.find(candidate => candidate.version === version)
+      : versions[0];
+    if (!template) {
+      throw new PromptTemplateError(
+        version
+          ? `Prompt template ${name}@${version} not found`
+          : `Prompt template ${name} not found`
+      );
+    }
+    return template;
+  }
+
+  async render(name: string, options: RenderPromptOptions = {}): Promise<RenderedPrompt> {
+    const template = await this.resolve(name, options.version);
+    if (template.isPartial) {
+      throw new PromptTemplateError(`${name} is a partial and cannot be rendered on its own`);
+    }
+    return this.renderDraft(template, options);
+  }
+
+  /**
+   * Render a template that does not have to be saved, e.g. to preview edits.
+   */
+  async renderDraft(
+    draft: PromptDraft,
+    options: RenderPromptOptions = {}
+  ): Promise<RenderedPrompt> {
+    const partials = await this.resolvePartials([draft.system ?? '', draft.template]);
+
+    // The template's own declarations override those of its partials
+    const declared = new Map<string, PromptVariable>();
+    for (const partial of partials) {
+      partial.variables.forEach(variable => declared.set(variable.name, variable));
+    }
+    draft.variables.forEach(variable => declared.set(variable.name, variable));
+
+    const brandVariables =
+      options.brandVariables ??
+      (options.brandId ? await this.source?.findBrandVariables?.(options.brandId) : undefined) ??
+      {};
+    const values = this.resolveValues(
+      [...declared.values()],
+      brandVariables,
+      options.variables ?? {}
+    );
+
+    const parsed = buildVariablesSchema([...declared.values()]).safeParse(values);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        .join('; ');
+      throw new PromptTemplateError(`Invalid variables for ${draft.name}: ${issues}`);
+    }
+
+    const partialSources = Object.fromEntries(
+      partials.map(partial => [partial.name, partial.template])
+    );
+    const messages: LLMMessage[] = [];
+    if (draft.system) {
+      messages.push({
+        role: 'system',
+        content: renderTemplate(draft.system, values, partialSources),
+      });
+    }
+    messages.push({
+      role: 'user',
+      content: renderTemplate(draft.template, values, partialSources),
+    });
+
+    return {
+      templateId: draft.id ?? 'draft',
+      name: draft.name,
+      version: draft.version ?? 'draft',
+      messages,
+      variables: values,
+      partials: partials.map(partial => ({
+        templateId: partial.id,
+        name: partial.name,
+        version: partial.version,
+      })),
+    };
+  }
+
+  /**
+   * A renderer that remembers which templates it rendered, so an execution
+   * can report the prompt versions it used.
+   */
+  scope(): PromptRenderer & { readonly used: PromptReference[] } {
+    const used: PromptReference[] = [];
+    return {
+      used,
+      render: async (name, options): Promise<RenderedPrompt> => {
+        const rendered = await this.render(name, options);
+        used.push(toPromptReference(rendered), ...rendered.partials);
+        return rendered;
+      },
+    };
+  }
+
+  private async resolvePartials(sources: string[]): Promise<PromptTemplate[]> {
+    const resolved = new Map<string, PromptTemplate>();
+    const pending = sources.flatMap(source => collectReferences(source).partials);
+
+    while (pending.length > 0) {
+      const name = pending.pop();
+      if (!name || resolved.has(name)) continue;
+
+      const partial = await this.resolve(name);
+      if (!partial.isPartial) {
+        throw new PromptTemplateError(`${name} is not a partial`);
+      }
+      resolved.set(name, partial);
+      pending.push(...collectReferences(partial.template).partials);
+    }
+
+    return [...resolved.values()];
+  }
+
+  private resolveValues(
+    variables: PromptVariable[],
+    brandVariables: Record<string, unknown>,
+    input: Record<string, unknown>
+  ): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const variable of variables) {
+      const value = [input[variable.name], brandVariables[variable.name], variable.default].find(
+        candidate => candidate !== undefined && candidate !== null
+      );
+      if (value !== undefined) values[variable.name] = value;
+    }
+    return values;
+  }
+}
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { collectReferences, PromptTemplateError } from './template-engine';
+
+export const PROMPT_NAME_PATTERN = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*$/;
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export const PromptVariableSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z_]\w*$/, 'Variable names must be identifiers'),
+  type: z.enum(['string', 'number', 'boolean', 'enum', 'list', 'json']),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  default: z.unknown().optional(),
+  /** Allowed values for `enum` variables */
+  options: z.array(z.string()).optional(),
+});
+
+export const PromptTemplateSchema = z.object({
+  name: z
+    .string()
+    .regex(PROMPT_NAME_PATTERN, 'Use dotted lowercase names, e.g. content.generate_posts'),
+  version: z.string().regex(SEMVER_PATTERN, 'Versions must look like 1.2.3'),
+  description: z.string().optional(),
+  /** Rendered into the system message; omitted for partials */
+  system: z.string().optional(),
+  /** Rendered into the user message, or inserted where a partial is included */
+  template: z.string(),
+  variables: z.array(PromptVariableSchema).default([]),
+  isPartial: z.boolean().default(false),
+});
+
+export type PromptVariable = z.infer<typeof PromptVariableSchema>;
+
+export interface PromptTemplate extends z.infer<typeof PromptTemplateSchema> {
+  /** Database id, or `builtin:<name>@<version>` for templates shipped in code */
+  id: string;
+}
+
+export interface PromptReference {
+  templateId: string;
+  name: string;
+  version: string;
+}
+
+// Semantic versions
+
+export function parseVersion(version: string): [number, number, number] {
+  const match = SEMVER_PATTERN.exec(version);
+  if (!match) throw new PromptTemplateError(`Invalid version "${version}"`);
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  for (let i = 0; i < 3; i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function bumpVersion(version: string, part: 'major' | 'minor' | 'patch'): string {
+  const [major, minor, patch] = parseVersion(version);
+  switch (part) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    default:
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+// Variables
+
+function variableValueSchema(variable: PromptVariable): z.ZodTypeAny {
+  switch (variable.type) {
+    case 'number':
+      return z.number();
+    case 'boolean':
+      return z.boolean();
+    case 'enum':
+      return variable.options && variable.options.length > 0
+        ? z.enum(variable.options as [string, ...string[]])
+        : z.string();
+    case 'list':
+      return z.array(z.string());
+    case 'json':
+      return z.unknown();
+    default:
+      return z.string();
+  }
+}
+
+/**
+ * Zod schema for the values of `variables`. Undeclared keys are dropped, so
+ * whole task contexts can be passed in.
+ */
+export function buildVariablesSchema(variables: PromptVariable[]): z.ZodObject<z.ZodRawShape> {
+  const shape: z.ZodRawShape = {};
+  for (const variable of variables) {
+    const schema = variableValueSchema(variable);
+    shape[variable.name] = variable.required ? schema : schema.nullish();
+  }
+  return z.object(shape);
+}
+
+/**
+ * Problems that would make a template fail to render: syntax errors, variables
+ * that are not declared and partials that do not exist.
+ */
+export function validatePromptTemplate(
+  template: Pick<PromptTemplate, 'system' | 'template' | 'variables'>,
+  available: { partials: Map<string, Pick<PromptTemplate, 'variables'>> }
+): string[] {
+  const problems: string[] = [];
+  const declared = new Set(template.variables.map(variable => variable.name));
+
+  for (const variable of template.variables) {
+    if (variable.type === 'enum' && !variable.options?.length) {
+      problems.push(`Enum variable "${variable.name}" has no options`);
+    }
+  }
+
+  const referenced: { label: string; name: string }[] = [];
+  for (const [label, source] of [
+    ['system', template.system],
+    ['template', template.template],
+  ] as const) {
+    if (source === undefined) continue;
+    try {
+      const references = collectReferences(source);
+      for (const partialName of references.partials) {
+        const partial = available.partials.get(partialName);
+        if (partial) {
+          partial.variables.forEach(variable => declared.add(variable.name));
+        } else {
+          problems.push(`${label}: unknown partial "${partialName}"`);
+        }
+      }
+      references.variables.forEach(name => referenced.push({ label, name }));
+    } catch (error) {
+      problems.push(`${label}: ${error instanceof Error ? error.message : 'invalid template'}`);
+    }
+  }
+
+  for (const { label, name } of referenced) {
+    if (!declared.has(name)) problems.push(`${label}: variable "${name}" is not declared`);
+  }
+
+  return problems;
+}
@@ -0,0 +1,53 @@
+import { collectReferences, PromptTemplateError, renderTemplate } from './template-engine';
+
+describe('renderTemplate', () => {
+  it('inserts variables, joining lists and serializing objects', () => {
+    const output = renderTemplate('{{topic}} for {{platforms}}: {{stats}}', {
+      topic: 'Spring sale',
+      platforms: ['INSTAGRAM', 'TIKTOK'],
+      stats: { ctr: 0.02 },
+    });
+
+    expect(output).toBe('Spring sale for INSTAGRAM, TIKTOK: {"ctr":0.02}');
+  });
+
+  it('renders the branch that matches whether a variable is set', () => {
+    const source = '{{#if audience}}For {{audience}}{{else}}For everyone{{/if}}.';
+
+    expect(renderTemplate(source, { audience: 'makers' })).toBe('For makers.');
+    expect(renderTemplate(source, { audience: '  ' })).toBe('For everyone.');
+    expect(renderTemplate(source, {})).toBe('For everyone.');
+  });
+
+  it('includes partials with the same values', () => {
+    const output = renderTemplate(
+      'Hi. {{> partials.sign_off}}',
+      { brandName: 'NeonHub' },
+      { 'partials.sign_off': 'Cheers, {{brandName}}' }
+    );
+
+    expect(output).toBe('Hi. Cheers, NeonHub');
+  });
+
+  it('stops partials that include themselves', () => {
+    expect(() => renderTemplate('{{> loop}}', {}, { loop: 'again {{> loop}}' })).toThrow(
+      PromptTemplateError
+    );
+  });
+
+  it('rejects unbalanced blocks', () => {
+    expect(() => renderTemplate('{{#if tone}}casual', {})).toThrow('Unclosed');
+    expect(() => renderTemplate('casual{{/if}}', {})).toThrow('Unexpected');
+  });
+});
+
+describe('collectReferences', () => {
+  it('finds variables and partials inside blocks', () => {
+    const references = collectReferences(
+      '{{topic}}{{#if tone}}{{tone}}{{else}}{{> partials.brand_voice}}{{/if}}'
+    );
+
+    expect(references.variables.sort()).toEqual(['tone', 'topic']);
+    expect(references.partials).toEqual(['partials.brand_voice']);
+  });
+});
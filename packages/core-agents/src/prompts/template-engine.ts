@@ -0,0 +1,157 @@
+/**
+ * Minimal Mustache-style template language for prompts:
+ *
+ * - `{{name}}` inserts a variable (lists are joined with ", ", objects as JSON)
+ * - `{{> partial_name}}` inserts another template
+ * - `{{#if name}}...{{else}}...{{/if}}` renders a branch when the variable is
+ *   set (non-empty string or list, true, non-zero number)
+ */
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'partial'; name: string }
+  | { type: 'if'; name: string; then: Node[]; otherwise: Node[] };
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const TAG = /{{\s*([#/>]?)\s*([a-zA-Z_][\w.]*)?\s*([a-zA-Z_][\w.]*)?\s*}}/g;
+
+export function parseTemplate(source: string): Node[] {
+  const root: Node[] = [];
+  const stack: { node: Extract<Node, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG)) {
+    const [tag, sigil = '', first, second] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (sigil === '#') {
+      if (first !== 'if' || !second) {
+        throw new PromptTemplateError(`Unsupported block "${tag}"; only {{#if name}} is supported`);
+      }
+      const node: Extract<Node, { type: 'if' }> = {
+        type: 'if',
+        name: second,
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === '/') {
+      if (first !== 'if' || !stack.pop()) {
+        throw new PromptTemplateError(`Unexpected "${tag}"`);
+      }
+    } else if (sigil === '>') {
+      if (!first) throw new PromptTemplateError(`Partial name missing in "${tag}"`);
+      current().push({ type: 'partial', name: first });
+    } else if (first === 'else' && !second) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new PromptTemplateError('Unexpected {{else}}');
+      top.inElse = true;
+    } else if (first && !second) {
+      current().push({ type: 'variable', name: first });
+    } else {
+      throw new PromptTemplateError(`Invalid tag "${tag}"`);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new PromptTemplateError(`Unclosed {{#if ${stack[stack.length - 1]?.node.name}}}`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  return root;
+}
+
+/**
+ * Variable and partial names a template refers to, including inside blocks.
+ */
+export function collectReferences(source: string): { variables: string[]; partials: string[] } {
+  const variables = new Set<string>();
+  const partials = new Set<string>();
+
+  const visit = (nodes: Node[]): void => {
+    for (const node of nodes) {
+      if (node.type === 'variable') variables.add(node.name);
+      if (node.type === 'partial') partials.add(node.name);
+      if (node.type === 'if') {
+        variables.add(node.name);
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTemplate(source));
+
+  return { variables: [...variables], partials: [...partials] };
+}
+
+function isSet(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return Boolean(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const MAX_PARTIAL_DEPTH = 5;
+
+/**
+ * Render `source` with `values`. `partials` maps partial names to their source.
+ */
+export function renderTemplate(
+  source: string,
+  values: Record<string, unknown>,
+  partials: Record<string, string> = {},
+  depth = 0
+): string {
+  if (depth > MAX_PARTIAL_DEPTH) {
+    throw new PromptTemplateError('Partials are nested too deeply (is one including itself?)');
+  }
+
+  const render = (nodes: Node[]): string =>
+    nodes
+      .map(node => {
+        switch (node.type) {
+          case 'text':
+            return node.value;
+          case 'variable':
+            return formatValue(values[node.name]);
+          case 'partial': {
+            const partial = partials[node.name];
+            if (partial === undefined) {
+              throw new PromptTemplateError(`Unknown partial "${node.name}"`);
+            }
+            return renderTemplate(partial, values, partials, depth + 1);
+          }
+          case 'if':
+            return render(isSet(values[node.name]) ? node.then : node.otherwise);
+          default:
+            return '';
+        }
+      })
+      .join('');
+
+  return render(parseTemplate(source));
+}
@@ -0,0 +1,58 @@
+import { CronParseError, isValidCron, nextCronRun, parseCron } from './cron';
+
+describe('cron schedules', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17 * JAN,jul mon-fri');
+
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.months].sort((a, b) => a - b)).toEqual([1, 7]);
+    expect([...schedule.daysOfWeek].sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.eitherDay).toBe(false);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 24 * * *')).toThrow(CronParseError);
+    expect(() => parseCron('0 9 * *')).toThrow('expected five fields');
+    expect(isValidCron('5-1 * * * *')).toBe(false);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('@weekly')).toBe(true);
+  });
+
+  it('finds the next run after a time', () => {
+    const after = new Date('2026-10-14T09:30:00Z'); // a Wednesday
+
+    expect(nextCronRun('0 9 * * MON', after)).toEqual(new Date('2026-10-19T09:00:00Z'));
+    expect(nextCronRun('30 9 * * *', after)).toEqual(new Date('2026-10-15T09:30:00Z'));
+    expect(nextCronRun('@monthly', after)).toEqual(new Date('2026-11-01T00:00:00Z'));
+    expect(nextCronRun('0 0 29 2 *', after)).toEqual(new Date('2028-02-29T00:00:00Z'));
+    expect(nextCronRun('0 0 30 2 *', after)).toBeNull();
+  });
+
+  it('fires on either day when day of month and weekday are both set', () => {
+    // The 1st of the month or any Friday
+    const after = new Date('2026-10-14T12:00:00Z');
+
+    expect(nextCronRun('0 8 1 * FRI', after)).toEqual(new Date('2026-10-16T08:00:00Z'));
+    expect(nextCronRun('0 8 1 * FRI', new Date('2026-10-30T09:00:00Z'))).toEqual(
+      new Date('2026-11-01T08:00:00Z')
+    );
+  });
+
+  it('runs at local time in the time zone, across daylight saving changes', () => {
+    // Berlin switches from CEST (+2) to CET (+1) on 2026-10-25
+    const weekly = '0 8 * * MON';
+
+    expect(nextCronRun(weekly, new Date('2026-10-14T00:00:00Z'), 'Europe/Berlin')).toEqual(
+      new Date('2026-10-19T06:00:00Z')
+    );
+    expect(nextCronRun(weekly, new Date('2026-10-20T00:00:00Z'), 'Europe/Berlin')).toEqual(
+      new Date('2026-10-26T07:00:00Z')
+    );
+    // 02:30 does not exist on 2026-03-29 in Berlin, so the next run is the day after
+    expect(nextCronRun('30 2 * * *', new Date('2026-03-28T12:00:00Z'), 'Europe/Berlin')).toEqual(
+      new Date('2026-03-30T00:30:00Z')
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { fromLocalTime, zonedParts } from '../analytics/rollups';
+
+// Five-field cron expressions (minute hour day-of-month month day-of-week) for report schedules
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether day of month and day of week were both restricted; either may then match */
+  eitherDay: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(
+    public readonly expression: string,
+    message: string
+  ) {
+    super(`Invalid cron expression "${expression}": ${message}`);
+    this.name = 'CronParseError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset of names[0] from min */
+  nameBase?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  // 7 is Sunday as well
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameBase: 0 },
+];
+
+// Runs are looked for this far ahead, which covers Feb 29 schedules
+const MAX_SEARCH_DAYS = 8 * 366;
+
+function parseValue(expression: string, field: FieldSpec, token: string): number {
+  const index = field.names?.indexOf(token.toUpperCase()) ?? -1;
+  const value = index >= 0 ? index + (field.nameBase ?? 0) : Number(token);
+  if (!/^\w+$/.test(token) || !Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new CronParseError(expression, `${field.name} "${token}" is out of range`);
+  }
+  return value;
+}
+
+function parseField(expression: string, field: FieldSpec, source: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of source.split(',')) {
+    const [range = '', stepSource] = part.split('/');
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(
+        expression,
+        `${field.name} step "${stepSource}" must be a positive integer`
+      );
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (range.includes('-')) {
+      const [start = '', end = ''] = range.split('-');
+      from = parseValue(expression, field, start);
+      to = parseValue(expression, field, end);
+      if (to < from) {
+        throw new CronParseError(expression, `${field.name} range "${range}" is reversed`);
+      }
+    } else {
+      from = parseValue(expression, field, range);
+      // `5/15` means every 15 from 5
+      to = stepSource === undefined ? from : field.max;
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+/** Parse a five-field cron expression or a macro such as `@weekly`; throws CronParseError */
+export function parseCron(expression: string): CronSchedule {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(expression, 'expected five fields: minute hour day month weekday');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((field, index) =>
+    parseField(expression, field, parts[index] ?? '')
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    eitherDay: !parts[2]?.startsWith('*') && !parts[4]?.startsWith('*'),
+  };
+}
+
+/** Whether the expression parses */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.has(month)) return false;
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const dayOfMonth = schedule.daysOfMonth.has(day);
+  const dayOfWeek = schedule.daysOfWeek.has(weekday);
+  return schedule.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time after `after` the schedule fires, in the time zone's wall-clock
+ * time. Times skipped by a daylight saving change do not fire; null when the
+ * schedule never fires, e.g. on February 30.
+ */
+export function nextCronRun(
+  expression: string | CronSchedule,
+  after: Date,
+  timeZone = 'UTC'
+): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const start = zonedParts(after, timeZone);
+  const year = start.year ?? 1970;
+  const month = start.month ?? 1;
+  const day = start.day ?? 1;
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const date = new Date(Date.UTC(year, month - 1, day + offset));
+    const [y, m, d] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    if (!matchesDay(schedule, y, m, d)) continue;
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const run = fromLocalTime(y, m, d, hour, minute, timeZone);
+        if (run <= after) continue;
+        const local = zonedParts(run, timeZone);
+        if (local.hour !== hour || local.minute !== minute) continue;
+        return run;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+import type { ReportDocument } from './document';
+
+// RFC 4180 CSV: each section as a titled table, separated by an empty line
+
+type Cell = string | number | null;
+
+/**
+ * Quote a cell when needed. Text starting with a formula character is
+ * prefixed with an apostrophe, so spreadsheets do not evaluate campaign names.
+ */
+export function csvCell(value: Cell): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(cells: Cell[]): string {
+  return cells.map(csvCell).join(',');
+}
+
+export function renderReportCsv(document: ReportDocument): string {
+  const lines: string[] = [
+    csvRow([document.title]),
+    csvRow(['Period', document.periodLabel]),
+    ...(document.comparisonLabel ? [csvRow(['Compared with', document.comparisonLabel])] : []),
+  ];
+
+  for (const block of document.blocks) {
+    lines.push('', csvRow([block.title]));
+    switch (block.type) {
+      case 'narrative':
+        lines.push(csvRow(['Summary', block.summary]));
+        for (const highlight of block.highlights) lines.push(csvRow(['Highlight', highlight]));
+        for (const recommendation of block.recommendations) {
+          lines.push(csvRow(['Recommendation', recommendation]));
+        }
+        break;
+      case 'kpis':
+        lines.push(csvRow(['Metric', 'Value', 'Previous', 'Change']));
+        for (const metric of block.metrics) {
+          lines.push(csvRow([metric.label, metric.value, metric.previous, metric.change]));
+        }
+        break;
+      case 'trend':
+        lines.push(csvRow(['Date', ...block.series.map(series => series.label)]));
+        for (const point of block.points) {
+          lines.push(
+            csvRow([point.date, ...block.series.map(series => point.values[series.metric] ?? 0)])
+          );
+        }
+        break;
+      case 'table':
+        lines.push(csvRow(block.columns.map(column => column.label)));
+        for (const row of block.rows) {
+          lines.push(csvRow(block.columns.map(column => row[column.key] ?? null)));
+        }
+        break;
+    }
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import {
+  bucketStart,
+  fromLocalTime,
+  isValidTimeZone,
+  nextBucketStart,
+  zonedParts,
+} from '../analytics/rollups';
+
+// What a report contains and which dates it covers
+
+export const ReportSectionSchema = z.discriminatedUnion('type', [
+  /** Summary, highlights and recommendations written by the insight agent */
+  z.object({ type: z.literal('narrative'), title: z.string().max(200).default('Summary') }),
+  /** Totals of the report's metrics against the comparison period */
+  z.object({ type: z.literal('kpis'), title: z.string().max(200).default('Key metrics') }),
+  /** Daily values; the report's metrics unless listed */
+  z.object({
+    type: z.literal('trend'),
+    title: z.string().max(200).default('Daily trend'),
+    metrics: z.array(z.string().min(1)).min(1).max(4).optional(),
+  }),
+  /** The report's metrics per campaign, largest first by the first metric */
+  z.object({
+    type: z.literal('campaigns'),
+    title: z.string().max(200).default('Campaigns'),
+    limit: z.number().int().min(1).max(100).default(20),
+  }),
+  /** The report's metrics per platform */
+  z.object({ type: z.literal('platforms'), title: z.string().max(200).default('Platforms') }),
+]);
+
+export type ReportSection = z.infer<typeof ReportSectionSchema>;
+
+export const ReportDatePresetSchema = z.enum([
+  'last_7_days',
+  'last_30_days',
+  'last_90_days',
+  'week_to_date',
+  'month_to_date',
+  'previous_week',
+  'previous_month',
+]);
+
+export type ReportDatePreset = z.infer<typeof ReportDatePresetSchema>;
+
+export const ReportDateRangeSchema = z
+  .discriminatedUnion('kind', [
+    /** Relative to when the report runs, in whole days up to yesterday */
+    z.object({ kind: z.literal('relative'), preset: ReportDatePresetSchema }),
+    /** Fixed dates; `to` is exclusive */
+    z.object({ kind: z.literal('fixed'), from: z.coerce.date(), to: z.coerce.date() }),
+  ])
+  .refine(range => range.kind !== 'fixed' || range.from < range.to, {
+    message: '`from` must be before `to`',
+  });
+
+export type ReportDateRange = z.infer<typeof ReportDateRangeSchema>;
+
+export const ReportComparisonSchema = z.enum(['none', 'previous_period', 'previous_year']);
+
+export type ReportComparison = z.infer<typeof ReportComparisonSchema>;
+
+export const ReportDefinitionSchema = z.object({
+  title: z.string().min(1).max(200),
+  sections: z
+    .array(ReportSectionSchema)
+    .min(1)
+    .max(20)
+    .default([{ type: 'narrative' }, { type: 'kpis' }, { type: 'trend' }, { type: 'campaigns' }]),
+  metrics: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(12)
+    .default(['impressions', 'clicks', 'conversions', 'revenue']),
+  /** Every campaign when left out */
+  campaignIds: z.array(z.string()).min(1).max(100).optional(),
+  dateRange: ReportDateRangeSchema.default({ kind: 'relative', preset: 'last_30_days' }),
+  comparison: ReportComparisonSchema.default('previous_period'),
+  timeZone: z.string().refine(isValidTimeZone, { message: 'Unknown time zone' }).default('UTC'),
+});
+
+export type ReportDefinition = z.infer<typeof ReportDefinitionSchema>;
+
+export interface ReportRange {
+  from: Date;
+  /** Exclusive */
+  to: Date;
+  label: string;
+}
+
+export interface ReportPeriod extends ReportRange {
+  comparison: ReportRange | null;
+}
+
+const labelFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatDay(date: Date, timeZone: string): string {
+  let formatter = labelFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    labelFormatters.set(timeZone, formatter);
+  }
+  return formatter.format(date);
+}
+
+/** "Sep 1, 2026 – Sep 30, 2026" for the local days the range covers */
+export function formatReportRange(from: Date, to: Date, timeZone = 'UTC'): string {
+  const first = formatDay(from, timeZone);
+  const last = formatDay(new Date(to.getTime() - 1), timeZone);
+  return first === last ? first : `${first} – ${last}`;
+}
+
+function range(from: Date, to: Date, timeZone: string): ReportRange {
+  return { from, to, label: formatReportRange(from, to, timeZone) };
+}
+
+/** The same local time `days` days earlier or later */
+function shiftDays(date: Date, days: number, timeZone: string): Date {
+  const p = zonedParts(date, timeZone);
+  return fromLocalTime(
+    p.year ?? 1970,
+    p.month ?? 1,
+    (p.day ?? 1) + days,
+    p.hour ?? 0,
+    p.minute ?? 0,
+    timeZone
+  );
+}
+
+function shiftMonths(date: Date, months: number, timeZone: string): Date {
+  const p = zonedParts(date, timeZone);
+  return fromLocalTime(
+    p.year ?? 1970,
+    (p.month ?? 1) + months,
+    p.day ?? 1,
+    p.hour ?? 0,
+    p.minute ?? 0,
+    timeZone
+  );
+}
+
+function localDays(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function currentRange(dateRange: ReportDateRange, timeZone: string, now: Date): ReportRange {
+  if (dateRange.kind === 'fixed') return range(dateRange.from, dateRange.to, timeZone);
+
+  const today = bucketStart(now, 'day', timeZone);
+  const yesterday = shiftDays(today, -1, timeZone);
+  switch (dateRange.preset) {
+    case 'last_7_days':
+      return range(shiftDays(today, -7, timeZone), today, timeZone);
+    case 'last_30_days':
+      return range(shiftDays(today, -30, timeZone), today, timeZone);
+    case 'last_90_days':
+      return range(shiftDays(today, -90, timeZone), today, timeZone);
+    // Up to yesterday, so a report running on the first day covers the whole previous week or month
+    case 'week_to_date':
+      return range(bucketStart(yesterday, 'week', timeZone), today, timeZone);
+    case 'month_to_date':
+      return range(bucketStart(yesterday, 'month', timeZone), today, timeZone);
+    case 'previous_week': {
+      const week = bucketStart(today, 'week', timeZone);
+      return range(shiftDays(week, -7, timeZone), week, timeZone);
+    }
+    case 'previous_month': {
+      const month = bucketStart(today, 'month', timeZone);
+      return range(shiftMonths(month, -1, timeZone), month, timeZone);
+    }
+  }
+}
+
+/**
+ * Dates a report covers when it runs at `now`, and the period it is compared
+ * with. The previous period of a calendar month is the month before; other
+ * ranges are compared with as many days right before them. The previous year
+ * is the same dates a year earlier.
+ */
+export function resolveReportPeriod(
+  definition: Pick<ReportDefinition, 'dateRange' | 'comparison' | 'timeZone'>,
+  now = new Date()
+): ReportPeriod {
+  const { timeZone } = definition;
+  const current = currentRange(definition.dateRange, timeZone, now);
+
+  let comparison: ReportRange | null = null;
+  if (definition.comparison === 'previous_year') {
+    comparison = range(
+      shiftMonths(current.from, -12, timeZone),
+      shiftMonths(current.to, -12, timeZone),
+      timeZone
+    );
+  } else if (definition.comparison === 'previous_period') {
+    const isMonth =
+      bucketStart(current.from, 'month', timeZone).getTime() === current.from.getTime() &&
+      nextBucketStart(current.from, 'month', timeZone).getTime() === current.to.getTime();
+    comparison = isMonth
+      ? range(shiftMonths(current.from, -1, timeZone), current.from, timeZone)
+      : range(
+          shiftDays(current.from, -localDays(current.from, current.to), timeZone),
+          current.from,
+          timeZone
+        );
+  }
+  return { ...current, comparison };
+}
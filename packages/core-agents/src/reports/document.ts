@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+// A report's content once its data is loaded, which every output format renders
+
+export type ReportValueFormat = 'number' | 'currency' | 'percent';
+
+export interface ReportMetricValue {
+  metric: string;
+  label: string;
+  format: ReportValueFormat;
+  value: number;
+  /** Value in the comparison period; null without one */
+  previous: number | null;
+  /** Relative change from the comparison period, e.g. 0.12; null without one or from 0 */
+  change: number | null;
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  format: ReportValueFormat | 'text';
+}
+
+export type ReportBlock =
+  | {
+      type: 'narrative';
+      title: string;
+      summary: string;
+      highlights: string[];
+      recommendations: string[];
+    }
+  | { type: 'kpis'; title: string; metrics: ReportMetricValue[] }
+  | {
+      type: 'trend';
+      title: string;
+      series: Array<{ metric: string; label: string; format: ReportValueFormat }>;
+      /** One point per local day, `date` as YYYY-MM-DD */
+      points: Array<{ date: string; values: Record<string, number> }>;
+    }
+  | {
+      type: 'table';
+      title: string;
+      columns: ReportColumn[];
+      rows: Array<Record<string, string | number | null>>;
+    };
+
+export interface ReportDocument {
+  title: string;
+  periodLabel: string;
+  comparisonLabel: string | null;
+  timeZone: string;
+  /** ISO timestamp */
+  generatedAt: string;
+  blocks: ReportBlock[];
+}
+
+export const ReportFormatSchema = z.enum(['html', 'pdf', 'csv', 'xlsx']);
+
+export type ReportFormat = z.infer<typeof ReportFormatSchema>;
+
+/** `1,234`, `$1,234.50` or `12.3%` (from 0.123) */
+export function formatReportValue(value: number | null, format: ReportValueFormat): string {
+  if (value === null || !Number.isFinite(value)) return '–';
+  switch (format) {
+    case 'currency':
+      return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      });
+    case 'percent':
+      return `${(value * 100).toFixed(value !== 0 && Math.abs(value) < 0.1 ? 2 : 1)}%`;
+    case 'number':
+      return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+}
+
+/** `+12.0%`, `-3.4%`, or a dash without a comparison */
+export function formatReportChange(change: number | null): string {
+  if (change === null || !Number.isFinite(change)) return '–';
+  return `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+}
+
+/** Relative change from `previous` to `value`; null without a previous value or from 0 */
+export function relativeChange(value: number, previous: number | null): number | null {
+  if (previous === null || previous === 0) return null;
+  return (value - previous) / Math.abs(previous);
+}
@@ -0,0 +1,139 @@
+import {
+  formatReportChange,
+  formatReportValue,
+  type ReportBlock,
+  type ReportDocument,
+} from './document';
+
+// Self-contained HTML with inline styles, so the same markup works as a download and an email body
+
+const SERIES_COLORS = ['#0891b2', '#7c3aed', '#16a34a', '#ea580c'];
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function changeColor(change: number | null): string {
+  if (change === null || change === 0) return '#6b7280';
+  return change > 0 ? '#16a34a' : '#dc2626';
+}
+
+function renderList(items: string[]): string {
+  if (items.length === 0) return '';
+  return `<ul style="margin:8px 0;padding-left:20px;">${items
+    .map(item => `<li style="margin:4px 0;">${escapeHtml(item)}</li>`)
+    .join('')}</ul>`;
+}
+
+/** Line chart of each series scaled to its own maximum, so metrics of different size share it */
+function renderTrendChart(block: Extract<ReportBlock, { type: 'trend' }>): string {
+  const width = 640;
+  const height = 200;
+  const count = block.points.length;
+  if (count < 2) return '<p style="color:#6b7280;">Not enough data for a trend.</p>';
+
+  const lines = block.series.map((series, index) => {
+    const values = block.points.map(point => point.values[series.metric] ?? 0);
+    const max = Math.max(...values, 0) || 1;
+    const path = values
+      .map((value, position) => {
+        const x = (position / (count - 1)) * (width - 20) + 10;
+        const y = height - 10 - (value / max) * (height - 20);
+        return `${position === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+    const color = SERIES_COLORS[index % SERIES_COLORS.length] ?? '#0891b2';
+    return `<path d="${path}" fill="none" stroke="${color}" stroke-width="2"/>`;
+  });
+  const legend = block.series
+    .map((series, index) => {
+      const color = SERIES_COLORS[index % SERIES_COLORS.length] ?? '#0891b2';
+      return `<span style="margin-right:16px;"><span style="display:inline-block;width:10px;height:10px;background:${color};margin-right:4px;"></span>${escapeHtml(series.label)}</span>`;
+    })
+    .join('');
+  const first = block.points[0]?.date ?? '';
+  const last = block.points[count - 1]?.date ?? '';
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" style="max-width:100%;border:1px solid #e5e7eb;">${lines.join('')}</svg>` +
+    `<div style="display:flex;justify-content:space-between;max-width:${width}px;font-size:12px;color:#6b7280;"><span>${first}</span><span>${last}</span></div>` +
+    `<div style="font-size:12px;margin-top:4px;">${legend}</div>`
+  );
+}
+
+function renderBlock(block: ReportBlock, comparisonLabel: string | null): string {
+  const heading = `<h2 style="font-size:18px;margin:28px 0 12px;color:#111827;">${escapeHtml(block.title)}</h2>`;
+  switch (block.type) {
+    case 'narrative':
+      return [
+        heading,
+        `<p style="line-height:1.5;">${escapeHtml(block.summary)}</p>`,
+        block.highlights.length > 0
+          ? `<h3 style="font-size:14px;margin:12px 0 0;">Highlights</h3>${renderList(block.highlights)}`
+          : '',
+        block.recommendations.length > 0
+          ? `<h3 style="font-size:14px;margin:12px 0 0;">Recommendations</h3>${renderList(block.recommendations)}`
+          : '',
+      ].join('');
+    case 'kpis': {
+      const cards = block.metrics.map(metric => {
+        const change = comparisonLabel
+          ? `<div style="font-size:12px;color:${changeColor(metric.change)};">${formatReportChange(metric.change)} vs ${formatReportValue(metric.previous, metric.format)}</div>`
+          : '';
+        return [
+          '<td style="border:1px solid #e5e7eb;border-radius:6px;padding:12px 16px;min-width:120px;">',
+          `<div style="font-size:12px;color:#6b7280;">${escapeHtml(metric.label)}</div>`,
+          `<div style="font-size:22px;font-weight:600;margin:4px 0;">${formatReportValue(metric.value, metric.format)}</div>`,
+          change,
+          '</td>',
+        ].join('');
+      });
+      return `${heading}<table role="presentation" style="border-collapse:separate;border-spacing:8px;"><tr>${cards.join('')}</tr></table>`;
+    }
+    case 'trend':
+      return `${heading}${renderTrendChart(block)}`;
+    case 'table': {
+      if (block.rows.length === 0) return `${heading}<p style="color:#6b7280;">No data.</p>`;
+      const align = (format: string): string => (format === 'text' ? 'left' : 'right');
+      const header = block.columns
+        .map(
+          column =>
+            `<th style="text-align:${align(column.format)};padding:6px 10px;border-bottom:2px solid #e5e7eb;">${escapeHtml(column.label)}</th>`
+        )
+        .join('');
+      const rows = block.rows.map(row => {
+        const cells = block.columns.map(column => {
+          const value = row[column.key] ?? null;
+          const text =
+            column.format === 'text' || typeof value !== 'number'
+              ? escapeHtml(String(value ?? '–'))
+              : formatReportValue(value, column.format);
+          return `<td style="text-align:${align(column.format)};padding:6px 10px;border-bottom:1px solid #f3f4f6;">${text}</td>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+      });
+      return `${heading}<table style="border-collapse:collapse;width:100%;font-size:13px;"><thead><tr>${header}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+    }
+  }
+}
+
+export function renderReportHtml(document: ReportDocument): string {
+  const comparison = document.comparisonLabel
+    ? ` · compared with ${escapeHtml(document.comparisonLabel)}`
+    : '';
+  return [
+    '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8">',
+    `<title>${escapeHtml(document.title)}</title></head>`,
+    '<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#1f2937;max-width:720px;margin:0 auto;padding:24px;">',
+    `<h1 style="font-size:24px;margin:0 0 4px;">${escapeHtml(document.title)}</h1>`,
+    `<p style="color:#6b7280;margin:0;">${escapeHtml(document.periodLabel)}${comparison}</p>`,
+    ...document.blocks.map(block => renderBlock(block, document.comparisonLabel)),
+    `<p style="color:#9ca3af;font-size:12px;margin-top:32px;">Generated ${escapeHtml(document.generatedAt)} (${escapeHtml(document.timeZone)})</p>`,
+    '</body></html>',
+  ].join('');
+}
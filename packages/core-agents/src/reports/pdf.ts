@@ -0,0 +1,420 @@
+import {
+  formatReportChange,
+  formatReportValue,
+  type ReportBlock,
+  type ReportDocument,
+} from './document';
+
+// PDF 1.4 written directly, with the built-in Helvetica fonts, so no browser or native library is needed
+
+type Rgb = [number, number, number];
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+}
+
+// Glyph widths of Helvetica and Helvetica-Bold for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+  611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+  278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding has a code for
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+/** The text in WinAnsiEncoding, one character per byte; anything else becomes "?" */
+function toWinAnsi(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 63;
+    const mapped = WIN_ANSI[char] ?? (code < 256 && (code >= 32 || code === 9) ? code : 63);
+    encoded += String.fromCharCode(mapped === 9 ? 32 : mapped);
+  }
+  return encoded;
+}
+
+function pdfString(encoded: string): string {
+  return `(${encoded.replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function rgb([r, g, b]: Rgb): string {
+  return `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+}
+
+/** Pages of text and vector graphics in points, with the origin at the bottom left */
+export class PdfWriter {
+  static readonly A4 = { width: 595.28, height: 841.89 };
+
+  private readonly pages: string[][] = [];
+
+  constructor(
+    readonly width = PdfWriter.A4.width,
+    readonly height = PdfWriter.A4.height
+  ) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get current(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1] as string[];
+  }
+
+  textWidth(value: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of toWinAnsi(value)) {
+      total += widths[char.charCodeAt(0) - 32] ?? 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  /** Cut the text to fit the width, ending it with an ellipsis */
+  fit(value: string, width: number, size: number, bold = false): string {
+    if (this.textWidth(value, size, bold) <= width) return value;
+    let fitted = value;
+    while (fitted.length > 0 && this.textWidth(`${fitted}…`, size, bold) > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}…`;
+  }
+
+  /** Break the text into lines no wider than `width` */
+  wrap(value: string, width: number, size: number, bold = false): string[] {
+    const lines: string[] = [];
+    for (const paragraph of value.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    this.current.push(
+      `BT ${rgb(options.color ?? [17, 24, 39])} rg /${options.bold ? 'F2' : 'F1'} ${num(size)} Tf ` +
+        `${num(x)} ${num(y)} Td ${pdfString(toWinAnsi(value))} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: Rgb): void {
+    this.current.push(`${rgb(fill)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number, color: Rgb): void {
+    this.current.push(
+      `${rgb(color)} RG 0.75 w ${num(x)} ${num(y)} ${num(width)} ${num(height)} re S`
+    );
+  }
+
+  polyline(points: ReadonlyArray<[number, number]>, color: Rgb, lineWidth = 1): void {
+    if (points.length < 2) return;
+    const path = points
+      .map(([x, y], index) => `${num(x)} ${num(y)} ${index === 0 ? 'm' : 'l'}`)
+      .join(' ');
+    this.current.push(`${rgb(color)} RG ${num(lineWidth)} w 1 j ${path} S`);
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage();
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    this.pages.forEach((operations, index) => {
+      const id = pageIds[index] ?? 0;
+      const content = operations.join('\n');
+      objects[id] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${id + 1} 0 R >>`;
+      objects[id + 1] =
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let output = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id] ?? 'null'}\nendobj\n`;
+    }
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id] ?? 0).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(output, 'latin1');
+  }
+}
+
+const MARGIN = 48;
+const GRAY: Rgb = [107, 114, 128];
+const LIGHT: Rgb = [229, 231, 235];
+const GREEN: Rgb = [22, 163, 74];
+const RED: Rgb = [220, 38, 38];
+const SERIES_COLORS: Rgb[] = [
+  [8, 145, 178],
+  [124, 58, 237],
+  [22, 163, 74],
+  [234, 88, 12],
+];
+
+/** Lays out a report top to bottom, starting a new page when the next element does not fit */
+class ReportLayout {
+  private y = 0;
+  readonly left = MARGIN;
+  readonly contentWidth: number;
+
+  constructor(private readonly pdf: PdfWriter) {
+    this.contentWidth = pdf.width - 2 * MARGIN;
+    this.newPage();
+  }
+
+  private newPage(): void {
+    this.pdf.addPage();
+    this.y = this.pdf.height - MARGIN;
+  }
+
+  fits(height: number): boolean {
+    return this.y - height >= MARGIN;
+  }
+
+  /** Move down by `height`, on a new page when it does not fit; returns the new baseline */
+  take(height: number): number {
+    if (!this.fits(height)) this.newPage();
+    this.y -= height;
+    return this.y;
+  }
+
+  gap(height: number): void {
+    this.y -= height;
+  }
+
+  paragraph(value: string, options: TextOptions & { indent?: number } = {}): void {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    for (const line of this.pdf.wrap(value, this.contentWidth - indent, size, options.bold)) {
+      this.pdf.text(this.left + indent, this.take(size * 1.4), line, options);
+    }
+  }
+
+  heading(title: string): void {
+    this.take(10);
+    this.pdf.text(this.left, this.take(20), title, { size: 14, bold: true });
+    this.gap(6);
+  }
+
+  kpis(block: Extract<ReportBlock, { type: 'kpis' }>, comparison: boolean): void {
+    const perRow = 4;
+    const gap = 8;
+    const width = (this.contentWidth - gap * (perRow - 1)) / perRow;
+    const height = comparison ? 58 : 44;
+    for (let start = 0; start < block.metrics.length; start += perRow) {
+      const bottom = this.take(height);
+      block.metrics.slice(start, start + perRow).forEach((metric, index) => {
+        const x = this.left + index * (width + gap);
+        this.pdf.strokeRect(x, bottom, width, height, LIGHT);
+        this.pdf.text(x + 8, bottom + height - 14, this.pdf.fit(metric.label, width - 16, 8), {
+          size: 8,
+          color: GRAY,
+        });
+        const value = formatReportValue(metric.value, metric.format);
+        this.pdf.text(x + 8, bottom + height - 32, this.pdf.fit(value, width - 16, 14, true), {
+          size: 14,
+          bold: true,
+        });
+        if (comparison) {
+          const color =
+            metric.change === null || metric.change === 0 ? GRAY : metric.change > 0 ? GREEN : RED;
+          const change = `${formatReportChange(metric.change)} vs ${formatReportValue(metric.previous, metric.format)}`;
+          this.pdf.text(x + 8, bottom + 10, this.pdf.fit(change, width - 16, 8), {
+            size: 8,
+            color,
+          });
+        }
+      });
+      this.gap(gap);
+    }
+  }
+
+  trend(block: Extract<ReportBlock, { type: 'trend' }>): void {
+    const height = 150;
+    if (block.points.length < 2) {
+      this.paragraph('Not enough data for a trend.', { color: GRAY });
+      return;
+    }
+    const bottom = this.take(height);
+    this.pdf.strokeRect(this.left, bottom, this.contentWidth, height, LIGHT);
+    const count = block.points.length;
+    block.series.forEach((series, index) => {
+      const values = block.points.map(point => point.values[series.metric] ?? 0);
+      const max = Math.max(...values, 0) || 1;
+      this.pdf.polyline(
+        values.map((value, position): [number, number] => [
+          this.left + 8 + (position / (count - 1)) * (this.contentWidth - 16),
+          bottom + 8 + (value / max) * (height - 16),
+        ]),
+        SERIES_COLORS[index % SERIES_COLORS.length] ?? GRAY,
+        1.5
+      );
+    });
+
+    const axis = this.take(14);
+    const last = block.points[count - 1]?.date ?? '';
+    this.pdf.text(this.left, axis, block.points[0]?.date ?? '', { size: 8, color: GRAY });
+    this.pdf.text(this.left + this.contentWidth - this.pdf.textWidth(last, 8), axis, last, {
+      size: 8,
+      color: GRAY,
+    });
+
+    const legend = this.take(14);
+    let x = this.left;
+    block.series.forEach((series, index) => {
+      this.pdf.rect(x, legend, 8, 8, SERIES_COLORS[index % SERIES_COLORS.length] ?? GRAY);
+      this.pdf.text(x + 12, legend, series.label, { size: 9 });
+      x += 24 + this.pdf.textWidth(series.label, 9);
+    });
+  }
+
+  table(block: Extract<ReportBlock, { type: 'table' }>): void {
+    if (block.rows.length === 0) {
+      this.paragraph('No data.', { color: GRAY });
+      return;
+    }
+    const size = 9;
+    const numeric = block.columns.filter(column => column.format !== 'text').length;
+    const numericWidth = Math.min(90, (this.contentWidth * 0.7) / Math.max(numeric, 1));
+    const textColumns = block.columns.length - numeric;
+    const textWidth = (this.contentWidth - numeric * numericWidth) / Math.max(textColumns, 1);
+    const widths = block.columns.map(column =>
+      column.format === 'text' ? textWidth : numericWidth
+    );
+
+    const row = (cells: string[], bold: boolean): void => {
+      const baseline = this.take(16);
+      let x = this.left;
+      cells.forEach((cell, index) => {
+        const width = widths[index] ?? numericWidth;
+        const fitted = this.pdf.fit(cell, width - 8, size, bold);
+        const isText = block.columns[index]?.format === 'text';
+        const cellX = isText ? x + 4 : x + width - 4 - this.pdf.textWidth(fitted, size, bold);
+        this.pdf.text(cellX, baseline + 4, fitted, { size, bold });
+        x += width;
+      });
+      this.pdf.rect(this.left, baseline, this.contentWidth, bold ? 1 : 0.5, LIGHT);
+    };
+
+    const header = block.columns.map(column => column.label);
+    row(header, true);
+    for (const values of block.rows) {
+      // Repeat the header at the top of each new page
+      if (!this.fits(16)) {
+        this.newPage();
+        row(header, true);
+      }
+      row(
+        block.columns.map(column => {
+          const value = values[column.key] ?? null;
+          return column.format === 'text' || typeof value !== 'number'
+            ? String(value ?? '–')
+            : formatReportValue(value, column.format);
+        }),
+        false
+      );
+    }
+  }
+}
+
+export function renderReportPdf(document: ReportDocument): Buffer {
+  const pdf = new PdfWriter();
+  const layout = new ReportLayout(pdf);
+
+  layout.paragraph(document.title, { size: 20, bold: true });
+  layout.paragraph(
+    document.comparisonLabel
+      ? `${document.periodLabel} · compared with ${document.comparisonLabel}`
+      : document.periodLabel,
+    { color: GRAY }
+  );
+
+  for (const block of document.blocks) {
+    layout.heading(block.title);
+    switch (block.type) {
+      case 'narrative':
+        layout.paragraph(block.summary);
+        if (block.highlights.length > 0) {
+          layout.gap(4);
+          layout.paragraph('Highlights', { bold: true });
+          for (const item of block.highlights) layout.paragraph(`• ${item}`, { indent: 8 });
+        }
+        if (block.recommendations.length > 0) {
+          layout.gap(4);
+          layout.paragraph('Recommendations', { bold: true });
+          for (const item of block.recommendations) layout.paragraph(`• ${item}`, { indent: 8 });
+        }
+        break;
+      case 'kpis':
+        layout.kpis(block, document.comparisonLabel !== null);
+        break;
+      case 'trend':
+        layout.trend(block);
+        break;
+      case 'table':
+        layout.table(block);
+        break;
+    }
+  }
+
+  layout.gap(16);
+  layout.paragraph(`Generated ${document.generatedAt} (${document.timeZone})`, {
+    size: 8,
+    color: GRAY,
+  });
+  return pdf.toBuffer();
+}
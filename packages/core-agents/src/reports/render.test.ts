@@ -0,0 +1,213 @@
+import { inflateRawSync } from 'zlib';
+import { resolveReportPeriod, ReportDefinitionSchema } from './definition';
+import type { ReportColumn, ReportDocument } from './document';
+import { csvCell } from './csv';
+import { renderReport } from './render';
+import { columnName } from './xlsx';
+import { crc32 } from './zip';
+
+const campaignColumns: ReportColumn[] = [
+  { key: 'name', label: 'Campaign', format: 'text' },
+  { key: 'revenue', label: 'Revenue', format: 'currency' },
+];
+
+const document: ReportDocument = {
+  title: 'Weekly performance',
+  periodLabel: 'Oct 5, 2026 – Oct 11, 2026',
+  comparisonLabel: 'Sep 28, 2026 – Oct 4, 2026',
+  timeZone: 'UTC',
+  generatedAt: '2026-10-12T08:00:00.000Z',
+  blocks: [
+    {
+      type: 'narrative',
+      title: 'Summary',
+      summary: 'Revenue grew 12% on (much) stronger email conversions.',
+      highlights: ['Email converted 2.4x better'],
+      recommendations: ['Shift budget to email – it is cheaper'],
+    },
+    {
+      type: 'kpis',
+      title: 'Key metrics',
+      metrics: [
+        {
+          metric: 'revenue',
+          label: 'Revenue',
+          format: 'currency',
+          value: 12500.5,
+          previous: 11161.16,
+          change: 0.12,
+        },
+        {
+          metric: 'ctr',
+          label: 'CTR',
+          format: 'percent',
+          value: 0.0231,
+          previous: null,
+          change: null,
+        },
+      ],
+    },
+    {
+      type: 'trend',
+      title: 'Daily trend',
+      series: [{ metric: 'revenue', label: 'Revenue', format: 'currency' }],
+      points: [
+        { date: '2026-10-05', values: { revenue: 1500 } },
+        { date: '2026-10-06', values: { revenue: 2100 } },
+      ],
+    },
+    {
+      type: 'table',
+      title: 'Campaigns',
+      columns: campaignColumns,
+      rows: [
+        { name: 'Launch, "Pro" <edition>', revenue: 9000 },
+        { name: '=HYPERLINK("x")', revenue: 3500.5 },
+      ],
+    },
+  ],
+};
+
+/** Entries of a ZIP archive by name, read from its central directory */
+function unzip(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries = new Map<string, string>();
+  for (let index = 0; index < count; index++) {
+    const size = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const local = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const start = local + 30 + archive.readUInt16LE(local + 26);
+    const data = inflateRawSync(archive.subarray(start, start + size));
+    expect(crc32(data)).toBe(archive.readUInt32LE(offset + 16));
+    entries.set(name, data.toString('utf8'));
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('report periods', () => {
+  const now = new Date('2026-10-14T10:00:00Z');
+
+  it('covers whole days up to yesterday and compares with the days before', () => {
+    const period = resolveReportPeriod(
+      ReportDefinitionSchema.parse({
+        title: 'Weekly',
+        dateRange: { kind: 'relative', preset: 'last_7_days' },
+      }),
+      now
+    );
+
+    expect(period.from).toEqual(new Date('2026-10-07T00:00:00Z'));
+    expect(period.to).toEqual(new Date('2026-10-14T00:00:00Z'));
+    expect(period.label).toBe('Oct 7, 2026 – Oct 13, 2026');
+    expect(period.comparison?.from).toEqual(new Date('2026-09-30T00:00:00Z'));
+    expect(period.comparison?.to).toEqual(period.from);
+  });
+
+  it('compares a calendar month with the month before, in the time zone', () => {
+    const period = resolveReportPeriod(
+      {
+        dateRange: { kind: 'relative', preset: 'previous_month' },
+        comparison: 'previous_period',
+        timeZone: 'America/New_York',
+      },
+      now
+    );
+
+    expect(period.from).toEqual(new Date('2026-09-01T04:00:00Z'));
+    expect(period.to).toEqual(new Date('2026-10-01T04:00:00Z'));
+    expect(period.comparison?.from).toEqual(new Date('2026-08-01T04:00:00Z'));
+    expect(
+      resolveReportPeriod(
+        {
+          dateRange: { kind: 'relative', preset: 'month_to_date' },
+          comparison: 'previous_year',
+          timeZone: 'UTC',
+        },
+        new Date('2026-11-01T06:00:00Z')
+      ).comparison?.label
+    ).toBe('Oct 1, 2025 – Oct 31, 2025');
+  });
+});
+
+describe('report rendering', () => {
+  it('escapes HTML and shows changes against the comparison period', () => {
+    const html = renderReport(document, 'html').content.toString('utf8');
+
+    expect(html).toContain('Launch, &quot;Pro&quot; &lt;edition&gt;');
+    expect(html).toContain('$12,500.50');
+    expect(html).toContain('+12.0% vs $11,161.16');
+    expect(html).toContain('<svg');
+  });
+
+  it('writes CSV that spreadsheets neither split nor evaluate', () => {
+    const rendered = renderReport(document, 'csv');
+    const csv = rendered.content.toString('utf8');
+
+    expect(rendered.filename).toBe('weekly-performance-2026-10-12.csv');
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(csv).toContain('"Launch, ""Pro"" <edition>",9000\r\n');
+    expect(csv).toContain(`"'=HYPERLINK(""x"")",3500.5`);
+    expect(csvCell('+1 555 0100')).toBe("'+1 555 0100");
+    expect(csvCell('-2+3')).toBe("'-2+3");
+    expect(csvCell('@SUM(A1:A2)')).toBe("'@SUM(A1:A2)");
+    expect(csvCell(-3)).toBe('-3');
+    expect(csvCell(null)).toBe('');
+  });
+
+  it('writes a PDF whose cross-reference table points at its objects', () => {
+    const pdf = renderReport(document, 'pdf').content;
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    const xref = Number(/startxref\n(\d+)/.exec(text)?.[1]);
+    expect(text.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match =>
+      Number(match[1])
+    );
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+    // Parentheses are escaped and the en dash is WinAnsi 0x96
+    expect(text).toContain('\\(much\\)');
+    expect(text).toContain('Shift budget to email \x96 it is cheaper');
+  });
+
+  it('paginates long tables', () => {
+    const rows = Array.from({ length: 120 }, (_, index) => ({
+      name: `Campaign ${index}`,
+      revenue: index * 10,
+    }));
+    const long: ReportDocument = {
+      ...document,
+      blocks: [{ type: 'table', title: 'Campaigns', columns: campaignColumns, rows }],
+    };
+    const text = renderReport(long, 'pdf').content.toString('latin1');
+
+    expect(Number(/\/Count (\d+)/.exec(text)?.[1])).toBeGreaterThan(1);
+    expect(text.match(/\(Campaign\) Tj/g)?.length).toBe(Number(/\/Count (\d+)/.exec(text)?.[1]));
+  });
+
+  it('writes an XLSX workbook with a sheet per section', () => {
+    const entries = unzip(renderReport(document, 'xlsx').content);
+
+    expect([...entries.keys()]).toContain('[Content_Types].xml');
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Campaigns" sheetId="5"');
+    const kpis = entries.get('xl/worksheets/sheet3.xml') ?? '';
+    expect(kpis).toContain('<c r="B2" s="4"><v>12500.5</v></c>');
+    expect(kpis).toContain('<c r="D2" s="5"><v>0.12</v></c>');
+    expect(entries.get('xl/worksheets/sheet5.xml')).toContain(
+      'Launch, &quot;Pro&quot; &lt;edition&gt;'
+    );
+    expect([columnName(0), columnName(25), columnName(26), columnName(701)]).toEqual([
+      'A',
+      'Z',
+      'AA',
+      'ZZ',
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { renderReportCsv } from './csv';
+import type { ReportDocument, ReportFormat } from './document';
+import { renderReportHtml } from './html';
+import { renderReportPdf } from './pdf';
+import { renderReportXlsx } from './xlsx';
+
+export interface RenderedReport {
+  format: ReportFormat;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** `weekly-performance-2026-10-18.pdf` from the title and the day it was generated */
+export function reportFileName(document: ReportDocument, format: ReportFormat): string {
+  const slug =
+    document.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'report';
+  return `${slug}-${document.generatedAt.slice(0, 10)}.${format}`;
+}
+
+export function renderReport(document: ReportDocument, format: ReportFormat): RenderedReport {
+  let content: Buffer;
+  switch (format) {
+    case 'html':
+      content = Buffer.from(renderReportHtml(document), 'utf8');
+      break;
+    case 'csv':
+      // With a byte order mark, so Excel reads it as UTF-8
+      content = Buffer.from(`\uFEFF${renderReportCsv(document)}`, 'utf8');
+      break;
+    case 'pdf':
+      content = renderReportPdf(document);
+      break;
+    case 'xlsx':
+      content = renderReportXlsx(document);
+      break;
+  }
+  return {
+    format,
+    filename: reportFileName(document, format),
+    contentType: REPORT_CONTENT_TYPES[format],
+    content,
+  };
+}
@@ -0,0 +1,256 @@
+import { type ReportBlock, type ReportDocument, type ReportValueFormat } from './document';
+import { createZip } from './zip';
+
+// Office Open XML workbook with an overview sheet and one sheet per section
+
+type Cell =
+  | { kind: 'text'; value: string; bold?: boolean }
+  | { kind: 'number'; value: number; format: ReportValueFormat | 'change' };
+
+type Row = Cell[];
+
+interface Sheet {
+  name: string;
+  rows: Row[];
+}
+
+// Indexes into cellXfs in STYLES
+const STYLE = { bold: 1, integer: 2, decimal: 3, currency: 4, percent: 5 } as const;
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const STYLES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="6">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs></styleSheet>';
+
+function escapeXml(value: string): string {
+  return (
+    value
+      // Control characters are not allowed in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
+
+/** A, B, …, Z, AA, … */
+export function columnName(index: number): string {
+  let name = '';
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    name = String.fromCharCode(65 + ((rest - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function text(value: string, bold = false): Cell {
+  return { kind: 'text', value, ...(bold && { bold }) };
+}
+
+function numberCell(value: number | null, format: ReportValueFormat | 'change'): Cell {
+  return value === null || !Number.isFinite(value) ? text('') : { kind: 'number', value, format };
+}
+
+function cellStyle(cell: Cell): number {
+  if (cell.kind === 'text') return cell.bold ? STYLE.bold : 0;
+  switch (cell.format) {
+    case 'currency':
+      return STYLE.currency;
+    case 'percent':
+    case 'change':
+      return STYLE.percent;
+    case 'number':
+      return Number.isInteger(cell.value) ? STYLE.integer : STYLE.decimal;
+  }
+}
+
+function renderSheet(sheet: Sheet): string {
+  const widths = new Map<number, number>();
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, columnIndex) => {
+          const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+          const length = cell.kind === 'text' ? cell.value.length : String(cell.value).length + 4;
+          widths.set(columnIndex, Math.max(widths.get(columnIndex) ?? 8, Math.min(length + 2, 80)));
+          const style = cellStyle(cell);
+          const styleAttribute = style ? ` s="${style}"` : '';
+          return cell.kind === 'text'
+            ? `<c r="${ref}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`
+            : `<c r="${ref}"${styleAttribute}><v>${cell.value}</v></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+  const columns = [...widths.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(
+      ([index, width]) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+    )
+    .join('');
+
+  return [
+    XML_DECLARATION,
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    columns ? `<cols>${columns}</cols>` : '',
+    `<sheetData>${rows}</sheetData></worksheet>`,
+  ].join('');
+}
+
+function blockRows(block: ReportBlock): Row[] {
+  switch (block.type) {
+    case 'narrative':
+      return [
+        [text('Summary', true), text(block.summary)],
+        ...block.highlights.map(highlight => [text('Highlight', true), text(highlight)]),
+        ...block.recommendations.map(item => [text('Recommendation', true), text(item)]),
+      ];
+    case 'kpis':
+      return [
+        ['Metric', 'Value', 'Previous', 'Change'].map(label => text(label, true)),
+        ...block.metrics.map(metric => [
+          text(metric.label),
+          numberCell(metric.value, metric.format),
+          numberCell(metric.previous, metric.format),
+          numberCell(metric.change, 'change'),
+        ]),
+      ];
+    case 'trend':
+      return [
+        [text('Date', true), ...block.series.map(series => text(series.label, true))],
+        ...block.points.map(point => [
+          text(point.date),
+          ...block.series.map(series =>
+            numberCell(point.values[series.metric] ?? 0, series.format)
+          ),
+        ]),
+      ];
+    case 'table':
+      return [
+        block.columns.map(column => text(column.label, true)),
+        ...block.rows.map(row =>
+          block.columns.map(column => {
+            const value = row[column.key] ?? null;
+            return column.format === 'text' || typeof value !== 'number'
+              ? text(String(value ?? ''))
+              : numberCell(value, column.format);
+          })
+        ),
+      ];
+  }
+}
+
+/** Sheet names are unique, at most 31 characters, and without []:*?/\ */
+function sheetName(title: string, taken: Set<string>): string {
+  const base =
+    title
+      .replace(/[[\]:*?/\\]/g, ' ')
+      .trim()
+      .slice(0, 31) || 'Sheet';
+  let name = base;
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix++) {
+    name = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+export function renderReportXlsx(document: ReportDocument): Buffer {
+  const taken = new Set<string>();
+  const sheets: Sheet[] = [
+    {
+      name: sheetName('Overview', taken),
+      rows: [
+        [text(document.title, true)],
+        [text('Period', true), text(document.periodLabel)],
+        ...(document.comparisonLabel
+          ? [[text('Compared with', true), text(document.comparisonLabel)]]
+          : []),
+        [text('Time zone', true), text(document.timeZone)],
+        [text('Generated', true), text(document.generatedAt)],
+      ],
+    },
+    ...document.blocks.map(block => ({
+      name: sheetName(block.title, taken),
+      rows: blockRows(block),
+    })),
+  ];
+
+  const overrides = sheets.map(
+    (_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  );
+  const sheetEntries = sheets.map(
+    (sheet, index) =>
+      `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+  );
+  const relationships = sheets.map(
+    (_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+  );
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content: [
+        XML_DECLARATION,
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+        ...overrides,
+        '</Types>',
+      ].join(''),
+    },
+    {
+      name: '_rels/.rels',
+      content: [
+        XML_DECLARATION,
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+        '</Relationships>',
+      ].join(''),
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: [
+        XML_DECLARATION,
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+        `<sheets>${sheetEntries.join('')}</sheets></workbook>`,
+      ].join(''),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: [
+        XML_DECLARATION,
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        ...relationships,
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+        '</Relationships>',
+      ].join(''),
+    },
+    { name: 'xl/styles.xml', content: STYLES },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      content: renderSheet(sheet),
+    })),
+  ]);
+}
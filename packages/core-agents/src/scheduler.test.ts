@@ -0,0 +1,144 @@
+import { AbstractAgent, type AgentExecuteOptions, type AgentPayload, type AgentResult } from './base-agent';
+import { AgentScheduler } from './scheduler';
+
+// Agent whose executions stay open until the test releases them
+class ControlledAgent extends AbstractAgent {
+  readonly started: string[] = [];
+  private readonly pending = new Map<string, () => void>();
+
+  constructor(id: string) {
+    super(id, `Agent ${id}`, 'test', {});
+  }
+
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.executeWithErrorHandling(
+      payload,
+      async () => {
+        this.started.push(payload.task);
+        await new Promise<void>(resolve => this.pending.set(payload.task, resolve));
+        return { task: payload.task };
+      },
+      options
+    );
+  }
+
+  release(task: string): void {
+    this.pending.get(task)?.();
+    this.pending.delete(task);
+  }
+}
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('AgentScheduler', () => {
+  it('starts waiting work in priority order', async () => {
+    const agent = new ControlledAgent('a');
+    const scheduler = new AgentScheduler({ maxConcurrent: 1, defaultAgentConcurrency: 1 });
+
+    const first = scheduler.schedule(agent, { task: 'first', priority: 'medium' });
+    const low = scheduler.schedule(agent, { task: 'low', priority: 'low' });
+    const high = scheduler.schedule(agent, { task: 'high', priority: 'high' });
+    await flush();
+
+    agent.release('first');
+    await first;
+    await flush();
+    agent.release('high');
+    await high;
+    await flush();
+    agent.release('low');
+    await low;
+
+    expect(agent.started).toEqual(['first', 'high', 'low']);
+  });
+
+  it('enforces per-agent concurrency limits', async () => {
+    const a = new ControlledAgent('a');
+    const b = new ControlledAgent('b');
+    const scheduler = new AgentScheduler({ maxConcurrent: 10, defaultAgentConcurrency: 1 });
+    scheduler.setAgentConcurrency('b', 2);
+
+    void scheduler.schedule(a, { task: 'a1', priority: 'medium' });
+    void scheduler.schedule(a, { task: 'a2', priority: 'medium' });
+    void scheduler.schedule(b, { task: 'b1', priority: 'medium' });
+    void scheduler.schedule(b, { task: 'b2', priority: 'medium' });
+    await flush();
+
+    expect(a.started).toEqual(['a1']);
+    expect(b.started).toEqual(['b1', 'b2']);
+    expect(scheduler.getStats()).toEqual({ running: 3, waiting: 1, byAgent: { a: 1, b: 2 } });
+  });
+
+  it('preempts low priority work for critical work and re-runs it afterwards', async () => {
+    const agent = new ControlledAgent('a');
+    const scheduler = new AgentScheduler({ maxConcurrent: 1 });
+
+    const low = scheduler.schedule(agent, { task: 'low', priority: 'low' });
+    await flush();
+    const critical = scheduler.schedule(agent, { task: 'critical', priority: 'critical' });
+    await flush();
+
+    expect(agent.started).toEqual(['low', 'critical']);
+
+    agent.release('critical');
+    expect((await critical).success).toBe(true);
+    await flush();
+
+    expect(agent.started).toEqual(['low', 'critical', 'low']);
+    agent.release('low');
+    expect((await low).success).toBe(true);
+  });
+
+  it('does not preempt for non-critical work', async () => {
+    const agent = new ControlledAgent('a');
+    const scheduler = new AgentScheduler({ maxConcurrent: 1 });
+
+    void scheduler.schedule(agent, { task: 'low', priority: 'low' });
+    await flush();
+    void scheduler.schedule(agent, { task: 'high', priority: 'high' });
+    await flush();
+
+    expect(agent.started).toEqual(['low']);
+  });
+
+  it('reports a timeout when the deadline passes', async () => {
+    const agent = new ControlledAgent('a');
+    const scheduler = new AgentScheduler();
+
+    const result = await scheduler.schedule(agent, {
+      task: 'slow',
+      priority: 'medium',
+      deadline: new Date(Date.now() + 20),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('timeout');
+    expect((await agent.getStatus()).status).toBe('idle');
+  });
+
+  it('cancels waiting and running work through the caller signal', async () => {
+    const agent = new ControlledAgent('a');
+    const scheduler = new AgentScheduler({ maxConcurrent: 1 });
+    const runningController = new AbortController();
+    const waitingController = new AbortController();
+
+    const running = scheduler.schedule(
+      agent,
+      { task: 'running', priority: 'medium' },
+      { signal: runningController.signal }
+    );
+    const waiting = scheduler.schedule(
+      agent,
+      { task: 'waiting', priority: 'medium' },
+      { signal: waitingController.signal }
+    );
+    await flush();
+
+    waitingController.abort();
+    runningController.abort();
+
+    expect((await waiting).errorCode).toBe('cancelled');
+    expect((await running).errorCode).toBe('cancelled');
+    expect(agent.started).toEqual(['running']);
+  });
+});
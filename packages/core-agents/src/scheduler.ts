@@ -0,0 +1,243 @@
+import {
+  AgentAbortError,
+  AgentPriorityWeight,
+  type AgentExecuteOptions,
+  type AgentPayload,
+  type AgentPriority,
+  type AgentResult,
+  type BaseAgent,
+} from './base-agent';
+
+export interface AgentSchedulerOptions {
+  /** Executions running at once across all agents */
+  maxConcurrent?: number;
+  /** Executions running at once per agent unless overridden with setAgentConcurrency */
+  defaultAgentConcurrency?: number;
+  /** Lowest priority allowed to preempt running work */
+  preemptAtOrAbove?: AgentPriority;
+  /** Running work at or below this priority may be preempted */
+  preemptibleAtOrBelow?: AgentPriority;
+  /** A preempted execution is re-queued at most this many times before it runs to completion */
+  maxPreemptions?: number;
+}
+
+interface ScheduledTask {
+  seq: number;
+  agent: BaseAgent;
+  payload: AgentPayload;
+  weight: number;
+  preemptions: number;
+  controller: AbortController | null;
+  resolve: (result: AgentResult) => void;
+}
+
+/**
+ * Priority-aware dispatcher for agent executions.
+ *
+ * Waiting work is started highest priority first (FIFO within a priority),
+ * subject to a global limit and a per-agent limit. When a task at or above
+ * `preemptAtOrAbove` cannot start because every slot is taken, the lowest
+ * priority preemptible task is aborted with a `preempted` reason and put back
+ * in the queue, so e.g. a critical support ticket does not wait behind a low
+ * priority trend scan.
+ */
+export class AgentScheduler {
+  private readonly maxConcurrent: number;
+  private readonly defaultAgentConcurrency: number;
+  private readonly preemptWeight: number;
+  private readonly preemptibleWeight: number;
+  private readonly maxPreemptions: number;
+  private readonly agentLimits = new Map<string, number>();
+  private readonly waiting: ScheduledTask[] = [];
+  private readonly running = new Set<ScheduledTask>();
+  private seq = 0;
+
+  constructor(options: AgentSchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? 10;
+    this.defaultAgentConcurrency = options.defaultAgentConcurrency ?? 1;
+    this.preemptWeight = AgentPriorityWeight[options.preemptAtOrAbove ?? 'critical'];
+    this.preemptibleWeight = AgentPriorityWeight[options.preemptibleAtOrBelow ?? 'low'];
+    this.maxPreemptions = options.maxPreemptions ?? 3;
+  }
+
+  setAgentConcurrency(agentId: string, limit: number | undefined): void {
+    if (limit === undefined) {
+      this.agentLimits.delete(agentId);
+    } else {
+      this.agentLimits.set(agentId, Math.max(1, Math.floor(limit)));
+    }
+    this.dispatch();
+  }
+
+  getAgentConcurrency(agentId: string): number {
+    return this.agentLimits.get(agentId) ?? this.defaultAgentConcurrency;
+  }
+
+  /**
+   * Queue an execution. Resolves with the agent result once it has run; a
+   * caller abort resolves it with a `cancelled` failure.
+   */
+  schedule(agent: BaseAgent, payload: AgentPayload, options: AgentExecuteOptions = {}): Promise<AgentResult> {
+    return new Promise<AgentResult>(resolve => {
+      const task: ScheduledTask = {
+        seq: this.seq++,
+        agent,
+        payload,
+        weight: AgentPriorityWeight[payload.priority],
+        preemptions: 0,
+        controller: null,
+        resolve,
+      };
+
+      if (options.signal?.aborted) {
+        resolve(this.cancelledResult(agent));
+        return;
+      }
+      options.signal?.addEventListener('abort', () => this.cancel(task), { once: true });
+
+      this.enqueue(task);
+      this.dispatch();
+    });
+  }
+
+  getStats(): { running: number; waiting: number; byAgent: Record<string, number> } {
+    const byAgent: Record<string, number> = {};
+    for (const task of this.running) {
+      byAgent[task.agent.id] = (byAgent[task.agent.id] ?? 0) + 1;
+    }
+    return { running: this.running.size, waiting: this.waiting.length, byAgent };
+  }
+
+  private enqueue(task: ScheduledTask): void {
+    // Keep the queue sorted: higher weight first, then submission order
+    const index = this.waiting.findIndex(
+      other => other.weight < task.weight || (other.weight === task.weight && other.seq > task.seq)
+    );
+    if (index === -1) {
+      this.waiting.push(task);
+    } else {
+      this.waiting.splice(index, 0, task);
+    }
+  }
+
+  private dispatch(): void {
+    for (let i = 0; i < this.waiting.length; ) {
+      const task = this.waiting[i];
+      if (!task) break;
+
+      if (!this.hasAgentSlot(task.agent.id)) {
+        if (this.tryPreempt(task, candidate => candidate.agent.id === task.agent.id)) continue;
+        i++;
+        continue;
+      }
+
+      if (this.running.size >= this.maxConcurrent) {
+        if (this.tryPreempt(task, () => true)) continue;
+        // No global slot: nothing further down the queue can start either
+        break;
+      }
+
+      this.waiting.splice(i, 1);
+      this.start(task);
+    }
+  }
+
+  private hasAgentSlot(agentId: string): boolean {
+    let count = 0;
+    for (const task of this.running) {
+      if (task.agent.id === agentId) count++;
+    }
+    return count < this.getAgentConcurrency(agentId);
+  }
+
+  /**
+   * Abort the lowest priority preemptible running task matching `filter`
+   * (most recently submitted first) and put it back in the waiting queue.
+   */
+  private tryPreempt(task: ScheduledTask, filter: (candidate: ScheduledTask) => boolean): boolean {
+    if (task.weight < this.preemptWeight) return false;
+
+    let victim: ScheduledTask | undefined;
+    for (const candidate of this.running) {
+      if (
+        candidate.weight <= this.preemptibleWeight &&
+        candidate.weight < task.weight &&
+        candidate.preemptions < this.maxPreemptions &&
+        !candidate.controller?.signal.aborted &&
+        filter(candidate) &&
+        (!victim ||
+          candidate.weight < victim.weight ||
+          (candidate.weight === victim.weight && candidate.seq > victim.seq))
+      ) {
+        victim = candidate;
+      }
+    }
+    if (!victim) return false;
+
+    victim.controller?.abort(new AgentAbortError('preempted', `Preempted by ${task.payload.task}`));
+    // Free the slot now; the victim's settled run is ignored and it is re-queued
+    this.running.delete(victim);
+    victim.preemptions++;
+    victim.controller = null;
+    this.enqueue(victim);
+    return true;
+  }
+
+  private start(task: ScheduledTask): void {
+    const controller = new AbortController();
+    task.controller = controller;
+    this.running.add(task);
+
+    task.agent
+      .execute(task.payload, { signal: controller.signal })
+      .then(result => this.settle(task, controller, result))
+      .catch(error =>
+        this.settle(task, controller, {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorCode: 'execution_error',
+          performance: 0,
+          metadata: {
+            agentId: task.agent.id,
+            agentName: task.agent.name,
+            timestamp: new Date().toISOString(),
+          },
+        })
+      );
+  }
+
+  private settle(task: ScheduledTask, controller: AbortController, result: AgentResult): void {
+    // A preempted run has already been replaced; only the current run may settle the task
+    if (task.controller !== controller) {
+      this.dispatch();
+      return;
+    }
+
+    this.running.delete(task);
+    task.controller = null;
+    task.resolve(result);
+    this.dispatch();
+  }
+
+  private cancel(task: ScheduledTask): void {
+    const index = this.waiting.indexOf(task);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+      task.resolve(this.cancelledResult(task.agent));
+      return;
+    }
+
+    // Running: abort it and let the agent report the cancellation
+    task.controller?.abort(new AgentAbortError('cancelled'));
+  }
+
+  private cancelledResult(agent: BaseAgent): AgentResult {
+    return {
+      success: false,
+      error: 'Execution cancelled',
+      errorCode: 'cancelled',
+      performance: 0,
+      metadata: { agentId: agent.id, agentName: agent.name, timestamp: new Date().toISOString() },
+    };
+  }
+}
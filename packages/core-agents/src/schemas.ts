@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Shared task schema building blocks; mirror the enums in the data model
+
+export const PlatformSchema = z.enum([
+  'FACEBOOK',
+  'INSTAGRAM',
+  'TIKTOK',
+  'TWITTER',
+  'LINKEDIN',
+  'YOUTUBE',
+  'EMAIL',
+  'WEBSITE',
+  'SHOPIFY',
+  'GOOGLE_ADS',
+  'META_ADS',
+]);
+
+export type Platform = z.infer<typeof PlatformSchema>;
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { ContentAgent } from './agents/content-agent';
+import { OutreachAgent } from './agents/outreach-agent';
+import {
+  AbstractAgent,
+  AgentManager,
+  defineAgentTasks,
+  type AgentExecuteOptions,
+  type AgentPayload,
+  type AgentResult,
+} from './base-agent';
+import { AGENT_TASKS, validateTaskInput } from './task-map';
+
+const BrokenTasks = defineAgentTasks({
+  count: {
+    input: z.object({ limit: z.number().default(3) }),
+    output: z.object({ total: z.number() }),
+  },
+});
+
+// Returns output that does not match its own schema
+class BrokenAgent extends AbstractAgent<typeof BrokenTasks> {
+  constructor() {
+    super('broken-1', 'Broken Agent', 'broken', BrokenTasks);
+  }
+
+  async execute(payload: AgentPayload, options?: AgentExecuteOptions): Promise<AgentResult> {
+    return this.runTask(
+      payload,
+      { count: async () => ({ total: 'many' }) as unknown as { total: number } },
+      options
+    );
+  }
+}
+
+describe('agent task schemas', () => {
+  it('declares a schema for every capability', () => {
+    const agent = new ContentAgent('content-1', 'Content Agent');
+
+    expect(agent.getCapabilities()).toEqual(Object.keys(AGENT_TASKS.content));
+  });
+
+  it('rejects input that does not match the task schema', async () => {
+    const agent = new ContentAgent('content-1', 'Content Agent');
+
+    const result = await agent.execute({
+      task: 'generate_posts',
+      context: { platform: 'MYSPACE' },
+      priority: 'medium',
+    });
+
+    expect(result).toMatchObject({ success: false, errorCode: 'invalid_payload' });
+    expect(result.error).toContain('platform');
+    expect(result.error).toContain('topic');
+  });
+
+  it('reports unknown tasks as invalid payloads', async () => {
+    const agent = new OutreachAgent('outreach-1', 'Outreach Agent');
+
+    const result = await agent.execute({ task: 'launch_rocket', priority: 'medium' });
+
+    expect(result).toMatchObject({ success: false, errorCode: 'invalid_payload' });
+  });
+
+  it('fails executions whose output does not match the task schema', async () => {
+    const result = await new BrokenAgent().execute({ task: 'count', priority: 'medium' });
+
+    expect(result).toMatchObject({ success: false, errorCode: 'execution_error' });
+    expect(result.error).toContain('total');
+  });
+
+  it('runs tasks by agent type and task name', async () => {
+    const manager = new AgentManager();
+    manager.registerAgent(new OutreachAgent('outreach-1', 'Outreach Agent'));
+
+    const result = await manager.executeAgent('outreach', 'nurture_leads', { leadIds: ['lead_1'] });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.nurtured).toEqual(expect.any(Number));
+  });
+});
+
+describe('validateTaskInput', () => {
+  it('lists problems for known agent types only', () => {
+    expect(validateTaskInput('content', 'write_emails', { audience: 'Makers' })).toEqual([]);
+    expect(validateTaskInput('content', 'write_emails', {})).toEqual(['audience: Required']);
+    expect(validateTaskInput('content', 'dance', {})).toEqual([
+      'Unknown task "dance" for content agents',
+    ]);
+    expect(validateTaskInput('crm', 'anything', {})).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import type { z } from 'zod';
+import type { AgentResult, AgentSideEffect, AgentTaskDefinition } from './base-agent';
+import { AdAgentTasks } from './agents/ad-agent';
+import { ContentAgentTasks } from './agents/content-agent';
+import { DesignAgentTasks } from './agents/design-agent';
+import { EmailAgentTasks } from './agents/email-agent';
+import { InsightAgentTasks } from './agents/insight-agent';
+import { OutreachAgentTasks } from './agents/outreach-agent';
+import { SEOAgentTasks } from './agents/seo-agent';
+import { SocialAgentTasks } from './agents/social-agent';
+import { SupportAgentTasks } from './agents/support-agent';
+import { TrendAgentTasks } from './agents/trend-agent';
+import { UIRefinementAgentTasks } from './agents/ui-refinement-agent';
+
+/**
+ * Task schemas of every agent type, keyed like the AgentFactory registry.
+ */
+export const AGENT_TASKS = {
+  content: ContentAgentTasks,
+  ad: AdAgentTasks,
+  outreach: OutreachAgentTasks,
+  trend: TrendAgentTasks,
+  insight: InsightAgentTasks,
+  design: DesignAgentTasks,
+  'ui-refinement': UIRefinementAgentTasks,
+  email: EmailAgentTasks,
+  seo: SEOAgentTasks,
+  social: SocialAgentTasks,
+  support: SupportAgentTasks,
+} as const;
+
+export type AgentTaskType = keyof typeof AGENT_TASKS;
+
+/**
+ * Input and output types of every task, derived from the schemas above:
+ * `TaskMap['content']['generate_posts']['output']` is what the content agent's
+ * `generate_posts` task returns in `result.data`.
+ */
+export type TaskMap = {
+  [Type in AgentTaskType]: {
+    [Task in keyof (typeof AGENT_TASKS)[Type]]: (typeof AGENT_TASKS)[Type][Task] extends AgentTaskDefinition<
+      infer Input,
+      infer Output
+    >
+      ? { input: z.input<Input>; output: z.output<Output> }
+      : never;
+  };
+};
+
+export type TaskName<Type extends AgentTaskType> = keyof TaskMap[Type] & string;
+
+export type TaskInput<
+  Type extends AgentTaskType,
+  Task extends TaskName<Type>,
+> = TaskMap[Type][Task] extends { input: infer Input } ? Input : never;
+
+export type TaskOutput<
+  Type extends AgentTaskType,
+  Task extends TaskName<Type>,
+> = TaskMap[Type][Task] extends { output: infer Output } ? Output : never;
+
+export type TaskResult<Type extends AgentTaskType, Task extends TaskName<Type>> = Omit<
+  AgentResult,
+  'data'
+> & {
+  data?: TaskOutput<Type, Task>;
+};
+
+export function isAgentTaskType(type: string): type is AgentTaskType {
+  return Object.prototype.hasOwnProperty.call(AGENT_TASKS, type);
+}
+
+/**
+ * The side effect a task declares, e.g. `spend` for `ad.manage_budget`.
+ * Tasks of unknown agent types are treated as having none.
+ */
+export function getTaskSideEffect(type: string, task: string): AgentSideEffect | undefined {
+  if (!isAgentTaskType(type)) return undefined;
+
+  const tasks: Record<string, AgentTaskDefinition> = AGENT_TASKS[type];
+  return Object.prototype.hasOwnProperty.call(tasks, task) ? tasks[task]?.sideEffect : undefined;
+}
+
+/**
+ * Check a task's input before it is queued. Returns the problems, or an empty
+ * list when the input is valid or the agent type declares no schemas.
+ */
+export function validateTaskInput(type: string, task: string, input: unknown): string[] {
+  if (!isAgentTaskType(type)) return [];
+
+  const tasks: Record<string, AgentTaskDefinition> = AGENT_TASKS[type];
+  const definition = Object.prototype.hasOwnProperty.call(tasks, task) ? tasks[task] : undefined;
+  if (!definition) return [`Unknown task "${task}" for ${type} agents`];
+
+  const parsed = definition.input.safeParse(input ?? {});
+  return parsed.success
+    ? []
+    : parsed.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      );
+}
@@ -0,0 +1,81 @@
+import { WorkflowDefinitionSchema, type WorkflowDefinition } from './workflow-definition';
+
+/**
+ * Finds a trend, writes posts about it, designs visuals, publishes each post
+ * and analyses the campaign once everything is out.
+ *
+ * Run input: `{ platform, campaignId?, keywords?, targetAudience?, designs? }`.
+ * Set `designs: false` to skip the design step. Publishing uses the
+ * `social.publish_post` action, which the host has to provide.
+ */
+export const CAMPAIGN_LAUNCH_WORKFLOW: WorkflowDefinition = WorkflowDefinitionSchema.parse({
+  name: 'campaign-launch',
+  description: 'Trend research, posts, designs, publishing and a performance review',
+  steps: [
+    {
+      id: 'trends',
+      agent: 'trend',
+      task: 'detect_trends',
+      input: {
+        keywords: { $ref: 'input.keywords' },
+        platform: { $ref: 'input.platform' },
+      },
+      retry: { maxAttempts: 3 },
+    },
+    {
+      id: 'posts',
+      agent: 'content',
+      task: 'generate_posts',
+      dependsOn: ['trends'],
+      input: {
+        platform: { $ref: 'input.platform' },
+        topic: { $ref: 'steps.trends.output.trends.0.keyword', default: 'our latest launch' },
+        targetAudience: { $ref: 'input.targetAudience' },
+        brandId: { $ref: 'input.brandId' },
+      },
+      retry: { maxAttempts: 3 },
+    },
+    {
+      id: 'designs',
+      agent: 'design',
+      task: 'generate_variations',
+      dependsOn: ['posts'],
+      when: { ref: 'input.designs', op: 'neq', value: false },
+      forEach: { items: 'steps.posts.output.posts' },
+      input: {
+        design: { platform: { $ref: 'item.platform' }, content: { $ref: 'item.content' } },
+        brandId: { $ref: 'input.brandId' },
+      },
+      retry: { maxAttempts: 2 },
+      continueOnError: true,
+    },
+    {
+      id: 'publish',
+      action: 'social.publish_post',
+      dependsOn: ['posts'],
+      forEach: { items: 'steps.posts.output.posts', concurrency: 2 },
+      input: {
+        platform: { $ref: 'input.platform' },
+        text: { $ref: 'item.content' },
+        hashtags: { $ref: 'item.hashtags' },
+        campaignId: { $ref: 'input.campaignId' },
+      },
+      retry: { maxAttempts: 3, backoffMs: 5_000 },
+    },
+    {
+      id: 'performance',
+      agent: 'insight',
+      task: 'analyze_performance',
+      dependsOn: ['designs', 'publish'],
+      input: { campaignId: { $ref: 'input.campaignId' } },
+    },
+  ],
+  output: {
+    posts: { $ref: 'steps.posts.output.posts' },
+    designs: { $ref: 'steps.designs.output' },
+    published: { $ref: 'steps.publish.output' },
+    metrics: { $ref: 'steps.performance.output.metrics' },
+  },
+});
+
+export const DEFAULT_WORKFLOWS: readonly WorkflowDefinition[] = [CAMPAIGN_LAUNCH_WORKFLOW];
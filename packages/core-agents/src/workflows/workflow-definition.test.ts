@@ -0,0 +1,110 @@
+import { CAMPAIGN_LAUNCH_WORKFLOW } from './default-workflows';
+import {
+  topologicalOrder,
+  validateWorkflowDefinition,
+  WorkflowDefinitionSchema,
+  type WorkflowDefinition,
+  type WorkflowDefinitionInput,
+} from './workflow-definition';
+import { evaluateCondition, resolveValue, type WorkflowRefContext } from './workflow-refs';
+
+const parse = (definition: WorkflowDefinitionInput): WorkflowDefinition =>
+  WorkflowDefinitionSchema.parse(definition);
+
+describe('validateWorkflowDefinition', () => {
+  it('accepts the built-in campaign launch workflow', () => {
+    expect(
+      validateWorkflowDefinition(CAMPAIGN_LAUNCH_WORKFLOW, { actions: ['social.publish_post'] })
+    ).toEqual([]);
+    expect(validateWorkflowDefinition(CAMPAIGN_LAUNCH_WORKFLOW, { actions: [] })).toEqual([
+      'publish: unknown action "social.publish_post"',
+    ]);
+  });
+
+  it('reports cycles and unknown steps', () => {
+    const cyclic = parse({
+      name: 'cyclic',
+      steps: [
+        { id: 'a', agent: 'trend', task: 'detect_trends', dependsOn: ['b'] },
+        { id: 'b', agent: 'trend', task: 'predict_trends', dependsOn: ['a', 'ghost'] },
+      ],
+    });
+
+    expect(validateWorkflowDefinition(cyclic)).toEqual([
+      'b: depends on unknown step "ghost"',
+      'Dependency cycle: a -> b -> a',
+    ]);
+    expect(() => topologicalOrder(cyclic.steps)).toThrow('Dependency cycle');
+  });
+
+  it('only lets steps read outputs of steps they depend on', () => {
+    const definition = parse({
+      name: 'refs',
+      steps: [
+        { id: 'trends', agent: 'trend', task: 'detect_trends' },
+        {
+          id: 'posts',
+          agent: 'content',
+          task: 'generate_posts',
+          input: { topic: { $ref: 'steps.trends.output.trends.0.keyword' }, n: { $ref: 'index' } },
+        },
+        { id: 'dance', agent: 'content', task: 'dance', dependsOn: ['posts'] },
+      ],
+    });
+
+    expect(validateWorkflowDefinition(definition)).toEqual([
+      'dance: unknown task "dance" for content agents',
+      'posts.input: "steps.trends.output.trends.0.keyword" refers to step "trends", which it does not depend on',
+      'posts.input: "index" is only available in forEach steps',
+    ]);
+  });
+
+  it('requires each step to run either an agent task or an action', () => {
+    const result = WorkflowDefinitionSchema.safeParse({
+      name: 'mixed',
+      steps: [{ id: 'a', agent: 'trend', task: 'detect_trends', action: 'social.publish_post' }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('workflow references', () => {
+  const context: WorkflowRefContext = {
+    input: { platform: 'INSTAGRAM' },
+    steps: {
+      trends: { status: 'COMPLETED', output: { trends: [{ keyword: 'neon', growth: 12 }] } },
+    },
+  };
+
+  it('resolves nested refs and falls back to defaults', () => {
+    expect(
+      resolveValue(
+        {
+          topic: { $ref: 'steps.trends.output.trends.0.keyword' },
+          tags: [{ $ref: 'input.platform' }, 'fixed'],
+          audience: { $ref: 'input.audience', default: 'everyone' },
+        },
+        context
+      )
+    ).toEqual({ topic: 'neon', tags: ['INSTAGRAM', 'fixed'], audience: 'everyone' });
+  });
+
+  it('evaluates conditions', () => {
+    expect(
+      evaluateCondition(
+        { ref: 'steps.trends.output.trends.0.growth', op: 'gt', value: 10 },
+        context
+      )
+    ).toBe(true);
+    expect(evaluateCondition({ ref: 'input.platform', op: 'in', value: ['TIKTOK'] }, context)).toBe(
+      false
+    );
+    expect(evaluateCondition({ ref: 'steps.trends.output.trends', op: 'truthy' }, context)).toBe(
+      true
+    );
+    expect(evaluateCondition({ ref: 'input.designs', op: 'neq', value: false }, context)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import { AGENT_TASKS, isAgentTaskType } from '../task-map';
+
+/**
+ * Reads a value from the run while a step's input is resolved, e.g.
+ * `{ $ref: 'steps.trends.output.trends.0.keyword' }`. Paths start at `input`
+ * (the run input), `steps.<id>.output` / `steps.<id>.status`, or — inside a
+ * `forEach` step — `item` and `index`.
+ */
+export const WorkflowRefSchema = z.object({
+  $ref: z.string().min(1),
+  default: z.unknown().optional(),
+});
+
+export const WorkflowConditionSchema = z.object({
+  ref: z.string().min(1),
+  op: z
+    .enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'exists', 'notExists', 'truthy', 'falsy'])
+    .default('truthy'),
+  value: z.unknown().optional(),
+});
+
+export const WorkflowRetrySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(1),
+  backoffMs: z.number().int().min(0).default(1_000),
+  maxBackoffMs: z.number().int().min(0).default(60_000),
+});
+
+export const WorkflowStepSchema = z
+  .object({
+    id: z.string().regex(/^[a-zA-Z][\w-]*$/, 'Step ids must start with a letter'),
+    name: z.string().optional(),
+    /** Agent type and task to run, e.g. `content` / `generate_posts` */
+    agent: z.string().optional(),
+    task: z.string().optional(),
+    /** Or a host-provided action, e.g. `social.publish_post` */
+    action: z.string().optional(),
+    /** The step's input; any nested `{ $ref }` object is replaced by the value it points at */
+    input: z.record(z.unknown()).default({}),
+    dependsOn: z.array(z.string()).default([]),
+    /** Run the step only when every condition holds; otherwise it is skipped */
+    when: z.union([WorkflowConditionSchema, z.array(WorkflowConditionSchema)]).optional(),
+    /** Run the step once per element of an array; its output is the array of results */
+    forEach: z
+      .object({
+        items: z.string().min(1),
+        concurrency: z.number().int().min(1).max(20).default(3),
+      })
+      .optional(),
+    retry: WorkflowRetrySchema.default({}),
+    /** Per-attempt time limit */
+    timeoutMs: z.number().int().positive().optional(),
+    /** Let dependent steps run after this step failed */
+    continueOnError: z.boolean().default(false),
+  })
+  .superRefine((step, ctx) => {
+    const runsAgent = step.agent !== undefined || step.task !== undefined;
+    if (runsAgent === (step.action !== undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'A step runs either an agent task or an action',
+      });
+    } else if (runsAgent && (!step.agent || !step.task)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Agent steps need both agent and task',
+      });
+    }
+  });
+
+export const WorkflowDefinitionSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  steps: z.array(WorkflowStepSchema).min(1).max(100),
+  /** Output of the run; defaults to the outputs of the steps nothing depends on */
+  output: z.record(z.unknown()).optional(),
+});
+
+export type WorkflowRef = z.infer<typeof WorkflowRefSchema>;
+export type WorkflowCondition = z.infer<typeof WorkflowConditionSchema>;
+export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+/** A definition as written, before defaults are applied */
+export type WorkflowDefinitionInput = z.input<typeof WorkflowDefinitionSchema>;
+
+export interface ValidateWorkflowOptions {
+  /** Action names the host can run; action steps are not checked when omitted */
+  actions?: Iterable<string>;
+}
+
+export function isWorkflowRef(value: unknown): value is WorkflowRef {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>).$ref === 'string'
+  );
+}
+
+/**
+ * Every `$ref` path in a value, however deeply nested.
+ */
+export function collectRefs(value: unknown): string[] {
+  if (isWorkflowRef(value)) return [value.$ref];
+  if (Array.isArray(value)) return value.flatMap(collectRefs);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(collectRefs);
+  return [];
+}
+
+/**
+ * Steps ordered so that each comes after everything it depends on.
+ * Throws when the dependencies form a cycle.
+ */
+export function topologicalOrder(steps: readonly WorkflowStep[]): WorkflowStep[] {
+  const byId = new Map(steps.map(step => [step.id, step]));
+  const ordered: WorkflowStep[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (step: WorkflowStep, path: string[]): void => {
+    const seen = state.get(step.id);
+    if (seen === 'done') return;
+    if (seen === 'visiting') {
+      throw new Error(`Dependency cycle: ${[...path, step.id].join(' -> ')}`);
+    }
+
+    state.set(step.id, 'visiting');
+    for (const id of step.dependsOn) {
+      const dependency = byId.get(id);
+      if (dependency) visit(dependency, [...path, step.id]);
+    }
+    state.set(step.id, 'done');
+    ordered.push(step);
+  };
+
+  for (const step of steps) visit(step, []);
+  return ordered;
+}
+
+function ancestorsOf(step: WorkflowStep, byId: Map<string, WorkflowStep>): Set<string> {
+  const ancestors = new Set<string>();
+  const pending = [...step.dependsOn];
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (ancestors.has(id)) continue;
+    ancestors.add(id);
+    pending.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+  return ancestors;
+}
+
+function checkRef(
+  path: string,
+  where: string,
+  allowed: { ancestors: Set<string>; inForEach: boolean; steps: Set<string> }
+): string | null {
+  const [root, stepId] = path.split('.');
+  if (root === 'input') return null;
+  if (root === 'item' || root === 'index') {
+    return allowed.inForEach ? null : `${where}: "${path}" is only available in forEach steps`;
+  }
+  if (root !== 'steps' || !stepId) {
+    return `${where}: "${path}" must start with input, steps, item or index`;
+  }
+  if (!allowed.steps.has(stepId)) return `${where}: "${path}" refers to unknown step "${stepId}"`;
+  if (!allowed.ancestors.has(stepId)) {
+    return `${where}: "${path}" refers to step "${stepId}", which it does not depend on`;
+  }
+  return null;
+}
+
+/**
+ * Problems that would stop a definition from running: duplicate or unknown
+ * step ids, cycles, references to steps that have not run yet, and unknown
+ * agent tasks or actions. An empty list means the definition is valid.
+ */
+export function validateWorkflowDefinition(
+  definition: WorkflowDefinition,
+  options: ValidateWorkflowOptions = {}
+): string[] {
+  const problems: string[] = [];
+  const actions = options.actions ? new Set(options.actions) : null;
+  const byId = new Map<string, WorkflowStep>();
+
+  for (const step of definition.steps) {
+    if (byId.has(step.id)) problems.push(`Duplicate step id "${step.id}"`);
+    byId.set(step.id, step);
+  }
+  const stepIds = new Set(byId.keys());
+
+  for (const step of definition.steps) {
+    for (const id of step.dependsOn) {
+      if (!byId.has(id)) problems.push(`${step.id}: depends on unknown step "${id}"`);
+    }
+
+    if (step.agent && step.task) {
+      if (!isAgentTaskType(step.agent)) {
+        problems.push(`${step.id}: unknown agent type "${step.agent}"`);
+      } else if (!Object.prototype.hasOwnProperty.call(AGENT_TASKS[step.agent], step.task)) {
+        problems.push(`${step.id}: unknown task "${step.task}" for ${step.agent} agents`);
+      }
+    }
+    if (step.action && actions && !actions.has(step.action)) {
+      problems.push(`${step.id}: unknown action "${step.action}"`);
+    }
+  }
+
+  try {
+    topologicalOrder(definition.steps);
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+    return problems;
+  }
+
+  for (const step of definition.steps) {
+    const allowed = {
+      ancestors: ancestorsOf(step, byId),
+      inForEach: step.forEach !== undefined,
+      steps: stepIds,
+    };
+    const conditions = step.when === undefined ? [] : [step.when].flat();
+    const refs = [
+      ...collectRefs(step.input).map(path => ({ path, where: `${step.id}.input` })),
+      ...conditions.map(condition => ({ path: condition.ref, where: `${step.id}.when` })),
+      ...(step.forEach
+        ? [{ path: step.forEach.items, where: `${step.id}.forEach`, outsideItem: true }]
+        : []),
+    ];
+
+    for (const ref of refs) {
+      const problem = checkRef(ref.path, ref.where, {
+        ...allowed,
+        // The items themselves cannot come from the current item
+        inForEach: allowed.inForEach && !('outsideItem' in ref),
+      });
+      if (problem) problems.push(problem);
+    }
+  }
+
+  for (const path of collectRefs(definition.output ?? {})) {
+    const problem = checkRef(path, 'output', {
+      ancestors: stepIds,
+      inForEach: false,
+      steps: stepIds,
+    });
+    if (problem) problems.push(problem);
+  }
+
+  return problems;
+}
@@ -0,0 +1,263 @@
+import { ContentAgent } from '../agents/content-agent';
+import { DesignAgent } from '../agents/design-agent';
+import { InsightAgent } from '../agents/insight-agent';
+import { TrendAgent } from '../agents/trend-agent';
+import { AgentManager, type AgentResult } from '../base-agent';
+import { CAMPAIGN_LAUNCH_WORKFLOW } from './default-workflows';
+import {
+  WorkflowDefinitionSchema,
+  type WorkflowDefinition,
+  type WorkflowDefinitionInput,
+} from './workflow-definition';
+import {
+  createAgentManagerRunner,
+  WorkflowEngine,
+  type WorkflowAction,
+  type WorkflowAgentRunner,
+  type WorkflowApprovalDecision,
+  type WorkflowApprovalGate,
+  type WorkflowApprovalRequest,
+} from './workflow-engine';
+import { InMemoryWorkflowRunStore } from './workflow-run';
+
+function agentManager(): AgentManager {
+  const manager = new AgentManager();
+  manager.registerAgent(new TrendAgent('trend-1', 'Trend Agent'));
+  manager.registerAgent(new ContentAgent('content-1', 'Content Agent'));
+  manager.registerAgent(new DesignAgent('design-1', 'Design Agent'));
+  manager.registerAgent(new InsightAgent('insight-1', 'Insight Agent'));
+  return manager;
+}
+
+/**
+ * Answers agent steps from a script keyed by task; each entry is consumed in order.
+ */
+function scriptedRunner(
+  script: Record<string, Array<AgentResult | (() => Promise<AgentResult>)>>
+): WorkflowAgentRunner & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    runAgentTask: async (_agent, task): Promise<AgentResult> => {
+      calls.push(task);
+      const next = script[task]?.shift();
+      if (!next) return { success: true, data: { task } };
+      return typeof next === 'function' ? next() : next;
+    },
+  };
+}
+
+const definition = (input: WorkflowDefinitionInput): WorkflowDefinition =>
+  WorkflowDefinitionSchema.parse(input);
+
+describe('WorkflowEngine', () => {
+  it('runs the campaign launch workflow with fan-out and fan-in', async () => {
+    const published: unknown[] = [];
+    const publish: WorkflowAction = async input => {
+      published.push(input);
+      return { postId: `post_${published.length}` };
+    };
+    const store = new InMemoryWorkflowRunStore();
+    const engine = new WorkflowEngine(createAgentManagerRunner(agentManager()), store, {
+      actions: { 'social.publish_post': publish },
+    });
+    const run = store.create(CAMPAIGN_LAUNCH_WORKFLOW, {
+      platform: 'INSTAGRAM',
+      campaignId: 'campaign_1',
+    });
+
+    const finished = await engine.execute(run.id);
+
+    expect(finished.status).toBe('COMPLETED');
+    const posts = (finished.output as { posts: unknown[] }).posts;
+    expect(published).toHaveLength(posts.length);
+    expect(published[0]).toMatchObject({ platform: 'INSTAGRAM', campaignId: 'campaign_1' });
+    expect(finished.steps.designs?.output).toHaveLength(posts.length);
+    expect(finished.output).toMatchObject({
+      published: expect.arrayContaining([{ postId: 'post_1' }]),
+      metrics: { roi: expect.any(Number) },
+    });
+    expect((await store.load(run.id))?.status).toBe('COMPLETED');
+  });
+
+  it('skips a branch whose condition fails and still runs the steps that join it', async () => {
+    const store = new InMemoryWorkflowRunStore();
+    const engine = new WorkflowEngine(createAgentManagerRunner(agentManager()), store, {
+      actions: { 'social.publish_post': async (): Promise<unknown> => ({ postId: 'post_1' }) },
+    });
+    const run = store.create(CAMPAIGN_LAUNCH_WORKFLOW, { platform: 'TIKTOK', designs: false });
+
+    const finished = await engine.execute(run.id);
+
+    expect(finished.status).toBe('COMPLETED');
+    expect(finished.steps.designs?.status).toBe('SKIPPED');
+    expect(finished.steps.performance?.status).toBe('COMPLETED');
+  });
+
+  it('retries failed attempts and does not retry invalid input', async () => {
+    const runner = scriptedRunner({
+      detect_trends: [{ success: false, error: 'Rate limited', errorCode: 'execution_error' }],
+      generate_posts: [{ success: false, error: 'topic: Required', errorCode: 'invalid_payload' }],
+    });
+    const store = new InMemoryWorkflowRunStore();
+    const engine = new WorkflowEngine(runner, store);
+    const run = store.create(
+      definition({
+        name: 'retry',
+        steps: [
+          {
+            id: 'trends',
+            agent: 'trend',
+            task: 'detect_trends',
+            retry: { maxAttempts: 2, backoffMs: 0 },
+          },
+          {
+            id: 'posts',
+            agent: 'content',
+            task: 'generate_posts',
+            dependsOn: ['trends'],
+            retry: { maxAttempts: 3, backoffMs: 0 },
+          },
+          { id: 'report', agent: 'insight', task: 'generate_reports', dependsOn: ['posts'] },
+        ],
+      })
+    );
+
+    const finished = await engine.execute(run.id);
+
+    expect(finished.steps.trends).toMatchObject({ status: 'COMPLETED', attempts: 2 });
+    expect(finished.steps.posts).toMatchObject({ status: 'FAILED', attempts: 1 });
+    expect(finished.steps.report?.status).toBe('CANCELLED');
+    expect(finished).toMatchObject({
+      status: 'FAILED',
+      error: 'Step posts failed: topic: Required',
+    });
+  });
+
+  it('lets dependents run after a step that may fail', async () => {
+    const runner = scriptedRunner({
+      detect_trends: [{ success: false, error: 'No data', errorCode: 'execution_error' }],
+    });
+    const store = new InMemoryWorkflowRunStore();
+    const run = store.create(
+      definition({
+        name: 'optional',
+        steps: [
+          { id: 'trends', agent: 'trend', task: 'detect_trends', continueOnError: true },
+          {
+            id: 'report',
+            agent: 'insight',
+            task: 'generate_reports',
+            dependsOn: ['trends'],
+            when: { ref: 'steps.trends.status', op: 'eq', value: 'FAILED' },
+          },
+        ],
+      })
+    );
+
+    const finished = await new WorkflowEngine(runner, store).execute(run.id);
+
+    expect(finished.status).toBe('COMPLETED');
+    expect(finished.steps.report?.status).toBe('COMPLETED');
+  });
+
+  it('resumes an interrupted run without repeating finished work', async () => {
+    const controller = new AbortController();
+    const runner = scriptedRunner({
+      analyze_performance: [
+        async (): Promise<AgentResult> => {
+          controller.abort();
+          return { success: false, error: 'Execution cancelled', errorCode: 'cancelled' };
+        },
+      ],
+    });
+    const store = new InMemoryWorkflowRunStore();
+    const engine = new WorkflowEngine(runner, store);
+    const run = store.create(
+      definition({
+        name: 'resume',
+        steps: [
+          {
+            id: 'variations',
+            agent: 'design',
+            task: 'generate_variations',
+            forEach: { items: 'input.designs', concurrency: 1 },
+            input: { design: { $ref: 'item' } },
+          },
+          {
+            id: 'analysis',
+            agent: 'insight',
+            task: 'analyze_performance',
+            dependsOn: ['variations'],
+          },
+        ],
+      }),
+      { designs: [{ color: 'pink' }, { color: 'cyan' }] }
+    );
+
+    const interrupted = await engine.execute(run.id, { signal: controller.signal });
+    expect(interrupted.status).toBe('RUNNING');
+    expect((await store.load(run.id))?.steps.analysis?.status).toBe('RUNNING');
+
+    const resumed = await engine.execute(run.id);
+
+    expect(resumed.status).toBe('COMPLETED');
+    expect(runner.calls).toEqual([
+      'generate_variations',
+      'generate_variations',
+      'analyze_performance',
+      'analyze_performance',
+    ]);
+    expect(resumed.output).toEqual({
+      analysis: { task: 'analyze_performance' },
+    });
+  });
+
+  it('parks side-effecting steps until they are approved', async () => {
+    const requests: WorkflowApprovalRequest[] = [];
+    const decisions = new Map<string, WorkflowApprovalDecision>();
+    const gate: WorkflowApprovalGate = {
+      check: async request => {
+        requests.push(request);
+        return decisions.get(request.stepId) ?? { status: 'pending' };
+      },
+    };
+    const runner = scriptedRunner({});
+    const store = new InMemoryWorkflowRunStore();
+    const engine = new WorkflowEngine(runner, store, { approvals: gate });
+    const run = store.create(
+      definition({
+        name: 'budget',
+        steps: [
+          { id: 'budget', agent: 'ad', task: 'manage_budget', input: { totalBudget: 900 } },
+          { id: 'report', agent: 'insight', task: 'generate_reports' },
+          { id: 'bids', agent: 'ad', task: 'adjust_bidding', dependsOn: ['budget'] },
+        ],
+      })
+    );
+
+    const parked = await engine.execute(run.id);
+
+    expect(parked.status).toBe('AWAITING_APPROVAL');
+    expect(parked.steps.budget?.status).toBe('AWAITING_APPROVAL');
+    expect(parked.steps.report?.status).toBe('COMPLETED');
+    expect(requests[0]).toMatchObject({
+      action: 'ad.manage_budget',
+      sideEffect: 'spend',
+      input: { totalBudget: 900 },
+    });
+    expect(runner.calls).toEqual(['generate_reports']);
+
+    decisions.set('budget', {
+      status: 'approved',
+      approvalId: 'approval_1',
+      input: { totalBudget: 500 },
+    });
+    decisions.set('bids', { status: 'rejected', reason: 'Bids are frozen' });
+    const resumed = await engine.execute(run.id);
+
+    expect(runner.calls).toEqual(['generate_reports', 'manage_budget']);
+    expect(resumed.steps.budget?.status).toBe('COMPLETED');
+    expect(resumed).toMatchObject({ status: 'FAILED', error: 'Step bids failed: Bids are frozen' });
+  });
+});
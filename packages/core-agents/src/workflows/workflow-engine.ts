@@ -0,0 +1,548 @@
+import {
+  createTaskPayload,
+  type AgentManager,
+  type AgentResult,
+  type AgentSideEffect,
+} from '../base-agent';
+import { getTaskSideEffect } from '../task-map';
+import {
+  topologicalOrder,
+  validateWorkflowDefinition,
+  type WorkflowDefinition,
+  type WorkflowStep,
+} from './workflow-definition';
+import {
+  evaluateCondition,
+  resolvePath,
+  resolveValue,
+  type WorkflowRefContext,
+} from './workflow-refs';
+import {
+  TERMINAL_RUN_STATUSES,
+  type WorkflowItemState,
+  type WorkflowRunState,
+  type WorkflowRunStore,
+  type WorkflowStepState,
+  type WorkflowStepStatus,
+} from './workflow-run';
+
+export interface WorkflowStepRunOptions {
+  /** Fires when the run is cancelled or its worker shuts down */
+  signal: AbortSignal;
+  /** Set from the step's `timeoutMs` */
+  deadline?: Date;
+  /** The run's metadata plus `workflowRunId` and `workflowStepId` */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Runs agent tasks for the engine, e.g. through the AgentManager or the API's AgentRuntime.
+ */
+export interface WorkflowAgentRunner {
+  runAgentTask(
+    agent: string,
+    task: string,
+    input: Record<string, unknown>,
+    options: WorkflowStepRunOptions
+  ): Promise<AgentResult>;
+}
+
+export interface WorkflowActionContext extends WorkflowStepRunOptions {
+  runId: string;
+  stepId: string;
+}
+
+/**
+ * A non-agent step provided by the host, e.g. publishing a post. Throw a
+ * WorkflowStepError with `retryable: false` when retrying cannot help.
+ */
+export type WorkflowAction = (
+  input: Record<string, unknown>,
+  context: WorkflowActionContext
+) => Promise<unknown>;
+
+/**
+ * An action with side effects outside NeonHub; it only runs once approved.
+ */
+export interface WorkflowActionDefinition {
+  run: WorkflowAction;
+  sideEffect?: AgentSideEffect;
+}
+
+export interface WorkflowApprovalRequest {
+  runId: string;
+  stepId: string;
+  /** Set for `forEach` steps, which need one approval per item */
+  itemIndex?: number;
+  /** `<agent type>.<task>` or the action name */
+  action: string;
+  sideEffect: AgentSideEffect;
+  input: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+}
+
+export type WorkflowApprovalDecision =
+  | { status: 'approved'; approvalId: string; input?: Record<string, unknown> }
+  | { status: 'pending' }
+  | { status: 'rejected'; reason: string };
+
+/**
+ * Decides whether a side-effecting step may run. Asked again every time the
+ * step is attempted, so it has to remember earlier requests.
+ */
+export interface WorkflowApprovalGate {
+  check(request: WorkflowApprovalRequest): Promise<WorkflowApprovalDecision>;
+}
+
+export interface WorkflowEngineOptions {
+  actions?: Record<string, WorkflowAction | WorkflowActionDefinition>;
+  /** Steps of one run executing at the same time */
+  maxParallelSteps?: number;
+  /** Without a gate, side-effecting steps run without approval */
+  approvals?: WorkflowApprovalGate;
+}
+
+export class WorkflowStepError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable = true
+  ) {
+    super(message);
+    this.name = 'WorkflowStepError';
+  }
+}
+
+/**
+ * Thrown by a step attempt that waits for approval; the run parks until the
+ * approval is decided and is then executed again.
+ */
+export class WorkflowApprovalPendingError extends Error {
+  constructor(stepId: string) {
+    super(`Step ${stepId} is awaiting approval`);
+    this.name = 'WorkflowApprovalPendingError';
+  }
+}
+
+/**
+ * Runs agent steps on the agents registered with `manager`, by id or type.
+ */
+export function createAgentManagerRunner(manager: AgentManager): WorkflowAgentRunner {
+  return {
+    runAgentTask: async (
+      agent,
+      task,
+      input,
+      { signal, deadline, metadata }
+    ): Promise<AgentResult> => {
+      const instance = manager.getAgent(agent) ?? manager.getAgentsByType(agent)[0];
+      if (!instance) throw new Error(`Agent not found: ${agent}`);
+      return instance.execute(
+        createTaskPayload(task, input, { metadata, ...(deadline && { deadline }) }),
+        { signal }
+      );
+    },
+  };
+}
+
+const FINISHED_STEP_STATUSES: ReadonlySet<WorkflowStepStatus> = new Set([
+  'COMPLETED',
+  'FAILED',
+  'SKIPPED',
+  'CANCELLED',
+]);
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const done = (): void => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Runs workflow definitions: a DAG of agent tasks and actions whose inputs are
+ * mapped from the run input and earlier step outputs.
+ *
+ * Independent steps run in parallel, `when` conditions skip steps (and every
+ * step whose dependencies were all skipped), `forEach` fans a step out over an
+ * array, and failed attempts are retried with exponential backoff. Each step
+ * transition is saved to the WorkflowRunStore, so `execute` on a run that was
+ * interrupted picks up where it stopped: finished steps and fan-out items are
+ * kept, steps that were running start over.
+ *
+ * Steps with side effects (agent tasks that declare one, or actions defined
+ * with `sideEffect`) ask the approval gate first. While an approval is
+ * pending the step waits, the rest of the run continues as far as it can, and
+ * the run ends up AWAITING_APPROVAL until the host executes it again.
+ */
+export class WorkflowEngine {
+  private readonly actions: Map<string, WorkflowActionDefinition>;
+  private readonly maxParallelSteps: number;
+  private readonly approvals: WorkflowApprovalGate | undefined;
+
+  constructor(
+    private readonly runner: WorkflowAgentRunner,
+    private readonly store: WorkflowRunStore,
+    options: WorkflowEngineOptions = {}
+  ) {
+    this.actions = new Map(
+      Object.entries(options.actions ?? {}).map(([name, action]) => [
+        name,
+        typeof action === 'function' ? { run: action } : action,
+      ])
+    );
+    this.maxParallelSteps = options.maxParallelSteps ?? 4;
+    this.approvals = options.approvals;
+  }
+
+  getActionNames(): string[] {
+    return [...this.actions.keys()];
+  }
+
+  validate(definition: WorkflowDefinition): string[] {
+    return validateWorkflowDefinition(definition, { actions: this.actions.keys() });
+  }
+
+  /**
+   * Run (or resume) a stored run until it finishes. When `signal` fires the
+   * engine stops without saving anything further, leaving the run to be
+   * cancelled by whoever aborted it or resumed later.
+   */
+  async execute(runId: string, options: { signal?: AbortSignal } = {}): Promise<WorkflowRunState> {
+    const run = await this.store.load(runId);
+    if (!run) throw new Error(`Workflow run not found: ${runId}`);
+    if (TERMINAL_RUN_STATUSES.has(run.status)) return run;
+
+    const problems = this.validate(run.definition);
+    if (problems.length > 0) {
+      run.status = 'FAILED';
+      run.error = problems.join('; ');
+      await this.store.saveRun(run.id, { status: run.status, error: run.error });
+      return run;
+    }
+
+    // Steps interrupted by a restart, or waiting for an approval, start over;
+    // finished fan-out items are kept
+    for (const state of Object.values(run.steps)) {
+      if (state.status === 'RUNNING' || state.status === 'AWAITING_APPROVAL') {
+        state.status = 'PENDING';
+      }
+    }
+    run.status = 'RUNNING';
+    await this.store.saveRun(run.id, { status: 'RUNNING' });
+
+    const controller = new AbortController();
+    const abort = (): void => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+
+    const steps = topologicalOrder(run.definition.steps);
+    const running = new Map<string, Promise<void>>();
+    let failure: string | undefined;
+
+    try {
+      while (!controller.signal.aborted) {
+        for (const step of steps) {
+          if (failure || running.size >= this.maxParallelSteps) break;
+          if (running.has(step.id) || this.stateOf(run, step.id).status !== 'PENDING') continue;
+          if (
+            !step.dependsOn.every(id => FINISHED_STEP_STATUSES.has(this.stateOf(run, id).status))
+          ) {
+            continue;
+          }
+
+          const task = this.runStep(run, step, controller.signal)
+            .then(state => {
+              if (state.status === 'FAILED' && !step.continueOnError) {
+                failure ??= `Step ${step.id} failed: ${state.error ?? 'Unknown error'}`;
+              }
+            })
+            .finally(() => running.delete(step.id));
+          running.set(step.id, task);
+        }
+
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+      }
+    } catch (error) {
+      // A store write failed; stop the other steps and leave the run to be resumed
+      controller.abort();
+      await Promise.allSettled(running.values());
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', abort);
+    }
+
+    if (controller.signal.aborted) return run;
+
+    if (failure) {
+      for (const step of steps) {
+        const state = this.stateOf(run, step.id);
+        if (state.status !== 'PENDING' && state.status !== 'AWAITING_APPROVAL') continue;
+        run.steps[step.id] = { ...state, status: 'CANCELLED' };
+        await this.store.saveStep(run.id, step.id, run.steps[step.id] as WorkflowStepState);
+      }
+      run.status = 'FAILED';
+      run.error = failure;
+      await this.store.saveRun(run.id, { status: 'FAILED', error: failure });
+      return run;
+    }
+
+    if (Object.values(run.steps).some(state => state.status === 'AWAITING_APPROVAL')) {
+      run.status = 'AWAITING_APPROVAL';
+      await this.store.saveRun(run.id, { status: 'AWAITING_APPROVAL' });
+      return run;
+    }
+
+    run.status = 'COMPLETED';
+    run.output = this.buildOutput(run);
+    await this.store.saveRun(run.id, { status: 'COMPLETED', output: run.output });
+    return run;
+  }
+
+  private stateOf(run: WorkflowRunState, stepId: string): WorkflowStepState {
+    return run.steps[stepId] ?? { status: 'PENDING', attempts: 0 };
+  }
+
+  private refContext(run: WorkflowRunState): WorkflowRefContext {
+    return { input: run.input, steps: run.steps };
+  }
+
+  private buildOutput(run: WorkflowRunState): unknown {
+    const { definition } = run;
+    if (definition.output) return resolveValue(definition.output, this.refContext(run));
+
+    const dependedOn = new Set(definition.steps.flatMap(step => step.dependsOn));
+    return Object.fromEntries(
+      definition.steps
+        .filter(step => !dependedOn.has(step.id) && run.steps[step.id]?.status === 'COMPLETED')
+        .map(step => [step.id, run.steps[step.id]?.output])
+    );
+  }
+
+  /**
+   * Run one step to completion, failure or skip. Never rejects unless the store does.
+   */
+  private async runStep(
+    run: WorkflowRunState,
+    step: WorkflowStep,
+    signal: AbortSignal
+  ): Promise<WorkflowStepState> {
+    let saving = Promise.resolve();
+    const save = (state: WorkflowStepState): Promise<void> => {
+      run.steps[step.id] = state;
+      if (signal.aborted) return saving;
+      saving = saving.then(() => this.store.saveStep(run.id, step.id, state));
+      return saving;
+    };
+
+    const context = this.refContext(run);
+    const previous = this.stateOf(run, step.id);
+    const conditions = step.when === undefined ? [] : [step.when].flat();
+    const dependencies = step.dependsOn.map(id => this.stateOf(run, id).status);
+
+    if (
+      (dependencies.length > 0 && dependencies.every(status => status === 'SKIPPED')) ||
+      !conditions.every(condition => evaluateCondition(condition, context))
+    ) {
+      const skipped: WorkflowStepState = { status: 'SKIPPED', attempts: previous.attempts };
+      await save(skipped);
+      return skipped;
+    }
+
+    const state: WorkflowStepState = {
+      ...previous,
+      status: 'RUNNING',
+      startedAt: previous.startedAt ?? new Date(),
+    };
+    delete state.error;
+    await save(state);
+
+    try {
+      if (step.forEach) {
+        state.output = await this.runItems(run, step, step.forEach, state, context, signal, save);
+      } else {
+        const input = resolveValue(step.input, context) as Record<string, unknown>;
+        state.input = input;
+        state.output = await this.withRetry(step, state, signal, () =>
+          this.runAttempt(run, step, input, signal)
+        );
+      }
+      state.status = 'COMPLETED';
+    } catch (error) {
+      if (signal.aborted) return state;
+      if (error instanceof WorkflowApprovalPendingError) {
+        state.status = 'AWAITING_APPROVAL';
+        await save({ ...state });
+        return state;
+      }
+      state.status = 'FAILED';
+      state.error = errorMessage(error);
+    }
+
+    state.completedAt = new Date();
+    await save({ ...state });
+    return state;
+  }
+
+  private async runItems(
+    run: WorkflowRunState,
+    step: WorkflowStep,
+    forEach: NonNullable<WorkflowStep['forEach']>,
+    state: WorkflowStepState,
+    context: WorkflowRefContext,
+    signal: AbortSignal,
+    save: (state: WorkflowStepState) => Promise<void>
+  ): Promise<unknown[]> {
+    const items = resolvePath(context, forEach.items);
+    if (!Array.isArray(items)) {
+      throw new WorkflowStepError(`forEach items "${forEach.items}" is not an array`, false);
+    }
+
+    const itemStates: WorkflowItemState[] = items.map((_, index) => {
+      const previous = state.items?.[index];
+      return previous?.status === 'COMPLETED'
+        ? previous
+        : { status: 'PENDING', attempts: previous?.attempts ?? 0 };
+    });
+    state.items = itemStates;
+
+    let next = 0;
+    let failed: { index: number; error: unknown } | undefined;
+    let awaitingApproval = false;
+
+    const work = async (): Promise<void> => {
+      while (next < items.length && !failed && !signal.aborted) {
+        const index = next++;
+        const itemState = itemStates[index] as WorkflowItemState;
+        if (itemState.status === 'COMPLETED') continue;
+
+        const input = resolveValue(step.input, {
+          ...context,
+          item: items[index],
+          index,
+        }) as Record<string, unknown>;
+        try {
+          itemState.output = await this.withRetry(step, itemState, signal, () =>
+            this.runAttempt(run, step, input, signal, index)
+          );
+          itemState.status = 'COMPLETED';
+        } catch (error) {
+          if (error instanceof WorkflowApprovalPendingError) {
+            // The other items go ahead; this one runs once the step is resumed
+            awaitingApproval = true;
+            continue;
+          }
+          itemState.status = 'FAILED';
+          itemState.error = errorMessage(error);
+          failed ??= { index, error };
+        }
+        state.attempts = itemStates.reduce((total, item) => total + item.attempts, 0);
+        await save({ ...state, items: itemStates.map(item => ({ ...item })) });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(forEach.concurrency, items.length) }, work));
+
+    if (failed) {
+      const retryable = !(failed.error instanceof WorkflowStepError) || failed.error.retryable;
+      throw new WorkflowStepError(`Item ${failed.index}: ${errorMessage(failed.error)}`, retryable);
+    }
+    if (awaitingApproval) throw new WorkflowApprovalPendingError(step.id);
+    return itemStates.map(item => item.output);
+  }
+
+  private async withRetry<T>(
+    step: WorkflowStep,
+    progress: { attempts: number },
+    signal: AbortSignal,
+    attempt: () => Promise<T>
+  ): Promise<T> {
+    for (let tries = 1; ; tries++) {
+      progress.attempts += 1;
+      try {
+        return await attempt();
+      } catch (error) {
+        if (error instanceof WorkflowApprovalPendingError) throw error;
+        const retryable = !(error instanceof WorkflowStepError) || error.retryable;
+        if (!retryable || tries >= step.retry.maxAttempts || signal.aborted) throw error;
+
+        const delayMs = Math.min(step.retry.backoffMs * 2 ** (tries - 1), step.retry.maxBackoffMs);
+        await sleep(delayMs, signal);
+        if (signal.aborted) throw error;
+      }
+    }
+  }
+
+  private async runAttempt(
+    run: WorkflowRunState,
+    step: WorkflowStep,
+    input: Record<string, unknown>,
+    signal: AbortSignal,
+    itemIndex?: number
+  ): Promise<unknown> {
+    const metadata: Record<string, unknown> = {
+      ...run.metadata,
+      workflowRunId: run.id,
+      workflowStepId: step.id,
+    };
+    const action = step.action ? this.actions.get(step.action) : undefined;
+    if (step.action && !action) {
+      throw new WorkflowStepError(`Unknown action "${step.action}"`, false);
+    }
+
+    const sideEffect = action
+      ? action.sideEffect
+      : getTaskSideEffect(step.agent ?? '', step.task ?? '');
+    if (sideEffect && this.approvals) {
+      const decision = await this.approvals.check({
+        runId: run.id,
+        stepId: step.id,
+        ...(itemIndex !== undefined && { itemIndex }),
+        action: step.action ?? `${step.agent}.${step.task}`,
+        sideEffect,
+        input,
+        metadata,
+      });
+      if (decision.status === 'pending') throw new WorkflowApprovalPendingError(step.id);
+      if (decision.status === 'rejected') throw new WorkflowStepError(decision.reason, false);
+
+      // Approvers may have edited what the step runs with
+      input = decision.input ?? input;
+      metadata.approvalId = decision.approvalId;
+    }
+
+    const options: WorkflowStepRunOptions = {
+      signal,
+      metadata,
+      ...(step.timeoutMs && { deadline: new Date(Date.now() + step.timeoutMs) }),
+    };
+
+    if (action) {
+      return action.run(input, { ...options, runId: run.id, stepId: step.id });
+    }
+
+    const result = await this.runner.runAgentTask(
+      step.agent ?? '',
+      step.task ?? '',
+      input,
+      options
+    );
+    if (!result.success) {
+      throw new WorkflowStepError(
+        result.error ?? 'Agent task failed',
+        result.errorCode !== 'invalid_payload' && result.errorCode !== 'approval_required'
+      );
+    }
+    return result.data;
+  }
+}
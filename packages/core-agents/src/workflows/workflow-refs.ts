@@ -0,0 +1,94 @@
+import { isWorkflowRef, type WorkflowCondition } from './workflow-definition';
+
+/**
+ * What `$ref` paths and conditions are resolved against while a step starts.
+ */
+export interface WorkflowRefContext {
+  input: Record<string, unknown>;
+  steps: Record<string, { status: string; output?: unknown; error?: string }>;
+  item?: unknown;
+  index?: number;
+}
+
+/**
+ * Follow a dotted path such as `steps.trends.output.trends.0.keyword`.
+ * Returns undefined as soon as a segment is missing.
+ */
+export function resolvePath(context: WorkflowRefContext, path: string): unknown {
+  let current: unknown = context;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    if (Array.isArray(current)) {
+      const index = Number(segment);
+      current = Number.isInteger(index) ? current[index] : undefined;
+    } else if (typeof current === 'object') {
+      current = Object.prototype.hasOwnProperty.call(current, segment)
+        ? (current as Record<string, unknown>)[segment]
+        : undefined;
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Copy `value`, replacing every `{ $ref }` object with what it points at
+ * (or its `default` when that is undefined).
+ */
+export function resolveValue(value: unknown, context: WorkflowRefContext): unknown {
+  if (isWorkflowRef(value)) {
+    const resolved = resolvePath(context, value.$ref);
+    return resolved === undefined ? value.default : resolved;
+  }
+  if (Array.isArray(value)) return value.map(entry => resolveValue(entry, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, resolveValue(entry, context)])
+    );
+  }
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compare(a: unknown, b: unknown, check: (difference: number) => boolean): boolean {
+  return typeof a === 'number' && typeof b === 'number' && check(a - b);
+}
+
+export function evaluateCondition(
+  condition: WorkflowCondition,
+  context: WorkflowRefContext
+): boolean {
+  const actual = resolvePath(context, condition.ref);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return isEqual(actual, expected);
+    case 'neq':
+      return !isEqual(actual, expected);
+    case 'gt':
+      return compare(actual, expected, difference => difference > 0);
+    case 'gte':
+      return compare(actual, expected, difference => difference >= 0);
+    case 'lt':
+      return compare(actual, expected, difference => difference < 0);
+    case 'lte':
+      return compare(actual, expected, difference => difference <= 0);
+    case 'in':
+      return Array.isArray(expected) && expected.some(option => isEqual(actual, option));
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'notExists':
+      return actual === undefined || actual === null;
+    case 'truthy':
+      return Array.isArray(actual) ? actual.length > 0 : Boolean(actual);
+    case 'falsy':
+      return Array.isArray(actual) ? actual.length === 0 : !actual;
+  }
+}
@@ -0,0 +1,114 @@
+import type { WorkflowDefinition } from './workflow-definition';
+
+export type WorkflowRunStatus =
+  | 'PENDING'
+  /** Held while the run's campaign is paused */
+  | 'PAUSED'
+  | 'RUNNING'
+  | 'AWAITING_APPROVAL'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'CANCELLED';
+
+export type WorkflowStepStatus =
+  | 'PENDING'
+  | 'RUNNING'
+  | 'AWAITING_APPROVAL'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'SKIPPED'
+  | 'CANCELLED';
+
+/** Progress of one element of a `forEach` step */
+export interface WorkflowItemState {
+  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  attempts: number;
+  output?: unknown;
+  error?: string;
+}
+
+export interface WorkflowStepState {
+  status: WorkflowStepStatus;
+  attempts: number;
+  input?: unknown;
+  output?: unknown;
+  error?: string;
+  items?: WorkflowItemState[];
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface WorkflowRunState {
+  id: string;
+  definition: WorkflowDefinition;
+  input: Record<string, unknown>;
+  status: WorkflowRunStatus;
+  /** Steps that have not started yet may be missing */
+  steps: Record<string, WorkflowStepState>;
+  output?: unknown;
+  error?: string;
+  /** Handed to every agent execution, e.g. `{ userId, campaignId }` */
+  metadata?: Record<string, unknown>;
+}
+
+export interface WorkflowRunUpdate {
+  status: WorkflowRunStatus;
+  output?: unknown;
+  error?: string;
+}
+
+/**
+ * Where the engine keeps run progress. Every step transition is saved before
+ * the engine moves on, so a run can be resumed from its last saved state.
+ */
+export interface WorkflowRunStore {
+  load(runId: string): Promise<WorkflowRunState | null>;
+  saveStep(runId: string, stepId: string, state: WorkflowStepState): Promise<void>;
+  saveRun(runId: string, update: WorkflowRunUpdate): Promise<void>;
+}
+
+export const TERMINAL_RUN_STATUSES: ReadonlySet<WorkflowRunStatus> = new Set([
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+]);
+
+/**
+ * Keeps runs in memory; for tests and single-process tools.
+ */
+export class InMemoryWorkflowRunStore implements WorkflowRunStore {
+  private readonly runs = new Map<string, WorkflowRunState>();
+  private nextId = 1;
+
+  create(
+    definition: WorkflowDefinition,
+    input: Record<string, unknown> = {},
+    metadata?: Record<string, unknown>
+  ): WorkflowRunState {
+    const run: WorkflowRunState = {
+      id: `run_${this.nextId++}`,
+      definition,
+      input,
+      status: 'PENDING',
+      steps: {},
+      ...(metadata && { metadata }),
+    };
+    this.runs.set(run.id, run);
+    return run;
+  }
+
+  async load(runId: string): Promise<WorkflowRunState | null> {
+    const run = this.runs.get(runId);
+    return run ? structuredClone(run) : null;
+  }
+
+  async saveStep(runId: string, stepId: string, state: WorkflowStepState): Promise<void> {
+    const run = this.runs.get(runId);
+    if (run) run.steps[stepId] = structuredClone(state);
+  }
+
+  async saveRun(runId: string, update: WorkflowRunUpdate): Promise<void> {
+    const run = this.runs.get(runId);
+    if (run) Object.assign(run, structuredClone(update));
+  }
+}
@@ -8,10 +8,12 @@ import {
   safeJsonParse,
   debounce,
   throttle,
+  getBackoffDelay,
   retry,
   isNotNullish,
   chunk,
-  pick
+  pick,
+  redactSensitive
 } from '../index';
 
 describe('Utility Functions', () => {
@@ -97,6 +99,18 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('getBackoffDelay', () => {
+    it('should double the delay for each attempt', () => {
+      expect(getBackoffDelay(1, 100)).toBe(100);
+      expect(getBackoffDelay(2, 100)).toBe(200);
+      expect(getBackoffDelay(4, 100)).toBe(800);
+    });
+
+    it('should cap the delay at maxDelay', () => {
+      expect(getBackoffDelay(10, 100, 1000)).toBe(1000);
+    });
+  });
+
   describe('retry', () => {
     it('should retry failed operations', async () => {
       let attempts = 0;
@@ -168,4 +182,46 @@ describe('Utility Functions', () => {
       expect(picked).toEqual({ a: 1 });
     });
   });
-}); 
\ No newline at end of file
+
+  describe('redactSensitive', () => {
+    it('should replace values under sensitive keys at any depth', () => {
+      const redacted = redactSensitive({
+        email: 'jane@example.com',
+        password: 'hunter2',
+        nested: { apiKey: 'sk-123', accessToken: 'abc', name: 'Jane' },
+      });
+
+      expect(redacted).toEqual({
+        email: 'jane@example.com',
+        password: '[REDACTED]',
+        nested: { apiKey: '[REDACTED]', accessToken: '[REDACTED]', name: 'Jane' },
+      });
+    });
+
+    it('should cut off long strings and arrays', () => {
+      const redacted = redactSensitive(
+        { body: 'x'.repeat(12), ids: [1, 2, 3, 4] },
+        { maxStringLength: 10, maxArrayLength: 2 }
+      );
+
+      expect(redacted).toEqual({ body: 'xxxxxxxxxx…[2 more]', ids: [1, 2, '[2 more]'] });
+    });
+
+    it('should truncate deeply nested values', () => {
+      const redacted = redactSensitive({ a: { b: { c: 1 } } }, { maxDepth: 2 });
+
+      expect(redacted).toEqual({ a: { b: '[Truncated]' } });
+    });
+
+    it('should serialize dates and leave primitives alone', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+
+      expect(redactSensitive({ at: date, count: 3, ok: true, none: null })).toEqual({
+        at: '2024-01-01T00:00:00.000Z',
+        count: 3,
+        ok: true,
+        none: null,
+      });
+    });
+  });
+});
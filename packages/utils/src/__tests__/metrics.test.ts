@@ -0,0 +1,269 @@
+/**
+ * Property-based tests for the analytics math
+ */
+
+import fc from 'fast-check';
+import {
+  averageValues,
+  cac,
+  conversionRate,
+  cpa,
+  cpc,
+  ctr,
+  engagementRate,
+  funnelConversion,
+  ltv,
+  movingAverage,
+  percentChange,
+  periodOverPeriod,
+  ratio,
+  roas,
+  roundMetric,
+} from '../metrics';
+
+const count = fc.integer({ min: 0, max: 1_000_000 });
+// Money and metric values in cents, so no subnormal doubles underflow when scaled
+const amount = fc.integer({ min: 0, max: 100_000_000 }).map(cents => cents / 100);
+const positive = fc.integer({ min: 1, max: 100_000_000 }).map(cents => cents / 100);
+// Daily series with gaps, as rollups return for quiet days
+const sparseSeries = fc.array(fc.option(amount, { nil: null, freq: 3 }), { maxLength: 60 });
+
+const closeTo = (actual: number | null, expected: number, tolerance = 1e-6): boolean =>
+  actual !== null && Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected));
+
+describe('Analytics math', () => {
+  describe('ratio', () => {
+    it('should be null exactly when the denominator is zero', () => {
+      fc.assert(
+        fc.property(amount, amount, (numerator, denominator) => {
+          expect(ratio(numerator, denominator) === null).toBe(denominator === 0);
+        })
+      );
+    });
+
+    it('should be null for non-finite inputs', () => {
+      expect(ratio(Number.NaN, 2)).toBeNull();
+      expect(ratio(1, Number.POSITIVE_INFINITY)).toBeNull();
+    });
+  });
+
+  describe('cost and return ratios', () => {
+    it('should multiply back to the spend or revenue they came from', () => {
+      fc.assert(
+        fc.property(amount, fc.integer({ min: 1, max: 1_000_000 }), (spend, units) => {
+          expect(closeTo(cpc(spend, units), spend / units)).toBe(true);
+          expect(closeTo((cpa(spend, units) ?? 0) * units, spend)).toBe(true);
+          expect(closeTo((cac(spend, units) ?? 0) * units, spend)).toBe(true);
+        })
+      );
+      fc.assert(
+        fc.property(amount, positive, (revenue, spend) => {
+          expect(closeTo((roas(revenue, spend) ?? 0) * spend, revenue)).toBe(true);
+        })
+      );
+    });
+
+    it('should be unknown without clicks, conversions, customers or spend', () => {
+      fc.assert(
+        fc.property(amount, spend => {
+          expect(cpc(spend, 0)).toBeNull();
+          expect(cpa(spend, 0)).toBeNull();
+          expect(cac(spend, 0)).toBeNull();
+          expect(roas(spend, 0)).toBeNull();
+        })
+      );
+    });
+  });
+
+  describe('rates', () => {
+    it('should stay within 0-100% when the part cannot exceed the whole', () => {
+      fc.assert(
+        fc.property(count, count, (a, b) => {
+          const [part, whole] = a <= b ? [a, b] : [b, a];
+          for (const rate of [
+            ctr(part, whole),
+            engagementRate(part, whole),
+            conversionRate(part, whole),
+          ]) {
+            if (whole === 0) {
+              expect(rate).toBeNull();
+            } else {
+              expect(rate).toBeGreaterThanOrEqual(0);
+              expect(rate).toBeLessThanOrEqual(100);
+            }
+          }
+        })
+      );
+    });
+  });
+
+  describe('ltv', () => {
+    it('should be revenue times margin over churn', () => {
+      fc.assert(
+        fc.property(
+          amount,
+          fc.double({ min: 0.001, max: 1, noNaN: true }),
+          fc.double({ min: 0, max: 1, noNaN: true }),
+          (revenuePerCustomer, churnRate, grossMargin) => {
+            const value = ltv({ revenuePerCustomer, churnRate, grossMargin });
+            expect(closeTo(value, (revenuePerCustomer * grossMargin) / churnRate)).toBe(true);
+          }
+        )
+      );
+    });
+
+    it('should be unknown without churn or with an impossible churn rate', () => {
+      expect(ltv({ revenuePerCustomer: 50, churnRate: 0 })).toBeNull();
+      expect(ltv({ revenuePerCustomer: 50, churnRate: 1.5 })).toBeNull();
+      expect(ltv({ revenuePerCustomer: 50, churnRate: 0.05 })).toBeCloseTo(1000);
+    });
+  });
+
+  describe('percentChange', () => {
+    it('should be zero for an unchanged value', () => {
+      fc.assert(
+        fc.property(amount, value => {
+          expect(percentChange(value, value)).toBe(0);
+        })
+      );
+    });
+
+    it('should recover the growth applied to a non-zero baseline', () => {
+      fc.assert(
+        fc.property(positive, fc.double({ min: -1, max: 10, noNaN: true }), (previous, growth) => {
+          expect(
+            closeTo(percentChange(previous * (1 + growth), previous), growth * 100, 1e-6)
+          ).toBe(true);
+        })
+      );
+    });
+
+    it('should be null growing from a zero baseline', () => {
+      fc.assert(
+        fc.property(positive, current => {
+          expect(percentChange(current, 0)).toBeNull();
+        })
+      );
+    });
+  });
+
+  describe('periodOverPeriod', () => {
+    it('should not change when every value is scaled', () => {
+      fc.assert(
+        fc.property(
+          sparseSeries,
+          fc.integer({ min: 1, max: 14 }),
+          positive,
+          (series, period, factor) => {
+            const base = periodOverPeriod(series, period);
+            const scaled = periodOverPeriod(
+              series.map(value => (value === null ? null : value * factor)),
+              period
+            );
+            if (base.change === null) {
+              expect(scaled.change === null || scaled.change === 0).toBe(true);
+            } else {
+              expect(closeTo(scaled.change, base.change, 1e-6)).toBe(true);
+            }
+          }
+        )
+      );
+    });
+
+    it('should be unknown when a period has no data', () => {
+      expect(periodOverPeriod([], 7)).toEqual({ current: null, previous: null, change: null });
+      expect(periodOverPeriod([5, 6, 7], 7).change).toBeNull();
+      expect(periodOverPeriod([null, null, 4, 6], 2)).toEqual({
+        current: 5,
+        previous: null,
+        change: null,
+      });
+    });
+
+    it('should compare means so a short earlier period still counts', () => {
+      expect(periodOverPeriod([10, 20, 20, 20], 3)).toEqual({
+        current: 20,
+        previous: 10,
+        change: 100,
+      });
+    });
+  });
+
+  describe('movingAverage', () => {
+    it('should return one point per value, within the range of its window', () => {
+      fc.assert(
+        fc.property(sparseSeries, fc.integer({ min: 1, max: 10 }), (series, window) => {
+          const averaged = movingAverage(series, window);
+          expect(averaged).toHaveLength(series.length);
+
+          averaged.forEach((point, index) => {
+            const inWindow = series
+              .slice(Math.max(0, index - window + 1), index + 1)
+              .filter((value): value is number => value !== null);
+            if (inWindow.length === 0) {
+              expect(point).toBeNull();
+            } else {
+              expect(closeTo(point, averageValues(inWindow) ?? 0, 1e-6)).toBe(true);
+            }
+          });
+        })
+      );
+    });
+
+    it('should leave a dense series unchanged with a window of one', () => {
+      fc.assert(
+        fc.property(fc.array(amount, { maxLength: 30 }), series => {
+          expect(movingAverage(series, 1)).toEqual(series);
+        })
+      );
+    });
+  });
+
+  describe('funnelConversion', () => {
+    it('should chain step rates into the overall rate', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({ min: 1, max: 100_000 }), { minLength: 1, maxLength: 6 }),
+          counts => {
+            const funnel = funnelConversion(
+              counts.map((value, index) => ({ name: `stage${index}`, count: value }))
+            );
+
+            let chained = 100;
+            funnel.forEach((step, index) => {
+              if (index === 0) {
+                expect(step.stepRate).toBeNull();
+                expect(step.overallRate).toBe(100);
+                return;
+              }
+              chained = (chained * (step.stepRate ?? 0)) / 100;
+              expect(closeTo(step.overallRate, chained, 1e-6)).toBe(true);
+              expect(step.dropOff).toBe((counts[index - 1] ?? 0) - step.count);
+            });
+          }
+        )
+      );
+    });
+
+    it('should leave rates after an empty stage unknown', () => {
+      const funnel = funnelConversion([
+        { name: 'impressions', count: 0 },
+        { name: 'clicks', count: 0 },
+      ]);
+
+      expect(funnel.map(step => [step.stepRate, step.overallRate])).toEqual([
+        [null, null],
+        [null, null],
+      ]);
+      expect(funnelConversion([])).toEqual([]);
+    });
+  });
+
+  describe('roundMetric', () => {
+    it('should round to the requested digits and keep null', () => {
+      expect(roundMetric(12.3456)).toBe(12.35);
+      expect(roundMetric(12.3456, 1)).toBe(12.3);
+      expect(roundMetric(null)).toBeNull();
+    });
+  });
+});
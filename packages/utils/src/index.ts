@@ -7,6 +7,9 @@ import type { Result } from '@/types';
 // Export logger
 export { logger, type Logger } from './logger';
 
+// Export analytics math
+export * from './metrics';
+
 /**
  * Delay execution for specified milliseconds
  */
@@ -76,6 +79,15 @@ export const throttle = <T extends (...args: unknown[]) => unknown>(
   };
 };
 
+/**
+ * Exponential backoff delay before the next attempt (attempts are 1-based)
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelay: number = 1000,
+  maxDelay: number = Number.POSITIVE_INFINITY
+): number => Math.min(baseDelay * Math.pow(2, Math.max(attempt, 1) - 1), maxDelay);
+
 /**
  * Retry async operation with exponential backoff
  */
@@ -97,8 +109,7 @@ export const retry = async <T>(
       }
       
       // Exponential backoff
-      const delayMs = baseDelay * Math.pow(2, attempt - 1);
-      await delay(delayMs);
+      await delay(getBackoffDelay(attempt, baseDelay));
     }
   }
   
@@ -137,4 +148,47 @@ export const pick = <T extends Record<string, unknown>, K extends keyof T>(
     }
   }
   return result;
-}; 
\ No newline at end of file
+}; 
+
+const SENSITIVE_KEY_PATTERN =
+  /passw(or)?d|passphrase|secret|token|api[-_]?key|authorization|cookie|credential|signature/i;
+
+/**
+ * Copy of a value that is safe to log or store: values under sensitive keys
+ * (passwords, tokens, API keys, ...) are replaced, long strings are cut off
+ * and deeply nested or very long structures are truncated
+ */
+export const redactSensitive = (
+  value: unknown,
+  options: { maxDepth?: number; maxStringLength?: number; maxArrayLength?: number } = {}
+): unknown => {
+  const { maxDepth = 6, maxStringLength = 1000, maxArrayLength = 50 } = options;
+
+  const visit = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') {
+      return current.length > maxStringLength
+        ? `${current.slice(0, maxStringLength)}…[${current.length - maxStringLength} more]`
+        : current;
+    }
+    if (current instanceof Date) return current.toISOString();
+    if (current === null || typeof current !== 'object') {
+      return typeof current === 'bigint' ? current.toString() : current;
+    }
+    if (depth >= maxDepth) return '[Truncated]';
+
+    if (Array.isArray(current)) {
+      const items = current.slice(0, maxArrayLength).map(item => visit(item, depth + 1));
+      return current.length > maxArrayLength
+        ? [...items, `[${current.length - maxArrayLength} more]`]
+        : items;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(current)) {
+      result[key] = SENSITIVE_KEY_PATTERN.test(key) ? '[REDACTED]' : visit(item, depth + 1);
+    }
+    return result;
+  };
+
+  return visit(value, 0);
+};
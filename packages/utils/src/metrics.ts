@@ -0,0 +1,205 @@
+/**
+ * Analytics math shared by every report: ratios, rates, trends and funnels.
+ *
+ * Metrics with no meaningful value are `null` rather than 0: a CTR without
+ * impressions or a change from a zero baseline is unknown, not zero. Callers
+ * decide how to show them. Non-finite inputs (NaN, Infinity) also give `null`.
+ * Rates are percentages (0-100); ROAS and LTV are plain ratios and amounts.
+ */
+
+const isFiniteNumber = (value: number): boolean => Number.isFinite(value);
+
+/**
+ * `numerator / denominator`, or null when the denominator is zero or either
+ * side is not a finite number
+ */
+export const ratio = (numerator: number, denominator: number): number | null => {
+  if (!isFiniteNumber(numerator) || !isFiniteNumber(denominator) || denominator === 0) {
+    return null;
+  }
+  return numerator / denominator;
+};
+
+/**
+ * `part` as a percentage of `whole`, or null when there is no whole
+ */
+export const percentage = (part: number, whole: number): number | null => {
+  const value = ratio(part, whole);
+  return value === null ? null : value * 100;
+};
+
+/**
+ * Round a metric for display; null stays null
+ */
+export const roundMetric = (value: number | null, digits: number = 2): number | null => {
+  if (value === null || !isFiniteNumber(value)) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Sum of the present values; missing (null) entries count as nothing
+ */
+export const sumValues = (values: ReadonlyArray<number | null>): number =>
+  values.reduce<number>(
+    (sum, value) => (value !== null && isFiniteNumber(value) ? sum + value : sum),
+    0
+  );
+
+/**
+ * Mean of the present values, or null when none are present
+ */
+export const averageValues = (values: ReadonlyArray<number | null>): number | null => {
+  const present = values.filter(
+    (value): value is number => value !== null && isFiniteNumber(value)
+  );
+  return present.length > 0 ? sumValues(present) / present.length : null;
+};
+
+/**
+ * Change from `previous` to `current` in percent. From zero to zero is no
+ * change; from zero to anything else has no defined percentage and is null.
+ */
+export const percentChange = (current: number, previous: number): number | null => {
+  if (!isFiniteNumber(current) || !isFiniteNumber(previous)) return null;
+  if (previous === 0) return current === 0 ? 0 : null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+export interface PeriodComparison {
+  /** Mean of the latest period's present values */
+  current: number | null;
+  /** Mean of the period before it */
+  previous: number | null;
+  /** Percent change of `current` over `previous` */
+  change: number | null;
+}
+
+/**
+ * Compare the last `period` values of a series with the `period` values
+ * before them. Periods are compared by their mean, so a short or sparse
+ * earlier period (e.g. a campaign that started mid-range) still compares
+ * fairly; a period without any values makes the change null.
+ */
+export const periodOverPeriod = (
+  values: ReadonlyArray<number | null>,
+  period: number
+): PeriodComparison => {
+  const size = Math.max(1, Math.floor(period));
+  const currentStart = Math.max(0, values.length - size);
+  const current = averageValues(values.slice(currentStart));
+  const previous = averageValues(values.slice(Math.max(0, currentStart - size), currentStart));
+
+  return {
+    current,
+    previous,
+    change: current === null || previous === null ? null : percentChange(current, previous),
+  };
+};
+
+/**
+ * Trailing moving average over `window` values. Missing values are skipped,
+ * so each point averages what its window has; a window with nothing in it
+ * gives null. The result has one entry per input value.
+ */
+export const movingAverage = (
+  values: ReadonlyArray<number | null>,
+  window: number
+): Array<number | null> => {
+  const size = Math.max(1, Math.floor(window));
+  // Each window is summed afresh; a running sum drifts with floating point error
+  return values.map((_, index) =>
+    averageValues(values.slice(Math.max(0, index - size + 1), index + 1))
+  );
+};
+
+/**
+ * Click-through rate: clicks per impression, in percent
+ */
+export const ctr = (clicks: number, impressions: number): number | null =>
+  percentage(clicks, impressions);
+
+/**
+ * Cost per click
+ */
+export const cpc = (spend: number, clicks: number): number | null => ratio(spend, clicks);
+
+/**
+ * Cost per acquisition: spend per conversion
+ */
+export const cpa = (spend: number, conversions: number): number | null => ratio(spend, conversions);
+
+/**
+ * Return on ad spend: revenue per unit of spend (3 means 3x the spend came back)
+ */
+export const roas = (revenue: number, spend: number): number | null => ratio(revenue, spend);
+
+/**
+ * Customer acquisition cost: sales and marketing spend per new customer
+ */
+export const cac = (spend: number, newCustomers: number): number | null =>
+  ratio(spend, newCustomers);
+
+/**
+ * Customer lifetime value from revenue per customer and churn over the same
+ * period (e.g. monthly), times the gross margin. Without churn the lifetime
+ * is unbounded and the value is null.
+ */
+export const ltv = (input: {
+  revenuePerCustomer: number;
+  churnRate: number;
+  grossMargin?: number;
+}): number | null => {
+  const { revenuePerCustomer, churnRate, grossMargin = 1 } = input;
+  if (churnRate < 0 || churnRate > 1) return null;
+  const lifetime = ratio(1, churnRate);
+  return lifetime === null || !isFiniteNumber(revenuePerCustomer) || !isFiniteNumber(grossMargin)
+    ? null
+    : revenuePerCustomer * grossMargin * lifetime;
+};
+
+/**
+ * Engagement (likes, comments, shares, ...) per person reached, in percent
+ */
+export const engagementRate = (engagement: number, reach: number): number | null =>
+  percentage(engagement, reach);
+
+/**
+ * Conversions per click, in percent
+ */
+export const conversionRate = (conversions: number, clicks: number): number | null =>
+  percentage(conversions, clicks);
+
+export interface FunnelStage {
+  name: string;
+  count: number;
+}
+
+export interface FunnelStep extends FunnelStage {
+  /** Percent of the previous stage that reached this one; null for the first stage */
+  stepRate: number | null;
+  /** Percent of the first stage that reached this one */
+  overallRate: number | null;
+  /** How many fewer reached this stage than the previous one */
+  dropOff: number;
+}
+
+/**
+ * Step and overall conversion of a funnel, e.g. impressions → clicks →
+ * conversions. Stages after an empty stage have no step rate. Counts are not
+ * forced to shrink: sparse or late-arriving data can make a stage larger than
+ * the one before it, which shows up as a rate above 100 and a negative drop-off.
+ */
+export const funnelConversion = (stages: readonly FunnelStage[]): FunnelStep[] => {
+  const first = stages[0];
+  return stages.map((stage, index) => {
+    const before = index > 0 ? stages[index - 1] : undefined;
+    return {
+      name: stage.name,
+      count: stage.count,
+      stepRate: before ? percentage(stage.count, before.count) : null,
+      overallRate: first ? percentage(stage.count, first.count) : null,
+      dropOff: before ? before.count - stage.count : 0,
+    };
+  });
+};